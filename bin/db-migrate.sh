@@ -34,6 +34,16 @@ for path in $MIGRATIONS; do
   npx supabase db query --linked -f "$path"
 done
 
+# Seed data generated from src/features/gameConfig (applied after the schema)
+echo "Generating seed data..."
+bun bin/generate-sql.ts
+
+for path in $(find "$SQL_DIR/generated" -maxdepth 1 -name '*.sql' -type f | sort); do
+  file=$(basename "$path")
+  echo "  Applying generated/$file..."
+  npx supabase db query --linked -f "$path"
+done
+
 echo "Done. Regenerating types..."
 npx supabase gen types typescript --project-id "$PROJECT_ID" > src/api/database.types.ts
 echo "Types updated."
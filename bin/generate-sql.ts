@@ -0,0 +1,810 @@
+/**
+ * Generates SQL seed files from the TypeScript game config so the DB copy never drifts.
+ * Output goes to src/api/sql/generated/ and is applied after the numbered migrations.
+ * Usage: bun run db:generate
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ADVENTURE } from '@/constants/adventureSettings';
+import { COMBAT } from '@/constants/combatSettings';
+import { COMBAT_RULE_FIXTURES } from '@/features/combat/utils/combatRuleFixtures';
+import {
+  cardAmount,
+  enemyAttackDamage,
+  frailBlock,
+  resolveEnemyHit,
+} from '@/features/combat/utils/combatRules';
+import {
+  ALL_CARDS,
+  ASCENSION_LEVELS,
+  BIOMES,
+  BOT_DIFFICULTIES,
+  BOT_POLICIES,
+  type Card,
+  DECK_OPERATIONS,
+  ENCOUNTERS,
+  ENEMY_INTENTS,
+  ENEMY_TEMPLATES,
+  SCHOOLS_BY_ROLE,
+  STARTER_DECK,
+  STATUS_BY_ID,
+  STATUSES,
+  TEAM_CONVERGENCES,
+  getEncountersForSlot,
+  getTeamConvergenceMultiplier,
+  RELICS,
+  POTION_BELT_SLOTS,
+  POTIONS,
+  type RelicEffect,
+} from '@/features/gameConfig';
+import type { RoleId } from '@/types/player';
+
+const OUT_DIR = join(__dirname, '..', 'src', 'api', 'sql', 'generated');
+
+const HEADER = (title: string) =>
+  `-- ${title}\n-- GENERATED by bin/generate-sql.ts — do not edit by hand.\n`;
+
+// ─── SQL literal helpers ────────────────────────────────────────
+
+const sqlText = (value: string | null | undefined) =>
+  value == null ? 'null' : `'${value.replace(/'/g, "''")}'`;
+const sqlInt = (value: number | null | undefined) => (value == null ? 'null' : String(value));
+const sqlBool = (value: boolean | undefined) => (value ? 'true' : 'false');
+const sqlJson = (value: unknown) => `${sqlText(JSON.stringify(value))}::jsonb`;
+const sqlTextArray = (values: string[]) => `array[${values.map(sqlText).join(', ')}]::text[]`;
+
+// ─── Ascension levels ───────────────────────────────────────────
+
+const ASCENSION_COLUMNS = ['level', 'icon', 'modifier'];
+
+const generateAscensionLevels = () => {
+  const updates = ASCENSION_COLUMNS.filter((c) => c !== 'level')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const rows = ASCENSION_LEVELS.map((level) =>
+    [sqlInt(level.level), sqlText(level.icon), sqlJson(level.modifier)].join(', '),
+  );
+
+  return [
+    HEADER('Ascension levels'),
+    `insert into public.ascension_levels (${ASCENSION_COLUMNS.join(', ')}) values`,
+    rows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (level) do update set ${updates};`,
+    '',
+    `delete from public.ascension_levels where level not in (${ASCENSION_LEVELS.map((l) => sqlInt(l.level)).join(', ')});`,
+    '',
+  ].join('\n');
+};
+
+// ─── Biomes ─────────────────────────────────────────────────────
+
+const BIOME_COLUMNS = ['id', 'position', 'name', 'description', 'phases'];
+
+const generateBiomes = () => {
+  const seen = new Set<string>();
+  const narrativeIds = new Set<string>();
+  const bossIds = new Set<string>();
+  for (const biome of BIOMES) {
+    if (seen.has(biome.id)) throw new Error(`Duplicate biome ${biome.id}`);
+    seen.add(biome.id);
+    // generate_adventure opens every run on the biome's early narratives
+    if (biome.phases.early.narratives.length === 0) {
+      throw new Error(`Biome ${biome.id} has no early narrative`);
+    }
+    // generate_adventure ends blocs on the core boss and the run on the resolve boss, whose
+    // bossName the boss enemy takes and whose bossId getBossIntro looks up
+    for (const phase of [biome.phases.core, biome.phases.resolve]) {
+      if (!phase.bossId || !phase.bossName || !phase.bossIntro) {
+        throw new Error(`Biome ${biome.id} needs a bossId, bossName and bossIntro on core and resolve`);
+      }
+      if (bossIds.has(phase.bossId)) throw new Error(`Duplicate boss ${phase.bossId}`);
+      bossIds.add(phase.bossId);
+    }
+    for (const phase of Object.values(biome.phases)) {
+      for (const narrative of phase.narratives) {
+        if (narrativeIds.has(narrative.id)) throw new Error(`Duplicate narrative ${narrative.id}`);
+        narrativeIds.add(narrative.id);
+        if (narrative.options.length === 0) {
+          throw new Error(`Narrative ${narrative.id} has no options`);
+        }
+      }
+    }
+  }
+
+  const updates = BIOME_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const rows = BIOMES.map((biome, position) =>
+    [
+      sqlText(biome.id),
+      sqlInt(position),
+      sqlText(biome.name),
+      sqlText(biome.description),
+      sqlJson(biome.phases),
+    ].join(', '),
+  );
+
+  return [
+    HEADER('Biomes'),
+    `insert into public.biomes (${BIOME_COLUMNS.join(', ')}) values`,
+    rows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (id) do update set ${updates};`,
+    '',
+    `delete from public.biomes where id not in (${BIOMES.map((b) => sqlText(b.id)).join(', ')});`,
+    '',
+  ].join('\n');
+};
+
+// ─── Bot policies ───────────────────────────────────────────────
+
+const BOT_POLICY_COLUMNS = ['id', 'icon', 'weights', 'low_hp_percent', 'target', 'converge_at'];
+const BOT_DIFFICULTY_COLUMNS = ['id', 'position', 'empower_skill', 'block_skill'];
+
+const generateBotPolicies = () => {
+  for (const policy of BOT_POLICIES) {
+    const negative = Object.entries(policy.weights).filter(([, weight]) => weight < 0);
+    if (negative.length > 0) {
+      throw new Error(`Bot policy ${policy.id} has negative weights: ${negative.map(([k]) => k).join(', ')}`);
+    }
+    if (policy.convergeAt < COMBAT.convergenceRequiredTraits) {
+      throw new Error(
+        `Bot policy ${policy.id} converges below ${COMBAT.convergenceRequiredTraits} empowered traits`,
+      );
+    }
+  }
+  for (const difficulty of BOT_DIFFICULTIES) {
+    const skills = [difficulty.empowerSkill, difficulty.blockSkill];
+    if (skills.some((skill) => skill < 0 || skill > 1)) {
+      throw new Error(`Bot difficulty ${difficulty.id} has a skill outside 0..1`);
+    }
+  }
+
+  const policyUpdates = BOT_POLICY_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+  const difficultyUpdates = BOT_DIFFICULTY_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const policyRows = BOT_POLICIES.map((policy) =>
+    [
+      sqlText(policy.id),
+      sqlText(policy.icon),
+      sqlJson(policy.weights),
+      sqlInt(policy.lowHpPercent),
+      sqlText(policy.target),
+      sqlInt(policy.convergeAt),
+    ].join(', '),
+  );
+  const difficultyRows = BOT_DIFFICULTIES.map((difficulty, index) =>
+    [
+      sqlText(difficulty.id),
+      sqlInt(index),
+      String(difficulty.empowerSkill),
+      String(difficulty.blockSkill),
+    ].join(', '),
+  );
+
+  return [
+    HEADER('Bot policies'),
+    `insert into public.bot_policies (${BOT_POLICY_COLUMNS.join(', ')}) values`,
+    policyRows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (id) do update set ${policyUpdates};`,
+    '',
+    `delete from public.bot_policies where id not in (${BOT_POLICIES.map((p) => sqlText(p.id)).join(', ')});`,
+    '',
+    `insert into public.bot_difficulties (${BOT_DIFFICULTY_COLUMNS.join(', ')}) values`,
+    difficultyRows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (id) do update set ${difficultyUpdates};`,
+    '',
+    `delete from public.bot_difficulties where id not in (${BOT_DIFFICULTIES.map((d) => sqlText(d.id)).join(', ')});`,
+    '',
+  ].join('\n');
+};
+
+// ─── Card definitions ───────────────────────────────────────────
+
+const CARD_COLUMNS = [
+  'id',
+  'name',
+  'cost',
+  'trait',
+  'description',
+  'upgrade_threshold',
+  'upgrade_name',
+  'upgrade_description',
+  'base_damage',
+  'upgraded_damage',
+  'base_block',
+  'upgraded_block',
+  'base_heal',
+  'upgraded_heal',
+  'base_burn',
+  'upgraded_burn',
+  'is_aoe',
+  'is_rare',
+  'is_signature',
+  'is_starter',
+  'starter_role',
+  'effects',
+  'upgraded_effects',
+  'keywords',
+];
+
+const starterIds = new Set(STARTER_DECK.map((c) => c.id));
+
+const roleForCard = (card: Card): RoleId | null => {
+  if (card.starterRole) return card.starterRole;
+  const entry = Object.entries(SCHOOLS_BY_ROLE).find(([, schools]) => schools.includes(card.trait));
+  return entry ? (entry[0] as RoleId) : null;
+};
+
+const cardRow = (card: Card) =>
+  [
+    sqlText(card.id),
+    sqlText(card.name),
+    sqlInt(card.cost),
+    sqlText(card.trait),
+    sqlText(card.description),
+    sqlInt(card.upgradeThreshold),
+    sqlText(card.upgradeName),
+    sqlText(card.upgradeDescription),
+    sqlInt(card.baseDamage),
+    sqlInt(card.upgradedDamage),
+    sqlInt(card.baseBlock),
+    sqlInt(card.upgradedBlock),
+    sqlInt(card.baseHeal),
+    sqlInt(card.upgradedHeal),
+    sqlInt(card.baseBurn),
+    sqlInt(card.upgradedBurn),
+    sqlBool(card.isAoe),
+    sqlBool(card.isRare),
+    sqlBool(card.isSignature),
+    sqlBool(starterIds.has(card.id)),
+    sqlText(roleForCard(card)),
+    sqlJson(card.effects),
+    sqlJson(card.upgradedEffects),
+    sqlTextArray(card.keywords ?? []),
+  ].join(', ');
+
+const generateCardDefinitions = () => {
+  const updates = CARD_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  return [
+    HEADER('Card definitions'),
+    `insert into public.card_definitions (${CARD_COLUMNS.join(', ')}) values`,
+    ALL_CARDS.map((card) => `  (${cardRow(card)})`).join(',\n'),
+    `on conflict (id) do update set ${updates};`,
+    '',
+    '-- Remove cards that no longer exist in the game config',
+    `delete from public.card_definitions where id not in (${ALL_CARDS.map((c) => sqlText(c.id)).join(', ')});`,
+    '',
+  ].join('\n');
+};
+
+// ─── Encounters ─────────────────────────────────────────────────
+
+const ENCOUNTER_COLUMNS = [
+  'id',
+  'description',
+  'blocs',
+  'phase',
+  'biomes',
+  'is_boss',
+  'is_elite',
+  'weight',
+  'enemies',
+];
+
+const generateEncounters = () => {
+  const templateIds = new Set(ENEMY_TEMPLATES.map((template) => template.id));
+  const biomeIds = new Set(BIOMES.map((biome) => biome.id));
+  const seen = new Set<string>();
+  for (const encounter of ENCOUNTERS) {
+    if (seen.has(encounter.id)) throw new Error(`Duplicate encounter ${encounter.id}`);
+    seen.add(encounter.id);
+    if (encounter.enemies.length === 0) throw new Error(`Encounter ${encounter.id} has no enemies`);
+    const unknown = encounter.enemies.filter((enemy) => !templateIds.has(enemy.templateId));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Encounter ${encounter.id} uses unknown templates: ${unknown.map((e) => e.templateId).join(', ')}`,
+      );
+    }
+    for (const biome of encounter.biomes ?? []) {
+      if (!biomeIds.has(biome)) throw new Error(`Encounter ${encounter.id} uses unknown biome ${biome}`);
+    }
+    if (encounter.blocs.some((bloc) => bloc < 1 || bloc > ADVENTURE.totalBlocs)) {
+      throw new Error(`Encounter ${encounter.id} has a bloc outside 1..${ADVENTURE.totalBlocs}`);
+    }
+    if ((encounter.weight ?? 1) <= 0) throw new Error(`Encounter ${encounter.id} needs a positive weight`);
+  }
+
+  // Every fight generate_adventure can produce must have something to roll
+  const slots = [
+    { phase: 'core', isBoss: false, isElite: false },
+    { phase: 'core', isBoss: false, isElite: true },
+    { phase: 'resolve', isBoss: true, isElite: false },
+  ] as const;
+  for (const biome of [null, ...biomeIds]) {
+    for (let bloc = 1; bloc <= ADVENTURE.totalBlocs; bloc++) {
+      for (const slot of slots) {
+        if (getEncountersForSlot({ ...slot, bloc, biome }).length === 0) {
+          throw new Error(
+            `No encounter for bloc ${bloc} ${slot.phase}${slot.isBoss ? ' boss' : ''}${slot.isElite ? ' elite' : ''} in ${biome ?? 'any biome'}`,
+          );
+        }
+      }
+    }
+  }
+
+  const updates = ENCOUNTER_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const rows = ENCOUNTERS.map((encounter) =>
+    [
+      sqlText(encounter.id),
+      sqlText(encounter.description),
+      `array[${encounter.blocs.map(sqlInt).join(', ')}]::int[]`,
+      sqlText(encounter.phase),
+      sqlTextArray(encounter.biomes ?? []),
+      sqlBool(encounter.isBoss ?? false),
+      sqlBool(encounter.isElite ?? false),
+      sqlInt(encounter.weight ?? 1),
+      sqlJson(
+        encounter.enemies.map((enemy) => ({
+          templateId: enemy.templateId,
+          hpMult: enemy.hpMult ?? 1,
+        })),
+      ),
+    ].join(', '),
+  );
+
+  return [
+    HEADER('Encounters'),
+    `insert into public.encounters (${ENCOUNTER_COLUMNS.join(', ')}) values`,
+    rows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (id) do update set ${updates};`,
+    '',
+    `delete from public.encounters where id not in (${ENCOUNTERS.map((e) => sqlText(e.id)).join(', ')});`,
+    '',
+  ].join('\n');
+};
+
+// ─── Enemy intents ──────────────────────────────────────────────
+
+const INTENT_COLUMNS = ['code', 'type', 'value', 'hits', 'status', 'target', 'icon', 'label_key'];
+
+const generateEnemyIntents = () => {
+  for (const intent of ENEMY_INTENTS) {
+    if (!intent.status) continue;
+    // Buffs land on the enemy itself, debuffs on its player target
+    const side = intent.type === 'debuff' ? 'player' : 'enemy';
+    if (!STATUS_BY_ID[intent.status].sides.includes(side)) {
+      throw new Error(`Intent ${intent.code} applies ${intent.status}, which ${side}s cannot carry`);
+    }
+  }
+
+  const knownCodes = new Set(ENEMY_INTENTS.map((intent) => intent.code));
+  const templateIds = new Set(ENEMY_TEMPLATES.map((template) => template.id));
+  for (const template of ENEMY_TEMPLATES) {
+    const patterns = [template.intentPattern, ...(template.phases ?? []).map((p) => p.intentPattern)];
+    const unknown = patterns.flat().filter((code) => !knownCodes.has(code));
+    if (unknown.length > 0) {
+      throw new Error(`Template ${template.id} uses unknown intent codes: ${unknown.join(', ')}`);
+    }
+    for (const phase of template.phases ?? []) {
+      for (const action of phase.actions) {
+        if (action.type === 'summon' && !templateIds.has(action.templateId)) {
+          throw new Error(`Template ${template.id} summons unknown template ${action.templateId}`);
+        }
+      }
+    }
+  }
+
+  const updates = INTENT_COLUMNS.filter((c) => c !== 'code')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const rows = ENEMY_INTENTS.map((intent) =>
+    [
+      sqlInt(intent.code),
+      sqlText(intent.type),
+      sqlInt(intent.value),
+      sqlInt(intent.hits),
+      sqlText(intent.status),
+      sqlText(intent.target),
+      sqlText(intent.icon),
+      sqlText(intent.labelKey),
+    ].join(', '),
+  );
+
+  const templateUpdates = ENEMY_TEMPLATES.map(
+    (template) =>
+      `update public.enemy_templates set intent_overrides = ${sqlJson(template.intentOverrides ?? {})}, ` +
+      `intent_targeting = ${sqlJson(template.intentTargeting ?? {})}, ` +
+      `phases = ${sqlJson(template.phases ?? [])} where id = ${sqlText(template.id)};`,
+  );
+
+  return [
+    HEADER('Enemy intents'),
+    `insert into public.enemy_intents (${INTENT_COLUMNS.join(', ')}) values`,
+    rows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (code) do update set ${updates};`,
+    '',
+    `delete from public.enemy_intents where code not in (${ENEMY_INTENTS.map((i) => i.code).join(', ')});`,
+    '',
+    '-- Per-template intent overrides and boss phases',
+    ...templateUpdates,
+    '',
+  ].join('\n');
+};
+
+// ─── Status definitions ─────────────────────────────────────────
+
+const STATUS_COLUMNS = [
+  'id',
+  'position',
+  'sides',
+  'kind',
+  'stacking',
+  'tick',
+  'decay',
+  'tick_effect',
+  'icon',
+  'label_key',
+];
+
+const generateStatusDefinitions = () => {
+  const updates = STATUS_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const rows = STATUSES.map((status, position) =>
+    [
+      sqlText(status.id),
+      sqlInt(position),
+      sqlTextArray(status.sides),
+      sqlText(status.kind),
+      sqlText(status.stacking),
+      sqlText(status.tick),
+      sqlText(status.decay),
+      sqlText(status.tickEffect),
+      sqlText(status.icon),
+      sqlText(status.labelKey),
+    ].join(', '),
+  );
+
+  return [
+    HEADER('Status definitions'),
+    `insert into public.status_definitions (${STATUS_COLUMNS.join(', ')}) values`,
+    rows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (id) do update set ${updates};`,
+    '',
+    `delete from public.status_definitions where id not in (${STATUSES.map((s) => sqlText(s.id)).join(', ')});`,
+    '',
+  ].join('\n');
+};
+
+// ─── Relic definitions ──────────────────────────────────────────
+
+const RELIC_COLUMNS = [
+  'id',
+  'position',
+  'name',
+  'description',
+  'icon',
+  'rarity',
+  'hook',
+  'trait',
+  'hp_percent',
+  'effects',
+  'shop_cost',
+];
+
+/** Relic and potion effects put statuses on enemies (apply) or the owner (gain) */
+const checkEffectStatuses = (owner: string, effects: RelicEffect[]) => {
+  for (const effect of effects) {
+    if (effect.type !== 'apply_status' && effect.type !== 'gain_status') continue;
+    const side = effect.type === 'apply_status' ? 'enemy' : 'player';
+    if (!STATUS_BY_ID[effect.status].sides.includes(side)) {
+      throw new Error(`${owner} applies ${effect.status}, which ${side}s cannot carry`);
+    }
+  }
+};
+
+const generateRelicDefinitions = () => {
+  for (const relic of RELICS) {
+    checkEffectStatuses(`Relic ${relic.id}`, relic.effects);
+    if (relic.rarity === 'boss' && relic.shopCost !== undefined) {
+      throw new Error(`Boss relic ${relic.id} cannot be sold in shops`);
+    }
+  }
+
+  const updates = RELIC_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const rows = RELICS.map((relic, position) =>
+    [
+      sqlText(relic.id),
+      sqlInt(position),
+      sqlText(relic.name),
+      sqlText(relic.description),
+      sqlText(relic.icon),
+      sqlText(relic.rarity),
+      sqlText(relic.trigger.hook),
+      sqlText(relic.trigger.hook === 'card_played' ? relic.trigger.trait : null),
+      sqlInt(relic.trigger.hook === 'hp_below' ? relic.trigger.percent : null),
+      sqlJson(relic.effects),
+      sqlInt(relic.shopCost),
+    ].join(', '),
+  );
+
+  return [
+    HEADER('Relic definitions'),
+    `insert into public.relic_definitions (${RELIC_COLUMNS.join(', ')}) values`,
+    rows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (id) do update set ${updates};`,
+    '',
+    `delete from public.relic_definitions where id not in (${RELICS.map((r) => sqlText(r.id)).join(', ')});`,
+    '',
+  ].join('\n');
+};
+
+// ─── Deck operations ────────────────────────────────────────────
+
+const DECK_OPERATION_COLUMNS = ['id', 'position', 'icon', 'shop_cost', 'cost_step'];
+
+const generateDeckOperations = () => {
+  const updates = DECK_OPERATION_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const rows = DECK_OPERATIONS.map((operation, position) =>
+    [
+      sqlText(operation.id),
+      sqlInt(position),
+      sqlText(operation.icon),
+      sqlInt(operation.shopCost),
+      sqlInt(operation.costStep),
+    ].join(', '),
+  );
+
+  return [
+    HEADER('Deck operations'),
+    `insert into public.deck_operations (${DECK_OPERATION_COLUMNS.join(', ')}) values`,
+    rows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (id) do update set ${updates};`,
+    '',
+    `delete from public.deck_operations where id not in (${DECK_OPERATIONS.map((o) => sqlText(o.id)).join(', ')});`,
+    '',
+  ].join('\n');
+};
+
+// ─── Potion definitions ─────────────────────────────────────────
+
+const POTION_COLUMNS = ['id', 'position', 'name', 'description', 'icon', 'effects', 'shop_cost'];
+
+const generatePotionDefinitions = () => {
+  for (const potion of POTIONS) {
+    checkEffectStatuses(`Potion ${potion.id}`, potion.effects);
+  }
+
+  const updates = POTION_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const rows = POTIONS.map((potion, position) =>
+    [
+      sqlText(potion.id),
+      sqlInt(position),
+      sqlText(potion.name),
+      sqlText(potion.description),
+      sqlText(potion.icon),
+      sqlJson(potion.effects),
+      sqlInt(potion.shopCost),
+    ].join(', '),
+  );
+
+  return [
+    HEADER('Potion definitions'),
+    `insert into public.potion_definitions (${POTION_COLUMNS.join(', ')}) values`,
+    rows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (id) do update set ${updates};`,
+    '',
+    `delete from public.potion_definitions where id not in (${POTIONS.map((p) => sqlText(p.id)).join(', ')});`,
+    '',
+    '-- Belt size of new characters',
+    `alter table public.characters alter column potion_slots set default ${sqlInt(POTION_BELT_SLOTS)};`,
+    '',
+  ].join('\n');
+};
+
+// ─── Team convergences ──────────────────────────────────────────
+
+const TEAM_CONVERGENCE_COLUMNS = [
+  'id',
+  'role_a',
+  'role_b',
+  'name',
+  'icon',
+  'damage',
+  'block',
+  'heal',
+  'vulnerable',
+  'weakened',
+  'burn',
+];
+
+/** Largest party size, i.e. the most players that can converge in one phase */
+const MAX_CONVERGING_PLAYERS = 3;
+
+const generateTeamConvergences = () => {
+  const roles = Object.keys(SCHOOLS_BY_ROLE) as RoleId[];
+  // Role pairs are stored sorted so the RPC can look them up with least()/greatest()
+  const pairKey = (a: RoleId, b: RoleId) => [a, b].sort() as [RoleId, RoleId];
+  const seen = new Set<string>();
+  for (const team of TEAM_CONVERGENCES) {
+    const key = pairKey(...team.roles).join('+');
+    if (team.roles[0] === team.roles[1]) throw new Error(`Team convergence ${team.id} pairs a role with itself`);
+    if (seen.has(key)) throw new Error(`Role pair ${key} has more than one team convergence`);
+    seen.add(key);
+  }
+  for (const a of roles) {
+    for (const b of roles) {
+      if (a !== b && !seen.has(pairKey(a, b).join('+'))) {
+        throw new Error(`Role pair ${a}+${b} has no team convergence`);
+      }
+    }
+  }
+
+  const updates = TEAM_CONVERGENCE_COLUMNS.filter((c) => c !== 'id')
+    .map((c) => `${c}=excluded.${c}`)
+    .join(', ');
+
+  const rows = TEAM_CONVERGENCES.map((team) => {
+    const [roleA, roleB] = pairKey(...team.roles);
+    return [
+      sqlText(team.id),
+      sqlText(roleA),
+      sqlText(roleB),
+      sqlText(team.name),
+      sqlText(team.icon),
+      sqlInt(team.base.damage ?? 0),
+      sqlInt(team.base.block ?? 0),
+      sqlInt(team.base.heal ?? 0),
+      sqlInt(team.base.vulnerable ?? 0),
+      sqlInt(team.base.weakened ?? 0),
+      sqlInt(team.base.burn ?? 0),
+    ].join(', ');
+  });
+
+  const multiplierRows = Array.from({ length: MAX_CONVERGING_PLAYERS - 1 }, (_, i) => i + 2).map(
+    (count) => `  (${sqlInt(count)}, ${getTeamConvergenceMultiplier(count)})`,
+  );
+
+  return [
+    HEADER('Team convergences'),
+    `insert into public.team_convergences (${TEAM_CONVERGENCE_COLUMNS.join(', ')}) values`,
+    rows.map((row) => `  (${row})`).join(',\n'),
+    `on conflict (id) do update set ${updates};`,
+    '',
+    `delete from public.team_convergences where id not in (${TEAM_CONVERGENCES.map((t) => sqlText(t.id)).join(', ')});`,
+    '',
+    '-- Multiplier by number of players who converged this phase',
+    'insert into public.team_convergence_multipliers (player_count, multiplier) values',
+    multiplierRows.join(',\n'),
+    'on conflict (player_count) do update set multiplier=excluded.multiplier;',
+    '',
+  ].join('\n');
+};
+
+// ─── Combat rules check ─────────────────────────────────────────
+// Fixtures are verified against the TS engine here, and against the SQL helpers at migrate time.
+
+const runFixture = (fixture: (typeof COMBAT_RULE_FIXTURES)[number]): unknown => {
+  switch (fixture.rule) {
+    case 'cardAmount': {
+      const { amount, amplified, weakened } = fixture.input;
+      return cardAmount(amount, amplified, weakened);
+    }
+    case 'resolveEnemyHit': {
+      const { amount, ...enemy } = fixture.input;
+      return resolveEnemyHit(amount, enemy);
+    }
+    case 'enemyAttackDamage': {
+      const { value, strength, weakened, targetVulnerable } = fixture.input;
+      return enemyAttackDamage(value, strength, weakened, targetVulnerable);
+    }
+    case 'frailBlock': {
+      const { amount, frail } = fixture.input;
+      return frailBlock(amount, frail);
+    }
+  }
+};
+
+const fixtureSqlCall = (fixture: (typeof COMBAT_RULE_FIXTURES)[number]) => {
+  switch (fixture.rule) {
+    case 'cardAmount': {
+      const { amount, amplified, weakened } = fixture.input;
+      return `public._card_amount(${amount}, ${amplified}, ${weakened})::text`;
+    }
+    case 'resolveEnemyHit': {
+      const { amount, hp, block, vulnerable } = fixture.input;
+      return `public._resolve_enemy_hit(${amount}, ${hp}, ${block}, ${vulnerable})::text`;
+    }
+    case 'enemyAttackDamage': {
+      const { value, strength, weakened, targetVulnerable } = fixture.input;
+      return `public._enemy_attack_damage(${value}, ${strength}, ${weakened}, ${targetVulnerable})::text`;
+    }
+    case 'frailBlock': {
+      const { amount, frail } = fixture.input;
+      return `public._frail_block(${amount}, ${frail})::text`;
+    }
+  }
+};
+
+const fixtureSqlExpected = (fixture: (typeof COMBAT_RULE_FIXTURES)[number]) =>
+  typeof fixture.expected === 'number'
+    ? sqlText(String(fixture.expected))
+    : `${sqlJson(fixture.expected)}::text`;
+
+const generateCombatRulesCheck = () => {
+  for (const fixture of COMBAT_RULE_FIXTURES) {
+    const actual = runFixture(fixture);
+    if (JSON.stringify(actual) !== JSON.stringify(fixture.expected)) {
+      throw new Error(
+        `combatRules.ts disagrees with fixture ${fixture.rule}(${JSON.stringify(fixture.input)}): ` +
+          `expected ${JSON.stringify(fixture.expected)}, got ${JSON.stringify(actual)}`,
+      );
+    }
+  }
+
+  const checks = COMBAT_RULE_FIXTURES.map(
+    (fixture) =>
+      `  if ${fixtureSqlCall(fixture)} is distinct from ${fixtureSqlExpected(fixture)} then\n` +
+      `    raise exception 'Combat rule mismatch: ${fixture.rule} ${JSON.stringify(fixture.input)}';\n` +
+      '  end if;',
+  );
+
+  return [
+    HEADER('Combat rules check'),
+    '-- Fails the migration if the SQL helpers drift from combatRuleFixtures.ts',
+    'do $$',
+    'begin',
+    ...checks,
+    'end;',
+    '$$;',
+    '',
+  ].join('\n');
+};
+
+// ─── Write files ────────────────────────────────────────────────
+
+const FILES: Record<string, () => string> = {
+  'ascension-levels.sql': generateAscensionLevels,
+  'biomes.sql': generateBiomes,
+  'bot-policies.sql': generateBotPolicies,
+  'card-definitions.sql': generateCardDefinitions,
+  'combat-rules-check.sql': generateCombatRulesCheck,
+  'deck-operations.sql': generateDeckOperations,
+  'encounters.sql': generateEncounters,
+  'enemy-intents.sql': generateEnemyIntents,
+  'potion-definitions.sql': generatePotionDefinitions,
+  'relic-definitions.sql': generateRelicDefinitions,
+  'status-definitions.sql': generateStatusDefinitions,
+  'team-convergences.sql': generateTeamConvergences,
+};
+
+mkdirSync(OUT_DIR, { recursive: true });
+
+for (const [file, generate] of Object.entries(FILES)) {
+  writeFileSync(join(OUT_DIR, file), generate());
+  console.log(`  Generated ${file}`);
+}
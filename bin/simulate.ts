@@ -0,0 +1,142 @@
+/**
+ * Headless balance simulator: plays seeded fights with bot policies on the game config's cards,
+ * enemy templates and encounters, fully offline, and writes the results to sim-output/.
+ * Fight i uses seed + i, so a run is reproducible and a fight can be replayed by its seed.
+ * Usage: bun run sim --fights 2000 --roles warrior,sage,ranger --policy balanced --bloc 2
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { summarizeCards, summarizeFights, toCsv } from '@/features/combat/simulator/balanceReport';
+import { type FightResult, simulateFight } from '@/features/combat/simulator/simulateFight';
+import {
+  ENCOUNTERS,
+  isBotDifficultyId,
+  isBotPolicyId,
+  MAX_ASCENSION,
+  SCHOOLS_BY_ROLE,
+} from '@/features/gameConfig';
+import { ADVENTURE } from '@/constants/adventureSettings';
+import type { PhaseType } from '@/types/adventure';
+import type { RoleId } from '@/types/player';
+
+const PHASES: PhaseType[] = ['early', 'core', 'resolve'];
+
+const { values: args } = parseArgs({
+  options: {
+    fights: { type: 'string', default: '1000' },
+    seed: { type: 'string', default: '1' },
+    roles: { type: 'string', default: 'warrior,sage,ranger' },
+    policy: { type: 'string', default: 'balanced' },
+    difficulty: { type: 'string', default: 'normal' },
+    bloc: { type: 'string', default: '1' },
+    phase: { type: 'string', default: 'core' },
+    biome: { type: 'string' },
+    boss: { type: 'boolean', default: false },
+    elite: { type: 'boolean', default: false },
+    ascension: { type: 'string', default: '0' },
+    encounter: { type: 'string' },
+    'max-turns': { type: 'string', default: '50' },
+    format: { type: 'string', default: 'csv' },
+    out: { type: 'string', default: join(__dirname, '..', 'sim-output') },
+  },
+});
+
+// ─── Validation ─────────────────────────────────────────────────
+
+const toInt = (name: string, value: string, min: number, max = Number.MAX_SAFE_INTEGER) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`--${name} must be an integer between ${min} and ${max}, got ${value}`);
+  }
+  return parsed;
+};
+
+const roles = args.roles.split(',').map((role) => role.trim());
+if (roles.length < 1 || roles.length > 3 || !roles.every((role) => role in SCHOOLS_BY_ROLE)) {
+  throw new Error(`--roles must list 1 to 3 of ${Object.keys(SCHOOLS_BY_ROLE).join(', ')}`);
+}
+if (!isBotPolicyId(args.policy)) throw new Error(`Unknown bot policy: ${args.policy}`);
+if (!isBotDifficultyId(args.difficulty)) {
+  throw new Error(`Unknown bot difficulty: ${args.difficulty}`);
+}
+if (!PHASES.includes(args.phase as PhaseType)) {
+  throw new Error(`--phase must be one of ${PHASES.join(', ')}`);
+}
+if (args.encounter && !ENCOUNTERS.some((e) => e.id === args.encounter)) {
+  throw new Error(`Unknown encounter: ${args.encounter}`);
+}
+if (args.format !== 'csv' && args.format !== 'json') {
+  throw new Error('--format must be csv or json');
+}
+
+const fightCount = toInt('fights', args.fights, 1);
+const seed = toInt('seed', args.seed, 0);
+const maxTurns = toInt('max-turns', args['max-turns'], 1);
+const options = {
+  roles: roles as RoleId[],
+  policy: args.policy,
+  difficulty: args.difficulty,
+  bloc: toInt('bloc', args.bloc, 1, ADVENTURE.totalBlocs),
+  phase: args.phase as PhaseType,
+  biome: args.biome ?? null,
+  isBoss: args.boss,
+  isElite: args.elite,
+  ascension: toInt('ascension', args.ascension, 0, MAX_ASCENSION),
+  encounterId: args.encounter,
+  maxTurns,
+};
+
+// ─── Run ────────────────────────────────────────────────────────
+
+const fights: FightResult[] = [];
+for (let i = 0; i < fightCount; i++) {
+  fights.push(simulateFight({ ...options, seed: seed + i }));
+}
+
+const summary = summarizeFights(fights);
+const cards = summarizeCards(fights);
+const outDir = resolve(args.out);
+
+mkdirSync(outDir, { recursive: true });
+writeFileSync(
+  join(outDir, 'summary.json'),
+  `${JSON.stringify({ options: { ...options, fights: fightCount, seed }, ...summary }, null, 2)}\n`,
+);
+
+if (args.format === 'json') {
+  writeFileSync(join(outDir, 'fights.json'), `${JSON.stringify(fights, null, 2)}\n`);
+  writeFileSync(join(outDir, 'cards.json'), `${JSON.stringify(cards, null, 2)}\n`);
+} else {
+  writeFileSync(
+    join(outDir, 'fights.csv'),
+    `${toCsv(fights, ['seed', 'encounterId', 'outcome', 'turns', 'damageTaken', 'hpLeftPercent', 'deaths'])}\n`,
+  );
+  writeFileSync(
+    join(outDir, 'cards.csv'),
+    `${toCsv(cards, [
+      'id',
+      'name',
+      'trait',
+      'plays',
+      'fightsPlayed',
+      'winRateWhenPlayed',
+      'damage',
+      'damagePerPlay',
+      'block',
+      'heal',
+      'support',
+      'dot',
+      'status',
+      'draw',
+      'energy',
+    ])}\n`,
+  );
+}
+
+console.log(
+  `  ${summary.fights} fights: ${summary.winRate}% won, ${summary.averageTurns} turns, ` +
+    `${summary.averageDamageTaken} damage taken, ${summary.timeouts} timeouts`,
+);
+console.log(`  Results written to ${outDir}`);
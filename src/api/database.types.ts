@@ -8,6 +8,45 @@ export type Database = {
   };
   public: {
     Tables: {
+      adventure_path_votes: {
+        Row: {
+          created_at: string;
+          next_position: number;
+          player_id: Database['public']['Enums']['player_id'];
+          room_id: string;
+          screen_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          next_position: number;
+          player_id: Database['public']['Enums']['player_id'];
+          room_id: string;
+          screen_id: string;
+        };
+        Update: {
+          created_at?: string;
+          next_position?: number;
+          player_id?: Database['public']['Enums']['player_id'];
+          room_id?: string;
+          screen_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'adventure_path_votes_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'adventure_path_votes_screen_id_fkey';
+            columns: ['screen_id'];
+            isOneToOne: false;
+            referencedRelation: 'adventure_screens';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       adventure_screens: {
         Row: {
           bloc: number;
@@ -15,6 +54,9 @@ export type Database = {
           created_at: string;
           id: string;
           is_completed: boolean;
+          map_lane: number;
+          map_row: number;
+          next_positions: number[];
           phase: Database['public']['Enums']['phase_type'];
           position: number;
           result_json: Json | null;
@@ -27,6 +69,9 @@ export type Database = {
           created_at?: string;
           id?: string;
           is_completed?: boolean;
+          map_lane?: number;
+          map_row?: number;
+          next_positions?: number[];
           phase: Database['public']['Enums']['phase_type'];
           position: number;
           result_json?: Json | null;
@@ -39,6 +84,9 @@ export type Database = {
           created_at?: string;
           id?: string;
           is_completed?: boolean;
+          map_lane?: number;
+          map_row?: number;
+          next_positions?: number[];
           phase?: Database['public']['Enums']['phase_type'];
           position?: number;
           result_json?: Json | null;
@@ -55,6 +103,96 @@ export type Database = {
           },
         ];
       };
+      ascension_levels: {
+        Row: {
+          icon: string;
+          level: number;
+          modifier: Json;
+        };
+        Insert: {
+          icon?: string;
+          level: number;
+          modifier: Json;
+        };
+        Update: {
+          icon?: string;
+          level?: number;
+          modifier?: Json;
+        };
+        Relationships: [];
+      };
+      biomes: {
+        Row: {
+          description: string;
+          id: string;
+          name: string;
+          phases: Json;
+          position: number;
+        };
+        Insert: {
+          description?: string;
+          id: string;
+          name: string;
+          phases: Json;
+          position?: number;
+        };
+        Update: {
+          description?: string;
+          id?: string;
+          name?: string;
+          phases?: Json;
+          position?: number;
+        };
+        Relationships: [];
+      };
+      bot_difficulties: {
+        Row: {
+          block_skill: number;
+          empower_skill: number;
+          id: string;
+          position: number;
+        };
+        Insert: {
+          block_skill: number;
+          empower_skill: number;
+          id: string;
+          position?: number;
+        };
+        Update: {
+          block_skill?: number;
+          empower_skill?: number;
+          id?: string;
+          position?: number;
+        };
+        Relationships: [];
+      };
+      bot_policies: {
+        Row: {
+          converge_at: number;
+          icon: string;
+          id: string;
+          low_hp_percent: number;
+          target: string;
+          weights: Json;
+        };
+        Insert: {
+          converge_at: number;
+          icon?: string;
+          id: string;
+          low_hp_percent: number;
+          target: string;
+          weights: Json;
+        };
+        Update: {
+          converge_at?: number;
+          icon?: string;
+          id?: string;
+          low_hp_percent?: number;
+          target?: string;
+          weights?: Json;
+        };
+        Relationships: [];
+      };
       card_definitions: {
         Row: {
           base_block: number | null;
@@ -63,11 +201,13 @@ export type Database = {
           base_heal: number | null;
           cost: number;
           description: string;
+          effects: Json;
           id: string;
           is_aoe: boolean;
           is_rare: boolean;
           is_signature: boolean;
           is_starter: boolean;
+          keywords: string[];
           name: string;
           starter_role: Database['public']['Enums']['role_id'] | null;
           trait: string;
@@ -77,6 +217,7 @@ export type Database = {
           upgraded_block: number | null;
           upgraded_burn: number | null;
           upgraded_damage: number | null;
+          upgraded_effects: Json;
           upgraded_heal: number | null;
         };
         Insert: {
@@ -86,11 +227,13 @@ export type Database = {
           base_heal?: number | null;
           cost?: number;
           description?: string;
+          effects?: Json;
           id: string;
           is_aoe?: boolean;
           is_rare?: boolean;
           is_signature?: boolean;
           is_starter?: boolean;
+          keywords?: string[];
           name: string;
           starter_role?: Database['public']['Enums']['role_id'] | null;
           trait: string;
@@ -100,6 +243,7 @@ export type Database = {
           upgraded_block?: number | null;
           upgraded_burn?: number | null;
           upgraded_damage?: number | null;
+          upgraded_effects?: Json;
           upgraded_heal?: number | null;
         };
         Update: {
@@ -109,11 +253,13 @@ export type Database = {
           base_heal?: number | null;
           cost?: number;
           description?: string;
+          effects?: Json;
           id?: string;
           is_aoe?: boolean;
           is_rare?: boolean;
           is_signature?: boolean;
           is_starter?: boolean;
+          keywords?: string[];
           name?: string;
           starter_role?: Database['public']['Enums']['role_id'] | null;
           trait?: string;
@@ -123,6 +269,7 @@ export type Database = {
           upgraded_block?: number | null;
           upgraded_burn?: number | null;
           upgraded_damage?: number | null;
+          upgraded_effects?: Json;
           upgraded_heal?: number | null;
         };
         Relationships: [];
@@ -130,6 +277,8 @@ export type Database = {
       characters: {
         Row: {
           created_at: string;
+          deck: Json;
+          deck_ops_bought: number;
           exp: number;
           gold: number;
           hp: number;
@@ -138,12 +287,18 @@ export type Database = {
           level: number;
           name: string;
           player_id: Database['public']['Enums']['player_id'];
+          potion_slots: number;
+          potions: string[];
+          relics: string[];
           room_id: string;
+          rested_screen_id: string | null;
           taunt_turns_left: number;
           updated_at: string;
         };
         Insert: {
           created_at?: string;
+          deck?: Json;
+          deck_ops_bought?: number;
           exp?: number;
           gold?: number;
           hp?: number;
@@ -152,12 +307,18 @@ export type Database = {
           level?: number;
           name: string;
           player_id: Database['public']['Enums']['player_id'];
+          potion_slots?: number;
+          potions?: string[];
+          relics?: string[];
           room_id: string;
+          rested_screen_id?: string | null;
           taunt_turns_left?: number;
           updated_at?: string;
         };
         Update: {
           created_at?: string;
+          deck?: Json;
+          deck_ops_bought?: number;
           exp?: number;
           gold?: number;
           hp?: number;
@@ -166,7 +327,11 @@ export type Database = {
           level?: number;
           name?: string;
           player_id?: Database['public']['Enums']['player_id'];
+          potion_slots?: number;
+          potions?: string[];
+          relics?: string[];
           room_id?: string;
+          rested_screen_id?: string | null;
           taunt_turns_left?: number;
           updated_at?: string;
         };
@@ -180,27 +345,112 @@ export type Database = {
           },
         ];
       };
+      combat_events: {
+        Row: {
+          actor_id: string;
+          actor_type: string;
+          card_id: string | null;
+          created_at: string;
+          event_type: string;
+          final_amount: number | null;
+          id: number;
+          phase: string;
+          raw_amount: number | null;
+          room_id: string;
+          screen_id: string;
+          source: string | null;
+          statuses: Json;
+          target_id: string | null;
+          target_type: string | null;
+          turn_number: number;
+        };
+        Insert: {
+          actor_id: string;
+          actor_type: string;
+          card_id?: string | null;
+          created_at?: string;
+          event_type: string;
+          final_amount?: number | null;
+          id?: number;
+          phase: string;
+          raw_amount?: number | null;
+          room_id: string;
+          screen_id: string;
+          source?: string | null;
+          statuses?: Json;
+          target_id?: string | null;
+          target_type?: string | null;
+          turn_number: number;
+        };
+        Update: {
+          actor_id?: string;
+          actor_type?: string;
+          card_id?: string | null;
+          created_at?: string;
+          event_type?: string;
+          final_amount?: number | null;
+          id?: number;
+          phase?: string;
+          raw_amount?: number | null;
+          room_id?: string;
+          screen_id?: string;
+          source?: string | null;
+          statuses?: Json;
+          target_id?: string | null;
+          target_type?: string | null;
+          turn_number?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'combat_events_card_id_fkey';
+            columns: ['card_id'];
+            isOneToOne: false;
+            referencedRelation: 'card_definitions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'combat_events_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'combat_events_screen_id_fkey';
+            columns: ['screen_id'];
+            isOneToOne: false;
+            referencedRelation: 'adventure_screens';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       combat_turns: {
         Row: {
+          converged_player_ids: Database['public']['Enums']['player_id'][];
           created_at: string;
           id: string;
           phase: string;
+          phase_deadline: string | null;
           room_id: string;
           screen_id: string;
           turn_number: number;
         };
         Insert: {
+          converged_player_ids?: Database['public']['Enums']['player_id'][];
           created_at?: string;
           id?: string;
           phase?: string;
+          phase_deadline?: string | null;
           room_id: string;
           screen_id: string;
           turn_number?: number;
         };
         Update: {
+          converged_player_ids?: Database['public']['Enums']['player_id'][];
           created_at?: string;
           id?: string;
           phase?: string;
+          phase_deadline?: string | null;
           room_id?: string;
           screen_id?: string;
           turn_number?: number;
@@ -222,6 +472,100 @@ export type Database = {
           },
         ];
       };
+      combat_undo_stack: {
+        Row: {
+          card_id: string | null;
+          changes: Json;
+          created_at: string;
+          event_ids: number[];
+          id: number;
+          player_id: Database['public']['Enums']['player_id'];
+          room_id: string;
+          screen_id: string;
+          turn_number: number;
+        };
+        Insert: {
+          card_id?: string | null;
+          changes?: Json;
+          created_at?: string;
+          event_ids?: number[];
+          id?: number;
+          player_id: Database['public']['Enums']['player_id'];
+          room_id: string;
+          screen_id: string;
+          turn_number: number;
+        };
+        Update: {
+          card_id?: string | null;
+          changes?: Json;
+          created_at?: string;
+          event_ids?: number[];
+          id?: number;
+          player_id?: Database['public']['Enums']['player_id'];
+          room_id?: string;
+          screen_id?: string;
+          turn_number?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'combat_undo_stack_card_id_fkey';
+            columns: ['card_id'];
+            isOneToOne: false;
+            referencedRelation: 'card_definitions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'combat_undo_stack_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'combat_undo_stack_screen_id_fkey';
+            columns: ['screen_id'];
+            isOneToOne: false;
+            referencedRelation: 'adventure_screens';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      encounters: {
+        Row: {
+          biomes: string[];
+          blocs: number[];
+          description: string;
+          enemies: Json;
+          id: string;
+          is_boss: boolean;
+          is_elite: boolean;
+          phase: Database['public']['Enums']['phase_type'];
+          weight: number;
+        };
+        Insert: {
+          biomes?: string[];
+          blocs: number[];
+          description?: string;
+          enemies: Json;
+          id: string;
+          is_boss?: boolean;
+          is_elite?: boolean;
+          phase: Database['public']['Enums']['phase_type'];
+          weight?: number;
+        };
+        Update: {
+          biomes?: string[];
+          blocs?: number[];
+          description?: string;
+          enemies?: Json;
+          id?: string;
+          is_boss?: boolean;
+          is_elite?: boolean;
+          phase?: Database['public']['Enums']['phase_type'];
+          weight?: number;
+        };
+        Relationships: [];
+      };
       enemies: {
         Row: {
           attack: number;
@@ -283,6 +627,7 @@ export type Database = {
         Row: {
           block: number;
           burn: number;
+          frail: number;
           hp: number;
           hp_max: number;
           icon: string;
@@ -290,10 +635,14 @@ export type Database = {
           intent_index: number;
           is_dead: boolean;
           name: string;
+          phase: number;
+          poison: number;
           position: number;
           room_id: string;
           screen_id: string;
           strength: number;
+          strength_down: number;
+          stun: number;
           template_id: string;
           vulnerable: number;
           weakened: number;
@@ -301,6 +650,7 @@ export type Database = {
         Insert: {
           block?: number;
           burn?: number;
+          frail?: number;
           hp: number;
           hp_max: number;
           icon?: string;
@@ -308,10 +658,14 @@ export type Database = {
           intent_index?: number;
           is_dead?: boolean;
           name: string;
+          phase?: number;
+          poison?: number;
           position?: number;
           room_id: string;
           screen_id: string;
           strength?: number;
+          strength_down?: number;
+          stun?: number;
           template_id: string;
           vulnerable?: number;
           weakened?: number;
@@ -319,6 +673,7 @@ export type Database = {
         Update: {
           block?: number;
           burn?: number;
+          frail?: number;
           hp?: number;
           hp_max?: number;
           icon?: string;
@@ -326,10 +681,14 @@ export type Database = {
           intent_index?: number;
           is_dead?: boolean;
           name?: string;
+          phase?: number;
+          poison?: number;
           position?: number;
           room_id?: string;
           screen_id?: string;
           strength?: number;
+          strength_down?: number;
+          stun?: number;
           template_id?: string;
           vulnerable?: number;
           weakened?: number;
@@ -351,7 +710,9 @@ export type Database = {
           icon: string;
           id: string;
           intent_pattern: number[];
+          intent_targeting: Json;
           name: string;
+          phases: Json;
           scaling_per_fight: number;
           strength_scaling: number;
         };
@@ -361,7 +722,9 @@ export type Database = {
           icon?: string;
           id: string;
           intent_pattern?: number[];
+          intent_targeting?: Json;
           name: string;
+          phases?: Json;
           scaling_per_fight?: number;
           strength_scaling?: number;
         };
@@ -371,12 +734,32 @@ export type Database = {
           icon?: string;
           id?: string;
           intent_pattern?: number[];
+          intent_targeting?: Json;
           name?: string;
+          phases?: Json;
           scaling_per_fight?: number;
           strength_scaling?: number;
         };
         Relationships: [];
       };
+      player_ascension: {
+        Row: {
+          max_level: number;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          max_level?: number;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          max_level?: number;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       player_combat_state: {
         Row: {
           attune_charges: number;
@@ -386,13 +769,18 @@ export type Database = {
           discard_pile: Json;
           draw_pile: Json;
           energy: number;
+          exhaust_pile: Json;
+          frail: number;
           free_reroll: boolean;
           hand: Json;
           id: string;
           identity_id: string;
           max_energy: number;
           player_id: Database['public']['Enums']['player_id'];
+          poison: number;
           regen: number;
+          relics_fired: string[];
+          retained_block: number;
           room_id: string;
           screen_id: string;
           starting_block: number;
@@ -409,13 +797,18 @@ export type Database = {
           discard_pile?: Json;
           draw_pile?: Json;
           energy?: number;
+          exhaust_pile?: Json;
+          frail?: number;
           free_reroll?: boolean;
           hand?: Json;
           id?: string;
           identity_id?: string;
           max_energy?: number;
           player_id: Database['public']['Enums']['player_id'];
+          poison?: number;
           regen?: number;
+          relics_fired?: string[];
+          retained_block?: number;
           room_id: string;
           screen_id: string;
           starting_block?: number;
@@ -432,13 +825,18 @@ export type Database = {
           discard_pile?: Json;
           draw_pile?: Json;
           energy?: number;
+          exhaust_pile?: Json;
+          frail?: number;
           free_reroll?: boolean;
           hand?: Json;
           id?: string;
           identity_id?: string;
           max_energy?: number;
           player_id?: Database['public']['Enums']['player_id'];
+          poison?: number;
           regen?: number;
+          relics_fired?: string[];
+          retained_block?: number;
           room_id?: string;
           screen_id?: string;
           starting_block?: number;
@@ -542,6 +940,42 @@ export type Database = {
         };
         Relationships: [];
       };
+      room_biome_votes: {
+        Row: {
+          biome: string | null;
+          created_at: string;
+          player_id: Database['public']['Enums']['player_id'];
+          room_id: string;
+        };
+        Insert: {
+          biome?: string | null;
+          created_at?: string;
+          player_id: Database['public']['Enums']['player_id'];
+          room_id: string;
+        };
+        Update: {
+          biome?: string | null;
+          created_at?: string;
+          player_id?: Database['public']['Enums']['player_id'];
+          room_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'room_biome_votes_biome_fkey';
+            columns: ['biome'];
+            isOneToOne: false;
+            referencedRelation: 'biomes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'room_biome_votes_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       room_events: {
         Row: {
           actor_user_id: string | null;
@@ -617,11 +1051,16 @@ export type Database = {
       };
       room_players: {
         Row: {
+          bot_difficulty: string;
+          bot_policy: string;
+          bot_takeover: boolean;
           display_name: string | null;
           id: string;
           is_bot: boolean;
           is_connected: boolean;
           joined_at: string;
+          last_seen_at: string;
+          missed_turns: number;
           player_id: Database['public']['Enums']['player_id'];
           role_id: Database['public']['Enums']['role_id'] | null;
           room_id: string;
@@ -629,11 +1068,16 @@ export type Database = {
           user_id: string;
         };
         Insert: {
+          bot_difficulty?: string;
+          bot_policy?: string;
+          bot_takeover?: boolean;
           display_name?: string | null;
           id?: string;
           is_bot?: boolean;
           is_connected?: boolean;
           joined_at?: string;
+          last_seen_at?: string;
+          missed_turns?: number;
           player_id: Database['public']['Enums']['player_id'];
           role_id?: Database['public']['Enums']['role_id'] | null;
           room_id: string;
@@ -641,11 +1085,16 @@ export type Database = {
           user_id: string;
         };
         Update: {
+          bot_difficulty?: string;
+          bot_policy?: string;
+          bot_takeover?: boolean;
           display_name?: string | null;
           id?: string;
           is_bot?: boolean;
           is_connected?: boolean;
           joined_at?: string;
+          last_seen_at?: string;
+          missed_turns?: number;
           player_id?: Database['public']['Enums']['player_id'];
           role_id?: Database['public']['Enums']['role_id'] | null;
           room_id?: string;
@@ -662,45 +1111,122 @@ export type Database = {
           },
         ];
       };
+      room_rng_streams: {
+        Row: {
+          counter: number;
+          room_id: string;
+          stream: string;
+        };
+        Insert: {
+          counter?: number;
+          room_id: string;
+          stream: string;
+        };
+        Update: {
+          counter?: number;
+          room_id?: string;
+          stream?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'room_rng_streams_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       rooms: {
         Row: {
+          ascension: number;
+          biome: string | null;
+          bot_takeover_after: number | null;
           code: string;
           created_at: string;
           current_bloc: number;
           current_screen_position: number;
           host_user_id: string;
           id: string;
+          seed: number;
           status: Database['public']['Enums']['room_status'];
           target_player_count: number;
+          turn_seconds: number | null;
           updated_at: string;
         };
         Insert: {
+          ascension?: number;
+          biome?: string | null;
+          bot_takeover_after?: number | null;
           code: string;
           created_at?: string;
           current_bloc?: number;
           current_screen_position?: number;
           host_user_id: string;
           id?: string;
+          seed?: number;
           status?: Database['public']['Enums']['room_status'];
           target_player_count?: number;
+          turn_seconds?: number | null;
           updated_at?: string;
         };
         Update: {
+          ascension?: number;
+          biome?: string | null;
+          bot_takeover_after?: number | null;
           code?: string;
           created_at?: string;
           current_bloc?: number;
           current_screen_position?: number;
           host_user_id?: string;
           id?: string;
+          seed?: number;
           status?: Database['public']['Enums']['room_status'];
           target_player_count?: number;
+          turn_seconds?: number | null;
           updated_at?: string;
         };
         Relationships: [];
       };
     };
     Views: {
-      [_ in never]: never;
+      analytics_cards: {
+        Row: {
+          card_id: string | null;
+          is_starter: boolean | null;
+          name: string | null;
+          offers: number | null;
+          pick_rate: number | null;
+          picks: number | null;
+          runs_in_deck: number | null;
+          trait: string | null;
+          win_rate_in_deck: number | null;
+          wins_in_deck: number | null;
+        };
+        Relationships: [];
+      };
+      analytics_encounters: {
+        Row: {
+          average_turns: number | null;
+          deaths: number | null;
+          encounter_id: string | null;
+          fights: number | null;
+          victories: number | null;
+          win_rate: number | null;
+          wipes: number | null;
+        };
+        Relationships: [];
+      };
+      analytics_lethal_enemies: {
+        Row: {
+          fights_with_kills: number | null;
+          kills: number | null;
+          name: string | null;
+          template_id: string | null;
+          wipes: number | null;
+        };
+        Relationships: [];
+      };
     };
     Functions: {
       _apply_roll: {
@@ -708,15 +1234,35 @@ export type Database = {
         Returns: Record<string, unknown>;
       };
       _draw_hand: {
-        Args: { p_discard_pile: Json; p_draw_pile: Json; p_hand_size?: number };
+        Args: {
+          p_discard_pile: Json;
+          p_draw_pile: Json;
+          p_hand_size?: number;
+          p_room_id?: string;
+          p_stream?: string;
+        };
         Returns: Json;
       };
       _draw_spell_hand: {
         Args: { p_role_id: Database['public']['Enums']['role_id'] };
         Returns: string[];
       };
+      _rng_at: {
+        Args: { p_n: number; p_seed: number; p_stream: string };
+        Returns: number;
+      };
+      _rng_int: {
+        Args: { p_max: number; p_min: number; p_room_id: string; p_stream: string };
+        Returns: number;
+      };
+      _rng_next: { Args: { p_room_id: string; p_stream: string }; Returns: number };
+      _rng_sample: {
+        Args: { p_count: number; p_items: string[]; p_room_id: string; p_stream: string };
+        Returns: string[];
+      };
       admin_delete_all_rooms: { Args: never; Returns: undefined };
       advance_screen: { Args: { p_room_id: string }; Returns: Json };
+      analytics_report: { Args: never; Returns: Json };
       apply_screen_effect: {
         Args: {
           p_exp_delta?: number;
@@ -736,7 +1282,7 @@ export type Database = {
       };
       combat_check_level_up: { Args: { p_char_id: string }; Returns: undefined };
       combat_end_turn: { Args: { p_room_id: string }; Returns: Json };
-      combat_enemy_phase: { Args: { p_room_id: string }; Returns: Json };
+      combat_expire_phase: { Args: { p_room_id: string }; Returns: Json };
       combat_generate_rewards: { Args: { p_room_id: string }; Returns: Json };
       combat_init_turn: {
         Args: { p_room_id: string; p_screen_id: string };
@@ -747,14 +1293,17 @@ export type Database = {
           p_hand_index: number;
           p_room_id: string;
           p_target_enemy_idx?: number;
+          p_target_player_id?: Database['public']['Enums']['player_id'];
         };
         Returns: Json;
       };
+      combat_reclaim_control: { Args: { p_room_id: string }; Returns: Json };
       combat_reroll_hand: { Args: { p_room_id: string }; Returns: undefined };
       combat_select_reward: {
         Args: { p_reward_id: string; p_reward_type: string; p_room_id: string };
         Returns: Json;
       };
+      combat_undo_last: { Args: { p_room_id: string }; Returns: Json };
       combat_use_convergence:
         | {
             Args: { p_room_id: string; p_target_enemy_id?: string };
@@ -764,6 +1313,7 @@ export type Database = {
             Args: { p_room_id: string; p_target_enemy_idx?: number };
             Returns: Json;
           };
+      combat_use_potion: { Args: { p_room_id: string; p_slot: number }; Returns: Json };
       create_playtest: {
         Args: {
           p_bloc?: number;
@@ -772,6 +1322,7 @@ export type Database = {
           p_enemy_count?: number;
           p_role_id?: Database['public']['Enums']['role_id'];
           p_screen_type: Database['public']['Enums']['screen_type'];
+          p_seed?: number;
         };
         Returns: string;
       };
@@ -779,6 +1330,7 @@ export type Database = {
         Args: {
           p_display_name?: string;
           p_role_id?: Database['public']['Enums']['role_id'];
+          p_seed?: number;
         };
         Returns: {
           room_code: string;
@@ -836,10 +1388,15 @@ export type Database = {
       };
       random_int: { Args: { p_max: number; p_min: number }; Returns: number };
       reset_combat: { Args: { p_room_id: string }; Returns: undefined };
+      rest_choose: {
+        Args: { p_choice: string; p_deck_index?: number; p_room_id: string };
+        Returns: Json;
+      };
       rest_heal: {
         Args: { p_restore_percent?: number; p_room_id: string };
         Returns: number;
       };
+      room_heartbeat: { Args: { p_room_id: string }; Returns: Json };
       seed_enemies: { Args: { p_room_id: string }; Returns: number };
       seed_enemies_for_screen: {
         Args: { p_room_id: string; p_screen_id: string };
@@ -849,10 +1406,36 @@ export type Database = {
         Args: { p_emote: string; p_room_id: string; p_scene_id: string };
         Returns: number;
       };
+      set_room_ascension: { Args: { p_ascension: number; p_room_id: string }; Returns: undefined };
+      set_room_turn_timer: {
+        Args: { p_bot_takeover_after?: number; p_room_id: string; p_turn_seconds?: number };
+        Returns: undefined;
+      };
+      set_player_bot_policy: {
+        Args: {
+          p_difficulty: string;
+          p_player_id: Database['public']['Enums']['player_id'];
+          p_policy: string;
+          p_room_id: string;
+        };
+        Returns: undefined;
+      };
       set_push_subscription: {
         Args: { p_platform?: string; p_token: string };
         Returns: boolean;
       };
+      shop_buy_potion: {
+        Args: { p_potion_id: string; p_room_id: string };
+        Returns: Json;
+      };
+      shop_buy_relic: {
+        Args: { p_relic_id: string; p_room_id: string };
+        Returns: Json;
+      };
+      shop_deck_operation: {
+        Args: { p_deck_index: number; p_operation: string; p_room_id: string };
+        Returns: Json;
+      };
       shop_purchase: {
         Args: {
           p_exp_delta?: number;
@@ -948,6 +1531,11 @@ export type Database = {
         };
         Returns: number;
       };
+      vote_next_screen: {
+        Args: { p_next_position: number; p_room_id: string };
+        Returns: undefined;
+      };
+      vote_room_biome: { Args: { p_biome?: string; p_room_id: string }; Returns: undefined };
     };
     Enums: {
       phase_type: 'early' | 'core' | 'resolve';
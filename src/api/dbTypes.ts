@@ -3,10 +3,14 @@ import type { Database } from '@/api/database.types';
 // Table row types
 type RoomRow = Database['public']['Tables']['rooms']['Row'];
 type RoomPlayerRow = Database['public']['Tables']['room_players']['Row'];
+type RoomBiomeVoteRow = Database['public']['Tables']['room_biome_votes']['Row'];
 type CharacterRow = Database['public']['Tables']['characters']['Row'];
 type EnemyRow = Database['public']['Tables']['enemies']['Row'];
 type AdventureScreenRow = Database['public']['Tables']['adventure_screens']['Row'];
+type AdventurePathVoteRow = Database['public']['Tables']['adventure_path_votes']['Row'];
+type CombatEventRow = Database['public']['Tables']['combat_events']['Row'];
 type CombatTurnRow = Database['public']['Tables']['combat_turns']['Row'];
+type CombatUndoStackRow = Database['public']['Tables']['combat_undo_stack']['Row'];
 type PlayerTurnStateRow = Database['public']['Tables']['player_turn_state']['Row'];
 
 // Player combat state — manual type since database.types.ts won't have it until regenerated
@@ -19,19 +23,24 @@ type PlayerCombatStateRow = {
   draw_pile: unknown[];
   hand: unknown[];
   discard_pile: unknown[];
+  exhaust_pile: unknown[];
   energy: number;
   max_energy: number;
   block: number;
+  retained_block: number;
   trait_charges: Record<string, number>;
   attune_charges: number;
   attune_target_trait: string | null;
   burn: number;
+  poison: number;
   vulnerable: number;
   weakened: number;
+  frail: number;
   thorns: number;
   regen: number;
   starting_block: number;
   free_reroll: boolean;
+  relics_fired: string[];
 };
 
 type EnemyCombatStateRow = {
@@ -47,12 +56,24 @@ type EnemyCombatStateRow = {
   strength: number;
   block: number;
   intent_index: number;
+  phase: number;
   is_dead: boolean;
+  target_player_id: PlayerId | null;
+  last_attacker_id: PlayerId | null;
   burn: number;
+  poison: number;
   vulnerable: number;
   weakened: number;
+  frail: number;
+  stun: number;
+  strength_down: number;
 };
 
+// Analytics view row types
+type AnalyticsCardRow = Database['public']['Views']['analytics_cards']['Row'];
+type AnalyticsEncounterRow = Database['public']['Views']['analytics_encounters']['Row'];
+type AnalyticsLethalEnemyRow = Database['public']['Views']['analytics_lethal_enemies']['Row'];
+
 // Enum types
 type PlayerId = Database['public']['Enums']['player_id'];
 type RoleId = Database['public']['Enums']['role_id'];
@@ -67,9 +88,15 @@ type ListAvailableRoomsReturn =
 type PeekRoomReturn = Database['public']['Functions']['peek_room']['Returns'][number];
 
 export type {
+  AdventurePathVoteRow,
   AdventureScreenRow,
+  AnalyticsCardRow,
+  AnalyticsEncounterRow,
+  AnalyticsLethalEnemyRow,
   CharacterRow,
+  CombatEventRow,
   CombatTurnRow,
+  CombatUndoStackRow,
   EnemyCombatStateRow,
   EnemyRow,
   ListAvailableRoomsReturn,
@@ -80,6 +107,7 @@ export type {
   PlayerId,
   PlayerTurnStateRow,
   RoleId,
+  RoomBiomeVoteRow,
   RoomPlayerRow,
   RoomRow,
   RoomStatus,
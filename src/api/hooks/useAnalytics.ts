@@ -0,0 +1,138 @@
+import { useQuery } from '@tanstack/react-query';
+import type {
+  AnalyticsCardRow,
+  AnalyticsEncounterRow,
+  AnalyticsLethalEnemyRow,
+} from '@/api/dbTypes';
+import { supabase } from '@/api/supabaseClient';
+
+// ---------------------------------------------------------------------------
+// Types — derived from the analytics_* views (040-analytics.sql), read through analytics_report
+// ---------------------------------------------------------------------------
+
+type CardAnalytics = {
+  cardId: string;
+  name: string;
+  trait: string;
+  isStarter: boolean;
+  offers: number;
+  picks: number;
+  /** Percent of offers picked, null when never offered */
+  pickRate: number | null;
+  runsInDeck: number;
+  winsInDeck: number;
+  /** Percent of finished runs won with the card in a deck, null when in none */
+  winRateInDeck: number | null;
+};
+
+type EncounterAnalytics = {
+  encounterId: string;
+  fights: number;
+  victories: number;
+  wipes: number;
+  winRate: number;
+  averageTurns: number | null;
+  deaths: number;
+};
+
+type LethalEnemyAnalytics = {
+  templateId: string;
+  name: string;
+  kills: number;
+  fightsWithKills: number;
+  wipes: number;
+};
+
+type Analytics = {
+  cards: CardAnalytics[];
+  encounters: EncounterAnalytics[];
+  lethalEnemies: LethalEnemyAnalytics[];
+};
+
+type UseAnalyticsResult = Analytics & {
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => void;
+};
+
+// ---------------------------------------------------------------------------
+// Fetch
+// ---------------------------------------------------------------------------
+
+const mapCard = (row: AnalyticsCardRow): CardAnalytics => ({
+  cardId: row.card_id ?? '',
+  name: row.name ?? row.card_id ?? '',
+  trait: row.trait ?? '',
+  isStarter: row.is_starter ?? false,
+  offers: row.offers ?? 0,
+  picks: row.picks ?? 0,
+  pickRate: row.pick_rate,
+  runsInDeck: row.runs_in_deck ?? 0,
+  winsInDeck: row.wins_in_deck ?? 0,
+  winRateInDeck: row.win_rate_in_deck,
+});
+
+const mapEncounter = (row: AnalyticsEncounterRow): EncounterAnalytics => ({
+  encounterId: row.encounter_id ?? '',
+  fights: row.fights ?? 0,
+  victories: row.victories ?? 0,
+  wipes: row.wipes ?? 0,
+  winRate: row.win_rate ?? 0,
+  averageTurns: row.average_turns,
+  deaths: row.deaths ?? 0,
+});
+
+const mapLethalEnemy = (row: AnalyticsLethalEnemyRow): LethalEnemyAnalytics => ({
+  templateId: row.template_id ?? '',
+  name: row.name ?? row.template_id ?? '',
+  kills: row.kills ?? 0,
+  fightsWithKills: row.fights_with_kills ?? 0,
+  wipes: row.wipes ?? 0,
+});
+
+type AnalyticsReport = {
+  cards: AnalyticsCardRow[];
+  encounters: AnalyticsEncounterRow[];
+  lethalEnemies: AnalyticsLethalEnemyRow[];
+};
+
+async function fetchAnalytics(): Promise<Analytics> {
+  // The views are only readable through analytics_report, which answers developers only
+  const { data, error } = await supabase.rpc('analytics_report');
+  if (error) throw new Error(error.message);
+
+  const report = data as unknown as AnalyticsReport;
+  return {
+    cards: report.cards.map(mapCard),
+    encounters: report.encounters.map(mapEncounter),
+    lethalEnemies: report.lethalEnemies.map(mapLethalEnemy),
+  };
+}
+
+const analyticsKeys = {
+  all: ['analytics'] as const,
+};
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/** Card, encounter and enemy analytics from real runs, for the developer analytics screen */
+export function useAnalytics(): UseAnalyticsResult {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: analyticsKeys.all,
+    queryFn: fetchAnalytics,
+    staleTime: 1000 * 60,
+  });
+
+  return {
+    cards: data?.cards ?? [],
+    encounters: data?.encounters ?? [],
+    lethalEnemies: data?.lethalEnemies ?? [],
+    isLoading,
+    error: error ? error.message : null,
+    refresh: () => void refetch(),
+  };
+}
+
+export type { Analytics, CardAnalytics, EncounterAnalytics, LethalEnemyAnalytics };
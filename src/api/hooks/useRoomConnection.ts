@@ -2,8 +2,12 @@ import type { RealtimeChannel } from '@supabase/supabase-js';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type {
+  AdventurePathVoteRow,
+  AdventureScreenRow,
   CharacterRow,
+  CombatEventRow,
   CombatTurnRow,
+  CombatUndoStackRow,
   EnemyCombatStateRow,
   EnemyRow,
   ListAvailableRoomsReturn,
@@ -13,6 +17,7 @@ import type {
   PlayerId,
   PlayerTurnStateRow,
   RoleId,
+  RoomBiomeVoteRow,
   RoomPlayerRow,
   RoomRow,
   ScreenType,
@@ -20,8 +25,16 @@ import type {
 import type { Character } from '@/api/models/character';
 import type { Enemy } from '@/api/models/enemy';
 import { supabase } from '@/api/supabaseClient';
-import type { AdventureScreen, ScreenConfig } from '@/types/adventure';
-import type { CombatTurn, PlayerTurnState } from '@/types/combatTurn';
+import type {
+  AdventureMapNode,
+  AdventurePathVote,
+  AdventureScreen,
+  RoomBiomeVote,
+  ScreenConfig,
+} from '@/types/adventure';
+import type { CombatEvent } from '@/types/combatEvent';
+import type { CombatTurn, CombatUndoEntry, PlayerTurnState } from '@/types/combatTurn';
+import type { BotSeatSettings } from '@/types/player';
 import type { DeckCardInstance, EnemyCombatState, PlayerCombatState } from '@/types/spellCombat';
 import { getErrorMessage } from '@/utils/getErrorMessage';
 import { STORY_CONFIG } from '@/utils/storyConfig';
@@ -39,6 +52,11 @@ type RoomRecord = Pick<
   | 'target_player_count'
   | 'current_screen_position'
   | 'current_bloc'
+  | 'seed'
+  | 'turn_seconds'
+  | 'bot_takeover_after'
+  | 'ascension'
+  | 'biome'
 >;
 
 type RoomPlayerRecord = Pick<
@@ -51,6 +69,9 @@ type RoomPlayerRecord = Pick<
   | 'display_name'
   | 'is_connected'
   | 'is_bot'
+  | 'bot_takeover'
+  | 'bot_policy'
+  | 'bot_difficulty'
 >;
 
 type RoomPeek = {
@@ -66,10 +87,15 @@ type RoomState = {
   characters: Character[];
   enemies: Enemy[];
   currentScreen: AdventureScreen | null;
+  adventureMap: AdventureMapNode[];
+  pathVotes: AdventurePathVote[];
+  biomeVotes: RoomBiomeVote[];
   combatTurn: CombatTurn | null;
   playerTurnStates: PlayerTurnState[];
   playerCombatStates: PlayerCombatState[];
   enemyCombatStates: EnemyCombatState[];
+  combatEvents: CombatEvent[];
+  combatUndoStack: CombatUndoEntry[];
 };
 
 type MyRoom = {
@@ -95,11 +121,19 @@ type UseRoomConnectionResult = {
   characters: Character[];
   enemies: Enemy[];
   currentScreen: AdventureScreen | null;
+  /** Every screen of the run, laid out in map rows */
+  adventureMap: AdventureMapNode[];
+  /** Votes on the next screen while the party stands at a fork of the map */
+  pathVotes: AdventurePathVote[];
+  /** Votes on the biome of the run while the room is in the lobby */
+  biomeVotes: RoomBiomeVote[];
   myRooms: MyRoom[];
   availableRooms: AvailableRoom[];
+  /** Highest ascension level this player unlocked (player_ascension) */
+  unlockedAscension: number;
   isBusy: boolean;
   roomError: string | null;
-  createRoom: (displayName: string, roleId: RoleId) => Promise<void>;
+  createRoom: (displayName: string, roleId: RoleId, seed?: number) => Promise<void>;
   createPlaytest: (
     screenType: ScreenType,
     bloc: number,
@@ -107,6 +141,8 @@ type UseRoomConnectionResult = {
     roleId?: RoleId,
     enemyCount?: number,
     botCount?: number,
+    seed?: number,
+    botSettings?: BotSeatSettings,
   ) => Promise<void>;
   joinRoom: (code: string, displayName: string, roleId: RoleId) => Promise<void>;
   rejoinRoom: (roomId: string) => Promise<void>;
@@ -114,17 +150,33 @@ type UseRoomConnectionResult = {
   adminDeleteAllRooms: () => Promise<void>;
   peekRoom: (code: string) => Promise<RoomPeek | null>;
   startAdventure: () => Promise<void>;
+  setRoomTurnTimer: (turnSeconds: number | null, botTakeoverAfter: number | null) => Promise<void>;
+  setRoomAscension: (ascension: number) => Promise<void>;
+  /** null votes for a biome rolled by generate_adventure */
+  voteRoomBiome: (biome: string | null) => Promise<void>;
+  setPlayerBotPolicy: (playerId: PlayerId, settings: BotSeatSettings) => Promise<void>;
   cancelAdventure: () => Promise<void>;
   advanceScreen: () => Promise<unknown>;
+  voteNextScreen: (nextPosition: number) => Promise<unknown>;
   applyScreenEffect: (hpDelta: number, goldDelta: number, expDelta: number) => Promise<unknown>;
   shopPurchase: (cost: number, hpDelta: number, expDelta: number) => Promise<unknown>;
-  restHeal: (restorePercent: number) => Promise<unknown>;
-  combatPlayCard: (handIndex: number, targetEnemyIdx?: number | null) => Promise<unknown>;
+  shopBuyRelic: (relicId: string) => Promise<unknown>;
+  shopBuyPotion: (potionId: string) => Promise<unknown>;
+  shopDeckOperation: (operation: string, deckIndex: number) => Promise<unknown>;
+  restChoose: (choice: string, deckIndex?: number) => Promise<unknown>;
+  combatPlayCard: (
+    handIndex: number,
+    targetEnemyIdx?: number | null,
+    targetPlayerId?: PlayerId | null,
+  ) => Promise<unknown>;
   combatUseConvergence: (targetEnemyIdx?: number | null) => Promise<unknown>;
+  combatUsePotion: (slot: number) => Promise<unknown>;
   combatEndTurn: () => Promise<unknown>;
+  combatExpirePhase: () => Promise<unknown>;
+  combatReclaimControl: () => Promise<unknown>;
+  combatUndoLast: () => Promise<unknown>;
   combatRerollHand: () => Promise<unknown>;
   combatInitTurn: () => Promise<unknown>;
-  combatEnemyPhase: () => Promise<unknown>;
   combatBotTurn: (botPlayerId: PlayerId) => Promise<unknown>;
   combatGenerateRewards: () => Promise<unknown>;
   combatSelectReward: (rewardType: string, rewardId: string) => Promise<unknown>;
@@ -132,6 +184,10 @@ type UseRoomConnectionResult = {
   playerTurnStates: PlayerTurnState[];
   playerCombatStates: PlayerCombatState[];
   enemyCombatStates: EnemyCombatState[];
+  /** Combat log of the current screen, oldest first */
+  combatEvents: CombatEvent[];
+  /** Card plays of the current screen that can still be undone, oldest first */
+  combatUndoStack: CombatUndoEntry[];
   leaveRoom: () => Promise<void>;
 };
 
@@ -158,7 +214,7 @@ async function fetchRoomSnapshot(roomId: string): Promise<RoomRecord | null> {
   const { data, error } = await supabase
     .from('rooms')
     .select(
-      'id, code, host_user_id, status, target_player_count, current_screen_position, current_bloc',
+      'id, code, host_user_id, status, target_player_count, current_screen_position, current_bloc, seed, turn_seconds, bot_takeover_after, ascension, biome',
     )
     .eq('id', roomId)
     .maybeSingle();
@@ -170,7 +226,9 @@ async function fetchRoomSnapshot(roomId: string): Promise<RoomRecord | null> {
 async function fetchRoomPlayers(roomId: string): Promise<RoomPlayerRecord[]> {
   const { data, error } = await supabase
     .from('room_players')
-    .select('id, room_id, player_id, user_id, role_id, display_name, is_connected, is_bot')
+    .select(
+      'id, room_id, player_id, user_id, role_id, display_name, is_connected, is_bot, bot_takeover, bot_policy, bot_difficulty',
+    )
     .eq('room_id', roomId)
     .order('player_id', { ascending: true });
 
@@ -189,6 +247,12 @@ const mapCharacterRow = (row: CharacterRow): Character => ({
   hp: row.hp,
   hpMax: row.hp_max,
   tauntTurnsLeft: row.taunt_turns_left,
+  relics: row.relics ?? [],
+  potions: row.potions ?? [],
+  potionSlots: row.potion_slots,
+  deck: (row.deck ?? []) as DeckCardInstance[],
+  deckOpsBought: row.deck_ops_bought,
+  restedScreenId: row.rested_screen_id,
 });
 
 async function fetchCharacters(roomId: string): Promise<Character[]> {
@@ -232,7 +296,7 @@ async function fetchCurrentScreen(
   const { data, error } = await supabase
     .from('adventure_screens')
     .select(
-      'id, room_id, bloc, phase, position, screen_type, config_json, is_completed, result_json',
+      'id, room_id, bloc, phase, position, screen_type, config_json, is_completed, result_json, map_row, map_lane, next_positions',
     )
     .eq('room_id', roomId)
     .eq('position', position)
@@ -250,13 +314,78 @@ async function fetchCurrentScreen(
     config: data.config_json as ScreenConfig,
     isCompleted: data.is_completed as boolean,
     resultJson: data.result_json as Record<string, unknown> | null,
+    mapRow: data.map_row as number,
+    mapLane: data.map_lane as number,
+    nextPositions: data.next_positions as number[],
   };
 }
 
+type AdventureMapRow = Pick<
+  AdventureScreenRow,
+  | 'id'
+  | 'bloc'
+  | 'phase'
+  | 'position'
+  | 'screen_type'
+  | 'is_completed'
+  | 'map_row'
+  | 'map_lane'
+  | 'next_positions'
+>;
+
+const mapAdventureMapRow = (row: AdventureMapRow): AdventureMapNode => ({
+  id: row.id,
+  bloc: row.bloc,
+  phase: row.phase,
+  position: row.position,
+  screenType: row.screen_type,
+  isCompleted: row.is_completed,
+  mapRow: row.map_row,
+  mapLane: row.map_lane,
+  nextPositions: row.next_positions,
+});
+
+async function fetchAdventureMap(roomId: string): Promise<AdventureMapNode[]> {
+  const { data, error } = await supabase
+    .from('adventure_screens')
+    .select(
+      'id, bloc, phase, position, screen_type, is_completed, map_row, map_lane, next_positions',
+    )
+    .eq('room_id', roomId)
+    .order('position', { ascending: true });
+
+  if (error || !data) return [];
+  return (data as AdventureMapRow[]).map(mapAdventureMapRow);
+}
+
+async function fetchPathVotes(roomId: string, screenId: string): Promise<AdventurePathVote[]> {
+  const { data, error } = await supabase
+    .from('adventure_path_votes')
+    .select('*')
+    .eq('room_id', roomId)
+    .eq('screen_id', screenId);
+
+  if (error || !data) return [];
+  return (data as AdventurePathVoteRow[]).map((row) => ({
+    playerId: row.player_id,
+    nextPosition: row.next_position,
+  }));
+}
+
+async function fetchBiomeVotes(roomId: string): Promise<RoomBiomeVote[]> {
+  const { data, error } = await supabase.from('room_biome_votes').select('*').eq('room_id', roomId);
+
+  if (error || !data) return [];
+  return (data as RoomBiomeVoteRow[]).map((row) => ({
+    playerId: row.player_id,
+    biome: row.biome,
+  }));
+}
+
 async function fetchCombatTurn(roomId: string): Promise<CombatTurn | null> {
   const { data, error } = await supabase
     .from('combat_turns')
-    .select('id, room_id, screen_id, turn_number, phase')
+    .select('id, room_id, screen_id, turn_number, phase, phase_deadline')
     .eq('room_id', roomId)
     .maybeSingle();
 
@@ -268,6 +397,7 @@ async function fetchCombatTurn(roomId: string): Promise<CombatTurn | null> {
     screenId: row.screen_id,
     turnNumber: row.turn_number,
     phase: row.phase as CombatTurn['phase'],
+    phaseDeadline: row.phase_deadline,
   };
 }
 
@@ -300,15 +430,19 @@ const mapPlayerCombatStateRow = (row: PlayerCombatStateRow): PlayerCombatState =
   drawPile: row.draw_pile as DeckCardInstance[],
   hand: row.hand as DeckCardInstance[],
   discardPile: row.discard_pile as DeckCardInstance[],
+  exhaustPile: row.exhaust_pile as DeckCardInstance[],
   energy: row.energy,
   maxEnergy: row.max_energy,
   block: row.block,
+  retainedBlock: row.retained_block,
   traitCharges: row.trait_charges,
   attuneCharges: row.attune_charges,
   attuneTargetTrait: row.attune_target_trait,
   burn: row.burn,
+  poison: row.poison,
   vulnerable: row.vulnerable,
   weakened: row.weakened,
+  frail: row.frail,
   thorns: row.thorns,
   regen: row.regen,
   startingBlock: row.starting_block,
@@ -337,10 +471,17 @@ const mapEnemyCombatStateRow = (row: EnemyCombatStateRow): EnemyCombatState => (
   strength: row.strength,
   block: row.block,
   intentIndex: row.intent_index,
+  phase: row.phase,
   isDead: row.is_dead,
+  targetPlayerId: row.target_player_id,
+  lastAttackerId: row.last_attacker_id,
   burn: row.burn,
+  poison: row.poison,
   vulnerable: row.vulnerable,
   weakened: row.weakened,
+  frail: row.frail,
+  stun: row.stun,
+  strengthDown: row.strength_down,
 });
 
 async function fetchEnemyCombatStates(roomId: string): Promise<EnemyCombatState[]> {
@@ -354,6 +495,55 @@ async function fetchEnemyCombatStates(roomId: string): Promise<EnemyCombatState[
   return (data as unknown as EnemyCombatStateRow[]).map(mapEnemyCombatStateRow);
 }
 
+const mapCombatEventRow = (row: CombatEventRow): CombatEvent => ({
+  id: row.id,
+  screenId: row.screen_id,
+  turnNumber: row.turn_number,
+  phase: row.phase as CombatEvent['phase'],
+  eventType: row.event_type as CombatEvent['eventType'],
+  actorType: row.actor_type as CombatEvent['actorType'],
+  actorId: row.actor_id,
+  targetType: row.target_type as CombatEvent['targetType'],
+  targetId: row.target_id,
+  cardId: row.card_id,
+  source: row.source,
+  rawAmount: row.raw_amount,
+  finalAmount: row.final_amount,
+  statuses: (row.statuses ?? {}) as Record<string, number>,
+});
+
+async function fetchCombatEvents(roomId: string, screenId: string): Promise<CombatEvent[]> {
+  const { data, error } = await supabase
+    .from('combat_events')
+    .select('*')
+    .eq('room_id', roomId)
+    .eq('screen_id', screenId)
+    .order('id', { ascending: true });
+
+  if (error || !data) return [];
+  return (data as CombatEventRow[]).map(mapCombatEventRow);
+}
+
+const mapCombatUndoStackRow = (row: CombatUndoStackRow): CombatUndoEntry => ({
+  id: row.id,
+  screenId: row.screen_id,
+  turnNumber: row.turn_number,
+  playerId: row.player_id,
+  cardId: row.card_id,
+});
+
+async function fetchCombatUndoStack(roomId: string, screenId: string): Promise<CombatUndoEntry[]> {
+  const { data, error } = await supabase
+    .from('combat_undo_stack')
+    .select('*')
+    .eq('room_id', roomId)
+    .eq('screen_id', screenId)
+    .order('id', { ascending: true });
+
+  if (error || !data) return [];
+  return (data as CombatUndoStackRow[]).map(mapCombatUndoStackRow);
+}
+
 async function fetchRoomState(roomId: string): Promise<RoomState | null> {
   const [room, players, characters, enemies] = await Promise.all([
     fetchRoomSnapshot(roomId),
@@ -368,11 +558,26 @@ async function fetchRoomState(roomId: string): Promise<RoomState | null> {
       ? await fetchCurrentScreen(roomId, room.current_screen_position)
       : null;
 
-  const [combatTurn, playerTurnStates, playerCombatStates, enemyCombatStates] = await Promise.all([
+  const [
+    adventureMap,
+    pathVotes,
+    biomeVotes,
+    combatTurn,
+    playerTurnStates,
+    playerCombatStates,
+    enemyCombatStates,
+    combatEvents,
+    combatUndoStack,
+  ] = await Promise.all([
+    currentScreen ? fetchAdventureMap(roomId) : Promise.resolve([]),
+    currentScreen ? fetchPathVotes(roomId, currentScreen.id) : Promise.resolve([]),
+    room.status === 'lobby' ? fetchBiomeVotes(roomId) : Promise.resolve([]),
     fetchCombatTurn(roomId),
     fetchPlayerTurnStates(roomId),
     fetchPlayerCombatStates(roomId),
     fetchEnemyCombatStates(roomId),
+    currentScreen ? fetchCombatEvents(roomId, currentScreen.id) : Promise.resolve([]),
+    currentScreen ? fetchCombatUndoStack(roomId, currentScreen.id) : Promise.resolve([]),
   ]);
 
   return {
@@ -381,10 +586,15 @@ async function fetchRoomState(roomId: string): Promise<RoomState | null> {
     characters,
     enemies,
     currentScreen,
+    adventureMap,
+    pathVotes,
+    biomeVotes,
     combatTurn,
     playerTurnStates,
     playerCombatStates,
     enemyCombatStates,
+    combatEvents,
+    combatUndoStack,
   };
 }
 
@@ -413,6 +623,21 @@ async function fetchAvailableRooms(): Promise<AvailableRoom[]> {
   }));
 }
 
+async function fetchUnlockedAscension(): Promise<number> {
+  // RLS only returns the caller's own row
+  const { data, error } = await supabase.from('player_ascension').select('max_level').maybeSingle();
+  if (error || !data) return 0;
+  return data.max_level;
+}
+
+/** room_heartbeat cadence; the server hands a seat to the bot after 60s of silence */
+const HEARTBEAT_MS = 20_000;
+
+async function sendHeartbeat(roomId: string): Promise<void> {
+  const { error } = await supabase.rpc('room_heartbeat', { p_room_id: roomId });
+  if (error) console.warn('room_heartbeat failed:', error.message);
+}
+
 // ---------------------------------------------------------------------------
 // Query keys
 // ---------------------------------------------------------------------------
@@ -422,6 +647,7 @@ const roomKeys = {
   roomState: (roomId: string | null) => ['roomState', roomId] as const,
   myRooms: ['myRooms'] as const,
   availableRooms: ['availableRooms'] as const,
+  unlockedAscension: ['unlockedAscension'] as const,
 };
 
 // ---------------------------------------------------------------------------
@@ -449,6 +675,12 @@ export function useRoomConnection(): UseRoomConnectionResult {
     staleTime: 1000 * 30,
   });
 
+  const { data: unlockedAscension = 0 } = useQuery({
+    queryKey: roomKeys.unlockedAscension,
+    queryFn: fetchUnlockedAscension,
+    staleTime: 1000 * 60,
+  });
+
   // Step 2: Fetch full room state when we have a roomId
   const { data: roomState = null, isFetching: isRoomFetching } = useQuery({
     queryKey: roomKeys.roomState(currentRoomId),
@@ -462,10 +694,15 @@ export function useRoomConnection(): UseRoomConnectionResult {
   const characters = roomState?.characters ?? [];
   const enemies = roomState?.enemies ?? [];
   const currentScreen = roomState?.currentScreen ?? null;
+  const adventureMap = roomState?.adventureMap ?? [];
+  const pathVotes = roomState?.pathVotes ?? [];
+  const biomeVotes = roomState?.biomeVotes ?? [];
   const combatTurn = roomState?.combatTurn ?? null;
   const playerTurnStates = roomState?.playerTurnStates ?? [];
   const playerCombatStates = roomState?.playerCombatStates ?? [];
   const enemyCombatStates = roomState?.enemyCombatStates ?? [];
+  const combatEvents = roomState?.combatEvents ?? [];
+  const combatUndoStack = roomState?.combatUndoStack ?? [];
 
   // Realtime: invalidate room state on DB changes
   useEffect(() => {
@@ -551,6 +788,46 @@ export function useRoomConnection(): UseRoomConnectionResult {
         },
         invalidate,
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'combat_events',
+          filter: `room_id=eq.${room.id}`,
+        },
+        invalidate,
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'combat_undo_stack',
+          filter: `room_id=eq.${room.id}`,
+        },
+        invalidate,
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'adventure_path_votes',
+          filter: `room_id=eq.${room.id}`,
+        },
+        invalidate,
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'room_biome_votes',
+          filter: `room_id=eq.${room.id}`,
+        },
+        invalidate,
+      )
       .subscribe();
 
     return () => {
@@ -561,6 +838,15 @@ export function useRoomConnection(): UseRoomConnectionResult {
     };
   }, [qc, room?.id]);
 
+  // Presence: keeps this seat connected and takes it back from the bot after a disconnect
+  useEffect(() => {
+    if (!room?.id) return;
+    const roomId = room.id;
+    void sendHeartbeat(roomId);
+    const timer = setInterval(() => void sendHeartbeat(roomId), HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [room?.id]);
+
   // ---------------------------------------------------------------------------
   // Mutations
   // ---------------------------------------------------------------------------
@@ -581,10 +867,19 @@ export function useRoomConnection(): UseRoomConnectionResult {
   }, [qc, currentRoomId]);
 
   const createRoomMutation = useMutation({
-    mutationFn: async ({ displayName, roleId }: { displayName: string; roleId: RoleId }) => {
+    mutationFn: async ({
+      displayName,
+      roleId,
+      seed,
+    }: {
+      displayName: string;
+      roleId: RoleId;
+      seed?: number;
+    }) => {
       const { data, error } = await supabase.rpc('create_room', {
         p_display_name: displayName,
         p_role_id: roleId,
+        p_seed: seed,
       });
       if (error) throw error;
       const created = Array.isArray(data) ? data[0] : null;
@@ -604,6 +899,8 @@ export function useRoomConnection(): UseRoomConnectionResult {
       roleId,
       enemyCount,
       botCount,
+      seed,
+      botSettings,
     }: {
       screenType: ScreenType;
       bloc: number;
@@ -611,6 +908,8 @@ export function useRoomConnection(): UseRoomConnectionResult {
       roleId?: RoleId;
       enemyCount?: number;
       botCount?: number;
+      seed?: number;
+      botSettings?: BotSeatSettings;
     }) => {
       const { data, error } = await supabase.rpc('create_playtest', {
         p_screen_type: screenType,
@@ -619,10 +918,25 @@ export function useRoomConnection(): UseRoomConnectionResult {
         p_role_id: roleId ?? 'warrior',
         p_enemy_count: enemyCount ?? null,
         p_bot_count: botCount ?? 0,
+        p_seed: seed,
       });
       if (error) throw error;
       if (!data) throw new Error('Playtest room was not created');
-      return data as string;
+      const roomId = data as string;
+      // Bots take the seats after the tester's (p2, p3)
+      if (botSettings) {
+        const botSeats = (['p2', 'p3'] as const).slice(0, botCount ?? 0);
+        for (const playerId of botSeats) {
+          const { error: policyError } = await supabase.rpc('set_player_bot_policy', {
+            p_room_id: roomId,
+            p_player_id: playerId,
+            p_policy: botSettings.policy,
+            p_difficulty: botSettings.difficulty,
+          });
+          if (policyError) throw policyError;
+        }
+      }
+      return roomId;
     },
     onSuccess: (roomId) => enterRoom(roomId),
     onError: (error) => setRoomError(getErrorMessage(error, 'Failed to create playtest')),
@@ -686,6 +1000,81 @@ export function useRoomConnection(): UseRoomConnectionResult {
     onError: (error) => setRoomError(getErrorMessage(error, 'Failed to delete all rooms')),
   });
 
+  const setRoomTurnTimerMutation = useMutation({
+    mutationFn: async ({
+      turnSeconds,
+      botTakeoverAfter,
+    }: {
+      turnSeconds: number | null;
+      botTakeoverAfter: number | null;
+    }) => {
+      if (!room?.id) throw new Error('No room');
+      const { error } = await supabase.rpc('set_room_turn_timer', {
+        p_room_id: room.id,
+        p_turn_seconds: turnSeconds ?? undefined,
+        p_bot_takeover_after: botTakeoverAfter ?? undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Failed to set the turn timer')),
+  });
+
+  const setRoomAscensionMutation = useMutation({
+    mutationFn: async (ascension: number) => {
+      if (!room?.id) throw new Error('No room');
+      const { error } = await supabase.rpc('set_room_ascension', {
+        p_room_id: room.id,
+        p_ascension: ascension,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Failed to set the ascension level')),
+  });
+
+  const voteRoomBiomeMutation = useMutation({
+    mutationFn: async (biome: string | null) => {
+      if (!room?.id) throw new Error('No room');
+      const { error } = await supabase.rpc('vote_room_biome', {
+        p_room_id: room.id,
+        p_biome: biome ?? undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Failed to vote for the biome')),
+  });
+
+  const setPlayerBotPolicyMutation = useMutation({
+    mutationFn: async ({
+      playerId,
+      settings,
+    }: {
+      playerId: PlayerId;
+      settings: BotSeatSettings;
+    }) => {
+      if (!room?.id) throw new Error('No room');
+      const { error } = await supabase.rpc('set_player_bot_policy', {
+        p_room_id: room.id,
+        p_player_id: playerId,
+        p_policy: settings.policy,
+        p_difficulty: settings.difficulty,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Failed to set the bot policy')),
+  });
+
   const startAdventureMutation = useMutation({
     mutationFn: async () => {
       if (!room?.id) throw new Error('No room');
@@ -751,6 +1140,8 @@ export function useRoomConnection(): UseRoomConnectionResult {
     },
     onSuccess: (data) => {
       if (data?.finished) {
+        // A won run may have unlocked the next ascension level
+        void qc.invalidateQueries({ queryKey: roomKeys.unlockedAscension });
         clearRoom();
       } else if (room?.id) {
         void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
@@ -759,6 +1150,21 @@ export function useRoomConnection(): UseRoomConnectionResult {
     onError: (error) => setRoomError(getErrorMessage(error, 'Failed to advance screen')),
   });
 
+  const voteNextScreenMutation = useMutation({
+    mutationFn: async (nextPosition: number) => {
+      if (!room?.id) throw new Error('No room');
+      const { error } = await supabase.rpc('vote_next_screen', {
+        p_room_id: room.id,
+        p_next_position: nextPosition,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Failed to vote')),
+  });
+
   const applyScreenEffectMutation = useMutation({
     mutationFn: async ({
       hpDelta,
@@ -811,12 +1217,62 @@ export function useRoomConnection(): UseRoomConnectionResult {
     onError: (error) => setRoomError(getErrorMessage(error, 'Failed to purchase')),
   });
 
-  const restHealMutation = useMutation({
-    mutationFn: async (restorePercent: number) => {
+  const shopBuyRelicMutation = useMutation({
+    mutationFn: async (relicId: string) => {
+      if (!room?.id) throw new Error('No room');
+      const { data, error } = await supabase.rpc('shop_buy_relic', {
+        p_room_id: room.id,
+        p_relic_id: relicId,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Failed to buy relic')),
+  });
+
+  const shopBuyPotionMutation = useMutation({
+    mutationFn: async (potionId: string) => {
       if (!room?.id) throw new Error('No room');
-      const { data, error } = await supabase.rpc('rest_heal', {
+      const { data, error } = await supabase.rpc('shop_buy_potion', {
         p_room_id: room.id,
-        p_restore_percent: restorePercent,
+        p_potion_id: potionId,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Failed to buy potion')),
+  });
+
+  const shopDeckOperationMutation = useMutation({
+    mutationFn: async ({ operation, deckIndex }: { operation: string; deckIndex: number }) => {
+      if (!room?.id) throw new Error('No room');
+      const { data, error } = await supabase.rpc('shop_deck_operation', {
+        p_room_id: room.id,
+        p_operation: operation,
+        p_deck_index: deckIndex,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Deck operation failed')),
+  });
+
+  const restChooseMutation = useMutation({
+    mutationFn: async ({ choice, deckIndex }: { choice: string; deckIndex?: number }) => {
+      if (!room?.id) throw new Error('No room');
+      const { data, error } = await supabase.rpc('rest_choose', {
+        p_room_id: room.id,
+        p_choice: choice,
+        p_deck_index: deckIndex,
       });
       if (error) throw error;
       return data;
@@ -831,15 +1287,18 @@ export function useRoomConnection(): UseRoomConnectionResult {
     mutationFn: async ({
       handIndex,
       targetEnemyIdx,
+      targetPlayerId,
     }: {
       handIndex: number;
       targetEnemyIdx?: number | null;
+      targetPlayerId?: PlayerId | null;
     }) => {
       if (!room?.id) throw new Error('No room');
       const { data, error } = await supabase.rpc('combat_play_card', {
         p_room_id: room.id,
         p_hand_index: handIndex,
         p_target_enemy_idx: targetEnemyIdx ?? null,
+        p_target_player_id: targetPlayerId ?? null,
       });
       if (error) throw error;
       return data as Record<string, unknown>;
@@ -866,6 +1325,22 @@ export function useRoomConnection(): UseRoomConnectionResult {
     onError: (error) => setRoomError(getErrorMessage(error, 'Convergence failed')),
   });
 
+  const combatUsePotionMutation = useMutation({
+    mutationFn: async (slot: number) => {
+      if (!room?.id) throw new Error('No room');
+      const { data, error } = await supabase.rpc('combat_use_potion', {
+        p_room_id: room.id,
+        p_slot: slot,
+      });
+      if (error) throw error;
+      return data as Record<string, unknown>;
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Potion failed')),
+  });
+
   const combatEndTurnMutation = useMutation({
     mutationFn: async () => {
       if (!room?.id) throw new Error('No room');
@@ -879,6 +1354,45 @@ export function useRoomConnection(): UseRoomConnectionResult {
     onError: (error) => setRoomError(getErrorMessage(error, 'End turn failed')),
   });
 
+  const combatExpirePhaseMutation = useMutation({
+    mutationFn: async () => {
+      if (!room?.id) throw new Error('No room');
+      const { data, error } = await supabase.rpc('combat_expire_phase', { p_room_id: room.id });
+      if (error) throw error;
+      return data as { expired: boolean };
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Turn timer check failed')),
+  });
+
+  const combatReclaimControlMutation = useMutation({
+    mutationFn: async () => {
+      if (!room?.id) throw new Error('No room');
+      const { data, error } = await supabase.rpc('combat_reclaim_control', { p_room_id: room.id });
+      if (error) throw error;
+      return data as { playerId: PlayerId };
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Failed to take back control')),
+  });
+
+  const combatUndoLastMutation = useMutation({
+    mutationFn: async () => {
+      if (!room?.id) throw new Error('No room');
+      const { data, error } = await supabase.rpc('combat_undo_last', { p_room_id: room.id });
+      if (error) throw error;
+      return data as { cardId: string | null };
+    },
+    onSuccess: () => {
+      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
+    },
+    onError: (error) => setRoomError(getErrorMessage(error, 'Undo failed')),
+  });
+
   const combatRerollHandMutation = useMutation({
     mutationFn: async () => {
       if (!room?.id) throw new Error('No room');
@@ -908,19 +1422,6 @@ export function useRoomConnection(): UseRoomConnectionResult {
     onError: (error) => setRoomError(getErrorMessage(error, 'Combat init failed')),
   });
 
-  const combatEnemyPhaseMutation = useMutation({
-    mutationFn: async () => {
-      if (!room?.id) throw new Error('No room');
-      const { data, error } = await supabase.rpc('combat_enemy_phase', { p_room_id: room.id });
-      if (error) throw error;
-      return data as { partyWiped: boolean; turnNumber: number; attacks: unknown[] };
-    },
-    onSuccess: () => {
-      if (room?.id) void qc.invalidateQueries({ queryKey: roomKeys.roomState(room.id) });
-    },
-    onError: (error) => setRoomError(getErrorMessage(error, 'Enemy phase failed')),
-  });
-
   const combatBotTurnMutation = useMutation({
     mutationFn: async (botPlayerId: PlayerId) => {
       if (!room?.id) throw new Error('No room');
@@ -1002,9 +1503,9 @@ export function useRoomConnection(): UseRoomConnectionResult {
   // ---------------------------------------------------------------------------
 
   const createRoom = useCallback(
-    async (displayName: string, roleId: RoleId) => {
+    async (displayName: string, roleId: RoleId, seed?: number) => {
       setRoomError(null);
-      await createRoomMutation.mutateAsync({ displayName, roleId });
+      await createRoomMutation.mutateAsync({ displayName, roleId, seed });
     },
     [createRoomMutation],
   );
@@ -1017,6 +1518,8 @@ export function useRoomConnection(): UseRoomConnectionResult {
       roleId?: RoleId,
       enemyCount?: number,
       botCount?: number,
+      seed?: number,
+      botSettings?: BotSeatSettings,
     ) => {
       setRoomError(null);
       await createPlaytestMutation.mutateAsync({
@@ -1026,6 +1529,8 @@ export function useRoomConnection(): UseRoomConnectionResult {
         roleId,
         enemyCount,
         botCount,
+        seed,
+        botSettings,
       });
     },
     [createPlaytestMutation],
@@ -1047,6 +1552,8 @@ export function useRoomConnection(): UseRoomConnectionResult {
   const rejoinRoom = useCallback(
     async (roomId: string) => {
       setRoomError(null);
+      // Hands the seat back right away if the bot took it over while we were gone
+      await sendHeartbeat(roomId);
       enterRoom(roomId);
     },
     [enterRoom],
@@ -1070,6 +1577,38 @@ export function useRoomConnection(): UseRoomConnectionResult {
     await startAdventureMutation.mutateAsync();
   }, [startAdventureMutation]);
 
+  const setRoomTurnTimer = useCallback(
+    async (turnSeconds: number | null, botTakeoverAfter: number | null) => {
+      setRoomError(null);
+      await setRoomTurnTimerMutation.mutateAsync({ turnSeconds, botTakeoverAfter });
+    },
+    [setRoomTurnTimerMutation],
+  );
+
+  const setRoomAscension = useCallback(
+    async (ascension: number) => {
+      setRoomError(null);
+      await setRoomAscensionMutation.mutateAsync(ascension);
+    },
+    [setRoomAscensionMutation],
+  );
+
+  const voteRoomBiome = useCallback(
+    async (biome: string | null) => {
+      setRoomError(null);
+      await voteRoomBiomeMutation.mutateAsync(biome);
+    },
+    [voteRoomBiomeMutation],
+  );
+
+  const setPlayerBotPolicy = useCallback(
+    async (playerId: PlayerId, settings: BotSeatSettings) => {
+      setRoomError(null);
+      await setPlayerBotPolicyMutation.mutateAsync({ playerId, settings });
+    },
+    [setPlayerBotPolicyMutation],
+  );
+
   const cancelAdventure = useCallback(async () => {
     setRoomError(null);
     await cancelAdventureMutation.mutateAsync();
@@ -1080,6 +1619,14 @@ export function useRoomConnection(): UseRoomConnectionResult {
     return advanceScreenMutation.mutateAsync();
   }, [advanceScreenMutation]);
 
+  const voteNextScreen = useCallback(
+    async (nextPosition: number) => {
+      setRoomError(null);
+      return voteNextScreenMutation.mutateAsync(nextPosition);
+    },
+    [voteNextScreenMutation],
+  );
+
   const applyScreenEffect = useCallback(
     async (hpDelta: number, goldDelta: number, expDelta: number) => {
       setRoomError(null);
@@ -1096,20 +1643,45 @@ export function useRoomConnection(): UseRoomConnectionResult {
     [shopPurchaseMutation],
   );
 
-  const restHeal = useCallback(
-    async (restorePercent: number) => {
+  const shopBuyRelic = useCallback(
+    async (relicId: string) => {
+      setRoomError(null);
+      return shopBuyRelicMutation.mutateAsync(relicId);
+    },
+    [shopBuyRelicMutation],
+  );
+
+  const shopBuyPotion = useCallback(
+    async (potionId: string) => {
+      setRoomError(null);
+      return shopBuyPotionMutation.mutateAsync(potionId);
+    },
+    [shopBuyPotionMutation],
+  );
+
+  const shopDeckOperation = useCallback(
+    async (operation: string, deckIndex: number) => {
       setRoomError(null);
-      return restHealMutation.mutateAsync(restorePercent);
+      return shopDeckOperationMutation.mutateAsync({ operation, deckIndex });
     },
-    [restHealMutation],
+    [shopDeckOperationMutation],
+  );
+
+  const restChoose = useCallback(
+    async (choice: string, deckIndex?: number) => {
+      setRoomError(null);
+      return restChooseMutation.mutateAsync({ choice, deckIndex });
+    },
+    [restChooseMutation],
   );
 
   const combatPlayCard = useCallback(
-    async (handIndex: number, targetEnemyIdx?: number | null) => {
+    async (handIndex: number, targetEnemyIdx?: number | null, targetPlayerId?: PlayerId | null) => {
       setRoomError(null);
       return combatPlayCardMutation.mutateAsync({
         handIndex,
         targetEnemyIdx,
+        targetPlayerId,
       });
     },
     [combatPlayCardMutation],
@@ -1123,11 +1695,33 @@ export function useRoomConnection(): UseRoomConnectionResult {
     [combatUseConvergenceMutation],
   );
 
+  const combatUsePotion = useCallback(
+    async (slot: number) => {
+      setRoomError(null);
+      return combatUsePotionMutation.mutateAsync(slot);
+    },
+    [combatUsePotionMutation],
+  );
+
   const combatEndTurn = useCallback(async () => {
     setRoomError(null);
     return combatEndTurnMutation.mutateAsync();
   }, [combatEndTurnMutation]);
 
+  const combatExpirePhase = useCallback(async () => {
+    return combatExpirePhaseMutation.mutateAsync();
+  }, [combatExpirePhaseMutation]);
+
+  const combatReclaimControl = useCallback(async () => {
+    setRoomError(null);
+    return combatReclaimControlMutation.mutateAsync();
+  }, [combatReclaimControlMutation]);
+
+  const combatUndoLast = useCallback(async () => {
+    setRoomError(null);
+    return combatUndoLastMutation.mutateAsync();
+  }, [combatUndoLastMutation]);
+
   const combatRerollHand = useCallback(async () => {
     setRoomError(null);
     return combatRerollHandMutation.mutateAsync();
@@ -1138,11 +1732,6 @@ export function useRoomConnection(): UseRoomConnectionResult {
     return combatInitTurnMutation.mutateAsync();
   }, [combatInitTurnMutation]);
 
-  const combatEnemyPhase = useCallback(async () => {
-    setRoomError(null);
-    return combatEnemyPhaseMutation.mutateAsync();
-  }, [combatEnemyPhaseMutation]);
-
   const combatBotTurn = useCallback(
     async (botPlayerId: PlayerId) => {
       setRoomError(null);
@@ -1177,6 +1766,7 @@ export function useRoomConnection(): UseRoomConnectionResult {
     startAdventureMutation.isPending ||
     cancelAdventureMutation.isPending ||
     advanceScreenMutation.isPending ||
+    voteNextScreenMutation.isPending ||
     deleteRoomMutation.isPending;
 
   return useMemo(
@@ -1186,12 +1776,18 @@ export function useRoomConnection(): UseRoomConnectionResult {
       characters,
       enemies,
       currentScreen,
+      adventureMap,
+      pathVotes,
+      biomeVotes,
       combatTurn,
       playerTurnStates,
       playerCombatStates,
       enemyCombatStates,
+      combatEvents,
+      combatUndoStack,
       myRooms,
       availableRooms,
+      unlockedAscension,
       isBusy,
       roomError,
       createRoom,
@@ -1202,17 +1798,28 @@ export function useRoomConnection(): UseRoomConnectionResult {
       adminDeleteAllRooms,
       peekRoom,
       startAdventure,
+      setRoomTurnTimer,
+      setRoomAscension,
+      voteRoomBiome,
+      setPlayerBotPolicy,
       cancelAdventure,
       advanceScreen,
+      voteNextScreen,
       applyScreenEffect,
       shopPurchase,
-      restHeal,
+      shopBuyRelic,
+      shopBuyPotion,
+      shopDeckOperation,
+      restChoose,
       combatPlayCard,
       combatUseConvergence,
+      combatUsePotion,
       combatEndTurn,
+      combatExpirePhase,
+      combatReclaimControl,
+      combatUndoLast,
       combatRerollHand,
       combatInitTurn,
-      combatEnemyPhase,
       combatBotTurn,
       combatGenerateRewards,
       combatSelectReward,
@@ -1224,12 +1831,18 @@ export function useRoomConnection(): UseRoomConnectionResult {
       characters,
       enemies,
       currentScreen,
+      adventureMap,
+      pathVotes,
+      biomeVotes,
       combatTurn,
       playerTurnStates,
       playerCombatStates,
       enemyCombatStates,
+      combatEvents,
+      combatUndoStack,
       myRooms,
       availableRooms,
+      unlockedAscension,
       isBusy,
       roomError,
       createRoom,
@@ -1240,17 +1853,28 @@ export function useRoomConnection(): UseRoomConnectionResult {
       adminDeleteAllRooms,
       peekRoom,
       startAdventure,
+      setRoomTurnTimer,
+      setRoomAscension,
+      voteRoomBiome,
+      setPlayerBotPolicy,
       cancelAdventure,
       advanceScreen,
+      voteNextScreen,
       applyScreenEffect,
       shopPurchase,
-      restHeal,
+      shopBuyRelic,
+      shopBuyPotion,
+      shopDeckOperation,
+      restChoose,
       combatPlayCard,
       combatUseConvergence,
+      combatUsePotion,
       combatEndTurn,
+      combatExpirePhase,
+      combatReclaimControl,
+      combatUndoLast,
       combatRerollHand,
       combatInitTurn,
-      combatEnemyPhase,
       combatBotTurn,
       combatGenerateRewards,
       combatSelectReward,
@@ -1,4 +1,5 @@
 import type { PlayerId } from '@/types/player';
+import type { DeckCardInstance } from '@/types/spellCombat';
 
 type Character = {
   id: string;
@@ -11,6 +12,17 @@ type Character = {
   hp: number;
   hpMax: number;
   tauntTurnsLeft: number;
+  /** Relic ids owned for the rest of the run, see RELICS in gameConfig */
+  relics: string[];
+  /** Potion ids on the belt, in slot order, see POTIONS in gameConfig */
+  potions: string[];
+  potionSlots: number;
+  /** Run deck every combat is dealt from, edited by rewards and deck operations */
+  deck: DeckCardInstance[];
+  /** Deck operations bought in shops so far; each one raises the next price */
+  deckOpsBought: number;
+  /** Rest screen where this character already made their rest choice */
+  restedScreenId: string | null;
 };
 
 export type { Character };
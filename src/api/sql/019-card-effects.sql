@@ -0,0 +1,836 @@
+-- 019: Structured card effects
+-- Cards carry an ordered effect list (see CardEffect in src/features/gameConfig/cardTypes.ts).
+-- combat_play_card now interprets that list instead of the flat base_* columns, so multi-hit,
+-- self-damage, statuses, draw, energy and conditional clauses are actually enforced.
+-- Card rows themselves are seeded from src/api/sql/generated/card-definitions.sql.
+
+begin;
+
+alter table public.card_definitions
+  add column if not exists effects jsonb not null default '[]'::jsonb,
+  add column if not exists upgraded_effects jsonb not null default '[]'::jsonb;
+
+-- Block from "Persists" effects that survives the turn reset (until absorbed)
+alter table public.player_combat_state
+  add column if not exists retained_block int not null default 0;
+
+-- ----------------------------
+-- Helper: deal damage to a single enemy
+-- Applies vulnerable (x1.5) and enemy block, returns the HP actually lost.
+-- ----------------------------
+
+create or replace function public._damage_enemy(
+  p_enemy_id uuid,
+  p_amount int
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_enemy record;
+  v_actual int;
+begin
+  select * into v_enemy from public.enemy_combat_state where id = p_enemy_id;
+  if v_enemy is null or v_enemy.is_dead or p_amount <= 0 then
+    return 0;
+  end if;
+
+  v_actual := p_amount;
+  if v_enemy.vulnerable > 0 then
+    v_actual := ceil(v_actual * 1.5);
+  end if;
+
+  if v_enemy.block > 0 then
+    if v_enemy.block >= v_actual then
+      update public.enemy_combat_state set block = block - v_actual where id = p_enemy_id;
+      return 0;
+    end if;
+    v_actual := v_actual - v_enemy.block;
+    update public.enemy_combat_state set block = 0 where id = p_enemy_id;
+  end if;
+
+  v_actual := least(v_actual, v_enemy.hp);
+  update public.enemy_combat_state
+  set hp = hp - v_actual,
+      is_dead = (hp - v_actual <= 0)
+  where id = p_enemy_id;
+
+  return v_actual;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: play a card from a player's hand
+-- Shared by combat_play_card and combat_bot_turn. Callers handle auth and turn checks.
+-- ----------------------------
+
+create or replace function public._play_card(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_hand_index int,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_card_instance jsonb;
+  v_card_id text;
+  v_card record;
+  v_is_upgraded boolean;
+  v_trait text;
+  v_is_amplified boolean;
+  v_target_id uuid;
+  v_queue jsonb;
+  v_effect jsonb;
+  v_type text;
+  v_amount int;
+  v_hits int;
+  v_all boolean;
+  v_condition jsonb;
+  v_condition_met boolean;
+  v_enemy record;
+  v_hit int;
+  v_hp int;
+  v_hp_max int;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_total_burn int := 0;
+  v_self_damage int := 0;
+  v_energy_gained int := 0;
+  v_drawn int := 0;
+  v_hand jsonb;
+  v_draw_pile jsonb;
+  v_discard jsonb;
+  v_draw_result jsonb;
+  v_new_charges jsonb;
+  v_new_energy int;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+
+  if v_pcs is null then
+    raise exception 'No combat state found';
+  end if;
+
+  v_card_instance := v_pcs.hand->p_hand_index;
+  if v_card_instance is null then
+    raise exception 'Invalid hand index';
+  end if;
+
+  v_card_id := v_card_instance->>'cardId';
+  v_is_upgraded := coalesce((v_card_instance->>'upgraded')::boolean, false);
+
+  select * into v_card from public.card_definitions where id = v_card_id;
+  if v_card is null then
+    raise exception 'Card not found: %', v_card_id;
+  end if;
+
+  if v_pcs.energy < v_card.cost then
+    raise exception 'Not enough energy (have %, need %)', v_pcs.energy, v_card.cost;
+  end if;
+
+  v_trait := v_card.trait;
+  v_is_amplified := coalesce((v_pcs.trait_charges->>v_trait)::int, 0) >= 3;
+
+  -- Single-target effects all hit the enemy chosen at play time
+  select sub.id into v_target_id
+  from (
+    select ecs.id, row_number() over (order by ecs.position) - 1 as idx
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+  ) sub
+  where sub.idx = coalesce(p_target_enemy_idx, 0);
+
+  -- Remove the played card first so draw effects can't redraw it
+  v_hand := v_pcs.hand - p_hand_index;
+  v_draw_pile := v_pcs.draw_pile;
+  v_discard := v_pcs.discard_pile;
+
+  v_queue := case
+    when v_is_upgraded and jsonb_array_length(v_card.upgraded_effects) > 0 then v_card.upgraded_effects
+    else v_card.effects
+  end;
+
+  -- Resolve effects in order; conditionals splice their effects into the front of the queue
+  while jsonb_array_length(v_queue) > 0 loop
+    v_effect := v_queue->0;
+    v_queue := v_queue - 0;
+    v_type := v_effect->>'type';
+    v_amount := coalesce((v_effect->>'amount')::int, 0);
+    v_all := coalesce(v_effect->>'target', 'enemy') = 'all_enemies';
+
+    -- Empowered cards amplify their numbers by 50%
+    if v_is_amplified and v_type in ('damage', 'block', 'heal')
+      or v_is_amplified and v_type = 'apply_status' and v_effect->>'status' = 'burn' then
+      v_amount := ceil(v_amount * 1.5);
+    end if;
+
+    case v_type
+      when 'damage' then
+        if v_pcs.weakened > 0 then
+          v_amount := ceil(v_amount * 0.75);
+        end if;
+        v_hits := greatest(1, coalesce((v_effect->>'hits')::int, 1));
+        for v_hit in 1..v_hits loop
+          if v_all then
+            for v_enemy in
+              select ecs.id from public.enemy_combat_state ecs
+              where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+              order by ecs.position
+            loop
+              v_total_damage := v_total_damage + public._damage_enemy(v_enemy.id, v_amount);
+            end loop;
+          elsif v_target_id is not null then
+            v_total_damage := v_total_damage + public._damage_enemy(v_target_id, v_amount);
+          end if;
+        end loop;
+
+      when 'block' then
+        update public.player_combat_state
+        set block = block + v_amount,
+            retained_block = retained_block
+              + case when coalesce((v_effect->>'persists')::boolean, false) then v_amount else 0 end
+        where id = v_pcs.id;
+        v_total_block := v_total_block + v_amount;
+
+      when 'heal' then
+        update public.characters
+        set hp = least(hp_max, hp + v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_total_heal := v_total_heal + v_amount;
+
+      when 'self_damage' then
+        update public.characters
+        set hp = greatest(0, hp - v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_self_damage := v_self_damage + v_amount;
+
+      when 'apply_status' then
+        if v_effect->>'status' not in ('vulnerable', 'weakened', 'burn') then
+          raise exception 'Unknown enemy status: %', v_effect->>'status';
+        end if;
+        execute format(
+          'update public.enemy_combat_state set %I = %I + $1
+           where room_id = $2 and screen_id = $3 and is_dead = false and ($4 or id = $5)',
+          v_effect->>'status', v_effect->>'status'
+        ) using v_amount, p_room_id, p_screen_id, v_all, v_target_id;
+        if v_effect->>'status' = 'burn' then
+          v_total_burn := v_total_burn + v_amount;
+        end if;
+
+      when 'gain_status' then
+        if v_effect->>'status' = 'thorns' then
+          update public.player_combat_state set thorns = thorns + v_amount where id = v_pcs.id;
+        elsif v_effect->>'status' = 'regen' then
+          update public.player_combat_state set regen = regen + v_amount where id = v_pcs.id;
+        else
+          raise exception 'Unknown self status: %', v_effect->>'status';
+        end if;
+
+      when 'draw' then
+        if jsonb_array_length(v_draw_pile) < v_amount then
+          v_draw_result := public._draw_hand(v_draw_pile, v_discard, v_amount);
+          v_discard := '[]'::jsonb;
+        else
+          v_draw_result := public._draw_hand(v_draw_pile, '[]'::jsonb, v_amount);
+        end if;
+        v_hand := v_hand || (v_draw_result->'hand');
+        v_draw_pile := v_draw_result->'drawPile';
+        v_drawn := v_drawn + jsonb_array_length(v_draw_result->'hand');
+
+      when 'gain_energy' then
+        v_energy_gained := v_energy_gained + v_amount;
+
+      when 'conditional' then
+        v_condition := v_effect->'condition';
+        v_condition_met := false;
+
+        if v_condition->>'type' = 'target_has_status' and v_target_id is not null then
+          execute format(
+            'select %I > 0 from public.enemy_combat_state where id = $1',
+            v_condition->>'status'
+          ) into v_condition_met using v_target_id;
+        elsif v_condition->>'type' = 'hp_below_percent' then
+          select c.hp, c.hp_max into v_hp, v_hp_max
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = p_player_id;
+          v_condition_met := v_hp * 100 < v_hp_max * (v_condition->>'percent')::int;
+        end if;
+
+        if coalesce(v_condition_met, false) then
+          v_queue := (v_effect->'effects') || v_queue;
+        end if;
+
+      else
+        raise exception 'Unknown card effect: %', v_type;
+    end case;
+  end loop;
+
+  -- Played card goes to discard with its usage tracked (auto-upgrade at threshold)
+  v_card_instance := jsonb_set(v_card_instance, '{usageCount}',
+    to_jsonb(coalesce((v_card_instance->>'usageCount')::int, 0) + 1)
+  );
+  if not v_is_upgraded and (v_card_instance->>'usageCount')::int >= v_card.upgrade_threshold then
+    v_card_instance := jsonb_set(v_card_instance, '{upgraded}', 'true'::jsonb);
+  end if;
+  v_discard := v_discard || jsonb_build_array(v_card_instance);
+
+  -- Empowered play resets the trait, otherwise it charges
+  v_new_charges := v_pcs.trait_charges;
+  if v_is_amplified then
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+  else
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait],
+      to_jsonb(coalesce((v_new_charges->>v_trait)::int, 0) + 1));
+  end if;
+
+  v_new_energy := v_pcs.energy - v_card.cost + v_energy_gained;
+
+  update public.player_combat_state
+  set hand = v_hand,
+      draw_pile = v_draw_pile,
+      discard_pile = v_discard,
+      energy = v_new_energy,
+      trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  return jsonb_build_object(
+    'cardId', v_card_id,
+    'cardName', v_card.name,
+    'trait', v_trait,
+    'targetEnemyId', v_target_id,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'burn', v_total_burn,
+    'selfDamage', v_self_damage,
+    'drawn', v_drawn,
+    'energyGained', v_energy_gained,
+    'wasAmplified', v_is_amplified,
+    'energyLeft', v_new_energy,
+    'traitCharged', v_trait,
+    'newTraitCharges', v_new_charges
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_play_card
+-- ----------------------------
+
+create or replace function public.combat_play_card(
+  p_room_id uuid,
+  p_hand_index int,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_screen_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id;
+
+  if v_player_id is null then
+    raise exception 'Player not in room';
+  end if;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player'
+  order by ct.turn_number desc limit 1;
+
+  if v_turn_id is null then
+    raise exception 'No active player phase';
+  end if;
+
+  perform 1 from public.player_turn_state pts
+  where pts.combat_turn_id = v_turn_id and pts.player_id = v_player_id and pts.has_ended_turn = false;
+  if not found then
+    raise exception 'Already ended turn';
+  end if;
+
+  return public._play_card(p_room_id, v_screen_id, v_player_id, p_hand_index, p_target_enemy_idx);
+end;
+$$;
+
+grant execute on function public.combat_play_card(uuid, int, int) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_bot_turn
+-- Same card priority as before, but cards now resolve through _play_card.
+-- ----------------------------
+
+create or replace function public.combat_bot_turn(
+  p_room_id uuid,
+  p_bot_player_id public.player_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_host_id uuid;
+  v_is_bot boolean;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_bot_hp int;
+  v_bot_hp_max int;
+  v_action_log jsonb := '[]'::jsonb;
+  v_best_idx int;
+  v_best_priority int;
+  v_card_instance jsonb;
+  v_card record;
+  v_card_idx int;
+  v_target_enemy_idx int;
+  v_result jsonb;
+  v_iteration int := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id into v_host_id from public.rooms r where r.id = p_room_id;
+  if v_host_id <> v_user_id then
+    raise exception 'Only host can run bot turns';
+  end if;
+
+  select rp.is_bot into v_is_bot
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.player_id = p_bot_player_id;
+
+  if not v_is_bot then
+    raise exception 'Player is not a bot';
+  end if;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select c.hp, c.hp_max into v_bot_hp, v_bot_hp_max
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+  if v_bot_hp <= 0 then
+    update public.player_turn_state set has_ended_turn = true
+    where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+    return jsonb_build_object('actions', v_action_log, 'dead', true);
+  end if;
+
+  loop
+    v_iteration := v_iteration + 1;
+    if v_iteration > 10 then exit; end if;  -- Safety limit
+
+    select * into v_pcs from public.player_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = p_bot_player_id;
+
+    if jsonb_array_length(v_pcs.hand) = 0 then exit; end if;
+
+    select c.hp into v_bot_hp
+    from public.characters c
+    where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+    if v_bot_hp <= 0 then exit; end if;
+
+    -- Target the lowest HP alive enemy (index among alive enemies, by position)
+    select sub.idx into v_target_enemy_idx
+    from (
+      select ecs.hp, row_number() over (order by ecs.position) - 1 as idx
+      from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    ) sub
+    order by sub.hp asc limit 1;
+
+    if v_target_enemy_idx is null then exit; end if;
+
+    -- Pick best affordable card
+    v_best_idx := -1;
+    v_best_priority := -1;
+
+    for v_card_idx in 0..jsonb_array_length(v_pcs.hand) - 1 loop
+      v_card_instance := v_pcs.hand->v_card_idx;
+      select * into v_card from public.card_definitions where id = v_card_instance->>'cardId';
+
+      if v_card is null or v_card.cost > v_pcs.energy then continue; end if;
+
+      declare v_priority int := 0;
+      begin
+        -- Low HP? Prioritize block/heal
+        if v_bot_hp < v_bot_hp_max * 0.4 then
+          if v_card.base_block is not null and v_card.base_block > 0 then
+            v_priority := 90 + coalesce(v_card.base_block, 0);
+          elsif v_card.base_heal is not null and v_card.base_heal > 0 then
+            v_priority := 85 + coalesce(v_card.base_heal, 0);
+          end if;
+        end if;
+
+        -- Damage cards
+        if v_priority = 0 and v_card.base_damage is not null and v_card.base_damage > 0 then
+          v_priority := 50 + coalesce(v_card.base_damage, 0);
+        end if;
+
+        -- Burn
+        if v_priority = 0 and v_card.base_burn is not null and v_card.base_burn > 0 then
+          v_priority := 40 + coalesce(v_card.base_burn, 0);
+        end if;
+
+        -- Block as fallback
+        if v_priority = 0 and v_card.base_block is not null and v_card.base_block > 0 then
+          v_priority := 30 + coalesce(v_card.base_block, 0);
+        end if;
+
+        -- Anything else
+        if v_priority = 0 then v_priority := 10; end if;
+
+        if v_priority > v_best_priority then
+          v_best_priority := v_priority;
+          v_best_idx := v_card_idx;
+        end if;
+      end;
+    end loop;
+
+    if v_best_idx < 0 then exit; end if;  -- No affordable cards
+
+    v_result := public._play_card(p_room_id, v_screen_id, p_bot_player_id, v_best_idx, v_target_enemy_idx);
+
+    v_action_log := v_action_log || jsonb_build_object(
+      'action', 'spell',
+      'spellId', v_result->>'cardId',
+      'spellName', v_result->>'cardName',
+      'targetId', v_result->>'targetEnemyId',
+      'damage', (v_result->>'damage')::int,
+      'block', (v_result->>'block')::int,
+      'heal', (v_result->>'heal')::int
+    );
+  end loop;
+
+  -- End bot turn
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+
+  if not exists (
+    select 1
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    where pts.combat_turn_id = v_turn_id and pts.has_ended_turn = false and c.hp > 0
+  ) then
+    update public.combat_turns set phase = 'enemy' where id = v_turn_id;
+  end if;
+
+  return jsonb_build_object('actions', v_action_log);
+end;
+$$;
+
+grant execute on function public.combat_bot_turn(uuid, public.player_id) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_enemy_phase
+-- Unchanged from 017 except that persistent block survives the turn reset.
+-- ----------------------------
+
+create or replace function public.combat_enemy_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_turn_number int;
+  v_enemy record;
+  v_template record;
+  v_pcs record;
+  v_attacks jsonb := '[]'::jsonb;
+  v_party_wiped boolean := false;
+  v_intent_idx int;
+  v_intent_type text;
+  v_intent_value int;
+  v_intent_hits int;
+  v_weakenMult numeric;
+  v_raw_damage int;
+  v_actual_damage int;
+  v_blocked int;
+  v_pattern int[];
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select ct.id, ct.screen_id, ct.turn_number into v_turn_id, v_screen_id, v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'enemy';
+
+  if v_turn_id is null then
+    raise exception 'Not in enemy phase';
+  end if;
+
+  -- Process burn DOT on enemies
+  for v_enemy in
+    select ecs.id, ecs.hp, ecs.burn from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false and ecs.burn > 0
+  loop
+    update public.enemy_combat_state
+    set hp = greatest(0, hp - v_enemy.burn), burn = greatest(0, burn - 1)
+    where id = v_enemy.id;
+    if v_enemy.hp - v_enemy.burn <= 0 then
+      update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+    end if;
+    v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'burn', 'damage', v_enemy.burn);
+  end loop;
+
+  -- Reset enemy block
+  update public.enemy_combat_state set block = 0
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Each alive enemy acts based on intent pattern
+  for v_enemy in
+    select ecs.* from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    order by ecs.position asc
+  loop
+    -- Get intent pattern from template
+    select et.intent_pattern into v_pattern
+    from public.enemy_templates et where et.id = v_enemy.template_id;
+
+    if v_pattern is null then
+      v_pattern := '{0,2,0,3,0,4}';
+    end if;
+
+    -- Current intent from pattern (cycling)
+    v_intent_idx := v_pattern[1 + (v_enemy.intent_index % array_length(v_pattern, 1))];
+
+    -- Map intent index to type/value
+    v_intent_hits := 1;
+    case v_intent_idx
+      when 0 then v_intent_type := 'attack'; v_intent_value := 10;
+      when 1 then v_intent_type := 'heavy_attack'; v_intent_value := 20;
+      when 2 then v_intent_type := 'defend'; v_intent_value := 14;
+      when 3 then v_intent_type := 'buff'; v_intent_value := 3;
+      when 4 then v_intent_type := 'debuff'; v_intent_value := 2;
+      when 5 then v_intent_type := 'charge_attack'; v_intent_value := 32;
+      when 6 then v_intent_type := 'multi_hit'; v_intent_value := 5; v_intent_hits := 4;
+      when 7 then v_intent_type := 'lifesteal'; v_intent_value := 10;
+      else v_intent_type := 'attack'; v_intent_value := 10;
+    end case;
+
+    v_weakenMult := case when v_enemy.weakened > 0 then 0.75 else 1.0 end;
+
+    -- Execute intent
+    if v_intent_type in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+      for v_pcs in
+        select pcs.id, pcs.player_id, pcs.block, pcs.vulnerable, pcs.thorns
+        from public.player_combat_state pcs
+        join public.characters c on c.room_id = p_room_id and c.player_id = pcs.player_id
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and c.hp > 0
+      loop
+        declare
+          v_hit int;
+          v_total_dmg int := 0;
+          v_current_block int := v_pcs.block;
+          v_player_hp int;
+        begin
+          select c.hp into v_player_hp
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_pcs.player_id;
+
+          for v_hit in 1..v_intent_hits loop
+            if v_player_hp <= 0 then exit; end if;
+
+            v_raw_damage := floor((v_intent_value + v_enemy.strength) * v_weakenMult)::int;
+
+            if v_pcs.vulnerable > 0 then
+              v_raw_damage := (v_raw_damage * 3) / 2;
+            end if;
+
+            v_actual_damage := v_raw_damage;
+            if v_current_block > 0 then
+              v_blocked := least(v_current_block, v_actual_damage);
+              v_actual_damage := v_actual_damage - v_blocked;
+              v_current_block := v_current_block - v_blocked;
+            end if;
+
+            if v_actual_damage > 0 then
+              v_actual_damage := least(v_actual_damage, v_player_hp);
+              update public.characters
+              set hp = greatest(0, hp - v_actual_damage)
+              where room_id = p_room_id and player_id = v_pcs.player_id;
+              v_player_hp := v_player_hp - v_actual_damage;
+            end if;
+
+            v_total_dmg := v_total_dmg + v_actual_damage;
+
+            if v_pcs.thorns > 0 and v_raw_damage > 0 then
+              update public.enemy_combat_state
+              set hp = greatest(0, hp - v_pcs.thorns)
+              where id = v_enemy.id;
+              if (select hp from public.enemy_combat_state where id = v_enemy.id) <= 0 then
+                update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+              end if;
+            end if;
+          end loop;
+
+          update public.player_combat_state set block = v_current_block where id = v_pcs.id;
+
+          if v_intent_type = 'lifesteal' and v_total_dmg > 0 then
+            update public.enemy_combat_state
+            set hp = least(hp_max, hp + (v_total_dmg / 2))
+            where id = v_enemy.id;
+          end if;
+
+          v_attacks := v_attacks || jsonb_build_object(
+            'enemyId', v_enemy.id, 'enemyName', v_enemy.name,
+            'targetPlayerId', v_pcs.player_id,
+            'type', v_intent_type,
+            'damage', v_total_dmg,
+            'hits', v_intent_hits
+          );
+        end;
+      end loop;
+
+    elsif v_intent_type = 'defend' then
+      update public.enemy_combat_state
+      set block = block + v_intent_value
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'defend', 'value', v_intent_value);
+
+    elsif v_intent_type = 'buff' then
+      update public.enemy_combat_state
+      set strength = strength + v_intent_value
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'buff', 'value', v_intent_value);
+
+    elsif v_intent_type = 'debuff' then
+      update public.player_combat_state
+      set weakened = weakened + v_intent_value
+      where room_id = p_room_id and screen_id = v_screen_id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'debuff', 'value', v_intent_value);
+    end if;
+
+    update public.enemy_combat_state
+    set intent_index = intent_index + 1
+    where id = v_enemy.id;
+
+    if not exists (
+      select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+    ) then
+      v_party_wiped := true;
+      exit;
+    end if;
+
+    if v_turn_number > 0 and v_turn_number % 4 = 0 then
+      update public.enemy_combat_state
+      set strength = strength + 1
+      where id = v_enemy.id;
+    end if;
+  end loop;
+
+  -- Decrement player status effects
+  update public.player_combat_state
+  set vulnerable = greatest(0, vulnerable - 1),
+      weakened = greatest(0, weakened - 1),
+      thorns = 0
+  where room_id = p_room_id and screen_id = v_screen_id;
+
+  -- Decrement enemy status effects
+  update public.enemy_combat_state
+  set vulnerable = greatest(0, vulnerable - 1),
+      weakened = greatest(0, weakened - 1)
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Apply regen to players
+  for v_pcs in
+    select pcs.player_id, pcs.regen from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and pcs.regen > 0
+  loop
+    update public.characters
+    set hp = least(hp_max, hp + v_pcs.regen)
+    where room_id = p_room_id and player_id = v_pcs.player_id;
+    update public.player_combat_state
+    set regen = greatest(0, regen - 1)
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = v_pcs.player_id;
+  end loop;
+
+  -- Check party wipe
+  select not exists (
+    select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+  ) into v_party_wiped;
+
+  if v_party_wiped then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Check all enemies dead → victory
+  if not exists (
+    select 1 from public.enemy_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false
+  ) then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', false, 'victory', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Next turn
+  update public.combat_turns
+  set turn_number = v_turn_number + 1, phase = 'player'
+  where id = v_turn_id;
+
+  update public.player_turn_state
+  set actions_remaining = 0, has_ended_turn = false
+  where combat_turn_id = v_turn_id;
+
+  -- New turn: reset energy, block (keeping unabsorbed persistent block), draw new hand of 4
+  for v_pcs in
+    select pcs.id, pcs.draw_pile, pcs.hand, pcs.discard_pile, pcs.max_energy, pcs.starting_block,
+           least(pcs.block, pcs.retained_block) as kept_block
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  loop
+    declare
+      v_new_discard jsonb := v_pcs.discard_pile || v_pcs.hand;
+      v_draw_result jsonb;
+    begin
+      v_draw_result := public._draw_hand(v_pcs.draw_pile, v_new_discard, 4);
+      update public.player_combat_state
+      set energy = v_pcs.max_energy,
+          block = v_pcs.starting_block + v_pcs.kept_block,
+          retained_block = v_pcs.kept_block,
+          hand = v_draw_result->'hand',
+          draw_pile = v_draw_result->'drawPile',
+          discard_pile = '[]'::jsonb
+      where id = v_pcs.id;
+    end;
+  end loop;
+
+  return jsonb_build_object('partyWiped', false, 'victory', false, 'turnNumber', v_turn_number + 1, 'attacks', v_attacks);
+end;
+$$;
+
+grant execute on function public.combat_enemy_phase(uuid) to authenticated;
+
+commit;
@@ -0,0 +1,1672 @@
+-- 021: Seeded randomness
+-- Every room gets a seed, and every gameplay roll goes through a deterministic PRNG so a run can
+-- be replayed exactly from its seed. Rolls are split into named sub-streams (adventure, enemies,
+-- per-player draws and rewards, story votes) so that e.g. extra card draws never shift reward rolls.
+-- The legacy d20 RPCs (seed_enemies, combat_attack, combat_ability) are no longer called and
+-- keep using random().
+
+begin;
+
+alter table public.rooms
+  add column if not exists seed bigint not null default floor(random() * 2147483647)::bigint;
+
+-- How many values each stream has produced so far
+create table if not exists public.room_rng_streams (
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  stream text not null,
+  counter bigint not null default 0,
+  primary key (room_id, stream)
+);
+
+alter table public.room_rng_streams enable row level security;
+
+-- ----------------------------
+-- Helper: the n-th value of a stream for a given seed, in [0, 1)
+-- Pure: uses the top 52 bits of md5(seed:stream:n).
+-- ----------------------------
+
+create or replace function public._rng_at(p_seed bigint, p_stream text, p_n bigint)
+returns double precision
+language sql
+immutable
+as $$
+  select ('x' || substr(md5(p_seed || ':' || p_stream || ':' || p_n), 1, 13))::bit(52)::bigint
+    / 4503599627370496.0::double precision;
+$$;
+
+-- ----------------------------
+-- Helper: next value of a room's stream, in [0, 1)
+-- Falls back to random() when called without a room.
+-- ----------------------------
+
+create or replace function public._rng_next(p_room_id uuid, p_stream text)
+returns double precision
+language plpgsql
+as $$
+declare
+  v_seed bigint;
+  v_counter bigint;
+begin
+  if p_room_id is null then
+    return random();
+  end if;
+
+  select r.seed into v_seed from public.rooms r where r.id = p_room_id;
+  if v_seed is null then
+    return random();
+  end if;
+
+  insert into public.room_rng_streams (room_id, stream, counter)
+  values (p_room_id, p_stream, 1)
+  on conflict (room_id, stream) do update set counter = public.room_rng_streams.counter + 1
+  returning counter into v_counter;
+
+  return public._rng_at(v_seed, p_stream, v_counter);
+end;
+$$;
+
+-- ----------------------------
+-- Helper: integer in [p_min, p_max] from a room's stream
+-- ----------------------------
+
+create or replace function public._rng_int(p_room_id uuid, p_stream text, p_min int, p_max int)
+returns int
+language sql
+as $$
+  select p_min + floor(public._rng_next(p_room_id, p_stream) * (p_max - p_min + 1))::int;
+$$;
+
+-- ----------------------------
+-- Helper: pick p_count distinct items at random (partial Fisher-Yates)
+-- Callers pass the items in a stable order (e.g. sorted by id).
+-- ----------------------------
+
+create or replace function public._rng_sample(
+  p_room_id uuid,
+  p_stream text,
+  p_items text[],
+  p_count int
+)
+returns text[]
+language plpgsql
+as $$
+declare
+  v_items text[] := coalesce(p_items, '{}');
+  v_size int := coalesce(array_length(p_items, 1), 0);
+  v_swap text;
+  v_j int;
+  i int;
+begin
+  for i in 1..least(p_count, v_size) loop
+    v_j := public._rng_int(p_room_id, p_stream, i, v_size);
+    v_swap := v_items[i];
+    v_items[i] := v_items[v_j];
+    v_items[v_j] := v_swap;
+  end loop;
+  return v_items[1:least(p_count, v_size)];
+end;
+$$;
+
+-- ----------------------------
+-- Helper: core screen type roll (same odds as random_core_screen_type)
+-- ----------------------------
+
+create or replace function public._rng_core_screen_type(p_room_id uuid)
+returns public.screen_type
+language plpgsql
+as $$
+declare
+  v_roll int;
+begin
+  v_roll := public._rng_int(p_room_id, 'adventure', 1, 6);
+  if v_roll <= 3 then return 'combat'; end if;
+  if v_roll <= 5 then return 'narrative_choice'; end if;
+  return 'puzzle';
+end;
+$$;
+
+-- ----------------------------
+-- Helper: draw cards at random from the draw pile
+-- Takes the room and stream to draw from; without a room it falls back to random().
+-- ----------------------------
+
+drop function if exists public._draw_hand(jsonb, jsonb, int);
+
+create or replace function public._draw_hand(
+  p_draw_pile jsonb,
+  p_discard_pile jsonb,
+  p_hand_size int default 4,
+  p_room_id uuid default null,
+  p_stream text default 'draw'
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_pile jsonb;
+  v_hand jsonb := '[]'::jsonb;
+  v_idx int;
+  v_card jsonb;
+  i int;
+begin
+  v_pile := p_draw_pile;
+
+  if jsonb_array_length(v_pile) < p_hand_size then
+    v_pile := v_pile || p_discard_pile;
+  end if;
+
+  for i in 1..least(p_hand_size, jsonb_array_length(v_pile)) loop
+    v_idx := floor(public._rng_next(p_room_id, p_stream) * jsonb_array_length(v_pile))::int;
+    v_card := v_pile->v_idx;
+    v_hand := v_hand || jsonb_build_array(v_card);
+    v_pile := v_pile - v_idx;
+  end loop;
+
+  return jsonb_build_object('hand', v_hand, 'drawPile', v_pile);
+end;
+$$;
+
+drop function if exists public.create_room(text, public.role_id);
+
+-- ----------------------------
+-- RPC: create_room
+-- Optional p_seed replays a previous run.
+-- ----------------------------
+
+create or replace function public.create_room(
+  p_display_name text default null,
+  p_role_id public.role_id default null,
+  p_seed bigint default null
+)
+returns table(room_id uuid, room_code text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room_id uuid;
+  v_code text;
+  v_attempts int := 0;
+  v_assigned_player_id public.player_id := 'p1';
+  v_trimmed_name text;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_trimmed_name := trim(coalesce(p_display_name, ''));
+  if v_trimmed_name = '' then
+    raise exception 'Name is required';
+  end if;
+  if v_trimmed_name ~ '[[:space:]]' then
+    raise exception 'Name cannot contain spaces';
+  end if;
+  if char_length(v_trimmed_name) > 20 then
+    raise exception 'Name must be 20 characters or fewer';
+  end if;
+
+  if p_role_id is null then
+    raise exception 'Role is required';
+  end if;
+
+  loop
+    v_code := public.generate_room_code(6);
+    exit when not exists (select 1 from public.rooms r where r.code = v_code);
+    v_attempts := v_attempts + 1;
+    if v_attempts > 20 then
+      raise exception 'Could not generate a unique room code';
+    end if;
+  end loop;
+
+  insert into public.rooms (code, host_user_id, status, seed)
+  values (v_code, v_user_id, 'lobby', coalesce(p_seed, floor(random() * 2147483647)::bigint))
+  returning id into v_room_id;
+
+  insert into public.room_players (room_id, player_id, user_id, role_id, display_name)
+  values (v_room_id, v_assigned_player_id, v_user_id, p_role_id, v_trimmed_name);
+
+  insert into public.characters (room_id, player_id, name, level, gold, exp, hp, hp_max)
+  values (
+    v_room_id, v_assigned_player_id, v_trimmed_name, 1, 0, 0,
+    case p_role_id when 'warrior' then 60 when 'ranger' then 50 when 'sage' then 40 else 50 end,
+    case p_role_id when 'warrior' then 60 when 'ranger' then 50 when 'sage' then 40 else 50 end
+  );
+
+  return query select v_room_id, v_code;
+end;
+$$;
+
+grant execute on function public.create_room(text, public.role_id, bigint) to authenticated;
+
+drop function if exists public.create_playtest(public.screen_type, int, text, public.role_id, int, int);
+
+-- ----------------------------
+-- RPC: create_playtest
+-- Optional p_seed replays a previous run.
+-- ----------------------------
+
+create or replace function public.create_playtest(
+  p_screen_type public.screen_type,
+  p_bloc int default 1,
+  p_display_name text default 'Tester',
+  p_role_id public.role_id default 'warrior',
+  p_enemy_count int default null,
+  p_bot_count int default 0,
+  p_seed bigint default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room_id uuid;
+  v_code text;
+  v_screen_id uuid;
+  v_base_level int;
+  v_config jsonb;
+  v_attempts int := 0;
+  v_trimmed_name text;
+  v_base_hp int;
+  v_bot_roles public.role_id[] := array['warrior', 'sage', 'ranger'];
+  v_bot_role public.role_id;
+  v_bot_hp int;
+  v_bot_names text[] := array['Aldric', 'Lyra', 'Thorne'];
+  v_bot_player_ids public.player_id[] := array['p2', 'p3'];
+  v_bot_index int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_trimmed_name := trim(coalesce(p_display_name, 'Tester'));
+  v_base_level := 1 + (p_bloc - 1) * 3;
+
+  -- Generate room code
+  loop
+    v_code := public.generate_room_code(6);
+    exit when not exists (select 1 from public.rooms r where r.code = v_code);
+    v_attempts := v_attempts + 1;
+    if v_attempts > 20 then
+      raise exception 'Could not generate a unique room code';
+    end if;
+  end loop;
+
+  -- Create room
+  insert into public.rooms (code, host_user_id, status, current_screen_position, current_bloc, seed)
+  values (
+    v_code, v_user_id, 'in_progress', 0, p_bloc,
+    coalesce(p_seed, floor(random() * 2147483647)::bigint)
+  )
+  returning id into v_room_id;
+
+  -- Create human player
+  insert into public.room_players (room_id, player_id, user_id, role_id, display_name, is_bot)
+  values (v_room_id, 'p1', v_user_id, p_role_id, v_trimmed_name, false);
+
+  v_base_hp := case p_role_id
+    when 'warrior' then 300
+    when 'ranger' then 250
+    when 'sage' then 200
+    else 250
+  end;
+
+  insert into public.characters (room_id, player_id, name, level, gold, exp, hp, hp_max)
+  values (v_room_id, 'p1', v_trimmed_name, 1, 50, 0, v_base_hp, v_base_hp);
+
+  -- Create bot players
+  for v_bot_index in 1..least(p_bot_count, 2) loop
+    -- Pick a role not already taken
+    v_bot_role := null;
+    for i in 1..array_length(v_bot_roles, 1) loop
+      if v_bot_roles[i] <> p_role_id then
+        -- Check not already used by another bot
+        if not exists (
+          select 1 from public.room_players rp
+          where rp.room_id = v_room_id and rp.role_id = v_bot_roles[i]
+        ) then
+          v_bot_role := v_bot_roles[i];
+          exit;
+        end if;
+      end if;
+    end loop;
+
+    if v_bot_role is null then
+      v_bot_role := 'warrior'; -- fallback
+    end if;
+
+    v_bot_hp := case v_bot_role
+      when 'warrior' then 60
+      when 'ranger' then 50
+      when 'sage' then 40
+      else 50
+    end;
+
+    insert into public.room_players (room_id, player_id, user_id, role_id, display_name, is_bot)
+    values (v_room_id, v_bot_player_ids[v_bot_index], v_user_id, v_bot_role, v_bot_names[v_bot_index], true);
+
+    insert into public.characters (room_id, player_id, name, level, gold, exp, hp, hp_max)
+    values (v_room_id, v_bot_player_ids[v_bot_index], v_bot_names[v_bot_index], 1, 50, 0, v_bot_hp, v_bot_hp);
+  end loop;
+
+  -- Build screen config
+  if p_screen_type in ('combat', 'boss_fight') then
+    v_config := jsonb_build_object(
+      'enemyCount', coalesce(p_enemy_count, case when p_screen_type = 'boss_fight' then 1 else public._rng_int(v_room_id, 'adventure', 2, 4) end),
+      'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+      'isBoss', p_screen_type = 'boss_fight',
+      'bossName', case when p_screen_type = 'boss_fight' then 'Test Boss Lv.' || (v_base_level + 4) else null end
+    );
+  elsif p_screen_type = 'narrative_choice' then
+    v_config := jsonb_build_object(
+      'prompt', 'A mysterious figure approaches... [PLAYTEST]',
+      'options', jsonb_build_array(
+        jsonb_build_object('id', 'a', 'text', 'Help them', 'effect', jsonb_build_object('expDelta', 15)),
+        jsonb_build_object('id', 'b', 'text', 'Ignore them', 'effect', jsonb_build_object('goldDelta', 10)),
+        jsonb_build_object('id', 'c', 'text', 'Rob them', 'effect', jsonb_build_object('goldDelta', 30, 'hpDelta', -10))
+      )
+    );
+  elsif p_screen_type = 'shop' then
+    v_config := jsonb_build_object(
+      'items', jsonb_build_array(
+        jsonb_build_object('id', 'potion', 'name', 'Health Potion', 'cost', 20, 'effect', jsonb_build_object('hpDelta', 30)),
+        jsonb_build_object('id', 'scroll', 'name', 'Scroll of Wisdom', 'cost', 25, 'effect', jsonb_build_object('expDelta', 30)),
+        jsonb_build_object('id', 'elixir', 'name', 'Power Elixir', 'cost', 50, 'effect', jsonb_build_object('hpDelta', 20, 'expDelta', 40))
+      )
+    );
+  elsif p_screen_type = 'rest' then
+    v_config := jsonb_build_object('hpRestorePercent', 50);
+  elsif p_screen_type = 'puzzle' then
+    v_config := jsonb_build_object(
+      'puzzleId', 'test_riddle',
+      'timeLimit', 30,
+      'reward', jsonb_build_object('expDelta', 25, 'goldDelta', 15),
+      'penalty', jsonb_build_object('hpDelta', -15)
+    );
+  else
+    v_config := '{}'::jsonb;
+  end if;
+
+  -- Create adventure screen
+  insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+  values (v_room_id, p_bloc, 'core', 0, p_screen_type, v_config)
+  returning id into v_screen_id;
+
+  -- Seed enemies if combat/boss
+  if p_screen_type in ('combat', 'boss_fight') then
+    perform public.seed_enemies_for_screen(v_room_id, v_screen_id);
+  end if;
+
+  return v_room_id;
+end;
+$$;
+
+grant execute on function public.create_playtest(public.screen_type, int, text, public.role_id, int, int, bigint) to authenticated;
+
+-- ----------------------------
+-- RPC: generate_adventure
+-- Rolls from the 'adventure' stream.
+-- ----------------------------
+
+create or replace function public.generate_adventure(p_room_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing int;
+  v_position int := 0;
+  v_bloc int;
+  v_total_blocs int := 3;
+  v_screen_count int;
+  v_base_level int;
+  v_screen_type public.screen_type;
+  v_config jsonb;
+  i int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_room_member(p_room_id) then
+    raise exception 'Not a room member';
+  end if;
+
+  -- Don't re-generate
+  select count(*) into v_existing
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  for v_bloc in 1..v_total_blocs loop
+    v_base_level := 1 + (v_bloc - 1) * 3;
+
+    -- EARLY phase (bloc 1 only)
+    if v_bloc = 1 then
+      v_screen_count := public._rng_int(p_room_id, 'adventure', 1, 2);
+      for i in 1..v_screen_count loop
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+        values (
+          p_room_id, v_bloc, 'early', v_position, 'narrative_choice',
+          jsonb_build_object(
+            'prompt', 'You arrive at a crossroads...',
+            'options', jsonb_build_array(
+              jsonb_build_object('id', 'a', 'text', 'Take the safe path', 'effect', jsonb_build_object('hpDelta', 10)),
+              jsonb_build_object('id', 'b', 'text', 'Take the risky path', 'effect', jsonb_build_object('goldDelta', 20))
+            )
+          )
+        );
+        v_position := v_position + 1;
+      end loop;
+    end if;
+
+    -- CORE phase
+    v_screen_count := public._rng_int(p_room_id, 'adventure', 5, 6);
+    for i in 1..v_screen_count loop
+      v_screen_type := public._rng_core_screen_type(p_room_id);
+
+      if v_screen_type = 'combat' then
+        v_config := jsonb_build_object(
+          'enemyCount', public._rng_int(p_room_id, 'adventure', 2, 4),
+          'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+          'isBoss', false
+        );
+      elsif v_screen_type = 'narrative_choice' then
+        v_config := jsonb_build_object(
+          'prompt', 'A mysterious figure approaches...',
+          'options', jsonb_build_array(
+            jsonb_build_object('id', 'a', 'text', 'Help them', 'effect', jsonb_build_object('expDelta', 15)),
+            jsonb_build_object('id', 'b', 'text', 'Ignore them', 'effect', jsonb_build_object('goldDelta', 10)),
+            jsonb_build_object('id', 'c', 'text', 'Rob them', 'effect', jsonb_build_object('goldDelta', 30, 'hpDelta', -10))
+          )
+        );
+      else
+        -- puzzle
+        v_config := jsonb_build_object(
+          'puzzleId', 'riddle_' || v_bloc || '_' || i,
+          'timeLimit', 30,
+          'reward', jsonb_build_object('expDelta', 20, 'goldDelta', 15),
+          'penalty', jsonb_build_object('hpDelta', -15)
+        );
+      end if;
+
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (p_room_id, v_bloc, 'core', v_position, v_screen_type, v_config);
+      v_position := v_position + 1;
+    end loop;
+
+    -- RESOLVE phase
+    if v_bloc = v_total_blocs then
+      -- Final boss only
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'lich_commander'
+        )
+      );
+      v_position := v_position + 1;
+    else
+      -- Boss fight
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'forest_guardian'
+        )
+      );
+      v_position := v_position + 1;
+
+      -- Shop
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'shop',
+        jsonb_build_object(
+          'items', jsonb_build_array(
+            jsonb_build_object('id', 'potion_medium', 'name', 'potion_medium', 'cost', 20, 'effect', jsonb_build_object('hpDelta', 30)),
+            jsonb_build_object('id', 'elixir', 'name', 'elixir', 'cost', 40, 'effect', jsonb_build_object('expDelta', 50))
+          )
+        )
+      );
+      v_position := v_position + 1;
+
+      -- Rest
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'rest',
+        jsonb_build_object('hpRestorePercent', 50)
+      );
+      v_position := v_position + 1;
+    end if;
+
+  end loop;
+
+  -- Set room to first screen
+  update public.rooms
+  set current_screen_position = 0, current_bloc = 1
+  where id = p_room_id;
+
+  return v_position;
+end;
+$$;
+
+grant execute on function public.generate_adventure(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: seed_enemies_for_screen
+-- Rolls from the 'enemies' stream.
+-- ----------------------------
+
+create or replace function public.seed_enemies_for_screen(
+  p_room_id uuid,
+  p_screen_id uuid
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_config jsonb;
+  v_screen_type public.screen_type;
+  v_bloc int;
+  v_enemy_count int;
+  v_is_boss boolean;
+  v_boss_name text;
+  v_existing int;
+  v_fight_number int;
+  v_template_id text;
+  v_template record;
+  v_hp int;
+  v_strength int;
+  v_hp_mult numeric;
+  v_template_ids text[];
+  i int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Don't re-seed
+  select count(*) into v_existing
+  from public.enemy_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  select s.config_json, s.screen_type, s.bloc
+  into v_config, v_screen_type, v_bloc
+  from public.adventure_screens s
+  where s.id = p_screen_id and s.room_id = p_room_id;
+
+  if v_config is null then
+    raise exception 'Screen not found';
+  end if;
+
+  v_enemy_count := coalesce((v_config->>'enemyCount')::int, 2);
+  v_is_boss := coalesce((v_config->>'isBoss')::boolean, false);
+  v_boss_name := v_config->>'bossName';
+  v_fight_number := greatest(1, v_bloc);
+
+  -- Pick template IDs based on boss/normal
+  v_template_ids := '{}';
+  if v_is_boss then
+    -- Boss encounters use heavier templates
+    v_template_ids := array['dread-warden', 'chaos-wyrm', 'bridge-keeper-drog', 'ogre-lord'];
+  else
+    -- Normal encounters pick from standard pool
+    v_template_ids := array['hollow-scout', 'bone-guardian', 'plague-rat', 'shadow-fiend', 'iron-golem',
+                            'pine-wolf', 'road-blackguard', 'reed-stalker', 'totem-warden', 'crossroad-reaver'];
+  end if;
+
+  for i in 0..v_enemy_count - 1 loop
+    -- Pick random template
+    v_template_id := v_template_ids[public._rng_int(p_room_id, 'enemies', 1, array_length(v_template_ids, 1))];
+
+    -- Override with boss name if boss
+    if v_is_boss and v_boss_name is not null then
+      -- Use the first boss template but with the specified name
+      v_template_id := v_template_ids[public._rng_int(p_room_id, 'enemies', 1, array_length(v_template_ids, 1))];
+    end if;
+
+    -- Lookup template
+    select * into v_template from public.enemy_templates where id = v_template_id;
+
+    if v_template is null then
+      -- Fallback
+      select * into v_template from public.enemy_templates limit 1;
+    end if;
+
+    -- Scale HP: baseHp * scalingPerFight^(fightNumber-1)
+    v_hp_mult := power(v_template.scaling_per_fight, v_fight_number - 1);
+    v_hp := floor(v_template.base_hp * v_hp_mult)::int;
+
+    -- Scale strength: baseStrength + strengthScaling * (fightNumber-1)
+    v_strength := floor(v_template.base_strength + v_template.strength_scaling * (v_fight_number - 1))::int;
+
+    -- Boss name override
+    insert into public.enemy_combat_state (
+      room_id, screen_id, template_id, name, icon, position,
+      hp, hp_max, strength, block, intent_index, is_dead
+    ) values (
+      p_room_id, p_screen_id, v_template.id,
+      case when v_is_boss and v_boss_name is not null and i = 0 then v_boss_name else v_template.name end,
+      v_template.icon, i,
+      v_hp, v_hp, v_strength, 0, 0, false
+    );
+  end loop;
+
+  -- Init combat turn
+  perform public.combat_init_turn(p_room_id, p_screen_id);
+
+  return v_enemy_count;
+end;
+$$;
+
+grant execute on function public.seed_enemies_for_screen(uuid, uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_init_turn
+-- Opening hands come from each player's 'draw:<player>' stream.
+-- ----------------------------
+
+create or replace function public.combat_init_turn(
+  p_room_id uuid,
+  p_screen_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_turn_id uuid;
+  v_player record;
+  v_starter_cards jsonb;
+  v_draw_result jsonb;
+  v_trait_charges jsonb;
+begin
+  if exists (select 1 from public.combat_turns where room_id = p_room_id and screen_id = p_screen_id) then
+    return;
+  end if;
+
+  insert into public.combat_turns (room_id, screen_id, turn_number, phase)
+  values (p_room_id, p_screen_id, 1, 'player')
+  returning id into v_turn_id;
+
+  for v_player in
+    select rp.player_id, rp.role_id
+    from public.room_players rp
+    where rp.room_id = p_room_id
+  loop
+    insert into public.player_turn_state (combat_turn_id, player_id, actions_remaining, has_ended_turn)
+    values (v_turn_id, v_player.player_id, 0, false);
+
+    -- Build starter deck for this player's role
+    select jsonb_agg(
+      jsonb_build_object('cardId', cd.id, 'upgraded', false, 'usageCount', 0)
+    ) into v_starter_cards
+    from public.card_definitions cd
+    where cd.is_starter = true and cd.starter_role = v_player.role_id;
+
+    -- Fallback: if no role-specific cards, use all starters
+    if v_starter_cards is null or jsonb_array_length(v_starter_cards) = 0 then
+      select jsonb_agg(
+        jsonb_build_object('cardId', cd.id, 'upgraded', false, 'usageCount', 0)
+      ) into v_starter_cards
+      from public.card_definitions cd
+      where cd.is_starter = true;
+    end if;
+
+    -- Build trait_charges based on role (4 schools per role)
+    v_trait_charges := case v_player.role_id
+      when 'warrior' then '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+      when 'sage' then '{"fire":0,"frost":0,"storm":0,"arcane":0}'::jsonb
+      when 'ranger' then '{"shadow":0,"nature":0,"precision":0,"venom":0}'::jsonb
+      else '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+    end;
+
+    v_draw_result := public._draw_hand(
+      v_starter_cards, '[]'::jsonb, 4, p_room_id, 'draw:' || v_player.player_id
+    );
+
+    insert into public.player_combat_state (
+      room_id, screen_id, player_id, identity_id,
+      draw_pile, hand, discard_pile,
+      energy, max_energy, block,
+      trait_charges, attune_charges
+    ) values (
+      p_room_id, p_screen_id, v_player.player_id, coalesce(v_player.role_id, 'warrior'),
+      v_draw_result->'drawPile', v_draw_result->'hand', '[]'::jsonb,
+      3, 3, 0,
+      v_trait_charges,
+      0
+    )
+    on conflict (room_id, screen_id, player_id) do nothing;
+  end loop;
+
+  update public.characters set taunt_turns_left = 0 where room_id = p_room_id;
+end;
+$$;
+
+grant execute on function public.combat_init_turn(uuid, uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_reroll_hand
+-- ----------------------------
+
+create or replace function public.combat_reroll_hand(
+  p_room_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_screen_id uuid;
+  v_pcs record;
+  v_draw_result jsonb;
+begin
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id
+  limit 1;
+  if v_player_id is null then
+    raise exception 'Player not in room';
+  end if;
+
+  select as2.id into v_screen_id
+  from public.adventure_screens as2
+  join public.rooms r on r.id = as2.room_id
+  where as2.room_id = p_room_id
+    and as2.position = r.current_screen_position
+  limit 1;
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+  if v_pcs is null then
+    raise exception 'No combat state';
+  end if;
+
+  v_draw_result := public._draw_hand(
+    v_pcs.draw_pile || v_pcs.hand,
+    v_pcs.discard_pile,
+    4,
+    p_room_id,
+    'draw:' || v_player_id
+  );
+
+  update public.player_combat_state
+  set draw_pile = v_draw_result->'drawPile',
+      hand = v_draw_result->'hand',
+      discard_pile = '[]'::jsonb
+  where id = v_pcs.id;
+end;
+$$;
+
+grant execute on function public.combat_reroll_hand(uuid) to authenticated;
+
+-- ----------------------------
+-- Helper: play a card from a player's hand
+-- Shared by combat_play_card and combat_bot_turn. Callers handle auth and turn checks.
+-- ----------------------------
+
+create or replace function public._play_card(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_hand_index int,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_card_instance jsonb;
+  v_card_id text;
+  v_card record;
+  v_is_upgraded boolean;
+  v_trait text;
+  v_is_amplified boolean;
+  v_target_id uuid;
+  v_queue jsonb;
+  v_effect jsonb;
+  v_type text;
+  v_amount int;
+  v_hits int;
+  v_all boolean;
+  v_condition jsonb;
+  v_condition_met boolean;
+  v_enemy record;
+  v_hit int;
+  v_hp int;
+  v_hp_max int;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_total_burn int := 0;
+  v_self_damage int := 0;
+  v_energy_gained int := 0;
+  v_drawn int := 0;
+  v_hand jsonb;
+  v_draw_pile jsonb;
+  v_discard jsonb;
+  v_draw_result jsonb;
+  v_new_charges jsonb;
+  v_new_energy int;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+
+  if v_pcs is null then
+    raise exception 'No combat state found';
+  end if;
+
+  v_card_instance := v_pcs.hand->p_hand_index;
+  if v_card_instance is null then
+    raise exception 'Invalid hand index';
+  end if;
+
+  v_card_id := v_card_instance->>'cardId';
+  v_is_upgraded := coalesce((v_card_instance->>'upgraded')::boolean, false);
+
+  select * into v_card from public.card_definitions where id = v_card_id;
+  if v_card is null then
+    raise exception 'Card not found: %', v_card_id;
+  end if;
+
+  if v_pcs.energy < v_card.cost then
+    raise exception 'Not enough energy (have %, need %)', v_pcs.energy, v_card.cost;
+  end if;
+
+  v_trait := v_card.trait;
+  v_is_amplified := coalesce((v_pcs.trait_charges->>v_trait)::int, 0) >= 3;
+
+  -- Single-target effects all hit the enemy chosen at play time
+  select sub.id into v_target_id
+  from (
+    select ecs.id, row_number() over (order by ecs.position) - 1 as idx
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+  ) sub
+  where sub.idx = coalesce(p_target_enemy_idx, 0);
+
+  -- Remove the played card first so draw effects can't redraw it
+  v_hand := v_pcs.hand - p_hand_index;
+  v_draw_pile := v_pcs.draw_pile;
+  v_discard := v_pcs.discard_pile;
+
+  v_queue := case
+    when v_is_upgraded and jsonb_array_length(v_card.upgraded_effects) > 0 then v_card.upgraded_effects
+    else v_card.effects
+  end;
+
+  -- Resolve effects in order; conditionals splice their effects into the front of the queue
+  while jsonb_array_length(v_queue) > 0 loop
+    v_effect := v_queue->0;
+    v_queue := v_queue - 0;
+    v_type := v_effect->>'type';
+    v_amount := coalesce((v_effect->>'amount')::int, 0);
+    v_all := coalesce(v_effect->>'target', 'enemy') = 'all_enemies';
+
+    -- Empowered cards amplify their numbers; weakened casters deal less damage
+    if v_type in ('damage', 'block', 'heal')
+      or v_type = 'apply_status' and v_effect->>'status' = 'burn' then
+      v_amount := public._card_amount(
+        v_amount, v_is_amplified, v_type = 'damage' and v_pcs.weakened > 0
+      );
+    end if;
+
+    case v_type
+      when 'damage' then
+        v_hits := greatest(1, coalesce((v_effect->>'hits')::int, 1));
+        for v_hit in 1..v_hits loop
+          if v_all then
+            for v_enemy in
+              select ecs.id from public.enemy_combat_state ecs
+              where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+              order by ecs.position
+            loop
+              v_total_damage := v_total_damage + public._damage_enemy(v_enemy.id, v_amount);
+            end loop;
+          elsif v_target_id is not null then
+            v_total_damage := v_total_damage + public._damage_enemy(v_target_id, v_amount);
+          end if;
+        end loop;
+
+      when 'block' then
+        update public.player_combat_state
+        set block = block + v_amount,
+            retained_block = retained_block
+              + case when coalesce((v_effect->>'persists')::boolean, false) then v_amount else 0 end
+        where id = v_pcs.id;
+        v_total_block := v_total_block + v_amount;
+
+      when 'heal' then
+        update public.characters
+        set hp = least(hp_max, hp + v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_total_heal := v_total_heal + v_amount;
+
+      when 'self_damage' then
+        update public.characters
+        set hp = greatest(0, hp - v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_self_damage := v_self_damage + v_amount;
+
+      when 'apply_status' then
+        if v_effect->>'status' not in ('vulnerable', 'weakened', 'burn') then
+          raise exception 'Unknown enemy status: %', v_effect->>'status';
+        end if;
+        execute format(
+          'update public.enemy_combat_state set %I = %I + $1
+           where room_id = $2 and screen_id = $3 and is_dead = false and ($4 or id = $5)',
+          v_effect->>'status', v_effect->>'status'
+        ) using v_amount, p_room_id, p_screen_id, v_all, v_target_id;
+        if v_effect->>'status' = 'burn' then
+          v_total_burn := v_total_burn + v_amount;
+        end if;
+
+      when 'gain_status' then
+        if v_effect->>'status' = 'thorns' then
+          update public.player_combat_state set thorns = thorns + v_amount where id = v_pcs.id;
+        elsif v_effect->>'status' = 'regen' then
+          update public.player_combat_state set regen = regen + v_amount where id = v_pcs.id;
+        else
+          raise exception 'Unknown self status: %', v_effect->>'status';
+        end if;
+
+      when 'draw' then
+        if jsonb_array_length(v_draw_pile) < v_amount then
+          v_draw_result := public._draw_hand(v_draw_pile, v_discard, v_amount, p_room_id, 'draw:' || p_player_id);
+          v_discard := '[]'::jsonb;
+        else
+          v_draw_result := public._draw_hand(
+            v_draw_pile, '[]'::jsonb, v_amount, p_room_id, 'draw:' || p_player_id
+          );
+        end if;
+        v_hand := v_hand || (v_draw_result->'hand');
+        v_draw_pile := v_draw_result->'drawPile';
+        v_drawn := v_drawn + jsonb_array_length(v_draw_result->'hand');
+
+      when 'gain_energy' then
+        v_energy_gained := v_energy_gained + v_amount;
+
+      when 'conditional' then
+        v_condition := v_effect->'condition';
+        v_condition_met := false;
+
+        if v_condition->>'type' = 'target_has_status' and v_target_id is not null then
+          execute format(
+            'select %I > 0 from public.enemy_combat_state where id = $1',
+            v_condition->>'status'
+          ) into v_condition_met using v_target_id;
+        elsif v_condition->>'type' = 'hp_below_percent' then
+          select c.hp, c.hp_max into v_hp, v_hp_max
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = p_player_id;
+          v_condition_met := v_hp * 100 < v_hp_max * (v_condition->>'percent')::int;
+        end if;
+
+        if coalesce(v_condition_met, false) then
+          v_queue := (v_effect->'effects') || v_queue;
+        end if;
+
+      else
+        raise exception 'Unknown card effect: %', v_type;
+    end case;
+  end loop;
+
+  -- Played card goes to discard with its usage tracked (auto-upgrade at threshold)
+  v_card_instance := jsonb_set(v_card_instance, '{usageCount}',
+    to_jsonb(coalesce((v_card_instance->>'usageCount')::int, 0) + 1)
+  );
+  if not v_is_upgraded and (v_card_instance->>'usageCount')::int >= v_card.upgrade_threshold then
+    v_card_instance := jsonb_set(v_card_instance, '{upgraded}', 'true'::jsonb);
+  end if;
+  v_discard := v_discard || jsonb_build_array(v_card_instance);
+
+  -- Empowered play resets the trait, otherwise it charges
+  v_new_charges := v_pcs.trait_charges;
+  if v_is_amplified then
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+  else
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait],
+      to_jsonb(coalesce((v_new_charges->>v_trait)::int, 0) + 1));
+  end if;
+
+  v_new_energy := v_pcs.energy - v_card.cost + v_energy_gained;
+
+  update public.player_combat_state
+  set hand = v_hand,
+      draw_pile = v_draw_pile,
+      discard_pile = v_discard,
+      energy = v_new_energy,
+      trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  return jsonb_build_object(
+    'cardId', v_card_id,
+    'cardName', v_card.name,
+    'trait', v_trait,
+    'targetEnemyId', v_target_id,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'burn', v_total_burn,
+    'selfDamage', v_self_damage,
+    'drawn', v_drawn,
+    'energyGained', v_energy_gained,
+    'wasAmplified', v_is_amplified,
+    'energyLeft', v_new_energy,
+    'traitCharged', v_trait,
+    'newTraitCharges', v_new_charges
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_enemy_phase
+-- Unchanged from 020 except that new hands come from the draw streams.
+-- ----------------------------
+
+create or replace function public.combat_enemy_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_turn_number int;
+  v_enemy record;
+  v_template record;
+  v_pcs record;
+  v_attacks jsonb := '[]'::jsonb;
+  v_party_wiped boolean := false;
+  v_intent_idx int;
+  v_intent_type text;
+  v_intent_value int;
+  v_intent_hits int;
+  v_raw_damage int;
+  v_actual_damage int;
+  v_blocked int;
+  v_pattern int[];
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select ct.id, ct.screen_id, ct.turn_number into v_turn_id, v_screen_id, v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'enemy';
+
+  if v_turn_id is null then
+    raise exception 'Not in enemy phase';
+  end if;
+
+  -- Process burn DOT on enemies
+  for v_enemy in
+    select ecs.id, ecs.hp, ecs.burn from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false and ecs.burn > 0
+  loop
+    update public.enemy_combat_state
+    set hp = greatest(0, hp - v_enemy.burn), burn = greatest(0, burn - 1)
+    where id = v_enemy.id;
+    if v_enemy.hp - v_enemy.burn <= 0 then
+      update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+    end if;
+    v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'burn', 'damage', v_enemy.burn);
+  end loop;
+
+  -- Reset enemy block
+  update public.enemy_combat_state set block = 0
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Each alive enemy acts based on intent pattern
+  for v_enemy in
+    select ecs.* from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    order by ecs.position asc
+  loop
+    -- Get intent pattern from template
+    select et.intent_pattern into v_pattern
+    from public.enemy_templates et where et.id = v_enemy.template_id;
+
+    if v_pattern is null then
+      v_pattern := '{0,2,0,3,0,4}';
+    end if;
+
+    -- Current intent from pattern (cycling)
+    v_intent_idx := v_pattern[1 + (v_enemy.intent_index % array_length(v_pattern, 1))];
+
+    -- Map intent index to type/value
+    v_intent_hits := 1;
+    case v_intent_idx
+      when 0 then v_intent_type := 'attack'; v_intent_value := 10;
+      when 1 then v_intent_type := 'heavy_attack'; v_intent_value := 20;
+      when 2 then v_intent_type := 'defend'; v_intent_value := 14;
+      when 3 then v_intent_type := 'buff'; v_intent_value := 3;
+      when 4 then v_intent_type := 'debuff'; v_intent_value := 2;
+      when 5 then v_intent_type := 'charge_attack'; v_intent_value := 32;
+      when 6 then v_intent_type := 'multi_hit'; v_intent_value := 5; v_intent_hits := 4;
+      when 7 then v_intent_type := 'lifesteal'; v_intent_value := 10;
+      else v_intent_type := 'attack'; v_intent_value := 10;
+    end case;
+
+    -- Execute intent
+    if v_intent_type in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+      for v_pcs in
+        select pcs.id, pcs.player_id, pcs.block, pcs.vulnerable, pcs.thorns
+        from public.player_combat_state pcs
+        join public.characters c on c.room_id = p_room_id and c.player_id = pcs.player_id
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and c.hp > 0
+      loop
+        declare
+          v_hit int;
+          v_total_dmg int := 0;
+          v_current_block int := v_pcs.block;
+          v_player_hp int;
+        begin
+          select c.hp into v_player_hp
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_pcs.player_id;
+
+          for v_hit in 1..v_intent_hits loop
+            if v_player_hp <= 0 then exit; end if;
+
+            v_raw_damage := public._enemy_attack_damage(
+              v_intent_value, v_enemy.strength, v_enemy.weakened, v_pcs.vulnerable
+            );
+
+            v_actual_damage := v_raw_damage;
+            if v_current_block > 0 then
+              v_blocked := least(v_current_block, v_actual_damage);
+              v_actual_damage := v_actual_damage - v_blocked;
+              v_current_block := v_current_block - v_blocked;
+            end if;
+
+            if v_actual_damage > 0 then
+              v_actual_damage := least(v_actual_damage, v_player_hp);
+              update public.characters
+              set hp = greatest(0, hp - v_actual_damage)
+              where room_id = p_room_id and player_id = v_pcs.player_id;
+              v_player_hp := v_player_hp - v_actual_damage;
+            end if;
+
+            v_total_dmg := v_total_dmg + v_actual_damage;
+
+            if v_pcs.thorns > 0 and v_raw_damage > 0 then
+              update public.enemy_combat_state
+              set hp = greatest(0, hp - v_pcs.thorns)
+              where id = v_enemy.id;
+              if (select hp from public.enemy_combat_state where id = v_enemy.id) <= 0 then
+                update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+              end if;
+            end if;
+          end loop;
+
+          update public.player_combat_state set block = v_current_block where id = v_pcs.id;
+
+          if v_intent_type = 'lifesteal' and v_total_dmg > 0 then
+            update public.enemy_combat_state
+            set hp = least(hp_max, hp + (v_total_dmg / 2))
+            where id = v_enemy.id;
+          end if;
+
+          v_attacks := v_attacks || jsonb_build_object(
+            'enemyId', v_enemy.id, 'enemyName', v_enemy.name,
+            'targetPlayerId', v_pcs.player_id,
+            'type', v_intent_type,
+            'damage', v_total_dmg,
+            'hits', v_intent_hits
+          );
+        end;
+      end loop;
+
+    elsif v_intent_type = 'defend' then
+      update public.enemy_combat_state
+      set block = block + v_intent_value
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'defend', 'value', v_intent_value);
+
+    elsif v_intent_type = 'buff' then
+      update public.enemy_combat_state
+      set strength = strength + v_intent_value
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'buff', 'value', v_intent_value);
+
+    elsif v_intent_type = 'debuff' then
+      update public.player_combat_state
+      set weakened = weakened + v_intent_value
+      where room_id = p_room_id and screen_id = v_screen_id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'debuff', 'value', v_intent_value);
+    end if;
+
+    update public.enemy_combat_state
+    set intent_index = intent_index + 1
+    where id = v_enemy.id;
+
+    if not exists (
+      select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+    ) then
+      v_party_wiped := true;
+      exit;
+    end if;
+
+    if v_turn_number > 0 and v_turn_number % 4 = 0 then
+      update public.enemy_combat_state
+      set strength = strength + 1
+      where id = v_enemy.id;
+    end if;
+  end loop;
+
+  -- Decrement player status effects
+  update public.player_combat_state
+  set vulnerable = greatest(0, vulnerable - 1),
+      weakened = greatest(0, weakened - 1),
+      thorns = 0
+  where room_id = p_room_id and screen_id = v_screen_id;
+
+  -- Decrement enemy status effects
+  update public.enemy_combat_state
+  set vulnerable = greatest(0, vulnerable - 1),
+      weakened = greatest(0, weakened - 1)
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Apply regen to players
+  for v_pcs in
+    select pcs.player_id, pcs.regen from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and pcs.regen > 0
+  loop
+    update public.characters
+    set hp = least(hp_max, hp + v_pcs.regen)
+    where room_id = p_room_id and player_id = v_pcs.player_id;
+    update public.player_combat_state
+    set regen = greatest(0, regen - 1)
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = v_pcs.player_id;
+  end loop;
+
+  -- Check party wipe
+  select not exists (
+    select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+  ) into v_party_wiped;
+
+  if v_party_wiped then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Check all enemies dead → victory
+  if not exists (
+    select 1 from public.enemy_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false
+  ) then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', false, 'victory', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Next turn
+  update public.combat_turns
+  set turn_number = v_turn_number + 1, phase = 'player'
+  where id = v_turn_id;
+
+  update public.player_turn_state
+  set actions_remaining = 0, has_ended_turn = false
+  where combat_turn_id = v_turn_id;
+
+  -- New turn: reset energy, block (keeping unabsorbed persistent block), draw new hand of 4
+  for v_pcs in
+    select pcs.id, pcs.player_id, pcs.draw_pile, pcs.hand, pcs.discard_pile, pcs.max_energy, pcs.starting_block,
+           least(pcs.block, pcs.retained_block) as kept_block
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  loop
+    declare
+      v_new_discard jsonb := v_pcs.discard_pile || v_pcs.hand;
+      v_draw_result jsonb;
+    begin
+      v_draw_result := public._draw_hand(
+        v_pcs.draw_pile, v_new_discard, 4, p_room_id, 'draw:' || v_pcs.player_id
+      );
+      update public.player_combat_state
+      set energy = v_pcs.max_energy,
+          block = v_pcs.starting_block + v_pcs.kept_block,
+          retained_block = v_pcs.kept_block,
+          hand = v_draw_result->'hand',
+          draw_pile = v_draw_result->'drawPile',
+          discard_pile = '[]'::jsonb
+      where id = v_pcs.id;
+    end;
+  end loop;
+
+  return jsonb_build_object('partyWiped', false, 'victory', false, 'turnNumber', v_turn_number + 1, 'attacks', v_attacks);
+end;
+$$;
+
+grant execute on function public.combat_enemy_phase(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_generate_rewards
+-- Each player rolls from their own 'rewards:<player>' stream.
+-- ----------------------------
+
+create or replace function public.combat_generate_rewards(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_card_choices jsonb := '[]'::jsonb;
+  v_upgrade_choices jsonb := '[]'::jsonb;
+  v_card record;
+  v_player_id public.player_id;
+  v_stream text;
+begin
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = auth.uid() and rp.is_bot = false
+  limit 1;
+  v_stream := 'rewards:' || coalesce(v_player_id::text, 'room');
+
+  -- Pick 3 random reward cards
+  for v_card in
+    select cd.id, cd.name, cd.trait, cd.description, cd.cost, cd.is_rare
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(select id from public.card_definitions where is_starter = false order by id),
+      3
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_card_choices := v_card_choices || jsonb_build_object(
+      'type', 'add_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'trait', v_card.trait,
+      'description', v_card.description,
+      'cost', v_card.cost,
+      'isRare', v_card.is_rare
+    );
+  end loop;
+
+  -- Pick 3 random upgradeable cards from player's deck
+  -- (simplified: just pick from starter deck)
+  for v_card in
+    select cd.id, cd.name, cd.upgrade_name, cd.upgrade_description
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(select id from public.card_definitions where upgrade_threshold < 99 order by id),
+      3
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_upgrade_choices := v_upgrade_choices || jsonb_build_object(
+      'type', 'upgrade_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'upgradeName', v_card.upgrade_name,
+      'upgradeDescription', v_card.upgrade_description
+    );
+  end loop;
+
+  return jsonb_build_object(
+    'cardChoices', v_card_choices,
+    'upgradeChoices', v_upgrade_choices,
+    'bonusChoices', jsonb_build_array(
+      jsonb_build_object('type', 'bonus', 'id', 'max-hp-10', 'name', '+10 Max HP', 'icon', '❤️'),
+      jsonb_build_object('type', 'bonus', 'id', 'heal-15', 'name', 'Heal 15 HP', 'icon', '🧪'),
+      jsonb_build_object('type', 'bonus', 'id', 'max-energy-1', 'name', '+1 Max Energy', 'icon', '⚡')
+    )
+  );
+end;
+$$;
+
+grant execute on function public.combat_generate_rewards(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: story_confirm_option
+-- Vote ties are broken from the 'story-votes' stream.
+-- ----------------------------
+
+create or replace function public.story_confirm_option(
+  p_room_id uuid,
+  p_scene_id text,
+  p_step_id text,
+  p_option_id text,
+  p_next_scene_id text
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_room_status public.room_status;
+  v_current_scene_id text;
+  v_player_count int := 0;
+  v_confirm_event_id bigint;
+  v_action_count int := 0;
+  v_vote_count int := 0;
+  v_top_count int := 0;
+  v_tied_options text[];
+  v_resolved_option text;
+  v_resolved_next_scene_id text;
+  v_resolution_mode text := 'majority';
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.status
+  into v_room_status
+  from public.rooms r
+  where r.id = p_room_id
+  for update;
+
+  if v_room_status is null then
+    raise exception 'Room not found';
+  end if;
+
+  if v_room_status <> 'in_progress' then
+    raise exception 'Adventure not started';
+  end if;
+
+  select rp.player_id
+  into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id
+    and rp.user_id = v_user_id;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  select count(*)
+  into v_player_count
+  from public.room_players rp
+  where rp.room_id = p_room_id;
+
+  v_current_scene_id := public.story_current_scene_id(p_room_id);
+  if p_scene_id <> v_current_scene_id then
+    raise exception 'Scene is no longer active';
+  end if;
+
+  if p_option_id not in ('A', 'B', 'C') then
+    raise exception 'Invalid option';
+  end if;
+
+  if exists (
+    select 1
+    from public.room_events re
+    where re.room_id = p_room_id
+      and re.id > public.story_last_reset_id(p_room_id)
+      and re.type = 'scene_resolve'
+      and re.payload_json->>'sceneId' = p_scene_id
+  ) then
+    return null;
+  end if;
+
+  select count(distinct re.payload_json->>'playerId')
+  into v_action_count
+  from public.room_events re
+  where re.room_id = p_room_id
+    and re.id > public.story_last_reset_id(p_room_id)
+    and re.type = 'scene_action'
+    and re.payload_json->>'sceneId' = p_scene_id
+    and re.payload_json->>'stepId' = p_step_id;
+
+  if v_action_count < v_player_count then
+    raise exception 'Waiting for all reactions before voting';
+  end if;
+
+  if exists (
+    select 1
+    from public.room_events re
+    where re.room_id = p_room_id
+      and re.id > public.story_last_reset_id(p_room_id)
+      and re.type = 'option_confirm'
+      and re.payload_json->>'sceneId' = p_scene_id
+      and re.payload_json->>'playerId' = v_player_id::text
+  ) then
+    return null;
+  end if;
+
+  if exists (
+    select 1
+    from public.room_events re
+    where re.room_id = p_room_id
+      and re.id > public.story_last_reset_id(p_room_id)
+      and re.type = 'option_confirm'
+      and re.payload_json->>'sceneId' = p_scene_id
+      and re.payload_json->>'optionId' = p_option_id
+      and coalesce(re.payload_json->>'nextSceneId', '') <> coalesce(p_next_scene_id, '')
+  ) then
+    raise exception 'Mismatched next scene for option';
+  end if;
+
+  insert into public.room_events (room_id, actor_user_id, type, payload_json)
+  values (
+    p_room_id,
+    v_user_id,
+    'option_confirm',
+    jsonb_build_object(
+      'sceneId', p_scene_id,
+      'optionId', p_option_id,
+      'playerId', v_player_id::text,
+      'nextSceneId', p_next_scene_id
+    )
+  )
+  returning id into v_confirm_event_id;
+
+  select count(*)
+  into v_vote_count
+  from public.room_events re
+  where re.room_id = p_room_id
+    and re.id > public.story_last_reset_id(p_room_id)
+    and re.type = 'option_confirm'
+    and re.payload_json->>'sceneId' = p_scene_id;
+
+  if v_vote_count = v_player_count and not exists (
+    select 1
+    from public.room_events re
+    where re.room_id = p_room_id
+      and re.id > public.story_last_reset_id(p_room_id)
+      and re.type = 'scene_resolve'
+      and re.payload_json->>'sceneId' = p_scene_id
+  ) then
+    with option_counts as (
+      select re.payload_json->>'optionId' as option_id, count(*) as vote_count
+      from public.room_events re
+      where re.room_id = p_room_id
+        and re.id > public.story_last_reset_id(p_room_id)
+        and re.type = 'option_confirm'
+        and re.payload_json->>'sceneId' = p_scene_id
+      group by re.payload_json->>'optionId'
+    )
+    select max(oc.vote_count) into v_top_count from option_counts oc;
+
+    with option_counts as (
+      select re.payload_json->>'optionId' as option_id, count(*) as vote_count
+      from public.room_events re
+      where re.room_id = p_room_id
+        and re.id > public.story_last_reset_id(p_room_id)
+        and re.type = 'option_confirm'
+        and re.payload_json->>'sceneId' = p_scene_id
+      group by re.payload_json->>'optionId'
+    )
+    select array_agg(oc.option_id order by oc.option_id) into v_tied_options
+    from option_counts oc
+    where oc.vote_count = v_top_count;
+
+    if coalesce(array_length(v_tied_options, 1), 0) = 0 then
+      raise exception 'Could not resolve votes';
+    elsif array_length(v_tied_options, 1) = 1 then
+      v_resolved_option := v_tied_options[1];
+      v_resolution_mode := 'majority';
+    else
+      v_resolved_option := v_tied_options[public._rng_int(p_room_id, 'story-votes', 1, array_length(v_tied_options, 1))];
+      v_resolution_mode := 'random';
+    end if;
+
+    select re.payload_json->>'nextSceneId'
+    into v_resolved_next_scene_id
+    from public.room_events re
+    where re.room_id = p_room_id
+      and re.id > public.story_last_reset_id(p_room_id)
+      and re.type = 'option_confirm'
+      and re.payload_json->>'sceneId' = p_scene_id
+      and re.payload_json->>'optionId' = v_resolved_option
+    order by re.id desc
+    limit 1;
+
+    insert into public.room_events (room_id, actor_user_id, type, payload_json)
+    values (
+      p_room_id,
+      v_user_id,
+      'scene_resolve',
+      jsonb_build_object(
+        'sceneId', p_scene_id,
+        'optionId', v_resolved_option,
+        'mode', v_resolution_mode,
+        'nextSceneId', v_resolved_next_scene_id
+      )
+    );
+  end if;
+
+  return v_confirm_event_id;
+end;
+$$;
+
+grant execute on function public.story_confirm_option(uuid, text, text, text, text) to authenticated;
+
+commit;
\ No newline at end of file
@@ -0,0 +1,429 @@
+-- 024: Enemy intent catalog
+-- enemy_intents replaces the intent mapping hard-coded in combat_enemy_phase. Rows are seeded
+-- from src/features/gameConfig/enemyIntents.ts by bin/generate-sql.ts (generated/enemy-intents.sql),
+-- which also syncs each template's intent_overrides (value/hits) and intent_targeting.
+
+begin;
+
+create table if not exists public.enemy_intents (
+  code int primary key,
+  type text not null,
+  value int not null,
+  hits int not null default 1,
+  status text, -- stacks applied: buffs on the enemy, debuffs on its target
+  target text, -- default target rule, null = no player target
+  icon text not null default '',
+  label_key text not null
+);
+
+alter table public.enemy_templates
+  add column if not exists intent_overrides jsonb not null default '{}'::jsonb;
+
+-- ----------------------------
+-- Helper: catalog intent for a code, with the template's value/hits overrides applied.
+-- Unknown codes fall back to code 0 (basic attack).
+-- ----------------------------
+
+create or replace function public._enemy_intent(p_template_id text, p_intent_code int)
+returns public.enemy_intents
+language plpgsql
+stable
+as $$
+declare
+  v_intent public.enemy_intents;
+  v_override jsonb;
+begin
+  select * into v_intent from public.enemy_intents where code = p_intent_code;
+  if not found then
+    select * into v_intent from public.enemy_intents where code = 0;
+  end if;
+
+  select et.intent_overrides->(v_intent.code::text) into v_override
+  from public.enemy_templates et
+  where et.id = p_template_id;
+
+  if v_override is not null then
+    v_intent.value := coalesce((v_override->>'value')::int, v_intent.value);
+    v_intent.hits := coalesce((v_override->>'hits')::int, v_intent.hits);
+  end if;
+
+  return v_intent;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: targeting rule for an intent code (null = intent has no player target)
+-- Defaults now come from the catalog.
+-- ----------------------------
+
+create or replace function public._enemy_target_rule(p_template_id text, p_intent_code int)
+returns text
+language plpgsql
+stable
+as $$
+declare
+  v_intent public.enemy_intents := public._enemy_intent(p_template_id, p_intent_code);
+  v_override text;
+begin
+  select et.intent_targeting->>v_intent.code::text into v_override
+  from public.enemy_templates et
+  where et.id = p_template_id;
+
+  return coalesce(v_override, v_intent.target);
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_enemy_phase
+-- Unchanged from 023 except that intents come from enemy_intents.
+-- ----------------------------
+
+create or replace function public.combat_enemy_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_turn_number int;
+  v_enemy record;
+  v_template record;
+  v_pcs record;
+  v_attacks jsonb := '[]'::jsonb;
+  v_party_wiped boolean := false;
+  v_intent_idx int;
+  v_intent_type text;
+  v_intent_value int;
+  v_intent_hits int;
+  v_raw_damage int;
+  v_actual_damage int;
+  v_blocked int;
+  v_pattern int[];
+  v_target public.player_id;
+  v_intent public.enemy_intents;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select ct.id, ct.screen_id, ct.turn_number into v_turn_id, v_screen_id, v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'enemy';
+
+  if v_turn_id is null then
+    raise exception 'Not in enemy phase';
+  end if;
+
+  -- Process burn DOT on enemies
+  for v_enemy in
+    select ecs.id, ecs.hp, ecs.burn from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false and ecs.burn > 0
+  loop
+    update public.enemy_combat_state
+    set hp = greatest(0, hp - v_enemy.burn), burn = greatest(0, burn - 1)
+    where id = v_enemy.id;
+    if v_enemy.hp - v_enemy.burn <= 0 then
+      update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+    end if;
+    v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'burn', 'damage', v_enemy.burn);
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'damage', 'enemy', v_enemy.id::text,
+      p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'burn',
+      p_raw_amount => v_enemy.burn, p_final_amount => least(v_enemy.burn, v_enemy.hp)
+    );
+  end loop;
+
+  -- Reset enemy block
+  update public.enemy_combat_state set block = 0
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Each alive enemy acts based on intent pattern
+  for v_enemy in
+    select ecs.* from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    order by ecs.position asc
+  loop
+    -- Get intent pattern from template
+    select et.intent_pattern into v_pattern
+    from public.enemy_templates et where et.id = v_enemy.template_id;
+
+    if v_pattern is null then
+      v_pattern := '{0,2,0,3,0,4}';
+    end if;
+
+    -- Current intent from pattern (cycling)
+    v_intent_idx := v_pattern[1 + (v_enemy.intent_index % array_length(v_pattern, 1))];
+
+    -- Resolve the intent from the catalog (with template overrides)
+    v_intent := public._enemy_intent(v_enemy.template_id, v_intent_idx);
+    v_intent_type := v_intent.type;
+    v_intent_value := v_intent.value;
+    v_intent_hits := greatest(1, v_intent.hits);
+
+    -- A target killed earlier this phase is replaced by a random survivor
+    v_target := v_enemy.target_player_id;
+    if v_target is not null and not exists (
+      select 1 from public.characters c
+      where c.room_id = p_room_id and c.player_id = v_target and c.hp > 0
+    ) then
+      v_target := (public._rng_sample(p_room_id, 'enemy-targets', array(
+        select c.player_id::text from public.characters c
+        join public.player_combat_state pcs
+          on pcs.room_id = c.room_id and pcs.player_id = c.player_id and pcs.screen_id = v_screen_id
+        where c.room_id = p_room_id and c.hp > 0
+        order by c.player_id
+      ), 1))[1]::public.player_id;
+    end if;
+
+    -- Execute intent (null target = whole party)
+    if v_intent_type in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+      for v_pcs in
+        select pcs.id, pcs.player_id, pcs.block, pcs.vulnerable, pcs.thorns
+        from public.player_combat_state pcs
+        join public.characters c on c.room_id = p_room_id and c.player_id = pcs.player_id
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and c.hp > 0
+          and (v_target is null or pcs.player_id = v_target)
+      loop
+        declare
+          v_hit int;
+          v_total_dmg int := 0;
+          v_total_raw int := 0;
+          v_thorns_dealt int := 0;
+          v_current_block int := v_pcs.block;
+          v_player_hp int;
+        begin
+          select c.hp into v_player_hp
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_pcs.player_id;
+
+          for v_hit in 1..v_intent_hits loop
+            if v_player_hp <= 0 then exit; end if;
+
+            v_raw_damage := public._enemy_attack_damage(
+              v_intent_value, v_enemy.strength, v_enemy.weakened, v_pcs.vulnerable
+            );
+
+            v_total_raw := v_total_raw + v_raw_damage;
+            v_actual_damage := v_raw_damage;
+            if v_current_block > 0 then
+              v_blocked := least(v_current_block, v_actual_damage);
+              v_actual_damage := v_actual_damage - v_blocked;
+              v_current_block := v_current_block - v_blocked;
+            end if;
+
+            if v_actual_damage > 0 then
+              v_actual_damage := least(v_actual_damage, v_player_hp);
+              update public.characters
+              set hp = greatest(0, hp - v_actual_damage)
+              where room_id = p_room_id and player_id = v_pcs.player_id;
+              v_player_hp := v_player_hp - v_actual_damage;
+            end if;
+
+            v_total_dmg := v_total_dmg + v_actual_damage;
+
+            if v_pcs.thorns > 0 and v_raw_damage > 0 then
+              v_thorns_dealt := v_thorns_dealt + v_pcs.thorns;
+              update public.enemy_combat_state
+              set hp = greatest(0, hp - v_pcs.thorns)
+              where id = v_enemy.id;
+              if (select hp from public.enemy_combat_state where id = v_enemy.id) <= 0 then
+                update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+              end if;
+            end if;
+          end loop;
+
+          update public.player_combat_state set block = v_current_block where id = v_pcs.id;
+
+          perform public._log_combat_event(
+            p_room_id, v_screen_id, 'damage', 'enemy', v_enemy.id::text,
+            p_target_type => 'player', p_target_id => v_pcs.player_id::text,
+            p_source => v_intent_type, p_raw_amount => v_total_raw, p_final_amount => v_total_dmg
+          );
+
+          if v_thorns_dealt > 0 then
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'damage', 'player', v_pcs.player_id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'thorns',
+              p_raw_amount => v_thorns_dealt, p_final_amount => v_thorns_dealt
+            );
+          end if;
+
+          if v_intent_type = 'lifesteal' and v_total_dmg > 0 then
+            update public.enemy_combat_state
+            set hp = least(hp_max, hp + (v_total_dmg / 2))
+            where id = v_enemy.id;
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'heal', 'enemy', v_enemy.id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'lifesteal',
+              p_raw_amount => v_total_dmg / 2, p_final_amount => v_total_dmg / 2
+            );
+          end if;
+
+          v_attacks := v_attacks || jsonb_build_object(
+            'enemyId', v_enemy.id, 'enemyName', v_enemy.name,
+            'targetPlayerId', v_pcs.player_id,
+            'type', v_intent_type,
+            'damage', v_total_dmg,
+            'hits', v_intent_hits
+          );
+        end;
+      end loop;
+
+    elsif v_intent_type = 'defend' then
+      update public.enemy_combat_state
+      set block = block + v_intent_value
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'defend', 'value', v_intent_value);
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'block', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_raw_amount => v_intent_value, p_final_amount => v_intent_value
+      );
+
+    elsif v_intent_type = 'buff' then
+      execute format(
+        'update public.enemy_combat_state set %I = %I + $1 where id = $2',
+        coalesce(v_intent.status, 'strength'), coalesce(v_intent.status, 'strength')
+      ) using v_intent_value, v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'buff', 'value', v_intent_value);
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'strength'), v_intent_value)
+      );
+
+    elsif v_intent_type = 'debuff' then
+      execute format(
+        'update public.player_combat_state set %I = %I + $1
+         where room_id = $2 and screen_id = $3 and ($4::public.player_id is null or player_id = $4)',
+        coalesce(v_intent.status, 'weakened'), coalesce(v_intent.status, 'weakened')
+      ) using v_intent_value, p_room_id, v_screen_id, v_target;
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'debuff', 'value', v_intent_value, 'targetPlayerId', v_target
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'player', p_target_id => v_target::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'weakened'), v_intent_value)
+      );
+    end if;
+
+    update public.enemy_combat_state
+    set intent_index = intent_index + 1
+    where id = v_enemy.id;
+
+    if not exists (
+      select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+    ) then
+      v_party_wiped := true;
+      exit;
+    end if;
+
+    if v_turn_number > 0 and v_turn_number % 4 = 0 then
+      update public.enemy_combat_state
+      set strength = strength + 1
+      where id = v_enemy.id;
+    end if;
+  end loop;
+
+  -- Decrement player status effects
+  update public.player_combat_state
+  set vulnerable = greatest(0, vulnerable - 1),
+      weakened = greatest(0, weakened - 1),
+      thorns = 0
+  where room_id = p_room_id and screen_id = v_screen_id;
+
+  -- Decrement enemy status effects
+  update public.enemy_combat_state
+  set vulnerable = greatest(0, vulnerable - 1),
+      weakened = greatest(0, weakened - 1)
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Apply regen to players
+  for v_pcs in
+    select pcs.player_id, pcs.regen from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and pcs.regen > 0
+  loop
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'heal', 'player', v_pcs.player_id::text,
+      p_target_type => 'player', p_target_id => v_pcs.player_id::text, p_source => 'regen',
+      p_raw_amount => v_pcs.regen,
+      p_final_amount => (
+        select greatest(0, least(v_pcs.regen, c.hp_max - c.hp)) from public.characters c
+        where c.room_id = p_room_id and c.player_id = v_pcs.player_id
+      )
+    );
+    update public.characters
+    set hp = least(hp_max, hp + v_pcs.regen)
+    where room_id = p_room_id and player_id = v_pcs.player_id;
+    update public.player_combat_state
+    set regen = greatest(0, regen - 1)
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = v_pcs.player_id;
+  end loop;
+
+  -- Check party wipe
+  select not exists (
+    select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+  ) into v_party_wiped;
+
+  if v_party_wiped then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Check all enemies dead → victory
+  if not exists (
+    select 1 from public.enemy_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false
+  ) then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', false, 'victory', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Next turn
+  update public.combat_turns
+  set turn_number = v_turn_number + 1, phase = 'player'
+  where id = v_turn_id;
+
+  update public.player_turn_state
+  set actions_remaining = 0, has_ended_turn = false
+  where combat_turn_id = v_turn_id;
+
+  -- New turn: reset energy, block (keeping unabsorbed persistent block), draw new hand of 4
+  for v_pcs in
+    select pcs.id, pcs.player_id, pcs.draw_pile, pcs.hand, pcs.discard_pile, pcs.max_energy, pcs.starting_block,
+           least(pcs.block, pcs.retained_block) as kept_block
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  loop
+    declare
+      v_new_discard jsonb := v_pcs.discard_pile || v_pcs.hand;
+      v_draw_result jsonb;
+    begin
+      v_draw_result := public._draw_hand(
+        v_pcs.draw_pile, v_new_discard, 4, p_room_id, 'draw:' || v_pcs.player_id
+      );
+      update public.player_combat_state
+      set energy = v_pcs.max_energy,
+          block = v_pcs.starting_block + v_pcs.kept_block,
+          retained_block = v_pcs.kept_block,
+          hand = v_draw_result->'hand',
+          draw_pile = v_draw_result->'drawPile',
+          discard_pile = '[]'::jsonb
+      where id = v_pcs.id;
+    end;
+  end loop;
+
+  -- Intents advanced: pick next turn's targets
+  perform public._retarget_enemies(p_room_id, v_screen_id, true);
+
+  return jsonb_build_object('partyWiped', false, 'victory', false, 'turnNumber', v_turn_number + 1, 'attacks', v_attacks);
+end;
+$$;
+
+grant execute on function public.combat_enemy_phase(uuid) to authenticated;
+
+commit;
\ No newline at end of file
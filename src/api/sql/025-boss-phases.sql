@@ -0,0 +1,1125 @@
+-- 025: Multi-phase bosses
+-- Boss templates list phases (enemy_templates.phases, synced from encounters.ts by
+-- bin/generate-sql.ts). Crossing a phase's HP threshold swaps the intent pattern and fires
+-- its one-off actions (cleanse, enrage, summon). The current phase is stored on
+-- enemy_combat_state.phase so reconnecting clients read the right pattern.
+
+begin;
+
+alter table public.enemy_templates
+  add column if not exists phases jsonb not null default '[]'::jsonb;
+
+alter table public.enemy_combat_state
+  add column if not exists phase int not null default 0;
+
+-- ----------------------------
+-- Helper: intent pattern in effect (phase 0 = template pattern, phase n = n-th boss phase)
+-- ----------------------------
+
+create or replace function public._enemy_pattern(p_template_id text, p_phase int)
+returns int[]
+language plpgsql
+stable
+as $$
+declare
+  v_pattern int[];
+  v_phase_pattern int[];
+begin
+  select et.intent_pattern,
+         case when p_phase > 0 then array(
+           select jsonb_array_elements_text(et.phases->(p_phase - 1)->'intentPattern')::int
+         ) end
+  into v_pattern, v_phase_pattern
+  from public.enemy_templates et
+  where et.id = p_template_id;
+
+  if coalesce(array_length(v_phase_pattern, 1), 0) > 0 then
+    return v_phase_pattern;
+  end if;
+  return coalesce(v_pattern, '{0,2,0,3,0,4}');
+end;
+$$;
+
+-- ----------------------------
+-- Helper: spawn extra enemies mid-fight, scaled like seed_enemies_for_screen
+-- ----------------------------
+
+create or replace function public._summon_enemies(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_template_id text,
+  p_count int
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_template record;
+  v_fight_number int;
+  v_position int;
+  v_hp int;
+  i int;
+begin
+  select * into v_template from public.enemy_templates where id = p_template_id;
+  if v_template is null then
+    raise exception 'Unknown summon template: %', p_template_id;
+  end if;
+
+  select greatest(1, s.bloc) into v_fight_number
+  from public.adventure_screens s
+  where s.id = p_screen_id;
+
+  select coalesce(max(ecs.position), -1) into v_position
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id;
+
+  v_hp := floor(v_template.base_hp * power(v_template.scaling_per_fight, v_fight_number - 1))::int;
+
+  for i in 1..p_count loop
+    insert into public.enemy_combat_state (
+      room_id, screen_id, template_id, name, icon, position,
+      hp, hp_max, strength, block, intent_index, is_dead
+    ) values (
+      p_room_id, p_screen_id, v_template.id, v_template.name, v_template.icon, v_position + i,
+      v_hp, v_hp,
+      floor(v_template.base_strength + v_template.strength_scaling * (v_fight_number - 1))::int,
+      0, 0, false
+    );
+  end loop;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: move bosses into every phase whose HP threshold they crossed.
+-- A big hit can cross several thresholds at once; each phase's actions still fire.
+-- ----------------------------
+
+create or replace function public._advance_boss_phases(p_room_id uuid, p_screen_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_enemy record;
+  v_next jsonb;
+  v_action jsonb;
+  v_phase int;
+  v_changed boolean := false;
+begin
+  for v_enemy in
+    select ecs.id, ecs.hp, ecs.hp_max, ecs.phase, et.phases
+    from public.enemy_combat_state ecs
+    join public.enemy_templates et on et.id = ecs.template_id
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id
+      and ecs.is_dead = false and ecs.hp > 0
+      and jsonb_array_length(et.phases) > ecs.phase
+    order by ecs.position
+  loop
+    v_phase := v_enemy.phase;
+
+    while v_phase < jsonb_array_length(v_enemy.phases)
+      and v_enemy.hp * 100 <= v_enemy.hp_max * (v_enemy.phases->v_phase->>'hpPercent')::int
+    loop
+      v_next := v_enemy.phases->v_phase;
+      v_phase := v_phase + 1;
+
+      for v_action in select * from jsonb_array_elements(coalesce(v_next->'actions', '[]'::jsonb))
+      loop
+        case v_action->>'type'
+          when 'cleanse' then
+            update public.enemy_combat_state
+            set vulnerable = 0, weakened = 0, burn = 0
+            where id = v_enemy.id;
+          when 'enrage' then
+            update public.enemy_combat_state
+            set strength = strength + (v_action->>'strength')::int
+            where id = v_enemy.id;
+          when 'summon' then
+            perform public._summon_enemies(
+              p_room_id, p_screen_id, v_action->>'templateId', (v_action->>'count')::int
+            );
+          else
+            raise exception 'Unknown boss phase action: %', v_action->>'type';
+        end case;
+      end loop;
+
+      perform public._log_combat_event(
+        p_room_id, p_screen_id, 'boss_phase', 'enemy', v_enemy.id::text,
+        p_raw_amount => v_phase, p_final_amount => v_phase
+      );
+    end loop;
+
+    if v_phase <> v_enemy.phase then
+      update public.enemy_combat_state
+      set phase = v_phase, intent_index = 0
+      where id = v_enemy.id;
+      v_changed := true;
+    end if;
+  end loop;
+
+  -- New patterns and summons need targets
+  if v_changed then
+    perform public._retarget_enemies(p_room_id, p_screen_id);
+  end if;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: intent code an enemy shows at a given intent_index (cycling through its pattern)
+-- ----------------------------
+
+create or replace function public._enemy_intent_code(
+  p_template_id text,
+  p_phase int,
+  p_intent_index int
+)
+returns int
+language plpgsql
+stable
+as $$
+declare
+  v_pattern int[] := public._enemy_pattern(p_template_id, p_phase);
+begin
+  return v_pattern[1 + (p_intent_index % array_length(v_pattern, 1))];
+end;
+$$;
+
+-- ----------------------------
+-- Helper: (re)resolve which player every alive enemy is aiming at
+-- Unchanged from 023 except that the pattern follows the boss phase.
+-- ----------------------------
+
+create or replace function public._retarget_enemies(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_reroll boolean default false
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_enemy record;
+  v_rule text;
+  v_target public.player_id;
+  v_alive text[];
+begin
+  select coalesce(array_agg(pcs.player_id::text order by pcs.player_id), '{}') into v_alive
+  from public.player_combat_state pcs
+  join public.characters c on c.room_id = pcs.room_id and c.player_id = pcs.player_id
+  where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id and c.hp > 0;
+
+  for v_enemy in
+    select ecs.id, ecs.template_id, ecs.phase, ecs.intent_index, ecs.target_player_id, ecs.last_attacker_id
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+    order by ecs.position
+  loop
+    v_rule := public._enemy_target_rule(
+      v_enemy.template_id,
+      public._enemy_intent_code(v_enemy.template_id, v_enemy.phase, v_enemy.intent_index)
+    );
+    v_target := null;
+
+    if v_rule = 'lowest_hp' then
+      select pcs.player_id into v_target
+      from public.player_combat_state pcs
+      join public.characters c on c.room_id = pcs.room_id and c.player_id = pcs.player_id
+      where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id and c.hp > 0
+      order by c.hp asc, pcs.player_id
+      limit 1;
+    elsif v_rule = 'highest_block' then
+      select pcs.player_id into v_target
+      from public.player_combat_state pcs
+      join public.characters c on c.room_id = pcs.room_id and c.player_id = pcs.player_id
+      where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id and c.hp > 0
+      order by pcs.block desc, c.hp asc, pcs.player_id
+      limit 1;
+    elsif v_rule = 'last_attacker' and v_enemy.last_attacker_id::text = any(v_alive) then
+      v_target := v_enemy.last_attacker_id;
+    end if;
+
+    -- Random, and the fallback for a last_attacker rule with no attacker yet
+    if v_target is null and v_rule in ('random', 'last_attacker') and cardinality(v_alive) > 0 then
+      if not p_reroll and v_enemy.target_player_id::text = any(v_alive) then
+        v_target := v_enemy.target_player_id;
+      else
+        v_target := (public._rng_sample(p_room_id, 'enemy-targets', v_alive, 1))[1]::public.player_id;
+      end if;
+    end if;
+
+    update public.enemy_combat_state set target_player_id = v_target where id = v_enemy.id;
+  end loop;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: play a card from a player's hand
+-- Unchanged from 023 except that bosses may change phase.
+-- ----------------------------
+
+create or replace function public._play_card(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_hand_index int,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_card_instance jsonb;
+  v_card_id text;
+  v_card record;
+  v_is_upgraded boolean;
+  v_trait text;
+  v_is_amplified boolean;
+  v_target_id uuid;
+  v_queue jsonb;
+  v_effect jsonb;
+  v_type text;
+  v_amount int;
+  v_hits int;
+  v_all boolean;
+  v_condition jsonb;
+  v_condition_met boolean;
+  v_enemy record;
+  v_hit int;
+  v_hp int;
+  v_hp_max int;
+  v_dealt int;
+  v_actual int;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_total_burn int := 0;
+  v_self_damage int := 0;
+  v_energy_gained int := 0;
+  v_drawn int := 0;
+  v_hand jsonb;
+  v_draw_pile jsonb;
+  v_discard jsonb;
+  v_draw_result jsonb;
+  v_new_charges jsonb;
+  v_new_energy int;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+
+  if v_pcs is null then
+    raise exception 'No combat state found';
+  end if;
+
+  v_card_instance := v_pcs.hand->p_hand_index;
+  if v_card_instance is null then
+    raise exception 'Invalid hand index';
+  end if;
+
+  v_card_id := v_card_instance->>'cardId';
+  v_is_upgraded := coalesce((v_card_instance->>'upgraded')::boolean, false);
+
+  select * into v_card from public.card_definitions where id = v_card_id;
+  if v_card is null then
+    raise exception 'Card not found: %', v_card_id;
+  end if;
+
+  if v_pcs.energy < v_card.cost then
+    raise exception 'Not enough energy (have %, need %)', v_pcs.energy, v_card.cost;
+  end if;
+
+  v_trait := v_card.trait;
+  v_is_amplified := coalesce((v_pcs.trait_charges->>v_trait)::int, 0) >= 3;
+
+  -- Single-target effects all hit the enemy chosen at play time
+  select sub.id into v_target_id
+  from (
+    select ecs.id, row_number() over (order by ecs.position) - 1 as idx
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+  ) sub
+  where sub.idx = coalesce(p_target_enemy_idx, 0);
+
+  -- Remove the played card first so draw effects can't redraw it
+  v_hand := v_pcs.hand - p_hand_index;
+  v_draw_pile := v_pcs.draw_pile;
+  v_discard := v_pcs.discard_pile;
+
+  v_queue := case
+    when v_is_upgraded and jsonb_array_length(v_card.upgraded_effects) > 0 then v_card.upgraded_effects
+    else v_card.effects
+  end;
+
+  -- Resolve effects in order; conditionals splice their effects into the front of the queue
+  while jsonb_array_length(v_queue) > 0 loop
+    v_effect := v_queue->0;
+    v_queue := v_queue - 0;
+    v_type := v_effect->>'type';
+    v_amount := coalesce((v_effect->>'amount')::int, 0);
+    v_all := coalesce(v_effect->>'target', 'enemy') = 'all_enemies';
+
+    -- Empowered cards amplify their numbers; weakened casters deal less damage
+    if v_type in ('damage', 'block', 'heal')
+      or v_type = 'apply_status' and v_effect->>'status' = 'burn' then
+      v_amount := public._card_amount(
+        v_amount, v_is_amplified, v_type = 'damage' and v_pcs.weakened > 0
+      );
+    end if;
+
+    case v_type
+      when 'damage' then
+        v_hits := greatest(1, coalesce((v_effect->>'hits')::int, 1));
+        -- One log entry per target, summing all hits
+        for v_enemy in
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+            and (v_all or ecs.id = v_target_id)
+          order by ecs.position
+        loop
+          v_dealt := 0;
+          for v_hit in 1..v_hits loop
+            v_dealt := v_dealt + public._damage_enemy(v_enemy.id, v_amount);
+          end loop;
+          v_total_damage := v_total_damage + v_dealt;
+          if v_dealt > 0 then
+            update public.enemy_combat_state set last_attacker_id = p_player_id where id = v_enemy.id;
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'damage', 'player', p_player_id::text,
+            p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_card_id => v_card_id,
+            p_raw_amount => v_amount * v_hits, p_final_amount => v_dealt
+          );
+        end loop;
+
+      when 'block' then
+        update public.player_combat_state
+        set block = block + v_amount,
+            retained_block = retained_block
+              + case when coalesce((v_effect->>'persists')::boolean, false) then v_amount else 0 end
+        where id = v_pcs.id;
+        v_total_block := v_total_block + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'block', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      when 'heal' then
+        select c.hp, c.hp_max into v_hp, v_hp_max
+        from public.characters c
+        where c.room_id = p_room_id and c.player_id = p_player_id;
+        v_actual := greatest(0, least(v_amount, v_hp_max - v_hp));
+        update public.characters
+        set hp = least(hp_max, hp + v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_total_heal := v_total_heal + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'heal', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_actual
+        );
+
+      when 'self_damage' then
+        select c.hp into v_hp
+        from public.characters c
+        where c.room_id = p_room_id and c.player_id = p_player_id;
+        update public.characters
+        set hp = greatest(0, hp - v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_self_damage := v_self_damage + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'self_damage', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => least(v_amount, v_hp)
+        );
+
+      when 'apply_status' then
+        if v_effect->>'status' not in ('vulnerable', 'weakened', 'burn') then
+          raise exception 'Unknown enemy status: %', v_effect->>'status';
+        end if;
+        execute format(
+          'update public.enemy_combat_state set %I = %I + $1
+           where room_id = $2 and screen_id = $3 and is_dead = false and ($4 or id = $5)',
+          v_effect->>'status', v_effect->>'status'
+        ) using v_amount, p_room_id, p_screen_id, v_all, v_target_id;
+        if v_effect->>'status' = 'burn' then
+          v_total_burn := v_total_burn + v_amount;
+        end if;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'enemy',
+          p_target_id => case when v_all then null else v_target_id::text end,
+          p_card_id => v_card_id,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'gain_status' then
+        if v_effect->>'status' = 'thorns' then
+          update public.player_combat_state set thorns = thorns + v_amount where id = v_pcs.id;
+        elsif v_effect->>'status' = 'regen' then
+          update public.player_combat_state set regen = regen + v_amount where id = v_pcs.id;
+        else
+          raise exception 'Unknown self status: %', v_effect->>'status';
+        end if;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'draw' then
+        if jsonb_array_length(v_draw_pile) < v_amount then
+          v_draw_result := public._draw_hand(v_draw_pile, v_discard, v_amount, p_room_id, 'draw:' || p_player_id);
+          v_discard := '[]'::jsonb;
+        else
+          v_draw_result := public._draw_hand(
+            v_draw_pile, '[]'::jsonb, v_amount, p_room_id, 'draw:' || p_player_id
+          );
+        end if;
+        v_hand := v_hand || (v_draw_result->'hand');
+        v_draw_pile := v_draw_result->'drawPile';
+        v_drawn := v_drawn + jsonb_array_length(v_draw_result->'hand');
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'draw', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => jsonb_array_length(v_draw_result->'hand')
+        );
+
+      when 'gain_energy' then
+        v_energy_gained := v_energy_gained + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'energy', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      when 'conditional' then
+        v_condition := v_effect->'condition';
+        v_condition_met := false;
+
+        if v_condition->>'type' = 'target_has_status' and v_target_id is not null then
+          execute format(
+            'select %I > 0 from public.enemy_combat_state where id = $1',
+            v_condition->>'status'
+          ) into v_condition_met using v_target_id;
+        elsif v_condition->>'type' = 'hp_below_percent' then
+          select c.hp, c.hp_max into v_hp, v_hp_max
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = p_player_id;
+          v_condition_met := v_hp * 100 < v_hp_max * (v_condition->>'percent')::int;
+        end if;
+
+        if coalesce(v_condition_met, false) then
+          v_queue := (v_effect->'effects') || v_queue;
+        end if;
+
+      else
+        raise exception 'Unknown card effect: %', v_type;
+    end case;
+  end loop;
+
+  -- Played card goes to discard with its usage tracked (auto-upgrade at threshold)
+  v_card_instance := jsonb_set(v_card_instance, '{usageCount}',
+    to_jsonb(coalesce((v_card_instance->>'usageCount')::int, 0) + 1)
+  );
+  if not v_is_upgraded and (v_card_instance->>'usageCount')::int >= v_card.upgrade_threshold then
+    v_card_instance := jsonb_set(v_card_instance, '{upgraded}', 'true'::jsonb);
+  end if;
+  v_discard := v_discard || jsonb_build_array(v_card_instance);
+
+  -- Empowered play resets the trait, otherwise it charges
+  v_new_charges := v_pcs.trait_charges;
+  if v_is_amplified then
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+  else
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait],
+      to_jsonb(coalesce((v_new_charges->>v_trait)::int, 0) + 1));
+  end if;
+
+  v_new_energy := v_pcs.energy - v_card.cost + v_energy_gained;
+
+  update public.player_combat_state
+  set hand = v_hand,
+      draw_pile = v_draw_pile,
+      discard_pile = v_discard,
+      energy = v_new_energy,
+      trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  perform public._advance_boss_phases(p_room_id, p_screen_id);
+
+  -- Block, HP and attackers may have changed who the enemies are aiming at
+  perform public._retarget_enemies(p_room_id, p_screen_id);
+
+  return jsonb_build_object(
+    'cardId', v_card_id,
+    'cardName', v_card.name,
+    'trait', v_trait,
+    'targetEnemyId', v_target_id,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'burn', v_total_burn,
+    'selfDamage', v_self_damage,
+    'drawn', v_drawn,
+    'energyGained', v_energy_gained,
+    'wasAmplified', v_is_amplified,
+    'energyLeft', v_new_energy,
+    'traitCharged', v_trait,
+    'newTraitCharges', v_new_charges
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_use_convergence
+-- Unchanged from 023 except that bosses may change phase.
+-- ----------------------------
+
+create or replace function public.combat_use_convergence(
+  p_room_id uuid,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_empowered_count int := 0;
+  v_trait text;
+  v_new_charges jsonb;
+  v_multiplier numeric;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_energy_gained int := 0;
+  v_vuln_applied int := 0;
+  v_weak_applied int := 0;
+  v_enemy record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  -- Count and reset empowered traits
+  v_new_charges := v_pcs.trait_charges;
+  for v_trait in select key from jsonb_each_text(v_pcs.trait_charges) where value::int >= 3
+  loop
+    v_empowered_count := v_empowered_count + 1;
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+
+    -- Apply convergence effect per trait
+    -- Fire: damage
+    if v_trait = 'fire' then
+      v_total_damage := v_total_damage + 16;
+    -- Guard: block (persistent)
+    elsif v_trait = 'guard' then
+      v_total_block := v_total_block + 14;
+    -- Shadow: vulnerable + weakened
+    elsif v_trait = 'shadow' then
+      v_vuln_applied := v_vuln_applied + 2;
+      v_weak_applied := v_weak_applied + 2;
+    -- Storm: energy
+    elsif v_trait = 'storm' then
+      v_energy_gained := v_energy_gained + 2;
+    -- Nature: heal
+    elsif v_trait = 'nature' then
+      v_total_heal := v_total_heal + 12;
+    end if;
+  end loop;
+
+  if v_empowered_count < 2 then
+    raise exception 'Need at least 2 empowered traits';
+  end if;
+
+  -- Apply multiplier based on count
+  v_multiplier := case
+    when v_empowered_count >= 5 then 2.5
+    when v_empowered_count >= 4 then 2.0
+    when v_empowered_count >= 3 then 1.5
+    else 1.0
+  end;
+
+  v_total_damage := floor(v_total_damage * v_multiplier)::int;
+  v_total_block := floor(v_total_block * v_multiplier)::int;
+  v_total_heal := floor(v_total_heal * v_multiplier)::int;
+
+  -- Apply damage to all enemies
+  if v_total_damage > 0 then
+    for v_enemy in
+      select ecs.id, ecs.hp, ecs.block from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    loop
+      declare v_remaining int := v_total_damage;
+      begin
+        perform public._log_combat_event(
+          p_room_id, v_screen_id, 'damage', 'player', v_player_id::text,
+          p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'convergence',
+          p_raw_amount => v_total_damage,
+          p_final_amount => least(v_enemy.hp, greatest(0, v_total_damage - v_enemy.block))
+        );
+        if v_enemy.block > 0 then
+          if v_enemy.block >= v_remaining then
+            update public.enemy_combat_state set block = block - v_remaining where id = v_enemy.id;
+            v_remaining := 0;
+          else
+            v_remaining := v_remaining - v_enemy.block;
+            update public.enemy_combat_state set block = 0 where id = v_enemy.id;
+          end if;
+        end if;
+        if v_remaining > 0 then
+          update public.enemy_combat_state
+          set hp = greatest(0, hp - v_remaining), last_attacker_id = v_player_id
+          where id = v_enemy.id;
+          if v_enemy.hp - v_remaining <= 0 then
+            update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+          end if;
+        end if;
+      end;
+    end loop;
+  end if;
+
+  -- Apply block
+  if v_total_block > 0 then
+    update public.player_combat_state set block = block + v_total_block where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'block', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_block, p_final_amount => v_total_block
+    );
+  end if;
+
+  -- Apply heal
+  if v_total_heal > 0 then
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'heal', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_heal,
+      p_final_amount => (
+        select greatest(0, least(v_total_heal, c.hp_max - c.hp)) from public.characters c
+        where c.room_id = p_room_id and c.player_id = v_player_id
+      )
+    );
+    update public.characters set hp = least(hp_max, hp + v_total_heal)
+    where room_id = p_room_id and player_id = v_player_id;
+  end if;
+
+  -- Apply energy
+  if v_energy_gained > 0 then
+    update public.player_combat_state set energy = energy + v_energy_gained where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'energy', 'player', v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_energy_gained, p_final_amount => v_energy_gained
+    );
+  end if;
+
+  -- Apply debuffs to all enemies
+  if v_vuln_applied > 0 or v_weak_applied > 0 then
+    update public.enemy_combat_state
+    set vulnerable = vulnerable + v_vuln_applied,
+        weakened = weakened + v_weak_applied
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'status', 'player', v_player_id::text,
+      p_target_type => 'enemy', p_source => 'convergence',
+      p_statuses => jsonb_strip_nulls(jsonb_build_object(
+        'vulnerable', nullif(v_vuln_applied, 0),
+        'weakened', nullif(v_weak_applied, 0)
+      ))
+    );
+  end if;
+
+  -- Save charges
+  update public.player_combat_state
+  set trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+  perform public._retarget_enemies(p_room_id, v_screen_id);
+
+  -- Free action: does NOT consume energy
+
+  return jsonb_build_object(
+    'empoweredCount', v_empowered_count,
+    'multiplier', v_multiplier,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'energy', v_energy_gained,
+    'vulnerable', v_vuln_applied,
+    'weakened', v_weak_applied,
+    'newTraitCharges', v_new_charges
+  );
+end;
+$$;
+
+grant execute on function public.combat_use_convergence(uuid, int) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_enemy_phase
+-- Unchanged from 024 except for boss phase patterns and transitions.
+-- ----------------------------
+
+create or replace function public.combat_enemy_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_turn_number int;
+  v_enemy record;
+  v_template record;
+  v_pcs record;
+  v_attacks jsonb := '[]'::jsonb;
+  v_party_wiped boolean := false;
+  v_intent_idx int;
+  v_intent_type text;
+  v_intent_value int;
+  v_intent_hits int;
+  v_raw_damage int;
+  v_actual_damage int;
+  v_blocked int;
+  v_target public.player_id;
+  v_intent public.enemy_intents;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select ct.id, ct.screen_id, ct.turn_number into v_turn_id, v_screen_id, v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'enemy';
+
+  if v_turn_id is null then
+    raise exception 'Not in enemy phase';
+  end if;
+
+  -- Process burn DOT on enemies
+  for v_enemy in
+    select ecs.id, ecs.hp, ecs.burn from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false and ecs.burn > 0
+  loop
+    update public.enemy_combat_state
+    set hp = greatest(0, hp - v_enemy.burn), burn = greatest(0, burn - 1)
+    where id = v_enemy.id;
+    if v_enemy.hp - v_enemy.burn <= 0 then
+      update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+    end if;
+    v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'burn', 'damage', v_enemy.burn);
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'damage', 'enemy', v_enemy.id::text,
+      p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'burn',
+      p_raw_amount => v_enemy.burn, p_final_amount => least(v_enemy.burn, v_enemy.hp)
+    );
+  end loop;
+
+  -- Reset enemy block
+  update public.enemy_combat_state set block = 0
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Each alive enemy acts based on intent pattern
+  for v_enemy in
+    select ecs.* from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    order by ecs.position asc
+  loop
+    -- Current intent from the pattern of the enemy's phase (cycling)
+    v_intent_idx := public._enemy_intent_code(v_enemy.template_id, v_enemy.phase, v_enemy.intent_index);
+
+    -- Resolve the intent from the catalog (with template overrides)
+    v_intent := public._enemy_intent(v_enemy.template_id, v_intent_idx);
+    v_intent_type := v_intent.type;
+    v_intent_value := v_intent.value;
+    v_intent_hits := greatest(1, v_intent.hits);
+
+    -- A target killed earlier this phase is replaced by a random survivor
+    v_target := v_enemy.target_player_id;
+    if v_target is not null and not exists (
+      select 1 from public.characters c
+      where c.room_id = p_room_id and c.player_id = v_target and c.hp > 0
+    ) then
+      v_target := (public._rng_sample(p_room_id, 'enemy-targets', array(
+        select c.player_id::text from public.characters c
+        join public.player_combat_state pcs
+          on pcs.room_id = c.room_id and pcs.player_id = c.player_id and pcs.screen_id = v_screen_id
+        where c.room_id = p_room_id and c.hp > 0
+        order by c.player_id
+      ), 1))[1]::public.player_id;
+    end if;
+
+    -- Execute intent (null target = whole party)
+    if v_intent_type in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+      for v_pcs in
+        select pcs.id, pcs.player_id, pcs.block, pcs.vulnerable, pcs.thorns
+        from public.player_combat_state pcs
+        join public.characters c on c.room_id = p_room_id and c.player_id = pcs.player_id
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and c.hp > 0
+          and (v_target is null or pcs.player_id = v_target)
+      loop
+        declare
+          v_hit int;
+          v_total_dmg int := 0;
+          v_total_raw int := 0;
+          v_thorns_dealt int := 0;
+          v_current_block int := v_pcs.block;
+          v_player_hp int;
+        begin
+          select c.hp into v_player_hp
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_pcs.player_id;
+
+          for v_hit in 1..v_intent_hits loop
+            if v_player_hp <= 0 then exit; end if;
+
+            v_raw_damage := public._enemy_attack_damage(
+              v_intent_value, v_enemy.strength, v_enemy.weakened, v_pcs.vulnerable
+            );
+
+            v_total_raw := v_total_raw + v_raw_damage;
+            v_actual_damage := v_raw_damage;
+            if v_current_block > 0 then
+              v_blocked := least(v_current_block, v_actual_damage);
+              v_actual_damage := v_actual_damage - v_blocked;
+              v_current_block := v_current_block - v_blocked;
+            end if;
+
+            if v_actual_damage > 0 then
+              v_actual_damage := least(v_actual_damage, v_player_hp);
+              update public.characters
+              set hp = greatest(0, hp - v_actual_damage)
+              where room_id = p_room_id and player_id = v_pcs.player_id;
+              v_player_hp := v_player_hp - v_actual_damage;
+            end if;
+
+            v_total_dmg := v_total_dmg + v_actual_damage;
+
+            if v_pcs.thorns > 0 and v_raw_damage > 0 then
+              v_thorns_dealt := v_thorns_dealt + v_pcs.thorns;
+              update public.enemy_combat_state
+              set hp = greatest(0, hp - v_pcs.thorns)
+              where id = v_enemy.id;
+              if (select hp from public.enemy_combat_state where id = v_enemy.id) <= 0 then
+                update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+              end if;
+            end if;
+          end loop;
+
+          update public.player_combat_state set block = v_current_block where id = v_pcs.id;
+
+          perform public._log_combat_event(
+            p_room_id, v_screen_id, 'damage', 'enemy', v_enemy.id::text,
+            p_target_type => 'player', p_target_id => v_pcs.player_id::text,
+            p_source => v_intent_type, p_raw_amount => v_total_raw, p_final_amount => v_total_dmg
+          );
+
+          if v_thorns_dealt > 0 then
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'damage', 'player', v_pcs.player_id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'thorns',
+              p_raw_amount => v_thorns_dealt, p_final_amount => v_thorns_dealt
+            );
+          end if;
+
+          if v_intent_type = 'lifesteal' and v_total_dmg > 0 then
+            update public.enemy_combat_state
+            set hp = least(hp_max, hp + (v_total_dmg / 2))
+            where id = v_enemy.id;
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'heal', 'enemy', v_enemy.id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'lifesteal',
+              p_raw_amount => v_total_dmg / 2, p_final_amount => v_total_dmg / 2
+            );
+          end if;
+
+          v_attacks := v_attacks || jsonb_build_object(
+            'enemyId', v_enemy.id, 'enemyName', v_enemy.name,
+            'targetPlayerId', v_pcs.player_id,
+            'type', v_intent_type,
+            'damage', v_total_dmg,
+            'hits', v_intent_hits
+          );
+        end;
+      end loop;
+
+    elsif v_intent_type = 'defend' then
+      update public.enemy_combat_state
+      set block = block + v_intent_value
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'defend', 'value', v_intent_value);
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'block', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_raw_amount => v_intent_value, p_final_amount => v_intent_value
+      );
+
+    elsif v_intent_type = 'buff' then
+      execute format(
+        'update public.enemy_combat_state set %I = %I + $1 where id = $2',
+        coalesce(v_intent.status, 'strength'), coalesce(v_intent.status, 'strength')
+      ) using v_intent_value, v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'buff', 'value', v_intent_value);
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'strength'), v_intent_value)
+      );
+
+    elsif v_intent_type = 'debuff' then
+      execute format(
+        'update public.player_combat_state set %I = %I + $1
+         where room_id = $2 and screen_id = $3 and ($4::public.player_id is null or player_id = $4)',
+        coalesce(v_intent.status, 'weakened'), coalesce(v_intent.status, 'weakened')
+      ) using v_intent_value, p_room_id, v_screen_id, v_target;
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'debuff', 'value', v_intent_value, 'targetPlayerId', v_target
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'player', p_target_id => v_target::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'weakened'), v_intent_value)
+      );
+    end if;
+
+    update public.enemy_combat_state
+    set intent_index = intent_index + 1
+    where id = v_enemy.id;
+
+    if not exists (
+      select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+    ) then
+      v_party_wiped := true;
+      exit;
+    end if;
+
+    if v_turn_number > 0 and v_turn_number % 4 = 0 then
+      update public.enemy_combat_state
+      set strength = strength + 1
+      where id = v_enemy.id;
+    end if;
+  end loop;
+
+  -- Burn and thorns may have pushed a boss past a threshold
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+
+  -- Decrement player status effects
+  update public.player_combat_state
+  set vulnerable = greatest(0, vulnerable - 1),
+      weakened = greatest(0, weakened - 1),
+      thorns = 0
+  where room_id = p_room_id and screen_id = v_screen_id;
+
+  -- Decrement enemy status effects
+  update public.enemy_combat_state
+  set vulnerable = greatest(0, vulnerable - 1),
+      weakened = greatest(0, weakened - 1)
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Apply regen to players
+  for v_pcs in
+    select pcs.player_id, pcs.regen from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and pcs.regen > 0
+  loop
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'heal', 'player', v_pcs.player_id::text,
+      p_target_type => 'player', p_target_id => v_pcs.player_id::text, p_source => 'regen',
+      p_raw_amount => v_pcs.regen,
+      p_final_amount => (
+        select greatest(0, least(v_pcs.regen, c.hp_max - c.hp)) from public.characters c
+        where c.room_id = p_room_id and c.player_id = v_pcs.player_id
+      )
+    );
+    update public.characters
+    set hp = least(hp_max, hp + v_pcs.regen)
+    where room_id = p_room_id and player_id = v_pcs.player_id;
+    update public.player_combat_state
+    set regen = greatest(0, regen - 1)
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = v_pcs.player_id;
+  end loop;
+
+  -- Check party wipe
+  select not exists (
+    select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+  ) into v_party_wiped;
+
+  if v_party_wiped then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Check all enemies dead → victory
+  if not exists (
+    select 1 from public.enemy_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false
+  ) then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', false, 'victory', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Next turn
+  update public.combat_turns
+  set turn_number = v_turn_number + 1, phase = 'player'
+  where id = v_turn_id;
+
+  update public.player_turn_state
+  set actions_remaining = 0, has_ended_turn = false
+  where combat_turn_id = v_turn_id;
+
+  -- New turn: reset energy, block (keeping unabsorbed persistent block), draw new hand of 4
+  for v_pcs in
+    select pcs.id, pcs.player_id, pcs.draw_pile, pcs.hand, pcs.discard_pile, pcs.max_energy, pcs.starting_block,
+           least(pcs.block, pcs.retained_block) as kept_block
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  loop
+    declare
+      v_new_discard jsonb := v_pcs.discard_pile || v_pcs.hand;
+      v_draw_result jsonb;
+    begin
+      v_draw_result := public._draw_hand(
+        v_pcs.draw_pile, v_new_discard, 4, p_room_id, 'draw:' || v_pcs.player_id
+      );
+      update public.player_combat_state
+      set energy = v_pcs.max_energy,
+          block = v_pcs.starting_block + v_pcs.kept_block,
+          retained_block = v_pcs.kept_block,
+          hand = v_draw_result->'hand',
+          draw_pile = v_draw_result->'drawPile',
+          discard_pile = '[]'::jsonb
+      where id = v_pcs.id;
+    end;
+  end loop;
+
+  -- Intents advanced: pick next turn's targets
+  perform public._retarget_enemies(p_room_id, v_screen_id, true);
+
+  return jsonb_build_object('partyWiped', false, 'victory', false, 'turnNumber', v_turn_number + 1, 'attacks', v_attacks);
+end;
+$$;
+
+grant execute on function public.combat_enemy_phase(uuid) to authenticated;
+
+commit;
\ No newline at end of file
@@ -0,0 +1,1048 @@
+-- 026: Status registry
+-- status_definitions describes every status: who can carry it, how applications stack,
+-- the phase boundary it ticks at and how it decays. Rows are seeded from
+-- src/features/gameConfig/statuses.ts by bin/generate-sql.ts (generated/status-definitions.sql).
+-- _apply_status and _tick_statuses replace the per-status code in the combat RPCs, which
+-- makes player thorns/regen and the new poison, frail, stun and strength_down statuses work.
+
+begin;
+
+create table if not exists public.status_definitions (
+  id text primary key, -- also the column name on enemy_combat_state / player_combat_state
+  position int not null default 0, -- tick order within a phase boundary
+  sides text[] not null, -- 'player' and/or 'enemy'
+  kind text not null, -- 'buff' | 'debuff'
+  stacking text not null default 'add', -- 'add' | 'max'
+  tick text not null, -- 'player_start' | 'player_end' | 'enemy_start' | 'enemy_end'
+  decay text not null default 'one', -- 'one' | 'all' | 'none'
+  tick_effect text, -- 'damage' | 'heal', null = no effect at tick
+  icon text not null default '',
+  label_key text not null
+);
+
+alter table public.enemy_combat_state
+  add column if not exists poison int not null default 0,
+  add column if not exists frail int not null default 0,
+  add column if not exists stun int not null default 0,
+  add column if not exists strength_down int not null default 0;
+
+alter table public.player_combat_state
+  add column if not exists poison int not null default 0,
+  add column if not exists frail int not null default 0;
+
+-- ----------------------------
+-- Helper: block actually gained by a frail carrier (rounds down)
+-- ----------------------------
+
+create or replace function public._frail_block(p_amount int, p_frail int)
+returns int
+language plpgsql
+immutable
+as $$
+begin
+  if p_frail > 0 then
+    return floor(p_amount * 0.75)::int;
+  end if;
+  return p_amount;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: raw damage of one enemy hit on a player
+-- Unchanged from 020 except that negative strength (strength_down) bottoms out at 0.
+-- ----------------------------
+
+create or replace function public._enemy_attack_damage(
+  p_value int,
+  p_strength int,
+  p_weakened int,
+  p_target_vulnerable int
+)
+returns int
+language plpgsql
+immutable
+as $$
+declare
+  v_damage int;
+begin
+  v_damage := floor(
+    greatest(0, p_value + p_strength) * case when p_weakened > 0 then 0.75 else 1.0 end
+  )::int;
+  if p_target_vulnerable > 0 then
+    v_damage := floor(v_damage * 1.5)::int;
+  end if;
+  return v_damage;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: add stacks of a status to enemy_combat_state or player_combat_state rows,
+-- following the status' stacking rule. Raises for statuses the side cannot carry.
+-- ----------------------------
+
+create or replace function public._apply_status(
+  p_side text,
+  p_row_ids uuid[],
+  p_status text,
+  p_amount int
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_status public.status_definitions;
+begin
+  select * into v_status from public.status_definitions where id = p_status;
+  if v_status is null or not (p_side = any(v_status.sides)) then
+    raise exception 'Unknown % status: %', p_side, p_status;
+  end if;
+
+  if p_amount <= 0 or coalesce(array_length(p_row_ids, 1), 0) = 0 then
+    return;
+  end if;
+
+  execute format(
+    'update public.%I set %I = case when $1 = ''max'' then greatest(%I, $2) else %I + $2 end
+     where id = any($3)',
+    case p_side when 'enemy' then 'enemy_combat_state' else 'player_combat_state' end,
+    p_status, p_status, p_status
+  ) using v_status.stacking, p_amount, p_row_ids;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: run every status that ticks at a phase boundary, in registry order.
+-- Tick effects (damage ignores block, heal is capped at max HP) use the stacks held before
+-- decay. Returns the enemy-side damage ticks in the combat_enemy_phase attacks format.
+-- ----------------------------
+
+create or replace function public._tick_statuses(p_room_id uuid, p_screen_id uuid, p_tick text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_status public.status_definitions;
+  v_row record;
+  v_amount int;
+  v_ticks jsonb := '[]'::jsonb;
+begin
+  for v_status in
+    select * from public.status_definitions where tick = p_tick order by position
+  loop
+    if 'enemy' = any(v_status.sides) then
+      if v_status.tick_effect is not null then
+        for v_row in execute format(
+          'select ecs.id, ecs.hp, ecs.hp_max, ecs.%I as stacks from public.enemy_combat_state ecs
+           where ecs.room_id = $1 and ecs.screen_id = $2 and ecs.is_dead = false and ecs.%I > 0
+           order by ecs.position',
+          v_status.id, v_status.id
+        ) using p_room_id, p_screen_id
+        loop
+          if v_status.tick_effect = 'damage' then
+            v_amount := least(v_row.stacks, v_row.hp);
+            update public.enemy_combat_state
+            set hp = hp - v_amount, is_dead = (hp - v_amount <= 0)
+            where id = v_row.id;
+            v_ticks := v_ticks || jsonb_build_object(
+              'enemyId', v_row.id, 'type', v_status.id, 'damage', v_row.stacks
+            );
+          else
+            v_amount := least(v_row.stacks, v_row.hp_max - v_row.hp);
+            update public.enemy_combat_state set hp = hp + v_amount where id = v_row.id;
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, case v_status.tick_effect when 'damage' then 'damage' else 'heal' end,
+            'enemy', v_row.id::text,
+            p_target_type => 'enemy', p_target_id => v_row.id::text, p_source => v_status.id,
+            p_raw_amount => v_row.stacks, p_final_amount => v_amount
+          );
+        end loop;
+      end if;
+
+      if v_status.decay <> 'none' then
+        execute format(
+          'update public.enemy_combat_state set %I = %s
+           where room_id = $1 and screen_id = $2 and is_dead = false and %I > 0',
+          v_status.id,
+          case v_status.decay when 'all' then '0' else format('%I - 1', v_status.id) end,
+          v_status.id
+        ) using p_room_id, p_screen_id;
+      end if;
+    end if;
+
+    if 'player' = any(v_status.sides) then
+      if v_status.tick_effect is not null then
+        for v_row in execute format(
+          'select pcs.player_id, c.hp, c.hp_max, pcs.%I as stacks
+           from public.player_combat_state pcs
+           join public.characters c on c.room_id = pcs.room_id and c.player_id = pcs.player_id
+           where pcs.room_id = $1 and pcs.screen_id = $2 and c.hp > 0 and pcs.%I > 0
+           order by pcs.player_id',
+          v_status.id, v_status.id
+        ) using p_room_id, p_screen_id
+        loop
+          if v_status.tick_effect = 'damage' then
+            v_amount := least(v_row.stacks, v_row.hp);
+            update public.characters set hp = hp - v_amount
+            where room_id = p_room_id and player_id = v_row.player_id;
+          else
+            v_amount := greatest(0, least(v_row.stacks, v_row.hp_max - v_row.hp));
+            update public.characters set hp = hp + v_amount
+            where room_id = p_room_id and player_id = v_row.player_id;
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, case v_status.tick_effect when 'damage' then 'damage' else 'heal' end,
+            'player', v_row.player_id::text,
+            p_target_type => 'player', p_target_id => v_row.player_id::text, p_source => v_status.id,
+            p_raw_amount => v_row.stacks, p_final_amount => v_amount
+          );
+        end loop;
+      end if;
+
+      if v_status.decay <> 'none' then
+        execute format(
+          'update public.player_combat_state set %I = %s
+           where room_id = $1 and screen_id = $2 and %I > 0',
+          v_status.id,
+          case v_status.decay when 'all' then '0' else format('%I - 1', v_status.id) end,
+          v_status.id
+        ) using p_room_id, p_screen_id;
+      end if;
+    end if;
+  end loop;
+
+  return v_ticks;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: play a card from a player's hand
+-- Unchanged from 025 except that statuses go through _apply_status and frail cuts block.
+-- ----------------------------
+
+create or replace function public._play_card(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_hand_index int,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_card_instance jsonb;
+  v_card_id text;
+  v_card record;
+  v_is_upgraded boolean;
+  v_trait text;
+  v_is_amplified boolean;
+  v_target_id uuid;
+  v_queue jsonb;
+  v_effect jsonb;
+  v_type text;
+  v_amount int;
+  v_hits int;
+  v_all boolean;
+  v_condition jsonb;
+  v_condition_met boolean;
+  v_enemy record;
+  v_hit int;
+  v_hp int;
+  v_hp_max int;
+  v_dealt int;
+  v_actual int;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_total_burn int := 0;
+  v_self_damage int := 0;
+  v_energy_gained int := 0;
+  v_drawn int := 0;
+  v_hand jsonb;
+  v_draw_pile jsonb;
+  v_discard jsonb;
+  v_draw_result jsonb;
+  v_new_charges jsonb;
+  v_new_energy int;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+
+  if v_pcs is null then
+    raise exception 'No combat state found';
+  end if;
+
+  v_card_instance := v_pcs.hand->p_hand_index;
+  if v_card_instance is null then
+    raise exception 'Invalid hand index';
+  end if;
+
+  v_card_id := v_card_instance->>'cardId';
+  v_is_upgraded := coalesce((v_card_instance->>'upgraded')::boolean, false);
+
+  select * into v_card from public.card_definitions where id = v_card_id;
+  if v_card is null then
+    raise exception 'Card not found: %', v_card_id;
+  end if;
+
+  if v_pcs.energy < v_card.cost then
+    raise exception 'Not enough energy (have %, need %)', v_pcs.energy, v_card.cost;
+  end if;
+
+  v_trait := v_card.trait;
+  v_is_amplified := coalesce((v_pcs.trait_charges->>v_trait)::int, 0) >= 3;
+
+  -- Single-target effects all hit the enemy chosen at play time
+  select sub.id into v_target_id
+  from (
+    select ecs.id, row_number() over (order by ecs.position) - 1 as idx
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+  ) sub
+  where sub.idx = coalesce(p_target_enemy_idx, 0);
+
+  -- Remove the played card first so draw effects can't redraw it
+  v_hand := v_pcs.hand - p_hand_index;
+  v_draw_pile := v_pcs.draw_pile;
+  v_discard := v_pcs.discard_pile;
+
+  v_queue := case
+    when v_is_upgraded and jsonb_array_length(v_card.upgraded_effects) > 0 then v_card.upgraded_effects
+    else v_card.effects
+  end;
+
+  -- Resolve effects in order; conditionals splice their effects into the front of the queue
+  while jsonb_array_length(v_queue) > 0 loop
+    v_effect := v_queue->0;
+    v_queue := v_queue - 0;
+    v_type := v_effect->>'type';
+    v_amount := coalesce((v_effect->>'amount')::int, 0);
+    v_all := coalesce(v_effect->>'target', 'enemy') = 'all_enemies';
+
+    -- Empowered cards amplify their numbers; weakened casters deal less damage
+    if v_type in ('damage', 'block', 'heal')
+      or v_type = 'apply_status' and v_effect->>'status' in ('burn', 'poison') then
+      v_amount := public._card_amount(
+        v_amount, v_is_amplified, v_type = 'damage' and v_pcs.weakened > 0
+      );
+    end if;
+
+    case v_type
+      when 'damage' then
+        v_hits := greatest(1, coalesce((v_effect->>'hits')::int, 1));
+        -- One log entry per target, summing all hits
+        for v_enemy in
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+            and (v_all or ecs.id = v_target_id)
+          order by ecs.position
+        loop
+          v_dealt := 0;
+          for v_hit in 1..v_hits loop
+            v_dealt := v_dealt + public._damage_enemy(v_enemy.id, v_amount);
+          end loop;
+          v_total_damage := v_total_damage + v_dealt;
+          if v_dealt > 0 then
+            update public.enemy_combat_state set last_attacker_id = p_player_id where id = v_enemy.id;
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'damage', 'player', p_player_id::text,
+            p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_card_id => v_card_id,
+            p_raw_amount => v_amount * v_hits, p_final_amount => v_dealt
+          );
+        end loop;
+
+      when 'block' then
+        v_amount := public._frail_block(v_amount, v_pcs.frail);
+        update public.player_combat_state
+        set block = block + v_amount,
+            retained_block = retained_block
+              + case when coalesce((v_effect->>'persists')::boolean, false) then v_amount else 0 end
+        where id = v_pcs.id;
+        v_total_block := v_total_block + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'block', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      when 'heal' then
+        select c.hp, c.hp_max into v_hp, v_hp_max
+        from public.characters c
+        where c.room_id = p_room_id and c.player_id = p_player_id;
+        v_actual := greatest(0, least(v_amount, v_hp_max - v_hp));
+        update public.characters
+        set hp = least(hp_max, hp + v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_total_heal := v_total_heal + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'heal', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_actual
+        );
+
+      when 'self_damage' then
+        select c.hp into v_hp
+        from public.characters c
+        where c.room_id = p_room_id and c.player_id = p_player_id;
+        update public.characters
+        set hp = greatest(0, hp - v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_self_damage := v_self_damage + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'self_damage', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => least(v_amount, v_hp)
+        );
+
+      when 'apply_status' then
+        perform public._apply_status('enemy', array(
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+            and (v_all or ecs.id = v_target_id)
+        ), v_effect->>'status', v_amount);
+        if v_effect->>'status' = 'burn' then
+          v_total_burn := v_total_burn + v_amount;
+        end if;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'enemy',
+          p_target_id => case when v_all then null else v_target_id::text end,
+          p_card_id => v_card_id,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'gain_status' then
+        perform public._apply_status('player', array[v_pcs.id], v_effect->>'status', v_amount);
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'draw' then
+        if jsonb_array_length(v_draw_pile) < v_amount then
+          v_draw_result := public._draw_hand(v_draw_pile, v_discard, v_amount, p_room_id, 'draw:' || p_player_id);
+          v_discard := '[]'::jsonb;
+        else
+          v_draw_result := public._draw_hand(
+            v_draw_pile, '[]'::jsonb, v_amount, p_room_id, 'draw:' || p_player_id
+          );
+        end if;
+        v_hand := v_hand || (v_draw_result->'hand');
+        v_draw_pile := v_draw_result->'drawPile';
+        v_drawn := v_drawn + jsonb_array_length(v_draw_result->'hand');
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'draw', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => jsonb_array_length(v_draw_result->'hand')
+        );
+
+      when 'gain_energy' then
+        v_energy_gained := v_energy_gained + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'energy', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      when 'conditional' then
+        v_condition := v_effect->'condition';
+        v_condition_met := false;
+
+        if v_condition->>'type' = 'target_has_status' and v_target_id is not null then
+          execute format(
+            'select %I > 0 from public.enemy_combat_state where id = $1',
+            v_condition->>'status'
+          ) into v_condition_met using v_target_id;
+        elsif v_condition->>'type' = 'hp_below_percent' then
+          select c.hp, c.hp_max into v_hp, v_hp_max
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = p_player_id;
+          v_condition_met := v_hp * 100 < v_hp_max * (v_condition->>'percent')::int;
+        end if;
+
+        if coalesce(v_condition_met, false) then
+          v_queue := (v_effect->'effects') || v_queue;
+        end if;
+
+      else
+        raise exception 'Unknown card effect: %', v_type;
+    end case;
+  end loop;
+
+  -- Played card goes to discard with its usage tracked (auto-upgrade at threshold)
+  v_card_instance := jsonb_set(v_card_instance, '{usageCount}',
+    to_jsonb(coalesce((v_card_instance->>'usageCount')::int, 0) + 1)
+  );
+  if not v_is_upgraded and (v_card_instance->>'usageCount')::int >= v_card.upgrade_threshold then
+    v_card_instance := jsonb_set(v_card_instance, '{upgraded}', 'true'::jsonb);
+  end if;
+  v_discard := v_discard || jsonb_build_array(v_card_instance);
+
+  -- Empowered play resets the trait, otherwise it charges
+  v_new_charges := v_pcs.trait_charges;
+  if v_is_amplified then
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+  else
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait],
+      to_jsonb(coalesce((v_new_charges->>v_trait)::int, 0) + 1));
+  end if;
+
+  v_new_energy := v_pcs.energy - v_card.cost + v_energy_gained;
+
+  update public.player_combat_state
+  set hand = v_hand,
+      draw_pile = v_draw_pile,
+      discard_pile = v_discard,
+      energy = v_new_energy,
+      trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  perform public._advance_boss_phases(p_room_id, p_screen_id);
+
+  -- Block, HP and attackers may have changed who the enemies are aiming at
+  perform public._retarget_enemies(p_room_id, p_screen_id);
+
+  return jsonb_build_object(
+    'cardId', v_card_id,
+    'cardName', v_card.name,
+    'trait', v_trait,
+    'targetEnemyId', v_target_id,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'burn', v_total_burn,
+    'selfDamage', v_self_damage,
+    'drawn', v_drawn,
+    'energyGained', v_energy_gained,
+    'wasAmplified', v_is_amplified,
+    'energyLeft', v_new_energy,
+    'traitCharged', v_trait,
+    'newTraitCharges', v_new_charges
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_use_convergence
+-- Unchanged from 025 except for frail block and _apply_status.
+-- ----------------------------
+
+create or replace function public.combat_use_convergence(
+  p_room_id uuid,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_empowered_count int := 0;
+  v_trait text;
+  v_new_charges jsonb;
+  v_multiplier numeric;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_energy_gained int := 0;
+  v_vuln_applied int := 0;
+  v_weak_applied int := 0;
+  v_enemy record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  -- Count and reset empowered traits
+  v_new_charges := v_pcs.trait_charges;
+  for v_trait in select key from jsonb_each_text(v_pcs.trait_charges) where value::int >= 3
+  loop
+    v_empowered_count := v_empowered_count + 1;
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+
+    -- Apply convergence effect per trait
+    -- Fire: damage
+    if v_trait = 'fire' then
+      v_total_damage := v_total_damage + 16;
+    -- Guard: block (persistent)
+    elsif v_trait = 'guard' then
+      v_total_block := v_total_block + 14;
+    -- Shadow: vulnerable + weakened
+    elsif v_trait = 'shadow' then
+      v_vuln_applied := v_vuln_applied + 2;
+      v_weak_applied := v_weak_applied + 2;
+    -- Storm: energy
+    elsif v_trait = 'storm' then
+      v_energy_gained := v_energy_gained + 2;
+    -- Nature: heal
+    elsif v_trait = 'nature' then
+      v_total_heal := v_total_heal + 12;
+    end if;
+  end loop;
+
+  if v_empowered_count < 2 then
+    raise exception 'Need at least 2 empowered traits';
+  end if;
+
+  -- Apply multiplier based on count
+  v_multiplier := case
+    when v_empowered_count >= 5 then 2.5
+    when v_empowered_count >= 4 then 2.0
+    when v_empowered_count >= 3 then 1.5
+    else 1.0
+  end;
+
+  v_total_damage := floor(v_total_damage * v_multiplier)::int;
+  v_total_block := floor(v_total_block * v_multiplier)::int;
+  v_total_heal := floor(v_total_heal * v_multiplier)::int;
+
+  -- Apply damage to all enemies
+  if v_total_damage > 0 then
+    for v_enemy in
+      select ecs.id, ecs.hp, ecs.block from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    loop
+      declare v_remaining int := v_total_damage;
+      begin
+        perform public._log_combat_event(
+          p_room_id, v_screen_id, 'damage', 'player', v_player_id::text,
+          p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'convergence',
+          p_raw_amount => v_total_damage,
+          p_final_amount => least(v_enemy.hp, greatest(0, v_total_damage - v_enemy.block))
+        );
+        if v_enemy.block > 0 then
+          if v_enemy.block >= v_remaining then
+            update public.enemy_combat_state set block = block - v_remaining where id = v_enemy.id;
+            v_remaining := 0;
+          else
+            v_remaining := v_remaining - v_enemy.block;
+            update public.enemy_combat_state set block = 0 where id = v_enemy.id;
+          end if;
+        end if;
+        if v_remaining > 0 then
+          update public.enemy_combat_state
+          set hp = greatest(0, hp - v_remaining), last_attacker_id = v_player_id
+          where id = v_enemy.id;
+          if v_enemy.hp - v_remaining <= 0 then
+            update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+          end if;
+        end if;
+      end;
+    end loop;
+  end if;
+
+  -- Apply block
+  if v_total_block > 0 then
+    update public.player_combat_state
+    set block = block + public._frail_block(v_total_block, v_pcs.frail)
+    where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'block', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_block, p_final_amount => public._frail_block(v_total_block, v_pcs.frail)
+    );
+  end if;
+
+  -- Apply heal
+  if v_total_heal > 0 then
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'heal', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_heal,
+      p_final_amount => (
+        select greatest(0, least(v_total_heal, c.hp_max - c.hp)) from public.characters c
+        where c.room_id = p_room_id and c.player_id = v_player_id
+      )
+    );
+    update public.characters set hp = least(hp_max, hp + v_total_heal)
+    where room_id = p_room_id and player_id = v_player_id;
+  end if;
+
+  -- Apply energy
+  if v_energy_gained > 0 then
+    update public.player_combat_state set energy = energy + v_energy_gained where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'energy', 'player', v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_energy_gained, p_final_amount => v_energy_gained
+    );
+  end if;
+
+  -- Apply debuffs to all enemies
+  if v_vuln_applied > 0 or v_weak_applied > 0 then
+    for v_enemy in
+      select ecs.id from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    loop
+      perform public._apply_status('enemy', array[v_enemy.id], 'vulnerable', v_vuln_applied);
+      perform public._apply_status('enemy', array[v_enemy.id], 'weakened', v_weak_applied);
+    end loop;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'status', 'player', v_player_id::text,
+      p_target_type => 'enemy', p_source => 'convergence',
+      p_statuses => jsonb_strip_nulls(jsonb_build_object(
+        'vulnerable', nullif(v_vuln_applied, 0),
+        'weakened', nullif(v_weak_applied, 0)
+      ))
+    );
+  end if;
+
+  -- Save charges
+  update public.player_combat_state
+  set trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+  perform public._retarget_enemies(p_room_id, v_screen_id);
+
+  -- Free action: does NOT consume energy
+
+  return jsonb_build_object(
+    'empoweredCount', v_empowered_count,
+    'multiplier', v_multiplier,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'energy', v_energy_gained,
+    'vulnerable', v_vuln_applied,
+    'weakened', v_weak_applied,
+    'newTraitCharges', v_new_charges
+  );
+end;
+$$;
+
+grant execute on function public.combat_use_convergence(uuid, int) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_enemy_phase
+-- Unchanged from 025 except that statuses tick through _tick_statuses, stun skips the
+-- enemy's action, strength_down lowers its hits and frail cuts its block.
+-- ----------------------------
+
+create or replace function public.combat_enemy_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_turn_number int;
+  v_enemy record;
+  v_template record;
+  v_pcs record;
+  v_attacks jsonb := '[]'::jsonb;
+  v_party_wiped boolean := false;
+  v_intent_idx int;
+  v_intent_type text;
+  v_intent_value int;
+  v_intent_hits int;
+  v_raw_damage int;
+  v_actual_damage int;
+  v_blocked int;
+  v_target public.player_id;
+  v_intent public.enemy_intents;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select ct.id, ct.screen_id, ct.turn_number into v_turn_id, v_screen_id, v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'enemy';
+
+  if v_turn_id is null then
+    raise exception 'Not in enemy phase';
+  end if;
+
+  -- Player phase is over, enemy phase begins (burn)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_start');
+
+  -- Reset enemy block
+  update public.enemy_combat_state set block = 0
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Each alive enemy acts based on intent pattern
+  for v_enemy in
+    select ecs.* from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    order by ecs.position asc
+  loop
+    -- Stunned enemies lose their action and keep their intent for next turn
+    if v_enemy.stun > 0 then
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'stunned');
+      continue;
+    end if;
+
+    -- Current intent from the pattern of the enemy's phase (cycling)
+    v_intent_idx := public._enemy_intent_code(v_enemy.template_id, v_enemy.phase, v_enemy.intent_index);
+
+    -- Resolve the intent from the catalog (with template overrides)
+    v_intent := public._enemy_intent(v_enemy.template_id, v_intent_idx);
+    v_intent_type := v_intent.type;
+    v_intent_value := v_intent.value;
+    v_intent_hits := greatest(1, v_intent.hits);
+
+    -- A target killed earlier this phase is replaced by a random survivor
+    v_target := v_enemy.target_player_id;
+    if v_target is not null and not exists (
+      select 1 from public.characters c
+      where c.room_id = p_room_id and c.player_id = v_target and c.hp > 0
+    ) then
+      v_target := (public._rng_sample(p_room_id, 'enemy-targets', array(
+        select c.player_id::text from public.characters c
+        join public.player_combat_state pcs
+          on pcs.room_id = c.room_id and pcs.player_id = c.player_id and pcs.screen_id = v_screen_id
+        where c.room_id = p_room_id and c.hp > 0
+        order by c.player_id
+      ), 1))[1]::public.player_id;
+    end if;
+
+    -- Execute intent (null target = whole party)
+    if v_intent_type in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+      for v_pcs in
+        select pcs.id, pcs.player_id, pcs.block, pcs.vulnerable, pcs.thorns
+        from public.player_combat_state pcs
+        join public.characters c on c.room_id = p_room_id and c.player_id = pcs.player_id
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and c.hp > 0
+          and (v_target is null or pcs.player_id = v_target)
+      loop
+        declare
+          v_hit int;
+          v_total_dmg int := 0;
+          v_total_raw int := 0;
+          v_thorns_dealt int := 0;
+          v_current_block int := v_pcs.block;
+          v_player_hp int;
+        begin
+          select c.hp into v_player_hp
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_pcs.player_id;
+
+          for v_hit in 1..v_intent_hits loop
+            if v_player_hp <= 0 then exit; end if;
+
+            v_raw_damage := public._enemy_attack_damage(
+              v_intent_value, v_enemy.strength - v_enemy.strength_down, v_enemy.weakened, v_pcs.vulnerable
+            );
+
+            v_total_raw := v_total_raw + v_raw_damage;
+            v_actual_damage := v_raw_damage;
+            if v_current_block > 0 then
+              v_blocked := least(v_current_block, v_actual_damage);
+              v_actual_damage := v_actual_damage - v_blocked;
+              v_current_block := v_current_block - v_blocked;
+            end if;
+
+            if v_actual_damage > 0 then
+              v_actual_damage := least(v_actual_damage, v_player_hp);
+              update public.characters
+              set hp = greatest(0, hp - v_actual_damage)
+              where room_id = p_room_id and player_id = v_pcs.player_id;
+              v_player_hp := v_player_hp - v_actual_damage;
+            end if;
+
+            v_total_dmg := v_total_dmg + v_actual_damage;
+
+            if v_pcs.thorns > 0 and v_raw_damage > 0 then
+              v_thorns_dealt := v_thorns_dealt + v_pcs.thorns;
+              update public.enemy_combat_state
+              set hp = greatest(0, hp - v_pcs.thorns)
+              where id = v_enemy.id;
+              if (select hp from public.enemy_combat_state where id = v_enemy.id) <= 0 then
+                update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+              end if;
+            end if;
+          end loop;
+
+          update public.player_combat_state set block = v_current_block where id = v_pcs.id;
+
+          perform public._log_combat_event(
+            p_room_id, v_screen_id, 'damage', 'enemy', v_enemy.id::text,
+            p_target_type => 'player', p_target_id => v_pcs.player_id::text,
+            p_source => v_intent_type, p_raw_amount => v_total_raw, p_final_amount => v_total_dmg
+          );
+
+          if v_thorns_dealt > 0 then
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'damage', 'player', v_pcs.player_id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'thorns',
+              p_raw_amount => v_thorns_dealt, p_final_amount => v_thorns_dealt
+            );
+          end if;
+
+          if v_intent_type = 'lifesteal' and v_total_dmg > 0 then
+            update public.enemy_combat_state
+            set hp = least(hp_max, hp + (v_total_dmg / 2))
+            where id = v_enemy.id;
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'heal', 'enemy', v_enemy.id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'lifesteal',
+              p_raw_amount => v_total_dmg / 2, p_final_amount => v_total_dmg / 2
+            );
+          end if;
+
+          v_attacks := v_attacks || jsonb_build_object(
+            'enemyId', v_enemy.id, 'enemyName', v_enemy.name,
+            'targetPlayerId', v_pcs.player_id,
+            'type', v_intent_type,
+            'damage', v_total_dmg,
+            'hits', v_intent_hits
+          );
+        end;
+      end loop;
+
+    elsif v_intent_type = 'defend' then
+      update public.enemy_combat_state
+      set block = block + public._frail_block(v_intent_value, v_enemy.frail)
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'defend', 'value', public._frail_block(v_intent_value, v_enemy.frail)
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'block', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_raw_amount => v_intent_value, p_final_amount => public._frail_block(v_intent_value, v_enemy.frail)
+      );
+
+    elsif v_intent_type = 'buff' then
+      perform public._apply_status(
+        'enemy', array[v_enemy.id], coalesce(v_intent.status, 'strength'), v_intent_value
+      );
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'buff', 'value', v_intent_value);
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'strength'), v_intent_value)
+      );
+
+    elsif v_intent_type = 'debuff' then
+      perform public._apply_status('player', array(
+        select pcs.id from public.player_combat_state pcs
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+          and (v_target is null or pcs.player_id = v_target)
+      ), coalesce(v_intent.status, 'weakened'), v_intent_value);
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'debuff', 'value', v_intent_value, 'targetPlayerId', v_target
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'player', p_target_id => v_target::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'weakened'), v_intent_value)
+      );
+    end if;
+
+    update public.enemy_combat_state
+    set intent_index = intent_index + 1
+    where id = v_enemy.id;
+
+    if not exists (
+      select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+    ) then
+      v_party_wiped := true;
+      exit;
+    end if;
+
+    if v_turn_number > 0 and v_turn_number % 4 = 0 then
+      update public.enemy_combat_state
+      set strength = strength + 1
+      where id = v_enemy.id;
+    end if;
+  end loop;
+
+  -- Enemy phase is over (status decay, regen), next player phase begins (poison)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_start');
+
+  -- Burn, thorns and poison may have pushed a boss past a threshold
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+
+  -- Check party wipe
+  select not exists (
+    select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+  ) into v_party_wiped;
+
+  if v_party_wiped then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Check all enemies dead → victory
+  if not exists (
+    select 1 from public.enemy_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false
+  ) then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', false, 'victory', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Next turn
+  update public.combat_turns
+  set turn_number = v_turn_number + 1, phase = 'player'
+  where id = v_turn_id;
+
+  update public.player_turn_state
+  set actions_remaining = 0, has_ended_turn = false
+  where combat_turn_id = v_turn_id;
+
+  -- New turn: reset energy, block (keeping unabsorbed persistent block), draw new hand of 4
+  for v_pcs in
+    select pcs.id, pcs.player_id, pcs.draw_pile, pcs.hand, pcs.discard_pile, pcs.max_energy, pcs.starting_block,
+           least(pcs.block, pcs.retained_block) as kept_block
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  loop
+    declare
+      v_new_discard jsonb := v_pcs.discard_pile || v_pcs.hand;
+      v_draw_result jsonb;
+    begin
+      v_draw_result := public._draw_hand(
+        v_pcs.draw_pile, v_new_discard, 4, p_room_id, 'draw:' || v_pcs.player_id
+      );
+      update public.player_combat_state
+      set energy = v_pcs.max_energy,
+          block = v_pcs.starting_block + v_pcs.kept_block,
+          retained_block = v_pcs.kept_block,
+          hand = v_draw_result->'hand',
+          draw_pile = v_draw_result->'drawPile',
+          discard_pile = '[]'::jsonb
+      where id = v_pcs.id;
+    end;
+  end loop;
+
+  -- Intents advanced: pick next turn's targets
+  perform public._retarget_enemies(p_room_id, v_screen_id, true);
+
+  return jsonb_build_object('partyWiped', false, 'victory', false, 'turnNumber', v_turn_number + 1, 'attacks', v_attacks);
+end;
+$$;
+
+grant execute on function public.combat_enemy_phase(uuid) to authenticated;
+
+commit;
\ No newline at end of file
@@ -0,0 +1,978 @@
+-- 027: Card keywords
+-- card_definitions.keywords carries deck-zone rules authored in the game config
+-- (src/features/gameConfig/cardTypes.ts): innate, retain, ethereal, exhaust and unplayable.
+-- Exhausted cards go to player_combat_state.exhaust_pile and stay out of the deck for the
+-- rest of the combat.
+
+begin;
+
+alter table public.card_definitions
+  add column if not exists keywords text[] not null default '{}';
+
+alter table public.player_combat_state
+  add column if not exists exhaust_pile jsonb not null default '[]'::jsonb;
+
+-- ----------------------------
+-- Helper: does a card have a keyword
+-- ----------------------------
+
+create or replace function public._card_has_keyword(p_card_id text, p_keyword text)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(
+    (select p_keyword = any(cd.keywords) from public.card_definitions cd where cd.id = p_card_id),
+    false
+  );
+$$;
+
+-- ----------------------------
+-- Helper: sort the hand at end of turn
+-- Retained cards stay, ethereal cards are exhausted, everything else is discarded.
+-- ----------------------------
+
+create or replace function public._end_turn_hand(p_hand jsonb)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_card jsonb;
+  v_retain jsonb := '[]'::jsonb;
+  v_discard jsonb := '[]'::jsonb;
+  v_exhaust jsonb := '[]'::jsonb;
+begin
+  for v_card in select value from jsonb_array_elements(p_hand) loop
+    if public._card_has_keyword(v_card->>'cardId', 'retain') then
+      v_retain := v_retain || jsonb_build_array(v_card);
+    elsif public._card_has_keyword(v_card->>'cardId', 'ethereal') then
+      v_exhaust := v_exhaust || jsonb_build_array(v_card);
+    else
+      v_discard := v_discard || jsonb_build_array(v_card);
+    end if;
+  end loop;
+
+  return jsonb_build_object('retain', v_retain, 'discard', v_discard, 'exhaust', v_exhaust);
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_init_turn
+-- Unchanged from 023 except that innate cards start in the opening hand.
+-- ----------------------------
+
+create or replace function public.combat_init_turn(
+  p_room_id uuid,
+  p_screen_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_turn_id uuid;
+  v_player record;
+  v_starter_cards jsonb;
+  v_draw_result jsonb;
+  v_innate jsonb;
+  v_trait_charges jsonb;
+begin
+  if exists (select 1 from public.combat_turns where room_id = p_room_id and screen_id = p_screen_id) then
+    return;
+  end if;
+
+  insert into public.combat_turns (room_id, screen_id, turn_number, phase)
+  values (p_room_id, p_screen_id, 1, 'player')
+  returning id into v_turn_id;
+
+  for v_player in
+    select rp.player_id, rp.role_id
+    from public.room_players rp
+    where rp.room_id = p_room_id
+  loop
+    insert into public.player_turn_state (combat_turn_id, player_id, actions_remaining, has_ended_turn)
+    values (v_turn_id, v_player.player_id, 0, false);
+
+    -- Build starter deck for this player's role
+    select jsonb_agg(
+      jsonb_build_object('cardId', cd.id, 'upgraded', false, 'usageCount', 0)
+    ) into v_starter_cards
+    from public.card_definitions cd
+    where cd.is_starter = true and cd.starter_role = v_player.role_id;
+
+    -- Fallback: if no role-specific cards, use all starters
+    if v_starter_cards is null or jsonb_array_length(v_starter_cards) = 0 then
+      select jsonb_agg(
+        jsonb_build_object('cardId', cd.id, 'upgraded', false, 'usageCount', 0)
+      ) into v_starter_cards
+      from public.card_definitions cd
+      where cd.is_starter = true;
+    end if;
+
+    -- Build trait_charges based on role (4 schools per role)
+    v_trait_charges := case v_player.role_id
+      when 'warrior' then '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+      when 'sage' then '{"fire":0,"frost":0,"storm":0,"arcane":0}'::jsonb
+      when 'ranger' then '{"shadow":0,"nature":0,"precision":0,"venom":0}'::jsonb
+      else '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+    end;
+
+    -- Innate cards are always in the opening hand; the rest of the hand is drawn
+    select coalesce(jsonb_agg(c.value), '[]'::jsonb) into v_innate
+    from jsonb_array_elements(v_starter_cards) c
+    where public._card_has_keyword(c.value->>'cardId', 'innate');
+
+    v_draw_result := public._draw_hand(
+      (
+        select coalesce(jsonb_agg(c.value), '[]'::jsonb)
+        from jsonb_array_elements(v_starter_cards) c
+        where not public._card_has_keyword(c.value->>'cardId', 'innate')
+      ),
+      '[]'::jsonb,
+      greatest(0, 4 - jsonb_array_length(v_innate)),
+      p_room_id,
+      'draw:' || v_player.player_id
+    );
+
+    insert into public.player_combat_state (
+      room_id, screen_id, player_id, identity_id,
+      draw_pile, hand, discard_pile,
+      energy, max_energy, block,
+      trait_charges, attune_charges
+    ) values (
+      p_room_id, p_screen_id, v_player.player_id, coalesce(v_player.role_id, 'warrior'),
+      v_draw_result->'drawPile', v_innate || (v_draw_result->'hand'), '[]'::jsonb,
+      3, 3, 0,
+      v_trait_charges,
+      0
+    )
+    on conflict (room_id, screen_id, player_id) do nothing;
+  end loop;
+
+  update public.characters set taunt_turns_left = 0 where room_id = p_room_id;
+
+  perform public._retarget_enemies(p_room_id, p_screen_id, true);
+end;
+$$;
+
+grant execute on function public.combat_init_turn(uuid, uuid) to authenticated;
+
+-- ----------------------------
+-- Helper: play a card from a player's hand
+-- Unchanged from 026 except that unplayable cards are rejected and exhaust cards leave the deck.
+-- ----------------------------
+
+create or replace function public._play_card(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_hand_index int,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_card_instance jsonb;
+  v_card_id text;
+  v_card record;
+  v_is_upgraded boolean;
+  v_trait text;
+  v_is_amplified boolean;
+  v_target_id uuid;
+  v_queue jsonb;
+  v_effect jsonb;
+  v_type text;
+  v_amount int;
+  v_hits int;
+  v_all boolean;
+  v_condition jsonb;
+  v_condition_met boolean;
+  v_enemy record;
+  v_hit int;
+  v_hp int;
+  v_hp_max int;
+  v_dealt int;
+  v_actual int;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_total_burn int := 0;
+  v_self_damage int := 0;
+  v_energy_gained int := 0;
+  v_drawn int := 0;
+  v_hand jsonb;
+  v_draw_pile jsonb;
+  v_discard jsonb;
+  v_exhaust jsonb;
+  v_draw_result jsonb;
+  v_new_charges jsonb;
+  v_new_energy int;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+
+  if v_pcs is null then
+    raise exception 'No combat state found';
+  end if;
+
+  v_card_instance := v_pcs.hand->p_hand_index;
+  if v_card_instance is null then
+    raise exception 'Invalid hand index';
+  end if;
+
+  v_card_id := v_card_instance->>'cardId';
+  v_is_upgraded := coalesce((v_card_instance->>'upgraded')::boolean, false);
+
+  select * into v_card from public.card_definitions where id = v_card_id;
+  if v_card is null then
+    raise exception 'Card not found: %', v_card_id;
+  end if;
+
+  if 'unplayable' = any(v_card.keywords) then
+    raise exception 'Card is unplayable: %', v_card_id;
+  end if;
+
+  if v_pcs.energy < v_card.cost then
+    raise exception 'Not enough energy (have %, need %)', v_pcs.energy, v_card.cost;
+  end if;
+
+  v_trait := v_card.trait;
+  v_is_amplified := coalesce((v_pcs.trait_charges->>v_trait)::int, 0) >= 3;
+
+  -- Single-target effects all hit the enemy chosen at play time
+  select sub.id into v_target_id
+  from (
+    select ecs.id, row_number() over (order by ecs.position) - 1 as idx
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+  ) sub
+  where sub.idx = coalesce(p_target_enemy_idx, 0);
+
+  -- Remove the played card first so draw effects can't redraw it
+  v_hand := v_pcs.hand - p_hand_index;
+  v_draw_pile := v_pcs.draw_pile;
+  v_discard := v_pcs.discard_pile;
+  v_exhaust := v_pcs.exhaust_pile;
+
+  v_queue := case
+    when v_is_upgraded and jsonb_array_length(v_card.upgraded_effects) > 0 then v_card.upgraded_effects
+    else v_card.effects
+  end;
+
+  -- Resolve effects in order; conditionals splice their effects into the front of the queue
+  while jsonb_array_length(v_queue) > 0 loop
+    v_effect := v_queue->0;
+    v_queue := v_queue - 0;
+    v_type := v_effect->>'type';
+    v_amount := coalesce((v_effect->>'amount')::int, 0);
+    v_all := coalesce(v_effect->>'target', 'enemy') = 'all_enemies';
+
+    -- Empowered cards amplify their numbers; weakened casters deal less damage
+    if v_type in ('damage', 'block', 'heal')
+      or v_type = 'apply_status' and v_effect->>'status' in ('burn', 'poison') then
+      v_amount := public._card_amount(
+        v_amount, v_is_amplified, v_type = 'damage' and v_pcs.weakened > 0
+      );
+    end if;
+
+    case v_type
+      when 'damage' then
+        v_hits := greatest(1, coalesce((v_effect->>'hits')::int, 1));
+        -- One log entry per target, summing all hits
+        for v_enemy in
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+            and (v_all or ecs.id = v_target_id)
+          order by ecs.position
+        loop
+          v_dealt := 0;
+          for v_hit in 1..v_hits loop
+            v_dealt := v_dealt + public._damage_enemy(v_enemy.id, v_amount);
+          end loop;
+          v_total_damage := v_total_damage + v_dealt;
+          if v_dealt > 0 then
+            update public.enemy_combat_state set last_attacker_id = p_player_id where id = v_enemy.id;
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'damage', 'player', p_player_id::text,
+            p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_card_id => v_card_id,
+            p_raw_amount => v_amount * v_hits, p_final_amount => v_dealt
+          );
+        end loop;
+
+      when 'block' then
+        v_amount := public._frail_block(v_amount, v_pcs.frail);
+        update public.player_combat_state
+        set block = block + v_amount,
+            retained_block = retained_block
+              + case when coalesce((v_effect->>'persists')::boolean, false) then v_amount else 0 end
+        where id = v_pcs.id;
+        v_total_block := v_total_block + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'block', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      when 'heal' then
+        select c.hp, c.hp_max into v_hp, v_hp_max
+        from public.characters c
+        where c.room_id = p_room_id and c.player_id = p_player_id;
+        v_actual := greatest(0, least(v_amount, v_hp_max - v_hp));
+        update public.characters
+        set hp = least(hp_max, hp + v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_total_heal := v_total_heal + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'heal', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_actual
+        );
+
+      when 'self_damage' then
+        select c.hp into v_hp
+        from public.characters c
+        where c.room_id = p_room_id and c.player_id = p_player_id;
+        update public.characters
+        set hp = greatest(0, hp - v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_self_damage := v_self_damage + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'self_damage', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => least(v_amount, v_hp)
+        );
+
+      when 'apply_status' then
+        perform public._apply_status('enemy', array(
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+            and (v_all or ecs.id = v_target_id)
+        ), v_effect->>'status', v_amount);
+        if v_effect->>'status' = 'burn' then
+          v_total_burn := v_total_burn + v_amount;
+        end if;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'enemy',
+          p_target_id => case when v_all then null else v_target_id::text end,
+          p_card_id => v_card_id,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'gain_status' then
+        perform public._apply_status('player', array[v_pcs.id], v_effect->>'status', v_amount);
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'draw' then
+        if jsonb_array_length(v_draw_pile) < v_amount then
+          v_draw_result := public._draw_hand(v_draw_pile, v_discard, v_amount, p_room_id, 'draw:' || p_player_id);
+          v_discard := '[]'::jsonb;
+        else
+          v_draw_result := public._draw_hand(
+            v_draw_pile, '[]'::jsonb, v_amount, p_room_id, 'draw:' || p_player_id
+          );
+        end if;
+        v_hand := v_hand || (v_draw_result->'hand');
+        v_draw_pile := v_draw_result->'drawPile';
+        v_drawn := v_drawn + jsonb_array_length(v_draw_result->'hand');
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'draw', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => jsonb_array_length(v_draw_result->'hand')
+        );
+
+      when 'gain_energy' then
+        v_energy_gained := v_energy_gained + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'energy', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      when 'conditional' then
+        v_condition := v_effect->'condition';
+        v_condition_met := false;
+
+        if v_condition->>'type' = 'target_has_status' and v_target_id is not null then
+          execute format(
+            'select %I > 0 from public.enemy_combat_state where id = $1',
+            v_condition->>'status'
+          ) into v_condition_met using v_target_id;
+        elsif v_condition->>'type' = 'hp_below_percent' then
+          select c.hp, c.hp_max into v_hp, v_hp_max
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = p_player_id;
+          v_condition_met := v_hp * 100 < v_hp_max * (v_condition->>'percent')::int;
+        end if;
+
+        if coalesce(v_condition_met, false) then
+          v_queue := (v_effect->'effects') || v_queue;
+        end if;
+
+      else
+        raise exception 'Unknown card effect: %', v_type;
+    end case;
+  end loop;
+
+  -- Played card goes to discard (or exhaust) with its usage tracked (auto-upgrade at threshold)
+  v_card_instance := jsonb_set(v_card_instance, '{usageCount}',
+    to_jsonb(coalesce((v_card_instance->>'usageCount')::int, 0) + 1)
+  );
+  if not v_is_upgraded and (v_card_instance->>'usageCount')::int >= v_card.upgrade_threshold then
+    v_card_instance := jsonb_set(v_card_instance, '{upgraded}', 'true'::jsonb);
+  end if;
+  if 'exhaust' = any(v_card.keywords) then
+    v_exhaust := v_exhaust || jsonb_build_array(v_card_instance);
+  else
+    v_discard := v_discard || jsonb_build_array(v_card_instance);
+  end if;
+
+  -- Empowered play resets the trait, otherwise it charges
+  v_new_charges := v_pcs.trait_charges;
+  if v_is_amplified then
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+  else
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait],
+      to_jsonb(coalesce((v_new_charges->>v_trait)::int, 0) + 1));
+  end if;
+
+  v_new_energy := v_pcs.energy - v_card.cost + v_energy_gained;
+
+  update public.player_combat_state
+  set hand = v_hand,
+      draw_pile = v_draw_pile,
+      discard_pile = v_discard,
+      exhaust_pile = v_exhaust,
+      energy = v_new_energy,
+      trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  perform public._advance_boss_phases(p_room_id, p_screen_id);
+
+  -- Block, HP and attackers may have changed who the enemies are aiming at
+  perform public._retarget_enemies(p_room_id, p_screen_id);
+
+  return jsonb_build_object(
+    'cardId', v_card_id,
+    'cardName', v_card.name,
+    'trait', v_trait,
+    'targetEnemyId', v_target_id,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'burn', v_total_burn,
+    'selfDamage', v_self_damage,
+    'drawn', v_drawn,
+    'exhausted', 'exhaust' = any(v_card.keywords),
+    'energyGained', v_energy_gained,
+    'wasAmplified', v_is_amplified,
+    'energyLeft', v_new_energy,
+    'traitCharged', v_trait,
+    'newTraitCharges', v_new_charges
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_bot_turn
+-- Unchanged from 019 except that bots skip unplayable cards.
+-- ----------------------------
+
+create or replace function public.combat_bot_turn(
+  p_room_id uuid,
+  p_bot_player_id public.player_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_host_id uuid;
+  v_is_bot boolean;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_bot_hp int;
+  v_bot_hp_max int;
+  v_action_log jsonb := '[]'::jsonb;
+  v_best_idx int;
+  v_best_priority int;
+  v_card_instance jsonb;
+  v_card record;
+  v_card_idx int;
+  v_target_enemy_idx int;
+  v_result jsonb;
+  v_iteration int := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id into v_host_id from public.rooms r where r.id = p_room_id;
+  if v_host_id <> v_user_id then
+    raise exception 'Only host can run bot turns';
+  end if;
+
+  select rp.is_bot into v_is_bot
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.player_id = p_bot_player_id;
+
+  if not v_is_bot then
+    raise exception 'Player is not a bot';
+  end if;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select c.hp, c.hp_max into v_bot_hp, v_bot_hp_max
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+  if v_bot_hp <= 0 then
+    update public.player_turn_state set has_ended_turn = true
+    where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+    return jsonb_build_object('actions', v_action_log, 'dead', true);
+  end if;
+
+  loop
+    v_iteration := v_iteration + 1;
+    if v_iteration > 10 then exit; end if;  -- Safety limit
+
+    select * into v_pcs from public.player_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = p_bot_player_id;
+
+    if jsonb_array_length(v_pcs.hand) = 0 then exit; end if;
+
+    select c.hp into v_bot_hp
+    from public.characters c
+    where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+    if v_bot_hp <= 0 then exit; end if;
+
+    -- Target the lowest HP alive enemy (index among alive enemies, by position)
+    select sub.idx into v_target_enemy_idx
+    from (
+      select ecs.hp, row_number() over (order by ecs.position) - 1 as idx
+      from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    ) sub
+    order by sub.hp asc limit 1;
+
+    if v_target_enemy_idx is null then exit; end if;
+
+    -- Pick best affordable card
+    v_best_idx := -1;
+    v_best_priority := -1;
+
+    for v_card_idx in 0..jsonb_array_length(v_pcs.hand) - 1 loop
+      v_card_instance := v_pcs.hand->v_card_idx;
+      select * into v_card from public.card_definitions where id = v_card_instance->>'cardId';
+
+      if v_card is null or v_card.cost > v_pcs.energy or 'unplayable' = any(v_card.keywords) then
+        continue;
+      end if;
+
+      declare v_priority int := 0;
+      begin
+        -- Low HP? Prioritize block/heal
+        if v_bot_hp < v_bot_hp_max * 0.4 then
+          if v_card.base_block is not null and v_card.base_block > 0 then
+            v_priority := 90 + coalesce(v_card.base_block, 0);
+          elsif v_card.base_heal is not null and v_card.base_heal > 0 then
+            v_priority := 85 + coalesce(v_card.base_heal, 0);
+          end if;
+        end if;
+
+        -- Damage cards
+        if v_priority = 0 and v_card.base_damage is not null and v_card.base_damage > 0 then
+          v_priority := 50 + coalesce(v_card.base_damage, 0);
+        end if;
+
+        -- Burn
+        if v_priority = 0 and v_card.base_burn is not null and v_card.base_burn > 0 then
+          v_priority := 40 + coalesce(v_card.base_burn, 0);
+        end if;
+
+        -- Block as fallback
+        if v_priority = 0 and v_card.base_block is not null and v_card.base_block > 0 then
+          v_priority := 30 + coalesce(v_card.base_block, 0);
+        end if;
+
+        -- Anything else
+        if v_priority = 0 then v_priority := 10; end if;
+
+        if v_priority > v_best_priority then
+          v_best_priority := v_priority;
+          v_best_idx := v_card_idx;
+        end if;
+      end;
+    end loop;
+
+    if v_best_idx < 0 then exit; end if;  -- No affordable cards
+
+    v_result := public._play_card(p_room_id, v_screen_id, p_bot_player_id, v_best_idx, v_target_enemy_idx);
+
+    v_action_log := v_action_log || jsonb_build_object(
+      'action', 'spell',
+      'spellId', v_result->>'cardId',
+      'spellName', v_result->>'cardName',
+      'targetId', v_result->>'targetEnemyId',
+      'damage', (v_result->>'damage')::int,
+      'block', (v_result->>'block')::int,
+      'heal', (v_result->>'heal')::int
+    );
+  end loop;
+
+  -- End bot turn
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+
+  if not exists (
+    select 1
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    where pts.combat_turn_id = v_turn_id and pts.has_ended_turn = false and c.hp > 0
+  ) then
+    update public.combat_turns set phase = 'enemy' where id = v_turn_id;
+  end if;
+
+  return jsonb_build_object('actions', v_action_log);
+end;
+$$;
+
+grant execute on function public.combat_bot_turn(uuid, public.player_id) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_enemy_phase
+-- Unchanged from 026 except for the hand refill: retain and ethereal are applied, and the
+-- discard pile is kept when the draw pile alone covers the refill.
+-- ----------------------------
+
+create or replace function public.combat_enemy_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_turn_number int;
+  v_enemy record;
+  v_template record;
+  v_pcs record;
+  v_attacks jsonb := '[]'::jsonb;
+  v_party_wiped boolean := false;
+  v_intent_idx int;
+  v_intent_type text;
+  v_intent_value int;
+  v_intent_hits int;
+  v_raw_damage int;
+  v_actual_damage int;
+  v_blocked int;
+  v_target public.player_id;
+  v_intent public.enemy_intents;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select ct.id, ct.screen_id, ct.turn_number into v_turn_id, v_screen_id, v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'enemy';
+
+  if v_turn_id is null then
+    raise exception 'Not in enemy phase';
+  end if;
+
+  -- Player phase is over, enemy phase begins (burn)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_start');
+
+  -- Reset enemy block
+  update public.enemy_combat_state set block = 0
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Each alive enemy acts based on intent pattern
+  for v_enemy in
+    select ecs.* from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    order by ecs.position asc
+  loop
+    -- Stunned enemies lose their action and keep their intent for next turn
+    if v_enemy.stun > 0 then
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'stunned');
+      continue;
+    end if;
+
+    -- Current intent from the pattern of the enemy's phase (cycling)
+    v_intent_idx := public._enemy_intent_code(v_enemy.template_id, v_enemy.phase, v_enemy.intent_index);
+
+    -- Resolve the intent from the catalog (with template overrides)
+    v_intent := public._enemy_intent(v_enemy.template_id, v_intent_idx);
+    v_intent_type := v_intent.type;
+    v_intent_value := v_intent.value;
+    v_intent_hits := greatest(1, v_intent.hits);
+
+    -- A target killed earlier this phase is replaced by a random survivor
+    v_target := v_enemy.target_player_id;
+    if v_target is not null and not exists (
+      select 1 from public.characters c
+      where c.room_id = p_room_id and c.player_id = v_target and c.hp > 0
+    ) then
+      v_target := (public._rng_sample(p_room_id, 'enemy-targets', array(
+        select c.player_id::text from public.characters c
+        join public.player_combat_state pcs
+          on pcs.room_id = c.room_id and pcs.player_id = c.player_id and pcs.screen_id = v_screen_id
+        where c.room_id = p_room_id and c.hp > 0
+        order by c.player_id
+      ), 1))[1]::public.player_id;
+    end if;
+
+    -- Execute intent (null target = whole party)
+    if v_intent_type in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+      for v_pcs in
+        select pcs.id, pcs.player_id, pcs.block, pcs.vulnerable, pcs.thorns
+        from public.player_combat_state pcs
+        join public.characters c on c.room_id = p_room_id and c.player_id = pcs.player_id
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and c.hp > 0
+          and (v_target is null or pcs.player_id = v_target)
+      loop
+        declare
+          v_hit int;
+          v_total_dmg int := 0;
+          v_total_raw int := 0;
+          v_thorns_dealt int := 0;
+          v_current_block int := v_pcs.block;
+          v_player_hp int;
+        begin
+          select c.hp into v_player_hp
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_pcs.player_id;
+
+          for v_hit in 1..v_intent_hits loop
+            if v_player_hp <= 0 then exit; end if;
+
+            v_raw_damage := public._enemy_attack_damage(
+              v_intent_value, v_enemy.strength - v_enemy.strength_down, v_enemy.weakened, v_pcs.vulnerable
+            );
+
+            v_total_raw := v_total_raw + v_raw_damage;
+            v_actual_damage := v_raw_damage;
+            if v_current_block > 0 then
+              v_blocked := least(v_current_block, v_actual_damage);
+              v_actual_damage := v_actual_damage - v_blocked;
+              v_current_block := v_current_block - v_blocked;
+            end if;
+
+            if v_actual_damage > 0 then
+              v_actual_damage := least(v_actual_damage, v_player_hp);
+              update public.characters
+              set hp = greatest(0, hp - v_actual_damage)
+              where room_id = p_room_id and player_id = v_pcs.player_id;
+              v_player_hp := v_player_hp - v_actual_damage;
+            end if;
+
+            v_total_dmg := v_total_dmg + v_actual_damage;
+
+            if v_pcs.thorns > 0 and v_raw_damage > 0 then
+              v_thorns_dealt := v_thorns_dealt + v_pcs.thorns;
+              update public.enemy_combat_state
+              set hp = greatest(0, hp - v_pcs.thorns)
+              where id = v_enemy.id;
+              if (select hp from public.enemy_combat_state where id = v_enemy.id) <= 0 then
+                update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+              end if;
+            end if;
+          end loop;
+
+          update public.player_combat_state set block = v_current_block where id = v_pcs.id;
+
+          perform public._log_combat_event(
+            p_room_id, v_screen_id, 'damage', 'enemy', v_enemy.id::text,
+            p_target_type => 'player', p_target_id => v_pcs.player_id::text,
+            p_source => v_intent_type, p_raw_amount => v_total_raw, p_final_amount => v_total_dmg
+          );
+
+          if v_thorns_dealt > 0 then
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'damage', 'player', v_pcs.player_id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'thorns',
+              p_raw_amount => v_thorns_dealt, p_final_amount => v_thorns_dealt
+            );
+          end if;
+
+          if v_intent_type = 'lifesteal' and v_total_dmg > 0 then
+            update public.enemy_combat_state
+            set hp = least(hp_max, hp + (v_total_dmg / 2))
+            where id = v_enemy.id;
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'heal', 'enemy', v_enemy.id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'lifesteal',
+              p_raw_amount => v_total_dmg / 2, p_final_amount => v_total_dmg / 2
+            );
+          end if;
+
+          v_attacks := v_attacks || jsonb_build_object(
+            'enemyId', v_enemy.id, 'enemyName', v_enemy.name,
+            'targetPlayerId', v_pcs.player_id,
+            'type', v_intent_type,
+            'damage', v_total_dmg,
+            'hits', v_intent_hits
+          );
+        end;
+      end loop;
+
+    elsif v_intent_type = 'defend' then
+      update public.enemy_combat_state
+      set block = block + public._frail_block(v_intent_value, v_enemy.frail)
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'defend', 'value', public._frail_block(v_intent_value, v_enemy.frail)
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'block', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_raw_amount => v_intent_value, p_final_amount => public._frail_block(v_intent_value, v_enemy.frail)
+      );
+
+    elsif v_intent_type = 'buff' then
+      perform public._apply_status(
+        'enemy', array[v_enemy.id], coalesce(v_intent.status, 'strength'), v_intent_value
+      );
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'buff', 'value', v_intent_value);
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'strength'), v_intent_value)
+      );
+
+    elsif v_intent_type = 'debuff' then
+      perform public._apply_status('player', array(
+        select pcs.id from public.player_combat_state pcs
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+          and (v_target is null or pcs.player_id = v_target)
+      ), coalesce(v_intent.status, 'weakened'), v_intent_value);
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'debuff', 'value', v_intent_value, 'targetPlayerId', v_target
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'player', p_target_id => v_target::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'weakened'), v_intent_value)
+      );
+    end if;
+
+    update public.enemy_combat_state
+    set intent_index = intent_index + 1
+    where id = v_enemy.id;
+
+    if not exists (
+      select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+    ) then
+      v_party_wiped := true;
+      exit;
+    end if;
+
+    if v_turn_number > 0 and v_turn_number % 4 = 0 then
+      update public.enemy_combat_state
+      set strength = strength + 1
+      where id = v_enemy.id;
+    end if;
+  end loop;
+
+  -- Enemy phase is over (status decay, regen), next player phase begins (poison)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_start');
+
+  -- Burn, thorns and poison may have pushed a boss past a threshold
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+
+  -- Check party wipe
+  select not exists (
+    select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+  ) into v_party_wiped;
+
+  if v_party_wiped then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Check all enemies dead → victory
+  if not exists (
+    select 1 from public.enemy_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false
+  ) then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', false, 'victory', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Next turn
+  update public.combat_turns
+  set turn_number = v_turn_number + 1, phase = 'player'
+  where id = v_turn_id;
+
+  update public.player_turn_state
+  set actions_remaining = 0, has_ended_turn = false
+  where combat_turn_id = v_turn_id;
+
+  -- New turn: reset energy, block (keeping unabsorbed persistent block), refill the hand to 4.
+  -- Retained cards stay in hand and ethereal cards left in hand are exhausted.
+  for v_pcs in
+    select pcs.id, pcs.player_id, pcs.draw_pile, pcs.hand, pcs.discard_pile, pcs.max_energy, pcs.starting_block,
+           least(pcs.block, pcs.retained_block) as kept_block
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  loop
+    declare
+      v_split jsonb := public._end_turn_hand(v_pcs.hand);
+      v_new_discard jsonb := v_pcs.discard_pile || (v_split->'discard');
+      v_draw_count int := greatest(0, 4 - jsonb_array_length(v_split->'retain'));
+      v_draw_result jsonb;
+    begin
+      v_draw_result := public._draw_hand(
+        v_pcs.draw_pile, v_new_discard, v_draw_count, p_room_id, 'draw:' || v_pcs.player_id
+      );
+      update public.player_combat_state
+      set energy = v_pcs.max_energy,
+          block = v_pcs.starting_block + v_pcs.kept_block,
+          retained_block = v_pcs.kept_block,
+          hand = (v_split->'retain') || (v_draw_result->'hand'),
+          draw_pile = v_draw_result->'drawPile',
+          -- The discard is only shuffled in when the draw pile runs short
+          discard_pile = case
+            when jsonb_array_length(v_pcs.draw_pile) < v_draw_count then '[]'::jsonb
+            else v_new_discard
+          end,
+          exhaust_pile = exhaust_pile || (v_split->'exhaust')
+      where id = v_pcs.id;
+    end;
+  end loop;
+
+  -- Intents advanced: pick next turn's targets
+  perform public._retarget_enemies(p_room_id, v_screen_id, true);
+
+  return jsonb_build_object('partyWiped', false, 'victory', false, 'turnNumber', v_turn_number + 1, 'attacks', v_attacks);
+end;
+$$;
+
+grant execute on function public.combat_enemy_phase(uuid) to authenticated;
+
+commit;
\ No newline at end of file
@@ -0,0 +1,732 @@
+-- 029: Team convergence
+-- When a second player fires Convergence in the same player phase, the finisher for their
+-- pair of roles resolves on top of both solo effects (e.g. Warrior + Sage: Molten Steel).
+-- team_convergences and team_convergence_multipliers are seeded from
+-- src/features/gameConfig/traits.ts by bin/generate-sql.ts (generated/team-convergences.sql).
+-- combat_turns.converged_player_ids records who converged this phase, in order.
+
+begin;
+
+create table if not exists public.team_convergences (
+  id text primary key,
+  role_a text not null, -- role pair, sorted so role_a < role_b
+  role_b text not null,
+  name text not null,
+  icon text not null default '',
+  damage int not null default 0, -- every alive enemy
+  block int not null default 0, -- every alive ally
+  heal int not null default 0, -- every alive ally
+  vulnerable int not null default 0,
+  weakened int not null default 0,
+  burn int not null default 0,
+  unique (role_a, role_b)
+);
+
+create table if not exists public.team_convergence_multipliers (
+  player_count int primary key, -- players who converged this phase, the trigger included
+  multiplier numeric not null
+);
+
+alter table public.combat_turns
+  add column if not exists converged_player_ids public.player_id[] not null default '{}';
+
+-- ----------------------------
+-- Helper: resolve the team convergence between two players
+-- Damage, block, heal and burn are scaled by the multiplier; vulnerable and weakened are not.
+-- Returns null when the pair has no team convergence.
+-- ----------------------------
+
+create or replace function public._resolve_team_convergence(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_partner_id public.player_id,
+  p_player_count int
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_team public.team_convergences;
+  v_multiplier numeric;
+  v_damage int;
+  v_block int;
+  v_heal int;
+  v_burn int;
+  v_enemy record;
+  v_ally record;
+begin
+  select tc.* into v_team
+  from public.team_convergences tc
+  join public.room_players me on me.room_id = p_room_id and me.player_id = p_player_id
+  join public.room_players partner on partner.room_id = p_room_id and partner.player_id = p_partner_id
+  where tc.role_a = least(me.role_id::text, partner.role_id::text)
+    and tc.role_b = greatest(me.role_id::text, partner.role_id::text);
+
+  if v_team is null then
+    return null;
+  end if;
+
+  select tcm.multiplier into v_multiplier
+  from public.team_convergence_multipliers tcm
+  where tcm.player_count <= p_player_count
+  order by tcm.player_count desc
+  limit 1;
+  v_multiplier := coalesce(v_multiplier, 1);
+
+  v_damage := floor(v_team.damage * v_multiplier)::int;
+  v_block := floor(v_team.block * v_multiplier)::int;
+  v_heal := floor(v_team.heal * v_multiplier)::int;
+  v_burn := floor(v_team.burn * v_multiplier)::int;
+
+  -- Damage all enemies
+  if v_damage > 0 then
+    for v_enemy in
+      select ecs.id, ecs.hp, ecs.block from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+    loop
+      declare v_remaining int := v_damage;
+      begin
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'damage', 'player', p_player_id::text,
+          p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'team_convergence',
+          p_raw_amount => v_damage,
+          p_final_amount => least(v_enemy.hp, greatest(0, v_damage - v_enemy.block))
+        );
+        if v_enemy.block > 0 then
+          if v_enemy.block >= v_remaining then
+            update public.enemy_combat_state set block = block - v_remaining where id = v_enemy.id;
+            v_remaining := 0;
+          else
+            v_remaining := v_remaining - v_enemy.block;
+            update public.enemy_combat_state set block = 0 where id = v_enemy.id;
+          end if;
+        end if;
+        if v_remaining > 0 then
+          update public.enemy_combat_state
+          set hp = greatest(0, hp - v_remaining), last_attacker_id = p_player_id
+          where id = v_enemy.id;
+          if v_enemy.hp - v_remaining <= 0 then
+            update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+          end if;
+        end if;
+      end;
+    end loop;
+  end if;
+
+  -- Statuses on the survivors
+  if v_burn > 0 or v_team.vulnerable > 0 or v_team.weakened > 0 then
+    for v_enemy in
+      select ecs.id from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+    loop
+      perform public._apply_status('enemy', array[v_enemy.id], 'burn', v_burn);
+      perform public._apply_status('enemy', array[v_enemy.id], 'vulnerable', v_team.vulnerable);
+      perform public._apply_status('enemy', array[v_enemy.id], 'weakened', v_team.weakened);
+    end loop;
+    perform public._log_combat_event(
+      p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+      p_target_type => 'enemy', p_source => 'team_convergence',
+      p_statuses => jsonb_strip_nulls(jsonb_build_object(
+        'burn', nullif(v_burn, 0),
+        'vulnerable', nullif(v_team.vulnerable, 0),
+        'weakened', nullif(v_team.weakened, 0)
+      ))
+    );
+  end if;
+
+  -- Block and heal every alive ally
+  if v_block > 0 or v_heal > 0 then
+    for v_ally in
+      select pcs.id, pcs.player_id, pcs.frail, c.hp, c.hp_max
+      from public.player_combat_state pcs
+      join public.characters c on c.room_id = pcs.room_id and c.player_id = pcs.player_id
+      where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id and c.hp > 0
+      order by pcs.player_id
+    loop
+      if v_block > 0 then
+        update public.player_combat_state
+        set block = block + public._frail_block(v_block, v_ally.frail)
+        where id = v_ally.id;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'block', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => v_ally.player_id::text,
+          p_source => 'team_convergence',
+          p_raw_amount => v_block, p_final_amount => public._frail_block(v_block, v_ally.frail)
+        );
+      end if;
+      if v_heal > 0 then
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'heal', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => v_ally.player_id::text,
+          p_source => 'team_convergence',
+          p_raw_amount => v_heal,
+          p_final_amount => greatest(0, least(v_heal, v_ally.hp_max - v_ally.hp))
+        );
+        update public.characters set hp = least(hp_max, hp + v_heal)
+        where room_id = p_room_id and player_id = v_ally.player_id;
+      end if;
+    end loop;
+  end if;
+
+  return jsonb_build_object(
+    'id', v_team.id,
+    'name', v_team.name,
+    'icon', v_team.icon,
+    'partnerId', p_partner_id,
+    'playerCount', p_player_count,
+    'multiplier', v_multiplier,
+    'damage', v_damage,
+    'block', v_block,
+    'heal', v_heal,
+    'burn', v_burn,
+    'vulnerable', v_team.vulnerable,
+    'weakened', v_team.weakened
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_use_convergence
+-- Unchanged from 026 except that it records the converger and resolves the team convergence.
+-- ----------------------------
+
+create or replace function public.combat_use_convergence(
+  p_room_id uuid,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_empowered_count int := 0;
+  v_trait text;
+  v_new_charges jsonb;
+  v_multiplier numeric;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_energy_gained int := 0;
+  v_vuln_applied int := 0;
+  v_weak_applied int := 0;
+  v_enemy record;
+  v_converged public.player_id[];
+  v_team jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  -- Count and reset empowered traits
+  v_new_charges := v_pcs.trait_charges;
+  for v_trait in select key from jsonb_each_text(v_pcs.trait_charges) where value::int >= 3
+  loop
+    v_empowered_count := v_empowered_count + 1;
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+
+    -- Apply convergence effect per trait
+    -- Fire: damage
+    if v_trait = 'fire' then
+      v_total_damage := v_total_damage + 16;
+    -- Guard: block (persistent)
+    elsif v_trait = 'guard' then
+      v_total_block := v_total_block + 14;
+    -- Shadow: vulnerable + weakened
+    elsif v_trait = 'shadow' then
+      v_vuln_applied := v_vuln_applied + 2;
+      v_weak_applied := v_weak_applied + 2;
+    -- Storm: energy
+    elsif v_trait = 'storm' then
+      v_energy_gained := v_energy_gained + 2;
+    -- Nature: heal
+    elsif v_trait = 'nature' then
+      v_total_heal := v_total_heal + 12;
+    end if;
+  end loop;
+
+  if v_empowered_count < 2 then
+    raise exception 'Need at least 2 empowered traits';
+  end if;
+
+  -- Apply multiplier based on count
+  v_multiplier := case
+    when v_empowered_count >= 5 then 2.5
+    when v_empowered_count >= 4 then 2.0
+    when v_empowered_count >= 3 then 1.5
+    else 1.0
+  end;
+
+  v_total_damage := floor(v_total_damage * v_multiplier)::int;
+  v_total_block := floor(v_total_block * v_multiplier)::int;
+  v_total_heal := floor(v_total_heal * v_multiplier)::int;
+
+  -- Apply damage to all enemies
+  if v_total_damage > 0 then
+    for v_enemy in
+      select ecs.id, ecs.hp, ecs.block from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    loop
+      declare v_remaining int := v_total_damage;
+      begin
+        perform public._log_combat_event(
+          p_room_id, v_screen_id, 'damage', 'player', v_player_id::text,
+          p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'convergence',
+          p_raw_amount => v_total_damage,
+          p_final_amount => least(v_enemy.hp, greatest(0, v_total_damage - v_enemy.block))
+        );
+        if v_enemy.block > 0 then
+          if v_enemy.block >= v_remaining then
+            update public.enemy_combat_state set block = block - v_remaining where id = v_enemy.id;
+            v_remaining := 0;
+          else
+            v_remaining := v_remaining - v_enemy.block;
+            update public.enemy_combat_state set block = 0 where id = v_enemy.id;
+          end if;
+        end if;
+        if v_remaining > 0 then
+          update public.enemy_combat_state
+          set hp = greatest(0, hp - v_remaining), last_attacker_id = v_player_id
+          where id = v_enemy.id;
+          if v_enemy.hp - v_remaining <= 0 then
+            update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+          end if;
+        end if;
+      end;
+    end loop;
+  end if;
+
+  -- Apply block
+  if v_total_block > 0 then
+    update public.player_combat_state
+    set block = block + public._frail_block(v_total_block, v_pcs.frail)
+    where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'block', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_block, p_final_amount => public._frail_block(v_total_block, v_pcs.frail)
+    );
+  end if;
+
+  -- Apply heal
+  if v_total_heal > 0 then
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'heal', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_heal,
+      p_final_amount => (
+        select greatest(0, least(v_total_heal, c.hp_max - c.hp)) from public.characters c
+        where c.room_id = p_room_id and c.player_id = v_player_id
+      )
+    );
+    update public.characters set hp = least(hp_max, hp + v_total_heal)
+    where room_id = p_room_id and player_id = v_player_id;
+  end if;
+
+  -- Apply energy
+  if v_energy_gained > 0 then
+    update public.player_combat_state set energy = energy + v_energy_gained where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'energy', 'player', v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_energy_gained, p_final_amount => v_energy_gained
+    );
+  end if;
+
+  -- Apply debuffs to all enemies
+  if v_vuln_applied > 0 or v_weak_applied > 0 then
+    for v_enemy in
+      select ecs.id from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    loop
+      perform public._apply_status('enemy', array[v_enemy.id], 'vulnerable', v_vuln_applied);
+      perform public._apply_status('enemy', array[v_enemy.id], 'weakened', v_weak_applied);
+    end loop;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'status', 'player', v_player_id::text,
+      p_target_type => 'enemy', p_source => 'convergence',
+      p_statuses => jsonb_strip_nulls(jsonb_build_object(
+        'vulnerable', nullif(v_vuln_applied, 0),
+        'weakened', nullif(v_weak_applied, 0)
+      ))
+    );
+  end if;
+
+  -- Save charges
+  update public.player_combat_state
+  set trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  -- Team convergence: a player joining this phase's convergers pairs with the previous one
+  select ct.converged_player_ids into v_converged from public.combat_turns ct where ct.id = v_turn_id;
+  if not (v_player_id = any(v_converged)) then
+    v_converged := v_converged || v_player_id;
+    update public.combat_turns set converged_player_ids = v_converged where id = v_turn_id;
+    if array_length(v_converged, 1) >= 2 then
+      v_team := public._resolve_team_convergence(
+        p_room_id, v_screen_id, v_player_id,
+        v_converged[array_length(v_converged, 1) - 1], array_length(v_converged, 1)
+      );
+    end if;
+  end if;
+
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+  perform public._retarget_enemies(p_room_id, v_screen_id);
+
+  -- Free action: does NOT consume energy
+
+  return jsonb_build_object(
+    'empoweredCount', v_empowered_count,
+    'multiplier', v_multiplier,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'energy', v_energy_gained,
+    'vulnerable', v_vuln_applied,
+    'weakened', v_weak_applied,
+    'newTraitCharges', v_new_charges,
+    'teamConvergence', v_team
+  );
+end;
+$$;
+
+grant execute on function public.combat_use_convergence(uuid, int) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_enemy_phase
+-- Unchanged from 027 except that the next turn clears converged_player_ids.
+-- ----------------------------
+
+create or replace function public.combat_enemy_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_turn_number int;
+  v_enemy record;
+  v_template record;
+  v_pcs record;
+  v_attacks jsonb := '[]'::jsonb;
+  v_party_wiped boolean := false;
+  v_intent_idx int;
+  v_intent_type text;
+  v_intent_value int;
+  v_intent_hits int;
+  v_raw_damage int;
+  v_actual_damage int;
+  v_blocked int;
+  v_target public.player_id;
+  v_intent public.enemy_intents;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select ct.id, ct.screen_id, ct.turn_number into v_turn_id, v_screen_id, v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'enemy';
+
+  if v_turn_id is null then
+    raise exception 'Not in enemy phase';
+  end if;
+
+  -- Player phase is over, enemy phase begins (burn)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_start');
+
+  -- Reset enemy block
+  update public.enemy_combat_state set block = 0
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Each alive enemy acts based on intent pattern
+  for v_enemy in
+    select ecs.* from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    order by ecs.position asc
+  loop
+    -- Stunned enemies lose their action and keep their intent for next turn
+    if v_enemy.stun > 0 then
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'stunned');
+      continue;
+    end if;
+
+    -- Current intent from the pattern of the enemy's phase (cycling)
+    v_intent_idx := public._enemy_intent_code(v_enemy.template_id, v_enemy.phase, v_enemy.intent_index);
+
+    -- Resolve the intent from the catalog (with template overrides)
+    v_intent := public._enemy_intent(v_enemy.template_id, v_intent_idx);
+    v_intent_type := v_intent.type;
+    v_intent_value := v_intent.value;
+    v_intent_hits := greatest(1, v_intent.hits);
+
+    -- A target killed earlier this phase is replaced by a random survivor
+    v_target := v_enemy.target_player_id;
+    if v_target is not null and not exists (
+      select 1 from public.characters c
+      where c.room_id = p_room_id and c.player_id = v_target and c.hp > 0
+    ) then
+      v_target := (public._rng_sample(p_room_id, 'enemy-targets', array(
+        select c.player_id::text from public.characters c
+        join public.player_combat_state pcs
+          on pcs.room_id = c.room_id and pcs.player_id = c.player_id and pcs.screen_id = v_screen_id
+        where c.room_id = p_room_id and c.hp > 0
+        order by c.player_id
+      ), 1))[1]::public.player_id;
+    end if;
+
+    -- Execute intent (null target = whole party)
+    if v_intent_type in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+      for v_pcs in
+        select pcs.id, pcs.player_id, pcs.block, pcs.vulnerable, pcs.thorns
+        from public.player_combat_state pcs
+        join public.characters c on c.room_id = p_room_id and c.player_id = pcs.player_id
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and c.hp > 0
+          and (v_target is null or pcs.player_id = v_target)
+      loop
+        declare
+          v_hit int;
+          v_total_dmg int := 0;
+          v_total_raw int := 0;
+          v_thorns_dealt int := 0;
+          v_current_block int := v_pcs.block;
+          v_player_hp int;
+        begin
+          select c.hp into v_player_hp
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_pcs.player_id;
+
+          for v_hit in 1..v_intent_hits loop
+            if v_player_hp <= 0 then exit; end if;
+
+            v_raw_damage := public._enemy_attack_damage(
+              v_intent_value, v_enemy.strength - v_enemy.strength_down, v_enemy.weakened, v_pcs.vulnerable
+            );
+
+            v_total_raw := v_total_raw + v_raw_damage;
+            v_actual_damage := v_raw_damage;
+            if v_current_block > 0 then
+              v_blocked := least(v_current_block, v_actual_damage);
+              v_actual_damage := v_actual_damage - v_blocked;
+              v_current_block := v_current_block - v_blocked;
+            end if;
+
+            if v_actual_damage > 0 then
+              v_actual_damage := least(v_actual_damage, v_player_hp);
+              update public.characters
+              set hp = greatest(0, hp - v_actual_damage)
+              where room_id = p_room_id and player_id = v_pcs.player_id;
+              v_player_hp := v_player_hp - v_actual_damage;
+            end if;
+
+            v_total_dmg := v_total_dmg + v_actual_damage;
+
+            if v_pcs.thorns > 0 and v_raw_damage > 0 then
+              v_thorns_dealt := v_thorns_dealt + v_pcs.thorns;
+              update public.enemy_combat_state
+              set hp = greatest(0, hp - v_pcs.thorns)
+              where id = v_enemy.id;
+              if (select hp from public.enemy_combat_state where id = v_enemy.id) <= 0 then
+                update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+              end if;
+            end if;
+          end loop;
+
+          update public.player_combat_state set block = v_current_block where id = v_pcs.id;
+
+          perform public._log_combat_event(
+            p_room_id, v_screen_id, 'damage', 'enemy', v_enemy.id::text,
+            p_target_type => 'player', p_target_id => v_pcs.player_id::text,
+            p_source => v_intent_type, p_raw_amount => v_total_raw, p_final_amount => v_total_dmg
+          );
+
+          if v_thorns_dealt > 0 then
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'damage', 'player', v_pcs.player_id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'thorns',
+              p_raw_amount => v_thorns_dealt, p_final_amount => v_thorns_dealt
+            );
+          end if;
+
+          if v_intent_type = 'lifesteal' and v_total_dmg > 0 then
+            update public.enemy_combat_state
+            set hp = least(hp_max, hp + (v_total_dmg / 2))
+            where id = v_enemy.id;
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'heal', 'enemy', v_enemy.id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'lifesteal',
+              p_raw_amount => v_total_dmg / 2, p_final_amount => v_total_dmg / 2
+            );
+          end if;
+
+          v_attacks := v_attacks || jsonb_build_object(
+            'enemyId', v_enemy.id, 'enemyName', v_enemy.name,
+            'targetPlayerId', v_pcs.player_id,
+            'type', v_intent_type,
+            'damage', v_total_dmg,
+            'hits', v_intent_hits
+          );
+        end;
+      end loop;
+
+    elsif v_intent_type = 'defend' then
+      update public.enemy_combat_state
+      set block = block + public._frail_block(v_intent_value, v_enemy.frail)
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'defend', 'value', public._frail_block(v_intent_value, v_enemy.frail)
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'block', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_raw_amount => v_intent_value, p_final_amount => public._frail_block(v_intent_value, v_enemy.frail)
+      );
+
+    elsif v_intent_type = 'buff' then
+      perform public._apply_status(
+        'enemy', array[v_enemy.id], coalesce(v_intent.status, 'strength'), v_intent_value
+      );
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'buff', 'value', v_intent_value);
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'strength'), v_intent_value)
+      );
+
+    elsif v_intent_type = 'debuff' then
+      perform public._apply_status('player', array(
+        select pcs.id from public.player_combat_state pcs
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+          and (v_target is null or pcs.player_id = v_target)
+      ), coalesce(v_intent.status, 'weakened'), v_intent_value);
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'debuff', 'value', v_intent_value, 'targetPlayerId', v_target
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'player', p_target_id => v_target::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'weakened'), v_intent_value)
+      );
+    end if;
+
+    update public.enemy_combat_state
+    set intent_index = intent_index + 1
+    where id = v_enemy.id;
+
+    if not exists (
+      select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+    ) then
+      v_party_wiped := true;
+      exit;
+    end if;
+
+    if v_turn_number > 0 and v_turn_number % 4 = 0 then
+      update public.enemy_combat_state
+      set strength = strength + 1
+      where id = v_enemy.id;
+    end if;
+  end loop;
+
+  -- Enemy phase is over (status decay, regen), next player phase begins (poison)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_start');
+
+  -- Burn, thorns and poison may have pushed a boss past a threshold
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+
+  -- Check party wipe
+  select not exists (
+    select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+  ) into v_party_wiped;
+
+  if v_party_wiped then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Check all enemies dead → victory
+  if not exists (
+    select 1 from public.enemy_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false
+  ) then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', false, 'victory', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Next turn
+  update public.combat_turns
+  set turn_number = v_turn_number + 1, phase = 'player', converged_player_ids = '{}'
+  where id = v_turn_id;
+
+  update public.player_turn_state
+  set actions_remaining = 0, has_ended_turn = false
+  where combat_turn_id = v_turn_id;
+
+  -- New turn: reset energy, block (keeping unabsorbed persistent block), refill the hand to 4.
+  -- Retained cards stay in hand and ethereal cards left in hand are exhausted.
+  for v_pcs in
+    select pcs.id, pcs.player_id, pcs.draw_pile, pcs.hand, pcs.discard_pile, pcs.max_energy, pcs.starting_block,
+           least(pcs.block, pcs.retained_block) as kept_block
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  loop
+    declare
+      v_split jsonb := public._end_turn_hand(v_pcs.hand);
+      v_new_discard jsonb := v_pcs.discard_pile || (v_split->'discard');
+      v_draw_count int := greatest(0, 4 - jsonb_array_length(v_split->'retain'));
+      v_draw_result jsonb;
+    begin
+      v_draw_result := public._draw_hand(
+        v_pcs.draw_pile, v_new_discard, v_draw_count, p_room_id, 'draw:' || v_pcs.player_id
+      );
+      update public.player_combat_state
+      set energy = v_pcs.max_energy,
+          block = v_pcs.starting_block + v_pcs.kept_block,
+          retained_block = v_pcs.kept_block,
+          hand = (v_split->'retain') || (v_draw_result->'hand'),
+          draw_pile = v_draw_result->'drawPile',
+          -- The discard is only shuffled in when the draw pile runs short
+          discard_pile = case
+            when jsonb_array_length(v_pcs.draw_pile) < v_draw_count then '[]'::jsonb
+            else v_new_discard
+          end,
+          exhaust_pile = exhaust_pile || (v_split->'exhaust')
+      where id = v_pcs.id;
+    end;
+  end loop;
+
+  -- Intents advanced: pick next turn's targets
+  perform public._retarget_enemies(p_room_id, v_screen_id, true);
+
+  return jsonb_build_object('partyWiped', false, 'victory', false, 'turnNumber', v_turn_number + 1, 'attacks', v_attacks);
+end;
+$$;
+
+grant execute on function public.combat_enemy_phase(uuid) to authenticated;
+
+commit;
\ No newline at end of file
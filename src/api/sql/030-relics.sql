@@ -0,0 +1,1921 @@
+-- 030: Relics
+-- Passive items kept on characters.relics for the whole run. relic_definitions is seeded from
+-- src/features/gameConfig/relics.ts by bin/generate-sql.ts (generated/relic-definitions.sql).
+-- _trigger_relics fires a player's relics for a hook: combat_start (combat_init_turn),
+-- turn_start and hp_below (combat_enemy_phase), card_played, enemy_killed and hp_below
+-- (_play_card), enemy_killed (combat_use_convergence). Relics drop from fight rewards
+-- (boss relics after boss fights) and are sold in shops through shop_buy_relic.
+
+begin;
+
+create table if not exists public.relic_definitions (
+  id text primary key,
+  position int not null default 0, -- firing order within a hook
+  name text not null,
+  description text not null default '',
+  icon text not null default '',
+  rarity text not null, -- 'common' | 'boss'
+  hook text not null, -- 'combat_start' | 'turn_start' | 'card_played' | 'enemy_killed' | 'hp_below'
+  trait text, -- card_played: only cards of this trait
+  hp_percent int, -- hp_below: fires under this share of max HP
+  effects jsonb not null default '[]'::jsonb,
+  shop_cost int -- null = never sold
+);
+
+alter table public.characters
+  add column if not exists relics text[] not null default '{}';
+
+-- hp_below relics fire once per combat
+alter table public.player_combat_state
+  add column if not exists relics_fired text[] not null default '{}';
+
+-- ----------------------------
+-- Helper: fire a player's relics for a hook
+-- Dead players' relics stay quiet. Returns the ids of the relics that fired, in order.
+-- ----------------------------
+
+create or replace function public._trigger_relics(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_hook text,
+  p_trait text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_relics text[];
+  v_relic public.relic_definitions;
+  v_pcs record;
+  v_hp int;
+  v_hp_max int;
+  v_effect jsonb;
+  v_amount int;
+  v_enemy record;
+  v_draw_result jsonb;
+  v_fired jsonb := '[]'::jsonb;
+begin
+  select c.relics into v_relics
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_player_id and c.hp > 0;
+
+  if coalesce(array_length(v_relics, 1), 0) = 0 then
+    return v_fired;
+  end if;
+
+  for v_relic in
+    select rd.* from public.relic_definitions rd
+    where rd.id = any(v_relics) and rd.hook = p_hook
+      and (rd.trait is null or rd.trait = p_trait)
+    order by rd.position
+  loop
+    select * into v_pcs
+    from public.player_combat_state
+    where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+    if v_pcs is null then
+      return v_fired;
+    end if;
+
+    if p_hook = 'hp_below' then
+      select c.hp, c.hp_max into v_hp, v_hp_max
+      from public.characters c
+      where c.room_id = p_room_id and c.player_id = p_player_id;
+      if v_hp * 100 >= v_hp_max * v_relic.hp_percent or v_relic.id = any(v_pcs.relics_fired) then
+        continue;
+      end if;
+      update public.player_combat_state
+      set relics_fired = relics_fired || v_relic.id
+      where id = v_pcs.id;
+    end if;
+
+    for v_effect in select value from jsonb_array_elements(v_relic.effects)
+    loop
+      v_amount := (v_effect->>'amount')::int;
+      case v_effect->>'type'
+        when 'damage' then
+          for v_enemy in
+            select ecs.id, ecs.hp, ecs.block from public.enemy_combat_state ecs
+            where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+          loop
+            declare v_remaining int := greatest(0, v_amount - v_enemy.block);
+            begin
+              perform public._log_combat_event(
+                p_room_id, p_screen_id, 'damage', 'player', p_player_id::text,
+                p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_relic.id,
+                p_raw_amount => v_amount, p_final_amount => least(v_enemy.hp, v_remaining)
+              );
+              update public.enemy_combat_state
+              set block = greatest(0, block - v_amount),
+                  hp = greatest(0, hp - v_remaining),
+                  is_dead = hp - v_remaining <= 0
+              where id = v_enemy.id;
+            end;
+          end loop;
+
+        when 'block' then
+          update public.player_combat_state
+          set block = block + public._frail_block(v_amount, v_pcs.frail)
+          where id = v_pcs.id;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'block', 'player', p_player_id::text,
+            p_target_type => 'player', p_target_id => p_player_id::text, p_source => v_relic.id,
+            p_raw_amount => v_amount, p_final_amount => public._frail_block(v_amount, v_pcs.frail)
+          );
+
+        when 'heal' then
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'heal', 'player', p_player_id::text,
+            p_target_type => 'player', p_target_id => p_player_id::text, p_source => v_relic.id,
+            p_raw_amount => v_amount,
+            p_final_amount => (
+              select greatest(0, least(v_amount, c.hp_max - c.hp)) from public.characters c
+              where c.room_id = p_room_id and c.player_id = p_player_id
+            )
+          );
+          update public.characters set hp = least(hp_max, hp + v_amount)
+          where room_id = p_room_id and player_id = p_player_id;
+
+        when 'apply_status' then
+          perform public._apply_status('enemy', array(
+            select ecs.id from public.enemy_combat_state ecs
+            where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+          ), v_effect->>'status', v_amount);
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+            p_target_type => 'enemy', p_source => v_relic.id,
+            p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+          );
+
+        when 'gain_status' then
+          perform public._apply_status('player', array[v_pcs.id], v_effect->>'status', v_amount);
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+            p_target_type => 'player', p_target_id => p_player_id::text, p_source => v_relic.id,
+            p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+          );
+
+        when 'draw' then
+          v_draw_result := public._draw_hand(
+            v_pcs.draw_pile, v_pcs.discard_pile, v_amount, p_room_id, 'draw:' || p_player_id
+          );
+          update public.player_combat_state
+          set hand = hand || (v_draw_result->'hand'),
+              draw_pile = v_draw_result->'drawPile',
+              -- _draw_hand only shuffles the discard in when the draw pile runs short
+              discard_pile = case
+                when jsonb_array_length(v_pcs.draw_pile) < v_amount then '[]'::jsonb
+                else discard_pile
+              end
+          where id = v_pcs.id;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'draw', 'player', p_player_id::text, p_source => v_relic.id,
+            p_raw_amount => v_amount, p_final_amount => jsonb_array_length(v_draw_result->'hand')
+          );
+
+        when 'gain_energy' then
+          update public.player_combat_state set energy = energy + v_amount where id = v_pcs.id;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'energy', 'player', p_player_id::text, p_source => v_relic.id,
+            p_raw_amount => v_amount, p_final_amount => v_amount
+          );
+
+        else
+          raise exception 'Unknown relic effect: %', v_effect->>'type';
+      end case;
+    end loop;
+
+    v_fired := v_fired || to_jsonb(v_relic.id);
+  end loop;
+
+  return v_fired;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: relics offered by a shop
+-- Two commons with a shop price, drawn from the 'adventure' stream.
+-- ----------------------------
+
+create or replace function public._shop_relic_offer(p_room_id uuid)
+returns jsonb
+language sql
+as $$
+  select to_jsonb(public._rng_sample(
+    p_room_id, 'adventure',
+    array(select rd.id from public.relic_definitions rd where rd.shop_cost is not null order by rd.id),
+    2
+  ));
+$$;
+
+-- ----------------------------
+-- RPC: combat_init_turn
+-- Unchanged from 027 except that combat_start relics fire once every hand is dealt.
+-- ----------------------------
+
+create or replace function public.combat_init_turn(
+  p_room_id uuid,
+  p_screen_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_turn_id uuid;
+  v_player record;
+  v_starter_cards jsonb;
+  v_draw_result jsonb;
+  v_innate jsonb;
+  v_trait_charges jsonb;
+begin
+  if exists (select 1 from public.combat_turns where room_id = p_room_id and screen_id = p_screen_id) then
+    return;
+  end if;
+
+  insert into public.combat_turns (room_id, screen_id, turn_number, phase)
+  values (p_room_id, p_screen_id, 1, 'player')
+  returning id into v_turn_id;
+
+  for v_player in
+    select rp.player_id, rp.role_id
+    from public.room_players rp
+    where rp.room_id = p_room_id
+  loop
+    insert into public.player_turn_state (combat_turn_id, player_id, actions_remaining, has_ended_turn)
+    values (v_turn_id, v_player.player_id, 0, false);
+
+    -- Build starter deck for this player's role
+    select jsonb_agg(
+      jsonb_build_object('cardId', cd.id, 'upgraded', false, 'usageCount', 0)
+    ) into v_starter_cards
+    from public.card_definitions cd
+    where cd.is_starter = true and cd.starter_role = v_player.role_id;
+
+    -- Fallback: if no role-specific cards, use all starters
+    if v_starter_cards is null or jsonb_array_length(v_starter_cards) = 0 then
+      select jsonb_agg(
+        jsonb_build_object('cardId', cd.id, 'upgraded', false, 'usageCount', 0)
+      ) into v_starter_cards
+      from public.card_definitions cd
+      where cd.is_starter = true;
+    end if;
+
+    -- Build trait_charges based on role (4 schools per role)
+    v_trait_charges := case v_player.role_id
+      when 'warrior' then '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+      when 'sage' then '{"fire":0,"frost":0,"storm":0,"arcane":0}'::jsonb
+      when 'ranger' then '{"shadow":0,"nature":0,"precision":0,"venom":0}'::jsonb
+      else '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+    end;
+
+    -- Innate cards are always in the opening hand; the rest of the hand is drawn
+    select coalesce(jsonb_agg(c.value), '[]'::jsonb) into v_innate
+    from jsonb_array_elements(v_starter_cards) c
+    where public._card_has_keyword(c.value->>'cardId', 'innate');
+
+    v_draw_result := public._draw_hand(
+      (
+        select coalesce(jsonb_agg(c.value), '[]'::jsonb)
+        from jsonb_array_elements(v_starter_cards) c
+        where not public._card_has_keyword(c.value->>'cardId', 'innate')
+      ),
+      '[]'::jsonb,
+      greatest(0, 4 - jsonb_array_length(v_innate)),
+      p_room_id,
+      'draw:' || v_player.player_id
+    );
+
+    insert into public.player_combat_state (
+      room_id, screen_id, player_id, identity_id,
+      draw_pile, hand, discard_pile,
+      energy, max_energy, block,
+      trait_charges, attune_charges
+    ) values (
+      p_room_id, p_screen_id, v_player.player_id, coalesce(v_player.role_id, 'warrior'),
+      v_draw_result->'drawPile', v_innate || (v_draw_result->'hand'), '[]'::jsonb,
+      3, 3, 0,
+      v_trait_charges,
+      0
+    )
+    on conflict (room_id, screen_id, player_id) do nothing;
+  end loop;
+
+  update public.characters set taunt_turns_left = 0 where room_id = p_room_id;
+
+  perform public._trigger_relics(p_room_id, p_screen_id, rp.player_id, 'combat_start')
+  from public.room_players rp
+  where rp.room_id = p_room_id
+  order by rp.player_id;
+
+  perform public._retarget_enemies(p_room_id, p_screen_id, true);
+end;
+$$;
+
+grant execute on function public.combat_init_turn(uuid, uuid) to authenticated;
+
+-- ----------------------------
+-- Helper: play a card from a player's hand
+-- Unchanged from 028 except that enemy_killed, card_played and hp_below relics fire after the card.
+-- 'energyLeft' is read before relics, which may add energy or cards to the hand.
+-- ----------------------------
+
+create or replace function public._play_card(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_hand_index int,
+  p_target_enemy_idx int default null,
+  p_target_player_id public.player_id default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_card_instance jsonb;
+  v_card_id text;
+  v_card record;
+  v_is_upgraded boolean;
+  v_trait text;
+  v_is_amplified boolean;
+  v_target_id uuid;
+  v_queue jsonb;
+  v_effect jsonb;
+  v_type text;
+  v_amount int;
+  v_hits int;
+  v_all boolean;
+  v_condition jsonb;
+  v_condition_met boolean;
+  v_recipients public.player_id[];
+  v_recipient public.player_id;
+  v_recipient_pcs record;
+  v_allies jsonb := '{}'::jsonb;
+  v_enemy record;
+  v_hit int;
+  v_hp int;
+  v_hp_max int;
+  v_dealt int;
+  v_actual int;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_total_burn int := 0;
+  v_self_damage int := 0;
+  v_energy_gained int := 0;
+  v_drawn int := 0;
+  v_hand jsonb;
+  v_draw_pile jsonb;
+  v_discard jsonb;
+  v_exhaust jsonb;
+  v_draw_result jsonb;
+  v_new_charges jsonb;
+  v_new_energy int;
+  v_alive_before int;
+  v_kills int;
+  v_relics jsonb := '[]'::jsonb;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+
+  if v_pcs is null then
+    raise exception 'No combat state found';
+  end if;
+
+  select count(*) into v_alive_before
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false;
+
+  v_card_instance := v_pcs.hand->p_hand_index;
+  if v_card_instance is null then
+    raise exception 'Invalid hand index';
+  end if;
+
+  v_card_id := v_card_instance->>'cardId';
+  v_is_upgraded := coalesce((v_card_instance->>'upgraded')::boolean, false);
+
+  select * into v_card from public.card_definitions where id = v_card_id;
+  if v_card is null then
+    raise exception 'Card not found: %', v_card_id;
+  end if;
+
+  if p_target_player_id is not null and not exists (
+    select 1 from public.characters c
+    where c.room_id = p_room_id and c.player_id = p_target_player_id and c.hp > 0
+  ) then
+    raise exception 'Invalid ally target';
+  end if;
+
+  if 'unplayable' = any(v_card.keywords) then
+    raise exception 'Card is unplayable: %', v_card_id;
+  end if;
+
+  if v_pcs.energy < v_card.cost then
+    raise exception 'Not enough energy (have %, need %)', v_pcs.energy, v_card.cost;
+  end if;
+
+  v_trait := v_card.trait;
+  v_is_amplified := coalesce((v_pcs.trait_charges->>v_trait)::int, 0) >= 3;
+
+  -- Single-target effects all hit the enemy chosen at play time
+  select sub.id into v_target_id
+  from (
+    select ecs.id, row_number() over (order by ecs.position) - 1 as idx
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+  ) sub
+  where sub.idx = coalesce(p_target_enemy_idx, 0);
+
+  -- Remove the played card first so draw effects can't redraw it
+  v_hand := v_pcs.hand - p_hand_index;
+  v_draw_pile := v_pcs.draw_pile;
+  v_discard := v_pcs.discard_pile;
+  v_exhaust := v_pcs.exhaust_pile;
+
+  v_queue := case
+    when v_is_upgraded and jsonb_array_length(v_card.upgraded_effects) > 0 then v_card.upgraded_effects
+    else v_card.effects
+  end;
+
+  -- Resolve effects in order; conditionals splice their effects into the front of the queue
+  while jsonb_array_length(v_queue) > 0 loop
+    v_effect := v_queue->0;
+    v_queue := v_queue - 0;
+    v_type := v_effect->>'type';
+    v_amount := coalesce((v_effect->>'amount')::int, 0);
+    v_all := coalesce(v_effect->>'target', 'enemy') = 'all_enemies';
+    if v_type in ('heal', 'block', 'gain_status') then
+      v_recipients := public._ally_recipients(
+        p_room_id, p_player_id, coalesce(v_effect->>'target', 'self'), p_target_player_id
+      );
+    end if;
+
+    -- Empowered cards amplify their numbers; weakened casters deal less damage
+    if v_type in ('damage', 'block', 'heal')
+      or v_type = 'apply_status' and v_effect->>'status' in ('burn', 'poison') then
+      v_amount := public._card_amount(
+        v_amount, v_is_amplified, v_type = 'damage' and v_pcs.weakened > 0
+      );
+    end if;
+
+    case v_type
+      when 'damage' then
+        v_hits := greatest(1, coalesce((v_effect->>'hits')::int, 1));
+        -- One log entry per target, summing all hits
+        for v_enemy in
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+            and (v_all or ecs.id = v_target_id)
+          order by ecs.position
+        loop
+          v_dealt := 0;
+          for v_hit in 1..v_hits loop
+            v_dealt := v_dealt + public._damage_enemy(v_enemy.id, v_amount);
+          end loop;
+          v_total_damage := v_total_damage + v_dealt;
+          if v_dealt > 0 then
+            update public.enemy_combat_state set last_attacker_id = p_player_id where id = v_enemy.id;
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'damage', 'player', p_player_id::text,
+            p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_card_id => v_card_id,
+            p_raw_amount => v_amount * v_hits, p_final_amount => v_dealt
+          );
+        end loop;
+
+      when 'block' then
+        -- Frail is the recipient's
+        foreach v_recipient in array v_recipients loop
+          select pcs.id, pcs.frail into v_recipient_pcs
+          from public.player_combat_state pcs
+          where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id and pcs.player_id = v_recipient;
+          continue when v_recipient_pcs.id is null;
+          v_actual := public._frail_block(v_amount, v_recipient_pcs.frail);
+          update public.player_combat_state
+          set block = block + v_actual,
+              retained_block = retained_block
+                + case when coalesce((v_effect->>'persists')::boolean, false) then v_actual else 0 end
+          where id = v_recipient_pcs.id;
+          if v_recipient = p_player_id then
+            v_total_block := v_total_block + v_actual;
+          else
+            v_allies := v_allies || jsonb_build_object(v_recipient::text,
+              coalesce(v_allies->v_recipient::text, '{}'::jsonb) || jsonb_build_object(
+                'block', coalesce((v_allies->v_recipient::text->>'block')::int, 0) + v_actual
+              )
+            );
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'block', 'player', p_player_id::text,
+            p_target_type => 'player', p_target_id => v_recipient::text, p_card_id => v_card_id,
+            p_raw_amount => v_amount, p_final_amount => v_actual
+          );
+        end loop;
+
+      when 'heal' then
+        foreach v_recipient in array v_recipients loop
+          select c.hp, c.hp_max into v_hp, v_hp_max
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_recipient;
+          v_actual := greatest(0, least(v_amount, v_hp_max - v_hp));
+          update public.characters
+          set hp = least(hp_max, hp + v_amount)
+          where room_id = p_room_id and player_id = v_recipient;
+          if v_recipient = p_player_id then
+            v_total_heal := v_total_heal + v_amount;
+          else
+            v_allies := v_allies || jsonb_build_object(v_recipient::text,
+              coalesce(v_allies->v_recipient::text, '{}'::jsonb) || jsonb_build_object(
+                'heal', coalesce((v_allies->v_recipient::text->>'heal')::int, 0) + v_amount
+              )
+            );
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'heal', 'player', p_player_id::text,
+            p_target_type => 'player', p_target_id => v_recipient::text, p_card_id => v_card_id,
+            p_raw_amount => v_amount, p_final_amount => v_actual
+          );
+        end loop;
+
+      when 'self_damage' then
+        select c.hp into v_hp
+        from public.characters c
+        where c.room_id = p_room_id and c.player_id = p_player_id;
+        update public.characters
+        set hp = greatest(0, hp - v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_self_damage := v_self_damage + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'self_damage', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => least(v_amount, v_hp)
+        );
+
+      when 'apply_status' then
+        perform public._apply_status('enemy', array(
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+            and (v_all or ecs.id = v_target_id)
+        ), v_effect->>'status', v_amount);
+        if v_effect->>'status' = 'burn' then
+          v_total_burn := v_total_burn + v_amount;
+        end if;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'enemy',
+          p_target_id => case when v_all then null else v_target_id::text end,
+          p_card_id => v_card_id,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'gain_status' then
+        perform public._apply_status('player', array(
+          select pcs.id from public.player_combat_state pcs
+          where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id
+            and pcs.player_id = any(v_recipients)
+        ), v_effect->>'status', v_amount);
+        foreach v_recipient in array v_recipients loop
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+            p_target_type => 'player', p_target_id => v_recipient::text, p_card_id => v_card_id,
+            p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+          );
+        end loop;
+
+      when 'draw' then
+        if jsonb_array_length(v_draw_pile) < v_amount then
+          v_draw_result := public._draw_hand(v_draw_pile, v_discard, v_amount, p_room_id, 'draw:' || p_player_id);
+          v_discard := '[]'::jsonb;
+        else
+          v_draw_result := public._draw_hand(
+            v_draw_pile, '[]'::jsonb, v_amount, p_room_id, 'draw:' || p_player_id
+          );
+        end if;
+        v_hand := v_hand || (v_draw_result->'hand');
+        v_draw_pile := v_draw_result->'drawPile';
+        v_drawn := v_drawn + jsonb_array_length(v_draw_result->'hand');
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'draw', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => jsonb_array_length(v_draw_result->'hand')
+        );
+
+      when 'gain_energy' then
+        v_energy_gained := v_energy_gained + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'energy', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      when 'conditional' then
+        v_condition := v_effect->'condition';
+        v_condition_met := false;
+
+        if v_condition->>'type' = 'target_has_status' and v_target_id is not null then
+          execute format(
+            'select %I > 0 from public.enemy_combat_state where id = $1',
+            v_condition->>'status'
+          ) into v_condition_met using v_target_id;
+        elsif v_condition->>'type' = 'hp_below_percent' then
+          select c.hp, c.hp_max into v_hp, v_hp_max
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = p_player_id;
+          v_condition_met := v_hp * 100 < v_hp_max * (v_condition->>'percent')::int;
+        end if;
+
+        if coalesce(v_condition_met, false) then
+          v_queue := (v_effect->'effects') || v_queue;
+        end if;
+
+      else
+        raise exception 'Unknown card effect: %', v_type;
+    end case;
+  end loop;
+
+  -- Played card goes to discard (or exhaust) with its usage tracked (auto-upgrade at threshold)
+  v_card_instance := jsonb_set(v_card_instance, '{usageCount}',
+    to_jsonb(coalesce((v_card_instance->>'usageCount')::int, 0) + 1)
+  );
+  if not v_is_upgraded and (v_card_instance->>'usageCount')::int >= v_card.upgrade_threshold then
+    v_card_instance := jsonb_set(v_card_instance, '{upgraded}', 'true'::jsonb);
+  end if;
+  if 'exhaust' = any(v_card.keywords) then
+    v_exhaust := v_exhaust || jsonb_build_array(v_card_instance);
+  else
+    v_discard := v_discard || jsonb_build_array(v_card_instance);
+  end if;
+
+  -- Empowered play resets the trait, otherwise it charges
+  v_new_charges := v_pcs.trait_charges;
+  if v_is_amplified then
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+  else
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait],
+      to_jsonb(coalesce((v_new_charges->>v_trait)::int, 0) + 1));
+  end if;
+
+  v_new_energy := v_pcs.energy - v_card.cost + v_energy_gained;
+
+  update public.player_combat_state
+  set hand = v_hand,
+      draw_pile = v_draw_pile,
+      discard_pile = v_discard,
+      exhaust_pile = v_exhaust,
+      energy = v_new_energy,
+      trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  -- Relics: one enemy_killed per kill, then the card's trait, then a possible HP drop
+  select v_alive_before - count(*) into v_kills
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false;
+  for i in 1..v_kills loop
+    v_relics := v_relics || public._trigger_relics(p_room_id, p_screen_id, p_player_id, 'enemy_killed');
+  end loop;
+  v_relics := v_relics || public._trigger_relics(p_room_id, p_screen_id, p_player_id, 'card_played', v_trait);
+  v_relics := v_relics || public._trigger_relics(p_room_id, p_screen_id, p_player_id, 'hp_below');
+
+  perform public._advance_boss_phases(p_room_id, p_screen_id);
+
+  -- Block, HP and attackers may have changed who the enemies are aiming at
+  perform public._retarget_enemies(p_room_id, p_screen_id);
+
+  return jsonb_build_object(
+    'cardId', v_card_id,
+    'cardName', v_card.name,
+    'trait', v_trait,
+    'targetEnemyId', v_target_id,
+    'targetPlayerId', p_target_player_id,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'allies', v_allies,
+    'burn', v_total_burn,
+    'selfDamage', v_self_damage,
+    'drawn', v_drawn,
+    'exhausted', 'exhaust' = any(v_card.keywords),
+    'energyGained', v_energy_gained,
+    'wasAmplified', v_is_amplified,
+    'energyLeft', v_new_energy,
+    'traitCharged', v_trait,
+    'newTraitCharges', v_new_charges,
+    'relics', v_relics
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_use_convergence
+-- Unchanged from 029 except that enemy_killed relics fire for the converger's kills.
+-- ----------------------------
+
+create or replace function public.combat_use_convergence(
+  p_room_id uuid,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_empowered_count int := 0;
+  v_trait text;
+  v_new_charges jsonb;
+  v_multiplier numeric;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_energy_gained int := 0;
+  v_vuln_applied int := 0;
+  v_weak_applied int := 0;
+  v_enemy record;
+  v_converged public.player_id[];
+  v_team jsonb;
+  v_alive_before int;
+  v_kills int;
+  v_relics jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  select count(*) into v_alive_before
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false;
+
+  -- Count and reset empowered traits
+  v_new_charges := v_pcs.trait_charges;
+  for v_trait in select key from jsonb_each_text(v_pcs.trait_charges) where value::int >= 3
+  loop
+    v_empowered_count := v_empowered_count + 1;
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+
+    -- Apply convergence effect per trait
+    -- Fire: damage
+    if v_trait = 'fire' then
+      v_total_damage := v_total_damage + 16;
+    -- Guard: block (persistent)
+    elsif v_trait = 'guard' then
+      v_total_block := v_total_block + 14;
+    -- Shadow: vulnerable + weakened
+    elsif v_trait = 'shadow' then
+      v_vuln_applied := v_vuln_applied + 2;
+      v_weak_applied := v_weak_applied + 2;
+    -- Storm: energy
+    elsif v_trait = 'storm' then
+      v_energy_gained := v_energy_gained + 2;
+    -- Nature: heal
+    elsif v_trait = 'nature' then
+      v_total_heal := v_total_heal + 12;
+    end if;
+  end loop;
+
+  if v_empowered_count < 2 then
+    raise exception 'Need at least 2 empowered traits';
+  end if;
+
+  -- Apply multiplier based on count
+  v_multiplier := case
+    when v_empowered_count >= 5 then 2.5
+    when v_empowered_count >= 4 then 2.0
+    when v_empowered_count >= 3 then 1.5
+    else 1.0
+  end;
+
+  v_total_damage := floor(v_total_damage * v_multiplier)::int;
+  v_total_block := floor(v_total_block * v_multiplier)::int;
+  v_total_heal := floor(v_total_heal * v_multiplier)::int;
+
+  -- Apply damage to all enemies
+  if v_total_damage > 0 then
+    for v_enemy in
+      select ecs.id, ecs.hp, ecs.block from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    loop
+      declare v_remaining int := v_total_damage;
+      begin
+        perform public._log_combat_event(
+          p_room_id, v_screen_id, 'damage', 'player', v_player_id::text,
+          p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'convergence',
+          p_raw_amount => v_total_damage,
+          p_final_amount => least(v_enemy.hp, greatest(0, v_total_damage - v_enemy.block))
+        );
+        if v_enemy.block > 0 then
+          if v_enemy.block >= v_remaining then
+            update public.enemy_combat_state set block = block - v_remaining where id = v_enemy.id;
+            v_remaining := 0;
+          else
+            v_remaining := v_remaining - v_enemy.block;
+            update public.enemy_combat_state set block = 0 where id = v_enemy.id;
+          end if;
+        end if;
+        if v_remaining > 0 then
+          update public.enemy_combat_state
+          set hp = greatest(0, hp - v_remaining), last_attacker_id = v_player_id
+          where id = v_enemy.id;
+          if v_enemy.hp - v_remaining <= 0 then
+            update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+          end if;
+        end if;
+      end;
+    end loop;
+  end if;
+
+  -- Apply block
+  if v_total_block > 0 then
+    update public.player_combat_state
+    set block = block + public._frail_block(v_total_block, v_pcs.frail)
+    where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'block', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_block, p_final_amount => public._frail_block(v_total_block, v_pcs.frail)
+    );
+  end if;
+
+  -- Apply heal
+  if v_total_heal > 0 then
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'heal', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_heal,
+      p_final_amount => (
+        select greatest(0, least(v_total_heal, c.hp_max - c.hp)) from public.characters c
+        where c.room_id = p_room_id and c.player_id = v_player_id
+      )
+    );
+    update public.characters set hp = least(hp_max, hp + v_total_heal)
+    where room_id = p_room_id and player_id = v_player_id;
+  end if;
+
+  -- Apply energy
+  if v_energy_gained > 0 then
+    update public.player_combat_state set energy = energy + v_energy_gained where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'energy', 'player', v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_energy_gained, p_final_amount => v_energy_gained
+    );
+  end if;
+
+  -- Apply debuffs to all enemies
+  if v_vuln_applied > 0 or v_weak_applied > 0 then
+    for v_enemy in
+      select ecs.id from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    loop
+      perform public._apply_status('enemy', array[v_enemy.id], 'vulnerable', v_vuln_applied);
+      perform public._apply_status('enemy', array[v_enemy.id], 'weakened', v_weak_applied);
+    end loop;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'status', 'player', v_player_id::text,
+      p_target_type => 'enemy', p_source => 'convergence',
+      p_statuses => jsonb_strip_nulls(jsonb_build_object(
+        'vulnerable', nullif(v_vuln_applied, 0),
+        'weakened', nullif(v_weak_applied, 0)
+      ))
+    );
+  end if;
+
+  -- Save charges
+  update public.player_combat_state
+  set trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  -- Team convergence: a player joining this phase's convergers pairs with the previous one
+  select ct.converged_player_ids into v_converged from public.combat_turns ct where ct.id = v_turn_id;
+  if not (v_player_id = any(v_converged)) then
+    v_converged := v_converged || v_player_id;
+    update public.combat_turns set converged_player_ids = v_converged where id = v_turn_id;
+    if array_length(v_converged, 1) >= 2 then
+      v_team := public._resolve_team_convergence(
+        p_room_id, v_screen_id, v_player_id,
+        v_converged[array_length(v_converged, 1) - 1], array_length(v_converged, 1)
+      );
+    end if;
+  end if;
+
+  select v_alive_before - count(*) into v_kills
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false;
+  for i in 1..v_kills loop
+    v_relics := v_relics || public._trigger_relics(p_room_id, v_screen_id, v_player_id, 'enemy_killed');
+  end loop;
+
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+  perform public._retarget_enemies(p_room_id, v_screen_id);
+
+  -- Free action: does NOT consume energy
+
+  return jsonb_build_object(
+    'empoweredCount', v_empowered_count,
+    'multiplier', v_multiplier,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'energy', v_energy_gained,
+    'vulnerable', v_vuln_applied,
+    'weakened', v_weak_applied,
+    'newTraitCharges', v_new_charges,
+    'teamConvergence', v_team,
+    'relics', v_relics
+  );
+end;
+$$;
+
+grant execute on function public.combat_use_convergence(uuid, int) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_enemy_phase
+-- Unchanged from 029 except that hp_below relics fire after the attacks and turn_start relics
+-- once the new hands are dealt.
+-- ----------------------------
+
+create or replace function public.combat_enemy_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_turn_number int;
+  v_enemy record;
+  v_template record;
+  v_pcs record;
+  v_attacks jsonb := '[]'::jsonb;
+  v_party_wiped boolean := false;
+  v_intent_idx int;
+  v_intent_type text;
+  v_intent_value int;
+  v_intent_hits int;
+  v_raw_damage int;
+  v_actual_damage int;
+  v_blocked int;
+  v_target public.player_id;
+  v_intent public.enemy_intents;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select ct.id, ct.screen_id, ct.turn_number into v_turn_id, v_screen_id, v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'enemy';
+
+  if v_turn_id is null then
+    raise exception 'Not in enemy phase';
+  end if;
+
+  -- Player phase is over, enemy phase begins (burn)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_start');
+
+  -- Reset enemy block
+  update public.enemy_combat_state set block = 0
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Each alive enemy acts based on intent pattern
+  for v_enemy in
+    select ecs.* from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    order by ecs.position asc
+  loop
+    -- Stunned enemies lose their action and keep their intent for next turn
+    if v_enemy.stun > 0 then
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'stunned');
+      continue;
+    end if;
+
+    -- Current intent from the pattern of the enemy's phase (cycling)
+    v_intent_idx := public._enemy_intent_code(v_enemy.template_id, v_enemy.phase, v_enemy.intent_index);
+
+    -- Resolve the intent from the catalog (with template overrides)
+    v_intent := public._enemy_intent(v_enemy.template_id, v_intent_idx);
+    v_intent_type := v_intent.type;
+    v_intent_value := v_intent.value;
+    v_intent_hits := greatest(1, v_intent.hits);
+
+    -- A target killed earlier this phase is replaced by a random survivor
+    v_target := v_enemy.target_player_id;
+    if v_target is not null and not exists (
+      select 1 from public.characters c
+      where c.room_id = p_room_id and c.player_id = v_target and c.hp > 0
+    ) then
+      v_target := (public._rng_sample(p_room_id, 'enemy-targets', array(
+        select c.player_id::text from public.characters c
+        join public.player_combat_state pcs
+          on pcs.room_id = c.room_id and pcs.player_id = c.player_id and pcs.screen_id = v_screen_id
+        where c.room_id = p_room_id and c.hp > 0
+        order by c.player_id
+      ), 1))[1]::public.player_id;
+    end if;
+
+    -- Execute intent (null target = whole party)
+    if v_intent_type in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+      for v_pcs in
+        select pcs.id, pcs.player_id, pcs.block, pcs.vulnerable, pcs.thorns
+        from public.player_combat_state pcs
+        join public.characters c on c.room_id = p_room_id and c.player_id = pcs.player_id
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and c.hp > 0
+          and (v_target is null or pcs.player_id = v_target)
+      loop
+        declare
+          v_hit int;
+          v_total_dmg int := 0;
+          v_total_raw int := 0;
+          v_thorns_dealt int := 0;
+          v_current_block int := v_pcs.block;
+          v_player_hp int;
+        begin
+          select c.hp into v_player_hp
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_pcs.player_id;
+
+          for v_hit in 1..v_intent_hits loop
+            if v_player_hp <= 0 then exit; end if;
+
+            v_raw_damage := public._enemy_attack_damage(
+              v_intent_value, v_enemy.strength - v_enemy.strength_down, v_enemy.weakened, v_pcs.vulnerable
+            );
+
+            v_total_raw := v_total_raw + v_raw_damage;
+            v_actual_damage := v_raw_damage;
+            if v_current_block > 0 then
+              v_blocked := least(v_current_block, v_actual_damage);
+              v_actual_damage := v_actual_damage - v_blocked;
+              v_current_block := v_current_block - v_blocked;
+            end if;
+
+            if v_actual_damage > 0 then
+              v_actual_damage := least(v_actual_damage, v_player_hp);
+              update public.characters
+              set hp = greatest(0, hp - v_actual_damage)
+              where room_id = p_room_id and player_id = v_pcs.player_id;
+              v_player_hp := v_player_hp - v_actual_damage;
+            end if;
+
+            v_total_dmg := v_total_dmg + v_actual_damage;
+
+            if v_pcs.thorns > 0 and v_raw_damage > 0 then
+              v_thorns_dealt := v_thorns_dealt + v_pcs.thorns;
+              update public.enemy_combat_state
+              set hp = greatest(0, hp - v_pcs.thorns)
+              where id = v_enemy.id;
+              if (select hp from public.enemy_combat_state where id = v_enemy.id) <= 0 then
+                update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+              end if;
+            end if;
+          end loop;
+
+          update public.player_combat_state set block = v_current_block where id = v_pcs.id;
+
+          perform public._log_combat_event(
+            p_room_id, v_screen_id, 'damage', 'enemy', v_enemy.id::text,
+            p_target_type => 'player', p_target_id => v_pcs.player_id::text,
+            p_source => v_intent_type, p_raw_amount => v_total_raw, p_final_amount => v_total_dmg
+          );
+
+          if v_thorns_dealt > 0 then
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'damage', 'player', v_pcs.player_id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'thorns',
+              p_raw_amount => v_thorns_dealt, p_final_amount => v_thorns_dealt
+            );
+          end if;
+
+          if v_intent_type = 'lifesteal' and v_total_dmg > 0 then
+            update public.enemy_combat_state
+            set hp = least(hp_max, hp + (v_total_dmg / 2))
+            where id = v_enemy.id;
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'heal', 'enemy', v_enemy.id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'lifesteal',
+              p_raw_amount => v_total_dmg / 2, p_final_amount => v_total_dmg / 2
+            );
+          end if;
+
+          v_attacks := v_attacks || jsonb_build_object(
+            'enemyId', v_enemy.id, 'enemyName', v_enemy.name,
+            'targetPlayerId', v_pcs.player_id,
+            'type', v_intent_type,
+            'damage', v_total_dmg,
+            'hits', v_intent_hits
+          );
+        end;
+      end loop;
+
+    elsif v_intent_type = 'defend' then
+      update public.enemy_combat_state
+      set block = block + public._frail_block(v_intent_value, v_enemy.frail)
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'defend', 'value', public._frail_block(v_intent_value, v_enemy.frail)
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'block', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_raw_amount => v_intent_value, p_final_amount => public._frail_block(v_intent_value, v_enemy.frail)
+      );
+
+    elsif v_intent_type = 'buff' then
+      perform public._apply_status(
+        'enemy', array[v_enemy.id], coalesce(v_intent.status, 'strength'), v_intent_value
+      );
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'buff', 'value', v_intent_value);
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'strength'), v_intent_value)
+      );
+
+    elsif v_intent_type = 'debuff' then
+      perform public._apply_status('player', array(
+        select pcs.id from public.player_combat_state pcs
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+          and (v_target is null or pcs.player_id = v_target)
+      ), coalesce(v_intent.status, 'weakened'), v_intent_value);
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'debuff', 'value', v_intent_value, 'targetPlayerId', v_target
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'player', p_target_id => v_target::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'weakened'), v_intent_value)
+      );
+    end if;
+
+    update public.enemy_combat_state
+    set intent_index = intent_index + 1
+    where id = v_enemy.id;
+
+    if not exists (
+      select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+    ) then
+      v_party_wiped := true;
+      exit;
+    end if;
+
+    if v_turn_number > 0 and v_turn_number % 4 = 0 then
+      update public.enemy_combat_state
+      set strength = strength + 1
+      where id = v_enemy.id;
+    end if;
+  end loop;
+
+  -- Enemy phase is over (status decay, regen), next player phase begins (poison)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_start');
+
+  -- Burn, thorns and poison may have pushed a boss past a threshold
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+
+  perform public._trigger_relics(p_room_id, v_screen_id, c.player_id, 'hp_below')
+  from public.characters c
+  where c.room_id = p_room_id and c.hp > 0
+  order by c.player_id;
+
+  -- Check party wipe
+  select not exists (
+    select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+  ) into v_party_wiped;
+
+  if v_party_wiped then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Check all enemies dead → victory
+  if not exists (
+    select 1 from public.enemy_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false
+  ) then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', false, 'victory', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Next turn
+  update public.combat_turns
+  set turn_number = v_turn_number + 1, phase = 'player', converged_player_ids = '{}'
+  where id = v_turn_id;
+
+  update public.player_turn_state
+  set actions_remaining = 0, has_ended_turn = false
+  where combat_turn_id = v_turn_id;
+
+  -- New turn: reset energy, block (keeping unabsorbed persistent block), refill the hand to 4.
+  -- Retained cards stay in hand and ethereal cards left in hand are exhausted.
+  for v_pcs in
+    select pcs.id, pcs.player_id, pcs.draw_pile, pcs.hand, pcs.discard_pile, pcs.max_energy, pcs.starting_block,
+           least(pcs.block, pcs.retained_block) as kept_block
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  loop
+    declare
+      v_split jsonb := public._end_turn_hand(v_pcs.hand);
+      v_new_discard jsonb := v_pcs.discard_pile || (v_split->'discard');
+      v_draw_count int := greatest(0, 4 - jsonb_array_length(v_split->'retain'));
+      v_draw_result jsonb;
+    begin
+      v_draw_result := public._draw_hand(
+        v_pcs.draw_pile, v_new_discard, v_draw_count, p_room_id, 'draw:' || v_pcs.player_id
+      );
+      update public.player_combat_state
+      set energy = v_pcs.max_energy,
+          block = v_pcs.starting_block + v_pcs.kept_block,
+          retained_block = v_pcs.kept_block,
+          hand = (v_split->'retain') || (v_draw_result->'hand'),
+          draw_pile = v_draw_result->'drawPile',
+          -- The discard is only shuffled in when the draw pile runs short
+          discard_pile = case
+            when jsonb_array_length(v_pcs.draw_pile) < v_draw_count then '[]'::jsonb
+            else v_new_discard
+          end,
+          exhaust_pile = exhaust_pile || (v_split->'exhaust')
+      where id = v_pcs.id;
+    end;
+  end loop;
+
+  perform public._trigger_relics(p_room_id, v_screen_id, pcs.player_id, 'turn_start')
+  from public.player_combat_state pcs
+  where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  order by pcs.player_id;
+
+  -- Intents advanced: pick next turn's targets
+  perform public._retarget_enemies(p_room_id, v_screen_id, true);
+
+  return jsonb_build_object('partyWiped', false, 'victory', false, 'turnNumber', v_turn_number + 1, 'attacks', v_attacks);
+end;
+$$;
+
+grant execute on function public.combat_enemy_phase(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_generate_rewards
+-- Unchanged from 021 except for relicChoices, rolled after the cards so card picks stay the same.
+-- ----------------------------
+
+create or replace function public.combat_generate_rewards(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_card_choices jsonb := '[]'::jsonb;
+  v_upgrade_choices jsonb := '[]'::jsonb;
+  v_card record;
+  v_player_id public.player_id;
+  v_stream text;
+  v_is_boss boolean;
+  v_relic_choices jsonb := '[]'::jsonb;
+  v_relic record;
+begin
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = auth.uid() and rp.is_bot = false
+  limit 1;
+  v_stream := 'rewards:' || coalesce(v_player_id::text, 'room');
+
+  -- Pick 3 random reward cards
+  for v_card in
+    select cd.id, cd.name, cd.trait, cd.description, cd.cost, cd.is_rare
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(select id from public.card_definitions where is_starter = false order by id),
+      3
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_card_choices := v_card_choices || jsonb_build_object(
+      'type', 'add_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'trait', v_card.trait,
+      'description', v_card.description,
+      'cost', v_card.cost,
+      'isRare', v_card.is_rare
+    );
+  end loop;
+
+  -- Pick 3 random upgradeable cards from player's deck
+  -- (simplified: just pick from starter deck)
+  for v_card in
+    select cd.id, cd.name, cd.upgrade_name, cd.upgrade_description
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(select id from public.card_definitions where upgrade_threshold < 99 order by id),
+      3
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_upgrade_choices := v_upgrade_choices || jsonb_build_object(
+      'type', 'upgrade_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'upgradeName', v_card.upgrade_name,
+      'upgradeDescription', v_card.upgrade_description
+    );
+  end loop;
+
+  -- One common relic after a fight, a pick of three boss relics after a boss
+  select s.screen_type = 'boss_fight' into v_is_boss
+  from public.combat_turns ct
+  join public.adventure_screens s on s.id = ct.screen_id
+  where ct.room_id = p_room_id
+  order by ct.created_at desc
+  limit 1;
+
+  for v_relic in
+    select rd.id, rd.name, rd.description, rd.icon, rd.rarity
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(
+        select rd.id from public.relic_definitions rd
+        where rd.rarity = case when coalesce(v_is_boss, false) then 'boss' else 'common' end
+          and not exists (
+            select 1 from public.characters c
+            where c.room_id = p_room_id and c.player_id = v_player_id and rd.id = any(c.relics)
+          )
+        order by rd.id
+      ),
+      case when coalesce(v_is_boss, false) then 3 else 1 end
+    )) with ordinality as pick(relic_id, ord)
+    join public.relic_definitions rd on rd.id = pick.relic_id
+    order by pick.ord
+  loop
+    v_relic_choices := v_relic_choices || jsonb_build_object(
+      'type', 'relic',
+      'id', v_relic.id,
+      'name', v_relic.name,
+      'description', v_relic.description,
+      'icon', v_relic.icon,
+      'rarity', v_relic.rarity
+    );
+  end loop;
+
+  return jsonb_build_object(
+    'cardChoices', v_card_choices,
+    'upgradeChoices', v_upgrade_choices,
+    'bonusChoices', jsonb_build_array(
+      jsonb_build_object('type', 'bonus', 'id', 'max-hp-10', 'name', '+10 Max HP', 'icon', '❤️'),
+      jsonb_build_object('type', 'bonus', 'id', 'heal-15', 'name', 'Heal 15 HP', 'icon', '🧪'),
+      jsonb_build_object('type', 'bonus', 'id', 'max-energy-1', 'name', '+1 Max Energy', 'icon', '⚡')
+    ),
+    'relicChoices', v_relic_choices
+  );
+end;
+$$;
+
+grant execute on function public.combat_generate_rewards(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_select_reward
+-- Unchanged from 014 except for the 'relic' reward type.
+-- ----------------------------
+
+create or replace function public.combat_select_reward(
+  p_room_id uuid,
+  p_reward_type text,  -- 'add_card', 'upgrade_card', 'bonus', 'relic'
+  p_reward_id text     -- card_id, bonus_id or relic_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_screen_id uuid;
+  v_pcs record;
+  v_card record;
+  v_new_card jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id;
+
+  select ct.screen_id into v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id;
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  if p_reward_type = 'add_card' then
+    -- Add card to player's deck (draw pile + discard)
+    select * into v_card from public.card_definitions where id = p_reward_id;
+    if v_card is null then
+      raise exception 'Card not found';
+    end if;
+    v_new_card := jsonb_build_object('cardId', p_reward_id, 'upgraded', false, 'usageCount', 0);
+    update public.player_combat_state
+    set discard_pile = discard_pile || jsonb_build_array(v_new_card)
+    where id = v_pcs.id;
+    return jsonb_build_object('applied', true, 'type', 'add_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'upgrade_card' then
+    -- Find and upgrade the card in deck zones
+    declare
+      v_zone text;
+      v_zones text[] := array['draw_pile', 'hand', 'discard_pile'];
+      v_arr jsonb;
+      v_i int;
+      v_found boolean := false;
+    begin
+      for v_zone in select unnest(v_zones) loop
+        v_arr := case v_zone
+          when 'draw_pile' then v_pcs.draw_pile
+          when 'hand' then v_pcs.hand
+          else v_pcs.discard_pile
+        end;
+        for v_i in 0..jsonb_array_length(v_arr) - 1 loop
+          if (v_arr->v_i->>'cardId') = p_reward_id and not coalesce((v_arr->v_i->>'upgraded')::boolean, false) then
+            v_arr := jsonb_set(v_arr, array[v_i::text, 'upgraded'], 'true'::jsonb);
+            v_found := true;
+            exit;
+          end if;
+        end loop;
+        if v_found then
+          execute format(
+            'update public.player_combat_state set %I = $1 where id = $2',
+            v_zone
+          ) using v_arr, v_pcs.id;
+          exit;
+        end if;
+      end loop;
+    end;
+    return jsonb_build_object('applied', true, 'type', 'upgrade_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'bonus' then
+    if p_reward_id = 'max-hp-10' then
+      update public.characters set hp_max = hp_max + 10, hp = hp + 10
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-hp-20' then
+      update public.characters set hp_max = hp_max + 20, hp = hp + 20
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-15' then
+      update public.characters set hp = least(hp_max, hp + 15)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-30' then
+      update public.characters set hp = least(hp_max, hp + 30)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-energy-1' then
+      update public.player_combat_state
+      set max_energy = max_energy + 1
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-5' then
+      update public.player_combat_state
+      set starting_block = starting_block + 5
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-10' then
+      update public.player_combat_state
+      set starting_block = starting_block + 10
+      where id = v_pcs.id;
+    elsif p_reward_id = 'free-first-reroll' then
+      update public.player_combat_state
+      set free_reroll = true
+      where id = v_pcs.id;
+    end if;
+    return jsonb_build_object('applied', true, 'type', 'bonus', 'bonusId', p_reward_id);
+
+  elsif p_reward_type = 'relic' then
+    if not exists (select 1 from public.relic_definitions where id = p_reward_id) then
+      raise exception 'Relic not found';
+    end if;
+    update public.characters
+    set relics = relics || p_reward_id
+    where room_id = p_room_id and player_id = v_player_id and not (p_reward_id = any(relics));
+    return jsonb_build_object('applied', true, 'type', 'relic', 'relicId', p_reward_id);
+  end if;
+
+  raise exception 'Unknown reward type: %', p_reward_type;
+end;
+$$;
+
+grant execute on function public.combat_select_reward(uuid, text, text) to authenticated;
+
+-- ----------------------------
+-- RPC: shop_buy_relic
+-- Only relics offered by the current shop; the price comes from relic_definitions.
+-- ----------------------------
+
+create or replace function public.shop_buy_relic(
+  p_room_id uuid,
+  p_relic_id text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_char record;
+  v_cost int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  select rd.shop_cost into v_cost
+  from public.relic_definitions rd
+  join public.rooms r on r.id = p_room_id
+  join public.adventure_screens s
+    on s.room_id = r.id and s.position = r.current_screen_position and s.screen_type = 'shop'
+  where rd.id = p_relic_id and s.config_json->'relics' ? rd.id;
+  if v_cost is null then
+    raise exception 'Relic not for sale here: %', p_relic_id;
+  end if;
+
+  select c.id, c.gold, c.relics into v_char
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = v_player_id;
+
+  if p_relic_id = any(v_char.relics) then
+    raise exception 'Relic already owned';
+  end if;
+
+  if v_char.gold < v_cost then
+    raise exception 'Not enough gold';
+  end if;
+
+  update public.characters
+  set gold = gold - v_cost, relics = relics || p_relic_id
+  where id = v_char.id;
+
+  return jsonb_build_object('relicId', p_relic_id, 'goldDelta', -v_cost);
+end;
+$$;
+
+grant execute on function public.shop_buy_relic(uuid, text) to authenticated;
+
+-- ----------------------------
+-- RPC: generate_adventure
+-- Unchanged from 021 except that shops offer relics.
+-- ----------------------------
+
+create or replace function public.generate_adventure(p_room_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing int;
+  v_position int := 0;
+  v_bloc int;
+  v_total_blocs int := 3;
+  v_screen_count int;
+  v_base_level int;
+  v_screen_type public.screen_type;
+  v_config jsonb;
+  i int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_room_member(p_room_id) then
+    raise exception 'Not a room member';
+  end if;
+
+  -- Don't re-generate
+  select count(*) into v_existing
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  for v_bloc in 1..v_total_blocs loop
+    v_base_level := 1 + (v_bloc - 1) * 3;
+
+    -- EARLY phase (bloc 1 only)
+    if v_bloc = 1 then
+      v_screen_count := public._rng_int(p_room_id, 'adventure', 1, 2);
+      for i in 1..v_screen_count loop
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+        values (
+          p_room_id, v_bloc, 'early', v_position, 'narrative_choice',
+          jsonb_build_object(
+            'prompt', 'You arrive at a crossroads...',
+            'options', jsonb_build_array(
+              jsonb_build_object('id', 'a', 'text', 'Take the safe path', 'effect', jsonb_build_object('hpDelta', 10)),
+              jsonb_build_object('id', 'b', 'text', 'Take the risky path', 'effect', jsonb_build_object('goldDelta', 20))
+            )
+          )
+        );
+        v_position := v_position + 1;
+      end loop;
+    end if;
+
+    -- CORE phase
+    v_screen_count := public._rng_int(p_room_id, 'adventure', 5, 6);
+    for i in 1..v_screen_count loop
+      v_screen_type := public._rng_core_screen_type(p_room_id);
+
+      if v_screen_type = 'combat' then
+        v_config := jsonb_build_object(
+          'enemyCount', public._rng_int(p_room_id, 'adventure', 2, 4),
+          'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+          'isBoss', false
+        );
+      elsif v_screen_type = 'narrative_choice' then
+        v_config := jsonb_build_object(
+          'prompt', 'A mysterious figure approaches...',
+          'options', jsonb_build_array(
+            jsonb_build_object('id', 'a', 'text', 'Help them', 'effect', jsonb_build_object('expDelta', 15)),
+            jsonb_build_object('id', 'b', 'text', 'Ignore them', 'effect', jsonb_build_object('goldDelta', 10)),
+            jsonb_build_object('id', 'c', 'text', 'Rob them', 'effect', jsonb_build_object('goldDelta', 30, 'hpDelta', -10))
+          )
+        );
+      else
+        -- puzzle
+        v_config := jsonb_build_object(
+          'puzzleId', 'riddle_' || v_bloc || '_' || i,
+          'timeLimit', 30,
+          'reward', jsonb_build_object('expDelta', 20, 'goldDelta', 15),
+          'penalty', jsonb_build_object('hpDelta', -15)
+        );
+      end if;
+
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (p_room_id, v_bloc, 'core', v_position, v_screen_type, v_config);
+      v_position := v_position + 1;
+    end loop;
+
+    -- RESOLVE phase
+    if v_bloc = v_total_blocs then
+      -- Final boss only
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'lich_commander'
+        )
+      );
+      v_position := v_position + 1;
+    else
+      -- Boss fight
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'forest_guardian'
+        )
+      );
+      v_position := v_position + 1;
+
+      -- Shop
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'shop',
+        jsonb_build_object(
+          'items', jsonb_build_array(
+            jsonb_build_object('id', 'potion_medium', 'name', 'potion_medium', 'cost', 20, 'effect', jsonb_build_object('hpDelta', 30)),
+            jsonb_build_object('id', 'elixir', 'name', 'elixir', 'cost', 40, 'effect', jsonb_build_object('expDelta', 50))
+          ),
+          'relics', public._shop_relic_offer(p_room_id)
+        )
+      );
+      v_position := v_position + 1;
+
+      -- Rest
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'rest',
+        jsonb_build_object('hpRestorePercent', 50)
+      );
+      v_position := v_position + 1;
+    end if;
+
+  end loop;
+
+  -- Set room to first screen
+  update public.rooms
+  set current_screen_position = 0, current_bloc = 1
+  where id = p_room_id;
+
+  return v_position;
+end;
+$$;
+
+grant execute on function public.generate_adventure(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: create_playtest
+-- Unchanged from 021 except that the shop offers relics.
+-- ----------------------------
+
+create or replace function public.create_playtest(
+  p_screen_type public.screen_type,
+  p_bloc int default 1,
+  p_display_name text default 'Tester',
+  p_role_id public.role_id default 'warrior',
+  p_enemy_count int default null,
+  p_bot_count int default 0,
+  p_seed bigint default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room_id uuid;
+  v_code text;
+  v_screen_id uuid;
+  v_base_level int;
+  v_config jsonb;
+  v_attempts int := 0;
+  v_trimmed_name text;
+  v_base_hp int;
+  v_bot_roles public.role_id[] := array['warrior', 'sage', 'ranger'];
+  v_bot_role public.role_id;
+  v_bot_hp int;
+  v_bot_names text[] := array['Aldric', 'Lyra', 'Thorne'];
+  v_bot_player_ids public.player_id[] := array['p2', 'p3'];
+  v_bot_index int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_trimmed_name := trim(coalesce(p_display_name, 'Tester'));
+  v_base_level := 1 + (p_bloc - 1) * 3;
+
+  -- Generate room code
+  loop
+    v_code := public.generate_room_code(6);
+    exit when not exists (select 1 from public.rooms r where r.code = v_code);
+    v_attempts := v_attempts + 1;
+    if v_attempts > 20 then
+      raise exception 'Could not generate a unique room code';
+    end if;
+  end loop;
+
+  -- Create room
+  insert into public.rooms (code, host_user_id, status, current_screen_position, current_bloc, seed)
+  values (
+    v_code, v_user_id, 'in_progress', 0, p_bloc,
+    coalesce(p_seed, floor(random() * 2147483647)::bigint)
+  )
+  returning id into v_room_id;
+
+  -- Create human player
+  insert into public.room_players (room_id, player_id, user_id, role_id, display_name, is_bot)
+  values (v_room_id, 'p1', v_user_id, p_role_id, v_trimmed_name, false);
+
+  v_base_hp := case p_role_id
+    when 'warrior' then 300
+    when 'ranger' then 250
+    when 'sage' then 200
+    else 250
+  end;
+
+  insert into public.characters (room_id, player_id, name, level, gold, exp, hp, hp_max)
+  values (v_room_id, 'p1', v_trimmed_name, 1, 50, 0, v_base_hp, v_base_hp);
+
+  -- Create bot players
+  for v_bot_index in 1..least(p_bot_count, 2) loop
+    -- Pick a role not already taken
+    v_bot_role := null;
+    for i in 1..array_length(v_bot_roles, 1) loop
+      if v_bot_roles[i] <> p_role_id then
+        -- Check not already used by another bot
+        if not exists (
+          select 1 from public.room_players rp
+          where rp.room_id = v_room_id and rp.role_id = v_bot_roles[i]
+        ) then
+          v_bot_role := v_bot_roles[i];
+          exit;
+        end if;
+      end if;
+    end loop;
+
+    if v_bot_role is null then
+      v_bot_role := 'warrior'; -- fallback
+    end if;
+
+    v_bot_hp := case v_bot_role
+      when 'warrior' then 60
+      when 'ranger' then 50
+      when 'sage' then 40
+      else 50
+    end;
+
+    insert into public.room_players (room_id, player_id, user_id, role_id, display_name, is_bot)
+    values (v_room_id, v_bot_player_ids[v_bot_index], v_user_id, v_bot_role, v_bot_names[v_bot_index], true);
+
+    insert into public.characters (room_id, player_id, name, level, gold, exp, hp, hp_max)
+    values (v_room_id, v_bot_player_ids[v_bot_index], v_bot_names[v_bot_index], 1, 50, 0, v_bot_hp, v_bot_hp);
+  end loop;
+
+  -- Build screen config
+  if p_screen_type in ('combat', 'boss_fight') then
+    v_config := jsonb_build_object(
+      'enemyCount', coalesce(p_enemy_count, case when p_screen_type = 'boss_fight' then 1 else public._rng_int(v_room_id, 'adventure', 2, 4) end),
+      'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+      'isBoss', p_screen_type = 'boss_fight',
+      'bossName', case when p_screen_type = 'boss_fight' then 'Test Boss Lv.' || (v_base_level + 4) else null end
+    );
+  elsif p_screen_type = 'narrative_choice' then
+    v_config := jsonb_build_object(
+      'prompt', 'A mysterious figure approaches... [PLAYTEST]',
+      'options', jsonb_build_array(
+        jsonb_build_object('id', 'a', 'text', 'Help them', 'effect', jsonb_build_object('expDelta', 15)),
+        jsonb_build_object('id', 'b', 'text', 'Ignore them', 'effect', jsonb_build_object('goldDelta', 10)),
+        jsonb_build_object('id', 'c', 'text', 'Rob them', 'effect', jsonb_build_object('goldDelta', 30, 'hpDelta', -10))
+      )
+    );
+  elsif p_screen_type = 'shop' then
+    v_config := jsonb_build_object(
+      'items', jsonb_build_array(
+        jsonb_build_object('id', 'potion', 'name', 'Health Potion', 'cost', 20, 'effect', jsonb_build_object('hpDelta', 30)),
+        jsonb_build_object('id', 'scroll', 'name', 'Scroll of Wisdom', 'cost', 25, 'effect', jsonb_build_object('expDelta', 30)),
+        jsonb_build_object('id', 'elixir', 'name', 'Power Elixir', 'cost', 50, 'effect', jsonb_build_object('hpDelta', 20, 'expDelta', 40))
+      ),
+      'relics', public._shop_relic_offer(v_room_id)
+    );
+  elsif p_screen_type = 'rest' then
+    v_config := jsonb_build_object('hpRestorePercent', 50);
+  elsif p_screen_type = 'puzzle' then
+    v_config := jsonb_build_object(
+      'puzzleId', 'test_riddle',
+      'timeLimit', 30,
+      'reward', jsonb_build_object('expDelta', 25, 'goldDelta', 15),
+      'penalty', jsonb_build_object('hpDelta', -15)
+    );
+  else
+    v_config := '{}'::jsonb;
+  end if;
+
+  -- Create adventure screen
+  insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+  values (v_room_id, p_bloc, 'core', 0, p_screen_type, v_config)
+  returning id into v_screen_id;
+
+  -- Seed enemies if combat/boss
+  if p_screen_type in ('combat', 'boss_fight') then
+    perform public.seed_enemies_for_screen(v_room_id, v_screen_id);
+  end if;
+
+  return v_room_id;
+end;
+$$;
+
+grant execute on function public.create_playtest(public.screen_type, int, text, public.role_id, int, int, bigint) to authenticated;
+
+commit;
\ No newline at end of file
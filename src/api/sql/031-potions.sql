@@ -0,0 +1,711 @@
+-- 031: Potion belt
+-- Consumables kept on characters.potions (at most characters.potion_slots) until drunk.
+-- potion_definitions is seeded from src/features/gameConfig/potions.ts by bin/generate-sql.ts
+-- (generated/potion-definitions.sql). Shops sell potions through shop_buy_potion instead of
+-- applying healing on purchase; combat_use_potion drinks one during the player phase without
+-- spending energy. Potion and relic effects share _apply_item_effects.
+
+begin;
+
+create table if not exists public.potion_definitions (
+  id text primary key,
+  position int not null default 0,
+  name text not null,
+  description text not null default '',
+  icon text not null default '',
+  effects jsonb not null default '[]'::jsonb,
+  shop_cost int not null
+);
+
+-- Ordered belt; the same potion can sit in several slots
+alter table public.characters
+  add column if not exists potions text[] not null default '{}',
+  add column if not exists potion_slots int not null default 3;
+
+-- ----------------------------
+-- Helper: resolve relic or potion effects for their owner
+-- Damage and apply_status hit every alive enemy, everything else lands on the owner.
+-- Events are logged with p_source (the relic or potion id).
+-- ----------------------------
+
+create or replace function public._apply_item_effects(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_effects jsonb,
+  p_source text
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_effect jsonb;
+  v_amount int;
+  v_enemy record;
+  v_draw_result jsonb;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+  if v_pcs is null then
+    return;
+  end if;
+
+  for v_effect in select value from jsonb_array_elements(p_effects)
+  loop
+    v_amount := (v_effect->>'amount')::int;
+    case v_effect->>'type'
+      when 'damage' then
+        for v_enemy in
+          select ecs.id, ecs.hp, ecs.block from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+        loop
+          declare v_remaining int := greatest(0, v_amount - v_enemy.block);
+          begin
+            perform public._log_combat_event(
+              p_room_id, p_screen_id, 'damage', 'player', p_player_id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => p_source,
+              p_raw_amount => v_amount, p_final_amount => least(v_enemy.hp, v_remaining)
+            );
+            update public.enemy_combat_state
+            set block = greatest(0, block - v_amount),
+                hp = greatest(0, hp - v_remaining),
+                is_dead = hp - v_remaining <= 0
+            where id = v_enemy.id;
+          end;
+        end loop;
+
+      when 'block' then
+        update public.player_combat_state
+        set block = block + public._frail_block(v_amount, v_pcs.frail)
+        where id = v_pcs.id;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'block', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_source => p_source,
+          p_raw_amount => v_amount, p_final_amount => public._frail_block(v_amount, v_pcs.frail)
+        );
+
+      when 'heal' then
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'heal', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_source => p_source,
+          p_raw_amount => v_amount,
+          p_final_amount => (
+            select greatest(0, least(v_amount, c.hp_max - c.hp)) from public.characters c
+            where c.room_id = p_room_id and c.player_id = p_player_id
+          )
+        );
+        update public.characters set hp = least(hp_max, hp + v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+
+      when 'apply_status' then
+        perform public._apply_status('enemy', array(
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+        ), v_effect->>'status', v_amount);
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'enemy', p_source => p_source,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'gain_status' then
+        perform public._apply_status('player', array[v_pcs.id], v_effect->>'status', v_amount);
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_source => p_source,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'draw' then
+        v_draw_result := public._draw_hand(
+          v_pcs.draw_pile, v_pcs.discard_pile, v_amount, p_room_id, 'draw:' || p_player_id
+        );
+        update public.player_combat_state
+        set hand = hand || (v_draw_result->'hand'),
+            draw_pile = v_draw_result->'drawPile',
+            -- _draw_hand only shuffles the discard in when the draw pile runs short
+            discard_pile = case
+              when jsonb_array_length(v_pcs.draw_pile) < v_amount then '[]'::jsonb
+              else discard_pile
+            end
+        where id = v_pcs.id;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'draw', 'player', p_player_id::text, p_source => p_source,
+          p_raw_amount => v_amount, p_final_amount => jsonb_array_length(v_draw_result->'hand')
+        );
+
+      when 'gain_energy' then
+        update public.player_combat_state set energy = energy + v_amount where id = v_pcs.id;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'energy', 'player', p_player_id::text, p_source => p_source,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      else
+        raise exception 'Unknown item effect: %', v_effect->>'type';
+    end case;
+  end loop;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: fire a player's relics for a hook
+-- Unchanged from 030 except that the effects go through _apply_item_effects.
+-- ----------------------------
+
+create or replace function public._trigger_relics(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_hook text,
+  p_trait text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_relics text[];
+  v_relic public.relic_definitions;
+  v_pcs record;
+  v_hp int;
+  v_hp_max int;
+  v_fired jsonb := '[]'::jsonb;
+begin
+  select c.relics into v_relics
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_player_id and c.hp > 0;
+
+  if coalesce(array_length(v_relics, 1), 0) = 0 then
+    return v_fired;
+  end if;
+
+  for v_relic in
+    select rd.* from public.relic_definitions rd
+    where rd.id = any(v_relics) and rd.hook = p_hook
+      and (rd.trait is null or rd.trait = p_trait)
+    order by rd.position
+  loop
+    select * into v_pcs
+    from public.player_combat_state
+    where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+    if v_pcs is null then
+      return v_fired;
+    end if;
+
+    if p_hook = 'hp_below' then
+      select c.hp, c.hp_max into v_hp, v_hp_max
+      from public.characters c
+      where c.room_id = p_room_id and c.player_id = p_player_id;
+      if v_hp * 100 >= v_hp_max * v_relic.hp_percent or v_relic.id = any(v_pcs.relics_fired) then
+        continue;
+      end if;
+      update public.player_combat_state
+      set relics_fired = relics_fired || v_relic.id
+      where id = v_pcs.id;
+    end if;
+
+    perform public._apply_item_effects(p_room_id, p_screen_id, p_player_id, v_relic.effects, v_relic.id);
+
+    v_fired := v_fired || to_jsonb(v_relic.id);
+  end loop;
+
+  return v_fired;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: potions offered by a shop
+-- Three potions, drawn from the 'adventure' stream.
+-- ----------------------------
+
+create or replace function public._shop_potion_offer(p_room_id uuid)
+returns jsonb
+language sql
+as $$
+  select to_jsonb(public._rng_sample(
+    p_room_id, 'adventure',
+    array(select pd.id from public.potion_definitions pd order by pd.id),
+    3
+  ));
+$$;
+
+-- ----------------------------
+-- RPC: combat_use_potion
+-- Drinks the potion in belt slot p_slot (0-based). Player phase only, costs no energy.
+-- ----------------------------
+
+create or replace function public.combat_use_potion(
+  p_room_id uuid,
+  p_slot int
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_char record;
+  v_potion public.potion_definitions;
+  v_potions text[];
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Player not in room';
+  end if;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player'
+  order by ct.turn_number desc limit 1;
+
+  if v_turn_id is null then
+    raise exception 'No active player phase';
+  end if;
+
+  perform 1 from public.player_turn_state pts
+  where pts.combat_turn_id = v_turn_id and pts.player_id = v_player_id and pts.has_ended_turn = false;
+  if not found then
+    raise exception 'Already ended turn';
+  end if;
+
+  select c.id, c.hp, c.potions into v_char
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = v_player_id
+  for update;
+
+  if v_char.hp <= 0 then
+    raise exception 'Player is dead';
+  end if;
+
+  if p_slot < 0 or p_slot >= coalesce(array_length(v_char.potions, 1), 0) then
+    raise exception 'No potion in slot %', p_slot;
+  end if;
+
+  select * into v_potion from public.potion_definitions where id = v_char.potions[p_slot + 1];
+  if v_potion is null then
+    raise exception 'Unknown potion: %', v_char.potions[p_slot + 1];
+  end if;
+
+  v_potions := v_char.potions[1:p_slot] || v_char.potions[p_slot + 2:];
+  update public.characters set potions = v_potions where id = v_char.id;
+
+  perform public._apply_item_effects(p_room_id, v_screen_id, v_player_id, v_potion.effects, v_potion.id);
+
+  -- Block and HP may have changed who the enemies are aiming at
+  perform public._retarget_enemies(p_room_id, v_screen_id);
+
+  return jsonb_build_object(
+    'potionId', v_potion.id,
+    'potionName', v_potion.name,
+    'slot', p_slot,
+    'potions', to_jsonb(v_potions)
+  );
+end;
+$$;
+
+grant execute on function public.combat_use_potion(uuid, int) to authenticated;
+
+-- ----------------------------
+-- RPC: shop_buy_potion
+-- Only potions offered by the current shop, and only while the belt has a free slot.
+-- ----------------------------
+
+create or replace function public.shop_buy_potion(
+  p_room_id uuid,
+  p_potion_id text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_char record;
+  v_cost int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  select pd.shop_cost into v_cost
+  from public.potion_definitions pd
+  join public.rooms r on r.id = p_room_id
+  join public.adventure_screens s
+    on s.room_id = r.id and s.position = r.current_screen_position and s.screen_type = 'shop'
+  where pd.id = p_potion_id and s.config_json->'potions' ? pd.id;
+  if v_cost is null then
+    raise exception 'Potion not for sale here: %', p_potion_id;
+  end if;
+
+  select c.id, c.gold, c.potions, c.potion_slots into v_char
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = v_player_id;
+
+  if coalesce(array_length(v_char.potions, 1), 0) >= v_char.potion_slots then
+    raise exception 'Potion belt is full';
+  end if;
+
+  if v_char.gold < v_cost then
+    raise exception 'Not enough gold';
+  end if;
+
+  update public.characters
+  set gold = gold - v_cost, potions = potions || p_potion_id
+  where id = v_char.id;
+
+  return jsonb_build_object('potionId', p_potion_id, 'goldDelta', -v_cost);
+end;
+$$;
+
+grant execute on function public.shop_buy_potion(uuid, text) to authenticated;
+
+-- ----------------------------
+-- RPC: generate_adventure
+-- Unchanged from 030 except that shops sell belt potions instead of an instant heal.
+-- ----------------------------
+
+create or replace function public.generate_adventure(p_room_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing int;
+  v_position int := 0;
+  v_bloc int;
+  v_total_blocs int := 3;
+  v_screen_count int;
+  v_base_level int;
+  v_screen_type public.screen_type;
+  v_config jsonb;
+  i int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_room_member(p_room_id) then
+    raise exception 'Not a room member';
+  end if;
+
+  -- Don't re-generate
+  select count(*) into v_existing
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  for v_bloc in 1..v_total_blocs loop
+    v_base_level := 1 + (v_bloc - 1) * 3;
+
+    -- EARLY phase (bloc 1 only)
+    if v_bloc = 1 then
+      v_screen_count := public._rng_int(p_room_id, 'adventure', 1, 2);
+      for i in 1..v_screen_count loop
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+        values (
+          p_room_id, v_bloc, 'early', v_position, 'narrative_choice',
+          jsonb_build_object(
+            'prompt', 'You arrive at a crossroads...',
+            'options', jsonb_build_array(
+              jsonb_build_object('id', 'a', 'text', 'Take the safe path', 'effect', jsonb_build_object('hpDelta', 10)),
+              jsonb_build_object('id', 'b', 'text', 'Take the risky path', 'effect', jsonb_build_object('goldDelta', 20))
+            )
+          )
+        );
+        v_position := v_position + 1;
+      end loop;
+    end if;
+
+    -- CORE phase
+    v_screen_count := public._rng_int(p_room_id, 'adventure', 5, 6);
+    for i in 1..v_screen_count loop
+      v_screen_type := public._rng_core_screen_type(p_room_id);
+
+      if v_screen_type = 'combat' then
+        v_config := jsonb_build_object(
+          'enemyCount', public._rng_int(p_room_id, 'adventure', 2, 4),
+          'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+          'isBoss', false
+        );
+      elsif v_screen_type = 'narrative_choice' then
+        v_config := jsonb_build_object(
+          'prompt', 'A mysterious figure approaches...',
+          'options', jsonb_build_array(
+            jsonb_build_object('id', 'a', 'text', 'Help them', 'effect', jsonb_build_object('expDelta', 15)),
+            jsonb_build_object('id', 'b', 'text', 'Ignore them', 'effect', jsonb_build_object('goldDelta', 10)),
+            jsonb_build_object('id', 'c', 'text', 'Rob them', 'effect', jsonb_build_object('goldDelta', 30, 'hpDelta', -10))
+          )
+        );
+      else
+        -- puzzle
+        v_config := jsonb_build_object(
+          'puzzleId', 'riddle_' || v_bloc || '_' || i,
+          'timeLimit', 30,
+          'reward', jsonb_build_object('expDelta', 20, 'goldDelta', 15),
+          'penalty', jsonb_build_object('hpDelta', -15)
+        );
+      end if;
+
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (p_room_id, v_bloc, 'core', v_position, v_screen_type, v_config);
+      v_position := v_position + 1;
+    end loop;
+
+    -- RESOLVE phase
+    if v_bloc = v_total_blocs then
+      -- Final boss only
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'lich_commander'
+        )
+      );
+      v_position := v_position + 1;
+    else
+      -- Boss fight
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'forest_guardian'
+        )
+      );
+      v_position := v_position + 1;
+
+      -- Shop
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'shop',
+        jsonb_build_object(
+          'items', jsonb_build_array(
+            jsonb_build_object('id', 'elixir', 'name', 'elixir', 'cost', 40, 'effect', jsonb_build_object('expDelta', 50))
+          ),
+          'potions', public._shop_potion_offer(p_room_id),
+          'relics', public._shop_relic_offer(p_room_id)
+        )
+      );
+      v_position := v_position + 1;
+
+      -- Rest
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'rest',
+        jsonb_build_object('hpRestorePercent', 50)
+      );
+      v_position := v_position + 1;
+    end if;
+
+  end loop;
+
+  -- Set room to first screen
+  update public.rooms
+  set current_screen_position = 0, current_bloc = 1
+  where id = p_room_id;
+
+  return v_position;
+end;
+$$;
+
+grant execute on function public.generate_adventure(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: create_playtest
+-- Unchanged from 030 except that the shop sells belt potions instead of an instant heal.
+-- ----------------------------
+
+create or replace function public.create_playtest(
+  p_screen_type public.screen_type,
+  p_bloc int default 1,
+  p_display_name text default 'Tester',
+  p_role_id public.role_id default 'warrior',
+  p_enemy_count int default null,
+  p_bot_count int default 0,
+  p_seed bigint default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room_id uuid;
+  v_code text;
+  v_screen_id uuid;
+  v_base_level int;
+  v_config jsonb;
+  v_attempts int := 0;
+  v_trimmed_name text;
+  v_base_hp int;
+  v_bot_roles public.role_id[] := array['warrior', 'sage', 'ranger'];
+  v_bot_role public.role_id;
+  v_bot_hp int;
+  v_bot_names text[] := array['Aldric', 'Lyra', 'Thorne'];
+  v_bot_player_ids public.player_id[] := array['p2', 'p3'];
+  v_bot_index int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_trimmed_name := trim(coalesce(p_display_name, 'Tester'));
+  v_base_level := 1 + (p_bloc - 1) * 3;
+
+  -- Generate room code
+  loop
+    v_code := public.generate_room_code(6);
+    exit when not exists (select 1 from public.rooms r where r.code = v_code);
+    v_attempts := v_attempts + 1;
+    if v_attempts > 20 then
+      raise exception 'Could not generate a unique room code';
+    end if;
+  end loop;
+
+  -- Create room
+  insert into public.rooms (code, host_user_id, status, current_screen_position, current_bloc, seed)
+  values (
+    v_code, v_user_id, 'in_progress', 0, p_bloc,
+    coalesce(p_seed, floor(random() * 2147483647)::bigint)
+  )
+  returning id into v_room_id;
+
+  -- Create human player
+  insert into public.room_players (room_id, player_id, user_id, role_id, display_name, is_bot)
+  values (v_room_id, 'p1', v_user_id, p_role_id, v_trimmed_name, false);
+
+  v_base_hp := case p_role_id
+    when 'warrior' then 300
+    when 'ranger' then 250
+    when 'sage' then 200
+    else 250
+  end;
+
+  insert into public.characters (room_id, player_id, name, level, gold, exp, hp, hp_max)
+  values (v_room_id, 'p1', v_trimmed_name, 1, 50, 0, v_base_hp, v_base_hp);
+
+  -- Create bot players
+  for v_bot_index in 1..least(p_bot_count, 2) loop
+    -- Pick a role not already taken
+    v_bot_role := null;
+    for i in 1..array_length(v_bot_roles, 1) loop
+      if v_bot_roles[i] <> p_role_id then
+        -- Check not already used by another bot
+        if not exists (
+          select 1 from public.room_players rp
+          where rp.room_id = v_room_id and rp.role_id = v_bot_roles[i]
+        ) then
+          v_bot_role := v_bot_roles[i];
+          exit;
+        end if;
+      end if;
+    end loop;
+
+    if v_bot_role is null then
+      v_bot_role := 'warrior'; -- fallback
+    end if;
+
+    v_bot_hp := case v_bot_role
+      when 'warrior' then 60
+      when 'ranger' then 50
+      when 'sage' then 40
+      else 50
+    end;
+
+    insert into public.room_players (room_id, player_id, user_id, role_id, display_name, is_bot)
+    values (v_room_id, v_bot_player_ids[v_bot_index], v_user_id, v_bot_role, v_bot_names[v_bot_index], true);
+
+    insert into public.characters (room_id, player_id, name, level, gold, exp, hp, hp_max)
+    values (v_room_id, v_bot_player_ids[v_bot_index], v_bot_names[v_bot_index], 1, 50, 0, v_bot_hp, v_bot_hp);
+  end loop;
+
+  -- Build screen config
+  if p_screen_type in ('combat', 'boss_fight') then
+    v_config := jsonb_build_object(
+      'enemyCount', coalesce(p_enemy_count, case when p_screen_type = 'boss_fight' then 1 else public._rng_int(v_room_id, 'adventure', 2, 4) end),
+      'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+      'isBoss', p_screen_type = 'boss_fight',
+      'bossName', case when p_screen_type = 'boss_fight' then 'Test Boss Lv.' || (v_base_level + 4) else null end
+    );
+  elsif p_screen_type = 'narrative_choice' then
+    v_config := jsonb_build_object(
+      'prompt', 'A mysterious figure approaches... [PLAYTEST]',
+      'options', jsonb_build_array(
+        jsonb_build_object('id', 'a', 'text', 'Help them', 'effect', jsonb_build_object('expDelta', 15)),
+        jsonb_build_object('id', 'b', 'text', 'Ignore them', 'effect', jsonb_build_object('goldDelta', 10)),
+        jsonb_build_object('id', 'c', 'text', 'Rob them', 'effect', jsonb_build_object('goldDelta', 30, 'hpDelta', -10))
+      )
+    );
+  elsif p_screen_type = 'shop' then
+    v_config := jsonb_build_object(
+      'items', jsonb_build_array(
+        jsonb_build_object('id', 'scroll', 'name', 'Scroll of Wisdom', 'cost', 25, 'effect', jsonb_build_object('expDelta', 30)),
+        jsonb_build_object('id', 'elixir', 'name', 'Power Elixir', 'cost', 50, 'effect', jsonb_build_object('hpDelta', 20, 'expDelta', 40))
+      ),
+      'potions', public._shop_potion_offer(v_room_id),
+      'relics', public._shop_relic_offer(v_room_id)
+    );
+  elsif p_screen_type = 'rest' then
+    v_config := jsonb_build_object('hpRestorePercent', 50);
+  elsif p_screen_type = 'puzzle' then
+    v_config := jsonb_build_object(
+      'puzzleId', 'test_riddle',
+      'timeLimit', 30,
+      'reward', jsonb_build_object('expDelta', 25, 'goldDelta', 15),
+      'penalty', jsonb_build_object('hpDelta', -15)
+    );
+  else
+    v_config := '{}'::jsonb;
+  end if;
+
+  -- Create adventure screen
+  insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+  values (v_room_id, p_bloc, 'core', 0, p_screen_type, v_config)
+  returning id into v_screen_id;
+
+  -- Seed enemies if combat/boss
+  if p_screen_type in ('combat', 'boss_fight') then
+    perform public.seed_enemies_for_screen(v_room_id, v_screen_id);
+  end if;
+
+  return v_room_id;
+end;
+$$;
+
+grant execute on function public.create_playtest(public.screen_type, int, text, public.role_id, int, int, bigint) to authenticated;
+
+commit;
\ No newline at end of file
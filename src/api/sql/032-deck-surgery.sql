@@ -0,0 +1,505 @@
+-- 032: Deck surgery
+-- Decks now persist across the run in characters.deck: seeded from the role's starters on the
+-- first combat, dealt by combat_init_turn and grown by card rewards. Shops sell deck operations
+-- (remove, transform into another card of the same school, duplicate) through
+-- shop_deck_operation at a price that rises with every purchase; rests let each player pick one
+-- for free instead of healing through rest_choose. deck_operations is seeded from
+-- src/features/gameConfig/deckOperations.ts by bin/generate-sql.ts (generated/deck-operations.sql).
+
+begin;
+
+create table if not exists public.deck_operations (
+  id text primary key, -- 'remove' | 'transform' | 'duplicate'
+  position int not null default 0,
+  icon text not null default '',
+  shop_cost int not null,
+  cost_step int not null -- added per deck operation already bought by the character
+);
+
+alter table public.characters
+  add column if not exists deck jsonb not null default '[]'::jsonb,
+  add column if not exists deck_ops_bought int not null default 0,
+  add column if not exists rested_screen_id uuid references public.adventure_screens(id) on delete set null;
+
+-- ----------------------------
+-- Helper: a character's run deck
+-- Seeds it from the role's starter cards the first time.
+-- ----------------------------
+
+create or replace function public._ensure_deck(
+  p_room_id uuid,
+  p_player_id public.player_id
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_deck jsonb;
+  v_role_id public.role_id;
+begin
+  select c.deck into v_deck
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_player_id;
+
+  if jsonb_array_length(coalesce(v_deck, '[]'::jsonb)) > 0 then
+    return v_deck;
+  end if;
+
+  select rp.role_id into v_role_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.player_id = p_player_id;
+
+  select jsonb_agg(
+    jsonb_build_object('cardId', cd.id, 'upgraded', false, 'usageCount', 0) order by cd.id
+  ) into v_deck
+  from public.card_definitions cd
+  where cd.is_starter = true and cd.starter_role = v_role_id;
+
+  -- Fallback: if no role-specific cards, use all starters
+  if v_deck is null or jsonb_array_length(v_deck) = 0 then
+    select jsonb_agg(
+      jsonb_build_object('cardId', cd.id, 'upgraded', false, 'usageCount', 0) order by cd.id
+    ) into v_deck
+    from public.card_definitions cd
+    where cd.is_starter = true;
+  end if;
+
+  update public.characters set deck = coalesce(v_deck, '[]'::jsonb)
+  where room_id = p_room_id and player_id = p_player_id;
+
+  return coalesce(v_deck, '[]'::jsonb);
+end;
+$$;
+
+-- ----------------------------
+-- Helper: apply a deck operation to a character's run deck
+-- Transform rolls from the 'deck:<player>' stream, so it never shifts draws or rewards.
+-- ----------------------------
+
+create or replace function public._apply_deck_operation(
+  p_room_id uuid,
+  p_player_id public.player_id,
+  p_operation text,
+  p_deck_index int
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_deck jsonb := public._ensure_deck(p_room_id, p_player_id);
+  v_card jsonb;
+  v_trait text;
+  v_new_card_id text;
+begin
+  if p_deck_index is null or p_deck_index < 0 or p_deck_index >= jsonb_array_length(v_deck) then
+    raise exception 'No card at deck index %', p_deck_index;
+  end if;
+  v_card := v_deck->p_deck_index;
+
+  if p_operation = 'remove' then
+    -- Keep at least a full opening hand
+    if jsonb_array_length(v_deck) <= 4 then
+      raise exception 'Deck is too small to remove a card';
+    end if;
+    v_deck := v_deck - p_deck_index;
+
+  elsif p_operation = 'transform' then
+    select cd.trait into v_trait from public.card_definitions cd where cd.id = v_card->>'cardId';
+    v_new_card_id := (public._rng_sample(
+      p_room_id, 'deck:' || p_player_id,
+      array(
+        select cd.id from public.card_definitions cd
+        where cd.trait = v_trait and cd.is_starter = false and cd.id <> v_card->>'cardId'
+          and not ('unplayable' = any(cd.keywords))
+        order by cd.id
+      ),
+      1
+    ))[1];
+    if v_new_card_id is null then
+      raise exception 'Nothing to transform % into', v_card->>'cardId';
+    end if;
+    v_deck := jsonb_set(
+      v_deck, array[p_deck_index::text],
+      jsonb_build_object('cardId', v_new_card_id, 'upgraded', false, 'usageCount', 0)
+    );
+
+  elsif p_operation = 'duplicate' then
+    v_deck := v_deck || jsonb_build_array(jsonb_set(v_card, '{usageCount}', '0'::jsonb));
+
+  else
+    raise exception 'Unknown deck operation: %', p_operation;
+  end if;
+
+  update public.characters set deck = v_deck
+  where room_id = p_room_id and player_id = p_player_id;
+
+  return jsonb_build_object(
+    'operation', p_operation,
+    'cardId', v_card->>'cardId',
+    'newCardId', v_new_card_id,
+    'deckSize', jsonb_array_length(v_deck)
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_init_turn
+-- Unchanged from 030 except that every combat is dealt from characters.deck.
+-- ----------------------------
+
+create or replace function public.combat_init_turn(
+  p_room_id uuid,
+  p_screen_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_turn_id uuid;
+  v_player record;
+  v_deck jsonb;
+  v_draw_result jsonb;
+  v_innate jsonb;
+  v_trait_charges jsonb;
+begin
+  if exists (select 1 from public.combat_turns where room_id = p_room_id and screen_id = p_screen_id) then
+    return;
+  end if;
+
+  insert into public.combat_turns (room_id, screen_id, turn_number, phase)
+  values (p_room_id, p_screen_id, 1, 'player')
+  returning id into v_turn_id;
+
+  for v_player in
+    select rp.player_id, rp.role_id
+    from public.room_players rp
+    where rp.room_id = p_room_id
+  loop
+    insert into public.player_turn_state (combat_turn_id, player_id, actions_remaining, has_ended_turn)
+    values (v_turn_id, v_player.player_id, 0, false);
+
+    -- Deal from the run deck (starters on the first combat)
+    v_deck := public._ensure_deck(p_room_id, v_player.player_id);
+
+    -- Build trait_charges based on role (4 schools per role)
+    v_trait_charges := case v_player.role_id
+      when 'warrior' then '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+      when 'sage' then '{"fire":0,"frost":0,"storm":0,"arcane":0}'::jsonb
+      when 'ranger' then '{"shadow":0,"nature":0,"precision":0,"venom":0}'::jsonb
+      else '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+    end;
+
+    -- Innate cards are always in the opening hand; the rest of the hand is drawn
+    select coalesce(jsonb_agg(c.value), '[]'::jsonb) into v_innate
+    from jsonb_array_elements(v_deck) c
+    where public._card_has_keyword(c.value->>'cardId', 'innate');
+
+    v_draw_result := public._draw_hand(
+      (
+        select coalesce(jsonb_agg(c.value), '[]'::jsonb)
+        from jsonb_array_elements(v_deck) c
+        where not public._card_has_keyword(c.value->>'cardId', 'innate')
+      ),
+      '[]'::jsonb,
+      greatest(0, 4 - jsonb_array_length(v_innate)),
+      p_room_id,
+      'draw:' || v_player.player_id
+    );
+
+    insert into public.player_combat_state (
+      room_id, screen_id, player_id, identity_id,
+      draw_pile, hand, discard_pile,
+      energy, max_energy, block,
+      trait_charges, attune_charges
+    ) values (
+      p_room_id, p_screen_id, v_player.player_id, coalesce(v_player.role_id, 'warrior'),
+      v_draw_result->'drawPile', v_innate || (v_draw_result->'hand'), '[]'::jsonb,
+      3, 3, 0,
+      v_trait_charges,
+      0
+    )
+    on conflict (room_id, screen_id, player_id) do nothing;
+  end loop;
+
+  update public.characters set taunt_turns_left = 0 where room_id = p_room_id;
+
+  perform public._trigger_relics(p_room_id, p_screen_id, rp.player_id, 'combat_start')
+  from public.room_players rp
+  where rp.room_id = p_room_id
+  order by rp.player_id;
+
+  perform public._retarget_enemies(p_room_id, p_screen_id, true);
+end;
+$$;
+
+grant execute on function public.combat_init_turn(uuid, uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_select_reward
+-- Unchanged from 030 except that card rewards go to characters.deck.
+-- ----------------------------
+
+create or replace function public.combat_select_reward(
+  p_room_id uuid,
+  p_reward_type text,  -- 'add_card', 'upgrade_card', 'bonus', 'relic'
+  p_reward_id text     -- card_id, bonus_id or relic_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_screen_id uuid;
+  v_pcs record;
+  v_card record;
+  v_new_card jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id;
+
+  select ct.screen_id into v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id;
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  if p_reward_type = 'add_card' then
+    -- Add card to player's deck (draw pile + discard)
+    select * into v_card from public.card_definitions where id = p_reward_id;
+    if v_card is null then
+      raise exception 'Card not found';
+    end if;
+    v_new_card := jsonb_build_object('cardId', p_reward_id, 'upgraded', false, 'usageCount', 0);
+    update public.characters
+    set deck = public._ensure_deck(p_room_id, v_player_id) || jsonb_build_array(v_new_card)
+    where room_id = p_room_id and player_id = v_player_id;
+    return jsonb_build_object('applied', true, 'type', 'add_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'upgrade_card' then
+    -- Upgrade the first copy of the card in the run deck
+    declare
+      v_deck jsonb := public._ensure_deck(p_room_id, v_player_id);
+      v_i int;
+    begin
+      for v_i in 0..jsonb_array_length(v_deck) - 1 loop
+        if (v_deck->v_i->>'cardId') = p_reward_id and not coalesce((v_deck->v_i->>'upgraded')::boolean, false) then
+          update public.characters
+          set deck = jsonb_set(v_deck, array[v_i::text, 'upgraded'], 'true'::jsonb)
+          where room_id = p_room_id and player_id = v_player_id;
+          exit;
+        end if;
+      end loop;
+    end;
+    return jsonb_build_object('applied', true, 'type', 'upgrade_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'bonus' then
+    if p_reward_id = 'max-hp-10' then
+      update public.characters set hp_max = hp_max + 10, hp = hp + 10
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-hp-20' then
+      update public.characters set hp_max = hp_max + 20, hp = hp + 20
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-15' then
+      update public.characters set hp = least(hp_max, hp + 15)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-30' then
+      update public.characters set hp = least(hp_max, hp + 30)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-energy-1' then
+      update public.player_combat_state
+      set max_energy = max_energy + 1
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-5' then
+      update public.player_combat_state
+      set starting_block = starting_block + 5
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-10' then
+      update public.player_combat_state
+      set starting_block = starting_block + 10
+      where id = v_pcs.id;
+    elsif p_reward_id = 'free-first-reroll' then
+      update public.player_combat_state
+      set free_reroll = true
+      where id = v_pcs.id;
+    end if;
+    return jsonb_build_object('applied', true, 'type', 'bonus', 'bonusId', p_reward_id);
+
+  elsif p_reward_type = 'relic' then
+    if not exists (select 1 from public.relic_definitions where id = p_reward_id) then
+      raise exception 'Relic not found';
+    end if;
+    update public.characters
+    set relics = relics || p_reward_id
+    where room_id = p_room_id and player_id = v_player_id and not (p_reward_id = any(relics));
+    return jsonb_build_object('applied', true, 'type', 'relic', 'relicId', p_reward_id);
+  end if;
+
+  raise exception 'Unknown reward type: %', p_reward_type;
+end;
+$$;
+
+grant execute on function public.combat_select_reward(uuid, text, text) to authenticated;
+
+-- ----------------------------
+-- RPC: shop_deck_operation
+-- Price is shop_cost + cost_step for every deck operation the character already bought.
+-- ----------------------------
+
+create or replace function public.shop_deck_operation(
+  p_room_id uuid,
+  p_operation text,
+  p_deck_index int
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_char record;
+  v_cost int;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  perform 1
+  from public.rooms r
+  join public.adventure_screens s
+    on s.room_id = r.id and s.position = r.current_screen_position and s.screen_type = 'shop'
+  where r.id = p_room_id;
+  if not found then
+    raise exception 'Not in a shop';
+  end if;
+
+  select c.id, c.gold, c.deck_ops_bought into v_char
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = v_player_id
+  for update;
+
+  select dop.shop_cost + dop.cost_step * v_char.deck_ops_bought into v_cost
+  from public.deck_operations dop
+  where dop.id = p_operation;
+  if v_cost is null then
+    raise exception 'Unknown deck operation: %', p_operation;
+  end if;
+
+  if v_char.gold < v_cost then
+    raise exception 'Not enough gold';
+  end if;
+
+  v_result := public._apply_deck_operation(p_room_id, v_player_id, p_operation, p_deck_index);
+
+  update public.characters
+  set gold = gold - v_cost, deck_ops_bought = deck_ops_bought + 1
+  where id = v_char.id;
+
+  return v_result || jsonb_build_object('goldDelta', -v_cost);
+end;
+$$;
+
+grant execute on function public.shop_deck_operation(uuid, text, int) to authenticated;
+
+-- ----------------------------
+-- RPC: rest_choose
+-- Each player either heals (p_choice = 'heal') or applies one free deck operation, once per rest.
+-- Bots that haven't rested yet always heal.
+-- ----------------------------
+
+create or replace function public.rest_choose(
+  p_room_id uuid,
+  p_choice text,
+  p_deck_index int default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_screen record;
+  v_char record;
+  v_restore_percent int;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  select s.id, s.config_json into v_screen
+  from public.rooms r
+  join public.adventure_screens s
+    on s.room_id = r.id and s.position = r.current_screen_position and s.screen_type = 'rest'
+  where r.id = p_room_id;
+  if v_screen.id is null then
+    raise exception 'Not at a rest';
+  end if;
+  v_restore_percent := coalesce((v_screen.config_json->>'hpRestorePercent')::int, 50);
+
+  select c.id, c.rested_screen_id into v_char
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = v_player_id
+  for update;
+
+  if v_char.rested_screen_id is not distinct from v_screen.id then
+    raise exception 'Already rested here';
+  end if;
+
+  if p_choice = 'heal' then
+    update public.characters
+    set hp = least(hp_max, hp + greatest(1, (hp_max * v_restore_percent) / 100))
+    where id = v_char.id and hp > 0;
+    v_result := jsonb_build_object('operation', 'heal');
+  else
+    v_result := public._apply_deck_operation(p_room_id, v_player_id, p_choice, p_deck_index);
+  end if;
+
+  update public.characters set rested_screen_id = v_screen.id where id = v_char.id;
+
+  update public.characters c
+  set hp = case when c.hp > 0 then least(c.hp_max, c.hp + greatest(1, (c.hp_max * v_restore_percent) / 100)) else c.hp end,
+      rested_screen_id = v_screen.id
+  from public.room_players rp
+  where rp.room_id = c.room_id and rp.player_id = c.player_id and rp.is_bot = true
+    and c.room_id = p_room_id and c.rested_screen_id is distinct from v_screen.id;
+
+  return v_result;
+end;
+$$;
+
+grant execute on function public.rest_choose(uuid, text, int) to authenticated;
+
+commit;
\ No newline at end of file
@@ -0,0 +1,338 @@
+-- 033: Turn timer
+-- Rooms can cap the player phase with a timer (rooms.turn_seconds, set by the host in the lobby
+-- through set_room_turn_timer). Every player phase gets a deadline on combat_turns.phase_deadline,
+-- stamped by a trigger so combat_init_turn and combat_enemy_phase need no change. Once it has
+-- passed, _expire_player_phase ends the turn of everyone still thinking and moves to the enemy
+-- phase. It runs from combat_expire_phase, which any member's client calls when its countdown
+-- hits zero, and from a pg_cron sweep when the extension is installed, so a phase still ends
+-- while the host's device sleeps. With rooms.bot_takeover_after set, a player who times out that
+-- many turns in a row is handed to the bot (room_players.bot_takeover) until they reclaim control
+-- through combat_reclaim_control.
+
+begin;
+
+alter table public.rooms
+  add column if not exists turn_seconds int check (turn_seconds between 15 and 600), -- null = no timer
+  add column if not exists bot_takeover_after int check (bot_takeover_after > 0); -- null = never
+
+alter table public.combat_turns
+  add column if not exists phase_deadline timestamptz; -- null outside a timed player phase
+
+alter table public.room_players
+  add column if not exists missed_turns int not null default 0, -- consecutive timed-out turns
+  add column if not exists bot_takeover boolean not null default false; -- human seat played by the bot
+
+-- ----------------------------
+-- Trigger: stamp the deadline of every new player phase
+-- Covers the first turn (combat_init_turn) and every later one (combat_enemy_phase).
+-- ----------------------------
+
+create or replace function public._set_phase_deadline()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_turn_seconds int;
+begin
+  if new.phase <> 'player' then
+    new.phase_deadline := null;
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and old.phase = 'player' and old.turn_number = new.turn_number then
+    return new;
+  end if;
+
+  select r.turn_seconds into v_turn_seconds from public.rooms r where r.id = new.room_id;
+
+  new.phase_deadline := case
+    when v_turn_seconds is null then null
+    else now() + make_interval(secs => v_turn_seconds)
+  end;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_combat_turns_phase_deadline on public.combat_turns;
+create trigger trg_combat_turns_phase_deadline
+before insert or update of phase, turn_number on public.combat_turns
+for each row
+execute function public._set_phase_deadline();
+
+-- ----------------------------
+-- Helper: end an expired player phase
+-- Ends the turn of every alive player who hasn't, counts the miss and hands repeat offenders to the
+-- bot. Returns whether the phase moved to the enemy phase.
+-- ----------------------------
+
+create or replace function public._expire_player_phase(p_room_id uuid)
+returns boolean
+language plpgsql
+as $$
+declare
+  v_turn record;
+  v_takeover_after int;
+  v_player record;
+begin
+  select ct.id, ct.screen_id into v_turn
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player' and ct.phase_deadline <= now()
+  for update;
+
+  if v_turn.id is null then
+    return false;
+  end if;
+
+  select r.bot_takeover_after into v_takeover_after from public.rooms r where r.id = p_room_id;
+
+  for v_player in
+    select pts.player_id, rp.is_bot, rp.missed_turns
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    join public.room_players rp on rp.room_id = p_room_id and rp.player_id = pts.player_id
+    where pts.combat_turn_id = v_turn.id and pts.has_ended_turn = false and c.hp > 0
+    order by pts.player_id
+  loop
+    update public.player_turn_state set has_ended_turn = true
+    where combat_turn_id = v_turn.id and player_id = v_player.player_id;
+
+    -- Bots only miss the deadline when the host isn't there to run them
+    continue when v_player.is_bot;
+
+    perform public._log_combat_event(
+      p_room_id, v_turn.screen_id, 'timeout', 'player', v_player.player_id::text,
+      p_final_amount => v_player.missed_turns + 1
+    );
+
+    if v_takeover_after is not null and v_player.missed_turns + 1 >= v_takeover_after then
+      update public.room_players
+      set missed_turns = 0, is_bot = true, bot_takeover = true
+      where room_id = p_room_id and player_id = v_player.player_id;
+
+      perform public._log_combat_event(
+        p_room_id, v_turn.screen_id, 'bot_takeover', 'player', v_player.player_id::text
+      );
+    else
+      update public.room_players set missed_turns = missed_turns + 1
+      where room_id = p_room_id and player_id = v_player.player_id;
+    end if;
+  end loop;
+
+  update public.combat_turns set phase = 'enemy' where id = v_turn.id;
+  return true;
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_expire_phase
+-- Called by every client when its countdown runs out; the server clock decides.
+-- ----------------------------
+
+create or replace function public.combat_expire_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_room_member(p_room_id) then
+    raise exception 'Not a room member';
+  end if;
+
+  return jsonb_build_object('expired', public._expire_player_phase(p_room_id));
+end;
+$$;
+
+grant execute on function public.combat_expire_phase(uuid) to authenticated;
+
+-- ----------------------------
+-- Job: expire every overdue player phase
+-- Scheduled with pg_cron when the extension is installed.
+-- ----------------------------
+
+create or replace function public._expire_player_phases()
+returns int
+language plpgsql
+as $$
+declare
+  v_room_id uuid;
+  v_expired int := 0;
+begin
+  for v_room_id in
+    select ct.room_id from public.combat_turns ct
+    where ct.phase = 'player' and ct.phase_deadline <= now()
+  loop
+    if public._expire_player_phase(v_room_id) then
+      v_expired := v_expired + 1;
+    end if;
+  end loop;
+  return v_expired;
+end;
+$$;
+
+-- Every minute, even while no client is awake. pg_cron is a deploy prerequisite: this fails
+-- loudly where it can't be installed instead of leaving phases unswept.
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'expire-player-phases', '* * * * *', 'select public._expire_player_phases()'
+);
+
+-- ----------------------------
+-- RPC: set_room_turn_timer
+-- Host only, in the lobby. Null turn seconds turn the timer off, null takeover never hands seats over.
+-- ----------------------------
+
+create or replace function public.set_room_turn_timer(
+  p_room_id uuid,
+  p_turn_seconds int default null,
+  p_bot_takeover_after int default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id, r.status into v_room from public.rooms r where r.id = p_room_id;
+
+  if v_room.host_user_id is distinct from v_user_id then
+    raise exception 'Only host can change the turn timer';
+  end if;
+
+  if v_room.status <> 'lobby' then
+    raise exception 'Turn timer can only be changed in the lobby';
+  end if;
+
+  if p_turn_seconds is not null and p_turn_seconds not between 15 and 600 then
+    raise exception 'Turn timer must be between 15 and 600 seconds';
+  end if;
+
+  if p_bot_takeover_after is not null and p_bot_takeover_after < 1 then
+    raise exception 'Bot takeover needs at least one missed turn';
+  end if;
+
+  update public.rooms
+  set turn_seconds = p_turn_seconds,
+      bot_takeover_after = case when p_turn_seconds is null then null else p_bot_takeover_after end
+  where id = p_room_id;
+end;
+$$;
+
+grant execute on function public.set_room_turn_timer(uuid, int, int) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_reclaim_control
+-- Hands a seat taken over by the bot back to its player. Takes effect from their next action.
+-- ----------------------------
+
+create or replace function public.combat_reclaim_control(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  update public.room_players
+  set is_bot = false, bot_takeover = false, missed_turns = 0
+  where room_id = p_room_id and user_id = v_user_id and bot_takeover = true
+  returning player_id into v_player_id;
+
+  if v_player_id is null then
+    raise exception 'No seat to reclaim';
+  end if;
+
+  return jsonb_build_object('playerId', v_player_id);
+end;
+$$;
+
+grant execute on function public.combat_reclaim_control(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_end_turn
+-- Unchanged from 011 except seats played by the bot are skipped and the missed-turn streak resets.
+-- ----------------------------
+
+create or replace function public.combat_end_turn(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_all_ended boolean;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  select ct.id into v_turn_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  -- Mark this player as ended
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = v_player_id;
+
+  -- Ending in time breaks the timed-out streak
+  update public.room_players set missed_turns = 0
+  where room_id = p_room_id and player_id = v_player_id;
+
+  -- Check if all alive players have ended
+  select not exists (
+    select 1
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    where pts.combat_turn_id = v_turn_id
+      and pts.has_ended_turn = false
+      and c.hp > 0
+  ) into v_all_ended;
+
+  if v_all_ended then
+    update public.combat_turns
+    set phase = 'enemy'
+    where id = v_turn_id;
+  end if;
+
+  return jsonb_build_object('allReady', v_all_ended);
+end;
+$$;
+
+grant execute on function public.combat_end_turn(uuid) to authenticated;
+
+commit;
@@ -0,0 +1,684 @@
+-- 034: Server-driven enemy phase
+-- The enemy phase no longer waits for the host to call combat_enemy_phase. _end_player_phase
+-- moves a turn to the enemy phase and resolves it in the same transaction, from whichever call
+-- ends the player phase: the last combat_end_turn, the last combat_bot_turn or an expired turn
+-- timer. The resolution itself is the former RPC, now the internal _resolve_enemy_phase. Clients
+-- replay the attacks from the enemy-phase entries of combat_events. A pg_cron sweep resolves any
+-- turn still left in the enemy phase (e.g. rooms mid-fight when this migration runs).
+
+begin;
+
+drop function if exists public.combat_enemy_phase(uuid);
+
+-- ----------------------------
+-- Helper: resolve the enemy phase
+-- Unchanged from combat_enemy_phase in 030 except it is internal and needs no caller.
+-- ----------------------------
+
+create or replace function public._resolve_enemy_phase(p_room_id uuid)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_turn_number int;
+  v_enemy record;
+  v_template record;
+  v_pcs record;
+  v_attacks jsonb := '[]'::jsonb;
+  v_party_wiped boolean := false;
+  v_intent_idx int;
+  v_intent_type text;
+  v_intent_value int;
+  v_intent_hits int;
+  v_raw_damage int;
+  v_actual_damage int;
+  v_blocked int;
+  v_target public.player_id;
+  v_intent public.enemy_intents;
+begin
+  select ct.id, ct.screen_id, ct.turn_number into v_turn_id, v_screen_id, v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'enemy';
+
+  if v_turn_id is null then
+    raise exception 'Not in enemy phase';
+  end if;
+
+  -- Player phase is over, enemy phase begins (burn)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_start');
+
+  -- Reset enemy block
+  update public.enemy_combat_state set block = 0
+  where room_id = p_room_id and screen_id = v_screen_id and is_dead = false;
+
+  -- Each alive enemy acts based on intent pattern
+  for v_enemy in
+    select ecs.* from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    order by ecs.position asc
+  loop
+    -- Stunned enemies lose their action and keep their intent for next turn
+    if v_enemy.stun > 0 then
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'stunned');
+      continue;
+    end if;
+
+    -- Current intent from the pattern of the enemy's phase (cycling)
+    v_intent_idx := public._enemy_intent_code(v_enemy.template_id, v_enemy.phase, v_enemy.intent_index);
+
+    -- Resolve the intent from the catalog (with template overrides)
+    v_intent := public._enemy_intent(v_enemy.template_id, v_intent_idx);
+    v_intent_type := v_intent.type;
+    v_intent_value := v_intent.value;
+    v_intent_hits := greatest(1, v_intent.hits);
+
+    -- A target killed earlier this phase is replaced by a random survivor
+    v_target := v_enemy.target_player_id;
+    if v_target is not null and not exists (
+      select 1 from public.characters c
+      where c.room_id = p_room_id and c.player_id = v_target and c.hp > 0
+    ) then
+      v_target := (public._rng_sample(p_room_id, 'enemy-targets', array(
+        select c.player_id::text from public.characters c
+        join public.player_combat_state pcs
+          on pcs.room_id = c.room_id and pcs.player_id = c.player_id and pcs.screen_id = v_screen_id
+        where c.room_id = p_room_id and c.hp > 0
+        order by c.player_id
+      ), 1))[1]::public.player_id;
+    end if;
+
+    -- Execute intent (null target = whole party)
+    if v_intent_type in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+      for v_pcs in
+        select pcs.id, pcs.player_id, pcs.block, pcs.vulnerable, pcs.thorns
+        from public.player_combat_state pcs
+        join public.characters c on c.room_id = p_room_id and c.player_id = pcs.player_id
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and c.hp > 0
+          and (v_target is null or pcs.player_id = v_target)
+      loop
+        declare
+          v_hit int;
+          v_total_dmg int := 0;
+          v_total_raw int := 0;
+          v_thorns_dealt int := 0;
+          v_current_block int := v_pcs.block;
+          v_player_hp int;
+        begin
+          select c.hp into v_player_hp
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_pcs.player_id;
+
+          for v_hit in 1..v_intent_hits loop
+            if v_player_hp <= 0 then exit; end if;
+
+            v_raw_damage := public._enemy_attack_damage(
+              v_intent_value, v_enemy.strength - v_enemy.strength_down, v_enemy.weakened, v_pcs.vulnerable
+            );
+
+            v_total_raw := v_total_raw + v_raw_damage;
+            v_actual_damage := v_raw_damage;
+            if v_current_block > 0 then
+              v_blocked := least(v_current_block, v_actual_damage);
+              v_actual_damage := v_actual_damage - v_blocked;
+              v_current_block := v_current_block - v_blocked;
+            end if;
+
+            if v_actual_damage > 0 then
+              v_actual_damage := least(v_actual_damage, v_player_hp);
+              update public.characters
+              set hp = greatest(0, hp - v_actual_damage)
+              where room_id = p_room_id and player_id = v_pcs.player_id;
+              v_player_hp := v_player_hp - v_actual_damage;
+            end if;
+
+            v_total_dmg := v_total_dmg + v_actual_damage;
+
+            if v_pcs.thorns > 0 and v_raw_damage > 0 then
+              v_thorns_dealt := v_thorns_dealt + v_pcs.thorns;
+              update public.enemy_combat_state
+              set hp = greatest(0, hp - v_pcs.thorns)
+              where id = v_enemy.id;
+              if (select hp from public.enemy_combat_state where id = v_enemy.id) <= 0 then
+                update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+              end if;
+            end if;
+          end loop;
+
+          update public.player_combat_state set block = v_current_block where id = v_pcs.id;
+
+          perform public._log_combat_event(
+            p_room_id, v_screen_id, 'damage', 'enemy', v_enemy.id::text,
+            p_target_type => 'player', p_target_id => v_pcs.player_id::text,
+            p_source => v_intent_type, p_raw_amount => v_total_raw, p_final_amount => v_total_dmg
+          );
+
+          if v_thorns_dealt > 0 then
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'damage', 'player', v_pcs.player_id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'thorns',
+              p_raw_amount => v_thorns_dealt, p_final_amount => v_thorns_dealt
+            );
+          end if;
+
+          if v_intent_type = 'lifesteal' and v_total_dmg > 0 then
+            update public.enemy_combat_state
+            set hp = least(hp_max, hp + (v_total_dmg / 2))
+            where id = v_enemy.id;
+            perform public._log_combat_event(
+              p_room_id, v_screen_id, 'heal', 'enemy', v_enemy.id::text,
+              p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'lifesteal',
+              p_raw_amount => v_total_dmg / 2, p_final_amount => v_total_dmg / 2
+            );
+          end if;
+
+          v_attacks := v_attacks || jsonb_build_object(
+            'enemyId', v_enemy.id, 'enemyName', v_enemy.name,
+            'targetPlayerId', v_pcs.player_id,
+            'type', v_intent_type,
+            'damage', v_total_dmg,
+            'hits', v_intent_hits
+          );
+        end;
+      end loop;
+
+    elsif v_intent_type = 'defend' then
+      update public.enemy_combat_state
+      set block = block + public._frail_block(v_intent_value, v_enemy.frail)
+      where id = v_enemy.id;
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'defend', 'value', public._frail_block(v_intent_value, v_enemy.frail)
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'block', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_raw_amount => v_intent_value, p_final_amount => public._frail_block(v_intent_value, v_enemy.frail)
+      );
+
+    elsif v_intent_type = 'buff' then
+      perform public._apply_status(
+        'enemy', array[v_enemy.id], coalesce(v_intent.status, 'strength'), v_intent_value
+      );
+      v_attacks := v_attacks || jsonb_build_object('enemyId', v_enemy.id, 'type', 'buff', 'value', v_intent_value);
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'strength'), v_intent_value)
+      );
+
+    elsif v_intent_type = 'debuff' then
+      perform public._apply_status('player', array(
+        select pcs.id from public.player_combat_state pcs
+        where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+          and (v_target is null or pcs.player_id = v_target)
+      ), coalesce(v_intent.status, 'weakened'), v_intent_value);
+      v_attacks := v_attacks || jsonb_build_object(
+        'enemyId', v_enemy.id, 'type', 'debuff', 'value', v_intent_value, 'targetPlayerId', v_target
+      );
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'status', 'enemy', v_enemy.id::text,
+        p_target_type => 'player', p_target_id => v_target::text, p_source => v_intent_type,
+        p_statuses => jsonb_build_object(coalesce(v_intent.status, 'weakened'), v_intent_value)
+      );
+    end if;
+
+    update public.enemy_combat_state
+    set intent_index = intent_index + 1
+    where id = v_enemy.id;
+
+    if not exists (
+      select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+    ) then
+      v_party_wiped := true;
+      exit;
+    end if;
+
+    if v_turn_number > 0 and v_turn_number % 4 = 0 then
+      update public.enemy_combat_state
+      set strength = strength + 1
+      where id = v_enemy.id;
+    end if;
+  end loop;
+
+  -- Enemy phase is over (status decay, regen), next player phase begins (poison)
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'enemy_end');
+  v_attacks := v_attacks || public._tick_statuses(p_room_id, v_screen_id, 'player_start');
+
+  -- Burn, thorns and poison may have pushed a boss past a threshold
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+
+  perform public._trigger_relics(p_room_id, v_screen_id, c.player_id, 'hp_below')
+  from public.characters c
+  where c.room_id = p_room_id and c.hp > 0
+  order by c.player_id;
+
+  -- Check party wipe
+  select not exists (
+    select 1 from public.characters c where c.room_id = p_room_id and c.hp > 0
+  ) into v_party_wiped;
+
+  if v_party_wiped then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Check all enemies dead → victory
+  if not exists (
+    select 1 from public.enemy_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and is_dead = false
+  ) then
+    update public.combat_turns set phase = 'resolved' where id = v_turn_id;
+    return jsonb_build_object('partyWiped', false, 'victory', true, 'turnNumber', v_turn_number, 'attacks', v_attacks);
+  end if;
+
+  -- Next turn
+  update public.combat_turns
+  set turn_number = v_turn_number + 1, phase = 'player', converged_player_ids = '{}'
+  where id = v_turn_id;
+
+  update public.player_turn_state
+  set actions_remaining = 0, has_ended_turn = false
+  where combat_turn_id = v_turn_id;
+
+  -- New turn: reset energy, block (keeping unabsorbed persistent block), refill the hand to 4.
+  -- Retained cards stay in hand and ethereal cards left in hand are exhausted.
+  for v_pcs in
+    select pcs.id, pcs.player_id, pcs.draw_pile, pcs.hand, pcs.discard_pile, pcs.max_energy, pcs.starting_block,
+           least(pcs.block, pcs.retained_block) as kept_block
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  loop
+    declare
+      v_split jsonb := public._end_turn_hand(v_pcs.hand);
+      v_new_discard jsonb := v_pcs.discard_pile || (v_split->'discard');
+      v_draw_count int := greatest(0, 4 - jsonb_array_length(v_split->'retain'));
+      v_draw_result jsonb;
+    begin
+      v_draw_result := public._draw_hand(
+        v_pcs.draw_pile, v_new_discard, v_draw_count, p_room_id, 'draw:' || v_pcs.player_id
+      );
+      update public.player_combat_state
+      set energy = v_pcs.max_energy,
+          block = v_pcs.starting_block + v_pcs.kept_block,
+          retained_block = v_pcs.kept_block,
+          hand = (v_split->'retain') || (v_draw_result->'hand'),
+          draw_pile = v_draw_result->'drawPile',
+          -- The discard is only shuffled in when the draw pile runs short
+          discard_pile = case
+            when jsonb_array_length(v_pcs.draw_pile) < v_draw_count then '[]'::jsonb
+            else v_new_discard
+          end,
+          exhaust_pile = exhaust_pile || (v_split->'exhaust')
+      where id = v_pcs.id;
+    end;
+  end loop;
+
+  perform public._trigger_relics(p_room_id, v_screen_id, pcs.player_id, 'turn_start')
+  from public.player_combat_state pcs
+  where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id
+  order by pcs.player_id;
+
+  -- Intents advanced: pick next turn's targets
+  perform public._retarget_enemies(p_room_id, v_screen_id, true);
+
+  return jsonb_build_object('partyWiped', false, 'victory', false, 'turnNumber', v_turn_number + 1, 'attacks', v_attacks);
+end;
+$$;
+
+-- ----------------------------
+-- Helper: end the player phase
+-- Moves the turn to the enemy phase and resolves it right away.
+-- ----------------------------
+
+create or replace function public._end_player_phase(p_room_id uuid, p_turn_id uuid)
+returns jsonb
+language plpgsql
+as $$
+begin
+  update public.combat_turns set phase = 'enemy' where id = p_turn_id;
+  return public._resolve_enemy_phase(p_room_id);
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_end_turn
+-- Unchanged from 033 except the last player to end resolves the enemy phase.
+-- ----------------------------
+
+create or replace function public.combat_end_turn(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_all_ended boolean;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  select ct.id into v_turn_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  -- Mark this player as ended
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = v_player_id;
+
+  -- Ending in time breaks the timed-out streak
+  update public.room_players set missed_turns = 0
+  where room_id = p_room_id and player_id = v_player_id;
+
+  -- Check if all alive players have ended
+  select not exists (
+    select 1
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    where pts.combat_turn_id = v_turn_id
+      and pts.has_ended_turn = false
+      and c.hp > 0
+  ) into v_all_ended;
+
+  if v_all_ended then
+    perform public._end_player_phase(p_room_id, v_turn_id);
+  end if;
+
+  return jsonb_build_object('allReady', v_all_ended);
+end;
+$$;
+
+grant execute on function public.combat_end_turn(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_bot_turn
+-- Unchanged from 027 except the last bot to end resolves the enemy phase.
+-- ----------------------------
+
+create or replace function public.combat_bot_turn(
+  p_room_id uuid,
+  p_bot_player_id public.player_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_host_id uuid;
+  v_is_bot boolean;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_bot_hp int;
+  v_bot_hp_max int;
+  v_action_log jsonb := '[]'::jsonb;
+  v_best_idx int;
+  v_best_priority int;
+  v_card_instance jsonb;
+  v_card record;
+  v_card_idx int;
+  v_target_enemy_idx int;
+  v_result jsonb;
+  v_iteration int := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id into v_host_id from public.rooms r where r.id = p_room_id;
+  if v_host_id <> v_user_id then
+    raise exception 'Only host can run bot turns';
+  end if;
+
+  select rp.is_bot into v_is_bot
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.player_id = p_bot_player_id;
+
+  if not v_is_bot then
+    raise exception 'Player is not a bot';
+  end if;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select c.hp, c.hp_max into v_bot_hp, v_bot_hp_max
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+  if v_bot_hp <= 0 then
+    update public.player_turn_state set has_ended_turn = true
+    where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+    return jsonb_build_object('actions', v_action_log, 'dead', true);
+  end if;
+
+  loop
+    v_iteration := v_iteration + 1;
+    if v_iteration > 10 then exit; end if;  -- Safety limit
+
+    select * into v_pcs from public.player_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = p_bot_player_id;
+
+    if jsonb_array_length(v_pcs.hand) = 0 then exit; end if;
+
+    select c.hp into v_bot_hp
+    from public.characters c
+    where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+    if v_bot_hp <= 0 then exit; end if;
+
+    -- Target the lowest HP alive enemy (index among alive enemies, by position)
+    select sub.idx into v_target_enemy_idx
+    from (
+      select ecs.hp, row_number() over (order by ecs.position) - 1 as idx
+      from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    ) sub
+    order by sub.hp asc limit 1;
+
+    if v_target_enemy_idx is null then exit; end if;
+
+    -- Pick best affordable card
+    v_best_idx := -1;
+    v_best_priority := -1;
+
+    for v_card_idx in 0..jsonb_array_length(v_pcs.hand) - 1 loop
+      v_card_instance := v_pcs.hand->v_card_idx;
+      select * into v_card from public.card_definitions where id = v_card_instance->>'cardId';
+
+      if v_card is null or v_card.cost > v_pcs.energy or 'unplayable' = any(v_card.keywords) then
+        continue;
+      end if;
+
+      declare v_priority int := 0;
+      begin
+        -- Low HP? Prioritize block/heal
+        if v_bot_hp < v_bot_hp_max * 0.4 then
+          if v_card.base_block is not null and v_card.base_block > 0 then
+            v_priority := 90 + coalesce(v_card.base_block, 0);
+          elsif v_card.base_heal is not null and v_card.base_heal > 0 then
+            v_priority := 85 + coalesce(v_card.base_heal, 0);
+          end if;
+        end if;
+
+        -- Damage cards
+        if v_priority = 0 and v_card.base_damage is not null and v_card.base_damage > 0 then
+          v_priority := 50 + coalesce(v_card.base_damage, 0);
+        end if;
+
+        -- Burn
+        if v_priority = 0 and v_card.base_burn is not null and v_card.base_burn > 0 then
+          v_priority := 40 + coalesce(v_card.base_burn, 0);
+        end if;
+
+        -- Block as fallback
+        if v_priority = 0 and v_card.base_block is not null and v_card.base_block > 0 then
+          v_priority := 30 + coalesce(v_card.base_block, 0);
+        end if;
+
+        -- Anything else
+        if v_priority = 0 then v_priority := 10; end if;
+
+        if v_priority > v_best_priority then
+          v_best_priority := v_priority;
+          v_best_idx := v_card_idx;
+        end if;
+      end;
+    end loop;
+
+    if v_best_idx < 0 then exit; end if;  -- No affordable cards
+
+    v_result := public._play_card(p_room_id, v_screen_id, p_bot_player_id, v_best_idx, v_target_enemy_idx);
+
+    v_action_log := v_action_log || jsonb_build_object(
+      'action', 'spell',
+      'spellId', v_result->>'cardId',
+      'spellName', v_result->>'cardName',
+      'targetId', v_result->>'targetEnemyId',
+      'damage', (v_result->>'damage')::int,
+      'block', (v_result->>'block')::int,
+      'heal', (v_result->>'heal')::int
+    );
+  end loop;
+
+  -- End bot turn
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+
+  if not exists (
+    select 1
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    where pts.combat_turn_id = v_turn_id and pts.has_ended_turn = false and c.hp > 0
+  ) then
+    perform public._end_player_phase(p_room_id, v_turn_id);
+  end if;
+
+  return jsonb_build_object('actions', v_action_log);
+end;
+$$;
+
+grant execute on function public.combat_bot_turn(uuid, public.player_id) to authenticated;
+
+-- ----------------------------
+-- Helper: end an expired player phase
+-- Unchanged from 033 except the enemy phase is resolved right away.
+-- ----------------------------
+
+create or replace function public._expire_player_phase(p_room_id uuid)
+returns boolean
+language plpgsql
+as $$
+declare
+  v_turn record;
+  v_takeover_after int;
+  v_player record;
+begin
+  select ct.id, ct.screen_id into v_turn
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player' and ct.phase_deadline <= now()
+  for update;
+
+  if v_turn.id is null then
+    return false;
+  end if;
+
+  select r.bot_takeover_after into v_takeover_after from public.rooms r where r.id = p_room_id;
+
+  for v_player in
+    select pts.player_id, rp.is_bot, rp.missed_turns
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    join public.room_players rp on rp.room_id = p_room_id and rp.player_id = pts.player_id
+    where pts.combat_turn_id = v_turn.id and pts.has_ended_turn = false and c.hp > 0
+    order by pts.player_id
+  loop
+    update public.player_turn_state set has_ended_turn = true
+    where combat_turn_id = v_turn.id and player_id = v_player.player_id;
+
+    -- Bots only miss the deadline when the host isn't there to run them
+    continue when v_player.is_bot;
+
+    perform public._log_combat_event(
+      p_room_id, v_turn.screen_id, 'timeout', 'player', v_player.player_id::text,
+      p_final_amount => v_player.missed_turns + 1
+    );
+
+    if v_takeover_after is not null and v_player.missed_turns + 1 >= v_takeover_after then
+      update public.room_players
+      set missed_turns = 0, is_bot = true, bot_takeover = true
+      where room_id = p_room_id and player_id = v_player.player_id;
+
+      perform public._log_combat_event(
+        p_room_id, v_turn.screen_id, 'bot_takeover', 'player', v_player.player_id::text
+      );
+    else
+      update public.room_players set missed_turns = missed_turns + 1
+      where room_id = p_room_id and player_id = v_player.player_id;
+    end if;
+  end loop;
+
+  perform public._end_player_phase(p_room_id, v_turn.id);
+  return true;
+end;
+$$;
+
+-- ----------------------------
+-- Job: resolve every turn left in the enemy phase
+-- Scheduled with pg_cron next to _expire_player_phases.
+-- ----------------------------
+
+create or replace function public._resolve_pending_enemy_phases()
+returns int
+language plpgsql
+as $$
+declare
+  v_room_id uuid;
+  v_resolved int := 0;
+begin
+  for v_room_id in
+    select ct.room_id from public.combat_turns ct where ct.phase = 'enemy'
+  loop
+    perform public._resolve_enemy_phase(v_room_id);
+    v_resolved := v_resolved + 1;
+  end loop;
+  return v_resolved;
+end;
+$$;
+
+-- Every minute, for fights whose enemy phase was left pending
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'resolve-enemy-phases', '* * * * *', 'select public._resolve_pending_enemy_phases()'
+);
+
+-- Fights waiting on the host when this migration runs
+select public._resolve_pending_enemy_phases();
+
+commit;
@@ -0,0 +1,326 @@
+-- 035: Bot takeover for disconnected players
+-- Clients ping room_heartbeat while they are in a room, which stamps room_players.last_seen_at.
+-- A human seat silent for longer than the grace period is marked disconnected and, once the
+-- adventure has started, handed to the bot (is_bot + bot_takeover, as for turn timeouts). The
+-- sweep runs from every heartbeat of the room and from a pg_cron job when the extension is
+-- installed. The next heartbeat of that player (rejoinRoom sends one right away) hands the seat
+-- back. Bot turns are run by the host, or by the first connected player while the host is away.
+
+begin;
+
+alter table public.room_players
+  add column if not exists last_seen_at timestamptz not null default now();
+
+-- ----------------------------
+-- Helper: hand silent seats to the bot
+-- A null room sweeps every room. Returns how many seats were marked disconnected.
+-- ----------------------------
+
+create or replace function public._takeover_disconnected_players(p_room_id uuid default null)
+returns int
+language plpgsql
+as $$
+declare
+  v_seat record;
+  v_turn record;
+  v_count int := 0;
+begin
+  for v_seat in
+    select rp.id, rp.room_id, rp.player_id, r.status
+    from public.room_players rp
+    join public.rooms r on r.id = rp.room_id
+    where (p_room_id is null or rp.room_id = p_room_id)
+      and rp.is_bot = false
+      and rp.is_connected = true
+      -- Grace period: three missed heartbeats (HEARTBEAT_MS in useRoomConnection)
+      and rp.last_seen_at < now() - interval '60 seconds'
+    order by rp.room_id, rp.player_id
+  loop
+    if v_seat.status = 'in_progress' then
+      update public.room_players
+      set is_connected = false, is_bot = true, bot_takeover = true
+      where id = v_seat.id;
+
+      select ct.screen_id into v_turn
+      from public.combat_turns ct
+      where ct.room_id = v_seat.room_id and ct.phase = 'player';
+
+      if v_turn.screen_id is not null then
+        perform public._log_combat_event(
+          v_seat.room_id, v_turn.screen_id, 'bot_takeover', 'player', v_seat.player_id::text,
+          p_source => 'disconnect'
+        );
+      end if;
+    else
+      update public.room_players set is_connected = false where id = v_seat.id;
+    end if;
+    v_count := v_count + 1;
+  end loop;
+  return v_count;
+end;
+$$;
+
+-- Every minute, across all rooms
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'takeover-disconnected-players', '* * * * *',
+  'select public._takeover_disconnected_players()'
+);
+
+-- ----------------------------
+-- RPC: room_heartbeat
+-- Marks the caller connected and hands back a seat the bot took over while they were away.
+-- ----------------------------
+
+create or replace function public.room_heartbeat(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_seat record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- The caller's own seat: playtest bots share the host's user id but were never taken over
+  select rp.id, rp.is_connected, rp.bot_takeover into v_seat
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id
+    and (rp.is_bot = false or rp.bot_takeover = true)
+  order by rp.player_id
+  limit 1;
+
+  if v_seat.id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  -- Seats taken over for timeouts stay with the bot until combat_reclaim_control
+  update public.room_players
+  set is_connected = true,
+      last_seen_at = now(),
+      is_bot = case when v_seat.is_connected then is_bot else false end,
+      bot_takeover = case when v_seat.is_connected then bot_takeover else false end,
+      missed_turns = case when v_seat.is_connected then missed_turns else 0 end
+  where id = v_seat.id;
+
+  perform public._takeover_disconnected_players(p_room_id);
+
+  return jsonb_build_object('handedBack', not v_seat.is_connected and v_seat.bot_takeover);
+end;
+$$;
+
+grant execute on function public.room_heartbeat(uuid) to authenticated;
+
+-- ----------------------------
+-- Helper: who runs the bot turns of a room
+-- The host while connected, otherwise the first connected human.
+-- ----------------------------
+
+create or replace function public._bot_runner_user_id(p_room_id uuid)
+returns uuid
+language sql
+stable
+as $$
+  select coalesce(
+    (
+      select r.host_user_id
+      from public.rooms r
+      join public.room_players rp on rp.room_id = r.id and rp.user_id = r.host_user_id
+      where r.id = p_room_id and rp.is_bot = false and rp.is_connected = true
+      limit 1
+    ),
+    (
+      select rp.user_id
+      from public.room_players rp
+      where rp.room_id = p_room_id and rp.is_bot = false and rp.is_connected = true
+      order by rp.player_id
+      limit 1
+    ),
+    (select r.host_user_id from public.rooms r where r.id = p_room_id)
+  );
+$$;
+
+-- ----------------------------
+-- RPC: combat_bot_turn
+-- Unchanged from 034 except the connected player from _bot_runner_user_id runs it instead of
+-- always the host.
+-- ----------------------------
+
+create or replace function public.combat_bot_turn(
+  p_room_id uuid,
+  p_bot_player_id public.player_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_runner_id uuid;
+  v_is_bot boolean;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_bot_hp int;
+  v_bot_hp_max int;
+  v_action_log jsonb := '[]'::jsonb;
+  v_best_idx int;
+  v_best_priority int;
+  v_card_instance jsonb;
+  v_card record;
+  v_card_idx int;
+  v_target_enemy_idx int;
+  v_result jsonb;
+  v_iteration int := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_runner_id := public._bot_runner_user_id(p_room_id);
+  if v_runner_id <> v_user_id then
+    raise exception 'Only the bot runner can run bot turns';
+  end if;
+
+  select rp.is_bot into v_is_bot
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.player_id = p_bot_player_id;
+
+  if not v_is_bot then
+    raise exception 'Player is not a bot';
+  end if;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select c.hp, c.hp_max into v_bot_hp, v_bot_hp_max
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+  if v_bot_hp <= 0 then
+    update public.player_turn_state set has_ended_turn = true
+    where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+    return jsonb_build_object('actions', v_action_log, 'dead', true);
+  end if;
+
+  loop
+    v_iteration := v_iteration + 1;
+    if v_iteration > 10 then exit; end if;  -- Safety limit
+
+    select * into v_pcs from public.player_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = p_bot_player_id;
+
+    if jsonb_array_length(v_pcs.hand) = 0 then exit; end if;
+
+    select c.hp into v_bot_hp
+    from public.characters c
+    where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+    if v_bot_hp <= 0 then exit; end if;
+
+    -- Target the lowest HP alive enemy (index among alive enemies, by position)
+    select sub.idx into v_target_enemy_idx
+    from (
+      select ecs.hp, row_number() over (order by ecs.position) - 1 as idx
+      from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    ) sub
+    order by sub.hp asc limit 1;
+
+    if v_target_enemy_idx is null then exit; end if;
+
+    -- Pick best affordable card
+    v_best_idx := -1;
+    v_best_priority := -1;
+
+    for v_card_idx in 0..jsonb_array_length(v_pcs.hand) - 1 loop
+      v_card_instance := v_pcs.hand->v_card_idx;
+      select * into v_card from public.card_definitions where id = v_card_instance->>'cardId';
+
+      if v_card is null or v_card.cost > v_pcs.energy or 'unplayable' = any(v_card.keywords) then
+        continue;
+      end if;
+
+      declare v_priority int := 0;
+      begin
+        -- Low HP? Prioritize block/heal
+        if v_bot_hp < v_bot_hp_max * 0.4 then
+          if v_card.base_block is not null and v_card.base_block > 0 then
+            v_priority := 90 + coalesce(v_card.base_block, 0);
+          elsif v_card.base_heal is not null and v_card.base_heal > 0 then
+            v_priority := 85 + coalesce(v_card.base_heal, 0);
+          end if;
+        end if;
+
+        -- Damage cards
+        if v_priority = 0 and v_card.base_damage is not null and v_card.base_damage > 0 then
+          v_priority := 50 + coalesce(v_card.base_damage, 0);
+        end if;
+
+        -- Burn
+        if v_priority = 0 and v_card.base_burn is not null and v_card.base_burn > 0 then
+          v_priority := 40 + coalesce(v_card.base_burn, 0);
+        end if;
+
+        -- Block as fallback
+        if v_priority = 0 and v_card.base_block is not null and v_card.base_block > 0 then
+          v_priority := 30 + coalesce(v_card.base_block, 0);
+        end if;
+
+        -- Anything else
+        if v_priority = 0 then v_priority := 10; end if;
+
+        if v_priority > v_best_priority then
+          v_best_priority := v_priority;
+          v_best_idx := v_card_idx;
+        end if;
+      end;
+    end loop;
+
+    if v_best_idx < 0 then exit; end if;  -- No affordable cards
+
+    v_result := public._play_card(p_room_id, v_screen_id, p_bot_player_id, v_best_idx, v_target_enemy_idx);
+
+    v_action_log := v_action_log || jsonb_build_object(
+      'action', 'spell',
+      'spellId', v_result->>'cardId',
+      'spellName', v_result->>'cardName',
+      'targetId', v_result->>'targetEnemyId',
+      'damage', (v_result->>'damage')::int,
+      'block', (v_result->>'block')::int,
+      'heal', (v_result->>'heal')::int
+    );
+  end loop;
+
+  -- End bot turn
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+
+  if not exists (
+    select 1
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    where pts.combat_turn_id = v_turn_id and pts.has_ended_turn = false and c.hp > 0
+  ) then
+    perform public._end_player_phase(p_room_id, v_turn_id);
+  end if;
+
+  return jsonb_build_object('actions', v_action_log);
+end;
+$$;
+
+grant execute on function public.combat_bot_turn(uuid, public.player_id) to authenticated;
+
+commit;
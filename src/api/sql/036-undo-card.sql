@@ -0,0 +1,330 @@
+-- 036: Undo the last card played
+-- combat_play_card snapshots the rows a play can touch (the screen's player and enemy combat
+-- state, the room's characters) and pushes the rows that changed onto combat_undo_stack, with
+-- their values before and after the play and the combat_events it logged. combat_undo_last pops
+-- the caller's latest entry for the current turn and writes the old values back, as long as every
+-- row still holds the values the play left: once an ally, a bot or the enemy phase has touched
+-- the same target, the play is final. Entries from earlier turns are dropped on the next push.
+-- The draw streams of room_rng_streams are rewound too, so replaying a card draws the same cards.
+
+begin;
+
+create table if not exists public.combat_undo_stack (
+  id bigint generated always as identity primary key,
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  screen_id uuid not null references public.adventure_screens(id) on delete cascade,
+  turn_number int not null,
+  player_id public.player_id not null,
+  card_id text references public.card_definitions(id) on delete set null,
+  changes jsonb not null default '[]'::jsonb, -- [{table, id, before, after}], null before = inserted
+  event_ids bigint[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists combat_undo_stack_room_player_idx
+  on public.combat_undo_stack (room_id, player_id, id);
+
+-- ----------------------------
+-- RLS
+-- ----------------------------
+alter table public.combat_undo_stack enable row level security;
+
+drop policy if exists combat_undo_stack_select on public.combat_undo_stack;
+create policy combat_undo_stack_select on public.combat_undo_stack
+  for select to authenticated
+  using (public.is_room_member(room_id));
+
+grant select on public.combat_undo_stack to authenticated;
+
+-- ----------------------------
+-- Realtime
+-- ----------------------------
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'combat_undo_stack'
+  ) then
+    execute 'alter publication supabase_realtime add table public.combat_undo_stack';
+  end if;
+end
+$$;
+
+-- ----------------------------
+-- Helper: snapshot the rows a card play can touch
+-- Keyed by 'table:id'. Enemy targets are re-rolled by other players' plays and updated_at moves
+-- on every write, so neither counts as a change.
+-- ----------------------------
+
+create or replace function public._combat_undo_snapshot(p_room_id uuid, p_screen_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select coalesce(jsonb_object_agg(s.key, s.row), '{}'::jsonb)
+  from (
+    select 'player_combat_state:' || pcs.id as key, to_jsonb(pcs) - 'updated_at' as row
+    from public.player_combat_state pcs
+    where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id
+    union all
+    select 'enemy_combat_state:' || ecs.id, to_jsonb(ecs) - 'target_player_id' - 'updated_at'
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id
+    union all
+    select 'characters:' || c.id, to_jsonb(c) - 'updated_at'
+    from public.characters c
+    where c.room_id = p_room_id
+    union all
+    select 'room_rng_streams:' || rs.stream, to_jsonb(rs)
+    from public.room_rng_streams rs
+    where rs.room_id = p_room_id and rs.stream like 'draw:%'
+  ) s;
+$$;
+
+-- ----------------------------
+-- Helper: push the rows a card play changed onto the undo stack
+-- ----------------------------
+
+create or replace function public._push_combat_undo(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_card_id text,
+  p_before jsonb,
+  p_last_event_id bigint
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_turn_number int;
+  v_changes jsonb;
+  v_event_ids bigint[];
+begin
+  select ct.turn_number into v_turn_number
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.screen_id = p_screen_id;
+
+  delete from public.combat_undo_stack us
+  where us.room_id = p_room_id and us.player_id = p_player_id
+    and (us.screen_id <> p_screen_id or us.turn_number <> v_turn_number);
+
+  -- A play that ends the fight is final: rewards are generated from the dead enemies
+  if not exists (
+    select 1 from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+  ) then
+    delete from public.combat_undo_stack us
+    where us.room_id = p_room_id and us.player_id = p_player_id;
+    return;
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'table', split_part(coalesce(a.key, b.key), ':', 1),
+    'id', substr(coalesce(a.key, b.key), strpos(coalesce(a.key, b.key), ':') + 1),
+    'before', b.value,
+    'after', a.value
+  )), '[]'::jsonb)
+  into v_changes
+  from jsonb_each(p_before) b
+  full join jsonb_each(public._combat_undo_snapshot(p_room_id, p_screen_id)) a on a.key = b.key
+  where a.value is distinct from b.value;
+
+  -- Events this transaction logged (other players' concurrent plays get other timestamps)
+  select coalesce(array_agg(ce.id order by ce.id), '{}') into v_event_ids
+  from public.combat_events ce
+  where ce.room_id = p_room_id and ce.id > p_last_event_id and ce.created_at = now();
+
+  insert into public.combat_undo_stack (
+    room_id, screen_id, turn_number, player_id, card_id, changes, event_ids
+  )
+  values (
+    p_room_id, p_screen_id, v_turn_number, p_player_id, p_card_id, v_changes, v_event_ids
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_play_card
+-- Unchanged from 028 except the seat lookup skips playtest bots (they share the host's user id)
+-- and the play is pushed onto combat_undo_stack.
+-- ----------------------------
+
+create or replace function public.combat_play_card(
+  p_room_id uuid,
+  p_hand_index int,
+  p_target_enemy_idx int default null,
+  p_target_player_id public.player_id default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_card_id text;
+  v_before jsonb;
+  v_last_event_id bigint;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Player not in room';
+  end if;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player'
+  order by ct.turn_number desc limit 1;
+
+  if v_turn_id is null then
+    raise exception 'No active player phase';
+  end if;
+
+  perform 1 from public.player_turn_state pts
+  where pts.combat_turn_id = v_turn_id and pts.player_id = v_player_id and pts.has_ended_turn = false;
+  if not found then
+    raise exception 'Already ended turn';
+  end if;
+
+  select pcs.hand -> p_hand_index ->> 'cardId' into v_card_id
+  from public.player_combat_state pcs
+  where pcs.room_id = p_room_id and pcs.screen_id = v_screen_id and pcs.player_id = v_player_id;
+
+  v_before := public._combat_undo_snapshot(p_room_id, v_screen_id);
+  select coalesce(max(ce.id), 0) into v_last_event_id
+  from public.combat_events ce where ce.room_id = p_room_id;
+
+  v_result := public._play_card(
+    p_room_id, v_screen_id, v_player_id, p_hand_index, p_target_enemy_idx, p_target_player_id
+  );
+
+  perform public._push_combat_undo(
+    p_room_id, v_screen_id, v_player_id, v_card_id, v_before, v_last_event_id
+  );
+  return v_result;
+end;
+$$;
+
+grant execute on function public.combat_play_card(uuid, int, int, public.player_id) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_undo_last
+-- Reverts the caller's most recent card play of the current turn.
+-- ----------------------------
+
+create or replace function public.combat_undo_last(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn record;
+  v_entry record;
+  v_change jsonb;
+  v_snapshot jsonb;
+  v_columns text;
+  v_values text;
+  v_match text;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Player not in room';
+  end if;
+
+  select ct.id, ct.screen_id, ct.turn_number into v_turn
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player'
+  order by ct.turn_number desc limit 1
+  for update;
+
+  if v_turn.id is null then
+    raise exception 'No active player phase';
+  end if;
+
+  perform 1 from public.player_turn_state pts
+  where pts.combat_turn_id = v_turn.id and pts.player_id = v_player_id and pts.has_ended_turn = false;
+  if not found then
+    raise exception 'Already ended turn';
+  end if;
+
+  select us.* into v_entry
+  from public.combat_undo_stack us
+  where us.room_id = p_room_id and us.player_id = v_player_id
+    and us.screen_id = v_turn.screen_id and us.turn_number = v_turn.turn_number
+  order by us.id desc limit 1;
+
+  if v_entry.id is null then
+    raise exception 'Nothing to undo';
+  end if;
+
+  v_snapshot := public._combat_undo_snapshot(p_room_id, v_turn.screen_id);
+  for v_change in select value from jsonb_array_elements(v_entry.changes)
+  loop
+    if coalesce(v_snapshot -> ((v_change ->> 'table') || ':' || (v_change ->> 'id')), 'null')
+      is distinct from v_change -> 'after' then
+      raise exception 'Cannot undo: the target has changed since';
+    end if;
+  end loop;
+
+  for v_change in select value from jsonb_array_elements(v_entry.changes)
+  loop
+    -- Streams are keyed by name within the room, every other table by uuid
+    v_match := case
+      when v_change ->> 'table' = 'room_rng_streams' then 't.room_id = $3 and t.stream = $2'
+      else 't.id = $2::uuid'
+    end;
+
+    if v_change -> 'before' = 'null'::jsonb then
+      -- Created by the play: summoned enemies, a first draw from a stream
+      execute format('delete from public.%I t where %s', v_change ->> 'table', v_match)
+      using null::jsonb, v_change ->> 'id', p_room_id;
+    else
+      select string_agg(format('%I', k), ', '), string_agg(format('r.%I', k), ', ')
+      into v_columns, v_values
+      from jsonb_object_keys(v_change -> 'before') k
+      where k not in ('id', 'room_id', 'stream');
+
+      execute format(
+        'update public.%1$I t set (%2$s) = (select %3$s from jsonb_populate_record(null::public.%1$I, $1) r) where %4$s',
+        v_change ->> 'table', v_columns, v_values, v_match
+      )
+      using v_change -> 'before', v_change ->> 'id', p_room_id;
+    end if;
+  end loop;
+
+  delete from public.combat_events ce
+  where ce.room_id = p_room_id and ce.id = any(v_entry.event_ids);
+
+  delete from public.combat_undo_stack where id = v_entry.id;
+
+  perform public._retarget_enemies(p_room_id, v_turn.screen_id);
+
+  return jsonb_build_object('cardId', v_entry.card_id);
+end;
+$$;
+
+grant execute on function public.combat_undo_last(uuid) to authenticated;
+
+commit;
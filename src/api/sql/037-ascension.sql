@@ -0,0 +1,825 @@
+-- 037: Ascension levels
+-- The host picks an ascension level in the lobby (rooms.ascension). Level N applies the
+-- modifiers of levels 1..N from ascension_levels, seeded from
+-- src/features/gameConfig/ascension.ts by bin/generate-sql.ts (generated/ascension-levels.sql):
+-- more enemy HP, elite fights, a smaller rest heal, fewer reward choices and an extra boss phase.
+-- Winning a run unlocks the next level for every human in the party (player_ascension); the host
+-- can only pick levels they unlocked.
+
+begin;
+
+alter table public.rooms
+  add column if not exists ascension int not null default 0 check (ascension >= 0);
+
+create table if not exists public.ascension_levels (
+  level int primary key,
+  icon text not null default '',
+  modifier jsonb not null -- {type, ...}: see AscensionModifier
+);
+
+create table if not exists public.player_ascension (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  max_level int not null default 0, -- highest level this player may pick
+  updated_at timestamptz not null default now()
+);
+
+-- ----------------------------
+-- RLS
+-- ----------------------------
+alter table public.player_ascension enable row level security;
+
+drop policy if exists player_ascension_select on public.player_ascension;
+create policy player_ascension_select on public.player_ascension
+  for select to authenticated
+  using (user_id = auth.uid());
+
+grant select on public.player_ascension to authenticated;
+
+-- ----------------------------
+-- Helper: total of one modifier field over a room's ascension levels
+-- e.g. _ascension_value(room, 'enemy_hp', 'percent'). 0 at ascension 0.
+-- ----------------------------
+
+create or replace function public._ascension_value(p_room_id uuid, p_type text, p_field text)
+returns int
+language sql
+stable
+as $$
+  select coalesce(sum((al.modifier->>p_field)::int), 0)::int
+  from public.ascension_levels al
+  join public.rooms r on r.id = p_room_id
+  where al.level <= r.ascension and al.modifier->>'type' = p_type;
+$$;
+
+-- ----------------------------
+-- Helper: the extra boss phase of a room's ascension
+-- Shaped like an enemy_templates.phases entry, null below the boss_phase level. It keeps the
+-- previous phase's pattern (_enemy_pattern).
+-- ----------------------------
+
+create or replace function public._ascension_boss_phase(p_room_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'hpPercent', (al.modifier->>'hpPercent')::int,
+    'actions', jsonb_build_array(
+      jsonb_build_object('type', 'cleanse'),
+      jsonb_build_object('type', 'enrage', 'strength', (al.modifier->>'strength')::int)
+    )
+  )
+  from public.ascension_levels al
+  join public.rooms r on r.id = p_room_id
+  where al.level <= r.ascension and al.modifier->>'type' = 'boss_phase'
+  order by al.level
+  limit 1;
+$$;
+
+-- ----------------------------
+-- RPC: set_room_ascension
+-- Host only, in the lobby, up to the host's unlocked level.
+-- ----------------------------
+
+create or replace function public.set_room_ascension(p_room_id uuid, p_ascension int)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room record;
+  v_unlocked int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id, r.status into v_room from public.rooms r where r.id = p_room_id;
+
+  if v_room.host_user_id is distinct from v_user_id then
+    raise exception 'Only host can change the ascension level';
+  end if;
+
+  if v_room.status <> 'lobby' then
+    raise exception 'Ascension can only be changed in the lobby';
+  end if;
+
+  select least(
+    coalesce((select pa.max_level from public.player_ascension pa where pa.user_id = v_user_id), 0),
+    coalesce((select max(al.level) from public.ascension_levels al), 0)
+  ) into v_unlocked;
+
+  if p_ascension < 0 or p_ascension > v_unlocked then
+    raise exception 'Ascension % is locked', p_ascension;
+  end if;
+
+  update public.rooms set ascension = p_ascension where id = p_room_id;
+end;
+$$;
+
+grant execute on function public.set_room_ascension(uuid, int) to authenticated;
+
+-- ----------------------------
+-- RPC: generate_adventure
+-- Unchanged from 031 except core fights can roll elite and the rest heal shrinks with ascension.
+-- ----------------------------
+
+create or replace function public.generate_adventure(p_room_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing int;
+  v_position int := 0;
+  v_bloc int;
+  v_total_blocs int := 3;
+  v_screen_count int;
+  v_base_level int;
+  v_screen_type public.screen_type;
+  v_config jsonb;
+  v_elite_chance int := public._ascension_value(p_room_id, 'elite_chance', 'percent');
+  v_rest_percent int := greatest(0, 50 - public._ascension_value(p_room_id, 'rest_heal', 'percent'));
+  v_is_elite boolean;
+  i int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_room_member(p_room_id) then
+    raise exception 'Not a room member';
+  end if;
+
+  -- Don't re-generate
+  select count(*) into v_existing
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  for v_bloc in 1..v_total_blocs loop
+    v_base_level := 1 + (v_bloc - 1) * 3;
+
+    -- EARLY phase (bloc 1 only)
+    if v_bloc = 1 then
+      v_screen_count := public._rng_int(p_room_id, 'adventure', 1, 2);
+      for i in 1..v_screen_count loop
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+        values (
+          p_room_id, v_bloc, 'early', v_position, 'narrative_choice',
+          jsonb_build_object(
+            'prompt', 'You arrive at a crossroads...',
+            'options', jsonb_build_array(
+              jsonb_build_object('id', 'a', 'text', 'Take the safe path', 'effect', jsonb_build_object('hpDelta', 10)),
+              jsonb_build_object('id', 'b', 'text', 'Take the risky path', 'effect', jsonb_build_object('goldDelta', 20))
+            )
+          )
+        );
+        v_position := v_position + 1;
+      end loop;
+    end if;
+
+    -- CORE phase
+    v_screen_count := public._rng_int(p_room_id, 'adventure', 5, 6);
+    for i in 1..v_screen_count loop
+      v_screen_type := public._rng_core_screen_type(p_room_id);
+
+      if v_screen_type = 'combat' then
+        -- Only rolled with elites enabled, so lower ascensions keep their adventure stream
+        v_is_elite := false;
+        if v_elite_chance > 0 then
+          v_is_elite := public._rng_int(p_room_id, 'adventure', 1, 100) <= v_elite_chance;
+        end if;
+
+        v_config := jsonb_build_object(
+          'enemyCount', public._rng_int(p_room_id, 'adventure', 2, 4),
+          'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+          'isBoss', false,
+          'isElite', v_is_elite
+        );
+      elsif v_screen_type = 'narrative_choice' then
+        v_config := jsonb_build_object(
+          'prompt', 'A mysterious figure approaches...',
+          'options', jsonb_build_array(
+            jsonb_build_object('id', 'a', 'text', 'Help them', 'effect', jsonb_build_object('expDelta', 15)),
+            jsonb_build_object('id', 'b', 'text', 'Ignore them', 'effect', jsonb_build_object('goldDelta', 10)),
+            jsonb_build_object('id', 'c', 'text', 'Rob them', 'effect', jsonb_build_object('goldDelta', 30, 'hpDelta', -10))
+          )
+        );
+      else
+        -- puzzle
+        v_config := jsonb_build_object(
+          'puzzleId', 'riddle_' || v_bloc || '_' || i,
+          'timeLimit', 30,
+          'reward', jsonb_build_object('expDelta', 20, 'goldDelta', 15),
+          'penalty', jsonb_build_object('hpDelta', -15)
+        );
+      end if;
+
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (p_room_id, v_bloc, 'core', v_position, v_screen_type, v_config);
+      v_position := v_position + 1;
+    end loop;
+
+    -- RESOLVE phase
+    if v_bloc = v_total_blocs then
+      -- Final boss only
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'lich_commander'
+        )
+      );
+      v_position := v_position + 1;
+    else
+      -- Boss fight
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'forest_guardian'
+        )
+      );
+      v_position := v_position + 1;
+
+      -- Shop
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'shop',
+        jsonb_build_object(
+          'items', jsonb_build_array(
+            jsonb_build_object('id', 'elixir', 'name', 'elixir', 'cost', 40, 'effect', jsonb_build_object('expDelta', 50))
+          ),
+          'potions', public._shop_potion_offer(p_room_id),
+          'relics', public._shop_relic_offer(p_room_id)
+        )
+      );
+      v_position := v_position + 1;
+
+      -- Rest
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'rest',
+        jsonb_build_object('hpRestorePercent', v_rest_percent)
+      );
+      v_position := v_position + 1;
+    end if;
+
+  end loop;
+
+  -- Set room to first screen
+  update public.rooms
+  set current_screen_position = 0, current_bloc = 1
+  where id = p_room_id;
+
+  return v_position;
+end;
+$$;
+
+grant execute on function public.generate_adventure(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: seed_enemies_for_screen
+-- Unchanged from 021 except ascension enemy HP and elite fights.
+-- ----------------------------
+
+create or replace function public.seed_enemies_for_screen(
+  p_room_id uuid,
+  p_screen_id uuid
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_config jsonb;
+  v_screen_type public.screen_type;
+  v_bloc int;
+  v_enemy_count int;
+  v_is_boss boolean;
+  v_boss_name text;
+  v_existing int;
+  v_fight_number int;
+  v_template_id text;
+  v_template record;
+  v_hp int;
+  v_strength int;
+  v_hp_mult numeric;
+  v_template_ids text[];
+  v_is_elite boolean;
+  v_hp_percent int := 100 + public._ascension_value(p_room_id, 'enemy_hp', 'percent');
+  i int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Don't re-seed
+  select count(*) into v_existing
+  from public.enemy_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  select s.config_json, s.screen_type, s.bloc
+  into v_config, v_screen_type, v_bloc
+  from public.adventure_screens s
+  where s.id = p_screen_id and s.room_id = p_room_id;
+
+  if v_config is null then
+    raise exception 'Screen not found';
+  end if;
+
+  v_enemy_count := coalesce((v_config->>'enemyCount')::int, 2);
+  v_is_boss := coalesce((v_config->>'isBoss')::boolean, false);
+  v_boss_name := v_config->>'bossName';
+  v_is_elite := coalesce((v_config->>'isElite')::boolean, false);
+  v_fight_number := greatest(1, v_bloc);
+
+  -- Pick template IDs based on boss/normal
+  v_template_ids := '{}';
+  if v_is_boss then
+    -- Boss encounters use heavier templates
+    v_template_ids := array['dread-warden', 'chaos-wyrm', 'bridge-keeper-drog', 'ogre-lord'];
+  else
+    -- Normal encounters pick from standard pool
+    v_template_ids := array['hollow-scout', 'bone-guardian', 'plague-rat', 'shadow-fiend', 'iron-golem',
+                            'pine-wolf', 'road-blackguard', 'reed-stalker', 'totem-warden', 'crossroad-reaver'];
+  end if;
+
+  for i in 0..v_enemy_count - 1 loop
+    -- Pick random template
+    v_template_id := v_template_ids[public._rng_int(p_room_id, 'enemies', 1, array_length(v_template_ids, 1))];
+
+    -- Override with boss name if boss
+    if v_is_boss and v_boss_name is not null then
+      -- Use the first boss template but with the specified name
+      v_template_id := v_template_ids[public._rng_int(p_room_id, 'enemies', 1, array_length(v_template_ids, 1))];
+    end if;
+
+    -- Lookup template
+    select * into v_template from public.enemy_templates where id = v_template_id;
+
+    if v_template is null then
+      -- Fallback
+      select * into v_template from public.enemy_templates limit 1;
+    end if;
+
+    -- Scale HP: baseHp * scalingPerFight^(fightNumber-1)
+    v_hp_mult := power(v_template.scaling_per_fight, v_fight_number - 1);
+    -- Ascension adds a percentage on top; elites get ADVENTURE.scaling.eliteHpMultiplier
+    v_hp := floor(
+      v_template.base_hp * v_hp_mult * v_hp_percent / 100 * case when v_is_elite then 1.5 else 1 end
+    )::int;
+
+    -- Scale strength: baseStrength + strengthScaling * (fightNumber-1)
+    v_strength := floor(v_template.base_strength + v_template.strength_scaling * (v_fight_number - 1))::int;
+    if v_is_elite then
+      v_strength := v_strength + 2; -- ADVENTURE.scaling.eliteStrengthBonus
+    end if;
+
+    -- Boss name override
+    insert into public.enemy_combat_state (
+      room_id, screen_id, template_id, name, icon, position,
+      hp, hp_max, strength, block, intent_index, is_dead
+    ) values (
+      p_room_id, p_screen_id, v_template.id,
+      case when v_is_boss and v_boss_name is not null and i = 0 then v_boss_name else v_template.name end,
+      v_template.icon, i,
+      v_hp, v_hp, v_strength, 0, 0, false
+    );
+  end loop;
+
+  -- Init combat turn
+  perform public.combat_init_turn(p_room_id, p_screen_id);
+
+  return v_enemy_count;
+end;
+$$;
+
+grant execute on function public.seed_enemies_for_screen(uuid, uuid) to authenticated;
+
+-- ----------------------------
+-- Helper: spawn extra enemies mid-fight
+-- Unchanged from 025 except summons get the ascension enemy HP too.
+-- ----------------------------
+
+create or replace function public._summon_enemies(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_template_id text,
+  p_count int
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_template record;
+  v_fight_number int;
+  v_position int;
+  v_hp int;
+  i int;
+begin
+  select * into v_template from public.enemy_templates where id = p_template_id;
+  if v_template is null then
+    raise exception 'Unknown summon template: %', p_template_id;
+  end if;
+
+  select greatest(1, s.bloc) into v_fight_number
+  from public.adventure_screens s
+  where s.id = p_screen_id;
+
+  select coalesce(max(ecs.position), -1) into v_position
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id;
+
+  v_hp := floor(
+    v_template.base_hp * power(v_template.scaling_per_fight, v_fight_number - 1)
+      * (100 + public._ascension_value(p_room_id, 'enemy_hp', 'percent')) / 100
+  )::int;
+
+  for i in 1..p_count loop
+    insert into public.enemy_combat_state (
+      room_id, screen_id, template_id, name, icon, position,
+      hp, hp_max, strength, block, intent_index, is_dead
+    ) values (
+      p_room_id, p_screen_id, v_template.id, v_template.name, v_template.icon, v_position + i,
+      v_hp, v_hp,
+      floor(v_template.base_strength + v_template.strength_scaling * (v_fight_number - 1))::int,
+      0, 0, false
+    );
+  end loop;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: intent pattern in effect
+-- Unchanged from 025 except phases past the template's last keep the last pattern.
+-- ----------------------------
+
+create or replace function public._enemy_pattern(p_template_id text, p_phase int)
+returns int[]
+language plpgsql
+stable
+as $$
+declare
+  v_pattern int[];
+  v_phase_pattern int[];
+begin
+  select et.intent_pattern,
+         case when p_phase > 0 then array(
+           -- The ascension phase past the last one keeps that phase's pattern
+           select jsonb_array_elements_text(
+             et.phases->(least(p_phase, jsonb_array_length(et.phases)) - 1)->'intentPattern'
+           )::int
+         ) end
+  into v_pattern, v_phase_pattern
+  from public.enemy_templates et
+  where et.id = p_template_id;
+
+  if coalesce(array_length(v_phase_pattern, 1), 0) > 0 then
+    return v_phase_pattern;
+  end if;
+  return coalesce(v_pattern, '{0,2,0,3,0,4}');
+end;
+$$;
+
+-- ----------------------------
+-- Helper: advance boss phases
+-- Unchanged from 025 except bosses get the ascension's extra phase after their own.
+-- ----------------------------
+
+create or replace function public._advance_boss_phases(p_room_id uuid, p_screen_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_enemy record;
+  v_next jsonb;
+  v_action jsonb;
+  v_phase int;
+  v_changed boolean := false;
+  v_extra jsonb := public._ascension_boss_phase(p_room_id);
+begin
+  for v_enemy in
+    select e.*
+    from (
+      select ecs.id, ecs.hp, ecs.hp_max, ecs.phase, ecs.position,
+             case
+               when v_extra is not null and jsonb_array_length(et.phases) > 0
+                 then et.phases || jsonb_build_array(v_extra)
+               else et.phases
+             end as phases
+      from public.enemy_combat_state ecs
+      join public.enemy_templates et on et.id = ecs.template_id
+      where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id
+        and ecs.is_dead = false and ecs.hp > 0
+    ) e
+    where jsonb_array_length(e.phases) > e.phase
+    order by e.position
+  loop
+    v_phase := v_enemy.phase;
+
+    while v_phase < jsonb_array_length(v_enemy.phases)
+      and v_enemy.hp * 100 <= v_enemy.hp_max * (v_enemy.phases->v_phase->>'hpPercent')::int
+    loop
+      v_next := v_enemy.phases->v_phase;
+      v_phase := v_phase + 1;
+
+      for v_action in select * from jsonb_array_elements(coalesce(v_next->'actions', '[]'::jsonb))
+      loop
+        case v_action->>'type'
+          when 'cleanse' then
+            update public.enemy_combat_state
+            set vulnerable = 0, weakened = 0, burn = 0
+            where id = v_enemy.id;
+          when 'enrage' then
+            update public.enemy_combat_state
+            set strength = strength + (v_action->>'strength')::int
+            where id = v_enemy.id;
+          when 'summon' then
+            perform public._summon_enemies(
+              p_room_id, p_screen_id, v_action->>'templateId', (v_action->>'count')::int
+            );
+          else
+            raise exception 'Unknown boss phase action: %', v_action->>'type';
+        end case;
+      end loop;
+
+      perform public._log_combat_event(
+        p_room_id, p_screen_id, 'boss_phase', 'enemy', v_enemy.id::text,
+        p_raw_amount => v_phase, p_final_amount => v_phase
+      );
+    end loop;
+
+    if v_phase <> v_enemy.phase then
+      update public.enemy_combat_state
+      set phase = v_phase, intent_index = 0
+      where id = v_enemy.id;
+      v_changed := true;
+    end if;
+  end loop;
+
+  -- New patterns and summons need targets
+  if v_changed then
+    perform public._retarget_enemies(p_room_id, p_screen_id);
+  end if;
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_generate_rewards
+-- Unchanged from 030 except ascension shrinks the card, upgrade and boss relic picks.
+-- ----------------------------
+
+create or replace function public.combat_generate_rewards(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_card_choices jsonb := '[]'::jsonb;
+  v_upgrade_choices jsonb := '[]'::jsonb;
+  v_card record;
+  v_player_id public.player_id;
+  v_stream text;
+  v_is_boss boolean;
+  v_relic_choices jsonb := '[]'::jsonb;
+  v_relic record;
+  v_choice_count int := greatest(1, 3 - public._ascension_value(p_room_id, 'reward_choices', 'count'));
+begin
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = auth.uid() and rp.is_bot = false
+  limit 1;
+  v_stream := 'rewards:' || coalesce(v_player_id::text, 'room');
+
+  -- Pick 3 random reward cards (fewer with ascension)
+  for v_card in
+    select cd.id, cd.name, cd.trait, cd.description, cd.cost, cd.is_rare
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(select id from public.card_definitions where is_starter = false order by id),
+      v_choice_count
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_card_choices := v_card_choices || jsonb_build_object(
+      'type', 'add_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'trait', v_card.trait,
+      'description', v_card.description,
+      'cost', v_card.cost,
+      'isRare', v_card.is_rare
+    );
+  end loop;
+
+  -- Pick 3 random upgradeable cards from player's deck (fewer with ascension)
+  -- (simplified: just pick from starter deck)
+  for v_card in
+    select cd.id, cd.name, cd.upgrade_name, cd.upgrade_description
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(select id from public.card_definitions where upgrade_threshold < 99 order by id),
+      v_choice_count
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_upgrade_choices := v_upgrade_choices || jsonb_build_object(
+      'type', 'upgrade_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'upgradeName', v_card.upgrade_name,
+      'upgradeDescription', v_card.upgrade_description
+    );
+  end loop;
+
+  -- One common relic after a fight, a pick of three boss relics after a boss
+  select s.screen_type = 'boss_fight' into v_is_boss
+  from public.combat_turns ct
+  join public.adventure_screens s on s.id = ct.screen_id
+  where ct.room_id = p_room_id
+  order by ct.created_at desc
+  limit 1;
+
+  for v_relic in
+    select rd.id, rd.name, rd.description, rd.icon, rd.rarity
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(
+        select rd.id from public.relic_definitions rd
+        where rd.rarity = case when coalesce(v_is_boss, false) then 'boss' else 'common' end
+          and not exists (
+            select 1 from public.characters c
+            where c.room_id = p_room_id and c.player_id = v_player_id and rd.id = any(c.relics)
+          )
+        order by rd.id
+      ),
+      case when coalesce(v_is_boss, false) then v_choice_count else 1 end
+    )) with ordinality as pick(relic_id, ord)
+    join public.relic_definitions rd on rd.id = pick.relic_id
+    order by pick.ord
+  loop
+    v_relic_choices := v_relic_choices || jsonb_build_object(
+      'type', 'relic',
+      'id', v_relic.id,
+      'name', v_relic.name,
+      'description', v_relic.description,
+      'icon', v_relic.icon,
+      'rarity', v_relic.rarity
+    );
+  end loop;
+
+  return jsonb_build_object(
+    'cardChoices', v_card_choices,
+    'upgradeChoices', v_upgrade_choices,
+    'bonusChoices', jsonb_build_array(
+      jsonb_build_object('type', 'bonus', 'id', 'max-hp-10', 'name', '+10 Max HP', 'icon', '❤️'),
+      jsonb_build_object('type', 'bonus', 'id', 'heal-15', 'name', 'Heal 15 HP', 'icon', '🧪'),
+      jsonb_build_object('type', 'bonus', 'id', 'max-energy-1', 'name', '+1 Max Energy', 'icon', '⚡')
+    ),
+    'relicChoices', v_relic_choices
+  );
+end;
+$$;
+
+grant execute on function public.combat_generate_rewards(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: advance_screen
+-- Unchanged from 008 except winning the run unlocks the next ascension level.
+-- ----------------------------
+
+create or replace function public.advance_screen(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_host_id uuid;
+  v_current_pos int;
+  v_current_screen_id uuid;
+  v_next_screen record;
+  v_total_screens int;
+  v_ascension int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id, r.current_screen_position, r.ascension
+  into v_host_id, v_current_pos, v_ascension
+  from public.rooms r
+  where r.id = p_room_id
+  for update;
+
+  if v_host_id is null then
+    raise exception 'Room not found';
+  end if;
+
+  if v_host_id <> v_user_id then
+    raise exception 'Only host can advance';
+  end if;
+
+  -- Mark current screen completed
+  update public.adventure_screens
+  set is_completed = true
+  where room_id = p_room_id and position = v_current_pos
+  returning id into v_current_screen_id;
+
+  -- Check if there's a next screen
+  select count(*) into v_total_screens
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  if v_current_pos + 1 >= v_total_screens then
+    -- Adventure complete
+    update public.rooms
+    set status = 'finished'
+    where id = p_room_id;
+
+    -- A won run (final fight cleared; playtests have a single screen) unlocks the next level
+    if v_total_screens > 1
+      and exists (
+        select 1 from public.enemy_combat_state ecs
+        where ecs.room_id = p_room_id and ecs.screen_id = v_current_screen_id
+      )
+      and not exists (
+        select 1 from public.enemy_combat_state ecs
+        where ecs.room_id = p_room_id and ecs.screen_id = v_current_screen_id and ecs.is_dead = false
+      )
+    then
+      insert into public.player_ascension (user_id, max_level)
+      select distinct rp.user_id,
+             least(v_ascension + 1, (select coalesce(max(al.level), 0) from public.ascension_levels al))
+      from public.room_players rp
+      where rp.room_id = p_room_id and (rp.is_bot = false or rp.bot_takeover = true)
+      on conflict (user_id) do update
+      set max_level = greatest(public.player_ascension.max_level, excluded.max_level),
+          updated_at = now();
+    end if;
+
+    return jsonb_build_object('finished', true);
+  end if;
+
+  -- Advance to next screen
+  update public.rooms
+  set current_screen_position = v_current_pos + 1,
+      current_bloc = coalesce(
+        (select s.bloc from public.adventure_screens s where s.room_id = p_room_id and s.position = v_current_pos + 1),
+        current_bloc
+      )
+  where id = p_room_id;
+
+  -- Get next screen info
+  select s.id, s.screen_type, s.config_json, s.bloc, s.phase, s.position
+  into v_next_screen
+  from public.adventure_screens s
+  where s.room_id = p_room_id and s.position = v_current_pos + 1;
+
+  -- Clean up old enemies before seeding new ones
+  delete from public.enemies where room_id = p_room_id and screen_id = v_current_screen_id;
+
+  -- Auto-seed enemies if next screen is combat or boss
+  if v_next_screen.screen_type in ('combat', 'boss_fight') then
+    perform public.seed_enemies_for_screen(p_room_id, v_next_screen.id);
+  end if;
+
+  return jsonb_build_object(
+    'finished', false,
+    'screenId', v_next_screen.id,
+    'screenType', v_next_screen.screen_type,
+    'bloc', v_next_screen.bloc,
+    'phase', v_next_screen.phase,
+    'position', v_next_screen.position
+  );
+end;
+$$;
+
+grant execute on function public.advance_screen(uuid) to authenticated;
+
+commit;
@@ -0,0 +1,343 @@
+-- 038: Encounters
+-- Fights roll from curated encounters instead of a hard-coded template list. Encounters are
+-- defined in src/features/gameConfig/encounters.ts and seeded into public.encounters by
+-- bin/generate-sql.ts (generated/encounters.sql). seed_enemies_for_screen picks one, weighted,
+-- among those matching the screen's bloc, phase, biome (config_json.biome, any when unset) and
+-- boss/elite flags, then spawns its enemies with their hpMult. The roll is stored on the screen
+-- as config_json.encounterId. The screen's enemyCount is no longer read; playtests can still force
+-- a count through enemyCountOverride.
+
+begin;
+
+create table if not exists public.encounters (
+  id text primary key,
+  description text not null default '',
+  blocs int[] not null,
+  phase public.phase_type not null,
+  biomes text[] not null default '{}', -- empty = every biome
+  is_boss boolean not null default false,
+  is_elite boolean not null default false,
+  weight int not null default 1 check (weight > 0),
+  enemies jsonb not null -- [{templateId, hpMult}]
+);
+
+-- ----------------------------
+-- RPC: seed_enemies_for_screen
+-- Unchanged from 037 except enemies come from a rolled encounter.
+-- ----------------------------
+
+create or replace function public.seed_enemies_for_screen(
+  p_room_id uuid,
+  p_screen_id uuid
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_config jsonb;
+  v_screen_type public.screen_type;
+  v_bloc int;
+  v_phase public.phase_type;
+  v_biome text;
+  v_is_boss boolean;
+  v_boss_name text;
+  v_existing int;
+  v_fight_number int;
+  v_encounter record;
+  v_total_weight int;
+  v_roll int;
+  v_enemy jsonb;
+  v_enemy_count int;
+  v_template record;
+  v_hp int;
+  v_strength int;
+  v_hp_mult numeric;
+  v_is_elite boolean;
+  v_hp_percent int := 100 + public._ascension_value(p_room_id, 'enemy_hp', 'percent');
+  i int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Don't re-seed
+  select count(*) into v_existing
+  from public.enemy_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  select s.config_json, s.screen_type, s.bloc, s.phase
+  into v_config, v_screen_type, v_bloc, v_phase
+  from public.adventure_screens s
+  where s.id = p_screen_id and s.room_id = p_room_id;
+
+  if v_config is null then
+    raise exception 'Screen not found';
+  end if;
+
+  v_is_boss := coalesce((v_config->>'isBoss')::boolean, false);
+  v_boss_name := v_config->>'bossName';
+  v_is_elite := coalesce((v_config->>'isElite')::boolean, false);
+  v_biome := v_config->>'biome';
+  v_fight_number := greatest(1, v_bloc);
+
+  -- Weighted roll among the encounters of this slot (same filter as getEncountersForSlot)
+  select coalesce(sum(e.weight), 0) into v_total_weight
+  from public.encounters e
+  where v_bloc = any(e.blocs)
+    and e.phase = v_phase
+    and (v_biome is null or cardinality(e.biomes) = 0 or v_biome = any(e.biomes))
+    and e.is_boss = v_is_boss
+    and e.is_elite = v_is_elite;
+
+  if v_total_weight = 0 then
+    raise exception 'No encounter for bloc % %', v_bloc, v_phase;
+  end if;
+
+  v_roll := public._rng_int(p_room_id, 'enemies', 1, v_total_weight);
+
+  select m.* into v_encounter
+  from (
+    select e.*, sum(e.weight) over (order by e.id) as cumulative_weight
+    from public.encounters e
+    where v_bloc = any(e.blocs)
+      and e.phase = v_phase
+      and (v_biome is null or cardinality(e.biomes) = 0 or v_biome = any(e.biomes))
+      and e.is_boss = v_is_boss
+      and e.is_elite = v_is_elite
+  ) m
+  where m.cumulative_weight >= v_roll
+  order by m.cumulative_weight
+  limit 1;
+
+  update public.adventure_screens
+  set config_json = config_json || jsonb_build_object('encounterId', v_encounter.id)
+  where id = p_screen_id;
+
+  -- Playtests may force a count: the encounter's enemies repeat or get cut
+  v_enemy_count := coalesce(
+    (v_config->>'enemyCountOverride')::int,
+    jsonb_array_length(v_encounter.enemies)
+  );
+
+  for i in 0..v_enemy_count - 1 loop
+    v_enemy := v_encounter.enemies->(i % jsonb_array_length(v_encounter.enemies));
+
+    select * into v_template from public.enemy_templates where id = v_enemy->>'templateId';
+
+    if not found then
+      raise exception 'Encounter % uses unknown template %', v_encounter.id, v_enemy->>'templateId';
+    end if;
+
+    -- Scale HP: baseHp * scalingPerFight^(fightNumber-1) * the encounter's hpMult
+    v_hp_mult := power(v_template.scaling_per_fight, v_fight_number - 1)
+      * coalesce((v_enemy->>'hpMult')::numeric, 1);
+    -- Ascension adds a percentage on top; elites get ADVENTURE.scaling.eliteHpMultiplier
+    v_hp := floor(
+      v_template.base_hp * v_hp_mult * v_hp_percent / 100 * case when v_is_elite then 1.5 else 1 end
+    )::int;
+
+    -- Scale strength: baseStrength + strengthScaling * (fightNumber-1)
+    v_strength := floor(v_template.base_strength + v_template.strength_scaling * (v_fight_number - 1))::int;
+    if v_is_elite then
+      v_strength := v_strength + 2; -- ADVENTURE.scaling.eliteStrengthBonus
+    end if;
+
+    -- Boss name override
+    insert into public.enemy_combat_state (
+      room_id, screen_id, template_id, name, icon, position,
+      hp, hp_max, strength, block, intent_index, is_dead
+    ) values (
+      p_room_id, p_screen_id, v_template.id,
+      case when v_is_boss and v_boss_name is not null and i = 0 then v_boss_name else v_template.name end,
+      v_template.icon, i,
+      v_hp, v_hp, v_strength, 0, 0, false
+    );
+  end loop;
+
+  -- Init combat turn
+  perform public.combat_init_turn(p_room_id, p_screen_id);
+
+  return v_enemy_count;
+end;
+$$;
+
+grant execute on function public.seed_enemies_for_screen(uuid, uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: create_playtest
+-- Unchanged from 031 except the enemy count is an encounter override and boss fights sit in the
+-- resolve phase, where boss encounters roll.
+-- ----------------------------
+
+create or replace function public.create_playtest(
+  p_screen_type public.screen_type,
+  p_bloc int default 1,
+  p_display_name text default 'Tester',
+  p_role_id public.role_id default 'warrior',
+  p_enemy_count int default null,
+  p_bot_count int default 0,
+  p_seed bigint default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room_id uuid;
+  v_code text;
+  v_screen_id uuid;
+  v_base_level int;
+  v_config jsonb;
+  v_attempts int := 0;
+  v_trimmed_name text;
+  v_base_hp int;
+  v_bot_roles public.role_id[] := array['warrior', 'sage', 'ranger'];
+  v_bot_role public.role_id;
+  v_bot_hp int;
+  v_bot_names text[] := array['Aldric', 'Lyra', 'Thorne'];
+  v_bot_player_ids public.player_id[] := array['p2', 'p3'];
+  v_bot_index int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_trimmed_name := trim(coalesce(p_display_name, 'Tester'));
+  v_base_level := 1 + (p_bloc - 1) * 3;
+
+  -- Generate room code
+  loop
+    v_code := public.generate_room_code(6);
+    exit when not exists (select 1 from public.rooms r where r.code = v_code);
+    v_attempts := v_attempts + 1;
+    if v_attempts > 20 then
+      raise exception 'Could not generate a unique room code';
+    end if;
+  end loop;
+
+  -- Create room
+  insert into public.rooms (code, host_user_id, status, current_screen_position, current_bloc, seed)
+  values (
+    v_code, v_user_id, 'in_progress', 0, p_bloc,
+    coalesce(p_seed, floor(random() * 2147483647)::bigint)
+  )
+  returning id into v_room_id;
+
+  -- Create human player
+  insert into public.room_players (room_id, player_id, user_id, role_id, display_name, is_bot)
+  values (v_room_id, 'p1', v_user_id, p_role_id, v_trimmed_name, false);
+
+  v_base_hp := case p_role_id
+    when 'warrior' then 300
+    when 'ranger' then 250
+    when 'sage' then 200
+    else 250
+  end;
+
+  insert into public.characters (room_id, player_id, name, level, gold, exp, hp, hp_max)
+  values (v_room_id, 'p1', v_trimmed_name, 1, 50, 0, v_base_hp, v_base_hp);
+
+  -- Create bot players
+  for v_bot_index in 1..least(p_bot_count, 2) loop
+    -- Pick a role not already taken
+    v_bot_role := null;
+    for i in 1..array_length(v_bot_roles, 1) loop
+      if v_bot_roles[i] <> p_role_id then
+        -- Check not already used by another bot
+        if not exists (
+          select 1 from public.room_players rp
+          where rp.room_id = v_room_id and rp.role_id = v_bot_roles[i]
+        ) then
+          v_bot_role := v_bot_roles[i];
+          exit;
+        end if;
+      end if;
+    end loop;
+
+    if v_bot_role is null then
+      v_bot_role := 'warrior'; -- fallback
+    end if;
+
+    v_bot_hp := case v_bot_role
+      when 'warrior' then 60
+      when 'ranger' then 50
+      when 'sage' then 40
+      else 50
+    end;
+
+    insert into public.room_players (room_id, player_id, user_id, role_id, display_name, is_bot)
+    values (v_room_id, v_bot_player_ids[v_bot_index], v_user_id, v_bot_role, v_bot_names[v_bot_index], true);
+
+    insert into public.characters (room_id, player_id, name, level, gold, exp, hp, hp_max)
+    values (v_room_id, v_bot_player_ids[v_bot_index], v_bot_names[v_bot_index], 1, 50, 0, v_bot_hp, v_bot_hp);
+  end loop;
+
+  -- Build screen config
+  if p_screen_type in ('combat', 'boss_fight') then
+    v_config := jsonb_build_object(
+      'enemyCountOverride', p_enemy_count,
+      'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+      'isBoss', p_screen_type = 'boss_fight',
+      'bossName', case when p_screen_type = 'boss_fight' then 'Test Boss Lv.' || (v_base_level + 4) else null end
+    );
+  elsif p_screen_type = 'narrative_choice' then
+    v_config := jsonb_build_object(
+      'prompt', 'A mysterious figure approaches... [PLAYTEST]',
+      'options', jsonb_build_array(
+        jsonb_build_object('id', 'a', 'text', 'Help them', 'effect', jsonb_build_object('expDelta', 15)),
+        jsonb_build_object('id', 'b', 'text', 'Ignore them', 'effect', jsonb_build_object('goldDelta', 10)),
+        jsonb_build_object('id', 'c', 'text', 'Rob them', 'effect', jsonb_build_object('goldDelta', 30, 'hpDelta', -10))
+      )
+    );
+  elsif p_screen_type = 'shop' then
+    v_config := jsonb_build_object(
+      'items', jsonb_build_array(
+        jsonb_build_object('id', 'scroll', 'name', 'Scroll of Wisdom', 'cost', 25, 'effect', jsonb_build_object('expDelta', 30)),
+        jsonb_build_object('id', 'elixir', 'name', 'Power Elixir', 'cost', 50, 'effect', jsonb_build_object('hpDelta', 20, 'expDelta', 40))
+      ),
+      'potions', public._shop_potion_offer(v_room_id),
+      'relics', public._shop_relic_offer(v_room_id)
+    );
+  elsif p_screen_type = 'rest' then
+    v_config := jsonb_build_object('hpRestorePercent', 50);
+  elsif p_screen_type = 'puzzle' then
+    v_config := jsonb_build_object(
+      'puzzleId', 'test_riddle',
+      'timeLimit', 30,
+      'reward', jsonb_build_object('expDelta', 25, 'goldDelta', 15),
+      'penalty', jsonb_build_object('hpDelta', -15)
+    );
+  else
+    v_config := '{}'::jsonb;
+  end if;
+
+  -- Create adventure screen
+  insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json)
+  values (
+    v_room_id, p_bloc,
+    case when p_screen_type = 'boss_fight' then 'resolve' else 'core' end::public.phase_type,
+    0, p_screen_type, v_config
+  )
+  returning id into v_screen_id;
+
+  -- Seed enemies if combat/boss
+  if p_screen_type in ('combat', 'boss_fight') then
+    perform public.seed_enemies_for_screen(v_room_id, v_screen_id);
+  end if;
+
+  return v_room_id;
+end;
+$$;
+
+grant execute on function public.create_playtest(public.screen_type, int, text, public.role_id, int, int, bigint) to authenticated;
+
+commit;
@@ -0,0 +1,801 @@
+-- 039: Bot policies
+-- combat_bot_turn scores every playable card with the seat's policy (room_players.bot_policy)
+-- and difficulty (room_players.bot_difficulty), both seeded from
+-- src/features/gameConfig/botPolicies.ts by bin/generate-sql.ts (generated/bot-policies.sql).
+-- The difficulty sets how much of the empowerment bonus and of block past the incoming damage the
+-- bot sees. Each play, and each convergence, is preceded by a bot_decision combat event whose
+-- source is the winning reason. Convergence moves into _use_convergence so bots can converge.
+
+begin;
+
+create table if not exists public.bot_policies (
+  id text primary key,
+  icon text not null default '',
+  weights jsonb not null, -- score per point of each outcome: see BotPolicyWeights
+  low_hp_percent int not null,
+  target text not null, -- 'lowest_hp' | 'highest_threat'
+  converge_at int not null
+);
+
+create table if not exists public.bot_difficulties (
+  id text primary key,
+  position int not null default 0,
+  empower_skill numeric not null,
+  block_skill numeric not null
+);
+
+alter table public.room_players
+  add column if not exists bot_policy text not null default 'balanced',
+  add column if not exists bot_difficulty text not null default 'normal';
+
+-- ----------------------------
+-- RPC: set_player_bot_policy
+-- Host only. The policy and difficulty the bot uses for a seat: playtest bots and seats handed
+-- to the bot. Can change mid-run.
+-- ----------------------------
+
+create or replace function public.set_player_bot_policy(
+  p_room_id uuid,
+  p_player_id public.player_id,
+  p_policy text,
+  p_difficulty text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1 from public.rooms r where r.id = p_room_id and r.host_user_id = v_user_id
+  ) then
+    raise exception 'Only the host can set bot policies';
+  end if;
+
+  if not exists (select 1 from public.bot_policies bp where bp.id = p_policy) then
+    raise exception 'Unknown bot policy: %', p_policy;
+  end if;
+
+  if not exists (select 1 from public.bot_difficulties bd where bd.id = p_difficulty) then
+    raise exception 'Unknown bot difficulty: %', p_difficulty;
+  end if;
+
+  update public.room_players
+  set bot_policy = p_policy, bot_difficulty = p_difficulty
+  where room_id = p_room_id and player_id = p_player_id;
+
+  if not found then
+    raise exception 'Seat not found';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_player_bot_policy(uuid, public.player_id, text, text) to authenticated;
+
+-- ----------------------------
+-- Helper: resolve a player's convergence
+-- The body of combat_use_convergence from 030, for any player, so bots can converge too.
+-- ----------------------------
+
+create or replace function public._use_convergence(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_turn_id uuid,
+  p_player_id public.player_id
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_player_id public.player_id := p_player_id;
+  v_turn_id uuid := p_turn_id;
+  v_screen_id uuid := p_screen_id;
+  v_pcs record;
+  v_empowered_count int := 0;
+  v_trait text;
+  v_new_charges jsonb;
+  v_multiplier numeric;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_energy_gained int := 0;
+  v_vuln_applied int := 0;
+  v_weak_applied int := 0;
+  v_enemy record;
+  v_converged public.player_id[];
+  v_team jsonb;
+  v_alive_before int;
+  v_kills int;
+  v_relics jsonb := '[]'::jsonb;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  select count(*) into v_alive_before
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false;
+
+  -- Count and reset empowered traits
+  v_new_charges := v_pcs.trait_charges;
+  for v_trait in select key from jsonb_each_text(v_pcs.trait_charges) where value::int >= 3
+  loop
+    v_empowered_count := v_empowered_count + 1;
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+
+    -- Apply convergence effect per trait
+    -- Fire: damage
+    if v_trait = 'fire' then
+      v_total_damage := v_total_damage + 16;
+    -- Guard: block (persistent)
+    elsif v_trait = 'guard' then
+      v_total_block := v_total_block + 14;
+    -- Shadow: vulnerable + weakened
+    elsif v_trait = 'shadow' then
+      v_vuln_applied := v_vuln_applied + 2;
+      v_weak_applied := v_weak_applied + 2;
+    -- Storm: energy
+    elsif v_trait = 'storm' then
+      v_energy_gained := v_energy_gained + 2;
+    -- Nature: heal
+    elsif v_trait = 'nature' then
+      v_total_heal := v_total_heal + 12;
+    end if;
+  end loop;
+
+  if v_empowered_count < 2 then
+    raise exception 'Need at least 2 empowered traits';
+  end if;
+
+  -- Apply multiplier based on count
+  v_multiplier := case
+    when v_empowered_count >= 5 then 2.5
+    when v_empowered_count >= 4 then 2.0
+    when v_empowered_count >= 3 then 1.5
+    else 1.0
+  end;
+
+  v_total_damage := floor(v_total_damage * v_multiplier)::int;
+  v_total_block := floor(v_total_block * v_multiplier)::int;
+  v_total_heal := floor(v_total_heal * v_multiplier)::int;
+
+  -- Apply damage to all enemies
+  if v_total_damage > 0 then
+    for v_enemy in
+      select ecs.id, ecs.hp, ecs.block from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    loop
+      declare v_remaining int := v_total_damage;
+      begin
+        perform public._log_combat_event(
+          p_room_id, v_screen_id, 'damage', 'player', v_player_id::text,
+          p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => 'convergence',
+          p_raw_amount => v_total_damage,
+          p_final_amount => least(v_enemy.hp, greatest(0, v_total_damage - v_enemy.block))
+        );
+        if v_enemy.block > 0 then
+          if v_enemy.block >= v_remaining then
+            update public.enemy_combat_state set block = block - v_remaining where id = v_enemy.id;
+            v_remaining := 0;
+          else
+            v_remaining := v_remaining - v_enemy.block;
+            update public.enemy_combat_state set block = 0 where id = v_enemy.id;
+          end if;
+        end if;
+        if v_remaining > 0 then
+          update public.enemy_combat_state
+          set hp = greatest(0, hp - v_remaining), last_attacker_id = v_player_id
+          where id = v_enemy.id;
+          if v_enemy.hp - v_remaining <= 0 then
+            update public.enemy_combat_state set is_dead = true where id = v_enemy.id;
+          end if;
+        end if;
+      end;
+    end loop;
+  end if;
+
+  -- Apply block
+  if v_total_block > 0 then
+    update public.player_combat_state
+    set block = block + public._frail_block(v_total_block, v_pcs.frail)
+    where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'block', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_block, p_final_amount => public._frail_block(v_total_block, v_pcs.frail)
+    );
+  end if;
+
+  -- Apply heal
+  if v_total_heal > 0 then
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'heal', 'player', v_player_id::text,
+      p_target_type => 'player', p_target_id => v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_total_heal,
+      p_final_amount => (
+        select greatest(0, least(v_total_heal, c.hp_max - c.hp)) from public.characters c
+        where c.room_id = p_room_id and c.player_id = v_player_id
+      )
+    );
+    update public.characters set hp = least(hp_max, hp + v_total_heal)
+    where room_id = p_room_id and player_id = v_player_id;
+  end if;
+
+  -- Apply energy
+  if v_energy_gained > 0 then
+    update public.player_combat_state set energy = energy + v_energy_gained where id = v_pcs.id;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'energy', 'player', v_player_id::text, p_source => 'convergence',
+      p_raw_amount => v_energy_gained, p_final_amount => v_energy_gained
+    );
+  end if;
+
+  -- Apply debuffs to all enemies
+  if v_vuln_applied > 0 or v_weak_applied > 0 then
+    for v_enemy in
+      select ecs.id from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    loop
+      perform public._apply_status('enemy', array[v_enemy.id], 'vulnerable', v_vuln_applied);
+      perform public._apply_status('enemy', array[v_enemy.id], 'weakened', v_weak_applied);
+    end loop;
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'status', 'player', v_player_id::text,
+      p_target_type => 'enemy', p_source => 'convergence',
+      p_statuses => jsonb_strip_nulls(jsonb_build_object(
+        'vulnerable', nullif(v_vuln_applied, 0),
+        'weakened', nullif(v_weak_applied, 0)
+      ))
+    );
+  end if;
+
+  -- Save charges
+  update public.player_combat_state
+  set trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  -- Team convergence: a player joining this phase's convergers pairs with the previous one
+  select ct.converged_player_ids into v_converged from public.combat_turns ct where ct.id = v_turn_id;
+  if not (v_player_id = any(v_converged)) then
+    v_converged := v_converged || v_player_id;
+    update public.combat_turns set converged_player_ids = v_converged where id = v_turn_id;
+    if array_length(v_converged, 1) >= 2 then
+      v_team := public._resolve_team_convergence(
+        p_room_id, v_screen_id, v_player_id,
+        v_converged[array_length(v_converged, 1) - 1], array_length(v_converged, 1)
+      );
+    end if;
+  end if;
+
+  select v_alive_before - count(*) into v_kills
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false;
+  for i in 1..v_kills loop
+    v_relics := v_relics || public._trigger_relics(p_room_id, v_screen_id, v_player_id, 'enemy_killed');
+  end loop;
+
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+  perform public._retarget_enemies(p_room_id, v_screen_id);
+
+  -- Free action: does NOT consume energy
+
+  return jsonb_build_object(
+    'empoweredCount', v_empowered_count,
+    'multiplier', v_multiplier,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'energy', v_energy_gained,
+    'vulnerable', v_vuln_applied,
+    'weakened', v_weak_applied,
+    'newTraitCharges', v_new_charges,
+    'teamConvergence', v_team,
+    'relics', v_relics
+  );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_use_convergence
+-- Unchanged from 030 except it resolves through _use_convergence and ignores the caller's bot
+-- seats.
+-- ----------------------------
+
+create or replace function public.combat_use_convergence(
+  p_room_id uuid,
+  p_target_enemy_idx int default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_screen_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  return public._use_convergence(p_room_id, v_screen_id, v_turn_id, v_player_id);
+end;
+$$;
+
+grant execute on function public.combat_use_convergence(uuid, int) to authenticated;
+
+-- ----------------------------
+-- Helper: damage an enemy's current intent would deal
+-- All hits of an attack intent against a target with this much vulnerable; 0 for other intents and
+-- stunned or dead enemies. Block is not counted.
+-- ----------------------------
+
+create or replace function public._enemy_intent_damage(p_enemy_id uuid, p_target_vulnerable int)
+returns int
+language plpgsql
+stable
+as $$
+declare
+  v_enemy record;
+  v_intent public.enemy_intents;
+begin
+  select * into v_enemy from public.enemy_combat_state where id = p_enemy_id;
+  if not found or v_enemy.is_dead or v_enemy.stun > 0 then
+    return 0;
+  end if;
+
+  v_intent := public._enemy_intent(
+    v_enemy.template_id,
+    public._enemy_intent_code(v_enemy.template_id, v_enemy.phase, v_enemy.intent_index)
+  );
+  if v_intent.type not in ('attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal') then
+    return 0;
+  end if;
+
+  return public._enemy_attack_damage(
+    v_intent.value, v_enemy.strength - v_enemy.strength_down, v_enemy.weakened, p_target_vulnerable
+  ) * greatest(1, v_intent.hits);
+end;
+$$;
+
+-- ----------------------------
+-- Helper: score a card for a bot
+-- Returns {score, reason, amount}. Outcomes are read from the card's top-level effects (conditionals
+-- are not counted) and weighted by the policy; the reason is the outcome worth the most.
+-- ----------------------------
+
+create or replace function public._bot_score_card(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_card_instance jsonb,
+  p_policy public.bot_policies,
+  p_difficulty public.bot_difficulties,
+  p_target_enemy_id uuid,
+  p_incoming int
+)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_card record;
+  v_pcs record;
+  v_hp int;
+  v_hp_max int;
+  v_target record;
+  v_alive int;
+  v_effects jsonb;
+  v_effect jsonb;
+  v_type text;
+  v_rule text;
+  v_amount int;
+  v_plain int;
+  v_weakened boolean;
+  v_charge int;
+  v_is_amplified boolean;
+  v_low_hp boolean;
+  v_block_needed int;
+  v_damage int := 0;
+  v_target_damage int := 0;
+  v_block int := 0;
+  v_heal int := 0;
+  v_support int := 0;
+  v_dot int := 0;
+  v_status int := 0;
+  v_draw int := 0;
+  v_energy int := 0;
+  v_values jsonb;
+  v_amounts jsonb;
+  v_score numeric;
+  v_reason text;
+  w jsonb := p_policy.weights;
+begin
+  select * into v_card from public.card_definitions where id = p_card_instance->>'cardId';
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+
+  select c.hp, c.hp_max into v_hp, v_hp_max
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_player_id;
+
+  select ecs.hp, ecs.block into v_target
+  from public.enemy_combat_state ecs
+  where ecs.id = p_target_enemy_id;
+
+  select count(*) into v_alive
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false;
+
+  v_effects := case
+    when coalesce((p_card_instance->>'upgraded')::boolean, false)
+      and jsonb_array_length(v_card.upgraded_effects) > 0 then v_card.upgraded_effects
+    else v_card.effects
+  end;
+  v_charge := coalesce((v_pcs.trait_charges->>v_card.trait)::int, 0);
+  v_is_amplified := v_charge >= 3;
+
+  for v_effect in select value from jsonb_array_elements(v_effects) loop
+    v_type := v_effect->>'type';
+    v_amount := coalesce((v_effect->>'amount')::int, 0);
+    v_rule := coalesce(
+      v_effect->>'target',
+      case when v_type in ('block', 'heal', 'gain_status') then 'self' else 'enemy' end
+    );
+
+    -- The bot sees empowerment's bonus in proportion to its difficulty's empower skill
+    if v_type in ('damage', 'block', 'heal')
+      or v_type = 'apply_status' and v_effect->>'status' in ('burn', 'poison') then
+      v_weakened := v_type = 'damage' and v_pcs.weakened > 0;
+      v_plain := public._card_amount(v_amount, false, v_weakened);
+      v_amount := v_plain + round(
+        (public._card_amount(v_amount, v_is_amplified, v_weakened) - v_plain) * p_difficulty.empower_skill
+      )::int;
+    end if;
+
+    case v_type
+      when 'damage' then
+        v_amount := v_amount * greatest(1, coalesce((v_effect->>'hits')::int, 1));
+        v_target_damage := v_target_damage + v_amount;
+        v_damage := v_damage + v_amount * case when v_rule = 'all_enemies' then v_alive else 1 end;
+
+      when 'block' then
+        if v_rule in ('self', 'all_allies') then
+          v_block := v_block + v_amount;
+        end if;
+        if v_rule <> 'self' then
+          v_support := v_support + v_amount * (
+            select count(*) from public.characters c
+            where c.room_id = p_room_id and c.hp > 0 and c.player_id <> p_player_id
+              and (v_rule = 'all_allies' or c.player_id = (
+                public._ally_recipients(p_room_id, p_player_id, v_rule)
+              )[1])
+          );
+        end if;
+
+      when 'heal' then
+        if v_rule in ('self', 'all_allies') then
+          v_heal := v_heal + least(v_amount, v_hp_max - v_hp);
+        end if;
+        if v_rule <> 'self' then
+          v_support := v_support + coalesce((
+            select sum(least(v_amount, c.hp_max - c.hp))
+            from public.characters c
+            where c.room_id = p_room_id and c.hp > 0 and c.player_id <> p_player_id
+              and c.player_id = any(public._ally_recipients(p_room_id, p_player_id, v_rule))
+          ), 0);
+        end if;
+
+      when 'apply_status' then
+        if v_effect->>'status' in ('burn', 'poison') then
+          v_dot := v_dot + v_amount * case when v_rule = 'all_enemies' then v_alive else 1 end;
+        else
+          v_status := v_status + v_amount * case when v_rule = 'all_enemies' then v_alive else 1 end;
+        end if;
+
+      when 'gain_status' then
+        v_status := v_status + v_amount;
+
+      when 'draw' then
+        v_draw := v_draw + v_amount;
+
+      when 'gain_energy' then
+        v_energy := v_energy + v_amount;
+
+      else
+        null;
+    end case;
+  end loop;
+
+  v_low_hp := v_hp * 100 < v_hp_max * p_policy.low_hp_percent;
+  v_block_needed := greatest(0, p_incoming - v_pcs.block);
+
+  -- Block past the incoming damage fades out as the difficulty's block skill goes up
+  v_values := jsonb_build_object(
+    'lethal', case
+      when v_target.hp is not null and v_target_damage >= v_target.hp + v_target.block
+        then (w->>'kill')::numeric
+      else 0
+    end,
+    'damage', v_damage * (w->>'damage')::numeric,
+    'block', (
+      least(v_block, v_block_needed)
+      + greatest(0, v_block - v_block_needed) * (1 - p_difficulty.block_skill)
+    ) * (w->>'block')::numeric * case when v_low_hp then 2 else 1 end,
+    'heal', v_heal * (w->>'heal')::numeric * case when v_low_hp then 2 else 1 end,
+    'support', v_support * (w->>'support')::numeric,
+    'dot', v_dot * (w->>'dot')::numeric,
+    'status', v_status * (w->>'status')::numeric,
+    'draw', v_draw * (w->>'draw')::numeric,
+    'energy', v_energy * (w->>'energy')::numeric,
+    'charge', case
+      when v_is_amplified then 0
+      else (v_charge + 1) * (w->>'charge')::numeric * p_difficulty.empower_skill
+    end
+  );
+  v_amounts := jsonb_build_object(
+    'lethal', v_target.hp,
+    'damage', v_damage,
+    'block', p_incoming,
+    'heal', v_heal,
+    'support', v_support,
+    'dot', v_dot,
+    'status', v_status,
+    'draw', v_draw,
+    'energy', v_energy,
+    'charge', v_charge + 1
+  );
+
+  select sum(value::numeric) into v_score from jsonb_each_text(v_values);
+
+  select key into v_reason
+  from jsonb_each_text(v_values)
+  where value::numeric > 0
+  order by value::numeric desc, key
+  limit 1;
+
+  if v_reason is null then
+    return jsonb_build_object('score', 0, 'reason', 'fallback', 'amount', 0);
+  end if;
+
+  -- An empowered play the bot chose for its numbers is explained by the empowerment
+  if v_is_amplified and p_difficulty.empower_skill > 0 and v_reason in ('damage', 'block', 'heal') then
+    return jsonb_build_object(
+      'score', v_score, 'reason', 'empowered', 'amount', (v_amounts->>v_reason)::int
+    );
+  end if;
+
+  return jsonb_build_object('score', v_score, 'reason', v_reason, 'amount', (v_amounts->>v_reason)::int);
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_bot_turn
+-- Unchanged from 035 except cards are scored by the seat's policy and difficulty, bots converge,
+-- and each decision is logged with its reason.
+-- ----------------------------
+
+create or replace function public.combat_bot_turn(
+  p_room_id uuid,
+  p_bot_player_id public.player_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_runner_id uuid;
+  v_seat record;
+  v_policy public.bot_policies;
+  v_difficulty public.bot_difficulties;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_bot_hp int;
+  v_action_log jsonb := '[]'::jsonb;
+  v_best_idx int;
+  v_best_score numeric;
+  v_best jsonb;
+  v_scored jsonb;
+  v_card_instance jsonb;
+  v_card record;
+  v_card_idx int;
+  v_target_enemy_idx int;
+  v_target_enemy_id uuid;
+  v_incoming int;
+  v_empowered int;
+  v_result jsonb;
+  v_iteration int := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_runner_id := public._bot_runner_user_id(p_room_id);
+  if v_runner_id <> v_user_id then
+    raise exception 'Only the bot runner can run bot turns';
+  end if;
+
+  select rp.is_bot, rp.bot_policy, rp.bot_difficulty into v_seat
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.player_id = p_bot_player_id;
+
+  if not v_seat.is_bot then
+    raise exception 'Player is not a bot';
+  end if;
+
+  select * into v_policy from public.bot_policies where id = v_seat.bot_policy;
+  if not found then
+    select * into v_policy from public.bot_policies where id = 'balanced';
+  end if;
+
+  select * into v_difficulty from public.bot_difficulties where id = v_seat.bot_difficulty;
+  if not found then
+    select * into v_difficulty from public.bot_difficulties where id = 'normal';
+  end if;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player';
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select c.hp into v_bot_hp
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+  if v_bot_hp <= 0 then
+    update public.player_turn_state set has_ended_turn = true
+    where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+    return jsonb_build_object('actions', v_action_log, 'dead', true);
+  end if;
+
+  loop
+    v_iteration := v_iteration + 1;
+    if v_iteration > 10 then exit; end if;  -- Safety limit
+
+    select * into v_pcs from public.player_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = p_bot_player_id;
+
+    select c.hp into v_bot_hp
+    from public.characters c
+    where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+    if v_bot_hp <= 0 then exit; end if;
+
+    -- Policy target: the lowest HP enemy, or the one whose intent hits hardest
+    v_target_enemy_idx := null;
+    select sub.idx, sub.id into v_target_enemy_idx, v_target_enemy_id
+    from (
+      select ecs.id, ecs.hp, row_number() over (order by ecs.position) - 1 as idx,
+             case when v_policy.target = 'highest_threat' then public._enemy_intent_damage(ecs.id, 0) else 0 end as threat
+      from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    ) sub
+    order by sub.threat desc, sub.hp asc limit 1;
+
+    if v_target_enemy_idx is null then exit; end if;
+
+    -- Converge once enough traits are empowered; bots blind to empowerment never do
+    select count(*) into v_empowered
+    from jsonb_each_text(v_pcs.trait_charges)
+    where value::int >= 3;
+
+    if v_difficulty.empower_skill > 0 and v_empowered >= v_policy.converge_at then
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'bot_decision', 'player', p_bot_player_id::text,
+        p_source => 'converge', p_final_amount => v_empowered
+      );
+      v_result := public._use_convergence(p_room_id, v_screen_id, v_turn_id, p_bot_player_id);
+      v_action_log := v_action_log || jsonb_build_object(
+        'action', 'convergence',
+        'damage', (v_result->>'damage')::int,
+        'block', (v_result->>'block')::int,
+        'heal', (v_result->>'heal')::int,
+        'reason', 'converge'
+      );
+      continue;
+    end if;
+
+    if jsonb_array_length(v_pcs.hand) = 0 then exit; end if;
+
+    -- Damage the enemies aim at this bot (or the whole party) this turn
+    select coalesce(sum(public._enemy_intent_damage(ecs.id, v_pcs.vulnerable)), 0) into v_incoming
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+      and (ecs.target_player_id = p_bot_player_id or ecs.target_player_id is null);
+
+    -- Pick the best scoring affordable card
+    v_best_idx := -1;
+    v_best_score := -1;
+
+    for v_card_idx in 0..jsonb_array_length(v_pcs.hand) - 1 loop
+      v_card_instance := v_pcs.hand->v_card_idx;
+      select * into v_card from public.card_definitions where id = v_card_instance->>'cardId';
+
+      if v_card is null or v_card.cost > v_pcs.energy or 'unplayable' = any(v_card.keywords) then
+        continue;
+      end if;
+
+      v_scored := public._bot_score_card(
+        p_room_id, v_screen_id, p_bot_player_id, v_card_instance,
+        v_policy, v_difficulty, v_target_enemy_id, v_incoming
+      );
+
+      if (v_scored->>'score')::numeric > v_best_score then
+        v_best_score := (v_scored->>'score')::numeric;
+        v_best_idx := v_card_idx;
+        v_best := v_scored;
+      end if;
+    end loop;
+
+    if v_best_idx < 0 then exit; end if;  -- No affordable cards
+
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'bot_decision', 'player', p_bot_player_id::text,
+      p_target_type => 'enemy', p_target_id => v_target_enemy_id::text,
+      p_card_id => v_pcs.hand->v_best_idx->>'cardId',
+      p_source => v_best->>'reason', p_final_amount => (v_best->>'amount')::int
+    );
+
+    v_result := public._play_card(p_room_id, v_screen_id, p_bot_player_id, v_best_idx, v_target_enemy_idx);
+
+    v_action_log := v_action_log || jsonb_build_object(
+      'action', 'spell',
+      'spellId', v_result->>'cardId',
+      'spellName', v_result->>'cardName',
+      'targetId', v_result->>'targetEnemyId',
+      'damage', (v_result->>'damage')::int,
+      'block', (v_result->>'block')::int,
+      'heal', (v_result->>'heal')::int,
+      'reason', v_best->>'reason'
+    );
+  end loop;
+
+  -- End bot turn
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+
+  if not exists (
+    select 1
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    where pts.combat_turn_id = v_turn_id and pts.has_ended_turn = false and c.hp > 0
+  ) then
+    perform public._end_player_phase(p_room_id, v_turn_id);
+  end if;
+
+  return jsonb_build_object('actions', v_action_log);
+end;
+$$;
+
+grant execute on function public.combat_bot_turn(uuid, public.player_id) to authenticated;
+
+commit;
@@ -0,0 +1,646 @@
+-- 040: Card and encounter analytics
+-- Real runs feed four analytics tables: the reward cards each player was offered and the one
+-- they picked (combat_generate_rewards, combat_select_reward), every fight's outcome, every
+-- character death with the enemy template that dealt it, and each character's deck when the run
+-- is lost or won. Outcomes, deaths and decks are recorded by triggers, so the combat functions
+-- need no change. The tables keep no foreign keys, so deleting a room keeps its numbers, and
+-- clients can't read them: the developer analytics screen reads the analytics_* views, which
+-- leave playtests (single-screen rooms) out.
+
+begin;
+
+create table if not exists public.analytics_reward_offers (
+  id bigint generated always as identity primary key,
+  room_id uuid not null,
+  screen_id uuid not null,
+  player_id public.player_id not null,
+  role_id public.role_id,
+  bloc int,
+  ascension int not null default 0,
+  is_playtest boolean not null default false,
+  offered_card_ids text[] not null,
+  picked_card_id text, -- null until one of the offered cards is added
+  created_at timestamptz not null default now(),
+  picked_at timestamptz,
+  unique (room_id, screen_id, player_id)
+);
+
+create table if not exists public.analytics_fight_outcomes (
+  id bigint generated always as identity primary key,
+  room_id uuid not null,
+  screen_id uuid not null,
+  encounter_id text,
+  bloc int,
+  phase public.phase_type,
+  biome text,
+  is_boss boolean not null default false,
+  is_elite boolean not null default false,
+  ascension int not null default 0,
+  party_size int not null,
+  is_playtest boolean not null default false,
+  outcome text not null, -- 'victory' | 'wipe'
+  turns int,
+  created_at timestamptz not null default now(),
+  unique (room_id, screen_id)
+);
+
+create table if not exists public.analytics_player_deaths (
+  id bigint generated always as identity primary key,
+  room_id uuid not null,
+  screen_id uuid not null,
+  encounter_id text,
+  player_id public.player_id not null,
+  role_id public.role_id,
+  template_id text, -- enemy template that dealt the blow, null for statuses and self damage
+  source text, -- intent type, status id or 'self_damage'
+  is_playtest boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (room_id, screen_id, player_id)
+);
+
+create table if not exists public.analytics_deck_snapshots (
+  id bigint generated always as identity primary key,
+  room_id uuid not null,
+  player_id public.player_id not null,
+  role_id public.role_id,
+  outcome text not null, -- 'victory' | 'defeat'
+  deck jsonb not null, -- characters.deck when the run ended
+  bloc int,
+  ascension int not null default 0,
+  is_playtest boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (room_id, player_id)
+);
+
+create index if not exists analytics_fight_outcomes_encounter_idx
+  on public.analytics_fight_outcomes (encounter_id);
+create index if not exists analytics_player_deaths_template_idx
+  on public.analytics_player_deaths (template_id);
+
+-- RLS on and no policies: only the views (and security definer functions) read the tables
+alter table public.analytics_reward_offers enable row level security;
+alter table public.analytics_fight_outcomes enable row level security;
+alter table public.analytics_player_deaths enable row level security;
+alter table public.analytics_deck_snapshots enable row level security;
+
+-- ----------------------------
+-- Helper: is the room a playtest
+-- Playtests have a single screen (same test as advance_screen's ascension unlock).
+-- ----------------------------
+
+create or replace function public._is_playtest_room(p_room_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select count(*) <= 1 from public.adventure_screens s where s.room_id = p_room_id;
+$$;
+
+-- ----------------------------
+-- Helper: record a fight's outcome
+-- First outcome wins: a fight is recorded once.
+-- ----------------------------
+
+create or replace function public._record_fight_outcome(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_outcome text
+)
+returns void
+language plpgsql
+as $$
+begin
+  insert into public.analytics_fight_outcomes (
+    room_id, screen_id, encounter_id, bloc, phase, biome, is_boss, is_elite,
+    ascension, party_size, is_playtest, outcome, turns
+  )
+  select
+    p_room_id, s.id, s.config_json->>'encounterId', s.bloc, s.phase, s.config_json->>'biome',
+    coalesce((s.config_json->>'isBoss')::boolean, false),
+    coalesce((s.config_json->>'isElite')::boolean, false),
+    r.ascension,
+    (select count(*) from public.characters c where c.room_id = p_room_id),
+    public._is_playtest_room(p_room_id),
+    p_outcome,
+    (select ct.turn_number from public.combat_turns ct
+     where ct.room_id = p_room_id and ct.screen_id = s.id)
+  from public.adventure_screens s
+  join public.rooms r on r.id = s.room_id
+  where s.id = p_screen_id and s.room_id = p_room_id
+  on conflict (room_id, screen_id) do nothing;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: snapshot every character's deck at the end of a run
+-- ----------------------------
+
+create or replace function public._record_deck_snapshots(p_room_id uuid, p_outcome text)
+returns void
+language plpgsql
+as $$
+begin
+  insert into public.analytics_deck_snapshots (
+    room_id, player_id, role_id, outcome, deck, bloc, ascension, is_playtest
+  )
+  select
+    p_room_id, c.player_id, rp.role_id, p_outcome, public._ensure_deck(p_room_id, c.player_id),
+    r.current_bloc, r.ascension, public._is_playtest_room(p_room_id)
+  from public.characters c
+  join public.rooms r on r.id = c.room_id
+  left join public.room_players rp on rp.room_id = c.room_id and rp.player_id = c.player_id
+  where c.room_id = p_room_id
+  on conflict (room_id, player_id) do nothing;
+end;
+$$;
+
+-- ----------------------------
+-- Trigger: the last enemy of a fight dies
+-- ----------------------------
+
+create or replace function public._analytics_enemy_died()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.enemy_combat_state ecs
+    where ecs.room_id = new.room_id and ecs.screen_id = new.screen_id and ecs.is_dead = false
+  ) then
+    perform public._record_fight_outcome(new.room_id, new.screen_id, 'victory');
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_enemy_combat_state_analytics on public.enemy_combat_state;
+create trigger trg_enemy_combat_state_analytics
+after update of is_dead on public.enemy_combat_state
+for each row
+when (new.is_dead and not old.is_dead)
+execute function public._analytics_enemy_died();
+
+-- ----------------------------
+-- Trigger: a character dies
+-- The last one standing going down wipes the fight and loses the run.
+-- ----------------------------
+
+create or replace function public._analytics_character_died()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_screen_id uuid;
+begin
+  if exists (select 1 from public.characters c where c.room_id = new.room_id and c.hp > 0) then
+    return null;
+  end if;
+
+  select ct.screen_id into v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = new.room_id;
+
+  if v_screen_id is not null then
+    perform public._record_fight_outcome(new.room_id, v_screen_id, 'wipe');
+  end if;
+  perform public._record_deck_snapshots(new.room_id, 'defeat');
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_characters_analytics on public.characters;
+create trigger trg_characters_analytics
+after update of hp on public.characters
+for each row
+when (old.hp > 0 and new.hp <= 0)
+execute function public._analytics_character_died();
+
+-- ----------------------------
+-- Trigger: the blow that killed a character
+-- Combat events are logged right after the HP change, so a damage event that leaves its
+-- target at 0 HP is the killing blow.
+-- ----------------------------
+
+create or replace function public._analytics_lethal_event()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.characters c
+    where c.room_id = new.room_id and c.player_id::text = new.target_id and c.hp <= 0
+  ) then
+    return null;
+  end if;
+
+  insert into public.analytics_player_deaths (
+    room_id, screen_id, encounter_id, player_id, role_id, template_id, source, is_playtest
+  )
+  select
+    new.room_id, new.screen_id, s.config_json->>'encounterId', rp.player_id, rp.role_id,
+    case when new.actor_type = 'enemy' then (
+      select ecs.template_id from public.enemy_combat_state ecs where ecs.id::text = new.actor_id
+    ) end,
+    case when new.event_type = 'self_damage' then 'self_damage' else new.source end,
+    public._is_playtest_room(new.room_id)
+  from public.room_players rp
+  left join public.adventure_screens s on s.id = new.screen_id
+  where rp.room_id = new.room_id and rp.player_id::text = new.target_id
+  on conflict (room_id, screen_id, player_id) do nothing;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_combat_events_analytics on public.combat_events;
+create trigger trg_combat_events_analytics
+after insert on public.combat_events
+for each row
+when (
+  new.event_type in ('damage', 'self_damage') and new.target_type = 'player'
+  and coalesce(new.final_amount, 0) > 0
+)
+execute function public._analytics_lethal_event();
+
+-- ----------------------------
+-- Trigger: a won run
+-- advance_screen finishes the room after its last screen; the run is won when that screen's
+-- enemies are all dead. Cancelled runs go back to the lobby and are not recorded.
+-- ----------------------------
+
+create or replace function public._analytics_room_finished()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.enemy_combat_state ecs
+    join public.adventure_screens s on s.id = ecs.screen_id
+    where s.room_id = new.id and s.position = new.current_screen_position
+  ) and not exists (
+    select 1 from public.enemy_combat_state ecs
+    join public.adventure_screens s on s.id = ecs.screen_id
+    where s.room_id = new.id and s.position = new.current_screen_position and ecs.is_dead = false
+  ) then
+    perform public._record_deck_snapshots(new.id, 'victory');
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_rooms_analytics on public.rooms;
+create trigger trg_rooms_analytics
+after update of status on public.rooms
+for each row
+when (new.status = 'finished' and old.status <> 'finished')
+execute function public._analytics_room_finished();
+
+-- ----------------------------
+-- RPC: combat_generate_rewards
+-- Unchanged from 037 except the card offer is recorded in analytics_reward_offers.
+-- ----------------------------
+
+create or replace function public.combat_generate_rewards(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_card_choices jsonb := '[]'::jsonb;
+  v_upgrade_choices jsonb := '[]'::jsonb;
+  v_card record;
+  v_player_id public.player_id;
+  v_stream text;
+  v_is_boss boolean;
+  v_relic_choices jsonb := '[]'::jsonb;
+  v_relic record;
+  v_choice_count int := greatest(1, 3 - public._ascension_value(p_room_id, 'reward_choices', 'count'));
+  v_screen_id uuid;
+begin
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = auth.uid() and rp.is_bot = false
+  limit 1;
+  v_stream := 'rewards:' || coalesce(v_player_id::text, 'room');
+
+  -- Pick 3 random reward cards (fewer with ascension)
+  for v_card in
+    select cd.id, cd.name, cd.trait, cd.description, cd.cost, cd.is_rare
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(select id from public.card_definitions where is_starter = false order by id),
+      v_choice_count
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_card_choices := v_card_choices || jsonb_build_object(
+      'type', 'add_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'trait', v_card.trait,
+      'description', v_card.description,
+      'cost', v_card.cost,
+      'isRare', v_card.is_rare
+    );
+  end loop;
+
+  -- Pick 3 random upgradeable cards from player's deck (fewer with ascension)
+  -- (simplified: just pick from starter deck)
+  for v_card in
+    select cd.id, cd.name, cd.upgrade_name, cd.upgrade_description
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(select id from public.card_definitions where upgrade_threshold < 99 order by id),
+      v_choice_count
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_upgrade_choices := v_upgrade_choices || jsonb_build_object(
+      'type', 'upgrade_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'upgradeName', v_card.upgrade_name,
+      'upgradeDescription', v_card.upgrade_description
+    );
+  end loop;
+
+  -- One common relic after a fight, a pick of three boss relics after a boss
+  select s.screen_type = 'boss_fight', s.id into v_is_boss, v_screen_id
+  from public.combat_turns ct
+  join public.adventure_screens s on s.id = ct.screen_id
+  where ct.room_id = p_room_id
+  order by ct.created_at desc
+  limit 1;
+
+  for v_relic in
+    select rd.id, rd.name, rd.description, rd.icon, rd.rarity
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(
+        select rd.id from public.relic_definitions rd
+        where rd.rarity = case when coalesce(v_is_boss, false) then 'boss' else 'common' end
+          and not exists (
+            select 1 from public.characters c
+            where c.room_id = p_room_id and c.player_id = v_player_id and rd.id = any(c.relics)
+          )
+        order by rd.id
+      ),
+      case when coalesce(v_is_boss, false) then v_choice_count else 1 end
+    )) with ordinality as pick(relic_id, ord)
+    join public.relic_definitions rd on rd.id = pick.relic_id
+    order by pick.ord
+  loop
+    v_relic_choices := v_relic_choices || jsonb_build_object(
+      'type', 'relic',
+      'id', v_relic.id,
+      'name', v_relic.name,
+      'description', v_relic.description,
+      'icon', v_relic.icon,
+      'rarity', v_relic.rarity
+    );
+  end loop;
+
+  -- Analytics: a new roll for the same fight replaces the offer
+  if v_player_id is not null and v_screen_id is not null then
+    insert into public.analytics_reward_offers (
+      room_id, screen_id, player_id, role_id, bloc, ascension, is_playtest, offered_card_ids
+    )
+    select
+      p_room_id, v_screen_id, v_player_id, rp.role_id, r.current_bloc, r.ascension,
+      public._is_playtest_room(p_room_id),
+      array(select value->>'cardId' from jsonb_array_elements(v_card_choices))
+    from public.room_players rp
+    join public.rooms r on r.id = rp.room_id
+    where rp.room_id = p_room_id and rp.player_id = v_player_id
+    on conflict (room_id, screen_id, player_id) do update
+    set offered_card_ids = excluded.offered_card_ids,
+        picked_card_id = null,
+        created_at = now(),
+        picked_at = null;
+  end if;
+
+  return jsonb_build_object(
+    'cardChoices', v_card_choices,
+    'upgradeChoices', v_upgrade_choices,
+    'bonusChoices', jsonb_build_array(
+      jsonb_build_object('type', 'bonus', 'id', 'max-hp-10', 'name', '+10 Max HP', 'icon', '❤️'),
+      jsonb_build_object('type', 'bonus', 'id', 'heal-15', 'name', 'Heal 15 HP', 'icon', '🧪'),
+      jsonb_build_object('type', 'bonus', 'id', 'max-energy-1', 'name', '+1 Max Energy', 'icon', '⚡')
+    ),
+    'relicChoices', v_relic_choices
+  );
+end;
+$$;
+
+grant execute on function public.combat_generate_rewards(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_select_reward
+-- Unchanged from 032 except an added card is recorded as the pick of its offer.
+-- ----------------------------
+
+create or replace function public.combat_select_reward(
+  p_room_id uuid,
+  p_reward_type text,  -- 'add_card', 'upgrade_card', 'bonus', 'relic'
+  p_reward_id text     -- card_id, bonus_id or relic_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_screen_id uuid;
+  v_pcs record;
+  v_card record;
+  v_new_card jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id;
+
+  select ct.screen_id into v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id;
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  if p_reward_type = 'add_card' then
+    -- Add card to player's deck (draw pile + discard)
+    select * into v_card from public.card_definitions where id = p_reward_id;
+    if v_card is null then
+      raise exception 'Card not found';
+    end if;
+    v_new_card := jsonb_build_object('cardId', p_reward_id, 'upgraded', false, 'usageCount', 0);
+    update public.characters
+    set deck = public._ensure_deck(p_room_id, v_player_id) || jsonb_build_array(v_new_card)
+    where room_id = p_room_id and player_id = v_player_id;
+    update public.analytics_reward_offers
+    set picked_card_id = p_reward_id, picked_at = now()
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id
+      and p_reward_id = any(offered_card_ids);
+    return jsonb_build_object('applied', true, 'type', 'add_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'upgrade_card' then
+    -- Upgrade the first copy of the card in the run deck
+    declare
+      v_deck jsonb := public._ensure_deck(p_room_id, v_player_id);
+      v_i int;
+    begin
+      for v_i in 0..jsonb_array_length(v_deck) - 1 loop
+        if (v_deck->v_i->>'cardId') = p_reward_id and not coalesce((v_deck->v_i->>'upgraded')::boolean, false) then
+          update public.characters
+          set deck = jsonb_set(v_deck, array[v_i::text, 'upgraded'], 'true'::jsonb)
+          where room_id = p_room_id and player_id = v_player_id;
+          exit;
+        end if;
+      end loop;
+    end;
+    return jsonb_build_object('applied', true, 'type', 'upgrade_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'bonus' then
+    if p_reward_id = 'max-hp-10' then
+      update public.characters set hp_max = hp_max + 10, hp = hp + 10
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-hp-20' then
+      update public.characters set hp_max = hp_max + 20, hp = hp + 20
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-15' then
+      update public.characters set hp = least(hp_max, hp + 15)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-30' then
+      update public.characters set hp = least(hp_max, hp + 30)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-energy-1' then
+      update public.player_combat_state
+      set max_energy = max_energy + 1
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-5' then
+      update public.player_combat_state
+      set starting_block = starting_block + 5
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-10' then
+      update public.player_combat_state
+      set starting_block = starting_block + 10
+      where id = v_pcs.id;
+    elsif p_reward_id = 'free-first-reroll' then
+      update public.player_combat_state
+      set free_reroll = true
+      where id = v_pcs.id;
+    end if;
+    return jsonb_build_object('applied', true, 'type', 'bonus', 'bonusId', p_reward_id);
+
+  elsif p_reward_type = 'relic' then
+    if not exists (select 1 from public.relic_definitions where id = p_reward_id) then
+      raise exception 'Relic not found';
+    end if;
+    update public.characters
+    set relics = relics || p_reward_id
+    where room_id = p_room_id and player_id = v_player_id and not (p_reward_id = any(relics));
+    return jsonb_build_object('applied', true, 'type', 'relic', 'relicId', p_reward_id);
+  end if;
+
+  raise exception 'Unknown reward type: %', p_reward_type;
+end;
+$$;
+
+grant execute on function public.combat_select_reward(uuid, text, text) to authenticated;
+
+-- ----------------------------
+-- View: analytics_cards
+-- Per card: how often it was offered and picked, and how often runs with it in a deck were won.
+-- ----------------------------
+
+create or replace view public.analytics_cards as
+with offers as (
+  select card_id, count(*) as offers, count(*) filter (where o.picked_card_id = card_id) as picks
+  from public.analytics_reward_offers o
+  cross join lateral unnest(o.offered_card_ids) as card_id
+  where not o.is_playtest
+  group by card_id
+),
+decks as (
+  select card_id, count(*) as runs, count(*) filter (where d.outcome = 'victory') as wins
+  from public.analytics_deck_snapshots d
+  cross join lateral (
+    select distinct value->>'cardId' as card_id from jsonb_array_elements(d.deck)
+  ) cards
+  where not d.is_playtest
+  group by card_id
+)
+select
+  cd.id as card_id,
+  cd.name,
+  cd.trait,
+  cd.is_starter,
+  coalesce(o.offers, 0)::int as offers,
+  coalesce(o.picks, 0)::int as picks,
+  round(100.0 * o.picks / nullif(o.offers, 0), 1) as pick_rate,
+  coalesce(d.runs, 0)::int as runs_in_deck,
+  coalesce(d.wins, 0)::int as wins_in_deck,
+  round(100.0 * d.wins / nullif(d.runs, 0), 1) as win_rate_in_deck
+from public.card_definitions cd
+left join offers o on o.card_id = cd.id
+left join decks d on d.card_id = cd.id
+where o.offers is not null or d.runs is not null;
+
+grant select on public.analytics_cards to authenticated;
+
+-- ----------------------------
+-- View: analytics_encounters
+-- ----------------------------
+
+create or replace view public.analytics_encounters as
+select
+  f.encounter_id,
+  count(*)::int as fights,
+  count(*) filter (where f.outcome = 'victory')::int as victories,
+  count(*) filter (where f.outcome = 'wipe')::int as wipes,
+  round(100.0 * count(*) filter (where f.outcome = 'victory') / count(*), 1) as win_rate,
+  round(avg(f.turns), 1) as average_turns,
+  (
+    select count(*) from public.analytics_player_deaths pd
+    where pd.encounter_id = f.encounter_id and not pd.is_playtest
+  )::int as deaths
+from public.analytics_fight_outcomes f
+where not f.is_playtest and f.encounter_id is not null
+group by f.encounter_id;
+
+grant select on public.analytics_encounters to authenticated;
+
+-- ----------------------------
+-- View: analytics_lethal_enemies
+-- Enemy templates by the characters they killed.
+-- ----------------------------
+
+create or replace view public.analytics_lethal_enemies as
+select
+  pd.template_id,
+  et.name,
+  count(*)::int as kills,
+  count(distinct (pd.room_id, pd.screen_id))::int as fights_with_kills,
+  count(distinct (pd.room_id, pd.screen_id)) filter (where f.outcome = 'wipe')::int as wipes
+from public.analytics_player_deaths pd
+left join public.enemy_templates et on et.id = pd.template_id
+left join public.analytics_fight_outcomes f
+  on f.room_id = pd.room_id and f.screen_id = pd.screen_id
+where not pd.is_playtest and pd.template_id is not null
+group by pd.template_id, et.name;
+
+grant select on public.analytics_lethal_enemies to authenticated;
+
+commit;
@@ -0,0 +1,549 @@
+-- 041: Branching adventure map
+-- Each bloc is now a map of rows: one to three screens side by side (map_lane), every screen
+-- pointing to the one to three screens of the next row it leads to (next_positions). The early
+-- screens and the resolve screens stay single-lane, so every bloc opens and closes on one screen.
+-- The map is generated with the room, so every client draws the same one. When a finished screen
+-- leads to more than one screen, advance_screen stops between screens and the party votes on the
+-- map (vote_next_screen); the host's next advance_screen follows the most voted screen, and the
+-- host's own vote breaks a tie. Rooms already under way keep their straight line.
+
+begin;
+
+alter table public.adventure_screens
+  add column if not exists map_row int not null default 0,
+  add column if not exists map_lane int not null default 0,
+  add column if not exists next_positions int[] not null default '{}';
+
+-- Adventures generated before the map walk their screens in order
+update public.adventure_screens s
+set map_row = s.position,
+    next_positions = array[s.position + 1]
+where s.next_positions = '{}'
+  and exists (
+    select 1 from public.adventure_screens n
+    where n.room_id = s.room_id and n.position = s.position + 1
+  );
+
+create table if not exists public.adventure_path_votes (
+  screen_id uuid not null references public.adventure_screens(id) on delete cascade,
+  player_id public.player_id not null,
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  next_position int not null,
+  created_at timestamptz not null default now(),
+  primary key (screen_id, player_id)
+);
+
+-- ----------------------------
+-- RLS
+-- ----------------------------
+alter table public.adventure_path_votes enable row level security;
+
+drop policy if exists adventure_path_votes_select on public.adventure_path_votes;
+create policy adventure_path_votes_select on public.adventure_path_votes
+  for select to authenticated
+  using (public.is_room_member(room_id));
+
+grant select on public.adventure_path_votes to authenticated;
+
+-- ----------------------------
+-- Realtime
+-- ----------------------------
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'adventure_path_votes'
+  ) then
+    execute 'alter publication supabase_realtime add table public.adventure_path_votes';
+  end if;
+end
+$$;
+
+-- ----------------------------
+-- Helper: link two rows of the map
+-- Every screen of p_from leads straight ahead (its lane scaled to the next row's width), and
+-- every screen of p_to is reached from the screen straight behind it, so no screen is left
+-- unreachable. A screen sometimes gets a diagonal too, rolled on the 'map' stream.
+-- ----------------------------
+
+create or replace function public._link_map_rows(p_room_id uuid, p_from int[], p_to int[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from_width int := cardinality(p_from);
+  v_to_width int := cardinality(p_to);
+  v_next int[];
+  v_ahead int;
+  v_side int;
+  i int;
+  j int;
+begin
+  for i in 1..v_from_width loop
+    v_ahead := case
+      when v_from_width = 1 then 1
+      else round((i - 1) * (v_to_width - 1)::numeric / (v_from_width - 1))::int + 1
+    end;
+    v_next := array[p_to[v_ahead]];
+
+    if v_to_width > 1 then
+      for j in 1..v_to_width loop
+        if round((j - 1) * (v_from_width - 1)::numeric / (v_to_width - 1))::int + 1 = i then
+          v_next := v_next || p_to[j];
+        end if;
+      end loop;
+
+      if v_from_width > 1 and public._rng_int(p_room_id, 'map', 1, 100) <= 40 then
+        v_side := case
+          when v_ahead = 1 then 2
+          when v_ahead = v_to_width then v_to_width - 1
+          when public._rng_int(p_room_id, 'map', 1, 2) = 1 then v_ahead - 1
+          else v_ahead + 1
+        end;
+        v_next := v_next || p_to[v_side];
+      end if;
+    end if;
+
+    update public.adventure_screens
+    set next_positions = (select array_agg(distinct n order by n) from unnest(v_next) n)
+    where room_id = p_room_id and position = p_from[i];
+  end loop;
+end;
+$$;
+
+-- ----------------------------
+-- RPC: generate_adventure
+-- Unchanged from 037 except that the screens are laid out as a map: the core rows hold two or
+-- three screens each (width rolled on the 'map' stream) and every row is linked to the next.
+-- ----------------------------
+
+create or replace function public.generate_adventure(p_room_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing int;
+  v_position int := 0;
+  v_row int := 0;
+  v_bloc int;
+  v_total_blocs int := 3;
+  v_screen_count int;
+  v_width int;
+  v_base_level int;
+  v_screen_type public.screen_type;
+  v_config jsonb;
+  v_elite_chance int := public._ascension_value(p_room_id, 'elite_chance', 'percent');
+  v_rest_percent int := greatest(0, 50 - public._ascension_value(p_room_id, 'rest_heal', 'percent'));
+  v_is_elite boolean;
+  v_prev_row int[] := '{}';
+  v_this_row int[];
+  i int;
+  v_lane int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_room_member(p_room_id) then
+    raise exception 'Not a room member';
+  end if;
+
+  -- Don't re-generate
+  select count(*) into v_existing
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  for v_bloc in 1..v_total_blocs loop
+    v_base_level := 1 + (v_bloc - 1) * 3;
+
+    -- EARLY phase (bloc 1 only)
+    if v_bloc = 1 then
+      v_screen_count := public._rng_int(p_room_id, 'adventure', 1, 2);
+      for i in 1..v_screen_count loop
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+        values (
+          p_room_id, v_bloc, 'early', v_position, 'narrative_choice',
+          jsonb_build_object(
+            'prompt', 'You arrive at a crossroads...',
+            'options', jsonb_build_array(
+              jsonb_build_object('id', 'a', 'text', 'Take the safe path', 'effect', jsonb_build_object('hpDelta', 10)),
+              jsonb_build_object('id', 'b', 'text', 'Take the risky path', 'effect', jsonb_build_object('goldDelta', 20))
+            )
+          ),
+          v_row
+        );
+        if cardinality(v_prev_row) > 0 then
+          perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+        end if;
+        v_prev_row := array[v_position];
+        v_position := v_position + 1;
+        v_row := v_row + 1;
+      end loop;
+    end if;
+
+    -- CORE phase
+    v_screen_count := public._rng_int(p_room_id, 'adventure', 5, 6);
+    for i in 1..v_screen_count loop
+      v_width := public._rng_int(p_room_id, 'map', 2, 3);
+      v_this_row := '{}';
+
+      for v_lane in 0..v_width - 1 loop
+        v_screen_type := public._rng_core_screen_type(p_room_id);
+
+        if v_screen_type = 'combat' then
+          -- Only rolled with elites enabled, so lower ascensions keep their adventure stream
+          v_is_elite := false;
+          if v_elite_chance > 0 then
+            v_is_elite := public._rng_int(p_room_id, 'adventure', 1, 100) <= v_elite_chance;
+          end if;
+
+          v_config := jsonb_build_object(
+            'enemyCount', public._rng_int(p_room_id, 'adventure', 2, 4),
+            'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+            'isBoss', false,
+            'isElite', v_is_elite
+          );
+        elsif v_screen_type = 'narrative_choice' then
+          v_config := jsonb_build_object(
+            'prompt', 'A mysterious figure approaches...',
+            'options', jsonb_build_array(
+              jsonb_build_object('id', 'a', 'text', 'Help them', 'effect', jsonb_build_object('expDelta', 15)),
+              jsonb_build_object('id', 'b', 'text', 'Ignore them', 'effect', jsonb_build_object('goldDelta', 10)),
+              jsonb_build_object('id', 'c', 'text', 'Rob them', 'effect', jsonb_build_object('goldDelta', 30, 'hpDelta', -10))
+            )
+          );
+        else
+          -- puzzle
+          v_config := jsonb_build_object(
+            'puzzleId', 'riddle_' || v_bloc || '_' || i,
+            'timeLimit', 30,
+            'reward', jsonb_build_object('expDelta', 20, 'goldDelta', 15),
+            'penalty', jsonb_build_object('hpDelta', -15)
+          );
+        end if;
+
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row, map_lane)
+        values (p_room_id, v_bloc, 'core', v_position, v_screen_type, v_config, v_row, v_lane);
+        v_this_row := v_this_row || v_position;
+        v_position := v_position + 1;
+      end loop;
+
+      if cardinality(v_prev_row) > 0 then
+        perform public._link_map_rows(p_room_id, v_prev_row, v_this_row);
+      end if;
+      v_prev_row := v_this_row;
+      v_row := v_row + 1;
+    end loop;
+
+    -- RESOLVE phase
+    if v_bloc = v_total_blocs then
+      -- Final boss only
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'lich_commander'
+        ),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+    else
+      -- Boss fight
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', 'forest_guardian'
+        ),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+
+      -- Shop
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'shop',
+        jsonb_build_object(
+          'items', jsonb_build_array(
+            jsonb_build_object('id', 'elixir', 'name', 'elixir', 'cost', 40, 'effect', jsonb_build_object('expDelta', 50))
+          ),
+          'potions', public._shop_potion_offer(p_room_id),
+          'relics', public._shop_relic_offer(p_room_id)
+        ),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+
+      -- Rest
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'rest',
+        jsonb_build_object('hpRestorePercent', v_rest_percent),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+    end if;
+
+  end loop;
+
+  -- Set room to first screen
+  update public.rooms
+  set current_screen_position = 0, current_bloc = 1
+  where id = p_room_id;
+
+  return v_position;
+end;
+$$;
+
+grant execute on function public.generate_adventure(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: vote_next_screen
+-- Any player may vote, and change their vote, while the party stands at a fork of the map.
+-- ----------------------------
+
+create or replace function public.vote_next_screen(p_room_id uuid, p_next_position int)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_screen record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  select s.id, s.is_completed, s.next_positions into v_screen
+  from public.rooms r
+  join public.adventure_screens s
+    on s.room_id = r.id and s.position = r.current_screen_position
+  where r.id = p_room_id and r.status = 'in_progress';
+
+  if v_screen.id is null or not v_screen.is_completed or cardinality(v_screen.next_positions) < 2 then
+    raise exception 'No path to vote on';
+  end if;
+
+  if not p_next_position = any(v_screen.next_positions) then
+    raise exception 'Screen % is not reachable from here', p_next_position;
+  end if;
+
+  insert into public.adventure_path_votes (screen_id, player_id, room_id, next_position)
+  values (v_screen.id, v_player_id, p_room_id, p_next_position)
+  on conflict (screen_id, player_id) do update
+  set next_position = excluded.next_position,
+      created_at = now();
+end;
+$$;
+
+grant execute on function public.vote_next_screen(uuid, int) to authenticated;
+
+-- ----------------------------
+-- RPC: advance_screen
+-- Unchanged from 037 except that it follows the map: a single next screen is entered at once, a
+-- fork first stops between screens for the party's vote, and the run ends on a screen that leads
+-- nowhere instead of on the last position.
+-- ----------------------------
+
+create or replace function public.advance_screen(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_host_id uuid;
+  v_current_pos int;
+  v_current_screen record;
+  v_current_screen_id uuid;
+  v_next_pos int;
+  v_host_player_id public.player_id;
+  v_tally record;
+  v_top_votes int;
+  v_top_has_host boolean;
+  v_next_screen record;
+  v_total_screens int;
+  v_ascension int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id, r.current_screen_position, r.ascension
+  into v_host_id, v_current_pos, v_ascension
+  from public.rooms r
+  where r.id = p_room_id
+  for update;
+
+  if v_host_id is null then
+    raise exception 'Room not found';
+  end if;
+
+  if v_host_id <> v_user_id then
+    raise exception 'Only host can advance';
+  end if;
+
+  select s.id, s.is_completed, s.next_positions into v_current_screen
+  from public.adventure_screens s
+  where s.room_id = p_room_id and s.position = v_current_pos;
+  v_current_screen_id := v_current_screen.id;
+
+  if cardinality(v_current_screen.next_positions) > 1 then
+    if not v_current_screen.is_completed then
+      -- A fork: stop between screens so the party can vote on the map
+      update public.adventure_screens set is_completed = true where id = v_current_screen_id;
+
+      return jsonb_build_object(
+        'finished', false,
+        'choosingPath', true,
+        'screenId', v_current_screen_id,
+        'nextPositions', to_jsonb(v_current_screen.next_positions)
+      );
+    end if;
+
+    -- Most votes wins; on a tie, the screen the host voted for
+    select rp.player_id into v_host_player_id
+    from public.room_players rp
+    where rp.room_id = p_room_id and rp.user_id = v_host_id and rp.is_bot = false;
+
+    for v_tally in
+      select v.next_position, count(*) as votes, bool_or(v.player_id = v_host_player_id) as has_host
+      from public.adventure_path_votes v
+      where v.screen_id = v_current_screen_id and v.next_position = any(v_current_screen.next_positions)
+      group by v.next_position
+      order by count(*) desc, bool_or(v.player_id = v_host_player_id) desc, v.next_position
+      limit 2
+    loop
+      if v_next_pos is null then
+        v_next_pos := v_tally.next_position;
+        v_top_votes := v_tally.votes;
+        v_top_has_host := v_tally.has_host;
+      elsif v_tally.votes = v_top_votes and not v_top_has_host then
+        raise exception 'The vote is tied: the host breaks it';
+      end if;
+    end loop;
+
+    if v_next_pos is null then
+      raise exception 'No one voted for the next screen';
+    end if;
+  else
+    -- Mark current screen completed
+    update public.adventure_screens
+    set is_completed = true
+    where id = v_current_screen_id;
+
+    v_next_pos := v_current_screen.next_positions[1];
+  end if;
+
+  -- Playtests have a single screen
+  select count(*) into v_total_screens
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  -- The last screen of the map leads nowhere
+  if v_next_pos is null then
+    -- Adventure complete
+    update public.rooms
+    set status = 'finished'
+    where id = p_room_id;
+
+    -- A won run (final fight cleared; playtests have a single screen) unlocks the next level
+    if v_total_screens > 1
+      and exists (
+        select 1 from public.enemy_combat_state ecs
+        where ecs.room_id = p_room_id and ecs.screen_id = v_current_screen_id
+      )
+      and not exists (
+        select 1 from public.enemy_combat_state ecs
+        where ecs.room_id = p_room_id and ecs.screen_id = v_current_screen_id and ecs.is_dead = false
+      )
+    then
+      insert into public.player_ascension (user_id, max_level)
+      select distinct rp.user_id,
+             least(v_ascension + 1, (select coalesce(max(al.level), 0) from public.ascension_levels al))
+      from public.room_players rp
+      where rp.room_id = p_room_id and (rp.is_bot = false or rp.bot_takeover = true)
+      on conflict (user_id) do update
+      set max_level = greatest(public.player_ascension.max_level, excluded.max_level),
+          updated_at = now();
+    end if;
+
+    return jsonb_build_object('finished', true);
+  end if;
+
+  -- Advance to next screen
+  update public.rooms
+  set current_screen_position = v_next_pos,
+      current_bloc = coalesce(
+        (select s.bloc from public.adventure_screens s where s.room_id = p_room_id and s.position = v_next_pos),
+        current_bloc
+      )
+  where id = p_room_id;
+
+  -- Get next screen info
+  select s.id, s.screen_type, s.config_json, s.bloc, s.phase, s.position
+  into v_next_screen
+  from public.adventure_screens s
+  where s.room_id = p_room_id and s.position = v_next_pos;
+
+  -- Clean up old enemies before seeding new ones
+  delete from public.enemies where room_id = p_room_id and screen_id = v_current_screen_id;
+
+  -- Auto-seed enemies if next screen is combat or boss
+  if v_next_screen.screen_type in ('combat', 'boss_fight') then
+    perform public.seed_enemies_for_screen(p_room_id, v_next_screen.id);
+  end if;
+
+  return jsonb_build_object(
+    'finished', false,
+    'screenId', v_next_screen.id,
+    'screenType', v_next_screen.screen_type,
+    'bloc', v_next_screen.bloc,
+    'phase', v_next_screen.phase,
+    'position', v_next_screen.position
+  );
+end;
+$$;
+
+grant execute on function public.advance_screen(uuid) to authenticated;
+
+commit;
@@ -0,0 +1,340 @@
+-- 042: Biome-driven adventures
+-- Biomes are defined in src/features/gameConfig/biomes.ts and seeded into public.biomes by
+-- bin/generate-sql.ts (generated/biomes.sql), each phase with its theme, ambiance, narrative
+-- templates, fight intro and boss. The host picks the run's biome in the lobby (set_room_biome);
+-- left unset, generate_adventure rolls one and stores it in rooms.biome so every client knows it.
+-- Narrative screens are drawn from the biome's templates for their phase, never twice in a run:
+-- once a phase's templates run out, its core rows roll a fight or a puzzle instead. Fights carry
+-- the biome in config_json.biome, which narrows their encounter roll, and boss fights take their
+-- bossName from the biome.
+
+begin;
+
+create table if not exists public.biomes (
+  id text primary key,
+  position int not null default 0,
+  name text not null,
+  description text not null default '',
+  phases jsonb not null -- {early|core|resolve: {theme, ambiance, narratives, combatIntro, bossId, bossIntro}}
+);
+
+alter table public.rooms
+  add column if not exists biome text; -- null in the lobby = rolled by generate_adventure
+
+-- ----------------------------
+-- RPC: set_room_biome
+-- Host only, in the lobby. Null lets generate_adventure roll the biome.
+-- ----------------------------
+
+create or replace function public.set_room_biome(p_room_id uuid, p_biome text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id, r.status into v_room from public.rooms r where r.id = p_room_id;
+
+  if v_room.host_user_id is distinct from v_user_id then
+    raise exception 'Only host can change the biome';
+  end if;
+
+  if v_room.status <> 'lobby' then
+    raise exception 'Biome can only be changed in the lobby';
+  end if;
+
+  if p_biome is not null and not exists (select 1 from public.biomes b where b.id = p_biome) then
+    raise exception 'Unknown biome %', p_biome;
+  end if;
+
+  update public.rooms set biome = p_biome where id = p_room_id;
+end;
+$$;
+
+grant execute on function public.set_room_biome(uuid, text) to authenticated;
+
+-- ----------------------------
+-- Helper: draw a narrative template
+-- A template of the biome's phase not in p_used, ordered by id and rolled on the 'adventure'
+-- stream. Null once every template of the phase was used.
+-- ----------------------------
+
+create or replace function public._draw_biome_narrative(
+  p_room_id uuid,
+  p_biome text,
+  p_phase public.phase_type,
+  p_used text[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_left jsonb;
+begin
+  select coalesce(jsonb_agg(n order by n->>'id'), '[]'::jsonb) into v_left
+  from public.biomes b,
+       jsonb_array_elements(coalesce(b.phases->p_phase::text->'narratives', '[]'::jsonb)) n
+  where b.id = p_biome and not (n->>'id' = any(p_used));
+
+  if jsonb_array_length(v_left) = 0 then
+    return null;
+  end if;
+
+  return v_left->(public._rng_int(p_room_id, 'adventure', 1, jsonb_array_length(v_left)) - 1);
+end;
+$$;
+
+-- ----------------------------
+-- RPC: generate_adventure
+-- Unchanged from 041 except that the run is set in a biome: narrative screens come from its
+-- templates, fights carry it and bosses are named after it.
+-- ----------------------------
+
+create or replace function public.generate_adventure(p_room_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing int;
+  v_position int := 0;
+  v_row int := 0;
+  v_bloc int;
+  v_total_blocs int := 3;
+  v_screen_count int;
+  v_width int;
+  v_base_level int;
+  v_screen_type public.screen_type;
+  v_config jsonb;
+  v_elite_chance int := public._ascension_value(p_room_id, 'elite_chance', 'percent');
+  v_rest_percent int := greatest(0, 50 - public._ascension_value(p_room_id, 'rest_heal', 'percent'));
+  v_is_elite boolean;
+  v_biome text;
+  v_biome_phases jsonb;
+  v_narrative jsonb;
+  v_used_narratives text[] := '{}';
+  v_prev_row int[] := '{}';
+  v_this_row int[];
+  i int;
+  v_lane int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_room_member(p_room_id) then
+    raise exception 'Not a room member';
+  end if;
+
+  -- Don't re-generate
+  select count(*) into v_existing
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  -- The host's biome, or one rolled among all biomes
+  select r.biome into v_biome from public.rooms r where r.id = p_room_id;
+  if v_biome is null then
+    select b.id into v_biome
+    from public.biomes b
+    order by b.position, b.id
+    offset public._rng_int(p_room_id, 'adventure', 1, greatest((select count(*) from public.biomes)::int, 1)) - 1
+    limit 1;
+
+    update public.rooms set biome = v_biome where id = p_room_id;
+  end if;
+
+  select b.phases into v_biome_phases from public.biomes b where b.id = v_biome;
+  if v_biome_phases is null then
+    raise exception 'No biome to set the adventure in';
+  end if;
+
+  for v_bloc in 1..v_total_blocs loop
+    v_base_level := 1 + (v_bloc - 1) * 3;
+
+    -- EARLY phase (bloc 1 only), as many screens as the biome has early templates
+    if v_bloc = 1 then
+      v_screen_count := public._rng_int(p_room_id, 'adventure', 1, 2);
+      for i in 1..v_screen_count loop
+        v_narrative := public._draw_biome_narrative(p_room_id, v_biome, 'early', v_used_narratives);
+        exit when v_narrative is null;
+        v_used_narratives := v_used_narratives || (v_narrative->>'id');
+
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+        values (
+          p_room_id, v_bloc, 'early', v_position, 'narrative_choice',
+          jsonb_build_object(
+            'narrativeId', v_narrative->>'id',
+            'prompt', v_narrative->>'prompt',
+            'options', v_narrative->'options'
+          ),
+          v_row
+        );
+        if cardinality(v_prev_row) > 0 then
+          perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+        end if;
+        v_prev_row := array[v_position];
+        v_position := v_position + 1;
+        v_row := v_row + 1;
+      end loop;
+    end if;
+
+    -- CORE phase
+    v_screen_count := public._rng_int(p_room_id, 'adventure', 5, 6);
+    for i in 1..v_screen_count loop
+      v_width := public._rng_int(p_room_id, 'map', 2, 3);
+      v_this_row := '{}';
+
+      for v_lane in 0..v_width - 1 loop
+        v_screen_type := public._rng_core_screen_type(p_room_id);
+
+        v_narrative := null;
+        if v_screen_type = 'narrative_choice' then
+          v_narrative := public._draw_biome_narrative(p_room_id, v_biome, 'core', v_used_narratives);
+          -- Every core template told: a fight or a puzzle instead
+          while v_narrative is null and v_screen_type = 'narrative_choice' loop
+            v_screen_type := public._rng_core_screen_type(p_room_id);
+          end loop;
+        end if;
+
+        if v_screen_type = 'combat' then
+          -- Only rolled with elites enabled, so lower ascensions keep their adventure stream
+          v_is_elite := false;
+          if v_elite_chance > 0 then
+            v_is_elite := public._rng_int(p_room_id, 'adventure', 1, 100) <= v_elite_chance;
+          end if;
+
+          v_config := jsonb_build_object(
+            'enemyCount', public._rng_int(p_room_id, 'adventure', 2, 4),
+            'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+            'isBoss', false,
+            'isElite', v_is_elite,
+            'biome', v_biome
+          );
+        elsif v_screen_type = 'narrative_choice' then
+          v_used_narratives := v_used_narratives || (v_narrative->>'id');
+          v_config := jsonb_build_object(
+            'narrativeId', v_narrative->>'id',
+            'prompt', v_narrative->>'prompt',
+            'options', v_narrative->'options'
+          );
+        else
+          -- puzzle
+          v_config := jsonb_build_object(
+            'puzzleId', 'riddle_' || v_bloc || '_' || i,
+            'timeLimit', 30,
+            'reward', jsonb_build_object('expDelta', 20, 'goldDelta', 15),
+            'penalty', jsonb_build_object('hpDelta', -15)
+          );
+        end if;
+
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row, map_lane)
+        values (p_room_id, v_bloc, 'core', v_position, v_screen_type, v_config, v_row, v_lane);
+        v_this_row := v_this_row || v_position;
+        v_position := v_position + 1;
+      end loop;
+
+      if cardinality(v_prev_row) > 0 then
+        perform public._link_map_rows(p_room_id, v_prev_row, v_this_row);
+      end if;
+      v_prev_row := v_this_row;
+      v_row := v_row + 1;
+    end loop;
+
+    -- RESOLVE phase
+    if v_bloc = v_total_blocs then
+      -- Final boss only
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', coalesce(v_biome_phases->'resolve'->>'bossId', 'lich_commander'),
+          'biome', v_biome
+        ),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+    else
+      -- Boss fight
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossName', coalesce(v_biome_phases->'core'->>'bossId', 'forest_guardian'),
+          'biome', v_biome
+        ),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+
+      -- Shop
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'shop',
+        jsonb_build_object(
+          'items', jsonb_build_array(
+            jsonb_build_object('id', 'elixir', 'name', 'elixir', 'cost', 40, 'effect', jsonb_build_object('expDelta', 50))
+          ),
+          'potions', public._shop_potion_offer(p_room_id),
+          'relics', public._shop_relic_offer(p_room_id)
+        ),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+
+      -- Rest
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'rest',
+        jsonb_build_object('hpRestorePercent', v_rest_percent),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+    end if;
+
+  end loop;
+
+  -- Set room to first screen
+  update public.rooms
+  set current_screen_position = 0, current_bloc = 1
+  where id = p_room_id;
+
+  return v_position;
+end;
+$$;
+
+grant execute on function public.generate_adventure(uuid) to authenticated;
+
+commit;
@@ -0,0 +1,481 @@
+-- 044: Combat upgrades persist in the run deck
+-- Cards are dealt from characters.deck, but the usage they gained in a fight (usageCount, and the
+-- upgrade it triggers at the card's threshold) stayed on the combat copies and was lost at the
+-- next fight; rest and shop deck operations worked on the stale cards too. combat_init_turn now
+-- tags every dealt card with its index in the run deck (deckIndex), and _sync_run_deck writes
+-- the fight's usage back once it is won (combat_select_reward) or left (advance_screen). Syncing
+-- keeps the highest usage and any upgrade, so it can run twice and never undoes an upgrade
+-- picked as a reward.
+
+begin;
+
+-- ----------------------------
+-- Helper: write a fight's card usage back to the run decks
+-- Cards made during the fight (no deckIndex) are left out.
+-- ----------------------------
+
+create or replace function public._sync_run_deck(p_room_id uuid, p_screen_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  update public.characters c
+  set deck = (
+    select jsonb_agg(
+      case
+        when u.deck_index is null then d.card
+        else d.card || jsonb_build_object(
+          'usageCount', greatest(coalesce((d.card->>'usageCount')::int, 0), u.usage_count),
+          'upgraded', coalesce((d.card->>'upgraded')::boolean, false) or u.upgraded
+        )
+      end
+      order by d.ord
+    )
+    from jsonb_array_elements(c.deck) with ordinality d(card, ord)
+    left join (
+      select
+        (i.card->>'deckIndex')::int as deck_index,
+        max(coalesce((i.card->>'usageCount')::int, 0)) as usage_count,
+        bool_or(coalesce((i.card->>'upgraded')::boolean, false)) as upgraded
+      from public.player_combat_state pcs,
+           jsonb_array_elements(pcs.draw_pile || pcs.hand || pcs.discard_pile || pcs.exhaust_pile) i(card)
+      where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id and pcs.player_id = c.player_id
+        and i.card ? 'deckIndex'
+      group by 1
+    ) u on u.deck_index = d.ord - 1
+  )
+  where c.room_id = p_room_id
+    and jsonb_array_length(coalesce(c.deck, '[]'::jsonb)) > 0
+    and exists (
+      select 1 from public.player_combat_state pcs
+      where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id and pcs.player_id = c.player_id
+    );
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_init_turn
+-- Unchanged from 032 except that dealt cards carry their deckIndex.
+-- ----------------------------
+
+create or replace function public.combat_init_turn(
+  p_room_id uuid,
+  p_screen_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_turn_id uuid;
+  v_player record;
+  v_deck jsonb;
+  v_draw_result jsonb;
+  v_innate jsonb;
+  v_trait_charges jsonb;
+begin
+  if exists (select 1 from public.combat_turns where room_id = p_room_id and screen_id = p_screen_id) then
+    return;
+  end if;
+
+  insert into public.combat_turns (room_id, screen_id, turn_number, phase)
+  values (p_room_id, p_screen_id, 1, 'player')
+  returning id into v_turn_id;
+
+  for v_player in
+    select rp.player_id, rp.role_id
+    from public.room_players rp
+    where rp.room_id = p_room_id
+  loop
+    insert into public.player_turn_state (combat_turn_id, player_id, actions_remaining, has_ended_turn)
+    values (v_turn_id, v_player.player_id, 0, false);
+
+    -- Deal from the run deck (starters on the first combat), each card knowing its deck slot
+    select jsonb_agg(d.card || jsonb_build_object('deckIndex', d.ord - 1) order by d.ord)
+    into v_deck
+    from jsonb_array_elements(public._ensure_deck(p_room_id, v_player.player_id))
+      with ordinality d(card, ord);
+    v_deck := coalesce(v_deck, '[]'::jsonb);
+
+    -- Build trait_charges based on role (4 schools per role)
+    v_trait_charges := case v_player.role_id
+      when 'warrior' then '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+      when 'sage' then '{"fire":0,"frost":0,"storm":0,"arcane":0}'::jsonb
+      when 'ranger' then '{"shadow":0,"nature":0,"precision":0,"venom":0}'::jsonb
+      else '{"rage":0,"iron":0,"blood":0,"thunder":0}'::jsonb
+    end;
+
+    -- Innate cards are always in the opening hand; the rest of the hand is drawn
+    select coalesce(jsonb_agg(c.value), '[]'::jsonb) into v_innate
+    from jsonb_array_elements(v_deck) c
+    where public._card_has_keyword(c.value->>'cardId', 'innate');
+
+    v_draw_result := public._draw_hand(
+      (
+        select coalesce(jsonb_agg(c.value), '[]'::jsonb)
+        from jsonb_array_elements(v_deck) c
+        where not public._card_has_keyword(c.value->>'cardId', 'innate')
+      ),
+      '[]'::jsonb,
+      greatest(0, 4 - jsonb_array_length(v_innate)),
+      p_room_id,
+      'draw:' || v_player.player_id
+    );
+
+    insert into public.player_combat_state (
+      room_id, screen_id, player_id, identity_id,
+      draw_pile, hand, discard_pile,
+      energy, max_energy, block,
+      trait_charges, attune_charges
+    ) values (
+      p_room_id, p_screen_id, v_player.player_id, coalesce(v_player.role_id, 'warrior'),
+      v_draw_result->'drawPile', v_innate || (v_draw_result->'hand'), '[]'::jsonb,
+      3, 3, 0,
+      v_trait_charges,
+      0
+    )
+    on conflict (room_id, screen_id, player_id) do nothing;
+  end loop;
+
+  update public.characters set taunt_turns_left = 0 where room_id = p_room_id;
+
+  perform public._trigger_relics(p_room_id, p_screen_id, rp.player_id, 'combat_start')
+  from public.room_players rp
+  where rp.room_id = p_room_id
+  order by rp.player_id;
+
+  perform public._retarget_enemies(p_room_id, p_screen_id, true);
+end;
+$$;
+
+grant execute on function public.combat_init_turn(uuid, uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_select_reward
+-- Unchanged from 043 except that the fight's card usage is written back first.
+-- ----------------------------
+
+create or replace function public.combat_select_reward(
+  p_room_id uuid,
+  p_reward_type text,  -- 'add_card', 'upgrade_card', 'bonus', 'relic'
+  p_reward_id text     -- card_id, bonus_id or relic_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_screen_id uuid;
+  v_pcs record;
+  v_card record;
+  v_new_card jsonb;
+  v_offer record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false
+  limit 1;
+
+  v_screen_id := public._won_fight_screen(p_room_id);
+
+  -- Only a reward of the player's offer for this fight, once
+  select o.offer, o.claimed_at into v_offer
+  from public.combat_reward_offers o
+  where o.room_id = p_room_id and o.screen_id = v_screen_id and o.player_id = v_player_id
+  for update;
+
+  if v_offer.offer is null then
+    raise exception 'No reward offered for this fight';
+  end if;
+
+  if v_offer.claimed_at is not null then
+    raise exception 'Reward already claimed';
+  end if;
+
+  if not exists (
+    select 1
+    from jsonb_array_elements(
+      v_offer.offer->(case p_reward_type
+        when 'add_card' then 'cardChoices'
+        when 'upgrade_card' then 'upgradeChoices'
+        when 'bonus' then 'bonusChoices'
+        when 'relic' then 'relicChoices'
+      end)
+    ) choice
+    where coalesce(choice->>'cardId', choice->>'id') = p_reward_id
+  ) then
+    raise exception 'Reward not offered: % %', p_reward_type, p_reward_id;
+  end if;
+
+  update public.combat_reward_offers
+  set claimed_at = now()
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  -- The fight is won: its upgrades count before a reward upgrades a copy
+  perform public._sync_run_deck(p_room_id, v_screen_id);
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  if p_reward_type = 'add_card' then
+    -- Add card to player's deck (draw pile + discard)
+    select * into v_card from public.card_definitions where id = p_reward_id;
+    if v_card is null then
+      raise exception 'Card not found';
+    end if;
+    v_new_card := jsonb_build_object('cardId', p_reward_id, 'upgraded', false, 'usageCount', 0);
+    update public.characters
+    set deck = public._ensure_deck(p_room_id, v_player_id) || jsonb_build_array(v_new_card)
+    where room_id = p_room_id and player_id = v_player_id;
+    update public.analytics_reward_offers
+    set picked_card_id = p_reward_id, picked_at = now()
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id
+      and p_reward_id = any(offered_card_ids);
+    return jsonb_build_object('applied', true, 'type', 'add_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'upgrade_card' then
+    -- Upgrade the first copy of the card in the run deck
+    declare
+      v_deck jsonb := public._ensure_deck(p_room_id, v_player_id);
+      v_i int;
+    begin
+      for v_i in 0..jsonb_array_length(v_deck) - 1 loop
+        if (v_deck->v_i->>'cardId') = p_reward_id and not coalesce((v_deck->v_i->>'upgraded')::boolean, false) then
+          update public.characters
+          set deck = jsonb_set(v_deck, array[v_i::text, 'upgraded'], 'true'::jsonb)
+          where room_id = p_room_id and player_id = v_player_id;
+          exit;
+        end if;
+      end loop;
+    end;
+    return jsonb_build_object('applied', true, 'type', 'upgrade_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'bonus' then
+    if p_reward_id = 'max-hp-10' then
+      update public.characters set hp_max = hp_max + 10, hp = hp + 10
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-hp-20' then
+      update public.characters set hp_max = hp_max + 20, hp = hp + 20
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-15' then
+      update public.characters set hp = least(hp_max, hp + 15)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-30' then
+      update public.characters set hp = least(hp_max, hp + 30)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-energy-1' then
+      update public.player_combat_state
+      set max_energy = max_energy + 1
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-5' then
+      update public.player_combat_state
+      set starting_block = starting_block + 5
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-10' then
+      update public.player_combat_state
+      set starting_block = starting_block + 10
+      where id = v_pcs.id;
+    elsif p_reward_id = 'free-first-reroll' then
+      update public.player_combat_state
+      set free_reroll = true
+      where id = v_pcs.id;
+    end if;
+    return jsonb_build_object('applied', true, 'type', 'bonus', 'bonusId', p_reward_id);
+
+  elsif p_reward_type = 'relic' then
+    if not exists (select 1 from public.relic_definitions where id = p_reward_id) then
+      raise exception 'Relic not found';
+    end if;
+    update public.characters
+    set relics = relics || p_reward_id
+    where room_id = p_room_id and player_id = v_player_id and not (p_reward_id = any(relics));
+    return jsonb_build_object('applied', true, 'type', 'relic', 'relicId', p_reward_id);
+  end if;
+
+  raise exception 'Unknown reward type: %', p_reward_type;
+end;
+$$;
+
+grant execute on function public.combat_select_reward(uuid, text, text) to authenticated;
+
+-- ----------------------------
+-- RPC: advance_screen
+-- Unchanged from 041 except that leaving a fight writes its card usage back.
+-- ----------------------------
+
+create or replace function public.advance_screen(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_host_id uuid;
+  v_current_pos int;
+  v_current_screen record;
+  v_current_screen_id uuid;
+  v_next_pos int;
+  v_host_player_id public.player_id;
+  v_tally record;
+  v_top_votes int;
+  v_top_has_host boolean;
+  v_next_screen record;
+  v_total_screens int;
+  v_ascension int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id, r.current_screen_position, r.ascension
+  into v_host_id, v_current_pos, v_ascension
+  from public.rooms r
+  where r.id = p_room_id
+  for update;
+
+  if v_host_id is null then
+    raise exception 'Room not found';
+  end if;
+
+  if v_host_id <> v_user_id then
+    raise exception 'Only host can advance';
+  end if;
+
+  select s.id, s.is_completed, s.next_positions into v_current_screen
+  from public.adventure_screens s
+  where s.room_id = p_room_id and s.position = v_current_pos;
+  v_current_screen_id := v_current_screen.id;
+
+  -- Leaving a fight: its card usage stays in the run deck
+  perform public._sync_run_deck(p_room_id, v_current_screen_id);
+
+  if cardinality(v_current_screen.next_positions) > 1 then
+    if not v_current_screen.is_completed then
+      -- A fork: stop between screens so the party can vote on the map
+      update public.adventure_screens set is_completed = true where id = v_current_screen_id;
+
+      return jsonb_build_object(
+        'finished', false,
+        'choosingPath', true,
+        'screenId', v_current_screen_id,
+        'nextPositions', to_jsonb(v_current_screen.next_positions)
+      );
+    end if;
+
+    -- Most votes wins; on a tie, the screen the host voted for
+    select rp.player_id into v_host_player_id
+    from public.room_players rp
+    where rp.room_id = p_room_id and rp.user_id = v_host_id and rp.is_bot = false;
+
+    for v_tally in
+      select v.next_position, count(*) as votes, bool_or(v.player_id = v_host_player_id) as has_host
+      from public.adventure_path_votes v
+      where v.screen_id = v_current_screen_id and v.next_position = any(v_current_screen.next_positions)
+      group by v.next_position
+      order by count(*) desc, bool_or(v.player_id = v_host_player_id) desc, v.next_position
+      limit 2
+    loop
+      if v_next_pos is null then
+        v_next_pos := v_tally.next_position;
+        v_top_votes := v_tally.votes;
+        v_top_has_host := v_tally.has_host;
+      elsif v_tally.votes = v_top_votes and not v_top_has_host then
+        raise exception 'The vote is tied: the host breaks it';
+      end if;
+    end loop;
+
+    if v_next_pos is null then
+      raise exception 'No one voted for the next screen';
+    end if;
+  else
+    -- Mark current screen completed
+    update public.adventure_screens
+    set is_completed = true
+    where id = v_current_screen_id;
+
+    v_next_pos := v_current_screen.next_positions[1];
+  end if;
+
+  -- Playtests have a single screen
+  select count(*) into v_total_screens
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  -- The last screen of the map leads nowhere
+  if v_next_pos is null then
+    -- Adventure complete
+    update public.rooms
+    set status = 'finished'
+    where id = p_room_id;
+
+    -- A won run (final fight cleared; playtests have a single screen) unlocks the next level
+    if v_total_screens > 1
+      and exists (
+        select 1 from public.enemy_combat_state ecs
+        where ecs.room_id = p_room_id and ecs.screen_id = v_current_screen_id
+      )
+      and not exists (
+        select 1 from public.enemy_combat_state ecs
+        where ecs.room_id = p_room_id and ecs.screen_id = v_current_screen_id and ecs.is_dead = false
+      )
+    then
+      insert into public.player_ascension (user_id, max_level)
+      select distinct rp.user_id,
+             least(v_ascension + 1, (select coalesce(max(al.level), 0) from public.ascension_levels al))
+      from public.room_players rp
+      where rp.room_id = p_room_id and (rp.is_bot = false or rp.bot_takeover = true)
+      on conflict (user_id) do update
+      set max_level = greatest(public.player_ascension.max_level, excluded.max_level),
+          updated_at = now();
+    end if;
+
+    return jsonb_build_object('finished', true);
+  end if;
+
+  -- Advance to next screen
+  update public.rooms
+  set current_screen_position = v_next_pos,
+      current_bloc = coalesce(
+        (select s.bloc from public.adventure_screens s where s.room_id = p_room_id and s.position = v_next_pos),
+        current_bloc
+      )
+  where id = p_room_id;
+
+  -- Get next screen info
+  select s.id, s.screen_type, s.config_json, s.bloc, s.phase, s.position
+  into v_next_screen
+  from public.adventure_screens s
+  where s.room_id = p_room_id and s.position = v_next_pos;
+
+  -- Clean up old enemies before seeding new ones
+  delete from public.enemies where room_id = p_room_id and screen_id = v_current_screen_id;
+
+  -- Auto-seed enemies if next screen is combat or boss
+  if v_next_screen.screen_type in ('combat', 'boss_fight') then
+    perform public.seed_enemies_for_screen(p_room_id, v_next_screen.id);
+  end if;
+
+  return jsonb_build_object(
+    'finished', false,
+    'screenId', v_next_screen.id,
+    'screenType', v_next_screen.screen_type,
+    'bloc', v_next_screen.bloc,
+    'phase', v_next_screen.phase,
+    'position', v_next_screen.position
+  );
+end;
+$$;
+
+grant execute on function public.advance_screen(uuid) to authenticated;
+
+commit;
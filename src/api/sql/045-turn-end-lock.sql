@@ -0,0 +1,357 @@
+-- 045: No stalled player phase
+-- combat_end_turn and combat_bot_turn checked "has every seat ended?" without locking the turn:
+-- two players ending at the same moment could each see the other still playing, so no one ended
+-- the phase and the fight sat in the player phase, which the 034 sweep never looked at. Both now
+-- lock the turn row (select ... for update) before marking the seat, so the last one to end sees
+-- every other seat ended. The sweep also ends any player phase of a room's current fight where
+-- every living seat has ended.
+
+begin;
+
+-- ----------------------------
+-- Helper: end the player phase once every seat has ended
+-- Locks the turn first; false while a living seat is still playing.
+-- ----------------------------
+
+create or replace function public._end_player_phase_if_all_ended(p_room_id uuid, p_turn_id uuid)
+returns boolean
+language plpgsql
+as $$
+begin
+  perform 1 from public.combat_turns ct
+  where ct.id = p_turn_id and ct.phase = 'player'
+  for update;
+
+  if not found then
+    return false;
+  end if;
+
+  if exists (
+    select 1
+    from public.player_turn_state pts
+    join public.characters c on c.room_id = p_room_id and c.player_id = pts.player_id
+    where pts.combat_turn_id = p_turn_id and pts.has_ended_turn = false and c.hp > 0
+  ) then
+    return false;
+  end if;
+
+  perform public._end_player_phase(p_room_id, p_turn_id);
+  return true;
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_end_turn
+-- Unchanged from 034 except that the turn is locked before the seat is marked.
+-- ----------------------------
+
+create or replace function public.combat_end_turn(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_all_ended boolean;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  -- Locked: seats ending at the same moment take turns, so the last one sees them all ended
+  select ct.id into v_turn_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player'
+  order by ct.created_at desc
+  limit 1
+  for update;
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  -- Mark this player as ended
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = v_player_id;
+
+  -- Ending in time breaks the timed-out streak
+  update public.room_players set missed_turns = 0
+  where room_id = p_room_id and player_id = v_player_id;
+
+  -- The last alive player to end resolves the enemy phase
+  v_all_ended := public._end_player_phase_if_all_ended(p_room_id, v_turn_id);
+
+  return jsonb_build_object('allReady', v_all_ended);
+end;
+$$;
+
+grant execute on function public.combat_end_turn(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_bot_turn
+-- Unchanged from 039 except that the turn is locked before the seat is marked.
+-- ----------------------------
+
+create or replace function public.combat_bot_turn(
+  p_room_id uuid,
+  p_bot_player_id public.player_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_runner_id uuid;
+  v_seat record;
+  v_policy public.bot_policies;
+  v_difficulty public.bot_difficulties;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_bot_hp int;
+  v_action_log jsonb := '[]'::jsonb;
+  v_best_idx int;
+  v_best_score numeric;
+  v_best jsonb;
+  v_scored jsonb;
+  v_card_instance jsonb;
+  v_card record;
+  v_card_idx int;
+  v_target_enemy_idx int;
+  v_target_enemy_id uuid;
+  v_incoming int;
+  v_empowered int;
+  v_result jsonb;
+  v_iteration int := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_runner_id := public._bot_runner_user_id(p_room_id);
+  if v_runner_id <> v_user_id then
+    raise exception 'Only the bot runner can run bot turns';
+  end if;
+
+  select rp.is_bot, rp.bot_policy, rp.bot_difficulty into v_seat
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.player_id = p_bot_player_id;
+
+  if not v_seat.is_bot then
+    raise exception 'Player is not a bot';
+  end if;
+
+  select * into v_policy from public.bot_policies where id = v_seat.bot_policy;
+  if not found then
+    select * into v_policy from public.bot_policies where id = 'balanced';
+  end if;
+
+  select * into v_difficulty from public.bot_difficulties where id = v_seat.bot_difficulty;
+  if not found then
+    select * into v_difficulty from public.bot_difficulties where id = 'normal';
+  end if;
+
+  -- Locked like combat_end_turn, so the last seat to end sees every other one ended
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player'
+  order by ct.created_at desc
+  limit 1
+  for update;
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select c.hp into v_bot_hp
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+  if v_bot_hp <= 0 then
+    update public.player_turn_state set has_ended_turn = true
+    where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+    return jsonb_build_object('actions', v_action_log, 'dead', true);
+  end if;
+
+  loop
+    v_iteration := v_iteration + 1;
+    if v_iteration > 10 then exit; end if;  -- Safety limit
+
+    select * into v_pcs from public.player_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = p_bot_player_id;
+
+    select c.hp into v_bot_hp
+    from public.characters c
+    where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+    if v_bot_hp <= 0 then exit; end if;
+
+    -- Policy target: the lowest HP enemy, or the one whose intent hits hardest
+    v_target_enemy_idx := null;
+    select sub.idx, sub.id into v_target_enemy_idx, v_target_enemy_id
+    from (
+      select ecs.id, ecs.hp, row_number() over (order by ecs.position) - 1 as idx,
+             case when v_policy.target = 'highest_threat' then public._enemy_intent_damage(ecs.id, 0) else 0 end as threat
+      from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    ) sub
+    order by sub.threat desc, sub.hp asc limit 1;
+
+    if v_target_enemy_idx is null then exit; end if;
+
+    -- Converge once enough traits are empowered; bots blind to empowerment never do
+    select count(*) into v_empowered
+    from jsonb_each_text(v_pcs.trait_charges)
+    where value::int >= 3;
+
+    if v_difficulty.empower_skill > 0 and v_empowered >= v_policy.converge_at then
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'bot_decision', 'player', p_bot_player_id::text,
+        p_source => 'converge', p_final_amount => v_empowered
+      );
+      v_result := public._use_convergence(p_room_id, v_screen_id, v_turn_id, p_bot_player_id);
+      v_action_log := v_action_log || jsonb_build_object(
+        'action', 'convergence',
+        'damage', (v_result->>'damage')::int,
+        'block', (v_result->>'block')::int,
+        'heal', (v_result->>'heal')::int,
+        'reason', 'converge'
+      );
+      continue;
+    end if;
+
+    if jsonb_array_length(v_pcs.hand) = 0 then exit; end if;
+
+    -- Damage the enemies aim at this bot (or the whole party) this turn
+    select coalesce(sum(public._enemy_intent_damage(ecs.id, v_pcs.vulnerable)), 0) into v_incoming
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+      and (ecs.target_player_id = p_bot_player_id or ecs.target_player_id is null);
+
+    -- Pick the best scoring affordable card
+    v_best_idx := -1;
+    v_best_score := -1;
+
+    for v_card_idx in 0..jsonb_array_length(v_pcs.hand) - 1 loop
+      v_card_instance := v_pcs.hand->v_card_idx;
+      select * into v_card from public.card_definitions where id = v_card_instance->>'cardId';
+
+      if v_card is null or v_card.cost > v_pcs.energy or 'unplayable' = any(v_card.keywords) then
+        continue;
+      end if;
+
+      v_scored := public._bot_score_card(
+        p_room_id, v_screen_id, p_bot_player_id, v_card_instance,
+        v_policy, v_difficulty, v_target_enemy_id, v_incoming
+      );
+
+      if (v_scored->>'score')::numeric > v_best_score then
+        v_best_score := (v_scored->>'score')::numeric;
+        v_best_idx := v_card_idx;
+        v_best := v_scored;
+      end if;
+    end loop;
+
+    if v_best_idx < 0 then exit; end if;  -- No affordable cards
+
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'bot_decision', 'player', p_bot_player_id::text,
+      p_target_type => 'enemy', p_target_id => v_target_enemy_id::text,
+      p_card_id => v_pcs.hand->v_best_idx->>'cardId',
+      p_source => v_best->>'reason', p_final_amount => (v_best->>'amount')::int
+    );
+
+    v_result := public._play_card(p_room_id, v_screen_id, p_bot_player_id, v_best_idx, v_target_enemy_idx);
+
+    v_action_log := v_action_log || jsonb_build_object(
+      'action', 'spell',
+      'spellId', v_result->>'cardId',
+      'spellName', v_result->>'cardName',
+      'targetId', v_result->>'targetEnemyId',
+      'damage', (v_result->>'damage')::int,
+      'block', (v_result->>'block')::int,
+      'heal', (v_result->>'heal')::int,
+      'reason', v_best->>'reason'
+    );
+  end loop;
+
+  -- End bot turn
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+
+  perform public._end_player_phase_if_all_ended(p_room_id, v_turn_id);
+
+  return jsonb_build_object('actions', v_action_log);
+end;
+$$;
+
+grant execute on function public.combat_bot_turn(uuid, public.player_id) to authenticated;
+
+-- ----------------------------
+-- Job: resolve every turn left in the enemy phase
+-- Unchanged from 034 except that it first ends the player phases every seat has ended (still
+-- scheduled as 'resolve-enemy-phases').
+-- ----------------------------
+
+create or replace function public._resolve_pending_enemy_phases()
+returns int
+language plpgsql
+as $$
+declare
+  v_turn record;
+  v_room_id uuid;
+  v_resolved int := 0;
+begin
+  -- A player phase of the current fight that every living seat has ended
+  for v_turn in
+    select ct.id, ct.room_id
+    from public.combat_turns ct
+    join public.rooms r on r.id = ct.room_id
+    join public.adventure_screens s on s.id = ct.screen_id and s.position = r.current_screen_position
+    where ct.phase = 'player'
+      and exists (select 1 from public.characters c where c.room_id = ct.room_id and c.hp > 0)
+      and exists (
+        select 1 from public.enemy_combat_state e
+        where e.room_id = ct.room_id and e.screen_id = ct.screen_id and e.is_dead = false
+      )
+      and not exists (
+        select 1
+        from public.player_turn_state pts
+        join public.characters c on c.room_id = ct.room_id and c.player_id = pts.player_id
+        where pts.combat_turn_id = ct.id and pts.has_ended_turn = false and c.hp > 0
+      )
+  loop
+    if public._end_player_phase_if_all_ended(v_turn.room_id, v_turn.id) then
+      v_resolved := v_resolved + 1;
+    end if;
+  end loop;
+
+  for v_room_id in
+    select ct.room_id from public.combat_turns ct where ct.phase = 'enemy'
+  loop
+    perform public._resolve_enemy_phase(v_room_id);
+    v_resolved := v_resolved + 1;
+  end loop;
+  return v_resolved;
+end;
+$$;
+
+-- Fights stalled in the player phase when this migration runs
+select public._resolve_pending_enemy_phases();
+
+commit;
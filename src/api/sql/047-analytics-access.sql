@@ -0,0 +1,72 @@
+-- 047: Developer-only analytics
+-- The analytics_* views (040) were granted to every signed-in user, and as views they read the
+-- analytics tables with their owner's rights, past RLS: anyone could read the numbers of every
+-- room. The views are no longer granted to clients. Developers are listed in public.developers
+-- (added from the SQL editor), and the analytics screen reads the views through analytics_report,
+-- which only answers developers.
+
+begin;
+
+create table if not exists public.developers (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+-- RLS on and no policies: rows are added from the SQL editor
+alter table public.developers enable row level security;
+
+revoke all on public.analytics_cards from anon, authenticated;
+revoke all on public.analytics_encounters from anon, authenticated;
+revoke all on public.analytics_lethal_enemies from anon, authenticated;
+
+-- ----------------------------
+-- Helper: is the caller a developer
+-- ----------------------------
+
+create or replace function public._is_developer()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.developers d where d.user_id = auth.uid());
+$$;
+
+-- ----------------------------
+-- RPC: analytics_report
+-- The three analytics views for the developer analytics screen, busiest rows first.
+-- ----------------------------
+
+create or replace function public.analytics_report()
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public._is_developer() then
+    raise exception 'Developers only';
+  end if;
+
+  return jsonb_build_object(
+    'cards', coalesce(
+      (select jsonb_agg(to_jsonb(a) order by a.offers desc, a.card_id) from public.analytics_cards a),
+      '[]'::jsonb
+    ),
+    'encounters', coalesce(
+      (select jsonb_agg(to_jsonb(a) order by a.fights desc, a.encounter_id) from public.analytics_encounters a),
+      '[]'::jsonb
+    ),
+    'lethalEnemies', coalesce(
+      (select jsonb_agg(to_jsonb(a) order by a.kills desc, a.template_id) from public.analytics_lethal_enemies a),
+      '[]'::jsonb
+    )
+  );
+end;
+$$;
+
+grant execute on function public.analytics_report() to authenticated;
+
+commit;
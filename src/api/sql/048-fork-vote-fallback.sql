@@ -0,0 +1,187 @@
+-- 048: Fork votes always pick a screen
+-- A tie the host's vote didn't break (the host voted elsewhere, didn't vote, or their seat went to
+-- a bot) and a fork no one voted on made advance_screen raise, and the run could not go on. The
+-- most voted screen still wins and the host's vote still breaks a tie; otherwise the screen is
+-- rolled among the tied ones (every choice when no one voted) on the seeded 'map' stream.
+
+begin;
+
+-- ----------------------------
+-- RPC: advance_screen
+-- Unchanged from 044 except that a tie the host didn't break, or a fork without votes, rolls the
+-- screen on the 'map' stream.
+-- ----------------------------
+
+create or replace function public.advance_screen(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_host_id uuid;
+  v_current_pos int;
+  v_current_screen record;
+  v_current_screen_id uuid;
+  v_next_pos int;
+  v_host_player_id public.player_id;
+  v_top_positions int[];
+  v_next_screen record;
+  v_total_screens int;
+  v_ascension int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select r.host_user_id, r.current_screen_position, r.ascension
+  into v_host_id, v_current_pos, v_ascension
+  from public.rooms r
+  where r.id = p_room_id
+  for update;
+
+  if v_host_id is null then
+    raise exception 'Room not found';
+  end if;
+
+  if v_host_id <> v_user_id then
+    raise exception 'Only host can advance';
+  end if;
+
+  select s.id, s.is_completed, s.next_positions into v_current_screen
+  from public.adventure_screens s
+  where s.room_id = p_room_id and s.position = v_current_pos;
+  v_current_screen_id := v_current_screen.id;
+
+  -- Leaving a fight: its card usage stays in the run deck
+  perform public._sync_run_deck(p_room_id, v_current_screen_id);
+
+  if cardinality(v_current_screen.next_positions) > 1 then
+    if not v_current_screen.is_completed then
+      -- A fork: stop between screens so the party can vote on the map
+      update public.adventure_screens set is_completed = true where id = v_current_screen_id;
+
+      return jsonb_build_object(
+        'finished', false,
+        'choosingPath', true,
+        'screenId', v_current_screen_id,
+        'nextPositions', to_jsonb(v_current_screen.next_positions)
+      );
+    end if;
+
+    -- The most voted screens (every choice when no one voted)
+    with tally as (
+      select v.next_position, count(*) as votes
+      from public.adventure_path_votes v
+      where v.screen_id = v_current_screen_id and v.next_position = any(v_current_screen.next_positions)
+      group by v.next_position
+    )
+    select array_agg(t.next_position order by t.next_position) into v_top_positions
+    from tally t
+    where t.votes = (select max(votes) from tally);
+
+    v_top_positions := coalesce(
+      v_top_positions,
+      array(select unnest(v_current_screen.next_positions) order by 1)
+    );
+
+    -- On a tie, the screen the host voted for
+    if cardinality(v_top_positions) > 1 then
+      select rp.player_id into v_host_player_id
+      from public.room_players rp
+      where rp.room_id = p_room_id and rp.user_id = v_host_id and rp.is_bot = false;
+
+      select v.next_position into v_next_pos
+      from public.adventure_path_votes v
+      where v.screen_id = v_current_screen_id and v.player_id = v_host_player_id
+        and v.next_position = any(v_top_positions);
+    end if;
+
+    -- Otherwise one rolled on the seeded map stream, so the run never waits on a vote
+    v_next_pos := coalesce(
+      v_next_pos,
+      v_top_positions[public._rng_int(p_room_id, 'map', 1, cardinality(v_top_positions))]
+    );
+  else
+    -- Mark current screen completed
+    update public.adventure_screens
+    set is_completed = true
+    where id = v_current_screen_id;
+
+    v_next_pos := v_current_screen.next_positions[1];
+  end if;
+
+  -- Playtests have a single screen
+  select count(*) into v_total_screens
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  -- The last screen of the map leads nowhere
+  if v_next_pos is null then
+    -- Adventure complete
+    update public.rooms
+    set status = 'finished'
+    where id = p_room_id;
+
+    -- A won run (final fight cleared; playtests have a single screen) unlocks the next level
+    if v_total_screens > 1
+      and exists (
+        select 1 from public.enemy_combat_state ecs
+        where ecs.room_id = p_room_id and ecs.screen_id = v_current_screen_id
+      )
+      and not exists (
+        select 1 from public.enemy_combat_state ecs
+        where ecs.room_id = p_room_id and ecs.screen_id = v_current_screen_id and ecs.is_dead = false
+      )
+    then
+      insert into public.player_ascension (user_id, max_level)
+      select distinct rp.user_id,
+             least(v_ascension + 1, (select coalesce(max(al.level), 0) from public.ascension_levels al))
+      from public.room_players rp
+      where rp.room_id = p_room_id and (rp.is_bot = false or rp.bot_takeover = true)
+      on conflict (user_id) do update
+      set max_level = greatest(public.player_ascension.max_level, excluded.max_level),
+          updated_at = now();
+    end if;
+
+    return jsonb_build_object('finished', true);
+  end if;
+
+  -- Advance to next screen
+  update public.rooms
+  set current_screen_position = v_next_pos,
+      current_bloc = coalesce(
+        (select s.bloc from public.adventure_screens s where s.room_id = p_room_id and s.position = v_next_pos),
+        current_bloc
+      )
+  where id = p_room_id;
+
+  -- Get next screen info
+  select s.id, s.screen_type, s.config_json, s.bloc, s.phase, s.position
+  into v_next_screen
+  from public.adventure_screens s
+  where s.room_id = p_room_id and s.position = v_next_pos;
+
+  -- Clean up old enemies before seeding new ones
+  delete from public.enemies where room_id = p_room_id and screen_id = v_current_screen_id;
+
+  -- Auto-seed enemies if next screen is combat or boss
+  if v_next_screen.screen_type in ('combat', 'boss_fight') then
+    perform public.seed_enemies_for_screen(p_room_id, v_next_screen.id);
+  end if;
+
+  return jsonb_build_object(
+    'finished', false,
+    'screenId', v_next_screen.id,
+    'screenType', v_next_screen.screen_type,
+    'bloc', v_next_screen.bloc,
+    'phase', v_next_screen.phase,
+    'position', v_next_screen.position
+  );
+end;
+$$;
+
+grant execute on function public.advance_screen(uuid) to authenticated;
+
+commit;
@@ -0,0 +1,391 @@
+-- 050: Biome vote
+-- The party picks the run's biome in the lobby instead of the host: every player votes for a
+-- biome or for Random (vote_room_biome, stored in room_biome_votes). generate_adventure follows
+-- the most voted choice; on a tie, the host's vote, else one of the tied choices rolled on the
+-- 'adventure' stream. Random, or no vote at all, rolls among all biomes as before.
+
+begin;
+
+create table if not exists public.room_biome_votes (
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  player_id public.player_id not null,
+  biome text references public.biomes(id) on delete cascade, -- null = Random
+  created_at timestamptz not null default now(),
+  primary key (room_id, player_id)
+);
+
+-- ----------------------------
+-- RLS
+-- ----------------------------
+alter table public.room_biome_votes enable row level security;
+
+drop policy if exists room_biome_votes_select on public.room_biome_votes;
+create policy room_biome_votes_select on public.room_biome_votes
+  for select to authenticated
+  using (public.is_room_member(room_id));
+
+grant select on public.room_biome_votes to authenticated;
+
+-- ----------------------------
+-- Realtime
+-- ----------------------------
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'room_biome_votes'
+  ) then
+    execute 'alter publication supabase_realtime add table public.room_biome_votes';
+  end if;
+end
+$$;
+
+-- The vote replaces the host's pick
+drop function if exists public.set_room_biome(uuid, text);
+
+-- ----------------------------
+-- RPC: vote_room_biome
+-- Any player may vote, and change their vote, in the lobby. Null votes for Random.
+-- ----------------------------
+
+create or replace function public.vote_room_biome(p_room_id uuid, p_biome text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Not a room member';
+  end if;
+
+  if not exists (select 1 from public.rooms r where r.id = p_room_id and r.status = 'lobby') then
+    raise exception 'Biome can only be voted on in the lobby';
+  end if;
+
+  if p_biome is not null and not exists (select 1 from public.biomes b where b.id = p_biome) then
+    raise exception 'Unknown biome %', p_biome;
+  end if;
+
+  insert into public.room_biome_votes (room_id, player_id, biome)
+  values (p_room_id, v_player_id, p_biome)
+  on conflict (room_id, player_id) do update
+  set biome = excluded.biome,
+      created_at = now();
+end;
+$$;
+
+grant execute on function public.vote_room_biome(uuid, text) to authenticated;
+
+-- ----------------------------
+-- Helper: tally the biome vote
+-- The most voted biome among the seated players; on a tie, the host's vote, else one of the tied
+-- choices rolled on the 'adventure' stream. Null when Random wins or no one voted.
+-- ----------------------------
+
+create or replace function public._tally_biome_vote(p_room_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_top_biomes text[];
+  v_host_vote record;
+begin
+  with tally as (
+    select v.biome, count(*) as votes
+    from public.room_biome_votes v
+    join public.room_players rp
+      on rp.room_id = v.room_id and rp.player_id = v.player_id and rp.is_bot = false
+    where v.room_id = p_room_id
+    group by v.biome
+  )
+  select array_agg(t.biome order by t.biome nulls first) into v_top_biomes
+  from tally t
+  where t.votes = (select max(votes) from tally);
+
+  if v_top_biomes is null then
+    return null;
+  end if;
+
+  if cardinality(v_top_biomes) = 1 then
+    return v_top_biomes[1];
+  end if;
+
+  select v.biome into v_host_vote
+  from public.room_biome_votes v
+  join public.rooms r on r.id = v.room_id
+  join public.room_players rp
+    on rp.room_id = v.room_id and rp.player_id = v.player_id
+    and rp.user_id = r.host_user_id and rp.is_bot = false
+  where v.room_id = p_room_id;
+
+  if found and exists (
+    select 1 from unnest(v_top_biomes) b where b is not distinct from v_host_vote.biome
+  ) then
+    return v_host_vote.biome;
+  end if;
+
+  return v_top_biomes[public._rng_int(p_room_id, 'adventure', 1, cardinality(v_top_biomes))];
+end;
+$$;
+
+-- ----------------------------
+-- RPC: generate_adventure
+-- Unchanged from 049 except that the biome comes from the party's vote.
+-- ----------------------------
+
+create or replace function public.generate_adventure(p_room_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing int;
+  v_position int := 0;
+  v_row int := 0;
+  v_bloc int;
+  v_total_blocs int := 3;
+  v_screen_count int;
+  v_width int;
+  v_base_level int;
+  v_screen_type public.screen_type;
+  v_config jsonb;
+  v_elite_chance int := public._ascension_value(p_room_id, 'elite_chance', 'percent');
+  v_rest_percent int := greatest(0, 50 - public._ascension_value(p_room_id, 'rest_heal', 'percent'));
+  v_is_elite boolean;
+  v_biome text;
+  v_biome_phases jsonb;
+  v_narrative jsonb;
+  v_used_narratives text[] := '{}';
+  v_prev_row int[] := '{}';
+  v_this_row int[];
+  i int;
+  v_lane int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_room_member(p_room_id) then
+    raise exception 'Not a room member';
+  end if;
+
+  -- Don't re-generate
+  select count(*) into v_existing
+  from public.adventure_screens
+  where room_id = p_room_id;
+
+  if v_existing > 0 then
+    return v_existing;
+  end if;
+
+  -- The party's biome, or one rolled among all biomes
+  select r.biome into v_biome from public.rooms r where r.id = p_room_id;
+  v_biome := coalesce(v_biome, public._tally_biome_vote(p_room_id));
+  if v_biome is null then
+    select b.id into v_biome
+    from public.biomes b
+    order by b.position, b.id
+    offset public._rng_int(p_room_id, 'adventure', 1, greatest((select count(*) from public.biomes)::int, 1)) - 1
+    limit 1;
+  end if;
+
+  update public.rooms set biome = v_biome where id = p_room_id;
+
+  select b.phases into v_biome_phases from public.biomes b where b.id = v_biome;
+  if v_biome_phases is null then
+    raise exception 'No biome to set the adventure in';
+  end if;
+
+  for v_bloc in 1..v_total_blocs loop
+    v_base_level := 1 + (v_bloc - 1) * 3;
+
+    -- EARLY phase (bloc 1 only), as many screens as the biome has early templates
+    if v_bloc = 1 then
+      v_screen_count := public._rng_int(p_room_id, 'adventure', 1, 2);
+      for i in 1..v_screen_count loop
+        v_narrative := public._draw_biome_narrative(p_room_id, v_biome, 'early', v_used_narratives);
+        exit when v_narrative is null;
+        v_used_narratives := v_used_narratives || (v_narrative->>'id');
+
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+        values (
+          p_room_id, v_bloc, 'early', v_position, 'narrative_choice',
+          jsonb_build_object(
+            'narrativeId', v_narrative->>'id',
+            'prompt', v_narrative->>'prompt',
+            'options', v_narrative->'options'
+          ),
+          v_row
+        );
+        if cardinality(v_prev_row) > 0 then
+          perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+        end if;
+        v_prev_row := array[v_position];
+        v_position := v_position + 1;
+        v_row := v_row + 1;
+      end loop;
+    end if;
+
+    -- CORE phase
+    v_screen_count := public._rng_int(p_room_id, 'adventure', 5, 6);
+    for i in 1..v_screen_count loop
+      v_width := public._rng_int(p_room_id, 'map', 2, 3);
+      v_this_row := '{}';
+
+      for v_lane in 0..v_width - 1 loop
+        v_screen_type := public._rng_core_screen_type(p_room_id);
+
+        v_narrative := null;
+        if v_screen_type = 'narrative_choice' then
+          v_narrative := public._draw_biome_narrative(p_room_id, v_biome, 'core', v_used_narratives);
+          -- Every core template told: a fight or a puzzle instead
+          while v_narrative is null and v_screen_type = 'narrative_choice' loop
+            v_screen_type := public._rng_core_screen_type(p_room_id);
+          end loop;
+        end if;
+
+        if v_screen_type = 'combat' then
+          -- Only rolled with elites enabled, so lower ascensions keep their adventure stream
+          v_is_elite := false;
+          if v_elite_chance > 0 then
+            v_is_elite := public._rng_int(p_room_id, 'adventure', 1, 100) <= v_elite_chance;
+          end if;
+
+          v_config := jsonb_build_object(
+            'enemyCount', public._rng_int(p_room_id, 'adventure', 2, 4),
+            'levelRange', jsonb_build_array(v_base_level, v_base_level + 2),
+            'isBoss', false,
+            'isElite', v_is_elite,
+            'biome', v_biome
+          );
+        elsif v_screen_type = 'narrative_choice' then
+          v_used_narratives := v_used_narratives || (v_narrative->>'id');
+          v_config := jsonb_build_object(
+            'narrativeId', v_narrative->>'id',
+            'prompt', v_narrative->>'prompt',
+            'options', v_narrative->'options'
+          );
+        else
+          -- puzzle
+          v_config := jsonb_build_object(
+            'puzzleId', 'riddle_' || v_bloc || '_' || i,
+            'timeLimit', 30,
+            'reward', jsonb_build_object('expDelta', 20, 'goldDelta', 15),
+            'penalty', jsonb_build_object('hpDelta', -15)
+          );
+        end if;
+
+        insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row, map_lane)
+        values (p_room_id, v_bloc, 'core', v_position, v_screen_type, v_config, v_row, v_lane);
+        v_this_row := v_this_row || v_position;
+        v_position := v_position + 1;
+      end loop;
+
+      if cardinality(v_prev_row) > 0 then
+        perform public._link_map_rows(p_room_id, v_prev_row, v_this_row);
+      end if;
+      v_prev_row := v_this_row;
+      v_row := v_row + 1;
+    end loop;
+
+    -- RESOLVE phase
+    if v_bloc = v_total_blocs then
+      -- Final boss only
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossId', v_biome_phases->'resolve'->>'bossId',
+          'bossName', v_biome_phases->'resolve'->>'bossName',
+          'biome', v_biome
+        ),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+    else
+      -- Boss fight
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'boss_fight',
+        jsonb_build_object(
+          'enemyCount', 1,
+          'levelRange', jsonb_build_array(v_base_level + 4, v_base_level + 4),
+          'isBoss', true,
+          'bossId', v_biome_phases->'core'->>'bossId',
+          'bossName', v_biome_phases->'core'->>'bossName',
+          'biome', v_biome
+        ),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+
+      -- Shop
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'shop',
+        jsonb_build_object(
+          'items', jsonb_build_array(
+            jsonb_build_object('id', 'elixir', 'name', 'elixir', 'cost', 40, 'effect', jsonb_build_object('expDelta', 50))
+          ),
+          'potions', public._shop_potion_offer(p_room_id),
+          'relics', public._shop_relic_offer(p_room_id)
+        ),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+
+      -- Rest
+      insert into public.adventure_screens (room_id, bloc, phase, position, screen_type, config_json, map_row)
+      values (
+        p_room_id, v_bloc, 'resolve', v_position, 'rest',
+        jsonb_build_object('hpRestorePercent', v_rest_percent),
+        v_row
+      );
+      perform public._link_map_rows(p_room_id, v_prev_row, array[v_position]);
+      v_prev_row := array[v_position];
+      v_position := v_position + 1;
+      v_row := v_row + 1;
+    end if;
+
+  end loop;
+
+  -- Set room to first screen
+  update public.rooms
+  set current_screen_position = 0, current_bloc = 1
+  where id = p_room_id;
+
+  return v_position;
+end;
+$$;
+
+grant execute on function public.generate_adventure(uuid) to authenticated;
+
+commit;
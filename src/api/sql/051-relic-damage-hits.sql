@@ -0,0 +1,556 @@
+-- 051: Relic and item damage through the hit path
+-- Relic and potion damage worked block and HP out by hand: it ignored vulnerable and never set
+-- last_attacker_id. It now goes through _damage_enemy like card hits. _play_card counted its kills
+-- before the card_played relics fired, so a kill made by a relic (e.g. Whetstone) never fired the
+-- enemy_killed relics: kills are now counted once every relic has fired, kills made by
+-- enemy_killed relics included.
+
+begin;
+
+-- ----------------------------
+-- Helper: resolve relic or potion effects for their owner
+-- Unchanged from 031 except that damage goes through _damage_enemy and sets last_attacker_id.
+-- ----------------------------
+
+create or replace function public._apply_item_effects(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_effects jsonb,
+  p_source text
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_effect jsonb;
+  v_amount int;
+  v_enemy record;
+  v_dealt int;
+  v_draw_result jsonb;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+  if v_pcs is null then
+    return;
+  end if;
+
+  for v_effect in select value from jsonb_array_elements(p_effects)
+  loop
+    v_amount := (v_effect->>'amount')::int;
+    case v_effect->>'type'
+      when 'damage' then
+        for v_enemy in
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+          order by ecs.position
+        loop
+          v_dealt := public._damage_enemy(v_enemy.id, v_amount);
+          if v_dealt > 0 then
+            update public.enemy_combat_state set last_attacker_id = p_player_id where id = v_enemy.id;
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'damage', 'player', p_player_id::text,
+            p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_source => p_source,
+            p_raw_amount => v_amount, p_final_amount => v_dealt
+          );
+        end loop;
+
+      when 'block' then
+        update public.player_combat_state
+        set block = block + public._frail_block(v_amount, v_pcs.frail)
+        where id = v_pcs.id;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'block', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_source => p_source,
+          p_raw_amount => v_amount, p_final_amount => public._frail_block(v_amount, v_pcs.frail)
+        );
+
+      when 'heal' then
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'heal', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_source => p_source,
+          p_raw_amount => v_amount,
+          p_final_amount => (
+            select greatest(0, least(v_amount, c.hp_max - c.hp)) from public.characters c
+            where c.room_id = p_room_id and c.player_id = p_player_id
+          )
+        );
+        update public.characters set hp = least(hp_max, hp + v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+
+      when 'apply_status' then
+        perform public._apply_status('enemy', array(
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+        ), v_effect->>'status', v_amount);
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'enemy', p_source => p_source,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'gain_status' then
+        perform public._apply_status('player', array[v_pcs.id], v_effect->>'status', v_amount);
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_source => p_source,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'draw' then
+        v_draw_result := public._draw_hand(
+          v_pcs.draw_pile, v_pcs.discard_pile, v_amount, p_room_id, 'draw:' || p_player_id
+        );
+        update public.player_combat_state
+        set hand = hand || (v_draw_result->'hand'),
+            draw_pile = v_draw_result->'drawPile',
+            -- _draw_hand only shuffles the discard in when the draw pile runs short
+            discard_pile = case
+              when jsonb_array_length(v_pcs.draw_pile) < v_amount then '[]'::jsonb
+              else discard_pile
+            end
+        where id = v_pcs.id;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'draw', 'player', p_player_id::text, p_source => p_source,
+          p_raw_amount => v_amount, p_final_amount => jsonb_array_length(v_draw_result->'hand')
+        );
+
+      when 'gain_energy' then
+        update public.player_combat_state set energy = energy + v_amount where id = v_pcs.id;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'energy', 'player', p_player_id::text, p_source => p_source,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      else
+        raise exception 'Unknown item effect: %', v_effect->>'type';
+    end case;
+  end loop;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: enemy_killed relics
+-- Fires the player's enemy_killed relics once per enemy that died since p_alive_before enemies
+-- were alive, and again for the ones those relics kill. Returns the relics fired.
+-- ----------------------------
+
+create or replace function public._trigger_kill_relics(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_alive_before int
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_alive int := p_alive_before;
+  v_alive_now int;
+  v_fired jsonb := '[]'::jsonb;
+begin
+  loop
+    select count(*) into v_alive_now
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false;
+    exit when v_alive_now >= v_alive;
+
+    for i in 1..(v_alive - v_alive_now) loop
+      v_fired := v_fired || public._trigger_relics(p_room_id, p_screen_id, p_player_id, 'enemy_killed');
+    end loop;
+    v_alive := v_alive_now;
+  end loop;
+
+  return v_fired;
+end;
+$$;
+
+-- ----------------------------
+-- Helper: play a card from a player's hand
+-- Unchanged from 030 except that enemy_killed relics fire after the other relics, for every kill.
+-- ----------------------------
+
+create or replace function public._play_card(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id,
+  p_hand_index int,
+  p_target_enemy_idx int default null,
+  p_target_player_id public.player_id default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_card_instance jsonb;
+  v_card_id text;
+  v_card record;
+  v_is_upgraded boolean;
+  v_trait text;
+  v_is_amplified boolean;
+  v_target_id uuid;
+  v_queue jsonb;
+  v_effect jsonb;
+  v_type text;
+  v_amount int;
+  v_hits int;
+  v_all boolean;
+  v_condition jsonb;
+  v_condition_met boolean;
+  v_recipients public.player_id[];
+  v_recipient public.player_id;
+  v_recipient_pcs record;
+  v_allies jsonb := '{}'::jsonb;
+  v_enemy record;
+  v_hit int;
+  v_hp int;
+  v_hp_max int;
+  v_dealt int;
+  v_actual int;
+  v_total_damage int := 0;
+  v_total_block int := 0;
+  v_total_heal int := 0;
+  v_total_burn int := 0;
+  v_self_damage int := 0;
+  v_energy_gained int := 0;
+  v_drawn int := 0;
+  v_hand jsonb;
+  v_draw_pile jsonb;
+  v_discard jsonb;
+  v_exhaust jsonb;
+  v_draw_result jsonb;
+  v_new_charges jsonb;
+  v_new_energy int;
+  v_alive_before int;
+  v_relics jsonb := '[]'::jsonb;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+
+  if v_pcs is null then
+    raise exception 'No combat state found';
+  end if;
+
+  select count(*) into v_alive_before
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false;
+
+  v_card_instance := v_pcs.hand->p_hand_index;
+  if v_card_instance is null then
+    raise exception 'Invalid hand index';
+  end if;
+
+  v_card_id := v_card_instance->>'cardId';
+  v_is_upgraded := coalesce((v_card_instance->>'upgraded')::boolean, false);
+
+  select * into v_card from public.card_definitions where id = v_card_id;
+  if v_card is null then
+    raise exception 'Card not found: %', v_card_id;
+  end if;
+
+  if p_target_player_id is not null and not exists (
+    select 1 from public.characters c
+    where c.room_id = p_room_id and c.player_id = p_target_player_id and c.hp > 0
+  ) then
+    raise exception 'Invalid ally target';
+  end if;
+
+  if 'unplayable' = any(v_card.keywords) then
+    raise exception 'Card is unplayable: %', v_card_id;
+  end if;
+
+  if v_pcs.energy < v_card.cost then
+    raise exception 'Not enough energy (have %, need %)', v_pcs.energy, v_card.cost;
+  end if;
+
+  v_trait := v_card.trait;
+  v_is_amplified := coalesce((v_pcs.trait_charges->>v_trait)::int, 0) >= 3;
+
+  -- Single-target effects all hit the enemy chosen at play time
+  select sub.id into v_target_id
+  from (
+    select ecs.id, row_number() over (order by ecs.position) - 1 as idx
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+  ) sub
+  where sub.idx = coalesce(p_target_enemy_idx, 0);
+
+  -- Remove the played card first so draw effects can't redraw it
+  v_hand := v_pcs.hand - p_hand_index;
+  v_draw_pile := v_pcs.draw_pile;
+  v_discard := v_pcs.discard_pile;
+  v_exhaust := v_pcs.exhaust_pile;
+
+  v_queue := case
+    when v_is_upgraded and jsonb_array_length(v_card.upgraded_effects) > 0 then v_card.upgraded_effects
+    else v_card.effects
+  end;
+
+  -- Resolve effects in order; conditionals splice their effects into the front of the queue
+  while jsonb_array_length(v_queue) > 0 loop
+    v_effect := v_queue->0;
+    v_queue := v_queue - 0;
+    v_type := v_effect->>'type';
+    v_amount := coalesce((v_effect->>'amount')::int, 0);
+    v_all := coalesce(v_effect->>'target', 'enemy') = 'all_enemies';
+    if v_type in ('heal', 'block', 'gain_status') then
+      v_recipients := public._ally_recipients(
+        p_room_id, p_player_id, coalesce(v_effect->>'target', 'self'), p_target_player_id
+      );
+    end if;
+
+    -- Empowered cards amplify their numbers; weakened casters deal less damage
+    if v_type in ('damage', 'block', 'heal')
+      or v_type = 'apply_status' and v_effect->>'status' in ('burn', 'poison') then
+      v_amount := public._card_amount(
+        v_amount, v_is_amplified, v_type = 'damage' and v_pcs.weakened > 0
+      );
+    end if;
+
+    case v_type
+      when 'damage' then
+        v_hits := greatest(1, coalesce((v_effect->>'hits')::int, 1));
+        -- One log entry per target, summing all hits
+        for v_enemy in
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+            and (v_all or ecs.id = v_target_id)
+          order by ecs.position
+        loop
+          v_dealt := 0;
+          for v_hit in 1..v_hits loop
+            v_dealt := v_dealt + public._damage_enemy(v_enemy.id, v_amount);
+          end loop;
+          v_total_damage := v_total_damage + v_dealt;
+          if v_dealt > 0 then
+            update public.enemy_combat_state set last_attacker_id = p_player_id where id = v_enemy.id;
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'damage', 'player', p_player_id::text,
+            p_target_type => 'enemy', p_target_id => v_enemy.id::text, p_card_id => v_card_id,
+            p_raw_amount => v_amount * v_hits, p_final_amount => v_dealt
+          );
+        end loop;
+
+      when 'block' then
+        -- Frail is the recipient's
+        foreach v_recipient in array v_recipients loop
+          select pcs.id, pcs.frail into v_recipient_pcs
+          from public.player_combat_state pcs
+          where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id and pcs.player_id = v_recipient;
+          continue when v_recipient_pcs.id is null;
+          v_actual := public._frail_block(v_amount, v_recipient_pcs.frail);
+          update public.player_combat_state
+          set block = block + v_actual,
+              retained_block = retained_block
+                + case when coalesce((v_effect->>'persists')::boolean, false) then v_actual else 0 end
+          where id = v_recipient_pcs.id;
+          if v_recipient = p_player_id then
+            v_total_block := v_total_block + v_actual;
+          else
+            v_allies := v_allies || jsonb_build_object(v_recipient::text,
+              coalesce(v_allies->v_recipient::text, '{}'::jsonb) || jsonb_build_object(
+                'block', coalesce((v_allies->v_recipient::text->>'block')::int, 0) + v_actual
+              )
+            );
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'block', 'player', p_player_id::text,
+            p_target_type => 'player', p_target_id => v_recipient::text, p_card_id => v_card_id,
+            p_raw_amount => v_amount, p_final_amount => v_actual
+          );
+        end loop;
+
+      when 'heal' then
+        foreach v_recipient in array v_recipients loop
+          select c.hp, c.hp_max into v_hp, v_hp_max
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = v_recipient;
+          v_actual := greatest(0, least(v_amount, v_hp_max - v_hp));
+          update public.characters
+          set hp = least(hp_max, hp + v_amount)
+          where room_id = p_room_id and player_id = v_recipient;
+          if v_recipient = p_player_id then
+            v_total_heal := v_total_heal + v_amount;
+          else
+            v_allies := v_allies || jsonb_build_object(v_recipient::text,
+              coalesce(v_allies->v_recipient::text, '{}'::jsonb) || jsonb_build_object(
+                'heal', coalesce((v_allies->v_recipient::text->>'heal')::int, 0) + v_amount
+              )
+            );
+          end if;
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'heal', 'player', p_player_id::text,
+            p_target_type => 'player', p_target_id => v_recipient::text, p_card_id => v_card_id,
+            p_raw_amount => v_amount, p_final_amount => v_actual
+          );
+        end loop;
+
+      when 'self_damage' then
+        select c.hp into v_hp
+        from public.characters c
+        where c.room_id = p_room_id and c.player_id = p_player_id;
+        update public.characters
+        set hp = greatest(0, hp - v_amount)
+        where room_id = p_room_id and player_id = p_player_id;
+        v_self_damage := v_self_damage + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'self_damage', 'player', p_player_id::text,
+          p_target_type => 'player', p_target_id => p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => least(v_amount, v_hp)
+        );
+
+      when 'apply_status' then
+        perform public._apply_status('enemy', array(
+          select ecs.id from public.enemy_combat_state ecs
+          where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false
+            and (v_all or ecs.id = v_target_id)
+        ), v_effect->>'status', v_amount);
+        if v_effect->>'status' = 'burn' then
+          v_total_burn := v_total_burn + v_amount;
+        end if;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+          p_target_type => 'enemy',
+          p_target_id => case when v_all then null else v_target_id::text end,
+          p_card_id => v_card_id,
+          p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+        );
+
+      when 'gain_status' then
+        perform public._apply_status('player', array(
+          select pcs.id from public.player_combat_state pcs
+          where pcs.room_id = p_room_id and pcs.screen_id = p_screen_id
+            and pcs.player_id = any(v_recipients)
+        ), v_effect->>'status', v_amount);
+        foreach v_recipient in array v_recipients loop
+          perform public._log_combat_event(
+            p_room_id, p_screen_id, 'status', 'player', p_player_id::text,
+            p_target_type => 'player', p_target_id => v_recipient::text, p_card_id => v_card_id,
+            p_statuses => jsonb_build_object(v_effect->>'status', v_amount)
+          );
+        end loop;
+
+      when 'draw' then
+        if jsonb_array_length(v_draw_pile) < v_amount then
+          v_draw_result := public._draw_hand(v_draw_pile, v_discard, v_amount, p_room_id, 'draw:' || p_player_id);
+          v_discard := '[]'::jsonb;
+        else
+          v_draw_result := public._draw_hand(
+            v_draw_pile, '[]'::jsonb, v_amount, p_room_id, 'draw:' || p_player_id
+          );
+        end if;
+        v_hand := v_hand || (v_draw_result->'hand');
+        v_draw_pile := v_draw_result->'drawPile';
+        v_drawn := v_drawn + jsonb_array_length(v_draw_result->'hand');
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'draw', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => jsonb_array_length(v_draw_result->'hand')
+        );
+
+      when 'gain_energy' then
+        v_energy_gained := v_energy_gained + v_amount;
+        perform public._log_combat_event(
+          p_room_id, p_screen_id, 'energy', 'player', p_player_id::text, p_card_id => v_card_id,
+          p_raw_amount => v_amount, p_final_amount => v_amount
+        );
+
+      when 'conditional' then
+        v_condition := v_effect->'condition';
+        v_condition_met := false;
+
+        if v_condition->>'type' = 'target_has_status' and v_target_id is not null then
+          execute format(
+            'select %I > 0 from public.enemy_combat_state where id = $1',
+            v_condition->>'status'
+          ) into v_condition_met using v_target_id;
+        elsif v_condition->>'type' = 'hp_below_percent' then
+          select c.hp, c.hp_max into v_hp, v_hp_max
+          from public.characters c
+          where c.room_id = p_room_id and c.player_id = p_player_id;
+          v_condition_met := v_hp * 100 < v_hp_max * (v_condition->>'percent')::int;
+        end if;
+
+        if coalesce(v_condition_met, false) then
+          v_queue := (v_effect->'effects') || v_queue;
+        end if;
+
+      else
+        raise exception 'Unknown card effect: %', v_type;
+    end case;
+  end loop;
+
+  -- Played card goes to discard (or exhaust) with its usage tracked (auto-upgrade at threshold)
+  v_card_instance := jsonb_set(v_card_instance, '{usageCount}',
+    to_jsonb(coalesce((v_card_instance->>'usageCount')::int, 0) + 1)
+  );
+  if not v_is_upgraded and (v_card_instance->>'usageCount')::int >= v_card.upgrade_threshold then
+    v_card_instance := jsonb_set(v_card_instance, '{upgraded}', 'true'::jsonb);
+  end if;
+  if 'exhaust' = any(v_card.keywords) then
+    v_exhaust := v_exhaust || jsonb_build_array(v_card_instance);
+  else
+    v_discard := v_discard || jsonb_build_array(v_card_instance);
+  end if;
+
+  -- Empowered play resets the trait, otherwise it charges
+  v_new_charges := v_pcs.trait_charges;
+  if v_is_amplified then
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait], '0'::jsonb);
+  else
+    v_new_charges := jsonb_set(v_new_charges, array[v_trait],
+      to_jsonb(coalesce((v_new_charges->>v_trait)::int, 0) + 1));
+  end if;
+
+  v_new_energy := v_pcs.energy - v_card.cost + v_energy_gained;
+
+  update public.player_combat_state
+  set hand = v_hand,
+      draw_pile = v_draw_pile,
+      discard_pile = v_discard,
+      exhaust_pile = v_exhaust,
+      energy = v_new_energy,
+      trait_charges = v_new_charges
+  where id = v_pcs.id;
+
+  -- Relics: the card's trait, then a possible HP drop, then one enemy_killed per kill, the
+  -- relics' own kills included
+  v_relics := v_relics || public._trigger_relics(p_room_id, p_screen_id, p_player_id, 'card_played', v_trait);
+  v_relics := v_relics || public._trigger_relics(p_room_id, p_screen_id, p_player_id, 'hp_below');
+  v_relics := v_relics || public._trigger_kill_relics(p_room_id, p_screen_id, p_player_id, v_alive_before);
+
+  perform public._advance_boss_phases(p_room_id, p_screen_id);
+
+  -- Block, HP and attackers may have changed who the enemies are aiming at
+  perform public._retarget_enemies(p_room_id, p_screen_id);
+
+  return jsonb_build_object(
+    'cardId', v_card_id,
+    'cardName', v_card.name,
+    'trait', v_trait,
+    'targetEnemyId', v_target_id,
+    'targetPlayerId', p_target_player_id,
+    'damage', v_total_damage,
+    'block', v_total_block,
+    'heal', v_total_heal,
+    'allies', v_allies,
+    'burn', v_total_burn,
+    'selfDamage', v_self_damage,
+    'drawn', v_drawn,
+    'exhausted', 'exhaust' = any(v_card.keywords),
+    'energyGained', v_energy_gained,
+    'wasAmplified', v_is_amplified,
+    'energyLeft', v_new_energy,
+    'traitCharged', v_trait,
+    'newTraitCharges', v_new_charges,
+    'relics', v_relics
+  );
+end;
+$$;
+
+commit;
@@ -0,0 +1,344 @@
+-- 052: Upgrade rewards from the run deck
+-- Upgrade choices were drawn from every upgradeable card definition, while combat_select_reward
+-- only upgrades a copy in the player's run deck: picking a card they didn't own claimed the
+-- reward and changed nothing. Choices now come from the run deck's cards that are not upgraded
+-- yet (after the fight's own upgrades are synced), and picking a card without such a copy raises.
+
+begin;
+
+-- ----------------------------
+-- RPC: combat_generate_rewards
+-- Unchanged from 043 except that upgrade choices come from the player's run deck.
+-- ----------------------------
+
+create or replace function public.combat_generate_rewards(p_room_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_card_choices jsonb := '[]'::jsonb;
+  v_upgrade_choices jsonb := '[]'::jsonb;
+  v_card record;
+  v_player_id public.player_id;
+  v_stream text;
+  v_is_boss boolean;
+  v_relic_choices jsonb := '[]'::jsonb;
+  v_relic record;
+  v_choice_count int := greatest(1, 3 - public._ascension_value(p_room_id, 'reward_choices', 'count'));
+  v_screen_id uuid;
+  v_offer jsonb;
+begin
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = auth.uid() and rp.is_bot = false
+  limit 1;
+
+  if v_player_id is null then
+    raise exception 'Not in this room';
+  end if;
+
+  v_screen_id := public._won_fight_screen(p_room_id);
+  if v_screen_id is null then
+    raise exception 'No fight won to reward';
+  end if;
+
+  -- The same fight always offers the same rewards
+  select o.offer into v_offer
+  from public.combat_reward_offers o
+  where o.room_id = p_room_id and o.screen_id = v_screen_id and o.player_id = v_player_id;
+
+  if v_offer is not null then
+    return v_offer;
+  end if;
+
+  v_stream := 'rewards:' || v_player_id::text;
+
+  -- Upgrades earned in the fight count before the upgrade choices are drawn
+  perform public._sync_run_deck(p_room_id, v_screen_id);
+
+  -- Pick 3 random reward cards (fewer with ascension)
+  for v_card in
+    select cd.id, cd.name, cd.trait, cd.description, cd.cost, cd.is_rare
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(select id from public.card_definitions where is_starter = false order by id),
+      v_choice_count
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_card_choices := v_card_choices || jsonb_build_object(
+      'type', 'add_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'trait', v_card.trait,
+      'description', v_card.description,
+      'cost', v_card.cost,
+      'isRare', v_card.is_rare
+    );
+  end loop;
+
+  -- Pick 3 random cards of the run deck that can still be upgraded (fewer with ascension)
+  for v_card in
+    select cd.id, cd.name, cd.upgrade_name, cd.upgrade_description
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(
+        select distinct d.card->>'cardId'
+        from jsonb_array_elements(public._ensure_deck(p_room_id, v_player_id)) as d(card)
+        join public.card_definitions cd on cd.id = d.card->>'cardId'
+        where cd.upgrade_threshold < 99
+          and not coalesce((d.card->>'upgraded')::boolean, false)
+        order by 1
+      ),
+      v_choice_count
+    )) with ordinality as pick(card_id, ord)
+    join public.card_definitions cd on cd.id = pick.card_id
+    order by pick.ord
+  loop
+    v_upgrade_choices := v_upgrade_choices || jsonb_build_object(
+      'type', 'upgrade_card',
+      'cardId', v_card.id,
+      'name', v_card.name,
+      'upgradeName', v_card.upgrade_name,
+      'upgradeDescription', v_card.upgrade_description
+    );
+  end loop;
+
+  -- One common relic after a fight, a pick of three boss relics after a boss
+  select s.screen_type = 'boss_fight' into v_is_boss
+  from public.adventure_screens s
+  where s.id = v_screen_id;
+
+  for v_relic in
+    select rd.id, rd.name, rd.description, rd.icon, rd.rarity
+    from unnest(public._rng_sample(
+      p_room_id, v_stream,
+      array(
+        select rd.id from public.relic_definitions rd
+        where rd.rarity = case when coalesce(v_is_boss, false) then 'boss' else 'common' end
+          and not exists (
+            select 1 from public.characters c
+            where c.room_id = p_room_id and c.player_id = v_player_id and rd.id = any(c.relics)
+          )
+        order by rd.id
+      ),
+      case when coalesce(v_is_boss, false) then v_choice_count else 1 end
+    )) with ordinality as pick(relic_id, ord)
+    join public.relic_definitions rd on rd.id = pick.relic_id
+    order by pick.ord
+  loop
+    v_relic_choices := v_relic_choices || jsonb_build_object(
+      'type', 'relic',
+      'id', v_relic.id,
+      'name', v_relic.name,
+      'description', v_relic.description,
+      'icon', v_relic.icon,
+      'rarity', v_relic.rarity
+    );
+  end loop;
+
+  -- Analytics: a new roll for the same fight replaces the offer
+  begin
+    insert into public.analytics_reward_offers (
+      room_id, screen_id, player_id, role_id, bloc, ascension, is_playtest, offered_card_ids
+    )
+    select
+      p_room_id, v_screen_id, v_player_id, rp.role_id, r.current_bloc, r.ascension,
+      public._is_playtest_room(p_room_id),
+      array(select value->>'cardId' from jsonb_array_elements(v_card_choices))
+    from public.room_players rp
+    join public.rooms r on r.id = rp.room_id
+    where rp.room_id = p_room_id and rp.player_id = v_player_id
+    on conflict (room_id, screen_id, player_id) do update
+    set offered_card_ids = excluded.offered_card_ids,
+        picked_card_id = null,
+        created_at = now(),
+        picked_at = null;
+  end;
+
+  v_offer := jsonb_build_object(
+    'cardChoices', v_card_choices,
+    'upgradeChoices', v_upgrade_choices,
+    'bonusChoices', jsonb_build_array(
+      jsonb_build_object('type', 'bonus', 'id', 'max-hp-10', 'name', '+10 Max HP', 'icon', '❤️'),
+      jsonb_build_object('type', 'bonus', 'id', 'heal-15', 'name', 'Heal 15 HP', 'icon', '🧪'),
+      jsonb_build_object('type', 'bonus', 'id', 'max-energy-1', 'name', '+1 Max Energy', 'icon', '⚡')
+    ),
+    'relicChoices', v_relic_choices
+  );
+
+  insert into public.combat_reward_offers (room_id, screen_id, player_id, offer)
+  values (p_room_id, v_screen_id, v_player_id, v_offer);
+
+  return v_offer;
+end;
+$$;
+
+grant execute on function public.combat_generate_rewards(uuid) to authenticated;
+
+-- ----------------------------
+-- RPC: combat_select_reward
+-- Unchanged from 044 except that an upgrade without a copy to upgrade in the run deck raises.
+-- ----------------------------
+
+create or replace function public.combat_select_reward(
+  p_room_id uuid,
+  p_reward_type text,  -- 'add_card', 'upgrade_card', 'bonus', 'relic'
+  p_reward_id text     -- card_id, bonus_id or relic_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_screen_id uuid;
+  v_pcs record;
+  v_card record;
+  v_new_card jsonb;
+  v_offer record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false
+  limit 1;
+
+  v_screen_id := public._won_fight_screen(p_room_id);
+
+  -- Only a reward of the player's offer for this fight, once
+  select o.offer, o.claimed_at into v_offer
+  from public.combat_reward_offers o
+  where o.room_id = p_room_id and o.screen_id = v_screen_id and o.player_id = v_player_id
+  for update;
+
+  if v_offer.offer is null then
+    raise exception 'No reward offered for this fight';
+  end if;
+
+  if v_offer.claimed_at is not null then
+    raise exception 'Reward already claimed';
+  end if;
+
+  if not exists (
+    select 1
+    from jsonb_array_elements(
+      v_offer.offer->(case p_reward_type
+        when 'add_card' then 'cardChoices'
+        when 'upgrade_card' then 'upgradeChoices'
+        when 'bonus' then 'bonusChoices'
+        when 'relic' then 'relicChoices'
+      end)
+    ) choice
+    where coalesce(choice->>'cardId', choice->>'id') = p_reward_id
+  ) then
+    raise exception 'Reward not offered: % %', p_reward_type, p_reward_id;
+  end if;
+
+  update public.combat_reward_offers
+  set claimed_at = now()
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  -- The fight is won: its upgrades count before a reward upgrades a copy
+  perform public._sync_run_deck(p_room_id, v_screen_id);
+
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id;
+
+  if p_reward_type = 'add_card' then
+    -- Add card to player's deck (draw pile + discard)
+    select * into v_card from public.card_definitions where id = p_reward_id;
+    if v_card is null then
+      raise exception 'Card not found';
+    end if;
+    v_new_card := jsonb_build_object('cardId', p_reward_id, 'upgraded', false, 'usageCount', 0);
+    update public.characters
+    set deck = public._ensure_deck(p_room_id, v_player_id) || jsonb_build_array(v_new_card)
+    where room_id = p_room_id and player_id = v_player_id;
+    update public.analytics_reward_offers
+    set picked_card_id = p_reward_id, picked_at = now()
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = v_player_id
+      and p_reward_id = any(offered_card_ids);
+    return jsonb_build_object('applied', true, 'type', 'add_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'upgrade_card' then
+    -- Upgrade the first copy of the card in the run deck
+    declare
+      v_deck jsonb := public._ensure_deck(p_room_id, v_player_id);
+      v_i int;
+      v_upgraded boolean := false;
+    begin
+      for v_i in 0..jsonb_array_length(v_deck) - 1 loop
+        if (v_deck->v_i->>'cardId') = p_reward_id and not coalesce((v_deck->v_i->>'upgraded')::boolean, false) then
+          update public.characters
+          set deck = jsonb_set(v_deck, array[v_i::text, 'upgraded'], 'true'::jsonb)
+          where room_id = p_room_id and player_id = v_player_id;
+          v_upgraded := true;
+          exit;
+        end if;
+      end loop;
+
+      if not v_upgraded then
+        raise exception 'No copy of % left to upgrade in your deck', p_reward_id;
+      end if;
+    end;
+    return jsonb_build_object('applied', true, 'type', 'upgrade_card', 'cardId', p_reward_id);
+
+  elsif p_reward_type = 'bonus' then
+    if p_reward_id = 'max-hp-10' then
+      update public.characters set hp_max = hp_max + 10, hp = hp + 10
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-hp-20' then
+      update public.characters set hp_max = hp_max + 20, hp = hp + 20
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-15' then
+      update public.characters set hp = least(hp_max, hp + 15)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'heal-30' then
+      update public.characters set hp = least(hp_max, hp + 30)
+      where room_id = p_room_id and player_id = v_player_id;
+    elsif p_reward_id = 'max-energy-1' then
+      update public.player_combat_state
+      set max_energy = max_energy + 1
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-5' then
+      update public.player_combat_state
+      set starting_block = starting_block + 5
+      where id = v_pcs.id;
+    elsif p_reward_id = 'starting-block-10' then
+      update public.player_combat_state
+      set starting_block = starting_block + 10
+      where id = v_pcs.id;
+    elsif p_reward_id = 'free-first-reroll' then
+      update public.player_combat_state
+      set free_reroll = true
+      where id = v_pcs.id;
+    end if;
+    return jsonb_build_object('applied', true, 'type', 'bonus', 'bonusId', p_reward_id);
+
+  elsif p_reward_type = 'relic' then
+    if not exists (select 1 from public.relic_definitions where id = p_reward_id) then
+      raise exception 'Relic not found';
+    end if;
+    update public.characters
+    set relics = relics || p_reward_id
+    where room_id = p_room_id and player_id = v_player_id and not (p_reward_id = any(relics));
+    return jsonb_build_object('applied', true, 'type', 'relic', 'relicId', p_reward_id);
+  end if;
+
+  raise exception 'Unknown reward type: %', p_reward_type;
+end;
+$$;
+
+grant execute on function public.combat_select_reward(uuid, text, text) to authenticated;
+
+commit;
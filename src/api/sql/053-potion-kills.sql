@@ -0,0 +1,106 @@
+-- 053: Potion kills and boss phases
+-- combat_use_potion only retargeted the enemies after a potion's effects: a damage potion that
+-- killed an enemy fired no enemy_killed relic, and one that pushed a boss past a threshold left it
+-- in its phase. It now runs the same steps as _play_card after damage.
+
+begin;
+
+-- ----------------------------
+-- RPC: combat_use_potion
+-- Unchanged from 031 except that kills fire enemy_killed relics and bosses change phase.
+-- ----------------------------
+
+create or replace function public.combat_use_potion(
+  p_room_id uuid,
+  p_slot int
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_player_id public.player_id;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_char record;
+  v_potion public.potion_definitions;
+  v_potions text[];
+  v_alive_before int;
+  v_relics jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select rp.player_id into v_player_id
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.user_id = v_user_id and rp.is_bot = false;
+
+  if v_player_id is null then
+    raise exception 'Player not in room';
+  end if;
+
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player'
+  order by ct.turn_number desc limit 1;
+
+  if v_turn_id is null then
+    raise exception 'No active player phase';
+  end if;
+
+  perform 1 from public.player_turn_state pts
+  where pts.combat_turn_id = v_turn_id and pts.player_id = v_player_id and pts.has_ended_turn = false;
+  if not found then
+    raise exception 'Already ended turn';
+  end if;
+
+  select c.id, c.hp, c.potions into v_char
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = v_player_id
+  for update;
+
+  if v_char.hp <= 0 then
+    raise exception 'Player is dead';
+  end if;
+
+  if p_slot < 0 or p_slot >= coalesce(array_length(v_char.potions, 1), 0) then
+    raise exception 'No potion in slot %', p_slot;
+  end if;
+
+  select * into v_potion from public.potion_definitions where id = v_char.potions[p_slot + 1];
+  if v_potion is null then
+    raise exception 'Unknown potion: %', v_char.potions[p_slot + 1];
+  end if;
+
+  v_potions := v_char.potions[1:p_slot] || v_char.potions[p_slot + 2:];
+  update public.characters set potions = v_potions where id = v_char.id;
+
+  select count(*) into v_alive_before
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false;
+
+  perform public._apply_item_effects(p_room_id, v_screen_id, v_player_id, v_potion.effects, v_potion.id);
+
+  -- Same steps as after a card: kill relics, then boss phases
+  v_relics := public._trigger_kill_relics(p_room_id, v_screen_id, v_player_id, v_alive_before);
+  perform public._advance_boss_phases(p_room_id, v_screen_id);
+
+  -- Block, HP and attackers may have changed who the enemies are aiming at
+  perform public._retarget_enemies(p_room_id, v_screen_id);
+
+  return jsonb_build_object(
+    'potionId', v_potion.id,
+    'potionName', v_potion.name,
+    'slot', p_slot,
+    'potions', to_jsonb(v_potions),
+    'relics', v_relics
+  );
+end;
+$$;
+
+grant execute on function public.combat_use_potion(uuid, int) to authenticated;
+
+commit;
@@ -0,0 +1,283 @@
+-- 054: Bots converge only for a payout
+-- _use_convergence only pays out for fire, guard, shadow, storm and nature, but bots converged as
+-- soon as converge_at traits were empowered, spending the charges for nothing. A bot now also
+-- needs the convergence to do something (_convergence_payout > 0), as the simulator checks.
+
+begin;
+
+-- ----------------------------
+-- Helper: what a convergence would pay
+-- Damage dealt, block, heal, energy and statuses applied if the player converged now, with the
+-- amounts of _use_convergence. Zero when none of their empowered traits pays out.
+-- ----------------------------
+
+create or replace function public._convergence_payout(
+  p_room_id uuid,
+  p_screen_id uuid,
+  p_player_id public.player_id
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_pcs record;
+  v_empowered text[];
+  v_multiplier numeric;
+  v_damage int;
+  v_block int;
+  v_heal int;
+  v_enemies int;
+  v_payout int;
+begin
+  select * into v_pcs
+  from public.player_combat_state
+  where room_id = p_room_id and screen_id = p_screen_id and player_id = p_player_id;
+
+  select array_agg(key) into v_empowered
+  from jsonb_each_text(v_pcs.trait_charges)
+  where value::int >= 3;
+
+  if coalesce(cardinality(v_empowered), 0) < 2 then
+    return 0;
+  end if;
+
+  v_multiplier := case
+    when cardinality(v_empowered) >= 5 then 2.5
+    when cardinality(v_empowered) >= 4 then 2.0
+    when cardinality(v_empowered) >= 3 then 1.5
+    else 1.0
+  end;
+  v_damage := case when 'fire' = any(v_empowered) then floor(16 * v_multiplier)::int else 0 end;
+  v_block := case when 'guard' = any(v_empowered) then floor(14 * v_multiplier)::int else 0 end;
+  v_heal := case when 'nature' = any(v_empowered) then floor(12 * v_multiplier)::int else 0 end;
+
+  select count(*), coalesce(sum(least(ecs.hp, greatest(0, v_damage - ecs.block))), 0)
+  into v_enemies, v_payout
+  from public.enemy_combat_state ecs
+  where ecs.room_id = p_room_id and ecs.screen_id = p_screen_id and ecs.is_dead = false;
+
+  v_payout := v_payout + public._frail_block(v_block, v_pcs.frail);
+
+  select v_payout + greatest(0, least(v_heal, c.hp_max - c.hp)) into v_payout
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_player_id;
+
+  -- Storm's energy, shadow's vulnerable and weakened on every enemy
+  if 'storm' = any(v_empowered) then
+    v_payout := v_payout + 2;
+  end if;
+  if 'shadow' = any(v_empowered) then
+    v_payout := v_payout + 4 * v_enemies;
+  end if;
+
+  return v_payout;
+end;
+$$;
+
+-- ----------------------------
+-- RPC: combat_bot_turn
+-- Unchanged from 045 except that bots only converge when the convergence pays out.
+-- ----------------------------
+
+create or replace function public.combat_bot_turn(
+  p_room_id uuid,
+  p_bot_player_id public.player_id
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_runner_id uuid;
+  v_seat record;
+  v_policy public.bot_policies;
+  v_difficulty public.bot_difficulties;
+  v_turn_id uuid;
+  v_screen_id uuid;
+  v_pcs record;
+  v_bot_hp int;
+  v_action_log jsonb := '[]'::jsonb;
+  v_best_idx int;
+  v_best_score numeric;
+  v_best jsonb;
+  v_scored jsonb;
+  v_card_instance jsonb;
+  v_card record;
+  v_card_idx int;
+  v_target_enemy_idx int;
+  v_target_enemy_id uuid;
+  v_incoming int;
+  v_empowered int;
+  v_result jsonb;
+  v_iteration int := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_runner_id := public._bot_runner_user_id(p_room_id);
+  if v_runner_id <> v_user_id then
+    raise exception 'Only the bot runner can run bot turns';
+  end if;
+
+  select rp.is_bot, rp.bot_policy, rp.bot_difficulty into v_seat
+  from public.room_players rp
+  where rp.room_id = p_room_id and rp.player_id = p_bot_player_id;
+
+  if not v_seat.is_bot then
+    raise exception 'Player is not a bot';
+  end if;
+
+  select * into v_policy from public.bot_policies where id = v_seat.bot_policy;
+  if not found then
+    select * into v_policy from public.bot_policies where id = 'balanced';
+  end if;
+
+  select * into v_difficulty from public.bot_difficulties where id = v_seat.bot_difficulty;
+  if not found then
+    select * into v_difficulty from public.bot_difficulties where id = 'normal';
+  end if;
+
+  -- Locked like combat_end_turn, so the last seat to end sees every other one ended
+  select ct.id, ct.screen_id into v_turn_id, v_screen_id
+  from public.combat_turns ct
+  where ct.room_id = p_room_id and ct.phase = 'player'
+  order by ct.created_at desc
+  limit 1
+  for update;
+
+  if v_turn_id is null then
+    raise exception 'Not in player phase';
+  end if;
+
+  select c.hp into v_bot_hp
+  from public.characters c
+  where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+  if v_bot_hp <= 0 then
+    update public.player_turn_state set has_ended_turn = true
+    where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+    return jsonb_build_object('actions', v_action_log, 'dead', true);
+  end if;
+
+  loop
+    v_iteration := v_iteration + 1;
+    if v_iteration > 10 then exit; end if;  -- Safety limit
+
+    select * into v_pcs from public.player_combat_state
+    where room_id = p_room_id and screen_id = v_screen_id and player_id = p_bot_player_id;
+
+    select c.hp into v_bot_hp
+    from public.characters c
+    where c.room_id = p_room_id and c.player_id = p_bot_player_id;
+
+    if v_bot_hp <= 0 then exit; end if;
+
+    -- Policy target: the lowest HP enemy, or the one whose intent hits hardest
+    v_target_enemy_idx := null;
+    select sub.idx, sub.id into v_target_enemy_idx, v_target_enemy_id
+    from (
+      select ecs.id, ecs.hp, row_number() over (order by ecs.position) - 1 as idx,
+             case when v_policy.target = 'highest_threat' then public._enemy_intent_damage(ecs.id, 0) else 0 end as threat
+      from public.enemy_combat_state ecs
+      where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+    ) sub
+    order by sub.threat desc, sub.hp asc limit 1;
+
+    if v_target_enemy_idx is null then exit; end if;
+
+    -- Converge once enough traits are empowered and the convergence pays out; bots blind to
+    -- empowerment never do
+    select count(*) into v_empowered
+    from jsonb_each_text(v_pcs.trait_charges)
+    where value::int >= 3;
+
+    if v_difficulty.empower_skill > 0 and v_empowered >= v_policy.converge_at
+      and public._convergence_payout(p_room_id, v_screen_id, p_bot_player_id) > 0
+    then
+      perform public._log_combat_event(
+        p_room_id, v_screen_id, 'bot_decision', 'player', p_bot_player_id::text,
+        p_source => 'converge', p_final_amount => v_empowered
+      );
+      v_result := public._use_convergence(p_room_id, v_screen_id, v_turn_id, p_bot_player_id);
+      v_action_log := v_action_log || jsonb_build_object(
+        'action', 'convergence',
+        'damage', (v_result->>'damage')::int,
+        'block', (v_result->>'block')::int,
+        'heal', (v_result->>'heal')::int,
+        'reason', 'converge'
+      );
+      continue;
+    end if;
+
+    if jsonb_array_length(v_pcs.hand) = 0 then exit; end if;
+
+    -- Damage the enemies aim at this bot (or the whole party) this turn
+    select coalesce(sum(public._enemy_intent_damage(ecs.id, v_pcs.vulnerable)), 0) into v_incoming
+    from public.enemy_combat_state ecs
+    where ecs.room_id = p_room_id and ecs.screen_id = v_screen_id and ecs.is_dead = false
+      and (ecs.target_player_id = p_bot_player_id or ecs.target_player_id is null);
+
+    -- Pick the best scoring affordable card
+    v_best_idx := -1;
+    v_best_score := -1;
+
+    for v_card_idx in 0..jsonb_array_length(v_pcs.hand) - 1 loop
+      v_card_instance := v_pcs.hand->v_card_idx;
+      select * into v_card from public.card_definitions where id = v_card_instance->>'cardId';
+
+      if v_card is null or v_card.cost > v_pcs.energy or 'unplayable' = any(v_card.keywords) then
+        continue;
+      end if;
+
+      v_scored := public._bot_score_card(
+        p_room_id, v_screen_id, p_bot_player_id, v_card_instance,
+        v_policy, v_difficulty, v_target_enemy_id, v_incoming
+      );
+
+      if (v_scored->>'score')::numeric > v_best_score then
+        v_best_score := (v_scored->>'score')::numeric;
+        v_best_idx := v_card_idx;
+        v_best := v_scored;
+      end if;
+    end loop;
+
+    if v_best_idx < 0 then exit; end if;  -- No affordable cards
+
+    perform public._log_combat_event(
+      p_room_id, v_screen_id, 'bot_decision', 'player', p_bot_player_id::text,
+      p_target_type => 'enemy', p_target_id => v_target_enemy_id::text,
+      p_card_id => v_pcs.hand->v_best_idx->>'cardId',
+      p_source => v_best->>'reason', p_final_amount => (v_best->>'amount')::int
+    );
+
+    v_result := public._play_card(p_room_id, v_screen_id, p_bot_player_id, v_best_idx, v_target_enemy_idx);
+
+    v_action_log := v_action_log || jsonb_build_object(
+      'action', 'spell',
+      'spellId', v_result->>'cardId',
+      'spellName', v_result->>'cardName',
+      'targetId', v_result->>'targetEnemyId',
+      'damage', (v_result->>'damage')::int,
+      'block', (v_result->>'block')::int,
+      'heal', (v_result->>'heal')::int,
+      'reason', v_best->>'reason'
+    );
+  end loop;
+
+  -- End bot turn
+  update public.player_turn_state
+  set has_ended_turn = true
+  where combat_turn_id = v_turn_id and player_id = p_bot_player_id;
+
+  perform public._end_player_phase_if_all_ended(p_room_id, v_turn_id);
+
+  return jsonb_build_object('actions', v_action_log);
+end;
+$$;
+
+grant execute on function public.combat_bot_turn(uuid, public.player_id) to authenticated;
+
+commit;
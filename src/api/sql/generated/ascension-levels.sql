@@ -0,0 +1,12 @@
+-- Ascension levels
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.ascension_levels (level, icon, modifier) values
+  (1, '💪', '{"type":"enemy_hp","percent":15}'::jsonb),
+  (2, '💀', '{"type":"elite_chance","percent":30}'::jsonb),
+  (3, '🏕️', '{"type":"rest_heal","percent":20}'::jsonb),
+  (4, '🎁', '{"type":"reward_choices","count":1}'::jsonb),
+  (5, '🐉', '{"type":"boss_phase","hpPercent":20,"strength":3}'::jsonb)
+on conflict (level) do update set icon=excluded.icon, modifier=excluded.modifier;
+
+delete from public.ascension_levels where level not in (1, 2, 3, 4, 5);
@@ -0,0 +1,20 @@
+-- Bot policies
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.bot_policies (id, icon, weights, low_hp_percent, target, converge_at) values
+  ('balanced', '⚖️', '{"damage":1,"block":0.6,"heal":0.8,"support":0.5,"dot":1,"status":2,"draw":3,"energy":4,"charge":1,"kill":10}'::jsonb, 40, 'lowest_hp', 2),
+  ('cautious_tank', '🛡️', '{"damage":0.6,"block":1.5,"heal":1,"support":0.8,"dot":0.6,"status":2,"draw":2,"energy":3,"charge":0.5,"kill":5}'::jsonb, 60, 'highest_threat', 3),
+  ('greedy_damage', '🗡️', '{"damage":1.5,"block":0.2,"heal":0.3,"support":0.1,"dot":1.2,"status":1,"draw":2,"energy":4,"charge":0.5,"kill":20}'::jsonb, 20, 'lowest_hp', 2),
+  ('convergence_hunter', '🌀', '{"damage":0.8,"block":0.6,"heal":0.6,"support":0.4,"dot":0.8,"status":1,"draw":3,"energy":3,"charge":6,"kill":8}'::jsonb, 40, 'lowest_hp', 2),
+  ('support', '💚', '{"damage":0.6,"block":0.6,"heal":1,"support":2,"dot":0.6,"status":2,"draw":2,"energy":3,"charge":1,"kill":5}'::jsonb, 50, 'highest_threat', 3)
+on conflict (id) do update set icon=excluded.icon, weights=excluded.weights, low_hp_percent=excluded.low_hp_percent, target=excluded.target, converge_at=excluded.converge_at;
+
+delete from public.bot_policies where id not in ('balanced', 'cautious_tank', 'greedy_damage', 'convergence_hunter', 'support');
+
+insert into public.bot_difficulties (id, position, empower_skill, block_skill) values
+  ('easy', 0, 0, 0),
+  ('normal', 1, 0.5, 0.5),
+  ('hard', 2, 1, 1)
+on conflict (id) do update set position=excluded.position, empower_skill=excluded.empower_skill, block_skill=excluded.block_skill;
+
+delete from public.bot_difficulties where id not in ('easy', 'normal', 'hard');
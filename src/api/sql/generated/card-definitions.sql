@@ -0,0 +1,203 @@
+-- Card definitions
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.card_definitions (id, name, cost, trait, description, upgrade_threshold, upgrade_name, upgrade_description, base_damage, upgraded_damage, base_block, upgraded_block, base_heal, upgraded_heal, base_burn, upgraded_burn, is_aoe, is_rare, is_signature, is_starter, starter_role, effects, upgraded_effects, keywords) values
+  ('w-strike', 'Strike', 1, 'rage', 'Deal 8 damage.', 3, 'Strike+', 'Deal 11 damage.', 8, 11, null, null, null, null, null, null, false, false, false, true, 'warrior', '[{"type":"damage","amount":8}]'::jsonb, '[{"type":"damage","amount":11}]'::jsonb, array[]::text[]),
+  ('w-quick-slash', 'Quick Slash', 0, 'rage', 'Deal 3 damage.', 3, 'Quick Slash+', 'Deal 5 damage.', 3, 5, null, null, null, null, null, null, false, false, false, true, 'warrior', '[{"type":"damage","amount":3}]'::jsonb, '[{"type":"damage","amount":5}]'::jsonb, array[]::text[]),
+  ('w-heavy-blow', 'Heavy Blow', 2, 'rage', 'Deal 14 damage.', 2, 'Crushing Blow', 'Deal 19 damage.', 14, 19, null, null, null, null, null, null, false, false, false, true, 'warrior', '[{"type":"damage","amount":14}]'::jsonb, '[{"type":"damage","amount":19}]'::jsonb, array[]::text[]),
+  ('w-guard', 'Guard', 1, 'iron', 'Gain 7 Block.', 3, 'Guard+', 'Gain 10 Block.', null, null, 7, 10, null, null, null, null, false, false, false, true, 'warrior', '[{"type":"block","amount":7}]'::jsonb, '[{"type":"block","amount":10}]'::jsonb, array[]::text[]),
+  ('w-brace', 'Brace', 0, 'iron', 'Gain 3 Block.', 3, 'Brace+', 'Gain 5 Block.', null, null, 3, 5, null, null, null, null, false, false, false, true, 'warrior', '[{"type":"block","amount":3}]'::jsonb, '[{"type":"block","amount":5}]'::jsonb, array[]::text[]),
+  ('w-fortify', 'Fortify', 2, 'iron', 'Gain 12 Block.', 2, 'Fortify+', 'Gain 16 Block.', null, null, 12, 16, null, null, null, null, false, false, false, true, 'warrior', '[{"type":"block","amount":12}]'::jsonb, '[{"type":"block","amount":16}]'::jsonb, array[]::text[]),
+  ('w-drain-strike', 'Drain Strike', 1, 'blood', 'Deal 5 damage. Heal 3.', 3, 'Drain Strike+', 'Deal 7 damage. Heal 5.', 5, 7, null, null, 3, 5, null, null, false, false, false, true, 'warrior', '[{"type":"damage","amount":5},{"type":"heal","amount":3}]'::jsonb, '[{"type":"damage","amount":7},{"type":"heal","amount":5}]'::jsonb, array[]::text[]),
+  ('w-blood-pact', 'Blood Pact', 0, 'blood', 'Heal 2.', 3, 'Blood Pact+', 'Heal 4.', null, null, null, null, 2, 4, null, null, false, false, false, true, 'warrior', '[{"type":"heal","amount":2}]'::jsonb, '[{"type":"heal","amount":4}]'::jsonb, array[]::text[]),
+  ('w-siphon', 'Siphon', 2, 'blood', 'Deal 8 damage. Heal 6.', 2, 'Siphon+', 'Deal 11 damage. Heal 8.', 8, 11, null, null, 6, 8, null, null, false, false, false, true, 'warrior', '[{"type":"damage","amount":8},{"type":"heal","amount":6}]'::jsonb, '[{"type":"damage","amount":11},{"type":"heal","amount":8}]'::jsonb, array[]::text[]),
+  ('w-shock', 'Shock', 1, 'thunder', 'Deal 6 damage. Weak 1.', 3, 'Shock+', 'Deal 9 damage. Weak 1.', 6, 9, null, null, null, null, null, null, false, false, false, true, 'warrior', '[{"type":"damage","amount":6},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"damage","amount":9},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, array[]::text[]),
+  ('w-spark', 'Spark', 0, 'thunder', 'Deal 2 damage.', 3, 'Spark+', 'Deal 4 damage.', 2, 4, null, null, null, null, null, null, false, false, false, true, 'warrior', '[{"type":"damage","amount":2}]'::jsonb, '[{"type":"damage","amount":4}]'::jsonb, array[]::text[]),
+  ('w-lightning-strike', 'Lightning Strike', 2, 'thunder', 'Deal 12 damage. Vuln 1.', 2, 'Lightning Strike+', 'Deal 16 damage. Vuln 1.', 12, 16, null, null, null, null, null, null, false, false, false, true, 'warrior', '[{"type":"damage","amount":12},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":16},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('s-fireball', 'Fireball', 1, 'fire', 'Deal 7 damage. Burn 3.', 3, 'Fireball+', 'Deal 10 damage. Burn 5.', 7, 10, null, null, null, null, 3, 5, false, false, false, true, 'sage', '[{"type":"damage","amount":7},{"type":"apply_status","status":"burn","amount":3}]'::jsonb, '[{"type":"damage","amount":10},{"type":"apply_status","status":"burn","amount":5}]'::jsonb, array[]::text[]),
+  ('s-kindle', 'Kindle', 0, 'fire', 'Deal 3 damage.', 3, 'Kindle+', 'Deal 5 damage.', 3, 5, null, null, null, null, null, null, false, false, false, true, 'sage', '[{"type":"damage","amount":3}]'::jsonb, '[{"type":"damage","amount":5}]'::jsonb, array[]::text[]),
+  ('s-flame-wave', 'Flame Wave', 2, 'fire', 'Deal 10 damage to all.', 2, 'Flame Wave+', 'Deal 14 damage to all.', 10, 14, null, null, null, null, null, null, true, false, false, true, 'sage', '[{"type":"damage","amount":10,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":14,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-ice-shard', 'Ice Shard', 1, 'frost', 'Deal 6 damage. Weak 1.', 3, 'Ice Shard+', 'Deal 9 damage. Weak 2.', 6, 9, null, null, null, null, null, null, false, false, false, true, 'sage', '[{"type":"damage","amount":6},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"damage","amount":9},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, array[]::text[]),
+  ('s-frost-shield', 'Frost Shield', 0, 'frost', 'Gain 4 Block.', 3, 'Frost Shield+', 'Gain 6 Block.', null, null, 4, 6, null, null, null, null, false, false, false, true, 'sage', '[{"type":"block","amount":4}]'::jsonb, '[{"type":"block","amount":6}]'::jsonb, array[]::text[]),
+  ('s-blizzard', 'Blizzard', 2, 'frost', 'Deal 6 damage to all. Weak 1.', 2, 'Blizzard+', 'Deal 9 damage to all. Weak 2.', 6, 9, null, null, null, null, null, null, true, false, false, true, 'sage', '[{"type":"damage","amount":6,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":9,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":2,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-zap', 'Zap', 0, 'storm', 'Deal 3 damage.', 3, 'Zap+', 'Deal 5 damage.', 3, 5, null, null, null, null, null, null, false, false, false, true, 'sage', '[{"type":"damage","amount":3}]'::jsonb, '[{"type":"damage","amount":5}]'::jsonb, array[]::text[]),
+  ('s-arc-bolt', 'Arc Bolt', 1, 'storm', 'Deal 8 damage.', 3, 'Arc Bolt+', 'Deal 11 damage.', 8, 11, null, null, null, null, null, null, false, false, false, true, 'sage', '[{"type":"damage","amount":8}]'::jsonb, '[{"type":"damage","amount":11}]'::jsonb, array[]::text[]),
+  ('s-thunderstrike', 'Thunderstrike', 2, 'storm', 'Deal 14 damage.', 2, 'Thunderstrike+', 'Deal 19 damage.', 14, 19, null, null, null, null, null, null, false, false, false, true, 'sage', '[{"type":"damage","amount":14}]'::jsonb, '[{"type":"damage","amount":19}]'::jsonb, array[]::text[]),
+  ('s-arcane-bolt', 'Arcane Bolt', 1, 'arcane', 'Deal 6 damage.', 3, 'Arcane Bolt+', 'Deal 9 damage.', 6, 9, null, null, null, null, null, null, false, false, false, true, 'sage', '[{"type":"damage","amount":6}]'::jsonb, '[{"type":"damage","amount":9}]'::jsonb, array[]::text[]),
+  ('s-mystic-shield', 'Mystic Shield', 0, 'arcane', 'Gain 3 Block. Heal 1.', 3, 'Mystic Shield+', 'Gain 5 Block. Heal 2.', null, null, 3, 5, 1, 2, null, null, false, false, false, true, 'sage', '[{"type":"block","amount":3},{"type":"heal","amount":1}]'::jsonb, '[{"type":"block","amount":5},{"type":"heal","amount":2}]'::jsonb, array[]::text[]),
+  ('s-arcane-blast', 'Arcane Blast', 2, 'arcane', 'Deal 12 damage.', 2, 'Arcane Blast+', 'Deal 16 damage.', 12, 16, null, null, null, null, null, null, false, false, false, true, 'sage', '[{"type":"damage","amount":12}]'::jsonb, '[{"type":"damage","amount":16}]'::jsonb, array[]::text[]),
+  ('r-shadow-mark', 'Shadow Mark', 1, 'shadow', 'Deal 4 damage. Vuln 2.', 3, 'Deep Mark', 'Deal 6 damage. Vuln 3.', 4, 6, null, null, null, null, null, null, false, false, false, true, 'ranger', '[{"type":"damage","amount":4},{"type":"apply_status","status":"vulnerable","amount":2}]'::jsonb, '[{"type":"damage","amount":6},{"type":"apply_status","status":"vulnerable","amount":3}]'::jsonb, array[]::text[]),
+  ('r-nick', 'Nick', 0, 'shadow', 'Deal 2 damage. Weak 1.', 3, 'Nick+', 'Deal 4 damage. Weak 1.', 2, 4, null, null, null, null, null, null, false, false, false, true, 'ranger', '[{"type":"damage","amount":2},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"damage","amount":4},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, array[]::text[]),
+  ('r-ambush', 'Ambush', 2, 'shadow', 'Deal 12 damage.', 2, 'Ambush+', 'Deal 16 damage.', 12, 16, null, null, null, null, null, null, false, false, false, true, 'ranger', '[{"type":"damage","amount":12}]'::jsonb, '[{"type":"damage","amount":16}]'::jsonb, array[]::text[]),
+  ('r-sprout', 'Sprout', 0, 'nature', 'Heal 3.', 3, 'Sprout+', 'Heal 5.', null, null, null, null, 3, 5, null, null, false, false, false, true, 'ranger', '[{"type":"heal","amount":3}]'::jsonb, '[{"type":"heal","amount":5}]'::jsonb, array[]::text[]),
+  ('r-vine-lash', 'Vine Lash', 1, 'nature', 'Deal 4 damage. Heal 4.', 3, 'Vine Lash+', 'Deal 6 damage. Heal 6.', 4, 6, null, null, 4, 6, null, null, false, false, false, true, 'ranger', '[{"type":"damage","amount":4},{"type":"heal","amount":4}]'::jsonb, '[{"type":"damage","amount":6},{"type":"heal","amount":6}]'::jsonb, array[]::text[]),
+  ('r-regrowth', 'Regrowth', 2, 'nature', 'Heal 8. +1 Regen.', 2, 'Regrowth+', 'Heal 12. +2 Regen.', null, null, null, null, 8, 12, null, null, false, false, false, true, 'ranger', '[{"type":"heal","amount":8},{"type":"gain_status","status":"regen","amount":1}]'::jsonb, '[{"type":"heal","amount":12},{"type":"gain_status","status":"regen","amount":2}]'::jsonb, array[]::text[]),
+  ('r-quick-shot', 'Quick Shot', 0, 'precision', 'Deal 3 damage.', 3, 'Quick Shot+', 'Deal 5 damage.', 3, 5, null, null, null, null, null, null, false, false, false, true, 'ranger', '[{"type":"damage","amount":3}]'::jsonb, '[{"type":"damage","amount":5}]'::jsonb, array[]::text[]),
+  ('r-aimed-shot', 'Aimed Shot', 1, 'precision', 'Deal 9 damage.', 3, 'Aimed Shot+', 'Deal 12 damage.', 9, 12, null, null, null, null, null, null, false, false, false, true, 'ranger', '[{"type":"damage","amount":9}]'::jsonb, '[{"type":"damage","amount":12}]'::jsonb, array[]::text[]),
+  ('r-snipe', 'Snipe', 2, 'precision', 'Deal 16 damage.', 2, 'Snipe+', 'Deal 22 damage.', 16, 22, null, null, null, null, null, null, false, false, false, true, 'ranger', '[{"type":"damage","amount":16}]'::jsonb, '[{"type":"damage","amount":22}]'::jsonb, array[]::text[]),
+  ('r-poison-dart', 'Poison Dart', 0, 'venom', 'Burn 3.', 3, 'Poison Dart+', 'Burn 5.', null, null, null, null, null, null, 3, 5, false, false, false, true, 'ranger', '[{"type":"apply_status","status":"burn","amount":3}]'::jsonb, '[{"type":"apply_status","status":"burn","amount":5}]'::jsonb, array[]::text[]),
+  ('r-toxic-strike', 'Toxic Strike', 1, 'venom', 'Deal 5 damage. Burn 4.', 3, 'Toxic Strike+', 'Deal 7 damage. Burn 6.', 5, 7, null, null, null, null, 4, 6, false, false, false, true, 'ranger', '[{"type":"damage","amount":5},{"type":"apply_status","status":"burn","amount":4}]'::jsonb, '[{"type":"damage","amount":7},{"type":"apply_status","status":"burn","amount":6}]'::jsonb, array[]::text[]),
+  ('r-acid-splash', 'Acid Splash', 2, 'venom', 'Deal 6 damage to all. Burn 3.', 2, 'Acid Splash+', 'Deal 9 damage to all. Burn 5.', 6, 9, null, null, null, null, 3, 5, true, false, false, true, 'ranger', '[{"type":"damage","amount":6,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":3,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":9,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":5,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('w-reckless-strike', 'Reckless Strike', 1, 'rage', 'Deal 12 damage. Take 3 damage.', 3, 'Reckless Strike+', 'Deal 16 damage. Take 3 damage.', 12, 16, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":12},{"type":"self_damage","amount":3}]'::jsonb, '[{"type":"damage","amount":16},{"type":"self_damage","amount":3}]'::jsonb, array[]::text[]),
+  ('w-cleave', 'Cleave', 2, 'rage', 'Deal 10 damage to all.', 2, 'Great Cleave', 'Deal 14 damage to all.', 10, 14, null, null, null, null, null, null, true, false, false, false, 'warrior', '[{"type":"damage","amount":10,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":14,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('w-fury-chain', 'Fury Chain', 2, 'rage', 'Deal 5 damage ×3.', 2, 'Fury Chain+', 'Deal 7 damage ×3.', 5, 7, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":5,"hits":3}]'::jsonb, '[{"type":"damage","amount":7,"hits":3}]'::jsonb, array[]::text[]),
+  ('w-savage-swing', 'Savage Swing', 1, 'rage', 'Deal 6 damage. Vuln 1.', 3, 'Savage Swing+', 'Deal 9 damage. Vuln 1.', 6, 9, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":6},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":9},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('w-war-stomp', 'War Stomp', 2, 'rage', 'Deal 8 damage to all. Weak 1.', 2, 'War Stomp+', 'Deal 11 damage to all. Weak 1.', 8, 11, null, null, null, null, null, null, true, false, false, false, 'warrior', '[{"type":"damage","amount":8,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":11,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('w-execute', 'Execute', 3, 'rage', 'Deal 22 damage.', 2, 'Execute+', 'Deal 28 damage.', 22, 28, null, null, null, null, null, null, false, true, false, false, 'warrior', '[{"type":"damage","amount":22}]'::jsonb, '[{"type":"damage","amount":28}]'::jsonb, array[]::text[]),
+  ('w-rampage', 'Rampage', 3, 'rage', 'Deal 16 damage to all.', 2, 'Rampage+', 'Deal 22 damage to all.', 16, 22, null, null, null, null, null, null, true, true, false, false, 'warrior', '[{"type":"damage","amount":16,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":22,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('w-pummel', 'Pummel', 1, 'rage', 'Deal 4 damage ×2.', 3, 'Pummel+', 'Deal 6 damage ×2.', 4, 6, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":4,"hits":2}]'::jsonb, '[{"type":"damage","amount":6,"hits":2}]'::jsonb, array[]::text[]),
+  ('w-headbutt', 'Headbutt', 0, 'rage', 'Deal 2 damage. Weak 1.', 3, 'Headbutt+', 'Deal 4 damage. Weak 1.', 2, 4, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":2},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"damage","amount":4},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, array[]::text[]),
+  ('w-bloodlust', 'Bloodlust', 2, 'rage', 'Deal 14 damage. Heal 4.', 2, 'Bloodlust+', 'Deal 18 damage. Heal 6.', 14, 18, null, null, 4, 6, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":14},{"type":"heal","amount":4}]'::jsonb, '[{"type":"damage","amount":18},{"type":"heal","amount":6}]'::jsonb, array[]::text[]),
+  ('w-massacre', 'Massacre', 3, 'rage', 'Deal 14 damage to all. Vuln 1.', 2, 'Massacre+', 'Deal 18 damage to all. Vuln 2.', 14, 18, null, null, null, null, null, null, true, true, false, false, 'warrior', '[{"type":"damage","amount":14,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":1,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":18,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":2,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('w-charge', 'Charge', 1, 'rage', 'Deal 10 damage. Vuln 1.', 3, 'Charge+', 'Deal 13 damage. Vuln 1.', 10, 13, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":10},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":13},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('w-war-cry', 'War Cry', 0, 'rage', 'Gain 1 Energy. Draw 1 card.', 2, 'War Cry+', 'Gain 1 Energy. Draw 2 cards.', null, null, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"gain_energy","amount":1},{"type":"draw","amount":1}]'::jsonb, '[{"type":"gain_energy","amount":1},{"type":"draw","amount":2}]'::jsonb, array['innate', 'exhaust']::text[]),
+  ('w-shield-wall', 'Shield Wall', 2, 'iron', 'Gain 10 Block. Persists.', 2, 'Shield Wall+', 'Gain 14 Block. Persists.', null, null, 10, 14, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":10,"persists":true}]'::jsonb, '[{"type":"block","amount":14,"persists":true}]'::jsonb, array[]::text[]),
+  ('w-iron-skin', 'Iron Skin', 1, 'iron', 'Gain 5 Block. +2 Thorns.', 3, 'Iron Skin+', 'Gain 7 Block. +3 Thorns.', null, null, 5, 7, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":5},{"type":"gain_status","status":"thorns","amount":2}]'::jsonb, '[{"type":"block","amount":7},{"type":"gain_status","status":"thorns","amount":3}]'::jsonb, array[]::text[]),
+  ('w-bulwark', 'Bulwark', 3, 'iron', 'Gain 18 Block. +3 Thorns.', 2, 'Great Bulwark', 'Gain 24 Block. +4 Thorns.', null, null, 18, 24, null, null, null, null, false, true, false, false, 'warrior', '[{"type":"block","amount":18},{"type":"gain_status","status":"thorns","amount":3}]'::jsonb, '[{"type":"block","amount":24},{"type":"gain_status","status":"thorns","amount":4}]'::jsonb, array[]::text[]),
+  ('w-parry', 'Parry', 1, 'iron', 'Gain 4 Block. Deal 4 damage.', 3, 'Parry+', 'Gain 6 Block. Deal 6 damage.', 4, 6, 4, 6, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":4},{"type":"damage","amount":4}]'::jsonb, '[{"type":"block","amount":6},{"type":"damage","amount":6}]'::jsonb, array[]::text[]),
+  ('w-shield-bash', 'Shield Bash', 1, 'iron', 'Gain 3 Block. Deal 6 damage.', 3, 'Shield Bash+', 'Gain 5 Block. Deal 8 damage.', 6, 8, 3, 5, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":3},{"type":"damage","amount":6}]'::jsonb, '[{"type":"block","amount":5},{"type":"damage","amount":8}]'::jsonb, array[]::text[]),
+  ('w-sentinel', 'Sentinel', 2, 'iron', 'Gain 8 Block. Heal 4.', 2, 'Sentinel+', 'Gain 11 Block. Heal 6.', null, null, 8, 11, 4, 6, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":8},{"type":"heal","amount":4}]'::jsonb, '[{"type":"block","amount":11},{"type":"heal","amount":6}]'::jsonb, array[]::text[]),
+  ('w-reinforce', 'Reinforce', 0, 'iron', 'Gain 2 Block. +1 Regen.', 3, 'Reinforce+', 'Gain 4 Block. +1 Regen.', null, null, 2, 4, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":2},{"type":"gain_status","status":"regen","amount":1}]'::jsonb, '[{"type":"block","amount":4},{"type":"gain_status","status":"regen","amount":1}]'::jsonb, array[]::text[]),
+  ('w-stone-form', 'Stone Form', 3, 'iron', 'Gain 20 Block. Persists.', 2, 'Stone Form+', 'Gain 26 Block. Persists.', null, null, 20, 26, null, null, null, null, false, true, false, false, 'warrior', '[{"type":"block","amount":20,"persists":true}]'::jsonb, '[{"type":"block","amount":26,"persists":true}]'::jsonb, array[]::text[]),
+  ('w-counter-strike', 'Counter Strike', 2, 'iron', 'Gain 6 Block. Deal 8 damage.', 2, 'Counter Strike+', 'Gain 8 Block. Deal 11 damage.', 8, 11, 6, 8, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":6},{"type":"damage","amount":8}]'::jsonb, '[{"type":"block","amount":8},{"type":"damage","amount":11}]'::jsonb, array[]::text[]),
+  ('w-deflect', 'Deflect', 1, 'iron', 'Gain 6 Block.', 3, 'Deflect+', 'Gain 9 Block.', null, null, 6, 9, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":6}]'::jsonb, '[{"type":"block","amount":9}]'::jsonb, array[]::text[]),
+  ('w-aegis', 'Aegis', 2, 'iron', 'Gain 14 Block.', 2, 'Aegis+', 'Gain 18 Block.', null, null, 14, 18, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":14}]'::jsonb, '[{"type":"block","amount":18}]'::jsonb, array[]::text[]),
+  ('w-last-stand', 'Last Stand', 3, 'iron', 'Gain 16 Block. Deal 10 damage.', 2, 'Last Stand+', 'Gain 20 Block. Deal 14 damage.', 10, 14, 16, 20, null, null, null, null, false, true, false, false, 'warrior', '[{"type":"block","amount":16},{"type":"damage","amount":10}]'::jsonb, '[{"type":"block","amount":20},{"type":"damage","amount":14}]'::jsonb, array[]::text[]),
+  ('w-disarm', 'Disarm', 1, 'iron', 'Str Down 6. Gain 4 Block.', 3, 'Disarm+', 'Str Down 9. Gain 6 Block.', null, null, 4, 6, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"apply_status","status":"strength_down","amount":6},{"type":"block","amount":4}]'::jsonb, '[{"type":"apply_status","status":"strength_down","amount":9},{"type":"block","amount":6}]'::jsonb, array[]::text[]),
+  ('w-second-wind', 'Second Wind', 1, 'iron', 'Gain 14 Block. Heal 4.', 2, 'Second Wind+', 'Gain 18 Block. Heal 6.', null, null, 14, 18, 4, 6, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":14},{"type":"heal","amount":4}]'::jsonb, '[{"type":"block","amount":18},{"type":"heal","amount":6}]'::jsonb, array['exhaust']::text[]),
+  ('w-leech', 'Leech', 1, 'blood', 'Deal 4 damage. Heal 4.', 3, 'Leech+', 'Deal 6 damage. Heal 6.', 4, 6, null, null, 4, 6, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":4},{"type":"heal","amount":4}]'::jsonb, '[{"type":"damage","amount":6},{"type":"heal","amount":6}]'::jsonb, array[]::text[]),
+  ('w-crimson-slash', 'Crimson Slash', 1, 'blood', 'Deal 7 damage. Heal 2.', 3, 'Crimson Slash+', 'Deal 10 damage. Heal 3.', 7, 10, null, null, 2, 3, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":7},{"type":"heal","amount":2}]'::jsonb, '[{"type":"damage","amount":10},{"type":"heal","amount":3}]'::jsonb, array[]::text[]),
+  ('w-transfusion', 'Transfusion', 2, 'blood', 'Heal 10.', 2, 'Transfusion+', 'Heal 14.', null, null, null, null, 10, 14, null, null, false, false, false, false, 'warrior', '[{"type":"heal","amount":10}]'::jsonb, '[{"type":"heal","amount":14}]'::jsonb, array[]::text[]),
+  ('w-blood-shield', 'Blood Shield', 1, 'blood', 'Gain 4 Block. Heal 3.', 3, 'Blood Shield+', 'Gain 6 Block. Heal 5.', null, null, 4, 6, 3, 5, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":4},{"type":"heal","amount":3}]'::jsonb, '[{"type":"block","amount":6},{"type":"heal","amount":5}]'::jsonb, array[]::text[]),
+  ('w-vampiric-touch', 'Vampiric Touch', 2, 'blood', 'Deal 6 damage. Heal 6. +1 Regen.', 2, 'Vampiric Touch+', 'Deal 9 damage. Heal 9. +1 Regen.', 6, 9, null, null, 6, 9, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":6},{"type":"heal","amount":6},{"type":"gain_status","status":"regen","amount":1}]'::jsonb, '[{"type":"damage","amount":9},{"type":"heal","amount":9},{"type":"gain_status","status":"regen","amount":1}]'::jsonb, array[]::text[]),
+  ('w-hemorrhage', 'Hemorrhage', 2, 'blood', 'Deal 10 damage. Burn 4.', 2, 'Hemorrhage+', 'Deal 14 damage. Burn 6.', 10, 14, null, null, null, null, 4, 6, false, false, false, false, 'warrior', '[{"type":"damage","amount":10},{"type":"apply_status","status":"burn","amount":4}]'::jsonb, '[{"type":"damage","amount":14},{"type":"apply_status","status":"burn","amount":6}]'::jsonb, array[]::text[]),
+  ('w-life-tap', 'Life Tap', 0, 'blood', 'Heal 3.', 3, 'Life Tap+', 'Heal 5.', null, null, null, null, 3, 5, null, null, false, false, false, false, 'warrior', '[{"type":"heal","amount":3}]'::jsonb, '[{"type":"heal","amount":5}]'::jsonb, array[]::text[]),
+  ('w-blood-rage', 'Blood Rage', 3, 'blood', 'Deal 14 damage. Heal 8.', 2, 'Blood Rage+', 'Deal 18 damage. Heal 12.', 14, 18, null, null, 8, 12, null, null, false, true, false, false, 'warrior', '[{"type":"damage","amount":14},{"type":"heal","amount":8}]'::jsonb, '[{"type":"damage","amount":18},{"type":"heal","amount":12}]'::jsonb, array[]::text[]),
+  ('w-crimson-wave', 'Crimson Wave', 3, 'blood', 'Deal 10 damage to all. Heal 6.', 2, 'Crimson Wave+', 'Deal 14 damage to all. Heal 8.', 10, 14, null, null, 6, 8, null, null, true, true, false, false, 'warrior', '[{"type":"damage","amount":10,"target":"all_enemies"},{"type":"heal","amount":6}]'::jsonb, '[{"type":"damage","amount":14,"target":"all_enemies"},{"type":"heal","amount":8}]'::jsonb, array[]::text[]),
+  ('w-mend-wounds', 'Mend Wounds', 1, 'blood', 'Heal 6.', 3, 'Mend Wounds+', 'Heal 9.', null, null, null, null, 6, 9, null, null, false, false, false, false, 'warrior', '[{"type":"heal","amount":6}]'::jsonb, '[{"type":"heal","amount":9}]'::jsonb, array[]::text[]),
+  ('w-blood-oath', 'Blood Oath', 2, 'blood', 'Gain 5 Block. Heal 5. +1 Regen.', 2, 'Blood Oath+', 'Gain 7 Block. Heal 8. +1 Regen.', null, null, 5, 7, 5, 8, null, null, false, false, false, false, 'warrior', '[{"type":"block","amount":5},{"type":"heal","amount":5},{"type":"gain_status","status":"regen","amount":1}]'::jsonb, '[{"type":"block","amount":7},{"type":"heal","amount":8},{"type":"gain_status","status":"regen","amount":1}]'::jsonb, array[]::text[]),
+  ('w-sanguine-burst', 'Sanguine Burst', 3, 'blood', 'Deal 12 damage. Heal 12.', 2, 'Sanguine Burst+', 'Deal 16 damage. Heal 16.', 12, 16, null, null, 12, 16, null, null, false, true, false, false, 'warrior', '[{"type":"damage","amount":12},{"type":"heal","amount":12}]'::jsonb, '[{"type":"damage","amount":16},{"type":"heal","amount":16}]'::jsonb, array[]::text[]),
+  ('w-blood-bond', 'Blood Bond', 1, 'blood', 'Take 4 damage. Heal 10 to an ally.', 3, 'Blood Bond+', 'Take 3 damage. Heal 14 to an ally.', null, null, null, null, 10, 14, null, null, false, false, false, false, 'warrior', '[{"type":"self_damage","amount":4},{"type":"heal","amount":10,"target":"ally"}]'::jsonb, '[{"type":"self_damage","amount":3},{"type":"heal","amount":14,"target":"ally"}]'::jsonb, array[]::text[]),
+  ('w-crimson-communion', 'Crimson Communion', 2, 'blood', 'Heal 5 to all allies. +1 Regen to all allies.', 2, 'Crimson Communion+', 'Heal 7 to all allies. +2 Regen to all allies.', null, null, null, null, 5, 7, null, null, false, true, false, false, 'warrior', '[{"type":"heal","amount":5,"target":"all_allies"},{"type":"gain_status","status":"regen","amount":1,"target":"all_allies"}]'::jsonb, '[{"type":"heal","amount":7,"target":"all_allies"},{"type":"gain_status","status":"regen","amount":2,"target":"all_allies"}]'::jsonb, array[]::text[]),
+  ('w-thunderclap', 'Thunderclap', 2, 'thunder', 'Deal 8 damage to all. Weak 1.', 2, 'Thunderclap+', 'Deal 11 damage to all. Weak 1.', 8, 11, null, null, null, null, null, null, true, false, false, false, 'warrior', '[{"type":"damage","amount":8,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":11,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('w-chain-lightning', 'Chain Lightning', 2, 'thunder', 'Deal 6 damage ×2.', 2, 'Chain Lightning+', 'Deal 9 damage ×2.', 6, 9, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":6,"hits":2}]'::jsonb, '[{"type":"damage","amount":9,"hits":2}]'::jsonb, array[]::text[]),
+  ('w-storm-call', 'Storm Call', 3, 'thunder', 'Deal 14 damage to all. Vuln 1.', 2, 'Storm Call+', 'Deal 18 damage to all. Vuln 2.', 14, 18, null, null, null, null, null, null, true, true, false, false, 'warrior', '[{"type":"damage","amount":14,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":1,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":18,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":2,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('w-static', 'Static', 1, 'thunder', 'Deal 4 damage. Weak 1.', 3, 'Static+', 'Deal 6 damage. Weak 2.', 4, 6, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":4},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"damage","amount":6},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, array[]::text[]),
+  ('w-overcharge', 'Overcharge', 1, 'thunder', 'Deal 8 damage.', 3, 'Overcharge+', 'Deal 11 damage.', 8, 11, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":8}]'::jsonb, '[{"type":"damage","amount":11}]'::jsonb, array[]::text[]),
+  ('w-tempest', 'Tempest', 3, 'thunder', 'Deal 16 damage to all.', 2, 'Tempest+', 'Deal 22 damage to all.', 16, 22, null, null, null, null, null, null, true, true, false, false, 'warrior', '[{"type":"damage","amount":16,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":22,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('w-jolt', 'Jolt', 0, 'thunder', 'Deal 3 damage. Vuln 1.', 3, 'Jolt+', 'Deal 5 damage. Vuln 1.', 3, 5, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":3},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":5},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('w-surge', 'Surge', 1, 'thunder', 'Deal 5 damage. Gain 3 Block.', 3, 'Surge+', 'Deal 7 damage. Gain 5 Block.', 5, 7, 3, 5, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":5},{"type":"block","amount":3}]'::jsonb, '[{"type":"damage","amount":7},{"type":"block","amount":5}]'::jsonb, array[]::text[]),
+  ('w-arc-flash', 'Arc Flash', 2, 'thunder', 'Deal 10 damage. Weak 2.', 2, 'Arc Flash+', 'Deal 14 damage. Weak 2.', 10, 14, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"damage","amount":10},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, '[{"type":"damage","amount":14},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, array[]::text[]),
+  ('w-disrupt', 'Disrupt', 1, 'thunder', 'Vuln 2. Weak 1.', 3, 'Disrupt+', 'Deal 3 damage. Vuln 2. Weak 1.', null, 3, null, null, null, null, null, null, false, false, false, false, 'warrior', '[{"type":"apply_status","status":"vulnerable","amount":2},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"damage","amount":3},{"type":"apply_status","status":"vulnerable","amount":2},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, array[]::text[]),
+  ('w-thunder-wave', 'Thunder Wave', 2, 'thunder', 'Deal 6 damage to all. Vuln 1. Weak 1.', 2, 'Thunder Wave+', 'Deal 9 damage to all. Vuln 1. Weak 1.', 6, 9, null, null, null, null, null, null, true, false, false, false, 'warrior', '[{"type":"damage","amount":6,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":1,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":9,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":1,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('w-cataclysm', 'Cataclysm', 3, 'thunder', 'Deal 20 damage. Vuln 2. Weak 2.', 2, 'Cataclysm+', 'Deal 26 damage. Vuln 2. Weak 2.', 20, 26, null, null, null, null, null, null, false, true, false, false, 'warrior', '[{"type":"damage","amount":20},{"type":"apply_status","status":"vulnerable","amount":2},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, '[{"type":"damage","amount":26},{"type":"apply_status","status":"vulnerable","amount":2},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, array[]::text[]),
+  ('w-concussive-blow', 'Concussive Blow', 2, 'thunder', 'Deal 8 damage. Stun 1.', 2, 'Concussive Blow+', 'Deal 12 damage. Stun 1.', 8, 12, null, null, null, null, null, null, false, true, false, false, 'warrior', '[{"type":"damage","amount":8},{"type":"apply_status","status":"stun","amount":1}]'::jsonb, '[{"type":"damage","amount":12},{"type":"apply_status","status":"stun","amount":1}]'::jsonb, array[]::text[]),
+  ('s-scorch', 'Scorch', 1, 'fire', 'Deal 5 damage. Burn 5.', 3, 'Scorch+', 'Deal 8 damage. Burn 8.', 5, 8, null, null, null, null, 5, 8, false, false, false, false, 'sage', '[{"type":"damage","amount":5},{"type":"apply_status","status":"burn","amount":5}]'::jsonb, '[{"type":"damage","amount":8},{"type":"apply_status","status":"burn","amount":8}]'::jsonb, array[]::text[]),
+  ('s-ignite', 'Ignite', 1, 'fire', 'Burn 6.', 3, 'Ignite+', 'Burn 9.', null, null, null, null, null, null, 6, 9, false, false, false, false, 'sage', '[{"type":"apply_status","status":"burn","amount":6}]'::jsonb, '[{"type":"apply_status","status":"burn","amount":9}]'::jsonb, array[]::text[]),
+  ('s-inferno', 'Inferno', 3, 'fire', 'Deal 14 damage to all. Burn 4.', 2, 'Inferno+', 'Deal 18 damage to all. Burn 6.', 14, 18, null, null, null, null, 4, 6, true, true, false, false, 'sage', '[{"type":"damage","amount":14,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":4,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":18,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":6,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-sear', 'Sear', 0, 'fire', 'Burn 4.', 3, 'Sear+', 'Burn 7.', null, null, null, null, null, null, 4, 7, false, false, false, false, 'sage', '[{"type":"apply_status","status":"burn","amount":4}]'::jsonb, '[{"type":"apply_status","status":"burn","amount":7}]'::jsonb, array[]::text[]),
+  ('s-flame-lance', 'Flame Lance', 2, 'fire', 'Deal 16 damage.', 2, 'Flame Lance+', 'Deal 22 damage.', 16, 22, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":16}]'::jsonb, '[{"type":"damage","amount":22}]'::jsonb, array[]::text[]),
+  ('s-combustion', 'Combustion', 2, 'fire', 'Deal 8 damage. Burn 8.', 2, 'Combustion+', 'Deal 11 damage. Burn 12.', 8, 11, null, null, null, null, 8, 12, false, false, false, false, 'sage', '[{"type":"damage","amount":8},{"type":"apply_status","status":"burn","amount":8}]'::jsonb, '[{"type":"damage","amount":11},{"type":"apply_status","status":"burn","amount":12}]'::jsonb, array[]::text[]),
+  ('s-ember', 'Ember', 0, 'fire', 'Deal 2 damage. Burn 2.', 3, 'Ember+', 'Deal 3 damage. Burn 4.', 2, 3, null, null, null, null, 2, 4, false, false, false, false, 'sage', '[{"type":"damage","amount":2},{"type":"apply_status","status":"burn","amount":2}]'::jsonb, '[{"type":"damage","amount":3},{"type":"apply_status","status":"burn","amount":4}]'::jsonb, array[]::text[]),
+  ('s-blaze', 'Blaze', 1, 'fire', 'Deal 10 damage.', 3, 'Blaze+', 'Deal 14 damage.', 10, 14, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":10}]'::jsonb, '[{"type":"damage","amount":14}]'::jsonb, array[]::text[]),
+  ('s-eruption', 'Eruption', 3, 'fire', 'Deal 18 damage to all.', 2, 'Eruption+', 'Deal 24 damage to all.', 18, 24, null, null, null, null, null, null, true, true, false, false, 'sage', '[{"type":"damage","amount":18,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":24,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-immolate', 'Immolate', 2, 'fire', 'Deal 6 damage. Burn 10.', 2, 'Immolate+', 'Deal 9 damage. Burn 14.', 6, 9, null, null, null, null, 10, 14, false, false, false, false, 'sage', '[{"type":"damage","amount":6},{"type":"apply_status","status":"burn","amount":10}]'::jsonb, '[{"type":"damage","amount":9},{"type":"apply_status","status":"burn","amount":14}]'::jsonb, array[]::text[]),
+  ('s-fire-shield', 'Fire Shield', 1, 'fire', 'Gain 4 Block. Burn 3.', 3, 'Fire Shield+', 'Gain 6 Block. Burn 5.', null, null, 4, 6, null, null, 3, 5, false, false, false, false, 'sage', '[{"type":"block","amount":4},{"type":"apply_status","status":"burn","amount":3}]'::jsonb, '[{"type":"block","amount":6},{"type":"apply_status","status":"burn","amount":5}]'::jsonb, array[]::text[]),
+  ('s-pyroclasm', 'Pyroclasm', 3, 'fire', 'Deal 22 damage. Burn 6.', 2, 'Pyroclasm+', 'Deal 28 damage. Burn 10.', 22, 28, null, null, null, null, 6, 10, false, true, false, false, 'sage', '[{"type":"damage","amount":22},{"type":"apply_status","status":"burn","amount":6}]'::jsonb, '[{"type":"damage","amount":28},{"type":"apply_status","status":"burn","amount":10}]'::jsonb, array[]::text[]),
+  ('s-freeze', 'Freeze', 1, 'frost', 'Vuln 2. Weak 1.', 3, 'Freeze+', 'Vuln 3. Weak 2.', null, null, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"apply_status","status":"vulnerable","amount":2},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"apply_status","status":"vulnerable","amount":3},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, array[]::text[]),
+  ('s-glacial-armor', 'Glacial Armor', 2, 'frost', 'Gain 12 Block.', 2, 'Glacial Armor+', 'Gain 16 Block.', null, null, 12, 16, null, null, null, null, false, false, false, false, 'sage', '[{"type":"block","amount":12}]'::jsonb, '[{"type":"block","amount":16}]'::jsonb, array[]::text[]),
+  ('s-ice-lance', 'Ice Lance', 1, 'frost', 'Deal 8 damage.', 3, 'Ice Lance+', 'Deal 11 damage.', 8, 11, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":8}]'::jsonb, '[{"type":"damage","amount":11}]'::jsonb, array[]::text[]),
+  ('s-frostbite', 'Frostbite', 1, 'frost', 'Deal 4 damage. Vuln 1.', 3, 'Frostbite+', 'Deal 6 damage. Vuln 2.', 4, 6, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":4},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":6},{"type":"apply_status","status":"vulnerable","amount":2}]'::jsonb, array[]::text[]),
+  ('s-avalanche', 'Avalanche', 3, 'frost', 'Deal 12 damage to all. Vuln 2.', 2, 'Avalanche+', 'Deal 16 damage to all. Vuln 2.', 12, 16, null, null, null, null, null, null, true, true, false, false, 'sage', '[{"type":"damage","amount":12,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":2,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":16,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":2,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-permafrost', 'Permafrost', 2, 'frost', 'Gain 10 Block. Persists.', 2, 'Permafrost+', 'Gain 14 Block. Persists.', null, null, 10, 14, null, null, null, null, false, false, false, false, 'sage', '[{"type":"block","amount":10,"persists":true}]'::jsonb, '[{"type":"block","amount":14,"persists":true}]'::jsonb, array[]::text[]),
+  ('s-shatter', 'Shatter', 2, 'frost', 'Deal 14 damage.', 2, 'Shatter+', 'Deal 18 damage.', 14, 18, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":14}]'::jsonb, '[{"type":"damage","amount":18}]'::jsonb, array[]::text[]),
+  ('s-cold-snap', 'Cold Snap', 0, 'frost', 'Weak 2.', 3, 'Cold Snap+', 'Weak 3.', null, null, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, '[{"type":"apply_status","status":"weakened","amount":3}]'::jsonb, array[]::text[]),
+  ('s-ice-wall', 'Ice Wall', 2, 'frost', 'Gain 8 Block. Weak 1 to all.', 2, 'Ice Wall+', 'Gain 11 Block. Weak 1 to all.', null, null, 8, 11, null, null, null, null, true, false, false, false, 'sage', '[{"type":"block","amount":8},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, '[{"type":"block","amount":11},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-crystallize', 'Crystallize', 1, 'frost', 'Gain 6 Block. +2 Thorns.', 3, 'Crystallize+', 'Gain 8 Block. +3 Thorns.', null, null, 6, 8, null, null, null, null, false, false, false, false, 'sage', '[{"type":"block","amount":6},{"type":"gain_status","status":"thorns","amount":2}]'::jsonb, '[{"type":"block","amount":8},{"type":"gain_status","status":"thorns","amount":3}]'::jsonb, array[]::text[]),
+  ('s-absolute-zero', 'Absolute Zero', 3, 'frost', 'Deal 8 damage to all. Vuln 2. Weak 2.', 2, 'Absolute Zero+', 'Deal 12 damage to all. Vuln 2. Weak 2.', 8, 12, null, null, null, null, null, null, true, true, false, false, 'sage', '[{"type":"damage","amount":8,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":2,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":2,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":12,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":2,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":2,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-glacial-spike', 'Glacial Spike', 3, 'frost', 'Deal 20 damage. Weak 2.', 2, 'Glacial Spike+', 'Deal 26 damage. Weak 2.', 20, 26, null, null, null, null, null, null, false, true, false, false, 'sage', '[{"type":"damage","amount":20},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, '[{"type":"damage","amount":26},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, array[]::text[]),
+  ('s-brittle-frost', 'Brittle Frost', 1, 'frost', 'Deal 5 damage. Frail 2.', 3, 'Brittle Frost+', 'Deal 8 damage. Frail 2.', 5, 8, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":5},{"type":"apply_status","status":"frail","amount":2}]'::jsonb, '[{"type":"damage","amount":8},{"type":"apply_status","status":"frail","amount":2}]'::jsonb, array[]::text[]),
+  ('s-chain-spark', 'Chain Spark', 1, 'storm', 'Deal 4 damage ×2.', 3, 'Chain Spark+', 'Deal 6 damage ×2.', 4, 6, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":4,"hits":2}]'::jsonb, '[{"type":"damage","amount":6,"hits":2}]'::jsonb, array[]::text[]),
+  ('s-lightning-rod', 'Lightning Rod', 1, 'storm', 'Deal 6 damage. Gain 3 Block.', 3, 'Lightning Rod+', 'Deal 8 damage. Gain 5 Block.', 6, 8, 3, 5, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":6},{"type":"block","amount":3}]'::jsonb, '[{"type":"damage","amount":8},{"type":"block","amount":5}]'::jsonb, array[]::text[]),
+  ('s-ball-lightning', 'Ball Lightning', 2, 'storm', 'Deal 10 damage. Burn 3.', 2, 'Ball Lightning+', 'Deal 14 damage. Burn 5.', 10, 14, null, null, null, null, 3, 5, false, false, false, false, 'sage', '[{"type":"damage","amount":10},{"type":"apply_status","status":"burn","amount":3}]'::jsonb, '[{"type":"damage","amount":14},{"type":"apply_status","status":"burn","amount":5}]'::jsonb, array[]::text[]),
+  ('s-shock-wave', 'Shock Wave', 2, 'storm', 'Deal 8 damage to all.', 2, 'Shock Wave+', 'Deal 12 damage to all.', 8, 12, null, null, null, null, null, null, true, false, false, false, 'sage', '[{"type":"damage","amount":8,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":12,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-galvanize', 'Galvanize', 1, 'storm', 'Deal 5 damage. Gain 5 Block.', 3, 'Galvanize+', 'Deal 7 damage. Gain 7 Block.', 5, 7, 5, 7, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":5},{"type":"block","amount":5}]'::jsonb, '[{"type":"damage","amount":7},{"type":"block","amount":7}]'::jsonb, array[]::text[]),
+  ('s-storm-surge', 'Storm Surge', 3, 'storm', 'Deal 18 damage.', 2, 'Storm Surge+', 'Deal 24 damage.', 18, 24, null, null, null, null, null, null, false, true, false, false, 'sage', '[{"type":"damage","amount":18}]'::jsonb, '[{"type":"damage","amount":24}]'::jsonb, array[]::text[]),
+  ('s-electrocute', 'Electrocute', 2, 'storm', 'Deal 12 damage. Vuln 1.', 2, 'Electrocute+', 'Deal 16 damage. Vuln 1.', 12, 16, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":12},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":16},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('s-static-charge', 'Static Charge', 0, 'storm', 'Deal 2 damage. Vuln 1.', 3, 'Static Charge+', 'Deal 4 damage. Vuln 1.', 2, 4, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":2},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":4},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('s-thunder-bolt', 'Thunder Bolt', 1, 'storm', 'Deal 10 damage.', 3, 'Thunder Bolt+', 'Deal 13 damage.', 10, 13, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":10}]'::jsonb, '[{"type":"damage","amount":13}]'::jsonb, array[]::text[]),
+  ('s-overload', 'Overload', 3, 'storm', 'Deal 14 damage to all. Burn 4.', 2, 'Overload+', 'Deal 18 damage to all. Burn 6.', 14, 18, null, null, null, null, 4, 6, true, true, false, false, 'sage', '[{"type":"damage","amount":14,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":4,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":18,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":6,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-spark-storm', 'Spark Storm', 2, 'storm', 'Deal 4 damage ×3.', 2, 'Spark Storm+', 'Deal 6 damage ×3.', 4, 6, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":4,"hits":3}]'::jsonb, '[{"type":"damage","amount":6,"hits":3}]'::jsonb, array[]::text[]),
+  ('s-megavolt', 'Megavolt', 3, 'storm', 'Deal 24 damage.', 2, 'Megavolt+', 'Deal 30 damage.', 24, 30, null, null, null, null, null, null, false, true, false, false, 'sage', '[{"type":"damage","amount":24}]'::jsonb, '[{"type":"damage","amount":30}]'::jsonb, array[]::text[]),
+  ('s-fleeting-spark', 'Fleeting Spark', 0, 'storm', 'Deal 9 damage.', 3, 'Fleeting Spark+', 'Deal 12 damage.', 9, 12, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":9}]'::jsonb, '[{"type":"damage","amount":12}]'::jsonb, array['ethereal']::text[]),
+  ('s-dispel', 'Dispel', 1, 'arcane', 'Weak 2. Vuln 1.', 3, 'Dispel+', 'Weak 3. Vuln 2.', null, null, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"apply_status","status":"weakened","amount":2},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"apply_status","status":"weakened","amount":3},{"type":"apply_status","status":"vulnerable","amount":2}]'::jsonb, array[]::text[]),
+  ('s-arcane-ward', 'Arcane Ward', 1, 'arcane', 'Gain 6 Block. Heal 2.', 3, 'Arcane Ward+', 'Gain 8 Block. Heal 4.', null, null, 6, 8, 2, 4, null, null, false, false, false, false, 'sage', '[{"type":"block","amount":6},{"type":"heal","amount":2}]'::jsonb, '[{"type":"block","amount":8},{"type":"heal","amount":4}]'::jsonb, array[]::text[]),
+  ('s-mana-burst', 'Mana Burst', 2, 'arcane', 'Deal 10 damage. Gain 4 Block.', 2, 'Mana Burst+', 'Deal 14 damage. Gain 6 Block.', 10, 14, 4, 6, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":10},{"type":"block","amount":4}]'::jsonb, '[{"type":"damage","amount":14},{"type":"block","amount":6}]'::jsonb, array[]::text[]),
+  ('s-mystic-pulse', 'Mystic Pulse', 2, 'arcane', 'Deal 8 damage to all.', 2, 'Mystic Pulse+', 'Deal 12 damage to all.', 8, 12, null, null, null, null, null, null, true, false, false, false, 'sage', '[{"type":"damage","amount":8,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":12,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-enchant', 'Enchant', 1, 'arcane', 'Gain 4 Block. +2 Thorns.', 3, 'Enchant+', 'Gain 6 Block. +3 Thorns.', null, null, 4, 6, null, null, null, null, false, false, false, false, 'sage', '[{"type":"block","amount":4},{"type":"gain_status","status":"thorns","amount":2}]'::jsonb, '[{"type":"block","amount":6},{"type":"gain_status","status":"thorns","amount":3}]'::jsonb, array[]::text[]),
+  ('s-arcane-storm', 'Arcane Storm', 3, 'arcane', 'Deal 16 damage to all.', 2, 'Arcane Storm+', 'Deal 22 damage to all.', 16, 22, null, null, null, null, null, null, true, true, false, false, 'sage', '[{"type":"damage","amount":16,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":22,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-counterspell', 'Counterspell', 0, 'arcane', 'Gain 4 Block.', 3, 'Counterspell+', 'Gain 6 Block.', null, null, 4, 6, null, null, null, null, false, false, false, false, 'sage', '[{"type":"block","amount":4}]'::jsonb, '[{"type":"block","amount":6}]'::jsonb, array[]::text[]),
+  ('s-transmute', 'Transmute', 1, 'arcane', 'Deal 5 damage. Heal 3.', 3, 'Transmute+', 'Deal 7 damage. Heal 5.', 5, 7, null, null, 3, 5, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":5},{"type":"heal","amount":3}]'::jsonb, '[{"type":"damage","amount":7},{"type":"heal","amount":5}]'::jsonb, array[]::text[]),
+  ('s-phase-shift', 'Phase Shift', 2, 'arcane', 'Gain 10 Block. Heal 4.', 2, 'Phase Shift+', 'Gain 14 Block. Heal 6.', null, null, 10, 14, 4, 6, null, null, false, false, false, false, 'sage', '[{"type":"block","amount":10},{"type":"heal","amount":4}]'::jsonb, '[{"type":"block","amount":14},{"type":"heal","amount":6}]'::jsonb, array[]::text[]),
+  ('s-arcane-barrage', 'Arcane Barrage', 2, 'arcane', 'Deal 5 damage ×3.', 2, 'Arcane Barrage+', 'Deal 7 damage ×3.', 5, 7, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"damage","amount":5,"hits":3}]'::jsonb, '[{"type":"damage","amount":7,"hits":3}]'::jsonb, array[]::text[]),
+  ('s-annihilate', 'Annihilate', 3, 'arcane', 'Deal 22 damage.', 2, 'Annihilate+', 'Deal 28 damage.', 22, 28, null, null, null, null, null, null, false, true, false, false, 'sage', '[{"type":"damage","amount":22}]'::jsonb, '[{"type":"damage","amount":28}]'::jsonb, array[]::text[]),
+  ('s-cosmic-ray', 'Cosmic Ray', 3, 'arcane', 'Deal 12 damage to all. Vuln 1. Weak 1.', 2, 'Cosmic Ray+', 'Deal 16 damage to all. Vuln 2. Weak 1.', 12, 16, null, null, null, null, null, null, true, true, false, false, 'sage', '[{"type":"damage","amount":12,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":1,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":16,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":2,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":1,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('s-arcane-insight', 'Arcane Insight', 0, 'arcane', 'Draw 2 cards.', 2, 'Arcane Insight+', 'Draw 2 cards. Gain 1 Energy.', null, null, null, null, null, null, null, null, false, false, false, false, 'sage', '[{"type":"draw","amount":2}]'::jsonb, '[{"type":"draw","amount":2},{"type":"gain_energy","amount":1}]'::jsonb, array['exhaust']::text[]),
+  ('s-ward', 'Ward', 1, 'arcane', 'Give 9 Block to anyone.', 3, 'Ward+', 'Give 12 Block to anyone.', null, null, 9, 12, null, null, null, null, false, false, false, false, 'sage', '[{"type":"block","amount":9,"target":"any_ally"}]'::jsonb, '[{"type":"block","amount":12,"target":"any_ally"}]'::jsonb, array[]::text[]),
+  ('s-arcane-aegis', 'Arcane Aegis', 2, 'arcane', 'Give 6 Block to all allies. Persists.', 2, 'Arcane Aegis+', 'Give 8 Block to all allies. Persists.', null, null, 6, 8, null, null, null, null, false, true, false, false, 'sage', '[{"type":"block","amount":6,"persists":true,"target":"all_allies"}]'::jsonb, '[{"type":"block","amount":8,"persists":true,"target":"all_allies"}]'::jsonb, array[]::text[]),
+  ('r-backstab', 'Backstab', 2, 'shadow', 'Deal 10 damage. +5 if Vuln.', 2, 'Assassinate', 'Deal 14 damage. +8 if Vuln.', 10, 14, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":10},{"type":"conditional","condition":{"type":"target_has_status","status":"vulnerable"},"effects":[{"type":"damage","amount":5}]}]'::jsonb, '[{"type":"damage","amount":14},{"type":"conditional","condition":{"type":"target_has_status","status":"vulnerable"},"effects":[{"type":"damage","amount":8}]}]'::jsonb, array[]::text[]),
+  ('r-poison-edge', 'Poison Edge', 1, 'shadow', 'Deal 5 damage. Weak 2.', 3, 'Venom Edge', 'Deal 7 damage. Weak 3.', 5, 7, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":5},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, '[{"type":"damage","amount":7},{"type":"apply_status","status":"weakened","amount":3}]'::jsonb, array[]::text[]),
+  ('r-death-sentence', 'Death Sentence', 3, 'shadow', 'Deal 20 damage.', 2, 'Execution', 'Deal 26 damage.', 20, 26, null, null, null, null, null, null, false, true, false, false, 'ranger', '[{"type":"damage","amount":20}]'::jsonb, '[{"type":"damage","amount":26}]'::jsonb, array[]::text[]),
+  ('r-expose', 'Expose', 1, 'shadow', 'Vuln 2.', 3, 'Expose+', 'Vuln 3.', null, null, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"apply_status","status":"vulnerable","amount":2}]'::jsonb, '[{"type":"apply_status","status":"vulnerable","amount":3}]'::jsonb, array[]::text[]),
+  ('r-cripple', 'Cripple', 1, 'shadow', 'Deal 6 damage. Weak 1.', 3, 'Cripple+', 'Deal 9 damage. Weak 2.', 6, 9, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":6},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"damage","amount":9},{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, array[]::text[]),
+  ('r-shadow-strike', 'Shadow Strike', 2, 'shadow', 'Deal 14 damage. Vuln 1.', 2, 'Shadow Strike+', 'Deal 18 damage. Vuln 1.', 14, 18, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":14},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":18},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('r-cheap-shot', 'Cheap Shot', 0, 'shadow', 'Deal 3 damage.', 3, 'Cheap Shot+', 'Deal 5 damage.', 3, 5, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":3}]'::jsonb, '[{"type":"damage","amount":5}]'::jsonb, array[]::text[]),
+  ('r-eviscerate', 'Eviscerate', 2, 'shadow', 'Deal 8 damage. Vuln 1. Weak 1.', 2, 'Eviscerate+', 'Deal 12 damage. Vuln 1. Weak 1.', 8, 12, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":8},{"type":"apply_status","status":"vulnerable","amount":1},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"damage","amount":12},{"type":"apply_status","status":"vulnerable","amount":1},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, array[]::text[]),
+  ('r-assassinate', 'Assassinate', 3, 'shadow', 'Deal 24 damage.', 2, 'Assassinate+', 'Deal 30 damage.', 24, 30, null, null, null, null, null, null, false, true, false, false, 'ranger', '[{"type":"damage","amount":24}]'::jsonb, '[{"type":"damage","amount":30}]'::jsonb, array[]::text[]),
+  ('r-feint', 'Feint', 1, 'shadow', 'Gain 4 Block. Vuln 1.', 3, 'Feint+', 'Gain 6 Block. Vuln 2.', null, null, 4, 6, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"block","amount":4},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"block","amount":6},{"type":"apply_status","status":"vulnerable","amount":2}]'::jsonb, array[]::text[]),
+  ('r-garrote', 'Garrote', 2, 'shadow', 'Deal 6 damage. Weak 2. Vuln 1.', 2, 'Garrote+', 'Deal 9 damage. Weak 2. Vuln 2.', 6, 9, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":6},{"type":"apply_status","status":"weakened","amount":2},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":9},{"type":"apply_status","status":"weakened","amount":2},{"type":"apply_status","status":"vulnerable","amount":2}]'::jsonb, array[]::text[]),
+  ('r-smoke-bomb', 'Smoke Bomb', 3, 'shadow', 'Deal 8 damage to all. Weak 2. Vuln 2.', 2, 'Smoke Bomb+', 'Deal 12 damage to all. Weak 2. Vuln 2.', 8, 12, null, null, null, null, null, null, true, true, false, false, 'ranger', '[{"type":"damage","amount":8,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":2,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":2,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":12,"target":"all_enemies"},{"type":"apply_status","status":"weakened","amount":2,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":2,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('r-mend', 'Mend', 1, 'nature', 'Heal 6.', 3, 'Mend+', 'Heal 10.', null, null, null, null, 6, 10, null, null, false, false, false, false, 'ranger', '[{"type":"heal","amount":6}]'::jsonb, '[{"type":"heal","amount":10}]'::jsonb, array[]::text[]),
+  ('r-bramble-wall', 'Bramble Wall', 1, 'nature', 'Gain 5 Block. +2 Thorns.', 3, 'Bramble Wall+', 'Gain 8 Block. +3 Thorns.', null, null, 5, 8, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"block","amount":5},{"type":"gain_status","status":"thorns","amount":2}]'::jsonb, '[{"type":"block","amount":8},{"type":"gain_status","status":"thorns","amount":3}]'::jsonb, array[]::text[]),
+  ('r-natures-wrath', 'Nature''s Wrath', 3, 'nature', 'Deal 12 damage. Heal 8.', 2, 'Nature''s Fury', 'Deal 18 damage. Heal 12.', 12, 18, null, null, 8, 12, null, null, false, true, false, false, 'ranger', '[{"type":"damage","amount":12},{"type":"heal","amount":8}]'::jsonb, '[{"type":"damage","amount":18},{"type":"heal","amount":12}]'::jsonb, array[]::text[]),
+  ('r-thorn-burst', 'Thorn Burst', 2, 'nature', 'Deal 6 damage to all. +2 Thorns.', 2, 'Thorn Burst+', 'Deal 9 damage to all. +3 Thorns.', 6, 9, null, null, null, null, null, null, true, false, false, false, 'ranger', '[{"type":"damage","amount":6,"target":"all_enemies"},{"type":"gain_status","status":"thorns","amount":2}]'::jsonb, '[{"type":"damage","amount":9,"target":"all_enemies"},{"type":"gain_status","status":"thorns","amount":3}]'::jsonb, array[]::text[]),
+  ('r-rejuvenate', 'Rejuvenate', 2, 'nature', 'Heal 10. +2 Regen.', 2, 'Rejuvenate+', 'Heal 14. +2 Regen.', null, null, null, null, 10, 14, null, null, false, false, false, false, 'ranger', '[{"type":"heal","amount":10},{"type":"gain_status","status":"regen","amount":2}]'::jsonb, '[{"type":"heal","amount":14},{"type":"gain_status","status":"regen","amount":2}]'::jsonb, array[]::text[]),
+  ('r-bark-skin', 'Bark Skin', 1, 'nature', 'Gain 6 Block.', 3, 'Bark Skin+', 'Gain 9 Block.', null, null, 6, 9, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"block","amount":6}]'::jsonb, '[{"type":"block","amount":9}]'::jsonb, array[]::text[]),
+  ('r-life-bloom', 'Life Bloom', 0, 'nature', 'Heal 2. +1 Regen.', 3, 'Life Bloom+', 'Heal 4. +1 Regen.', null, null, null, null, 2, 4, null, null, false, false, false, false, 'ranger', '[{"type":"heal","amount":2},{"type":"gain_status","status":"regen","amount":1}]'::jsonb, '[{"type":"heal","amount":4},{"type":"gain_status","status":"regen","amount":1}]'::jsonb, array[]::text[]),
+  ('r-entangle', 'Entangle', 1, 'nature', 'Deal 3 damage. Weak 1. Vuln 1.', 3, 'Entangle+', 'Deal 5 damage. Weak 1. Vuln 1.', 3, 5, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":3},{"type":"apply_status","status":"weakened","amount":1},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":5},{"type":"apply_status","status":"weakened","amount":1},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('r-wild-growth', 'Wild Growth', 2, 'nature', 'Gain 8 Block. Heal 4.', 2, 'Wild Growth+', 'Gain 11 Block. Heal 6.', null, null, 8, 11, 4, 6, null, null, false, false, false, false, 'ranger', '[{"type":"block","amount":8},{"type":"heal","amount":4}]'::jsonb, '[{"type":"block","amount":11},{"type":"heal","amount":6}]'::jsonb, array[]::text[]),
+  ('r-forests-embrace', 'Forest''s Embrace', 3, 'nature', 'Gain 14 Block. Heal 10.', 2, 'Forest''s Embrace+', 'Gain 18 Block. Heal 14.', null, null, 14, 18, 10, 14, null, null, false, true, false, false, 'ranger', '[{"type":"block","amount":14},{"type":"heal","amount":10}]'::jsonb, '[{"type":"block","amount":18},{"type":"heal","amount":14}]'::jsonb, array[]::text[]),
+  ('r-seed-of-life', 'Seed of Life', 2, 'nature', 'Heal 6. +2 Regen.', 2, 'Seed of Life+', 'Heal 10. +2 Regen.', null, null, null, null, 6, 10, null, null, false, false, false, false, 'ranger', '[{"type":"heal","amount":6},{"type":"gain_status","status":"regen","amount":2}]'::jsonb, '[{"type":"heal","amount":10},{"type":"gain_status","status":"regen","amount":2}]'::jsonb, array[]::text[]),
+  ('r-world-bloom', 'World Bloom', 3, 'nature', 'Heal 14. +2 Regen.', 2, 'World Bloom+', 'Heal 20. +3 Regen.', null, null, null, null, 14, 20, null, null, false, true, false, false, 'ranger', '[{"type":"heal","amount":14},{"type":"gain_status","status":"regen","amount":2}]'::jsonb, '[{"type":"heal","amount":20},{"type":"gain_status","status":"regen","amount":3}]'::jsonb, array[]::text[]),
+  ('r-mending-vines', 'Mending Vines', 1, 'nature', 'Heal 8 to anyone. +2 Regen to anyone.', 3, 'Mending Vines+', 'Heal 11 to anyone. +3 Regen to anyone.', null, null, null, null, 8, 11, null, null, false, false, false, false, 'ranger', '[{"type":"heal","amount":8,"target":"any_ally"},{"type":"gain_status","status":"regen","amount":2,"target":"any_ally"}]'::jsonb, '[{"type":"heal","amount":11,"target":"any_ally"},{"type":"gain_status","status":"regen","amount":3,"target":"any_ally"}]'::jsonb, array[]::text[]),
+  ('r-bramble-ward', 'Bramble Ward', 1, 'nature', 'Give 6 Block to an ally. +3 Thorns to an ally.', 3, 'Bramble Ward+', 'Give 9 Block to an ally. +5 Thorns to an ally.', null, null, 6, 9, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"block","amount":6,"target":"ally"},{"type":"gain_status","status":"thorns","amount":3,"target":"ally"}]'::jsonb, '[{"type":"block","amount":9,"target":"ally"},{"type":"gain_status","status":"thorns","amount":5,"target":"ally"}]'::jsonb, array[]::text[]),
+  ('r-double-tap', 'Double Tap', 1, 'precision', 'Deal 4 damage ×2.', 3, 'Double Tap+', 'Deal 6 damage ×2.', 4, 6, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":4,"hits":2}]'::jsonb, '[{"type":"damage","amount":6,"hits":2}]'::jsonb, array[]::text[]),
+  ('r-headshot', 'Headshot', 2, 'precision', 'Deal 14 damage. Vuln 1.', 2, 'Headshot+', 'Deal 18 damage. Vuln 1.', 14, 18, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":14},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":18},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('r-volley', 'Volley', 2, 'precision', 'Deal 8 damage to all.', 2, 'Volley+', 'Deal 12 damage to all.', 8, 12, null, null, null, null, null, null, true, false, false, false, 'ranger', '[{"type":"damage","amount":8,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":12,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('r-piercing-shot', 'Piercing Shot', 1, 'precision', 'Deal 7 damage.', 3, 'Piercing Shot+', 'Deal 10 damage.', 7, 10, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":7}]'::jsonb, '[{"type":"damage","amount":10}]'::jsonb, array[]::text[]),
+  ('r-rapid-fire', 'Rapid Fire', 2, 'precision', 'Deal 4 damage ×3.', 2, 'Rapid Fire+', 'Deal 6 damage ×3.', 4, 6, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":4,"hits":3}]'::jsonb, '[{"type":"damage","amount":6,"hits":3}]'::jsonb, array[]::text[]),
+  ('r-kill-shot', 'Kill Shot', 3, 'precision', 'Deal 22 damage.', 2, 'Kill Shot+', 'Deal 28 damage.', 22, 28, null, null, null, null, null, null, false, true, false, false, 'ranger', '[{"type":"damage","amount":22}]'::jsonb, '[{"type":"damage","amount":28}]'::jsonb, array[]::text[]),
+  ('r-trick-shot', 'Trick Shot', 1, 'precision', 'Deal 6 damage. Gain 3 Block.', 3, 'Trick Shot+', 'Deal 8 damage. Gain 5 Block.', 6, 8, 3, 5, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":6},{"type":"block","amount":3}]'::jsonb, '[{"type":"damage","amount":8},{"type":"block","amount":5}]'::jsonb, array[]::text[]),
+  ('r-hunters-mark', 'Hunter''s Mark', 1, 'precision', 'Deal 5 damage. Vuln 1.', 3, 'Hunter''s Mark+', 'Deal 8 damage. Vuln 2.', 5, 8, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":5},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":8},{"type":"apply_status","status":"vulnerable","amount":2}]'::jsonb, array[]::text[]),
+  ('r-barrage', 'Barrage', 3, 'precision', 'Deal 6 damage ×4.', 2, 'Barrage+', 'Deal 8 damage ×4.', 6, 8, null, null, null, null, null, null, false, true, false, false, 'ranger', '[{"type":"damage","amount":6,"hits":4}]'::jsonb, '[{"type":"damage","amount":8,"hits":4}]'::jsonb, array[]::text[]),
+  ('r-steady-aim', 'Steady Aim', 0, 'precision', 'Deal 2 damage. Vuln 1.', 3, 'Steady Aim+', 'Deal 4 damage. Vuln 1.', 2, 4, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":2},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, '[{"type":"damage","amount":4},{"type":"apply_status","status":"vulnerable","amount":1}]'::jsonb, array[]::text[]),
+  ('r-critical-strike', 'Critical Strike', 2, 'precision', 'Deal 18 damage.', 2, 'Critical Strike+', 'Deal 24 damage.', 18, 24, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":18}]'::jsonb, '[{"type":"damage","amount":24}]'::jsonb, array[]::text[]),
+  ('r-deadeye', 'Deadeye', 3, 'precision', 'Deal 26 damage.', 2, 'Deadeye+', 'Deal 34 damage.', 26, 34, null, null, null, null, null, null, false, true, false, false, 'ranger', '[{"type":"damage","amount":26}]'::jsonb, '[{"type":"damage","amount":34}]'::jsonb, array[]::text[]),
+  ('r-patient-aim', 'Patient Aim', 1, 'precision', 'Deal 10 damage.', 3, 'Patient Aim+', 'Deal 14 damage.', 10, 14, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"damage","amount":10}]'::jsonb, '[{"type":"damage","amount":14}]'::jsonb, array['retain']::text[]),
+  ('r-venom-blade', 'Venom Blade', 1, 'venom', 'Deal 4 damage. Burn 5.', 3, 'Venom Blade+', 'Deal 6 damage. Burn 8.', 4, 6, null, null, null, null, 5, 8, false, false, false, false, 'ranger', '[{"type":"damage","amount":4},{"type":"apply_status","status":"burn","amount":5}]'::jsonb, '[{"type":"damage","amount":6},{"type":"apply_status","status":"burn","amount":8}]'::jsonb, array[]::text[]),
+  ('r-noxious-cloud', 'Noxious Cloud', 2, 'venom', 'Burn 6 to all.', 2, 'Noxious Cloud+', 'Burn 9 to all.', null, null, null, null, null, null, 6, 9, true, false, false, false, 'ranger', '[{"type":"apply_status","status":"burn","amount":6,"target":"all_enemies"}]'::jsonb, '[{"type":"apply_status","status":"burn","amount":9,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('r-corrosion', 'Corrosion', 1, 'venom', 'Burn 4. Weak 1.', 3, 'Corrosion+', 'Burn 7. Weak 1.', null, null, null, null, null, null, 4, 7, false, false, false, false, 'ranger', '[{"type":"apply_status","status":"burn","amount":4},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"apply_status","status":"burn","amount":7},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, array[]::text[]),
+  ('r-plague', 'Plague', 3, 'venom', 'Burn 8 to all. Vuln 1.', 2, 'Plague+', 'Burn 12 to all. Vuln 1.', null, null, null, null, null, null, 8, 12, true, true, false, false, 'ranger', '[{"type":"apply_status","status":"burn","amount":8,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":1,"target":"all_enemies"}]'::jsonb, '[{"type":"apply_status","status":"burn","amount":12,"target":"all_enemies"},{"type":"apply_status","status":"vulnerable","amount":1,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('r-envenom', 'Envenom', 1, 'venom', 'Deal 6 damage. Burn 3.', 3, 'Envenom+', 'Deal 9 damage. Burn 5.', 6, 9, null, null, null, null, 3, 5, false, false, false, false, 'ranger', '[{"type":"damage","amount":6},{"type":"apply_status","status":"burn","amount":3}]'::jsonb, '[{"type":"damage","amount":9},{"type":"apply_status","status":"burn","amount":5}]'::jsonb, array[]::text[]),
+  ('r-toxic-spray', 'Toxic Spray', 2, 'venom', 'Deal 4 damage to all. Burn 4.', 2, 'Toxic Spray+', 'Deal 6 damage to all. Burn 6.', 4, 6, null, null, null, null, 4, 6, true, false, false, false, 'ranger', '[{"type":"damage","amount":4,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":4,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":6,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":6,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('r-festering-wound', 'Festering Wound', 2, 'venom', 'Deal 8 damage. Burn 6.', 2, 'Festering Wound+', 'Deal 12 damage. Burn 8.', 8, 12, null, null, null, null, 6, 8, false, false, false, false, 'ranger', '[{"type":"damage","amount":8},{"type":"apply_status","status":"burn","amount":6}]'::jsonb, '[{"type":"damage","amount":12},{"type":"apply_status","status":"burn","amount":8}]'::jsonb, array[]::text[]),
+  ('r-contaminate', 'Contaminate', 0, 'venom', 'Burn 3. Weak 1.', 3, 'Contaminate+', 'Burn 5. Weak 1.', null, null, null, null, null, null, 3, 5, false, false, false, false, 'ranger', '[{"type":"apply_status","status":"burn","amount":3},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, '[{"type":"apply_status","status":"burn","amount":5},{"type":"apply_status","status":"weakened","amount":1}]'::jsonb, array[]::text[]),
+  ('r-putrefy', 'Putrefy', 2, 'venom', 'Deal 10 damage. Burn 4.', 2, 'Putrefy+', 'Deal 14 damage. Burn 6.', 10, 14, null, null, null, null, 4, 6, false, false, false, false, 'ranger', '[{"type":"damage","amount":10},{"type":"apply_status","status":"burn","amount":4}]'::jsonb, '[{"type":"damage","amount":14},{"type":"apply_status","status":"burn","amount":6}]'::jsonb, array[]::text[]),
+  ('r-bio-bomb', 'Bio Bomb', 3, 'venom', 'Deal 8 damage to all. Burn 8.', 2, 'Bio Bomb+', 'Deal 12 damage to all. Burn 12.', 8, 12, null, null, null, null, 8, 12, true, true, false, false, 'ranger', '[{"type":"damage","amount":8,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":8,"target":"all_enemies"}]'::jsonb, '[{"type":"damage","amount":12,"target":"all_enemies"},{"type":"apply_status","status":"burn","amount":12,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('r-miasma', 'Miasma', 1, 'venom', 'Weak 1. Vuln 1. Burn 2.', 3, 'Miasma+', 'Weak 1. Vuln 1. Burn 4.', null, null, null, null, null, null, 2, 4, false, false, false, false, 'ranger', '[{"type":"apply_status","status":"weakened","amount":1},{"type":"apply_status","status":"vulnerable","amount":1},{"type":"apply_status","status":"burn","amount":2}]'::jsonb, '[{"type":"apply_status","status":"weakened","amount":1},{"type":"apply_status","status":"vulnerable","amount":1},{"type":"apply_status","status":"burn","amount":4}]'::jsonb, array[]::text[]),
+  ('r-pandemic', 'Pandemic', 3, 'venom', 'Burn 12 to all.', 2, 'Pandemic+', 'Burn 16 to all.', null, null, null, null, null, null, 12, 16, true, true, false, false, 'ranger', '[{"type":"apply_status","status":"burn","amount":12,"target":"all_enemies"}]'::jsonb, '[{"type":"apply_status","status":"burn","amount":16,"target":"all_enemies"}]'::jsonb, array[]::text[]),
+  ('r-neurotoxin', 'Neurotoxin', 1, 'venom', 'Poison 5.', 3, 'Neurotoxin+', 'Poison 8.', null, null, null, null, null, null, null, null, false, false, false, false, 'ranger', '[{"type":"apply_status","status":"poison","amount":5}]'::jsonb, '[{"type":"apply_status","status":"poison","amount":8}]'::jsonb, array[]::text[])
+on conflict (id) do update set name=excluded.name, cost=excluded.cost, trait=excluded.trait, description=excluded.description, upgrade_threshold=excluded.upgrade_threshold, upgrade_name=excluded.upgrade_name, upgrade_description=excluded.upgrade_description, base_damage=excluded.base_damage, upgraded_damage=excluded.upgraded_damage, base_block=excluded.base_block, upgraded_block=excluded.upgraded_block, base_heal=excluded.base_heal, upgraded_heal=excluded.upgraded_heal, base_burn=excluded.base_burn, upgraded_burn=excluded.upgraded_burn, is_aoe=excluded.is_aoe, is_rare=excluded.is_rare, is_signature=excluded.is_signature, is_starter=excluded.is_starter, starter_role=excluded.starter_role, effects=excluded.effects, upgraded_effects=excluded.upgraded_effects, keywords=excluded.keywords;
+
+-- Remove cards that no longer exist in the game config
+delete from public.card_definitions where id not in ('w-strike', 'w-quick-slash', 'w-heavy-blow', 'w-guard', 'w-brace', 'w-fortify', 'w-drain-strike', 'w-blood-pact', 'w-siphon', 'w-shock', 'w-spark', 'w-lightning-strike', 's-fireball', 's-kindle', 's-flame-wave', 's-ice-shard', 's-frost-shield', 's-blizzard', 's-zap', 's-arc-bolt', 's-thunderstrike', 's-arcane-bolt', 's-mystic-shield', 's-arcane-blast', 'r-shadow-mark', 'r-nick', 'r-ambush', 'r-sprout', 'r-vine-lash', 'r-regrowth', 'r-quick-shot', 'r-aimed-shot', 'r-snipe', 'r-poison-dart', 'r-toxic-strike', 'r-acid-splash', 'w-reckless-strike', 'w-cleave', 'w-fury-chain', 'w-savage-swing', 'w-war-stomp', 'w-execute', 'w-rampage', 'w-pummel', 'w-headbutt', 'w-bloodlust', 'w-massacre', 'w-charge', 'w-war-cry', 'w-shield-wall', 'w-iron-skin', 'w-bulwark', 'w-parry', 'w-shield-bash', 'w-sentinel', 'w-reinforce', 'w-stone-form', 'w-counter-strike', 'w-deflect', 'w-aegis', 'w-last-stand', 'w-disarm', 'w-second-wind', 'w-leech', 'w-crimson-slash', 'w-transfusion', 'w-blood-shield', 'w-vampiric-touch', 'w-hemorrhage', 'w-life-tap', 'w-blood-rage', 'w-crimson-wave', 'w-mend-wounds', 'w-blood-oath', 'w-sanguine-burst', 'w-blood-bond', 'w-crimson-communion', 'w-thunderclap', 'w-chain-lightning', 'w-storm-call', 'w-static', 'w-overcharge', 'w-tempest', 'w-jolt', 'w-surge', 'w-arc-flash', 'w-disrupt', 'w-thunder-wave', 'w-cataclysm', 'w-concussive-blow', 's-scorch', 's-ignite', 's-inferno', 's-sear', 's-flame-lance', 's-combustion', 's-ember', 's-blaze', 's-eruption', 's-immolate', 's-fire-shield', 's-pyroclasm', 's-freeze', 's-glacial-armor', 's-ice-lance', 's-frostbite', 's-avalanche', 's-permafrost', 's-shatter', 's-cold-snap', 's-ice-wall', 's-crystallize', 's-absolute-zero', 's-glacial-spike', 's-brittle-frost', 's-chain-spark', 's-lightning-rod', 's-ball-lightning', 's-shock-wave', 's-galvanize', 's-storm-surge', 's-electrocute', 's-static-charge', 's-thunder-bolt', 's-overload', 's-spark-storm', 's-megavolt', 's-fleeting-spark', 's-dispel', 's-arcane-ward', 's-mana-burst', 's-mystic-pulse', 's-enchant', 's-arcane-storm', 's-counterspell', 's-transmute', 's-phase-shift', 's-arcane-barrage', 's-annihilate', 's-cosmic-ray', 's-arcane-insight', 's-ward', 's-arcane-aegis', 'r-backstab', 'r-poison-edge', 'r-death-sentence', 'r-expose', 'r-cripple', 'r-shadow-strike', 'r-cheap-shot', 'r-eviscerate', 'r-assassinate', 'r-feint', 'r-garrote', 'r-smoke-bomb', 'r-mend', 'r-bramble-wall', 'r-natures-wrath', 'r-thorn-burst', 'r-rejuvenate', 'r-bark-skin', 'r-life-bloom', 'r-entangle', 'r-wild-growth', 'r-forests-embrace', 'r-seed-of-life', 'r-world-bloom', 'r-mending-vines', 'r-bramble-ward', 'r-double-tap', 'r-headshot', 'r-volley', 'r-piercing-shot', 'r-rapid-fire', 'r-kill-shot', 'r-trick-shot', 'r-hunters-mark', 'r-barrage', 'r-steady-aim', 'r-critical-strike', 'r-deadeye', 'r-patient-aim', 'r-venom-blade', 'r-noxious-cloud', 'r-corrosion', 'r-plague', 'r-envenom', 'r-toxic-spray', 'r-festering-wound', 'r-contaminate', 'r-putrefy', 'r-bio-bomb', 'r-miasma', 'r-pandemic', 'r-neurotoxin');
@@ -0,0 +1,77 @@
+-- Combat rules check
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+-- Fails the migration if the SQL helpers drift from combatRuleFixtures.ts
+do $$
+begin
+  if public._card_amount(8, false, false)::text is distinct from '8' then
+    raise exception 'Combat rule mismatch: cardAmount {"amount":8,"amplified":false,"weakened":false}';
+  end if;
+  if public._card_amount(7, true, false)::text is distinct from '11' then
+    raise exception 'Combat rule mismatch: cardAmount {"amount":7,"amplified":true,"weakened":false}';
+  end if;
+  if public._card_amount(9, false, true)::text is distinct from '7' then
+    raise exception 'Combat rule mismatch: cardAmount {"amount":9,"amplified":false,"weakened":true}';
+  end if;
+  if public._card_amount(7, true, true)::text is distinct from '9' then
+    raise exception 'Combat rule mismatch: cardAmount {"amount":7,"amplified":true,"weakened":true}';
+  end if;
+  if public._card_amount(1, false, true)::text is distinct from '1' then
+    raise exception 'Combat rule mismatch: cardAmount {"amount":1,"amplified":false,"weakened":true}';
+  end if;
+  if public._card_amount(0, true, true)::text is distinct from '0' then
+    raise exception 'Combat rule mismatch: cardAmount {"amount":0,"amplified":true,"weakened":true}';
+  end if;
+  if public._resolve_enemy_hit(10, 50, 0, 0)::text is distinct from '{"hpLost":10,"block":0}'::jsonb::text then
+    raise exception 'Combat rule mismatch: resolveEnemyHit {"amount":10,"hp":50,"block":0,"vulnerable":0}';
+  end if;
+  if public._resolve_enemy_hit(7, 50, 0, 2)::text is distinct from '{"hpLost":11,"block":0}'::jsonb::text then
+    raise exception 'Combat rule mismatch: resolveEnemyHit {"amount":7,"hp":50,"block":0,"vulnerable":2}';
+  end if;
+  if public._resolve_enemy_hit(10, 50, 4, 0)::text is distinct from '{"hpLost":6,"block":0}'::jsonb::text then
+    raise exception 'Combat rule mismatch: resolveEnemyHit {"amount":10,"hp":50,"block":4,"vulnerable":0}';
+  end if;
+  if public._resolve_enemy_hit(10, 50, 14, 0)::text is distinct from '{"hpLost":0,"block":4}'::jsonb::text then
+    raise exception 'Combat rule mismatch: resolveEnemyHit {"amount":10,"hp":50,"block":14,"vulnerable":0}';
+  end if;
+  if public._resolve_enemy_hit(8, 50, 12, 1)::text is distinct from '{"hpLost":0,"block":0}'::jsonb::text then
+    raise exception 'Combat rule mismatch: resolveEnemyHit {"amount":8,"hp":50,"block":12,"vulnerable":1}';
+  end if;
+  if public._resolve_enemy_hit(9, 50, 5, 1)::text is distinct from '{"hpLost":9,"block":0}'::jsonb::text then
+    raise exception 'Combat rule mismatch: resolveEnemyHit {"amount":9,"hp":50,"block":5,"vulnerable":1}';
+  end if;
+  if public._resolve_enemy_hit(30, 12, 0, 0)::text is distinct from '{"hpLost":12,"block":0}'::jsonb::text then
+    raise exception 'Combat rule mismatch: resolveEnemyHit {"amount":30,"hp":12,"block":0,"vulnerable":0}';
+  end if;
+  if public._resolve_enemy_hit(10, 0, 3, 0)::text is distinct from '{"hpLost":0,"block":3}'::jsonb::text then
+    raise exception 'Combat rule mismatch: resolveEnemyHit {"amount":10,"hp":0,"block":3,"vulnerable":0}';
+  end if;
+  if public._enemy_attack_damage(10, 0, 0, 0)::text is distinct from '10' then
+    raise exception 'Combat rule mismatch: enemyAttackDamage {"value":10,"strength":0,"weakened":0,"targetVulnerable":0}';
+  end if;
+  if public._enemy_attack_damage(10, 3, 0, 0)::text is distinct from '13' then
+    raise exception 'Combat rule mismatch: enemyAttackDamage {"value":10,"strength":3,"weakened":0,"targetVulnerable":0}';
+  end if;
+  if public._enemy_attack_damage(10, 3, 1, 0)::text is distinct from '9' then
+    raise exception 'Combat rule mismatch: enemyAttackDamage {"value":10,"strength":3,"weakened":1,"targetVulnerable":0}';
+  end if;
+  if public._enemy_attack_damage(5, 2, 0, 2)::text is distinct from '10' then
+    raise exception 'Combat rule mismatch: enemyAttackDamage {"value":5,"strength":2,"weakened":0,"targetVulnerable":2}';
+  end if;
+  if public._enemy_attack_damage(20, 1, 2, 1)::text is distinct from '22' then
+    raise exception 'Combat rule mismatch: enemyAttackDamage {"value":20,"strength":1,"weakened":2,"targetVulnerable":1}';
+  end if;
+  if public._enemy_attack_damage(5, -8, 0, 1)::text is distinct from '0' then
+    raise exception 'Combat rule mismatch: enemyAttackDamage {"value":5,"strength":-8,"weakened":0,"targetVulnerable":1}';
+  end if;
+  if public._frail_block(8, 0)::text is distinct from '8' then
+    raise exception 'Combat rule mismatch: frailBlock {"amount":8,"frail":0}';
+  end if;
+  if public._frail_block(8, 2)::text is distinct from '6' then
+    raise exception 'Combat rule mismatch: frailBlock {"amount":8,"frail":2}';
+  end if;
+  if public._frail_block(7, 1)::text is distinct from '5' then
+    raise exception 'Combat rule mismatch: frailBlock {"amount":7,"frail":1}';
+  end if;
+end;
+$$;
@@ -0,0 +1,10 @@
+-- Deck operations
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.deck_operations (id, position, icon, shop_cost, cost_step) values
+  ('remove', 0, '✂️', 50, 25),
+  ('transform', 1, '🔀', 40, 25),
+  ('duplicate', 2, '📑', 60, 25)
+on conflict (id) do update set position=excluded.position, icon=excluded.icon, shop_cost=excluded.shop_cost, cost_step=excluded.cost_step;
+
+delete from public.deck_operations where id not in ('remove', 'transform', 'duplicate');
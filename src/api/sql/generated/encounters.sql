@@ -0,0 +1,25 @@
+-- Encounters
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.encounters (id, description, blocs, phase, biomes, is_boss, is_elite, weight, enemies) values
+  ('scout-patrol', 'Hollow scouts patrol the path.', array[1, 2]::int[], 'core', array[]::text[], false, false, 1, '[{"templateId":"hollow-scout","hpMult":1},{"templateId":"hollow-scout","hpMult":0.8}]'::jsonb),
+  ('rat-swarm', 'A swarm of rats ambushes you!', array[1]::int[], 'core', array[]::text[], false, false, 1, '[{"templateId":"plague-rat","hpMult":1},{"templateId":"plague-rat","hpMult":1},{"templateId":"plague-rat","hpMult":1}]'::jsonb),
+  ('dark-convergence', 'Dark forces converge.', array[2, 3]::int[], 'core', array[]::text[], false, false, 1, '[{"templateId":"shadow-fiend","hpMult":1},{"templateId":"iron-golem","hpMult":0.8}]'::jsonb),
+  ('crossroad-ambush', 'Raiders wait where the roads meet.', array[2, 3]::int[], 'core', array[]::text[], false, false, 1, '[{"templateId":"crossroad-reaver","hpMult":1},{"templateId":"road-blackguard","hpMult":1}]'::jsonb),
+  ('wolf-pack', 'Wolves circle between the pines.', array[1, 2]::int[], 'core', array['cursed_forest']::text[], false, false, 2, '[{"templateId":"pine-wolf","hpMult":1},{"templateId":"pine-wolf","hpMult":1},{"templateId":"pine-wolf","hpMult":0.7}]'::jsonb),
+  ('totem-circle', 'A carved totem hums, and the shadows answer.', array[2, 3]::int[], 'core', array['cursed_forest']::text[], false, false, 2, '[{"templateId":"totem-warden","hpMult":1},{"templateId":"pine-wolf","hpMult":1},{"templateId":"shadow-fiend","hpMult":0.8}]'::jsonb),
+  ('sewer-nest', 'Something stirs in the reeds of the drain.', array[1, 2]::int[], 'core', array['sunken_sewers']::text[], false, false, 2, '[{"templateId":"plague-rat","hpMult":1},{"templateId":"plague-rat","hpMult":1},{"templateId":"reed-stalker","hpMult":0.8}]'::jsonb),
+  ('reed-ambush', 'Stalkers rise from the black water.', array[2, 3]::int[], 'core', array['sunken_sewers']::text[], false, false, 2, '[{"templateId":"reed-stalker","hpMult":1},{"templateId":"reed-stalker","hpMult":1},{"templateId":"plague-rat","hpMult":1}]'::jsonb),
+  ('bone-watch', 'A skeletal guardian awakens.', array[1, 2]::int[], 'core', array['ruined_fortress']::text[], false, false, 2, '[{"templateId":"bone-guardian","hpMult":1},{"templateId":"hollow-scout","hpMult":1}]'::jsonb),
+  ('golem-garrison', 'The fortress garrison still holds the gate.', array[2, 3]::int[], 'core', array['ruined_fortress']::text[], false, false, 2, '[{"templateId":"iron-golem","hpMult":1},{"templateId":"bone-guardian","hpMult":0.8},{"templateId":"bone-guardian","hpMult":0.8}]'::jsonb),
+  ('blackguard-captain', 'A blackguard captain and his sworn blade.', array[1, 2, 3]::int[], 'core', array[]::text[], false, true, 1, '[{"templateId":"road-blackguard","hpMult":1.3},{"templateId":"road-blackguard","hpMult":1}]'::jsonb),
+  ('elder-totem', 'An ancient totem, guarded by its pack.', array[1, 2, 3]::int[], 'core', array['cursed_forest']::text[], false, true, 1, '[{"templateId":"totem-warden","hpMult":1.4},{"templateId":"pine-wolf","hpMult":1}]'::jsonb),
+  ('drowned-stalker', 'The largest stalker of the sewers, never alone.', array[1, 2, 3]::int[], 'core', array['sunken_sewers']::text[], false, true, 1, '[{"templateId":"reed-stalker","hpMult":1.4},{"templateId":"plague-rat","hpMult":1},{"templateId":"plague-rat","hpMult":1}]'::jsonb),
+  ('reaver-champion', 'A reaver champion holds the ruined hall.', array[1, 2, 3]::int[], 'core', array['ruined_fortress']::text[], false, true, 1, '[{"templateId":"crossroad-reaver","hpMult":1.4},{"templateId":"bone-guardian","hpMult":1}]'::jsonb),
+  ('dread-warden', 'The warden bars the way.', array[1, 2]::int[], 'resolve', array[]::text[], true, false, 1, '[{"templateId":"dread-warden","hpMult":1}]'::jsonb),
+  ('ogre-lord', 'The ogre lord claims this forest.', array[1, 2]::int[], 'resolve', array['cursed_forest']::text[], true, false, 1, '[{"templateId":"ogre-lord","hpMult":0.8}]'::jsonb),
+  ('bridge-keeper', 'Drog demands a toll at the sewer bridge.', array[1, 2]::int[], 'resolve', array['sunken_sewers']::text[], true, false, 1, '[{"templateId":"bridge-keeper-drog","hpMult":1}]'::jsonb),
+  ('chaos-wyrm', 'The final guardian emerges.', array[3]::int[], 'resolve', array[]::text[], true, false, 1, '[{"templateId":"chaos-wyrm","hpMult":1}]'::jsonb)
+on conflict (id) do update set description=excluded.description, blocs=excluded.blocs, phase=excluded.phase, biomes=excluded.biomes, is_boss=excluded.is_boss, is_elite=excluded.is_elite, weight=excluded.weight, enemies=excluded.enemies;
+
+delete from public.encounters where id not in ('scout-patrol', 'rat-swarm', 'dark-convergence', 'crossroad-ambush', 'wolf-pack', 'totem-circle', 'sewer-nest', 'reed-ambush', 'bone-watch', 'golem-garrison', 'blackguard-captain', 'elder-totem', 'drowned-stalker', 'reaver-champion', 'dread-warden', 'ogre-lord', 'bridge-keeper', 'chaos-wyrm');
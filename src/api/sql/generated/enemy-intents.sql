@@ -0,0 +1,33 @@
+-- Enemy intents
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.enemy_intents (code, type, value, hits, status, target, icon, label_key) values
+  (0, 'attack', 10, 1, null, 'random', '⚔️', 'intents.attack'),
+  (1, 'heavy_attack', 20, 1, null, 'highest_block', '💥', 'intents.heavy_attack'),
+  (2, 'defend', 14, 1, null, null, '🛡️', 'intents.defend'),
+  (3, 'buff', 3, 1, 'strength', null, '💪', 'intents.buff'),
+  (4, 'debuff', 2, 1, 'weakened', 'party', '🩸', 'intents.debuff'),
+  (5, 'charge_attack', 32, 1, null, 'party', '🔥', 'intents.charge_attack'),
+  (6, 'multi_hit', 5, 4, null, 'random', '⚔️⚔️', 'intents.multi_hit'),
+  (7, 'lifesteal', 10, 1, null, 'lowest_hp', '🧛', 'intents.lifesteal'),
+  (8, 'debuff', 4, 1, 'poison', 'lowest_hp', '🧪', 'intents.debuff'),
+  (9, 'debuff', 2, 1, 'frail', 'highest_block', '🦴', 'intents.debuff')
+on conflict (code) do update set type=excluded.type, value=excluded.value, hits=excluded.hits, status=excluded.status, target=excluded.target, icon=excluded.icon, label_key=excluded.label_key;
+
+delete from public.enemy_intents where code not in (0, 1, 2, 3, 4, 5, 6, 7, 8, 9);
+
+-- Per-template intent overrides and boss phases
+update public.enemy_templates set intent_overrides = '{}'::jsonb, intent_targeting = '{}'::jsonb, phases = '[]'::jsonb where id = 'hollow-scout';
+update public.enemy_templates set intent_overrides = '{}'::jsonb, intent_targeting = '{"0":"last_attacker"}'::jsonb, phases = '[]'::jsonb where id = 'bone-guardian';
+update public.enemy_templates set intent_overrides = '{"6":{"value":3,"hits":3}}'::jsonb, intent_targeting = '{"0":"lowest_hp","6":"lowest_hp"}'::jsonb, phases = '[]'::jsonb where id = 'plague-rat';
+update public.enemy_templates set intent_overrides = '{}'::jsonb, intent_targeting = '{"0":"last_attacker","1":"last_attacker"}'::jsonb, phases = '[]'::jsonb where id = 'shadow-fiend';
+update public.enemy_templates set intent_overrides = '{"1":{"value":24},"2":{"value":20}}'::jsonb, intent_targeting = '{}'::jsonb, phases = '[]'::jsonb where id = 'iron-golem';
+update public.enemy_templates set intent_overrides = '{}'::jsonb, intent_targeting = '{"6":"party"}'::jsonb, phases = '[{"hpPercent":66,"intentPattern":[1,2,6,0,5],"actions":[{"type":"cleanse"}]},{"hpPercent":33,"intentPattern":[5,6,1,7],"actions":[{"type":"enrage","strength":3}]}]'::jsonb where id = 'dread-warden';
+update public.enemy_templates set intent_overrides = '{"6":{"value":7,"hits":4}}'::jsonb, intent_targeting = '{}'::jsonb, phases = '[{"hpPercent":66,"intentPattern":[6,5,3,7],"actions":[{"type":"summon","templateId":"plague-rat","count":2}]},{"hpPercent":33,"intentPattern":[5,6,5,7,1],"actions":[{"type":"cleanse"},{"type":"enrage","strength":4}]}]'::jsonb where id = 'chaos-wyrm';
+update public.enemy_templates set intent_overrides = '{"6":{"value":4,"hits":3}}'::jsonb, intent_targeting = '{"0":"lowest_hp","6":"lowest_hp"}'::jsonb, phases = '[]'::jsonb where id = 'pine-wolf';
+update public.enemy_templates set intent_overrides = '{}'::jsonb, intent_targeting = '{}'::jsonb, phases = '[]'::jsonb where id = 'road-blackguard';
+update public.enemy_templates set intent_overrides = '{}'::jsonb, intent_targeting = '{"0":"lowest_hp"}'::jsonb, phases = '[]'::jsonb where id = 'reed-stalker';
+update public.enemy_templates set intent_overrides = '{}'::jsonb, intent_targeting = '{}'::jsonb, phases = '[]'::jsonb where id = 'totem-warden';
+update public.enemy_templates set intent_overrides = '{}'::jsonb, intent_targeting = '{}'::jsonb, phases = '[]'::jsonb where id = 'crossroad-reaver';
+update public.enemy_templates set intent_overrides = '{}'::jsonb, intent_targeting = '{}'::jsonb, phases = '[{"hpPercent":50,"intentPattern":[2,1,6,0,5],"actions":[{"type":"summon","templateId":"road-blackguard","count":1}]}]'::jsonb where id = 'bridge-keeper-drog';
+update public.enemy_templates set intent_overrides = '{"6":{"value":8,"hits":3}}'::jsonb, intent_targeting = '{"1":"party"}'::jsonb, phases = '[{"hpPercent":66,"intentPattern":[1,6,3,5,0],"actions":[{"type":"enrage","strength":2}]},{"hpPercent":33,"intentPattern":[5,1,6,7],"actions":[{"type":"cleanse"},{"type":"enrage","strength":3}]}]'::jsonb where id = 'ogre-lord';
@@ -0,0 +1,15 @@
+-- Potion definitions
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.potion_definitions (id, position, name, description, icon, effects, shop_cost) values
+  ('healing-potion', 0, 'Healing Potion', 'Heal 20 HP.', '🧪', '[{"type":"heal","amount":20}]'::jsonb, 20),
+  ('stoneskin-potion', 1, 'Stoneskin Potion', 'Gain 12 Block.', '🛡️', '[{"type":"block","amount":12}]'::jsonb, 20),
+  ('energy-potion', 2, 'Energy Potion', 'Gain 2 energy.', '⚡', '[{"type":"gain_energy","amount":2}]'::jsonb, 25),
+  ('weakness-potion', 3, 'Weakness Potion', 'Apply 2 Weakened to all enemies.', '☠️', '[{"type":"apply_status","status":"weakened","amount":2}]'::jsonb, 25),
+  ('swift-potion', 4, 'Swift Potion', 'Draw 2 cards.', '🌀', '[{"type":"draw","amount":2}]'::jsonb, 20)
+on conflict (id) do update set position=excluded.position, name=excluded.name, description=excluded.description, icon=excluded.icon, effects=excluded.effects, shop_cost=excluded.shop_cost;
+
+delete from public.potion_definitions where id not in ('healing-potion', 'stoneskin-potion', 'energy-potion', 'weakness-potion', 'swift-potion');
+
+-- Belt size of new characters
+alter table public.characters alter column potion_slots set default 3;
@@ -0,0 +1,19 @@
+-- Relic definitions
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.relic_definitions (id, position, name, description, icon, rarity, hook, trait, hp_percent, effects, shop_cost) values
+  ('anchor-stone', 0, 'Anchor Stone', 'Start each combat with 10 Block.', '⚓', 'common', 'combat_start', null, null, '[{"type":"block","amount":10}]'::jsonb, 60),
+  ('travel-pack', 1, 'Travel Pack', 'Draw 2 cards at the start of each combat.', '🎒', 'common', 'combat_start', null, null, '[{"type":"draw","amount":2}]'::jsonb, 60),
+  ('mending-moss', 2, 'Mending Moss', 'Heal 2 HP at the start of each turn.', '🍀', 'common', 'turn_start', null, null, '[{"type":"heal","amount":2}]'::jsonb, 70),
+  ('whetstone', 3, 'Whetstone', 'Whenever you play a Rage card, deal 3 damage to all enemies.', '🪨', 'common', 'card_played', 'rage', null, '[{"type":"damage","amount":3}]'::jsonb, 70),
+  ('ember-charm', 4, 'Ember Charm', 'Whenever you play a Fire card, apply 2 Burn to all enemies.', '🏮', 'common', 'card_played', 'fire', null, '[{"type":"apply_status","status":"burn","amount":2}]'::jsonb, 70),
+  ('thornbark-totem', 5, 'Thornbark Totem', 'Whenever you play a Nature card, gain 2 Thorns.', '🪵', 'common', 'card_played', 'nature', null, '[{"type":"gain_status","status":"thorns","amount":2}]'::jsonb, 70),
+  ('vampire-fang', 6, 'Vampire Fang', 'Whenever you kill an enemy, heal 6 HP.', '🦷', 'common', 'enemy_killed', null, null, '[{"type":"heal","amount":6}]'::jsonb, 80),
+  ('war-trophy', 7, 'War Trophy', 'Whenever you kill an enemy, gain 1 energy.', '🏆', 'common', 'enemy_killed', null, null, '[{"type":"gain_energy","amount":1}]'::jsonb, 80),
+  ('last-stand-banner', 8, 'Last Stand Banner', 'The first time you drop below 50% HP in a combat, gain 15 Block and 3 Regen.', '🚩', 'common', 'hp_below', null, 50, '[{"type":"block","amount":15},{"type":"gain_status","status":"regen","amount":3}]'::jsonb, 75),
+  ('crown-of-embers', 9, 'Crown of Embers', 'At the start of each combat, gain 1 energy and apply 2 Vulnerable to all enemies.', '👑', 'boss', 'combat_start', null, null, '[{"type":"gain_energy","amount":1},{"type":"apply_status","status":"vulnerable","amount":2}]'::jsonb, null),
+  ('storm-idol', 10, 'Storm Idol', 'Draw 1 extra card at the start of each turn.', '🗿', 'boss', 'turn_start', null, null, '[{"type":"draw","amount":1}]'::jsonb, null),
+  ('phoenix-ash', 11, 'Phoenix Ash', 'The first time you drop below 25% HP in a combat, heal 25 HP.', '🪶', 'boss', 'hp_below', null, 25, '[{"type":"heal","amount":25}]'::jsonb, null)
+on conflict (id) do update set position=excluded.position, name=excluded.name, description=excluded.description, icon=excluded.icon, rarity=excluded.rarity, hook=excluded.hook, trait=excluded.trait, hp_percent=excluded.hp_percent, effects=excluded.effects, shop_cost=excluded.shop_cost;
+
+delete from public.relic_definitions where id not in ('anchor-stone', 'travel-pack', 'mending-moss', 'whetstone', 'ember-charm', 'thornbark-totem', 'vampire-fang', 'war-trophy', 'last-stand-banner', 'crown-of-embers', 'storm-idol', 'phoenix-ash');
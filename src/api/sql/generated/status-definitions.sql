@@ -0,0 +1,17 @@
+-- Status definitions
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.status_definitions (id, position, sides, kind, stacking, tick, decay, tick_effect, icon, label_key) values
+  ('burn', 0, array['enemy', 'player']::text[], 'debuff', 'add', 'enemy_start', 'one', 'damage', '🔥', 'statuses.burn'),
+  ('poison', 1, array['enemy', 'player']::text[], 'debuff', 'add', 'player_start', 'one', 'damage', '🧪', 'statuses.poison'),
+  ('vulnerable', 2, array['enemy', 'player']::text[], 'debuff', 'add', 'enemy_end', 'one', null, '💔', 'statuses.vulnerable'),
+  ('weakened', 3, array['enemy', 'player']::text[], 'debuff', 'add', 'enemy_end', 'one', null, '🩸', 'statuses.weakened'),
+  ('frail', 4, array['enemy', 'player']::text[], 'debuff', 'add', 'enemy_end', 'one', null, '🦴', 'statuses.frail'),
+  ('stun', 5, array['enemy']::text[], 'debuff', 'max', 'enemy_end', 'one', null, '💫', 'statuses.stun'),
+  ('strength', 6, array['enemy']::text[], 'buff', 'add', 'enemy_end', 'none', null, '💪', 'statuses.strength'),
+  ('strength_down', 7, array['enemy']::text[], 'debuff', 'add', 'enemy_end', 'all', null, '📉', 'statuses.strength_down'),
+  ('thorns', 8, array['player']::text[], 'buff', 'add', 'enemy_end', 'all', null, '🌵', 'statuses.thorns'),
+  ('regen', 9, array['player']::text[], 'buff', 'add', 'enemy_end', 'one', 'heal', '💚', 'statuses.regen')
+on conflict (id) do update set position=excluded.position, sides=excluded.sides, kind=excluded.kind, stacking=excluded.stacking, tick=excluded.tick, decay=excluded.decay, tick_effect=excluded.tick_effect, icon=excluded.icon, label_key=excluded.label_key;
+
+delete from public.status_definitions where id not in ('burn', 'poison', 'vulnerable', 'weakened', 'frail', 'stun', 'strength', 'strength_down', 'thorns', 'regen');
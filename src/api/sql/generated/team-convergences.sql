@@ -0,0 +1,16 @@
+-- Team convergences
+-- GENERATED by bin/generate-sql.ts — do not edit by hand.
+
+insert into public.team_convergences (id, role_a, role_b, name, icon, damage, block, heal, vulnerable, weakened, burn) values
+  ('molten_steel', 'sage', 'warrior', 'Molten Steel', '🌋', 20, 0, 0, 0, 0, 6),
+  ('hunters_charge', 'ranger', 'warrior', 'Hunter''s Charge', '🐗', 14, 8, 0, 2, 0, 0),
+  ('starfall_volley', 'ranger', 'sage', 'Starfall Volley', '🌠', 18, 0, 0, 0, 2, 0)
+on conflict (id) do update set role_a=excluded.role_a, role_b=excluded.role_b, name=excluded.name, icon=excluded.icon, damage=excluded.damage, block=excluded.block, heal=excluded.heal, vulnerable=excluded.vulnerable, weakened=excluded.weakened, burn=excluded.burn;
+
+delete from public.team_convergences where id not in ('molten_steel', 'hunters_charge', 'starfall_volley');
+
+-- Multiplier by number of players who converged this phase
+insert into public.team_convergence_multipliers (player_count, multiplier) values
+  (2, 1),
+  (3, 1.5)
+on conflict (player_count) do update set multiplier=excluded.multiplier;
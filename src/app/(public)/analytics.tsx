@@ -0,0 +1,7 @@
+import { Redirect } from 'expo-router';
+import AnalyticsScreen from '@/features/analytics/dev/AnalyticsScreen';
+
+// Developer-only: release builds send the route home
+const AnalyticsRoute = () => (__DEV__ ? <AnalyticsScreen /> : <Redirect href="/" />);
+
+export default AnalyticsRoute;
@@ -21,6 +21,9 @@ export const ADVENTURE = {
     bossLevelBonus: 4,
     bossHpMultiplier: 3,
     bossAttackMultiplier: 1.5,
+    // Elite fights (ascension elite_chance), applied in seed_enemies_for_screen
+    eliteHpMultiplier: 1.5,
+    eliteStrengthBonus: 2,
   },
 
   screenWeights: {
@@ -10,6 +10,12 @@ export const COMBAT = {
   // Empowerment
   empowerThreshold: 3,
   convergenceRequiredTraits: 2,
+  amplifyMultiplier: 1.5,
+
+  // Status modifiers (mirrored in SQL — see combatRuleFixtures.ts)
+  vulnerableMultiplier: 1.5,
+  weakenedMultiplier: 0.75,
+  frailMultiplier: 0.75,
 
   // Card upgrades
   upgradeEnergyThreshold: 10,
@@ -1,21 +1,46 @@
+import { useEffect, useState } from 'react';
 import { EmptyState, Stack, Typography } from '@/components';
 import { colors } from '@/constants/colors';
 import { useGame } from '@/contexts/GameContext';
+import PhaseTransition from '@/features/adventure/components/PhaseTransition';
+import MapScreen from '@/features/adventure/MapScreen';
 import ChoiceScreen from '@/features/choice/ChoiceScreen';
 import CombatScreen from '@/features/combat/CombatScreen';
+import { getBiome } from '@/features/gameConfig';
 import PuzzleScreen from '@/features/puzzle/PuzzleScreen';
 import RestScreen from '@/features/rest/RestScreen';
 import ShopScreen from '@/features/shop/ShopScreen';
 
+const TRANSITION_MS = 4000;
+
 const AdventureDispatcher = () => {
   const { roomConnection } = useGame();
   const { currentScreen } = roomConnection;
 
+  // Entering a new bloc or phase shows the biome's theme and ambiance for that phase
+  const phaseKey = currentScreen ? `${currentScreen.bloc}:${currentScreen.phase}` : null;
+  const [transitionKey, setTransitionKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (phaseKey) setTransitionKey(phaseKey);
+  }, [phaseKey]);
+
+  useEffect(() => {
+    if (!transitionKey) return;
+    const timer = setTimeout(() => setTransitionKey(null), TRANSITION_MS);
+    return () => clearTimeout(timer);
+  }, [transitionKey]);
+
   if (!currentScreen) {
     return <EmptyState text="Loading adventure..." />;
   }
 
   const renderScreen = () => {
+    // A finished screen at a fork of the map: the party votes on where to go next
+    if (currentScreen.isCompleted && currentScreen.nextPositions.length > 1) {
+      return <MapScreen />;
+    }
+
     switch (currentScreen.screenType) {
       case 'combat':
       case 'boss_fight':
@@ -39,9 +64,19 @@ const AdventureDispatcher = () => {
     }
   };
 
+  const biome = getBiome(roomConnection.room?.biome);
+
   return (
     <Stack flex={1} style={{ backgroundColor: colors.backgroundDark }}>
       {renderScreen()}
+      {biome && transitionKey === phaseKey ? (
+        <PhaseTransition
+          biome={biome}
+          phase={biome.phases[currentScreen.phase]}
+          bloc={currentScreen.bloc}
+          onDismiss={() => setTransitionKey(null)}
+        />
+      ) : null}
     </Stack>
   );
 };
@@ -0,0 +1,96 @@
+import { ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BottomSheet, Button, Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useGame } from '@/contexts/GameContext';
+import { useTranslation } from '@/contexts/I18nContext';
+import AdventureMap from '@/features/adventure/components/AdventureMap';
+
+/**
+ * Between two screens at a fork of the map: every player votes for the next screen, then the host
+ * sets off (advance_screen follows the most voted screen, the host's vote breaking a tie).
+ */
+const MapScreen = () => {
+  const insets = useSafeAreaInsets();
+  const { roomConnection, localPlayerId, isHost } = useGame();
+  const { currentScreen, adventureMap, pathVotes, players } = roomConnection;
+  const { t } = useTranslation();
+
+  if (!currentScreen) return null;
+
+  const choices = currentScreen.nextPositions;
+  // The current bloc and the bloc the fork leads into
+  const blocs = new Set([
+    currentScreen.bloc,
+    ...adventureMap.filter((n) => choices.includes(n.position)).map((n) => n.bloc),
+  ]);
+  const nodes = adventureMap.filter((n) => blocs.has(n.bloc));
+
+  const voteCounts: Record<number, number> = {};
+  for (const vote of pathVotes) {
+    voteCounts[vote.nextPosition] = (voteCounts[vote.nextPosition] ?? 0) + 1;
+  }
+  const localVote = pathVotes.find((v) => v.playerId === localPlayerId)?.nextPosition ?? null;
+  const voters = players.filter((p) => !p.is_bot).length;
+
+  const topVotes = Math.max(0, ...Object.values(voteCounts));
+  const isTied = choices.filter((position) => voteCounts[position] === topVotes).length > 1;
+  // Without a vote the server rolls the screen, among the tied ones or every choice
+  const isUndecided =
+    topVotes === 0 || (isTied && (localVote === null || voteCounts[localVote] !== topVotes));
+
+  return (
+    <Stack flex={1}>
+      <ScrollView
+        contentContainerStyle={{
+          padding: 16,
+          paddingTop: 16 + insets.top,
+          paddingBottom: 140 + insets.bottom,
+          gap: 16,
+        }}
+      >
+        <Stack gap={4} align="center">
+          <Typography variant="h4" style={{ color: colors.combatTitle, textAlign: 'center' }}>
+            {t('map.title')}
+          </Typography>
+          <Typography variant="body1" style={{ color: colors.combatWaiting, textAlign: 'center' }}>
+            {t('map.subtitle')}
+          </Typography>
+        </Stack>
+
+        <AdventureMap
+          nodes={nodes}
+          currentPosition={currentScreen.position}
+          choices={choices}
+          voteCounts={voteCounts}
+          localVote={localVote}
+          disabled={roomConnection.isBusy}
+          onVote={(position) => void roomConnection.voteNextScreen(position)}
+        />
+      </ScrollView>
+
+      <BottomSheet size="xs">
+        <Typography variant="caption" style={{ color: colors.combatWaiting, textAlign: 'center' }}>
+          {t('map.votes', { count: pathVotes.length, total: voters })}
+        </Typography>
+        {isHost ? (
+          <Button
+            size="sm"
+            disabled={roomConnection.isBusy}
+            onPress={() => void roomConnection.advanceScreen()}
+            label={isUndecided ? t('map.goRandom') : t('map.go')}
+          />
+        ) : (
+          <Typography
+            variant="caption"
+            style={{ color: colors.combatWaiting, textAlign: 'center' }}
+          >
+            {t('map.waiting')}
+          </Typography>
+        )}
+      </BottomSheet>
+    </Stack>
+  );
+};
+
+export default MapScreen;
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { Pressable, View } from 'react-native';
+import Svg, { Line } from 'react-native-svg';
+import { Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import type { AdventureMapNode, PhaseType, ScreenType } from '@/types/adventure';
+
+type AdventureMapProps = {
+  /** Screens to draw, usually one or two blocs */
+  nodes: AdventureMapNode[];
+  currentPosition: number;
+  /** Positions the party can vote for */
+  choices: number[];
+  /** Votes per position */
+  voteCounts: Record<number, number>;
+  localVote: number | null;
+  disabled?: boolean;
+  onVote: (position: number) => void;
+};
+
+const PHASE_LABELS: Record<PhaseType, string> = {
+  early: 'Early',
+  core: 'Core',
+  resolve: 'Resolve',
+};
+
+const SCREEN_ICONS: Record<ScreenType, string> = {
+  combat: '⚔️',
+  boss_fight: '🐉',
+  narrative_choice: '❓',
+  puzzle: '🧩',
+  shop: '🛒',
+  rest: '🏕️',
+};
+
+const ROW_HEIGHT = 76;
+const NODE_SIZE = 46;
+
+/**
+ * The adventure map drawn row by row, the start at the top: screens already played, the one the
+ * party stands on and the screens it can vote for, with the paths between them.
+ */
+const AdventureMap = ({
+  nodes,
+  currentPosition,
+  choices,
+  voteCounts,
+  localVote,
+  disabled,
+  onVote,
+}: AdventureMapProps) => {
+  const [width, setWidth] = useState(0);
+
+  const rows = [...new Set(nodes.map((n) => n.mapRow))].sort((a, b) => a - b);
+  const rowIndex = new Map(rows.map((row, index) => [row, index]));
+  const rowWidth = new Map<number, number>();
+  for (const node of nodes) {
+    rowWidth.set(node.mapRow, Math.max(rowWidth.get(node.mapRow) ?? 0, node.mapLane + 1));
+  }
+
+  const byPosition = new Map(nodes.map((n) => [n.position, n]));
+  const center = (node: AdventureMapNode) => ({
+    x: (width * (node.mapLane + 0.5)) / (rowWidth.get(node.mapRow) ?? 1),
+    y: (rowIndex.get(node.mapRow) ?? 0) * ROW_HEIGHT + ROW_HEIGHT / 2,
+  });
+
+  const edges = nodes.flatMap((from) =>
+    from.nextPositions
+      .map((position) => byPosition.get(position))
+      .filter((to): to is AdventureMapNode => to !== undefined)
+      .map((to) => ({ from, to })),
+  );
+
+  const blocStarts = rows.flatMap((row) => {
+    const first = nodes.find((n) => n.mapRow === row);
+    const previous = nodes.find((n) => n.mapRow === row - 1);
+    return first && first.bloc !== previous?.bloc ? [first] : [];
+  });
+
+  return (
+    <View
+      style={{ height: rows.length * ROW_HEIGHT, width: '100%' }}
+      onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+    >
+      {width > 0 ? (
+        <Svg width={width} height={rows.length * ROW_HEIGHT} style={{ position: 'absolute' }}>
+          {edges.map(({ from, to }) => {
+            const a = center(from);
+            const b = center(to);
+            const isOpen = from.position === currentPosition && choices.includes(to.position);
+            const isTaken = from.isCompleted && (to.isCompleted || to.position === currentPosition);
+            return (
+              <Line
+                key={`${from.position}-${to.position}`}
+                x1={a.x}
+                y1={a.y}
+                x2={b.x}
+                y2={b.y}
+                stroke={
+                  isOpen
+                    ? colors.intentConfirmedBorder
+                    : isTaken
+                      ? colors.combatTitle
+                      : colors.tabBorder
+                }
+                strokeWidth={isOpen || isTaken ? 3 : 1.5}
+                strokeDasharray={isOpen || isTaken ? undefined : '4 4'}
+              />
+            );
+          })}
+        </Svg>
+      ) : null}
+
+      {blocStarts.map((node) => (
+        <View
+          key={`bloc-${node.bloc}`}
+          style={{
+            position: 'absolute',
+            left: 0,
+            top: (rowIndex.get(node.mapRow) ?? 0) * ROW_HEIGHT + 4,
+            backgroundColor: colors.actionActiveBg,
+            paddingHorizontal: 8,
+            paddingVertical: 2,
+            borderRadius: 4,
+            borderWidth: 1,
+            borderColor: colors.tabBorder,
+          }}
+        >
+          <Typography variant="micro" style={{ color: colors.intentConfirmedBorder }}>
+            Bloc {node.bloc} · {PHASE_LABELS[node.phase]}
+          </Typography>
+        </View>
+      ))}
+
+      {width > 0
+        ? nodes.map((node) => {
+            const { x, y } = center(node);
+            const isCurrent = node.position === currentPosition;
+            const isChoice = choices.includes(node.position);
+            const votes = voteCounts[node.position] ?? 0;
+            return (
+              <Pressable
+                key={node.id}
+                disabled={!isChoice || disabled}
+                onPress={() => onVote(node.position)}
+                style={{
+                  position: 'absolute',
+                  left: x - NODE_SIZE / 2,
+                  top: y - NODE_SIZE / 2,
+                  width: NODE_SIZE,
+                  height: NODE_SIZE,
+                  borderRadius: NODE_SIZE / 2,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  backgroundColor: isCurrent ? colors.actionActiveBg : colors.backgroundCombatCard,
+                  borderWidth: isChoice || isCurrent ? 3 : 1,
+                  borderColor:
+                    localVote === node.position
+                      ? colors.combatHeal
+                      : isChoice
+                        ? colors.intentConfirmedBorder
+                        : isCurrent
+                          ? colors.combatTitle
+                          : colors.tabBorder,
+                  opacity: node.isCompleted && !isCurrent ? 0.5 : 1,
+                }}
+              >
+                <Typography variant="body1">{SCREEN_ICONS[node.screenType]}</Typography>
+                {votes > 0 ? (
+                  <Stack
+                    align="center"
+                    justify="center"
+                    style={{
+                      position: 'absolute',
+                      top: -6,
+                      right: -6,
+                      minWidth: 20,
+                      height: 20,
+                      borderRadius: 10,
+                      backgroundColor: colors.intentConfirmedBorder,
+                    }}
+                  >
+                    <Typography variant="micro" bold style={{ color: colors.backgroundCombatCard }}>
+                      {votes}
+                    </Typography>
+                  </Stack>
+                ) : null}
+              </Pressable>
+            );
+          })
+        : null}
+    </View>
+  );
+};
+
+export default AdventureMap;
@@ -0,0 +1,119 @@
+import { Pressable, ScrollView, StyleSheet } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BottomSheet, Button, Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+import { getCardById, TRAIT_MAP } from '@/features/gameConfig';
+import type { DeckCardInstance } from '@/types/spellCombat';
+
+type DeckPickerProps = {
+  deck: DeckCardInstance[];
+  title: string;
+  subtitle?: string;
+  disabled?: boolean;
+  onPick: (deckIndex: number) => void;
+  onClose: () => void;
+};
+
+/** Full-screen list of a run deck; tapping a card picks its deck index. */
+const DeckPicker = ({ deck, title, subtitle, disabled, onPick, onClose }: DeckPickerProps) => {
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+
+  return (
+    <Stack
+      flex={1}
+      style={{
+        ...StyleSheet.absoluteFillObject,
+        backgroundColor: colors.backgroundDark,
+        zIndex: 10,
+      }}
+    >
+      <Stack
+        align="center"
+        gap={4}
+        style={{
+          paddingTop: insets.top + 16,
+          paddingBottom: 12,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.tabBorder,
+        }}
+      >
+        <Typography variant="h4" style={{ color: colors.combatTitle }}>
+          {title}
+        </Typography>
+        {subtitle ? (
+          <Typography variant="caption" style={{ color: colors.textSecondary }}>
+            {subtitle}
+          </Typography>
+        ) : null}
+      </Stack>
+
+      <ScrollView
+        contentContainerStyle={{
+          paddingHorizontal: 16,
+          paddingTop: 12,
+          paddingBottom: 100 + insets.bottom,
+          gap: 6,
+        }}
+        style={{ flex: 1 }}
+      >
+        {deck.map((instance, deckIndex) => {
+          const card = getCardById(instance.cardId);
+          const trait = card ? TRAIT_MAP[card.trait] : null;
+          return (
+            <Pressable
+              // Duplicates share a cardId, so the deck position is the identity
+              key={`${deckIndex}-${instance.cardId}`}
+              disabled={disabled}
+              onPress={() => onPick(deckIndex)}
+            >
+              <Stack
+                direction="row"
+                gap={8}
+                align="center"
+                style={{
+                  padding: 10,
+                  borderRadius: 8,
+                  borderWidth: 1,
+                  borderColor: trait ? `${trait.color}55` : colors.tabBorder,
+                  backgroundColor: colors.backgroundCombatCard,
+                  opacity: disabled ? 0.5 : 1,
+                }}
+              >
+                <Typography variant="body">{trait?.icon ?? '🃏'}</Typography>
+                <Stack flex={1} gap={2}>
+                  <Typography
+                    variant="captionSm"
+                    style={{ color: colors.textPrimary, fontWeight: '700' }}
+                  >
+                    {card ? (instance.upgraded ? card.upgradeName : card.name) : instance.cardId}
+                  </Typography>
+                  {card ? (
+                    <Typography variant="fine" style={{ color: colors.textSecondary, fontSize: 9 }}>
+                      {instance.upgraded ? card.upgradeDescription : card.description}
+                    </Typography>
+                  ) : null}
+                </Stack>
+                {card ? (
+                  <Typography variant="micro" bold style={{ color: trait?.color }}>
+                    {card.cost}
+                  </Typography>
+                ) : null}
+              </Stack>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+
+      <BottomSheet
+        size="xs"
+        style={{ backgroundColor: colors.backgroundDark, borderColor: colors.tabBorder }}
+      >
+        <Button size="sm" variant="ghost" label={t('deckOps.cancel')} onPress={onClose} />
+      </BottomSheet>
+    </Stack>
+  );
+};
+
+export default DeckPicker;
@@ -0,0 +1,53 @@
+import { Pressable } from 'react-native';
+import { Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+import type { Biome, BiomePhase } from '@/features/gameConfig';
+
+type PhaseTransitionProps = {
+  biome: Biome;
+  phase: BiomePhase;
+  bloc: number;
+  onDismiss: () => void;
+};
+
+/** Full-screen card entering a new bloc or phase: the biome, the phase theme and its ambiance. */
+const PhaseTransition = ({ biome, phase, bloc, onDismiss }: PhaseTransitionProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <Pressable
+      onPress={onDismiss}
+      style={{
+        position: 'absolute',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        left: 0,
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 12,
+        padding: 32,
+        backgroundColor: `${colors.backgroundDark}ee`,
+      }}
+    >
+      <Typography variant="caption" bold style={{ color: colors.combatWaiting, letterSpacing: 1 }}>
+        {biome.name}
+      </Typography>
+      <Typography variant="h4" style={{ color: colors.combatTitle, textAlign: 'center' }}>
+        {t('map.phase', { bloc, theme: phase.theme })}
+      </Typography>
+      <Typography
+        variant="body1"
+        style={{ color: colors.combatWaiting, fontStyle: 'italic', textAlign: 'center' }}
+      >
+        {phase.ambiance}
+      </Typography>
+      <Typography variant="micro" style={{ color: colors.combatWaiting, marginTop: 12 }}>
+        {t('map.tapToContinue')}
+      </Typography>
+    </Pressable>
+  );
+};
+
+export default PhaseTransition;
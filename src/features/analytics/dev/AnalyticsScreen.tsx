@@ -0,0 +1,192 @@
+import { useRouter } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { ScrollView } from 'react-native';
+import { type CardAnalytics, useAnalytics } from '@/api/hooks/useAnalytics';
+import {
+  Button,
+  Card,
+  ContentContainer,
+  EmptyState,
+  ScreenContainer,
+  Select,
+  Stack,
+  TabBar,
+  Typography,
+} from '@/components';
+import { colors } from '@/constants/colors';
+
+type AnalyticsTab = 'cards' | 'encounters' | 'enemies';
+type CardSort = 'pickRate' | 'winRateInDeck' | 'offers' | 'runsInDeck';
+
+const TABS: { id: AnalyticsTab; label: string }[] = [
+  { id: 'cards', label: 'Cards' },
+  { id: 'encounters', label: 'Encounters' },
+  { id: 'enemies', label: 'Lethal enemies' },
+];
+
+const CARD_SORTS: { value: CardSort; label: string }[] = [
+  { value: 'pickRate', label: 'Pick rate' },
+  { value: 'winRateInDeck', label: 'Win rate when in deck' },
+  { value: 'offers', label: 'Times offered' },
+  { value: 'runsInDeck', label: 'Runs in deck' },
+];
+
+const percent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+type RowProps = {
+  title: string;
+  subtitle?: string;
+  stats: string[];
+};
+
+const Row = ({ title, subtitle, stats }: RowProps) => (
+  <Stack
+    direction="row"
+    gap={8}
+    style={{
+      paddingVertical: 6,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderOverlay,
+    }}
+  >
+    <Stack flex={1}>
+      <Typography variant="body" bold>
+        {title}
+      </Typography>
+      {subtitle ? (
+        <Typography variant="caption" style={{ color: colors.textSecondary }}>
+          {subtitle}
+        </Typography>
+      ) : null}
+    </Stack>
+    <Stack align="flex-end">
+      {stats.map((stat) => (
+        <Typography key={stat} variant="caption">
+          {stat}
+        </Typography>
+      ))}
+    </Stack>
+  </Stack>
+);
+
+/**
+ * Developer-only analytics from real runs (the analytics_* views): reward card pick rates, win
+ * rate when a card is in a deck, encounter outcomes and the enemy templates that kill the most.
+ */
+const AnalyticsScreen = () => {
+  const router = useRouter();
+  const { cards, encounters, lethalEnemies, isLoading, error, refresh } = useAnalytics();
+  const [tab, setTab] = useState<AnalyticsTab>('cards');
+  const [cardSort, setCardSort] = useState<CardSort>('pickRate');
+
+  const sortedCards = useMemo(
+    () =>
+      [...cards].sort(
+        (a: CardAnalytics, b: CardAnalytics) =>
+          (b[cardSort] ?? -1) - (a[cardSort] ?? -1) || a.cardId.localeCompare(b.cardId),
+      ),
+    [cards, cardSort],
+  );
+
+  return (
+    <ScreenContainer>
+      <ContentContainer style={{ maxWidth: 520, flex: 1 }}>
+        <Stack gap={16} style={{ width: '100%', flex: 1 }}>
+          <Stack gap={6}>
+            <Typography variant="h3">Analytics</Typography>
+            <Typography style={{ textAlign: 'left' }}>
+              Reward picks, decks and fight outcomes recorded from real runs. Playtests are left
+              out.
+            </Typography>
+          </Stack>
+
+          <TabBar tabs={TABS} activeTab={tab} onChangeTab={setTab} />
+
+          {tab === 'cards' ? (
+            <Select
+              value={cardSort}
+              options={CARD_SORTS}
+              onSelect={(value) => setCardSort(value)}
+            />
+          ) : null}
+
+          <Card
+            backgroundColor={colors.backgroundOverlayPanel}
+            borderColor={colors.borderOverlay}
+            style={{ flex: 1 }}
+          >
+            <ScrollView>
+              {error ? <Typography variant="error">{error}</Typography> : null}
+              {isLoading ? <EmptyState text="Loading..." /> : null}
+
+              {!isLoading && tab === 'cards' ? (
+                sortedCards.length === 0 ? (
+                  <EmptyState text="No reward offers or finished runs yet." />
+                ) : (
+                  sortedCards.map((card) => (
+                    <Row
+                      key={card.cardId}
+                      title={card.name}
+                      subtitle={`${card.trait}${card.isStarter ? ' · starter' : ''}`}
+                      stats={[
+                        `Picked ${card.picks}/${card.offers} (${percent(card.pickRate)})`,
+                        `Won ${card.winsInDeck}/${card.runsInDeck} in deck (${percent(card.winRateInDeck)})`,
+                      ]}
+                    />
+                  ))
+                )
+              ) : null}
+
+              {!isLoading && tab === 'encounters' ? (
+                encounters.length === 0 ? (
+                  <EmptyState text="No fights recorded yet." />
+                ) : (
+                  encounters.map((encounter) => (
+                    <Row
+                      key={encounter.encounterId}
+                      title={encounter.encounterId}
+                      subtitle={`${encounter.fights} fights · ${encounter.averageTurns ?? '—'} turns on average`}
+                      stats={[
+                        `Won ${percent(encounter.winRate)}`,
+                        `${encounter.wipes} wipes · ${encounter.deaths} deaths`,
+                      ]}
+                    />
+                  ))
+                )
+              ) : null}
+
+              {!isLoading && tab === 'enemies' ? (
+                lethalEnemies.length === 0 ? (
+                  <EmptyState text="No character deaths recorded yet." />
+                ) : (
+                  lethalEnemies.map((enemy) => (
+                    <Row
+                      key={enemy.templateId}
+                      title={enemy.name}
+                      subtitle={enemy.templateId}
+                      stats={[
+                        `${enemy.kills} kills in ${enemy.fightsWithKills} fights`,
+                        `${enemy.wipes} wipes`,
+                      ]}
+                    />
+                  ))
+                )
+              ) : null}
+            </ScrollView>
+          </Card>
+
+          <Stack direction="row" gap={10}>
+            <Stack flex={1}>
+              <Button size="sm" variant="ghost" onPress={() => router.back()} label="Back" />
+            </Stack>
+            <Stack flex={1}>
+              <Button size="sm" disabled={isLoading} onPress={refresh} label="Refresh" />
+            </Stack>
+          </Stack>
+        </Stack>
+      </ContentContainer>
+    </ScreenContainer>
+  );
+};
+
+export default AnalyticsScreen;
@@ -5,19 +5,31 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Button, ModalBackdrop, Stack, StatusBadge, Typography } from '@/components';
 import { colors } from '@/constants/colors';
 import { useGame } from '@/contexts/GameContext';
+import BossPhaseBanner from '@/features/combat/components/BossPhaseBanner';
 import CombatBottomPanel from '@/features/combat/components/CombatBottomPanel';
+import CombatHeader from '@/features/combat/components/CombatHeader';
+import CombatLogSheet from '@/features/combat/components/CombatLogSheet';
 import CombatPortraitStrip from '@/features/combat/components/CombatPortraitStrip';
 import CombatTurnBanner from '@/features/combat/components/CombatTurnBanner';
 import EnemyList from '@/features/combat/components/EnemyList';
 import ScreenFlashOverlay from '@/features/combat/components/ScreenFlashOverlay';
+import useBossPhaseBanner from '@/features/combat/hooks/useBossPhaseBanner';
 import useBotAI from '@/features/combat/hooks/useBotAI';
 import useCombatAnimations from '@/features/combat/hooks/useCombatAnimations';
 import useCombatBroadcast from '@/features/combat/hooks/useCombatBroadcast';
 import useCombatTurnPhase from '@/features/combat/hooks/useCombatTurnPhase';
+import usePhaseTimer from '@/features/combat/hooks/usePhaseTimer';
 import { buildCombatPlayers } from '@/features/combat/utils/buildCombatPlayers';
+import { getBotRunnerUserId } from '@/features/combat/utils/getBotRunnerUserId';
 import { getEffectiveEnemyId } from '@/features/combat/utils/getEffectiveEnemyId';
-import { type CardVfxTarget, getCardById } from '@/features/gameConfig';
+import {
+  type CardVfxTarget,
+  getBiomePhase,
+  getCardById,
+  TEAM_CONVERGENCE_VFX_SEQUENCE_ID,
+} from '@/features/gameConfig';
 import { getEffectAsset, getEffectSequence, playEffectSequence, useVfx } from '@/features/vfx';
+import type { CombatScreenConfig } from '@/types/adventure';
 import type { PlayerId } from '@/types/player';
 
 const getEffectType = (damage: number, block: number, heal: number, isAoe?: boolean): string => {
@@ -74,7 +86,10 @@ const CombatScreen = () => {
   const { roomConnection, localPlayerId, playerDisplayNameById, isHost } = useGame();
 
   const [selectedEnemyId, setSelectedEnemyId] = useState<string | null>(null);
+  // Target for ally cards; null lets the server pick the most wounded ally
+  const [selectedAllyId, setSelectedAllyId] = useState<PlayerId | null>(null);
   const [botActionToast, setBotActionToast] = useState<string | null>(null);
+  const [showCombatLog, setShowCombatLog] = useState(false);
   const botToastTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const enemyPositionsRef = useRef<Record<string, Position>>({});
@@ -227,6 +242,24 @@ const CombatScreen = () => {
     [measureViewCenterInWindow, playEffect, queueVfxTimeout],
   );
 
+  /** Every converger fires the team sequence at the target; resolves to the last impact delay */
+  const playTeamConvergenceVfx = useCallback(
+    async (playerIds: PlayerId[], targetEnemyId: string | null | undefined) => {
+      const results = await Promise.all(
+        playerIds.map((playerId) =>
+          playCardVfx({
+            playerId,
+            sequenceId: TEAM_CONVERGENCE_VFX_SEQUENCE_ID,
+            targetEnemyId,
+            targetMode: 'self_to_target',
+          }),
+        ),
+      );
+      return Math.max(0, ...results.map((result) => result.impactDelayMs));
+    },
+    [playCardVfx],
+  );
+
   const localCharacter =
     roomConnection.characters.find((c) => c.playerId === localPlayerId) ?? null;
 
@@ -236,6 +269,14 @@ const CombatScreen = () => {
       | 'sage'
       | 'ranger') ?? 'warrior';
 
+  const playerVulnerable = useMemo(
+    () =>
+      Object.fromEntries(
+        roomConnection.playerCombatStates.map((pcs) => [pcs.playerId, pcs.vulnerable]),
+      ) as Partial<Record<PlayerId, number>>,
+    [roomConnection.playerCombatStates],
+  );
+
   const mappedEnemies = useMemo(
     () =>
       roomConnection.enemyCombatStates.map((ecs) => ({
@@ -250,11 +291,23 @@ const CombatScreen = () => {
         isDead: ecs.isDead,
         templateId: ecs.templateId,
         intentIndex: ecs.intentIndex,
+        phase: ecs.phase,
+        strength: ecs.strength,
+        weakened: ecs.weakened,
+        strengthDown: ecs.strengthDown,
+        targetPlayerId: ecs.targetPlayerId,
+        statuses: ecs,
       })),
     [roomConnection.enemyCombatStates],
   );
 
   const effectiveEnemyId = getEffectiveEnemyId(mappedEnemies, selectedEnemyId);
+  // An ally who died while selected is dropped, so the server picks instead of rejecting the play
+  const effectiveAllyId = roomConnection.characters.some(
+    (c) => c.playerId === selectedAllyId && c.hp > 0,
+  )
+    ? selectedAllyId
+    : null;
   const combatPlayers = buildCombatPlayers(roomConnection.players, playerDisplayNameById);
   const isDead = (localCharacter?.hp ?? 0) <= 0;
   const allEnemiesDead = mappedEnemies.length > 0 && mappedEnemies.every((e) => e.isDead);
@@ -263,14 +316,43 @@ const CombatScreen = () => {
   const turnPhase = combatTurn?.phase ?? 'player';
   const turnNumber = combatTurn?.turnNumber ?? 1;
 
+  const screenConfig = roomConnection.currentScreen?.config as CombatScreenConfig | undefined;
+  const bossBanner = useBossPhaseBanner({
+    enemies: roomConnection.enemyCombatStates,
+    bossId: screenConfig?.isBoss ? screenConfig.bossId : undefined,
+    bossName: screenConfig?.bossName,
+    turnNumber,
+    biomePhase: roomConnection.currentScreen
+      ? getBiomePhase(roomConnection.room?.biome, roomConnection.currentScreen.phase)
+      : undefined,
+    ascension: roomConnection.room?.ascension ?? 0,
+  });
+
   const localTurnState = roomConnection.playerTurnStates.find(
     (pts) => pts.playerId === localPlayerId,
   );
-  const hasEndedTurn = localTurnState?.hasEndedTurn ?? false;
+  const isBotControlled = roomConnection.players.some(
+    (p) => p.player_id === localPlayerId && p.bot_takeover,
+  );
+  // A seat handed to the bot can't act until its player takes it back
+  const hasEndedTurn = (localTurnState?.hasEndedTurn ?? false) || isBotControlled;
+
+  const secondsLeft = usePhaseTimer({
+    phaseDeadline: combatTurn?.phaseDeadline ?? null,
+    turnPhase,
+    combatExpirePhase: roomConnection.combatExpirePhase,
+  });
 
   const localCombatState =
     roomConnection.playerCombatStates.find((pcs) => pcs.playerId === localPlayerId) ?? null;
 
+  // Latest play of this turn that combat_undo_last would revert
+  const undoEntry =
+    roomConnection.combatUndoStack
+      .filter((e) => e.playerId === localPlayerId && e.turnNumber === combatTurn?.turnNumber)
+      .pop() ?? null;
+  const undoCard = undoEntry?.cardId ? getCardById(undoEntry.cardId) : undefined;
+
   // Late joiner: init combat state if missing
   const initAttemptedRef = useRef(false);
   useEffect(() => {
@@ -297,13 +379,29 @@ const CombatScreen = () => {
     return computeDirection(enemyPos, playerPositionRef.current);
   }, []);
 
-  const botPlayerIds = roomConnection.players.filter((p) => p.is_bot).map((p) => p.player_id);
+  const localUserId = roomConnection.players.find((p) => p.player_id === localPlayerId)?.user_id;
+  const isBotRunner = Boolean(
+    localUserId &&
+      roomConnection.room &&
+      getBotRunnerUserId(roomConnection.players, roomConnection.room.host_user_id) === localUserId,
+  );
+  const botPlayerIds = isBotRunner
+    ? roomConnection.players
+        .filter(
+          (p) =>
+            p.is_bot &&
+            !roomConnection.playerTurnStates.some(
+              (pts) => pts.playerId === p.player_id && pts.hasEndedTurn,
+            ),
+        )
+        .map((p) => p.player_id)
+    : [];
 
   useCombatTurnPhase({
-    isHost,
-    turnPhase,
+    combatTurn,
+    combatEvents: roomConnection.combatEvents,
+    localPlayerId,
     localHp: localCharacter?.hp ?? 0,
-    combatEnemyPhase: roomConnection.combatEnemyPhase,
     playEnemyPhase: anim.playEnemyPhase,
     getDirectionForEnemy,
   });
@@ -316,6 +414,17 @@ const CombatScreen = () => {
     localPlayerId,
     onAllyAction: useCallback(
       async (event) => {
+        if (event.actionType === 'team_convergence') {
+          const impactDelayMs = await playTeamConvergenceVfx(
+            event.partnerId ? [event.partnerId, event.playerId] : [event.playerId],
+            event.targetEnemyId,
+          );
+          anim.playTeamConvergence(event.spellName ?? 'Convergence', event.damage, {
+            impactDelayMs,
+          });
+          return;
+        }
+
         const allyCard = event.spellId ? getCardById(event.spellId) : undefined;
         const allyTargetMode = resolveCardVfxTarget(allyCard?.vfxTarget);
         const vfxResult =
@@ -333,7 +442,7 @@ const CombatScreen = () => {
           impactDelayMs: vfxResult.impactDelayMs,
         });
       },
-      [anim, playCardVfx],
+      [anim, playCardVfx, playTeamConvergenceVfx],
     ),
   });
 
@@ -403,7 +512,14 @@ const CombatScreen = () => {
           ? (aliveEnemies[targetEnemyIdx]?.id ?? effectiveEnemyId)
           : effectiveEnemyId;
 
-      void roomConnection.combatPlayCard(handIndex, targetEnemyIdx).then(async (result) => {
+      const targetPlayerId =
+        card.allyTarget === 'any_ally' ||
+        (card.allyTarget === 'ally' && effectiveAllyId !== localPlayerId)
+          ? effectiveAllyId
+          : null;
+
+      const request = roomConnection.combatPlayCard(handIndex, targetEnemyIdx, targetPlayerId);
+      void request.then(async (result) => {
         if (!result) return;
         const r = result as {
           cardName: string;
@@ -411,10 +527,15 @@ const CombatScreen = () => {
           block: number;
           heal: number;
           burn: number;
+          allies: Partial<Record<PlayerId, { heal?: number; block?: number }>>;
           wasAmplified: boolean;
           trait: string;
         };
 
+        for (const [allyId, support] of Object.entries(r.allies ?? {})) {
+          anim.playAllySupport(allyId, support?.heal ?? 0, support?.block ?? 0);
+        }
+
         const effectType = getEffectType(r.damage, r.block, r.heal, card.isAoe);
         const cardTargetMode = resolveCardVfxTarget(card.vfxTarget);
         const needsTargetEnemy = cardTargetMode !== 'self';
@@ -459,6 +580,7 @@ const CombatScreen = () => {
       getLungeToEnemy,
       aliveEnemies,
       effectiveEnemyId,
+      effectiveAllyId,
       playCardVfx,
       roomConnection,
       localPlayerId,
@@ -472,13 +594,14 @@ const CombatScreen = () => {
 
     void roomConnection
       .combatUseConvergence(selectedEnemyIdx >= 0 ? selectedEnemyIdx : null)
-      .then((result) => {
+      .then(async (result) => {
         if (!result) return;
         const r = result as {
           damage: number;
           block: number;
           heal: number;
           empoweredCount: number;
+          teamConvergence: { name: string; damage: number; partnerId: PlayerId } | null;
         };
 
         anim.playConvergence(r.damage, 'Convergence', 0, 'normal');
@@ -492,12 +615,32 @@ const CombatScreen = () => {
             spellName: 'Convergence',
           });
         }
+
+        const team = r.teamConvergence;
+        if (team && localPlayerId) {
+          const impactDelayMs = await playTeamConvergenceVfx(
+            [team.partnerId, localPlayerId],
+            effectiveEnemyId,
+          );
+          anim.playTeamConvergence(team.name, team.damage, { impactDelayMs });
+          broadcastAction({
+            playerId: localPlayerId,
+            playerName: localPlayerName,
+            actionType: 'team_convergence',
+            damage: team.damage,
+            spellName: team.name,
+            partnerId: team.partnerId,
+            targetEnemyId: effectiveEnemyId,
+          });
+        }
       });
   }, [
     isDead,
     anim,
     hasEndedTurn,
     selectedEnemyIdx,
+    effectiveEnemyId,
+    playTeamConvergenceVfx,
     roomConnection,
     localPlayerId,
     localPlayerName,
@@ -508,19 +651,39 @@ const CombatScreen = () => {
     void roomConnection.combatEndTurn();
   }, [roomConnection]);
 
+  const handleUndo = useCallback(() => {
+    if (anim.isAnimating) return;
+    void roomConnection.combatUndoLast();
+  }, [anim.isAnimating, roomConnection]);
+
   const handleReroll = useCallback(() => {
     void roomConnection.combatRerollHand();
   }, [roomConnection]);
 
+  const handleUsePotion = useCallback(
+    (slot: number) => {
+      void roomConnection.combatUsePotion(slot);
+    },
+    [roomConnection],
+  );
+
   return (
     <Stack flex={1} style={{ backgroundColor: colors.backgroundCombat }}>
       <StatusBar hidden />
       <Stack style={{ paddingTop: insets.top }}>
+        <CombatHeader character={localCharacter} />
         <CombatTurnBanner
-          turnPhase={turnPhase}
+          turnPhase={anim.prePhaseHp !== null ? 'enemy' : turnPhase}
           turnNumber={turnNumber}
           playerTurnStates={roomConnection.playerTurnStates}
+          secondsLeft={secondsLeft}
+          isBotControlled={isBotControlled}
+          onReclaimControl={() => void roomConnection.combatReclaimControl()}
+          onOpenLog={() => setShowCombatLog(true)}
         />
+        {bossBanner.announcement ? (
+          <BossPhaseBanner announcement={bossBanner.announcement} onDismiss={bossBanner.dismiss} />
+        ) : null}
         {botActionToast ? (
           <Stack
             align="center"
@@ -580,6 +743,9 @@ const CombatScreen = () => {
           onEnemyLayout={handleEnemyLayout}
           onEnemyPortraitRef={handleEnemyPortraitRef}
           floatingTexts={anim.floatingTexts}
+          localPlayerId={localPlayerId}
+          playerNames={playerDisplayNameById}
+          playerVulnerable={playerVulnerable}
         />
 
         <CombatPortraitStrip
@@ -598,6 +764,10 @@ const CombatScreen = () => {
           onPlayerLayout={handlePlayerLayout}
           onPlayerPortraitRef={handlePlayerPortraitRef}
           floatingTexts={anim.floatingTexts}
+          selectedAllyId={effectiveAllyId}
+          onSelectAlly={(playerId) =>
+            setSelectedAllyId(effectiveAllyId === playerId ? null : playerId)
+          }
         />
       </ScrollView>
 
@@ -611,15 +781,32 @@ const CombatScreen = () => {
         isAnimating={anim.isAnimating}
         localCombatState={localCombatState}
         roleId={localRoleId}
+        localHp={localCharacter?.hp ?? 0}
+        localHpMax={localCharacter?.hpMax ?? 0}
+        potions={localCharacter?.potions ?? []}
+        potionSlots={localCharacter?.potionSlots ?? 0}
+        aliveEnemies={roomConnection.enemyCombatStates.filter((e) => !e.isDead)}
         selectedEnemyIdx={selectedEnemyIdx >= 0 ? selectedEnemyIdx : null}
         onPlayCard={handlePlayCard}
         onConvergence={handleConvergence}
+        onUsePotion={handleUsePotion}
         onEndTurn={handleEndTurn}
         onReroll={handleReroll}
+        undoCardName={undoEntry ? (undoCard?.name ?? undoEntry.cardId ?? '') : null}
+        onUndo={handleUndo}
         onLeaveRoom={() => void roomConnection.leaveRoom()}
         onAdvanceScreen={roomConnection.advanceScreen}
       />
 
+      {showCombatLog ? (
+        <CombatLogSheet
+          events={roomConnection.combatEvents}
+          enemies={roomConnection.enemyCombatStates}
+          playerNames={playerDisplayNameById}
+          onClose={() => setShowCombatLog(false)}
+        />
+      ) : null}
+
       {isDead && !allEnemiesDead ? (
         <ModalBackdrop>
           <Stack gap={16} align="center">
@@ -0,0 +1,81 @@
+import { Pressable } from 'react-native';
+import { Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+import type { BossAnnouncement } from '@/features/combat/hooks/useBossPhaseBanner';
+import { type BossPhaseAction, getEnemyTemplate } from '@/features/gameConfig';
+
+type BossPhaseBannerProps = {
+  announcement: BossAnnouncement;
+  onDismiss: () => void;
+};
+
+const BossPhaseBanner = ({ announcement, onDismiss }: BossPhaseBannerProps) => {
+  const { t } = useTranslation();
+
+  const translateName = (nameKey: string) => {
+    const translated = t(`enemies.${nameKey}` as 'enemies.goule');
+    return translated.startsWith('enemies.') ? nameKey : translated || nameKey;
+  };
+
+  const describeAction = (action: BossPhaseAction) => {
+    switch (action.type) {
+      case 'cleanse':
+        return t('combat.bossActions.cleanse');
+      case 'enrage':
+        return t('combat.bossActions.enrage', { amount: action.strength });
+      case 'summon':
+        return t('combat.bossActions.summon', {
+          count: action.count,
+          name: getEnemyTemplate(action.templateId)?.name ?? action.templateId,
+        });
+    }
+  };
+
+  const title =
+    announcement.kind === 'intro'
+      ? translateName(announcement.bossName)
+      : announcement.kind === 'fight'
+        ? announcement.theme
+        : `${translateName(announcement.enemyName)} · ${t('combat.bossPhase', { phase: announcement.phase + 1 })}`;
+  const subtitle =
+    announcement.kind === 'phase'
+      ? announcement.actions.map(describeAction).join(' · ')
+      : announcement.text;
+
+  return (
+    <Pressable
+      onPress={onDismiss}
+      style={{
+        alignItems: 'center',
+        gap: 2,
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        marginHorizontal: 12,
+        marginTop: 4,
+        borderRadius: 6,
+        backgroundColor: `${colors.combatAbilityBuff}18`,
+        borderWidth: 1,
+        borderColor: `${colors.combatAbilityBuff}44`,
+      }}
+    >
+      <Typography
+        variant="caption"
+        bold
+        style={{ color: colors.combatAbilityBuff, letterSpacing: 1, textAlign: 'center' }}
+      >
+        {title}
+      </Typography>
+      {subtitle ? (
+        <Typography
+          variant="micro"
+          style={{ color: colors.combatHealthValue, fontStyle: 'italic', textAlign: 'center' }}
+        >
+          {subtitle}
+        </Typography>
+      ) : null}
+    </Pressable>
+  );
+};
+
+export default BossPhaseBanner;
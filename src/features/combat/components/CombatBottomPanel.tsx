@@ -2,10 +2,11 @@ import { useState } from 'react';
 import { BottomSheet, Button, Stack, StatusBadge, Typography } from '@/components';
 import { colors } from '@/constants/colors';
 import { useTranslation } from '@/contexts/I18nContext';
+import PotionBar from '@/features/combat/components/PotionBar';
 import RewardScreen from '@/features/combat/components/RewardScreen';
 import CardHandGrid from '@/features/combat/components/SpellHandGrid';
 import type { RoleId } from '@/types/player';
-import type { PlayerCombatState } from '@/types/spellCombat';
+import type { EnemyCombatState, PlayerCombatState } from '@/types/spellCombat';
 
 type CombatBottomPanelProps = {
   allEnemiesDead: boolean;
@@ -17,11 +18,20 @@ type CombatBottomPanelProps = {
   isAnimating: boolean;
   localCombatState: PlayerCombatState | null;
   roleId: RoleId;
+  localHp: number;
+  localHpMax: number;
+  potions: string[];
+  potionSlots: number;
+  aliveEnemies: EnemyCombatState[];
   selectedEnemyIdx: number | null;
   onPlayCard: (handIndex: number, targetEnemyIdx?: number | null) => void;
   onConvergence: () => void;
+  onUsePotion: (slot: number) => void;
   onEndTurn: () => void;
   onReroll: () => void;
+  /** Name of the card combat_undo_last would take back, null when there is nothing to undo */
+  undoCardName: string | null;
+  onUndo: () => void;
   onLeaveRoom: () => void;
   onAdvanceScreen: () => Promise<unknown>;
 };
@@ -36,11 +46,19 @@ const CombatBottomPanel = ({
   isAnimating,
   localCombatState,
   roleId,
+  localHp,
+  localHpMax,
+  potions,
+  potionSlots,
+  aliveEnemies,
   selectedEnemyIdx,
   onPlayCard,
   onConvergence,
+  onUsePotion,
   onEndTurn,
   onReroll,
+  undoCardName,
+  onUndo,
   onLeaveRoom,
   onAdvanceScreen,
 }: CombatBottomPanelProps) => {
@@ -113,9 +131,29 @@ const CombatBottomPanel = ({
         borderTopWidth: 0,
       }}
     >
+      {turnPhase === 'enemy' || hasEndedTurn ? null : (
+        <PotionBar
+          potions={potions}
+          slots={potionSlots}
+          disabled={isAnimating || isBusy}
+          onUsePotion={onUsePotion}
+        />
+      )}
+      {turnPhase === 'enemy' || hasEndedTurn || undoCardName === null ? null : (
+        <Button
+          size="sm"
+          variant="ghost"
+          label={`↩️ ${t('combat.undo', { card: undoCardName })}`}
+          disabled={isAnimating || isBusy}
+          onPress={onUndo}
+        />
+      )}
       <CardHandGrid
         combatState={localCombatState}
         roleId={roleId}
+        hp={localHp}
+        hpMax={localHpMax}
+        enemies={aliveEnemies}
         disabled={isAnimating || turnPhase === 'enemy' || hasEndedTurn}
         hideCards={turnPhase === 'enemy' || hasEndedTurn}
         onPlayCard={onPlayCard}
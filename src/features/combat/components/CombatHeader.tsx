@@ -1,11 +1,77 @@
+import { useState } from 'react';
 import { Pressable, View } from 'react-native';
 import type { Character } from '@/api/models/character';
 import { AnimatedBarFill, Stack, Typography } from '@/components';
 import { colors } from '@/constants/colors';
+import { getRelicById, type RelicDefinition } from '@/features/gameConfig';
 
 type CombatHeaderProps = {
   character: Character | null;
-  onFlee: () => void;
+  /** Hides the flee button when omitted */
+  onFlee?: () => void;
+};
+
+/** Owned relics as icon chips. Tapping a chip toggles its tooltip. */
+const RelicRow = ({ relicIds }: { relicIds: string[] }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const relics = relicIds
+    .map(getRelicById)
+    .filter((relic): relic is RelicDefinition => relic !== undefined);
+
+  if (relics.length === 0) return null;
+
+  const open = relics.find((relic) => relic.id === openId);
+  const color = colors.intentConfirmedBorder;
+
+  return (
+    <View>
+      <Stack direction="row" gap={4} style={{ flexWrap: 'wrap' }}>
+        {relics.map((relic) => (
+          <Pressable
+            key={relic.id}
+            onPress={() => setOpenId((prev) => (prev === relic.id ? null : relic.id))}
+            hitSlop={4}
+            style={{
+              paddingHorizontal: 4,
+              borderRadius: 6,
+              backgroundColor: `${color}15`,
+              borderWidth: 1,
+              borderColor: openId === relic.id ? color : `${color}33`,
+            }}
+          >
+            <Typography variant="caption">{relic.icon}</Typography>
+          </Pressable>
+        ))}
+      </Stack>
+
+      {open ? (
+        <Pressable
+          onPress={() => setOpenId(null)}
+          style={{
+            position: 'absolute',
+            top: '100%',
+            marginTop: 4,
+            width: 180,
+            padding: 6,
+            gap: 2,
+            borderRadius: 6,
+            backgroundColor: colors.backgroundCombat,
+            borderWidth: 1,
+            borderColor: color,
+            zIndex: 10,
+          }}
+        >
+          <Typography variant="micro" bold style={{ color }}>
+            {open.icon} {open.name}
+          </Typography>
+          <Typography variant="micro" style={{ color: colors.combatHealthValue }}>
+            {open.description}
+          </Typography>
+        </Pressable>
+      ) : null}
+    </View>
+  );
 };
 
 const CombatHeader = ({ character, onFlee }: CombatHeaderProps) => {
@@ -17,98 +83,107 @@ const CombatHeader = ({ character, onFlee }: CombatHeaderProps) => {
 
   return (
     <Stack
-      direction="row"
-      gap={8}
-      align="center"
+      gap={6}
       style={{
         paddingHorizontal: 12,
         paddingVertical: 8,
         backgroundColor: `${colors.backgroundCombatCard}ee`,
         borderBottomWidth: 1,
         borderBottomColor: `${colors.intentConfirmedBorder}22`,
+        zIndex: 2,
       }}
     >
-      {/* Level badge */}
-      <Stack
-        style={{
-          paddingHorizontal: 10,
-          paddingVertical: 4,
-          borderRadius: 6,
-          backgroundColor: `${colors.intentConfirmedBorder}18`,
-          borderWidth: 1,
-          borderColor: `${colors.intentConfirmedBorder}33`,
-        }}
-      >
-        <Typography
-          variant="bodySm"
-          style={{ color: colors.intentConfirmedBorder, fontWeight: '700' }}
-        >
-          Lv.{level}
-        </Typography>
-      </Stack>
-
-      {/* Experience bar */}
-      <Stack flex={1} gap={2}>
-        <View
+      <Stack direction="row" gap={8} align="center">
+        {/* Level badge */}
+        <Stack
           style={{
-            height: 5,
-            borderRadius: 999,
-            backgroundColor: `${colors.combatHealthBarBg}88`,
-            overflow: 'hidden',
+            paddingHorizontal: 10,
+            paddingVertical: 4,
+            borderRadius: 6,
+            backgroundColor: `${colors.intentConfirmedBorder}18`,
+            borderWidth: 1,
+            borderColor: `${colors.intentConfirmedBorder}33`,
           }}
         >
-          <AnimatedBarFill
-            percent={expPercent}
+          <Typography
+            variant="bodySm"
+            style={{ color: colors.intentConfirmedBorder, fontWeight: '700' }}
+          >
+            Lv.{level}
+          </Typography>
+        </Stack>
+
+        {/* Experience bar */}
+        <Stack flex={1} gap={2}>
+          <View
             style={{
-              height: '100%',
-              backgroundColor: colors.intentConfirmedBorder,
+              height: 5,
               borderRadius: 999,
+              backgroundColor: `${colors.combatHealthBarBg}88`,
+              overflow: 'hidden',
             }}
-          />
-        </View>
-        <Typography
-          variant="micro"
-          style={{ color: colors.combatHealthValue, textAlign: 'center', fontSize: 8 }}
-        >
-          {exp} / {expMax} XP
-        </Typography>
-      </Stack>
+          >
+            <AnimatedBarFill
+              percent={expPercent}
+              style={{
+                height: '100%',
+                backgroundColor: colors.intentConfirmedBorder,
+                borderRadius: 999,
+              }}
+            />
+          </View>
+          <Typography
+            variant="micro"
+            style={{ color: colors.combatHealthValue, textAlign: 'center', fontSize: 8 }}
+          >
+            {exp} / {expMax} XP
+          </Typography>
+        </Stack>
 
-      {/* Gold badge */}
-      <Stack
-        style={{
-          paddingHorizontal: 10,
-          paddingVertical: 4,
-          borderRadius: 6,
-          backgroundColor: `${colors.intentConfirmedBorder}18`,
-          borderWidth: 1,
-          borderColor: `${colors.intentConfirmedBorder}33`,
-        }}
-      >
-        <Typography
-          variant="bodySm"
-          style={{ color: colors.intentConfirmedBorder, fontWeight: '700' }}
+        {/* Gold badge */}
+        <Stack
+          style={{
+            paddingHorizontal: 10,
+            paddingVertical: 4,
+            borderRadius: 6,
+            backgroundColor: `${colors.intentConfirmedBorder}18`,
+            borderWidth: 1,
+            borderColor: `${colors.intentConfirmedBorder}33`,
+          }}
         >
-          {gold} g.
-        </Typography>
+          <Typography
+            variant="bodySm"
+            style={{ color: colors.intentConfirmedBorder, fontWeight: '700' }}
+          >
+            {gold} g.
+          </Typography>
+        </Stack>
+
+        {/* Flee button */}
+        {onFlee ? (
+          <Pressable
+            onPress={onFlee}
+            style={{
+              paddingHorizontal: 10,
+              paddingVertical: 4,
+              borderRadius: 6,
+              backgroundColor: `${colors.combatDamage}22`,
+              borderWidth: 1,
+              borderColor: `${colors.combatDamage}33`,
+            }}
+          >
+            <Typography
+              variant="bodySm"
+              style={{ color: colors.riskyBadgeText, fontWeight: '700' }}
+            >
+              🏃
+            </Typography>
+          </Pressable>
+        ) : null}
       </Stack>
 
-      {/* Flee button */}
-      <Pressable
-        onPress={onFlee}
-        style={{
-          paddingHorizontal: 10,
-          paddingVertical: 4,
-          borderRadius: 6,
-          backgroundColor: `${colors.combatDamage}22`,
-          borderWidth: 1,
-          borderColor: `${colors.combatDamage}33`,
-        }}
-      >
-        <Typography variant="bodySm" style={{ color: colors.riskyBadgeText, fontWeight: '700' }}>
-          🏃
-        </Typography>
-      </Pressable>
+      {/* Relics */}
+      <RelicRow relicIds={character?.relics ?? []} />
     </Stack>
   );
 };
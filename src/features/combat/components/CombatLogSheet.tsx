@@ -0,0 +1,204 @@
+import { useMemo } from 'react';
+import { Pressable, ScrollView } from 'react-native';
+import { BottomSheet, Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+import {
+  type BotDecisionReason,
+  getCardById,
+  getPotionById,
+  getRelicById,
+  isRelicId,
+  isStatusId,
+  STATUS_BY_ID,
+} from '@/features/gameConfig';
+import type { CombatEvent } from '@/types/combatEvent';
+import type { PlayerId } from '@/types/player';
+import type { EnemyCombatState } from '@/types/spellCombat';
+
+const KNOWN_SOURCES = ['convergence', 'team_convergence', 'lifesteal'];
+
+type CombatLogSheetProps = {
+  events: CombatEvent[];
+  enemies: EnemyCombatState[];
+  playerNames: Partial<Record<PlayerId, string>>;
+  onClose: () => void;
+};
+
+type TurnGroup = {
+  key: string;
+  turnNumber: number;
+  phase: CombatEvent['phase'];
+  events: CombatEvent[];
+};
+
+/** Consecutive events sharing a turn and phase form one group */
+const groupByTurn = (events: CombatEvent[]): TurnGroup[] => {
+  const groups: TurnGroup[] = [];
+  for (const event of events) {
+    const last = groups[groups.length - 1];
+    if (last && last.turnNumber === event.turnNumber && last.phase === event.phase) {
+      last.events.push(event);
+    } else {
+      groups.push({
+        key: `${event.turnNumber}-${event.phase}-${event.id}`,
+        turnNumber: event.turnNumber,
+        phase: event.phase,
+        events: [event],
+      });
+    }
+  }
+  return groups;
+};
+
+const CombatLogSheet = ({ events, enemies, playerNames, onClose }: CombatLogSheetProps) => {
+  const { t } = useTranslation();
+  const groups = useMemo(() => groupByTurn(events), [events]);
+
+  const enemyName = (id: string) => {
+    const nameKey = enemies.find((e) => e.id === id)?.name ?? '?';
+    const translated = t(`enemies.${nameKey}` as 'enemies.goule');
+    return translated.startsWith('enemies.') ? nameKey : translated || nameKey;
+  };
+
+  const actorName = (type: CombatEvent['actorType'], id: string) =>
+    type === 'enemy' ? enemyName(id) : (playerNames[id as PlayerId] ?? id);
+
+  const targetName = (event: CombatEvent) => {
+    if (!event.targetType) return '';
+    if (!event.targetId) {
+      return event.targetType === 'enemy' ? t('combat.log.allEnemies') : t('combat.log.party');
+    }
+    return actorName(event.targetType, event.targetId);
+  };
+
+  const sourceLabel = (event: CombatEvent) => {
+    if (event.cardId) return getCardById(event.cardId)?.name ?? event.cardId;
+    // A bot decision's source is its reason, already in the line
+    if (event.eventType === 'bot_decision') return null;
+    if (event.source && isStatusId(event.source)) return t(STATUS_BY_ID[event.source].labelKey);
+    if (event.source && isRelicId(event.source)) return getRelicById(event.source)?.name ?? null;
+    const potion = event.source ? getPotionById(event.source) : undefined;
+    if (potion) return potion.name;
+    if (event.source && KNOWN_SOURCES.includes(event.source)) {
+      return t(`combat.log.sources.${event.source}` as 'combat.log.sources.lifesteal');
+    }
+    return null;
+  };
+
+  const describe = (event: CombatEvent) => {
+    const actor = actorName(event.actorType, event.actorId);
+    const target = targetName(event);
+    const amount = event.finalAmount ?? 0;
+
+    switch (event.eventType) {
+      case 'damage': {
+        const line = t('combat.log.damage', { actor, target, amount });
+        return event.rawAmount !== null && event.rawAmount !== amount
+          ? `${line} ${t('combat.log.raw', { amount: event.rawAmount })}`
+          : line;
+      }
+      case 'block':
+        return t('combat.log.block', { actor, amount });
+      case 'heal':
+        return t('combat.log.heal', { target: target || actor, amount });
+      case 'self_damage':
+        return t('combat.log.selfDamage', { actor, amount });
+      case 'status': {
+        const statuses = Object.entries(event.statuses)
+          .map(([status, stacks]) => {
+            const label = isStatusId(status) ? t(STATUS_BY_ID[status].labelKey) : status;
+            return `${label} ${stacks}`;
+          })
+          .join(', ');
+        return t('combat.log.status', { actor, target, statuses });
+      }
+      case 'draw':
+        return t('combat.log.draw', { actor, amount });
+      case 'energy':
+        return t('combat.log.energy', { actor, amount });
+      case 'boss_phase':
+        return t('combat.log.bossPhase', { actor, phase: amount + 1 });
+      case 'timeout':
+        return t('combat.log.timeout', { actor, count: amount });
+      case 'bot_takeover':
+        return event.source === 'disconnect'
+          ? t('combat.log.botTakeoverDisconnect', { actor })
+          : t('combat.log.botTakeover', { actor });
+      case 'bot_decision': {
+        const reason = (event.source ?? 'fallback') as BotDecisionReason;
+        return t('combat.log.botDecision', {
+          actor,
+          why: t(`bots.why.${reason}`, { amount, target }),
+        });
+      }
+    }
+  };
+
+  return (
+    <BottomSheet
+      size="md"
+      style={{
+        maxHeight: '60%',
+        backgroundColor: colors.backgroundCombat,
+        borderColor: `${colors.intentConfirmedBorder}33`,
+      }}
+    >
+      <Stack direction="row" justify="space-between" align="center">
+        <Typography variant="body" bold style={{ color: colors.intentConfirmedBorder }}>
+          {t('combat.log.title')}
+        </Typography>
+        <Pressable onPress={onClose} hitSlop={8}>
+          <Typography variant="body" style={{ color: colors.combatHealthValue }}>
+            ✕
+          </Typography>
+        </Pressable>
+      </Stack>
+
+      <ScrollView contentContainerStyle={{ gap: 10, paddingBottom: 8 }}>
+        {groups.length === 0 ? (
+          <Typography variant="caption" style={{ color: colors.combatWaiting }}>
+            {t('combat.log.empty')}
+          </Typography>
+        ) : null}
+
+        {groups.map((group) => (
+          <Stack key={group.key} gap={4}>
+            <Typography
+              variant="micro"
+              bold
+              style={{
+                color: group.phase === 'enemy' ? colors.combatDamage : colors.intentConfirmedBorder,
+                letterSpacing: 1,
+              }}
+            >
+              {group.phase === 'enemy'
+                ? `${t('combat.log.turn', { turn: group.turnNumber })} · ${t('combat.log.enemyPhase')}`
+                : t('combat.log.turn', { turn: group.turnNumber })}
+            </Typography>
+            {group.events.map((event) => {
+              const source = sourceLabel(event);
+              return (
+                <Typography
+                  key={event.id}
+                  variant="caption"
+                  style={{
+                    color:
+                      event.eventType === 'bot_decision'
+                        ? colors.textSecondary
+                        : colors.combatHealthValue,
+                  }}
+                >
+                  {describe(event)}
+                  {source ? ` · ${source}` : ''}
+                </Typography>
+              );
+            })}
+          </Stack>
+        ))}
+      </ScrollView>
+    </BottomSheet>
+  );
+};
+
+export default CombatLogSheet;
@@ -1,11 +1,13 @@
 import type { RefCallback } from 'react';
-import { View } from 'react-native';
+import { Pressable, View } from 'react-native';
 import type { SharedValue } from 'react-native-reanimated';
 import Animated, { useAnimatedStyle } from 'react-native-reanimated';
 import { CircularHealthBar, Portrait, Stack, Typography } from '@/components';
 import { colors } from '@/constants/colors';
 import { useGame } from '@/contexts/GameContext';
+import { useTranslation } from '@/contexts/I18nContext';
 import FloatingDamage from '@/features/combat/components/FloatingDamage';
+import StatusEffectBadges from '@/features/combat/components/StatusEffectBadges';
 import type { PlayerId, RoleId } from '@/types/player';
 import { portraitByRole } from '@/utils/portraitByRole';
 
@@ -13,6 +15,7 @@ type CombatPlayer = {
   playerId: PlayerId;
   roleId: RoleId;
   displayName: string;
+  isBotControlled: boolean;
 };
 
 type FloatingText = {
@@ -35,6 +38,9 @@ type CombatPortraitStripProps = {
   onPlayerLayout: (x: number, y: number) => void;
   onPlayerPortraitRef: (playerId: PlayerId) => RefCallback<View>;
   floatingTexts: FloatingText[];
+  /** Ally chosen as the target of ally cards */
+  selectedAllyId: PlayerId | null;
+  onSelectAlly: (playerId: PlayerId) => void;
 };
 
 const RING_SIZE = 80;
@@ -42,6 +48,7 @@ const PORTRAIT_SIZE = 72;
 
 const ALLY_COLOR = colors.combatHeal;
 const LOCAL_COLOR = colors.intentConfirmedBorder;
+const TARGET_COLOR = colors.combatHeal;
 
 const CombatPortraitStrip = ({
   players,
@@ -55,8 +62,11 @@ const CombatPortraitStrip = ({
   onPlayerLayout,
   onPlayerPortraitRef,
   floatingTexts,
+  selectedAllyId,
+  onSelectAlly,
 }: CombatPortraitStripProps) => {
   const { roomConnection } = useGame();
+  const { t } = useTranslation();
 
   const lungeStyle = useAnimatedStyle(() => ({
     transform: [{ translateX: playerLungeX.value }, { translateY: playerLungeY.value }],
@@ -86,7 +96,11 @@ const CombatPortraitStrip = ({
           const hp = isLocal && localHpOverride !== null ? Math.max(0, localHpOverride) : serverHp;
           const isDead = hp <= 0;
           const hpPercent = hpMax > 0 ? hp / hpMax : 0;
-          const accentColor = isLocal ? LOCAL_COLOR : ALLY_COLOR;
+          const isSelected = player.playerId === selectedAllyId && !isDead;
+          const accentColor = isSelected ? TARGET_COLOR : isLocal ? LOCAL_COLOR : ALLY_COLOR;
+          const combatState = roomConnection.playerCombatStates.find(
+            (pcs) => pcs.playerId === player.playerId,
+          );
 
           return (
             <Stack
@@ -127,8 +141,10 @@ const CombatPortraitStrip = ({
                       : undefined
                 }
               >
-                <View
+                <Pressable
                   ref={onPlayerPortraitRef(player.playerId)}
+                  onPress={() => onSelectAlly(player.playerId)}
+                  disabled={isDead}
                   style={{
                     width: RING_SIZE,
                     height: RING_SIZE,
@@ -141,7 +157,7 @@ const CombatPortraitStrip = ({
                   <Portrait
                     source={portraitByRole(player.roleId)}
                     size={PORTRAIT_SIZE}
-                    highlighted={isLocal}
+                    highlighted={isLocal || isSelected}
                     highlightColor={accentColor}
                     hideName
                   />
@@ -161,7 +177,7 @@ const CombatPortraitStrip = ({
                       pointerEvents="none"
                     />
                   ) : null}
-                </View>
+                </Pressable>
               </Animated.View>
 
               {/* Player name */}
@@ -174,6 +190,16 @@ const CombatPortraitStrip = ({
               >
                 {player.displayName}
               </Typography>
+              {player.isBotControlled ? (
+                <Typography variant="micro" style={{ color: colors.combatHealthValue }}>
+                  🤖 {t('combat.botControlledMarker')}
+                </Typography>
+              ) : null}
+
+              {/* Status badges */}
+              {combatState && !isDead ? (
+                <StatusEffectBadges carrier={combatState} side="player" />
+              ) : null}
 
               {/* Local player indicator */}
               {isLocal ? (
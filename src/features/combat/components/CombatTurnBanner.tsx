@@ -1,14 +1,56 @@
-import { Stack, Typography } from '@/components';
+import { Pressable } from 'react-native';
+import { Button, Stack, Typography } from '@/components';
 import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
 import type { PlayerTurnState } from '@/types/combatTurn';
 
 type CombatTurnBannerProps = {
   turnPhase: string;
   turnNumber: number;
   playerTurnStates: PlayerTurnState[];
+  /** Seconds left in a timed player phase, null without a turn timer */
+  secondsLeft?: number | null;
+  /** The local seat is played by the bot after too many timeouts */
+  isBotControlled?: boolean;
+  onReclaimControl?: () => void;
+  onOpenLog?: () => void;
 };
 
-const CombatTurnBanner = ({ turnPhase, turnNumber }: CombatTurnBannerProps) => {
+/** Below this many seconds the countdown turns red */
+const TIMER_WARNING_SECONDS = 10;
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const LogButton = ({ onPress }: { onPress: () => void }) => (
+  <Pressable
+    onPress={onPress}
+    hitSlop={8}
+    style={{
+      position: 'absolute',
+      right: 12,
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 6,
+      backgroundColor: `${colors.intentConfirmedBorder}18`,
+      borderWidth: 1,
+      borderColor: `${colors.intentConfirmedBorder}33`,
+    }}
+  >
+    <Typography variant="caption">📜</Typography>
+  </Pressable>
+);
+
+const CombatTurnBanner = ({
+  turnPhase,
+  turnNumber,
+  secondsLeft = null,
+  isBotControlled = false,
+  onReclaimControl,
+  onOpenLog,
+}: CombatTurnBannerProps) => {
+  const { t } = useTranslation();
+
   if (turnPhase === 'enemy') {
     return (
       <Stack
@@ -25,28 +67,68 @@ const CombatTurnBanner = ({ turnPhase, turnNumber }: CombatTurnBannerProps) => {
         <Typography variant="caption" bold style={{ color: colors.combatDamage, letterSpacing: 1 }}>
           Enemy Phase
         </Typography>
+        {onOpenLog ? <LogButton onPress={onOpenLog} /> : null}
       </Stack>
     );
   }
 
   return (
-    <Stack
-      direction="row"
-      justify="center"
-      align="center"
-      style={{
-        paddingHorizontal: 16,
-        paddingVertical: 6,
-        marginHorizontal: 12,
-      }}
-    >
-      <Typography
-        variant="caption"
-        bold
-        style={{ color: colors.intentConfirmedBorder, letterSpacing: 0.5 }}
+    <Stack gap={4}>
+      <Stack
+        direction="row"
+        justify="center"
+        align="center"
+        gap={8}
+        style={{
+          paddingHorizontal: 16,
+          paddingVertical: 6,
+          marginHorizontal: 12,
+        }}
       >
-        Turn {turnNumber}
-      </Typography>
+        <Typography
+          variant="caption"
+          bold
+          style={{ color: colors.intentConfirmedBorder, letterSpacing: 0.5 }}
+        >
+          Turn {turnNumber}
+        </Typography>
+        {secondsLeft !== null ? (
+          <Typography
+            variant="caption"
+            bold
+            style={{
+              color:
+                secondsLeft <= TIMER_WARNING_SECONDS
+                  ? colors.combatDamage
+                  : colors.combatHealthValue,
+            }}
+          >
+            ⏱ {formatCountdown(secondsLeft)}
+          </Typography>
+        ) : null}
+        {onOpenLog ? <LogButton onPress={onOpenLog} /> : null}
+      </Stack>
+      {isBotControlled ? (
+        <Stack
+          direction="row"
+          justify="center"
+          align="center"
+          gap={8}
+          style={{
+            paddingVertical: 4,
+            marginHorizontal: 12,
+            borderRadius: 6,
+            backgroundColor: `${colors.intentConfirmedBorder}15`,
+          }}
+        >
+          <Typography variant="caption" style={{ color: colors.combatHealthValue }}>
+            🤖 {t('combat.botControlled')}
+          </Typography>
+          {onReclaimControl ? (
+            <Button size="xs" label={t('combat.reclaimControl')} onPress={onReclaimControl} />
+          ) : null}
+        </Stack>
+      ) : null}
     </Stack>
   );
 };
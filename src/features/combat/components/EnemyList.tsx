@@ -7,8 +7,12 @@ import { CircularHealthBar, Portrait, Stack, Typography } from '@/components';
 import { colors } from '@/constants/colors';
 import { useTranslation } from '@/contexts/I18nContext';
 import FloatingDamage from '@/features/combat/components/FloatingDamage';
+import StatusEffectBadges from '@/features/combat/components/StatusEffectBadges';
 import useDyingEnemies from '@/features/combat/hooks/useDyingEnemies';
-import { getEnemyTemplate } from '@/features/gameConfig';
+import { getIntentTargetRule, previewEnemyIntent } from '@/features/combat/utils/combatRules';
+import type { StatusCarrier } from '@/features/combat/utils/getStatusStacks';
+import { type EnemyIntentType, getEnemyTemplate, getIntentPattern } from '@/features/gameConfig';
+import type { PlayerId } from '@/types/player';
 
 const VISIBLE_COUNT = 3;
 const DEATH_ANIM_MS = 600;
@@ -31,17 +35,23 @@ type EnemyData = {
   position: number;
   templateId?: string;
   intentIndex?: number;
+  phase?: number;
+  strength?: number;
+  weakened?: number;
+  strengthDown?: number;
+  targetPlayerId?: PlayerId | null;
+  statuses?: StatusCarrier;
 };
 
-const INTENT_DISPLAY: Record<number, { icon: string; label: string; color: string }> = {
-  0: { icon: '⚔️', label: 'Attack', color: colors.combatDamage },
-  1: { icon: '🛡️', label: 'Defend', color: '#5b9bd5' },
-  2: { icon: '💪', label: 'Buff', color: colors.combatAbilityBuff },
-  3: { icon: '💥', label: 'Heavy', color: colors.combatDamage },
-  4: { icon: '⚔️⚔️', label: 'Multi', color: colors.combatDamage },
-  5: { icon: '🩸', label: 'Debuff', color: '#b35b4a' },
-  6: { icon: '🔥', label: 'Charge', color: colors.combatAbilityBuff },
-  7: { icon: '✨', label: 'Special', color: colors.intentConfirmedBorder },
+const INTENT_COLORS: Record<EnemyIntentType, string> = {
+  attack: colors.combatDamage,
+  heavy_attack: colors.combatDamage,
+  defend: '#5b9bd5',
+  buff: colors.combatAbilityBuff,
+  debuff: '#b35b4a',
+  charge_attack: colors.combatAbilityBuff,
+  multi_hit: colors.combatDamage,
+  lifesteal: colors.intentConfirmedBorder,
 };
 
 type EnemyListProps = {
@@ -56,6 +66,10 @@ type EnemyListProps = {
   onEnemyLayout: (enemyId: string, x: number, y: number) => void;
   onEnemyPortraitRef: (enemyId: string) => RefCallback<View>;
   floatingTexts: FloatingText[];
+  localPlayerId?: PlayerId | null;
+  playerNames?: Partial<Record<PlayerId, string>>;
+  /** Vulnerable stacks per player, so intent damage shows what the target would take */
+  playerVulnerable?: Partial<Record<PlayerId, number>>;
 };
 
 const DyingPortrait = ({ nameKey }: { nameKey: string }) => {
@@ -106,6 +120,9 @@ const EnemyList = ({
   onEnemyLayout,
   onEnemyPortraitRef,
   floatingTexts,
+  localPlayerId = null,
+  playerNames = {},
+  playerVulnerable = {},
 }: EnemyListProps) => {
   const { t } = useTranslation();
   const { dyingEnemies, aliveEnemies } = useDyingEnemies(enemiesProp);
@@ -232,39 +249,123 @@ const EnemyList = ({
                   {translateName(enemy.name)}
                 </Typography>
 
+                {/* Status badges */}
+                {enemy.statuses ? (
+                  <StatusEffectBadges carrier={enemy.statuses} side="enemy" />
+                ) : null}
+
+                {/* Boss phase */}
+                {(() => {
+                  const phaseCount = enemy.templateId
+                    ? (getEnemyTemplate(enemy.templateId)?.phases?.length ?? 0)
+                    : 0;
+                  return phaseCount > 0 ? (
+                    <Typography
+                      variant="micro"
+                      style={{ color: colors.combatAbilityBuff, fontWeight: '700', fontSize: 8 }}
+                    >
+                      {t('combat.bossPhaseOf', {
+                        phase: (enemy.phase ?? 0) + 1,
+                        total: phaseCount + 1,
+                      })}
+                    </Typography>
+                  ) : null;
+                })()}
+
                 {/* Intent display */}
                 {(() => {
                   const template = enemy.templateId
                     ? getEnemyTemplate(enemy.templateId)
                     : undefined;
+                  const pattern = template ? getIntentPattern(template, enemy.phase) : undefined;
                   const intentCode =
-                    template && enemy.intentIndex !== undefined
-                      ? template.intentPattern[enemy.intentIndex % template.intentPattern.length]
+                    pattern && enemy.intentIndex !== undefined
+                      ? pattern[enemy.intentIndex % pattern.length]
                       : undefined;
-                  const intent = intentCode !== undefined ? INTENT_DISPLAY[intentCode] : undefined;
+                  const targetRule =
+                    intentCode !== undefined
+                      ? getIntentTargetRule(enemy.templateId, intentCode)
+                      : null;
+                  const targetId = enemy.targetPlayerId ?? null;
+                  const previewPlayerId = targetId ?? localPlayerId;
+                  const intent =
+                    intentCode !== undefined
+                      ? previewEnemyIntent(
+                          intentCode,
+                          {
+                            templateId: enemy.templateId,
+                            strength: enemy.strength ?? 0,
+                            weakened: enemy.weakened ?? 0,
+                            strengthDown: enemy.strengthDown ?? 0,
+                          },
+                          previewPlayerId ? (playerVulnerable[previewPlayerId] ?? 0) : 0,
+                        )
+                      : null;
+                  const intentColor = intent ? INTENT_COLORS[intent.type] : colors.combatDamage;
+                  const targetLabel =
+                    targetRule === 'party'
+                      ? t('combat.targetParty')
+                      : targetId === null
+                        ? null
+                        : targetId === localPlayerId
+                          ? t('combat.targetYou')
+                          : (playerNames[targetId] ?? targetId);
+                  const damageLabel =
+                    intent?.damagePerHit != null
+                      ? intent.hits > 1
+                        ? `${intent.damagePerHit}×${intent.hits}`
+                        : `${intent.damagePerHit}`
+                      : null;
                   return intent ? (
-                    <Stack
-                      direction="row"
-                      gap={3}
-                      align="center"
-                      style={{
-                        paddingHorizontal: 6,
-                        paddingVertical: 1,
-                        borderRadius: 8,
-                        backgroundColor: `${intent.color}15`,
-                        borderWidth: 1,
-                        borderColor: `${intent.color}22`,
-                      }}
-                    >
-                      <Typography variant="micro" style={{ fontSize: 10 }}>
-                        {intent.icon}
-                      </Typography>
-                      <Typography
-                        variant="micro"
-                        style={{ color: intent.color, fontWeight: '700', fontSize: 8 }}
+                    <Stack align="center" gap={1}>
+                      <Stack
+                        direction="row"
+                        gap={3}
+                        align="center"
+                        style={{
+                          paddingHorizontal: 6,
+                          paddingVertical: 1,
+                          borderRadius: 8,
+                          backgroundColor: `${intentColor}15`,
+                          borderWidth: 1,
+                          borderColor: `${intentColor}22`,
+                        }}
                       >
-                        {intent.label}
-                      </Typography>
+                        <Typography variant="micro" style={{ fontSize: 10 }}>
+                          {intent.icon}
+                        </Typography>
+                        <Typography
+                          variant="micro"
+                          style={{ color: intentColor, fontWeight: '700', fontSize: 8 }}
+                        >
+                          {t(intent.labelKey)}
+                        </Typography>
+                        {damageLabel ? (
+                          <Typography
+                            variant="micro"
+                            style={{ color: colors.combatDamage, fontWeight: '800', fontSize: 8 }}
+                          >
+                            {damageLabel}
+                          </Typography>
+                        ) : null}
+                      </Stack>
+
+                      {/* Target badge */}
+                      {targetLabel ? (
+                        <Typography
+                          variant="micro"
+                          style={{
+                            color:
+                              targetId !== null && targetId === localPlayerId
+                                ? colors.combatDamage
+                                : colors.combatWaiting,
+                            fontWeight: '700',
+                            fontSize: 8,
+                          }}
+                        >
+                          🎯 {targetLabel}
+                        </Typography>
+                      ) : null}
                     </Stack>
                   ) : null;
                 })()}
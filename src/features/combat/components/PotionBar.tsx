@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Pressable, View } from 'react-native';
+import { Button, Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+import { getPotionById } from '@/features/gameConfig';
+
+type PotionBarProps = {
+  potions: string[];
+  slots: number;
+  disabled: boolean;
+  onUsePotion: (slot: number) => void;
+};
+
+/** Belt slots above the hand. Tapping a potion opens its description and a drink button. */
+const PotionBar = ({ potions, slots, disabled, onUsePotion }: PotionBarProps) => {
+  const { t } = useTranslation();
+  const [openSlot, setOpenSlot] = useState<number | null>(null);
+
+  if (slots === 0) return null;
+
+  const open = openSlot !== null ? getPotionById(potions[openSlot] ?? '') : undefined;
+  const color = colors.intentConfirmedBorder;
+
+  return (
+    <View style={{ alignItems: 'center' }}>
+      {open && openSlot !== null ? (
+        <Stack
+          gap={4}
+          style={{
+            position: 'absolute',
+            bottom: '100%',
+            marginBottom: 4,
+            width: 200,
+            padding: 8,
+            borderRadius: 6,
+            backgroundColor: colors.backgroundCombat,
+            borderWidth: 1,
+            borderColor: color,
+            zIndex: 10,
+          }}
+        >
+          <Typography variant="micro" bold style={{ color }}>
+            {open.icon} {open.name}
+          </Typography>
+          <Typography variant="micro" style={{ color: colors.combatHealthValue }}>
+            {open.description}
+          </Typography>
+          <Button
+            size="xs"
+            label={t('combat.drinkPotion')}
+            disabled={disabled}
+            onPress={() => {
+              setOpenSlot(null);
+              onUsePotion(openSlot);
+            }}
+          />
+        </Stack>
+      ) : null}
+
+      <Stack direction="row" gap={6} justify="center">
+        {Array.from({ length: slots }, (_, slot) => {
+          const potion = getPotionById(potions[slot] ?? '');
+          return (
+            <Pressable
+              key={slot}
+              disabled={!potion}
+              onPress={() => setOpenSlot((prev) => (prev === slot ? null : slot))}
+              hitSlop={4}
+              style={{
+                width: 28,
+                height: 28,
+                alignItems: 'center',
+                justifyContent: 'center',
+                borderRadius: 14,
+                backgroundColor: potion ? `${color}15` : 'transparent',
+                borderWidth: 1,
+                borderStyle: potion ? 'solid' : 'dashed',
+                borderColor: openSlot === slot ? color : `${color}33`,
+              }}
+            >
+              {potion ? <Typography variant="caption">{potion.icon}</Typography> : null}
+            </Pressable>
+          );
+        })}
+      </Stack>
+    </View>
+  );
+};
+
+export default PotionBar;
@@ -8,7 +8,7 @@ import { useTranslation } from '@/contexts/I18nContext';
 import { TRAIT_MAP } from '@/features/gameConfig';
 
 type RewardOption = {
-  type: 'add_card' | 'upgrade_card' | 'bonus';
+  type: 'add_card' | 'upgrade_card' | 'bonus' | 'relic';
   cardId?: string;
   name: string;
   description?: string;
@@ -25,6 +25,8 @@ type RewardData = {
   cardChoices: RewardOption[];
   upgradeChoices: RewardOption[];
   bonusChoices: RewardOption[];
+  /** One common relic after a fight, three boss relics after a boss */
+  relicChoices?: RewardOption[];
 };
 
 type RewardScreenProps = {
@@ -257,6 +259,15 @@ const RewardScreen = ({ onDone }: RewardScreenProps) => {
           selectedId={selectedId}
           onSelect={handleSelect}
         />
+
+        {rewards.relicChoices?.length ? (
+          <RewardSection
+            title={t('combat.relics')}
+            options={rewards.relicChoices}
+            selectedId={selectedId}
+            onSelect={handleSelect}
+          />
+        ) : null}
       </ScrollView>
 
       {/* Fixed bottom confirm */}
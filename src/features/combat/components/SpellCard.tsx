@@ -14,8 +14,10 @@ import Typography from '@/components/display/Typography';
 import Stack from '@/components/layout/Stack';
 import { colors } from '@/constants/colors';
 import { COMBAT } from '@/constants/combatSettings';
+import { useTranslation } from '@/contexts/I18nContext';
+import type { CardPreview } from '@/features/combat/utils/combatRules';
 import type { Card } from '@/features/gameConfig';
-import { getCardById, TRAIT_MAP } from '@/features/gameConfig';
+import { getCardById, hasKeyword, TRAIT_MAP } from '@/features/gameConfig';
 import type { DeckCardInstance } from '@/types/spellCombat';
 
 const CARD_HEIGHT = 135;
@@ -25,18 +27,22 @@ type CardViewProps = {
   instance: DeckCardInstance;
   traitCharge: number;
   canAfford: boolean;
+  /** Resolved numbers against the current target — falls back to the card's base values */
+  preview?: CardPreview;
   disabled?: boolean;
   onPress: () => void;
 };
 
-const getSubtitle = (card: Card, upgraded: boolean): string => {
+const getSubtitle = (card: Card, upgraded: boolean, preview?: CardPreview): string => {
   const parts: string[] = [];
-  const dmg = upgraded ? (card.upgradedDamage ?? card.baseDamage) : card.baseDamage;
-  const blk = upgraded ? (card.upgradedBlock ?? card.baseBlock) : card.baseBlock;
-  const heal = upgraded ? (card.upgradedHeal ?? card.baseHeal) : card.baseHeal;
-  const burn = upgraded ? (card.upgradedBurn ?? card.baseBurn) : card.baseBurn;
+  const baseDmg = upgraded ? (card.upgradedDamage ?? card.baseDamage) : card.baseDamage;
+  const dmg = preview && baseDmg ? preview.damage : baseDmg;
+  const blk =
+    preview?.block ?? (upgraded ? (card.upgradedBlock ?? card.baseBlock) : card.baseBlock);
+  const heal = preview?.heal ?? (upgraded ? (card.upgradedHeal ?? card.baseHeal) : card.baseHeal);
+  const burn = preview?.burn ?? (upgraded ? (card.upgradedBurn ?? card.baseBurn) : card.baseBurn);
 
-  if (dmg && dmg > 0) parts.push(`${dmg} DMG${card.isAoe ? ' AOE' : ''}`);
+  if (baseDmg && baseDmg > 0) parts.push(`${dmg} DMG${card.isAoe ? ' AOE' : ''}`);
   if (blk && blk > 0) parts.push(`${blk} BLK`);
   if (heal && heal > 0) parts.push(`${heal} HEAL`);
   if (burn && burn > 0) parts.push(`${burn} BURN`);
@@ -48,15 +54,17 @@ const CardView = ({
   instance,
   traitCharge,
   canAfford,
+  preview,
   disabled = false,
   onPress,
 }: CardViewProps) => {
+  const { t } = useTranslation();
   const card = getCardById(instance.cardId);
 
   const isAmplified = traitCharge >= COMBAT.empowerThreshold;
   const traitMeta = card ? TRAIT_MAP[card.trait] : null;
   const traitColor = traitMeta?.color ?? colors.tabBorder;
-  const isDisabled = disabled || !canAfford || !card;
+  const isDisabled = disabled || !canAfford || !card || hasKeyword(card, 'unplayable');
 
   const scale = useSharedValue(1);
   const brightness = useSharedValue(0);
@@ -187,8 +195,23 @@ const CardView = ({
                 }}
                 numberOfLines={1}
               >
-                {getSubtitle(card, instance.upgraded)}
+                {getSubtitle(card, instance.upgraded, preview)}
               </Typography>
+
+              {card.keywords?.length ? (
+                <Typography
+                  variant="micro"
+                  style={{
+                    color: colors.textSecondary,
+                    fontStyle: 'italic',
+                    fontSize: 6,
+                    textAlign: 'center',
+                  }}
+                  numberOfLines={1}
+                >
+                  {card.keywords.map((keyword) => t(`cardKeywords.${keyword}`)).join(' · ')}
+                </Typography>
+              ) : null}
             </Stack>
 
             {/* Bottom: trait icon — always pinned to bottom */}
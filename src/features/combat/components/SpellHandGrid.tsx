@@ -6,15 +6,26 @@ import { COMBAT } from '@/constants/combatSettings';
 import { useTranslation } from '@/contexts/I18nContext';
 import SchoolChargeBar from '@/features/combat/components/SchoolChargeBar';
 import CardView from '@/features/combat/components/SpellCard';
-import { getCardById, getIdentityById, getSchoolsForRole } from '@/features/gameConfig';
+import { previewCard } from '@/features/combat/utils/combatRules';
+import {
+  type Card,
+  getCardById,
+  getIdentityById,
+  getSchoolsForRole,
+  hasKeyword,
+} from '@/features/gameConfig';
 import type { RoleId } from '@/types/player';
-import type { PlayerCombatState } from '@/types/spellCombat';
+import type { EnemyCombatState, PlayerCombatState } from '@/types/spellCombat';
 
 const VISIBLE_HAND_SIZE = 4;
 
 type CardHandGridProps = {
   combatState: PlayerCombatState;
   roleId: RoleId;
+  hp: number;
+  hpMax: number;
+  /** Alive enemies in position order, used for damage previews */
+  enemies: EnemyCombatState[];
   disabled?: boolean;
   hideCards?: boolean;
   onPlayCard: (handIndex: number, targetEnemyIdx?: number | null) => void;
@@ -28,6 +39,9 @@ type CardHandGridProps = {
 const CardHandGrid = ({
   combatState,
   roleId,
+  hp,
+  hpMax,
+  enemies,
   disabled = false,
   hideCards = false,
   onPlayCard,
@@ -72,6 +86,12 @@ const CardHandGrid = ({
   ).length;
   const canConverge = empoweredCount >= COMBAT.convergenceRequiredTraits;
 
+  // Only damage cards send the selected enemy; the server falls back to the first alive one
+  const targetIdxFor = useCallback(
+    (card: Card) => (card.baseDamage && card.baseDamage > 0 ? selectedEnemyIdx : null),
+    [selectedEnemyIdx],
+  );
+
   const handleCardPress = useCallback(
     (handIndex: number) => {
       if (playLockRef.current) return;
@@ -79,12 +99,12 @@ const CardHandGrid = ({
       const instance = combatState.hand[handIndex];
       if (!instance) return;
       const card = getCardById(instance.cardId);
-      if (!card || combatState.energy < card.cost) return;
+      if (!card || combatState.energy < card.cost || hasKeyword(card, 'unplayable')) return;
 
       playLockRef.current = true;
       setLocalPlayedIndices((prev) => [...prev, handIndex]);
 
-      onPlayCard(handIndex, card.baseDamage && card.baseDamage > 0 ? selectedEnemyIdx : null);
+      onPlayCard(handIndex, targetIdxFor(card));
 
       // Safety: unlock after 1.5s in case server response is slow
       const timer = setTimeout(() => {
@@ -92,7 +112,7 @@ const CardHandGrid = ({
       }, 1500);
       return () => clearTimeout(timer);
     },
-    [combatState, localPlayedIndices, selectedEnemyIdx, onPlayCard],
+    [combatState, localPlayedIndices, targetIdxFor, onPlayCard],
   );
 
   // Schools for this character's role
@@ -130,6 +150,16 @@ const CardHandGrid = ({
                 instance={instance}
                 traitCharge={combatState.traitCharges[card.trait] ?? 0}
                 canAfford={combatState.energy >= card.cost}
+                preview={previewCard(card, instance.upgraded, {
+                  amplified: (combatState.traitCharges[card.trait] ?? 0) >= COMBAT.empowerThreshold,
+                  weakened: combatState.weakened > 0,
+                  frail: combatState.frail > 0,
+                  hp,
+                  hpMax,
+                  // Same target the server picks: the alive enemy at the sent index, or none
+                  target: enemies[targetIdxFor(card) ?? 0] ?? null,
+                  enemies,
+                })}
                 disabled={disabled}
                 onPress={() => handleCardPress(idx)}
               />
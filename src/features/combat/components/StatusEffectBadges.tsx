@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Pressable, View } from 'react-native';
+import { Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+import { getStatusStacks, type StatusCarrier } from '@/features/combat/utils/getStatusStacks';
+import { getStatusesForSide, type StatusId, type StatusSide } from '@/features/gameConfig';
+
+const BUFF_COLOR = colors.combatHeal;
+const DEBUFF_COLOR = colors.combatDamage;
+
+type StatusEffectBadgesProps = {
+  carrier: StatusCarrier;
+  side: StatusSide;
+};
+
+/** Active statuses as icon + stacks chips. Tapping a chip toggles its tooltip. */
+const StatusEffectBadges = ({ carrier, side }: StatusEffectBadgesProps) => {
+  const { t } = useTranslation();
+  const [openId, setOpenId] = useState<StatusId | null>(null);
+
+  const active = getStatusesForSide(side)
+    .map((status) => ({ status, stacks: getStatusStacks(carrier, status.id) }))
+    .filter(({ stacks }) => stacks !== 0);
+
+  if (active.length === 0) return null;
+
+  const open = active.find(({ status }) => status.id === openId);
+
+  return (
+    <View style={{ alignItems: 'center' }}>
+      <Stack direction="row" gap={2} justify="center" style={{ flexWrap: 'wrap', maxWidth: 96 }}>
+        {active.map(({ status, stacks }) => {
+          const color = status.kind === 'buff' ? BUFF_COLOR : DEBUFF_COLOR;
+          return (
+            <Pressable
+              key={status.id}
+              onPress={() => setOpenId((prev) => (prev === status.id ? null : status.id))}
+              hitSlop={4}
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                gap: 1,
+                paddingHorizontal: 3,
+                borderRadius: 6,
+                backgroundColor: `${color}15`,
+                borderWidth: 1,
+                borderColor: openId === status.id ? color : `${color}33`,
+              }}
+            >
+              <Typography variant="micro" style={{ fontSize: 9 }}>
+                {status.icon}
+              </Typography>
+              <Typography variant="micro" style={{ color, fontWeight: '800', fontSize: 8 }}>
+                {stacks}
+              </Typography>
+            </Pressable>
+          );
+        })}
+      </Stack>
+
+      {open ? (
+        <Pressable
+          onPress={() => setOpenId(null)}
+          style={{
+            position: 'absolute',
+            bottom: '100%',
+            marginBottom: 4,
+            width: 140,
+            padding: 6,
+            gap: 2,
+            borderRadius: 6,
+            backgroundColor: colors.backgroundCombat,
+            borderWidth: 1,
+            borderColor: open.status.kind === 'buff' ? BUFF_COLOR : DEBUFF_COLOR,
+            zIndex: 10,
+          }}
+        >
+          <Typography
+            variant="micro"
+            bold
+            style={{ color: open.status.kind === 'buff' ? BUFF_COLOR : DEBUFF_COLOR }}
+          >
+            {open.status.icon} {t(open.status.labelKey)} {open.stacks}
+          </Typography>
+          <Typography variant="micro" style={{ color: colors.combatHealthValue }}>
+            {t(open.status.descriptionKey)}
+          </Typography>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+};
+
+export default StatusEffectBadges;
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  type BiomePhase,
+  type BossPhaseAction,
+  getBossIntro,
+  getBossPhases,
+  getEnemyTemplate,
+} from '@/features/gameConfig';
+import type { EnemyCombatState } from '@/types/spellCombat';
+
+const BANNER_MS = 2800;
+
+type BossAnnouncement =
+  | { kind: 'intro'; bossName: string; text: string }
+  | { kind: 'fight'; theme: string; text: string }
+  | { kind: 'phase'; enemyName: string; phase: number; actions: BossPhaseAction[] };
+
+type UseBossPhaseBannerParams = {
+  enemies: EnemyCombatState[];
+  /** bossId of the boss_fight screen, undefined for regular fights */
+  bossId: string | undefined;
+  /** bossName of the boss_fight screen, shown on its intro */
+  bossName: string | undefined;
+  turnNumber: number;
+  /** Biome phase of the screen, whose combatIntro opens regular fights */
+  biomePhase: BiomePhase | undefined;
+  /** rooms.ascension, which can add a boss phase */
+  ascension: number;
+};
+
+/**
+ * Announces the biome's fight intro at the start of a regular fight, the boss intro at the start
+ * of a boss fight and every boss phase transition after.
+ * Phases already reached when the screen mounts (e.g. after a reconnect) are not replayed.
+ */
+const useBossPhaseBanner = ({
+  enemies,
+  bossId,
+  bossName,
+  turnNumber,
+  biomePhase,
+  ascension,
+}: UseBossPhaseBannerParams) => {
+  const [announcement, setAnnouncement] = useState<BossAnnouncement | null>(null);
+  const prevPhasesRef = useRef<Record<string, number> | null>(null);
+  const introShownRef = useRef(false);
+
+  useEffect(() => {
+    if (introShownRef.current || turnNumber !== 1) return;
+    if (bossId) {
+      introShownRef.current = true;
+      const text = getBossIntro(bossId);
+      if (text) setAnnouncement({ kind: 'intro', bossName: bossName ?? bossId, text });
+    } else if (biomePhase) {
+      introShownRef.current = true;
+      setAnnouncement({ kind: 'fight', theme: biomePhase.theme, text: biomePhase.combatIntro });
+    }
+  }, [bossId, bossName, biomePhase, turnNumber]);
+
+  useEffect(() => {
+    if (enemies.length === 0) return;
+    const prevPhases = prevPhasesRef.current;
+    prevPhasesRef.current = Object.fromEntries(enemies.map((e) => [e.id, e.phase]));
+    if (!prevPhases) return;
+
+    for (const enemy of enemies) {
+      const prevPhase = prevPhases[enemy.id];
+      if (prevPhase === undefined || enemy.phase <= prevPhase) continue;
+      const template = getEnemyTemplate(enemy.templateId);
+      const phases = template ? getBossPhases(template, ascension) : [];
+      setAnnouncement({
+        kind: 'phase',
+        enemyName: enemy.name,
+        phase: enemy.phase,
+        // Skipped phases still fired their actions server-side
+        actions: phases.slice(prevPhase, enemy.phase).flatMap((p) => p.actions),
+      });
+    }
+  }, [enemies, ascension]);
+
+  useEffect(() => {
+    if (!announcement) return;
+    const timer = setTimeout(() => setAnnouncement(null), BANNER_MS);
+    return () => clearTimeout(timer);
+  }, [announcement]);
+
+  return { announcement, dismiss: () => setAnnouncement(null) };
+};
+
+export type { BossAnnouncement };
+export default useBossPhaseBanner;
@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { scheduleCallback } from '@/features/combat/utils/scheduleCallback';
+import type { BotDecisionReason } from '@/features/gameConfig';
 import type { PlayerId } from '@/types/player';
 
 const BOT_INITIAL_DELAY = 2000;
@@ -14,6 +15,8 @@ type BotAction = {
   damage?: number;
   targetId?: string;
   target?: string;
+  /** Why the bot's policy picked this action; also logged as a bot_decision combat event */
+  reason?: BotDecisionReason;
 };
 
 type PlayBotActionFn = (botPlayerId: PlayerId, action: BotAction) => void;
@@ -36,7 +39,12 @@ const useBotAI = ({
   playBotAction,
   onBotSkip,
 }: UseBotAIParams) => {
-  const triggeredTurnRef = useRef<number>(0);
+  // Bots already run this turn; seats handed to the bot mid-turn join the queue
+  const ranRef = useRef<{ turnNumber: number; botIds: Set<PlayerId> }>({
+    turnNumber: 0,
+    botIds: new Set(),
+  });
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
   const currentTurnRef = useRef<number>(0);
   const currentPhaseRef = useRef<string>('player');
 
@@ -45,8 +53,13 @@ const useBotAI = ({
 
   useEffect(() => {
     if (turnPhase !== 'player' || botPlayerIds.length === 0) return;
-    if (triggeredTurnRef.current === turnNumber) return;
-    triggeredTurnRef.current = turnNumber;
+    if (ranRef.current.turnNumber !== turnNumber) {
+      ranRef.current = { turnNumber, botIds: new Set() };
+    }
+    const ran = ranRef.current.botIds;
+    const newBotIds = botPlayerIds.filter((botId) => !ran.has(botId));
+    if (newBotIds.length === 0) return;
+    for (const botId of newBotIds) ran.add(botId);
 
     const capturedTurn = turnNumber;
 
@@ -54,7 +67,7 @@ const useBotAI = ({
     const runBotsSequentially = async () => {
       await new Promise((r) => scheduleCallback(BOT_INITIAL_DELAY, r as () => void));
 
-      for (const botId of botPlayerIds) {
+      for (const botId of newBotIds) {
         // Check phase hasn't changed
         if (currentTurnRef.current !== capturedTurn || currentPhaseRef.current !== 'player') break;
 
@@ -102,7 +115,7 @@ const useBotAI = ({
       }
     };
 
-    void runBotsSequentially();
+    queueRef.current = queueRef.current.then(runBotsSequentially);
   }, [turnPhase, turnNumber, botPlayerIds, combatBotTurn, playBotAction, onBotSkip]);
 };
 
@@ -69,6 +69,8 @@ interface CombatAnimations {
     spellName?: string,
     options?: BotActionOptions,
   ) => void;
+  playAllySupport: (targetPlayerId: string, heal: number, block: number) => void;
+  playTeamConvergence: (name: string, damage: number, options?: BotActionOptions) => void;
   playEnemyPhase: (attacks: EnemyAttackInfo[], currentHp: number) => void;
 }
 
@@ -320,6 +322,36 @@ const useCombatAnimations = (): CombatAnimations => {
     [enemyFlash, enemyShake, screenFlash, addFloating, triggerScreenFlash],
   );
 
+  const playTeamConvergence = useCallback(
+    (name: string, damage: number, options?: BotActionOptions) => {
+      const impactDelayMs = options?.impactDelayMs ?? 0;
+      addFloating(`⚔️ ${name}`, colors.intentConfirmedBorder, 'player');
+
+      // Lands once every converger's projectile has hit
+      setScreenFlashColor(colors.screenFlashConvergence);
+      screenFlash.value = withDelay(
+        impactDelayMs,
+        withSequence(withTiming(1, { duration: 100 }), withTiming(0, { duration: 700 })),
+      );
+      enemyShake.value = withDelay(
+        impactDelayMs,
+        withSequence(
+          withTiming(16, { duration: SHAKE_STEP }),
+          withTiming(-16, { duration: SHAKE_STEP }),
+          withTiming(12, { duration: SHAKE_STEP }),
+          withTiming(-12, { duration: SHAKE_STEP }),
+          withTiming(0, { duration: SHAKE_STEP }),
+        ),
+      );
+      if (damage > 0) {
+        scheduleCallback(impactDelayMs + 150, () => {
+          addFloating(`${name} -${damage}`, colors.intentConfirmedBorder, 'enemy');
+        });
+      }
+    },
+    [enemyShake, screenFlash, addFloating],
+  );
+
   const playSingleEnemyAttack = useCallback(
     (enemyId: string, damage: number, direction: LungeDirection) => {
       setAttackingEnemyId(enemyId);
@@ -442,6 +474,17 @@ const useCombatAnimations = (): CombatAnimations => {
     [enemyShake, botLunge, addFloating],
   );
 
+  /** Heal/block a card gave to another party member, floated over their portrait */
+  const playAllySupport = useCallback(
+    (targetPlayerId: string, heal: number, block: number) => {
+      if (heal > 0) addFloating(`+${heal}`, colors.combatHeal, 'player', targetPlayerId);
+      if (block > 0) {
+        addFloating(`+${block} 🛡`, colors.combatAbilityBuff, 'player', targetPlayerId);
+      }
+    },
+    [addFloating],
+  );
+
   return {
     playerLungeX,
     playerLungeY,
@@ -462,6 +505,8 @@ const useCombatAnimations = (): CombatAnimations => {
     playCastSpell,
     playConvergence,
     playBotAction,
+    playAllySupport,
+    playTeamConvergence,
     playEnemyPhase,
   };
 };
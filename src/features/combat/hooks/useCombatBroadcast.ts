@@ -6,8 +6,10 @@ import type { PlayerId } from '@/types/player';
 type CombatActionEvent = {
   playerId: PlayerId;
   playerName: string;
-  actionType: 'spell' | 'convergence';
+  actionType: 'spell' | 'convergence' | 'team_convergence';
   damage: number;
+  /** team_convergence: the player paired with the caster */
+  partnerId?: PlayerId;
   spellId?: string;
   spellName?: string;
   targetEnemyId?: string | null;
@@ -1,54 +1,71 @@
 import { useEffect, useRef } from 'react';
+import type { CombatEvent } from '@/types/combatEvent';
+import type { CombatTurn } from '@/types/combatTurn';
+import type { PlayerId } from '@/types/player';
 
 type LungeDirection = { x: number; y: number };
 type EnemyAttackInfo = { enemyId: string; damage: number; direction: LungeDirection };
 
 type UseCombatTurnPhaseParams = {
-  isHost: boolean;
-  turnPhase: string;
+  combatTurn: CombatTurn | null;
+  combatEvents: CombatEvent[];
+  localPlayerId: PlayerId | null;
   localHp: number;
-  combatEnemyPhase: () => Promise<unknown>;
   playEnemyPhase: (attacks: EnemyAttackInfo[], currentHp: number) => void;
   getDirectionForEnemy: (enemyId: string) => LungeDirection;
 };
 
+/**
+ * Replays each enemy phase from the combat log. The server resolves the phase as soon as the
+ * player phase ends, so a turn's enemy-phase events are complete once the next turn has started
+ * (or the fight is resolved) in the same snapshot. Phases finished before mount are not replayed.
+ */
 const useCombatTurnPhase = ({
-  isHost,
-  turnPhase,
+  combatTurn,
+  combatEvents,
+  localPlayerId,
   localHp,
-  combatEnemyPhase,
   playEnemyPhase,
   getDirectionForEnemy,
 }: UseCombatTurnPhaseParams) => {
-  const enemyPhaseTriggeredRef = useRef(false);
+  const replayedRef = useRef<{ combatTurnId: string; turnNumber: number } | null>(null);
 
   useEffect(() => {
-    if (turnPhase !== 'enemy') {
-      enemyPhaseTriggeredRef.current = false;
+    if (!combatTurn) return;
+    // Victory and party wipes keep the turn number of the last enemy phase
+    const completedTurn =
+      combatTurn.phase === 'resolved' ? combatTurn.turnNumber : combatTurn.turnNumber - 1;
+    const replayed = replayedRef.current;
+    if (replayed?.combatTurnId !== combatTurn.id) {
+      // First snapshot of this fight
+      replayedRef.current = { combatTurnId: combatTurn.id, turnNumber: completedTurn };
+      return;
     }
-  }, [turnPhase]);
+    if (completedTurn <= replayed.turnNumber) return;
+    replayed.turnNumber = completedTurn;
 
-  useEffect(() => {
-    if (!isHost || turnPhase !== 'enemy' || enemyPhaseTriggeredRef.current) return;
-    enemyPhaseTriggeredRef.current = true;
-    void combatEnemyPhase()
-      .then((result) => {
-        if (result) {
-          const r = result as { attacks: { enemyId: string; damage?: number; type?: string }[] };
-          const attacks = (r.attacks ?? [])
-            .filter((a) => a.enemyId && (a.damage ?? 0) > 0)
-            .map((a) => ({
-              enemyId: a.enemyId,
-              damage: a.damage ?? 0,
-              direction: getDirectionForEnemy(a.enemyId),
-            }));
-          playEnemyPhase(attacks, localHp);
-        }
-      })
-      .catch((err) => {
-        console.error('combat_enemy_phase failed:', err);
-      });
-  }, [isHost, turnPhase, localHp, combatEnemyPhase, playEnemyPhase, getDirectionForEnemy]);
+    const hits = combatEvents.filter(
+      (e) =>
+        e.phase === 'enemy' &&
+        e.turnNumber === completedTurn &&
+        e.eventType === 'damage' &&
+        e.actorType === 'enemy' &&
+        e.targetType === 'player' &&
+        (e.finalAmount ?? 0) > 0,
+    );
+    if (hits.length === 0) return;
+
+    const attacks = hits.map((e) => ({
+      enemyId: e.actorId,
+      damage: e.finalAmount ?? 0,
+      direction: getDirectionForEnemy(e.actorId),
+    }));
+    // The snapshot already holds the post-attack HP; rewind it for the animation
+    const damageTaken = hits
+      .filter((e) => e.targetId === localPlayerId)
+      .reduce((sum, e) => sum + (e.finalAmount ?? 0), 0);
+    playEnemyPhase(attacks, localHp + damageTaken);
+  }, [combatTurn, combatEvents, localPlayerId, localHp, playEnemyPhase, getDirectionForEnemy]);
 };
 
 export default useCombatTurnPhase;
@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+
+const TICK_MS = 1000;
+/** Retry delay when the server clock says the phase isn't over yet */
+const EXPIRE_RETRY_MS = 2000;
+
+type UsePhaseTimerParams = {
+  /** combat_turns.phase_deadline, null without a turn timer */
+  phaseDeadline: string | null;
+  turnPhase: string;
+  combatExpirePhase: () => Promise<unknown>;
+};
+
+/**
+ * Counts down to the player phase deadline and returns the seconds left (null when untimed).
+ * At zero every client asks the server to expire the phase; the server clock decides, so a
+ * client running ahead simply retries.
+ */
+const usePhaseTimer = ({ phaseDeadline, turnPhase, combatExpirePhase }: UsePhaseTimerParams) => {
+  const [now, setNow] = useState(() => Date.now());
+  const expireRef = useRef(combatExpirePhase);
+  expireRef.current = combatExpirePhase;
+
+  const deadlineMs = phaseDeadline && turnPhase === 'player' ? Date.parse(phaseDeadline) : null;
+
+  useEffect(() => {
+    if (deadlineMs === null) return;
+    let requested = false;
+    const retryLater = () =>
+      setTimeout(() => {
+        requested = false;
+      }, EXPIRE_RETRY_MS);
+
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (current < deadlineMs || requested) return;
+      requested = true;
+
+      void expireRef
+        .current()
+        .then((result) => {
+          if (!(result as { expired?: boolean } | undefined)?.expired) retryLater();
+        })
+        .catch((err) => {
+          console.error('combat_expire_phase failed:', err);
+          retryLater();
+        });
+    };
+
+    tick();
+    const timer = setInterval(tick, TICK_MS);
+    return () => clearInterval(timer);
+  }, [deadlineMs]);
+
+  return deadlineMs === null ? null : Math.max(0, Math.ceil((deadlineMs - now) / 1000));
+};
+
+export default usePhaseTimer;
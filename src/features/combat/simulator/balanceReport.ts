@@ -0,0 +1,129 @@
+/**
+ * Aggregates simulated fights into the balance report: the run summary, one row per card (and
+ * per convergence) and the CSV export of both.
+ */
+
+import type { CardContribution, FightResult } from '@/features/combat/simulator/simulateFight';
+import { getCardById } from '@/features/gameConfig';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type OutcomeStats = {
+  fights: number;
+  /** Percent of fights won */
+  winRate: number;
+  averageTurns: number;
+  averageDamageTaken: number;
+  averageHpLeftPercent: number;
+  averageDeaths: number;
+};
+
+type BalanceSummary = OutcomeStats & {
+  timeouts: number;
+  byEncounter: Record<string, OutcomeStats>;
+};
+
+type CardReportRow = CardContribution & {
+  id: string;
+  name: string;
+  trait: string;
+  /** Fights it was played in at least once */
+  fightsPlayed: number;
+  /** Percent of those fights that were won */
+  winRateWhenPlayed: number;
+  /** Damage dealt per play */
+  damagePerPlay: number;
+};
+
+// ─── Aggregation ────────────────────────────────────────────────
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const average = (fights: FightResult[], pick: (fight: FightResult) => number) =>
+  fights.length > 0 ? round(fights.reduce((sum, f) => sum + pick(f), 0) / fights.length) : 0;
+
+const outcomeStats = (fights: FightResult[]): OutcomeStats => ({
+  fights: fights.length,
+  winRate: average(fights, (f) => (f.outcome === 'victory' ? 100 : 0)),
+  averageTurns: average(fights, (f) => f.turns),
+  averageDamageTaken: average(fights, (f) => f.damageTaken),
+  averageHpLeftPercent: average(fights, (f) => f.hpLeftPercent),
+  averageDeaths: average(fights, (f) => f.deaths),
+});
+
+const summarizeFights = (fights: FightResult[]): BalanceSummary => {
+  const encounterIds = [...new Set(fights.map((f) => f.encounterId))].sort();
+
+  return {
+    ...outcomeStats(fights),
+    timeouts: fights.filter((f) => f.outcome === 'timeout').length,
+    byEncounter: Object.fromEntries(
+      encounterIds.map((id) => [id, outcomeStats(fights.filter((f) => f.encounterId === id))]),
+    ),
+  };
+};
+
+/** Per-card totals over every fight, most played first */
+const summarizeCards = (fights: FightResult[]): CardReportRow[] => {
+  const rows = new Map<string, CardReportRow>();
+
+  for (const fight of fights) {
+    for (const [id, contribution] of Object.entries(fight.cards)) {
+      const card = getCardById(id);
+      const row = rows.get(id) ?? {
+        id,
+        name: card?.name ?? id,
+        trait: card?.trait ?? '',
+        plays: 0,
+        damage: 0,
+        block: 0,
+        heal: 0,
+        support: 0,
+        dot: 0,
+        status: 0,
+        draw: 0,
+        energy: 0,
+        fightsPlayed: 0,
+        winRateWhenPlayed: 0,
+        damagePerPlay: 0,
+      };
+      row.plays += contribution.plays;
+      row.damage += contribution.damage;
+      row.block += contribution.block;
+      row.heal += contribution.heal;
+      row.support += contribution.support;
+      row.dot += contribution.dot;
+      row.status += contribution.status;
+      row.draw += contribution.draw;
+      row.energy += contribution.energy;
+      row.fightsPlayed++;
+      // Wins for now, turned into a rate below
+      if (fight.outcome === 'victory') row.winRateWhenPlayed++;
+      rows.set(id, row);
+    }
+  }
+
+  return [...rows.values()]
+    .map((row) => ({
+      ...row,
+      winRateWhenPlayed: round((row.winRateWhenPlayed * 100) / row.fightsPlayed),
+      damagePerPlay: round(row.damage / row.plays),
+    }))
+    .sort((a, b) => b.plays - a.plays || a.id.localeCompare(b.id));
+};
+
+// ─── CSV ────────────────────────────────────────────────────────
+
+const csvCell = (value: unknown): string => {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Rows of flat objects as CSV, with the columns in the given order */
+const toCsv = <T extends object>(rows: T[], columns: (keyof T & string)[]): string =>
+  [columns.join(','), ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(','))].join(
+    '\n',
+  );
+
+export type { BalanceSummary, CardReportRow, OutcomeStats };
+export { summarizeCards, summarizeFights, toCsv };
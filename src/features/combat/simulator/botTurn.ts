@@ -0,0 +1,262 @@
+/**
+ * Bot turns of the balance simulator: the same card scoring and play loop as the server's
+ * _bot_score_card and combat_bot_turn, so a simulated seat plays like a bot seat in a room.
+ */
+
+import { COMBAT } from '@/constants/combatSettings';
+import {
+  aliveEnemies,
+  allyRecipients,
+  convergencePayout,
+  enemyIntentDamage,
+  type FightState,
+  type PlayOutcome,
+  playCard,
+  playConvergence,
+  type SimEnemy,
+  type SimPlayer,
+} from '@/features/combat/simulator/fightEngine';
+import { cardAmount } from '@/features/combat/utils/combatRules';
+import {
+  type BotDecisionReason,
+  type BotDifficulty,
+  type BotPolicy,
+  type BotPolicyWeights,
+  getCardById,
+  hasKeyword,
+} from '@/features/gameConfig';
+import type { DeckCardInstance } from '@/types/spellCombat';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type ScoredCard = {
+  score: number;
+  reason: BotDecisionReason;
+  amount: number;
+};
+
+/** One bot action and what it did */
+type BotPlay = {
+  /** Card id, or 'convergence' / 'team_convergence' */
+  source: string;
+  reason: BotDecisionReason;
+  outcome: PlayOutcome;
+};
+
+type ScoreKey = Exclude<BotDecisionReason, 'empowered' | 'converge' | 'fallback'>;
+
+/** Same safety limit as combat_bot_turn */
+const MAX_ACTIONS = 10;
+
+// ─── Scoring ────────────────────────────────────────────────────
+
+/** Weighted outcomes of a card's top-level effects. SQL: _bot_score_card */
+const scoreCard = (
+  state: FightState,
+  player: SimPlayer,
+  instance: DeckCardInstance,
+  policy: BotPolicy,
+  difficulty: BotDifficulty,
+  target: SimEnemy,
+  incoming: number,
+): ScoredCard => {
+  const card = getCardById(instance.cardId);
+  if (!card) return { score: 0, reason: 'fallback', amount: 0 };
+
+  const effects =
+    instance.upgraded && card.upgradedEffects.length > 0 ? card.upgradedEffects : card.effects;
+  const charge = player.traitCharges[card.trait] ?? 0;
+  const isAmplified = charge >= COMBAT.empowerThreshold;
+  const alive = aliveEnemies(state).length;
+  const allies = (rule: 'ally' | 'any_ally' | 'all_allies') =>
+    allyRecipients(state, player, rule).filter((p) => p !== player);
+
+  const totals = {
+    damage: 0,
+    targetDamage: 0,
+    block: 0,
+    heal: 0,
+    support: 0,
+    dot: 0,
+    status: 0,
+    draw: 0,
+    energy: 0,
+  };
+
+  for (const effect of effects) {
+    let amount = 'amount' in effect ? effect.amount : 0;
+    const toAll = 'target' in effect && effect.target === 'all_enemies';
+
+    // The bot sees empowerment's bonus in proportion to its difficulty's empower skill
+    if (
+      effect.type === 'damage' ||
+      effect.type === 'block' ||
+      effect.type === 'heal' ||
+      (effect.type === 'apply_status' && (effect.status === 'burn' || effect.status === 'poison'))
+    ) {
+      const weakened = effect.type === 'damage' && player.weakened > 0;
+      const plain = cardAmount(amount, false, weakened);
+      amount =
+        plain +
+        Math.round((cardAmount(amount, isAmplified, weakened) - plain) * difficulty.empowerSkill);
+    }
+
+    switch (effect.type) {
+      case 'damage':
+        amount *= Math.max(1, effect.hits ?? 1);
+        totals.targetDamage += amount;
+        totals.damage += amount * (toAll ? alive : 1);
+        break;
+      case 'block': {
+        const rule = effect.target ?? 'self';
+        if (rule === 'self' || rule === 'all_allies') totals.block += amount;
+        if (rule !== 'self') totals.support += amount * allies(rule).length;
+        break;
+      }
+      case 'heal': {
+        const rule = effect.target ?? 'self';
+        if (rule === 'self' || rule === 'all_allies') {
+          totals.heal += Math.min(amount, player.hpMax - player.hp);
+        }
+        if (rule !== 'self') {
+          for (const ally of allies(rule)) totals.support += Math.min(amount, ally.hpMax - ally.hp);
+        }
+        break;
+      }
+      case 'apply_status':
+        if (effect.status === 'burn' || effect.status === 'poison') {
+          totals.dot += amount * (toAll ? alive : 1);
+        } else {
+          totals.status += amount * (toAll ? alive : 1);
+        }
+        break;
+      case 'gain_status':
+        totals.status += amount;
+        break;
+      case 'draw':
+        totals.draw += amount;
+        break;
+      case 'gain_energy':
+        totals.energy += amount;
+        break;
+    }
+  }
+
+  const w: BotPolicyWeights = policy.weights;
+  const lowHp = player.hp * 100 < player.hpMax * policy.lowHpPercent ? 2 : 1;
+  const blockNeeded = Math.max(0, incoming - player.block);
+
+  // Block past the incoming damage fades out as the difficulty's block skill goes up
+  const values: Record<ScoreKey, number> = {
+    lethal: totals.targetDamage >= target.hp + target.block ? w.kill : 0,
+    damage: totals.damage * w.damage,
+    block:
+      (Math.min(totals.block, blockNeeded) +
+        Math.max(0, totals.block - blockNeeded) * (1 - difficulty.blockSkill)) *
+      w.block *
+      lowHp,
+    heal: totals.heal * w.heal * lowHp,
+    support: totals.support * w.support,
+    dot: totals.dot * w.dot,
+    status: totals.status * w.status,
+    draw: totals.draw * w.draw,
+    energy: totals.energy * w.energy,
+    charge: isAmplified ? 0 : (charge + 1) * w.charge * difficulty.empowerSkill,
+  };
+  const amounts: Record<ScoreKey, number> = {
+    lethal: target.hp,
+    damage: totals.damage,
+    block: incoming,
+    heal: totals.heal,
+    support: totals.support,
+    dot: totals.dot,
+    status: totals.status,
+    draw: totals.draw,
+    energy: totals.energy,
+    charge: charge + 1,
+  };
+
+  const score = Object.values(values).reduce((sum, value) => sum + value, 0);
+  const [reason] = (Object.keys(values) as ScoreKey[])
+    .filter((key) => values[key] > 0)
+    .sort((a, b) => values[b] - values[a] || a.localeCompare(b));
+
+  if (!reason) return { score: 0, reason: 'fallback', amount: 0 };
+
+  // An empowered play the bot chose for its numbers is explained by the empowerment
+  if (
+    isAmplified &&
+    difficulty.empowerSkill > 0 &&
+    (reason === 'damage' || reason === 'block' || reason === 'heal')
+  ) {
+    return { score, reason: 'empowered', amount: amounts[reason] };
+  }
+
+  return { score, reason, amount: amounts[reason] };
+};
+
+// ─── Turn ───────────────────────────────────────────────────────
+
+/** Plays a bot seat's turn until it can't or won't play. SQL: combat_bot_turn */
+const runBotTurn = (
+  state: FightState,
+  player: SimPlayer,
+  policy: BotPolicy,
+  difficulty: BotDifficulty,
+): BotPlay[] => {
+  const plays: BotPlay[] = [];
+
+  for (let iteration = 0; iteration < MAX_ACTIONS; iteration++) {
+    if (player.hp <= 0) break;
+
+    // Policy target: the lowest HP enemy, or the one whose intent hits hardest
+    const enemies = aliveEnemies(state);
+    const threat = (enemy: SimEnemy) =>
+      policy.target === 'highest_threat' ? enemyIntentDamage(enemy, 0) : 0;
+    const target = [...enemies].sort((a, b) => threat(b) - threat(a) || a.hp - b.hp)[0];
+    if (!target) break;
+
+    // Converge once enough traits are empowered and the convergence pays out; bots blind to
+    // empowerment never do
+    const empowered = Object.values(player.traitCharges).filter(
+      (charge) => charge >= COMBAT.empowerThreshold,
+    ).length;
+    if (
+      difficulty.empowerSkill > 0 &&
+      empowered >= policy.convergeAt &&
+      convergencePayout(state, player) > 0
+    ) {
+      const { outcome, team } = playConvergence(state, player);
+      plays.push({ source: 'convergence', reason: 'converge', outcome });
+      if (team) plays.push({ source: 'team_convergence', reason: 'converge', outcome: team });
+      continue;
+    }
+
+    if (player.hand.length === 0) break;
+
+    // Damage the enemies aim at this bot (or the whole party) this turn
+    const incoming = enemies
+      .filter((e) => e.targetPlayerId === player.playerId || e.targetPlayerId === null)
+      .reduce((sum, e) => sum + enemyIntentDamage(e, player.vulnerable), 0);
+
+    // Pick the best scoring affordable card
+    let best: { index: number; scored: ScoredCard } | null = null;
+    player.hand.forEach((instance, index) => {
+      const card = getCardById(instance.cardId);
+      if (!card || card.cost > player.energy || hasKeyword(card, 'unplayable')) return;
+      const scored = scoreCard(state, player, instance, policy, difficulty, target, incoming);
+      if (scored.score > (best?.scored.score ?? -1)) best = { index, scored };
+    });
+    if (!best) break;
+
+    const { index, scored } = best as { index: number; scored: ScoredCard };
+    const source = player.hand[index].cardId;
+    const outcome = playCard(state, player, index, enemies.indexOf(target));
+    plays.push({ source, reason: scored.reason, outcome });
+  }
+
+  return plays;
+};
+
+export type { BotPlay, ScoredCard };
+export { runBotTurn, scoreCard };
@@ -0,0 +1,915 @@
+/**
+ * Fight engine of the balance simulator: the combat RPCs a fight goes through (combat_init_turn,
+ * _play_card, _use_convergence, _resolve_enemy_phase and their helpers) ported to in-memory
+ * state. The shared math comes from combatRules.ts and the data from gameConfig, so the numbers
+ * match the server's. Relics, potions and reward bonuses are left out: simulated parties fight
+ * with their starter decks.
+ */
+
+import { ADVENTURE } from '@/constants/adventureSettings';
+import { COMBAT } from '@/constants/combatSettings';
+import type { SeededRng } from '@/features/combat/simulator/seededRng';
+import {
+  cardAmount,
+  enemyAttackDamage,
+  frailBlock,
+  getIntentTargetRule,
+  resolveEnemyHit,
+  resolveEnemyIntent,
+} from '@/features/combat/utils/combatRules';
+import {
+  getStatusStacks,
+  STATUS_FIELD,
+  type StatusCarrier,
+} from '@/features/combat/utils/getStatusStacks';
+import {
+  type CardAllyTarget,
+  type CardEffect,
+  type Encounter,
+  type EnemyTemplate,
+  getAscensionLevels,
+  getBossPhases,
+  getCardById,
+  getConvergenceMultiplier,
+  getEnemyTemplate,
+  getIntentPattern,
+  getStarterDeck,
+  getTeamConvergence,
+  getTeamConvergenceMultiplier,
+  hasKeyword,
+  SCHOOLS_BY_ROLE,
+  STATUSES,
+  type StatusId,
+  type StatusTick,
+} from '@/features/gameConfig';
+import type { PlayerId, RoleId } from '@/types/player';
+import type { DeckCardInstance, EnemyCombatState, PlayerCombatState } from '@/types/spellCombat';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type SimPlayer = Pick<
+  PlayerCombatState,
+  | 'playerId'
+  | 'drawPile'
+  | 'hand'
+  | 'discardPile'
+  | 'exhaustPile'
+  | 'energy'
+  | 'maxEnergy'
+  | 'block'
+  | 'retainedBlock'
+  | 'traitCharges'
+  | 'burn'
+  | 'poison'
+  | 'vulnerable'
+  | 'weakened'
+  | 'frail'
+  | 'thorns'
+  | 'regen'
+> & {
+  roleId: RoleId;
+  hp: number;
+  hpMax: number;
+  /** HP lost to enemy attacks and damage ticks this fight */
+  damageTaken: number;
+};
+
+type SimEnemy = Omit<EnemyCombatState, 'roomId' | 'screenId' | 'icon'> & {
+  position: number;
+};
+
+type FightState = {
+  rng: SeededRng;
+  bloc: number;
+  ascension: number;
+  turnNumber: number;
+  players: SimPlayer[];
+  enemies: SimEnemy[];
+  /** Players who converged this player phase, in order (combat_turns.converged_player_ids) */
+  converged: PlayerId[];
+};
+
+/** What one card play or convergence did, for per-card contribution */
+type PlayOutcome = {
+  /** HP enemies lost */
+  damage: number;
+  /** Block gained by the caster */
+  block: number;
+  /** HP the caster actually healed */
+  heal: number;
+  /** Block and actual heals landing on allies */
+  support: number;
+  /** Burn and poison stacks applied */
+  dot: number;
+  /** Other status stacks applied or gained */
+  status: number;
+  draw: number;
+  energy: number;
+};
+
+type FightSetup = {
+  roles: RoleId[];
+  encounter: Encounter;
+  bloc: number;
+  isElite: boolean;
+  isBoss: boolean;
+  /** Boss name of the screen; the first enemy of a boss fight takes it */
+  bossName?: string;
+  ascension: number;
+  /** Playtest override: the encounter's enemies repeat or get cut to this count */
+  enemyCount?: number;
+};
+
+type EnemyPhaseResult = 'victory' | 'wiped' | 'next_turn';
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** Same as create_room and create_playtest */
+const ROLE_HP: Record<RoleId, number> = { warrior: 300, ranger: 250, sage: 200 };
+
+const PLAYER_IDS: PlayerId[] = ['p1', 'p2', 'p3'];
+
+const ATTACK_INTENTS = ['attack', 'heavy_attack', 'charge_attack', 'multi_hit', 'lifesteal'];
+
+/**
+ * What _use_convergence pays per empowered trait. The server still keys it on the legacy trait
+ * names rather than CONVERGENCE_BY_TRAIT, so most schools only count toward the multiplier.
+ */
+const SERVER_CONVERGENCE: Partial<
+  Record<
+    string,
+    { damage?: number; block?: number; heal?: number; energy?: number; vulnerable?: number }
+  >
+> = {
+  fire: { damage: 16 },
+  guard: { block: 14 },
+  shadow: { vulnerable: 2 },
+  storm: { energy: 2 },
+  nature: { heal: 12 },
+};
+
+const emptyOutcome = (): PlayOutcome => ({
+  damage: 0,
+  block: 0,
+  heal: 0,
+  support: 0,
+  dot: 0,
+  status: 0,
+  draw: 0,
+  energy: 0,
+});
+
+// ─── Helpers (each mirrors one SQL helper) ──────────────────────
+
+const alivePlayers = (state: FightState) => state.players.filter((p) => p.hp > 0);
+
+const aliveEnemies = (state: FightState) =>
+  state.enemies.filter((e) => !e.isDead).sort((a, b) => a.position - b.position);
+
+const getTemplate = (templateId: string): EnemyTemplate => {
+  const template = getEnemyTemplate(templateId);
+  if (!template) throw new Error(`Unknown enemy template: ${templateId}`);
+  return template;
+};
+
+/** Summed modifier field of the levels up to `ascension`. SQL: _ascension_value */
+const ascensionPercent = (ascension: number, type: 'enemy_hp'): number =>
+  getAscensionLevels(ascension).reduce(
+    (sum, { modifier }) => (modifier.type === type ? sum + modifier.percent : sum),
+    0,
+  );
+
+/** Intent code the enemy plays this turn. SQL: _enemy_intent_code */
+const enemyIntentCode = (enemy: SimEnemy): number => {
+  const pattern = getIntentPattern(getTemplate(enemy.templateId), enemy.phase);
+  return pattern[enemy.intentIndex % pattern.length];
+};
+
+/** All hits of the enemy's attack intent on a target, 0 otherwise. SQL: _enemy_intent_damage */
+const enemyIntentDamage = (enemy: SimEnemy, targetVulnerable: number): number => {
+  if (enemy.isDead || enemy.stun > 0) return 0;
+  const intent = resolveEnemyIntent(enemy.templateId, enemyIntentCode(enemy));
+  if (!ATTACK_INTENTS.includes(intent.type)) return 0;
+  return (
+    enemyAttackDamage(
+      intent.value,
+      enemy.strength - enemy.strengthDown,
+      enemy.weakened,
+      targetVulnerable,
+    ) * Math.max(1, intent.hits)
+  );
+};
+
+/** SQL: _draw_hand */
+const drawHand = (
+  state: FightState,
+  playerId: PlayerId,
+  drawPile: DeckCardInstance[],
+  discardPile: DeckCardInstance[],
+  count: number,
+) => {
+  const pile = drawPile.length < count ? [...drawPile, ...discardPile] : [...drawPile];
+  const hand: DeckCardInstance[] = [];
+  const size = Math.min(count, pile.length);
+  for (let i = 0; i < size; i++) {
+    const index = Math.floor(state.rng.next(`draw:${playerId}`) * pile.length);
+    hand.push(...pile.splice(index, 1));
+  }
+  return { hand, drawPile: pile };
+};
+
+/** SQL: _apply_status */
+const applyStatus = (carriers: StatusCarrier[], status: StatusId, amount: number) => {
+  if (amount <= 0) return;
+  const field = STATUS_FIELD[status];
+  const stacking = STATUSES.find((s) => s.id === status)?.stacking;
+  for (const carrier of carriers) {
+    const stacks = getStatusStacks(carrier, status);
+    carrier[field] = stacking === 'max' ? Math.max(stacks, amount) : stacks + amount;
+  }
+};
+
+/** One hit of card damage. SQL: _damage_enemy */
+const damageEnemy = (enemy: SimEnemy, amount: number): number => {
+  if (enemy.isDead) return 0;
+  const hit = resolveEnemyHit(amount, enemy);
+  enemy.block = hit.block;
+  enemy.hp -= hit.hpLost;
+  enemy.isDead = enemy.hp <= 0;
+  return hit.hpLost;
+};
+
+/** Flat damage through block only, as convergences deal it */
+const blastEnemy = (enemy: SimEnemy, amount: number, playerId: PlayerId): number => {
+  let remaining = amount;
+  const absorbed = Math.min(enemy.block, remaining);
+  enemy.block -= absorbed;
+  remaining -= absorbed;
+  if (remaining <= 0) return 0;
+  const lost = Math.min(enemy.hp, remaining);
+  enemy.hp = Math.max(0, enemy.hp - remaining);
+  enemy.lastAttackerId = playerId;
+  enemy.isDead = enemy.hp <= 0;
+  return lost;
+};
+
+/** Who a heal, block or gain_status lands on. SQL: _ally_recipients */
+const allyRecipients = (
+  state: FightState,
+  caster: SimPlayer,
+  target: CardAllyTarget,
+): SimPlayer[] => {
+  if (target === 'self') return [caster];
+  const alive = alivePlayers(state);
+  if (target === 'all_allies') return alive;
+  const [recipient] = alive
+    .filter((p) => target === 'any_ally' || p !== caster)
+    .sort(
+      (a, b) =>
+        a.hp / Math.max(a.hpMax, 1) - b.hp / Math.max(b.hpMax, 1) ||
+        a.playerId.localeCompare(b.playerId),
+    );
+  return recipient ? [recipient] : [];
+};
+
+/** Picks the player each enemy aims at. SQL: _retarget_enemies */
+const retargetEnemies = (state: FightState, reroll = false) => {
+  const alive = alivePlayers(state);
+  const aliveIds = alive.map((p) => p.playerId);
+
+  for (const enemy of aliveEnemies(state)) {
+    const rule = getIntentTargetRule(enemy.templateId, enemyIntentCode(enemy));
+    let target: PlayerId | null = null;
+
+    if (rule === 'lowest_hp') {
+      target = [...alive].sort((a, b) => a.hp - b.hp)[0]?.playerId ?? null;
+    } else if (rule === 'highest_block') {
+      target = [...alive].sort((a, b) => b.block - a.block || a.hp - b.hp)[0]?.playerId ?? null;
+    } else if (
+      rule === 'last_attacker' &&
+      enemy.lastAttackerId &&
+      aliveIds.includes(enemy.lastAttackerId)
+    ) {
+      target = enemy.lastAttackerId;
+    }
+
+    // Random, and the fallback for a last_attacker rule with no attacker yet
+    if (!target && (rule === 'random' || rule === 'last_attacker') && aliveIds.length > 0) {
+      target =
+        !reroll && enemy.targetPlayerId && aliveIds.includes(enemy.targetPlayerId)
+          ? enemy.targetPlayerId
+          : state.rng.sample('enemy-targets', aliveIds, 1)[0];
+    }
+
+    enemy.targetPlayerId = target;
+  }
+};
+
+/** Enemy HP and strength for the screen's bloc. SQL: seed_enemies_for_screen, _summon_enemies */
+const createEnemy = (
+  state: FightState,
+  templateId: string,
+  position: number,
+  hpMult: number,
+  isElite: boolean,
+  name?: string,
+): SimEnemy => {
+  const template = getTemplate(templateId);
+  const fightNumber = Math.max(1, state.bloc);
+  const hpPercent = 100 + ascensionPercent(state.ascension, 'enemy_hp');
+  const hp = Math.floor(
+    ((template.baseHp * template.scalingPerFight ** (fightNumber - 1) * hpMult * hpPercent) / 100) *
+      (isElite ? ADVENTURE.scaling.eliteHpMultiplier : 1),
+  );
+  const strength =
+    Math.floor(template.baseStrength + template.strengthScaling * (fightNumber - 1)) +
+    (isElite ? ADVENTURE.scaling.eliteStrengthBonus : 0);
+
+  return {
+    id: `e${position}`,
+    templateId,
+    name: name ?? template.name,
+    position,
+    hp,
+    hpMax: hp,
+    strength,
+    block: 0,
+    intentIndex: 0,
+    phase: 0,
+    isDead: false,
+    targetPlayerId: null,
+    lastAttackerId: null,
+    burn: 0,
+    poison: 0,
+    vulnerable: 0,
+    weakened: 0,
+    frail: 0,
+    stun: 0,
+    strengthDown: 0,
+  };
+};
+
+/** Boss phases crossed since the last check. SQL: _advance_boss_phases */
+const advanceBossPhases = (state: FightState) => {
+  let changed = false;
+
+  for (const enemy of aliveEnemies(state)) {
+    if (enemy.hp <= 0) continue;
+    const phases = getBossPhases(getTemplate(enemy.templateId), state.ascension);
+    let phase = enemy.phase;
+
+    while (phase < phases.length && enemy.hp * 100 <= enemy.hpMax * phases[phase].hpPercent) {
+      for (const action of phases[phase].actions) {
+        switch (action.type) {
+          case 'cleanse':
+            enemy.vulnerable = 0;
+            enemy.weakened = 0;
+            enemy.burn = 0;
+            break;
+          case 'enrage':
+            enemy.strength += action.strength;
+            break;
+          case 'summon': {
+            const last = Math.max(-1, ...state.enemies.map((e) => e.position));
+            for (let i = 1; i <= action.count; i++) {
+              state.enemies.push(createEnemy(state, action.templateId, last + i, 1, false));
+            }
+            break;
+          }
+        }
+      }
+      phase++;
+    }
+
+    if (phase !== enemy.phase) {
+      enemy.phase = phase;
+      enemy.intentIndex = 0;
+      changed = true;
+    }
+  }
+
+  if (changed) retargetEnemies(state);
+};
+
+/** Every status ticking at a phase boundary, in registry order. SQL: _tick_statuses */
+const tickStatuses = (state: FightState, tick: StatusTick) => {
+  for (const status of STATUSES.filter((s) => s.tick === tick)) {
+    const field = STATUS_FIELD[status.id];
+
+    if (status.sides.includes('enemy')) {
+      const carriers = aliveEnemies(state).filter((e) => getStatusStacks(e, status.id) > 0);
+      for (const enemy of carriers) {
+        const stacks = getStatusStacks(enemy, status.id);
+        if (status.tickEffect === 'damage') {
+          enemy.hp -= Math.min(stacks, enemy.hp);
+          enemy.isDead = enemy.hp <= 0;
+        } else if (status.tickEffect === 'heal') {
+          enemy.hp += Math.min(stacks, enemy.hpMax - enemy.hp);
+        }
+      }
+      if (status.decay !== 'none') {
+        for (const enemy of carriers.filter((e) => !e.isDead)) {
+          const carrier: StatusCarrier = enemy;
+          carrier[field] = status.decay === 'all' ? 0 : getStatusStacks(enemy, status.id) - 1;
+        }
+      }
+    }
+
+    if (status.sides.includes('player')) {
+      for (const player of alivePlayers(state)) {
+        const stacks = getStatusStacks(player, status.id);
+        if (stacks <= 0) continue;
+        if (status.tickEffect === 'damage') {
+          const lost = Math.min(stacks, player.hp);
+          player.hp -= lost;
+          player.damageTaken += lost;
+        } else if (status.tickEffect === 'heal') {
+          player.hp += Math.max(0, Math.min(stacks, player.hpMax - player.hp));
+        }
+      }
+      if (status.decay !== 'none') {
+        for (const player of state.players.filter((p) => getStatusStacks(p, status.id) > 0)) {
+          const carrier: StatusCarrier = player;
+          carrier[field] = status.decay === 'all' ? 0 : getStatusStacks(player, status.id) - 1;
+        }
+      }
+    }
+  }
+};
+
+// ─── Fight setup ────────────────────────────────────────────────
+
+/** Party, enemies and opening hands. SQL: create_playtest, seed_enemies_for_screen, combat_init_turn */
+const setupFight = (rng: SeededRng, setup: FightSetup): FightState => {
+  const state: FightState = {
+    rng,
+    bloc: setup.bloc,
+    ascension: setup.ascension,
+    turnNumber: 1,
+    players: [],
+    enemies: [],
+    converged: [],
+  };
+
+  const count = setup.enemyCount ?? setup.encounter.enemies.length;
+  for (let i = 0; i < count; i++) {
+    const enemy = setup.encounter.enemies[i % setup.encounter.enemies.length];
+    state.enemies.push(
+      createEnemy(
+        state,
+        enemy.templateId,
+        i,
+        enemy.hpMult ?? 1,
+        setup.isElite,
+        setup.isBoss && i === 0 ? setup.bossName : undefined,
+      ),
+    );
+  }
+
+  setup.roles.forEach((roleId, index) => {
+    const playerId = PLAYER_IDS[index];
+    const deck: DeckCardInstance[] = getStarterDeck(roleId)
+      .map((card) => ({ cardId: card.id, upgraded: false, usageCount: 0 }))
+      .sort((a, b) => a.cardId.localeCompare(b.cardId));
+    const innate = deck.filter((c) => hasCardKeyword(c, 'innate'));
+    const drawn = drawHand(
+      state,
+      playerId,
+      deck.filter((c) => !hasCardKeyword(c, 'innate')),
+      [],
+      Math.max(0, COMBAT.openingHandSize - innate.length),
+    );
+
+    state.players.push({
+      playerId,
+      roleId,
+      hp: ROLE_HP[roleId],
+      hpMax: ROLE_HP[roleId],
+      damageTaken: 0,
+      drawPile: drawn.drawPile,
+      hand: [...innate, ...drawn.hand],
+      discardPile: [],
+      exhaustPile: [],
+      energy: COMBAT.baseEnergy,
+      maxEnergy: COMBAT.baseEnergy,
+      block: 0,
+      retainedBlock: 0,
+      traitCharges: Object.fromEntries(SCHOOLS_BY_ROLE[roleId].map((trait) => [trait, 0])),
+      burn: 0,
+      poison: 0,
+      vulnerable: 0,
+      weakened: 0,
+      frail: 0,
+      thorns: 0,
+      regen: 0,
+    });
+  });
+
+  retargetEnemies(state, true);
+  return state;
+};
+
+const hasCardKeyword = (instance: DeckCardInstance, keyword: Parameters<typeof hasKeyword>[1]) => {
+  const card = getCardById(instance.cardId);
+  return card ? hasKeyword(card, keyword) : false;
+};
+
+// ─── Player actions ─────────────────────────────────────────────
+
+/** Plays a card from a player's hand. SQL: _play_card */
+const playCard = (
+  state: FightState,
+  player: SimPlayer,
+  handIndex: number,
+  targetEnemyIdx: number | null,
+): PlayOutcome => {
+  const instance = player.hand[handIndex];
+  const card = instance ? getCardById(instance.cardId) : undefined;
+  if (!instance || !card) throw new Error(`Invalid hand index ${handIndex}`);
+  if (hasKeyword(card, 'unplayable')) throw new Error(`Card is unplayable: ${card.id}`);
+  if (player.energy < card.cost) throw new Error(`Not enough energy for ${card.id}`);
+
+  const outcome = emptyOutcome();
+  const isAmplified = (player.traitCharges[card.trait] ?? 0) >= COMBAT.empowerThreshold;
+  const target = aliveEnemies(state)[targetEnemyIdx ?? 0] ?? null;
+  let energyGained = 0;
+
+  // Remove the played card first so draw effects can't redraw it
+  player.hand = player.hand.filter((_, i) => i !== handIndex);
+
+  const queue: CardEffect[] = [
+    ...(instance.upgraded && card.upgradedEffects.length > 0 ? card.upgradedEffects : card.effects),
+  ];
+  while (queue.length > 0) {
+    const effect = queue.shift() as CardEffect;
+    const toAll = 'target' in effect && effect.target === 'all_enemies';
+    const enemyTargets = () => aliveEnemies(state).filter((e) => toAll || e === target);
+
+    let amount = 'amount' in effect ? effect.amount : 0;
+    if (
+      effect.type === 'damage' ||
+      effect.type === 'block' ||
+      effect.type === 'heal' ||
+      (effect.type === 'apply_status' && (effect.status === 'burn' || effect.status === 'poison'))
+    ) {
+      amount = cardAmount(amount, isAmplified, effect.type === 'damage' && player.weakened > 0);
+    }
+
+    switch (effect.type) {
+      case 'damage':
+        for (const enemy of enemyTargets()) {
+          let dealt = 0;
+          for (let hit = 0; hit < Math.max(1, effect.hits ?? 1); hit++) {
+            dealt += damageEnemy(enemy, amount);
+          }
+          if (dealt > 0) enemy.lastAttackerId = player.playerId;
+          outcome.damage += dealt;
+        }
+        break;
+      case 'block':
+        for (const recipient of allyRecipients(state, player, effect.target ?? 'self')) {
+          const actual = frailBlock(amount, recipient.frail);
+          recipient.block += actual;
+          if (effect.persists) recipient.retainedBlock += actual;
+          if (recipient === player) outcome.block += actual;
+          else outcome.support += actual;
+        }
+        break;
+      case 'heal':
+        for (const recipient of allyRecipients(state, player, effect.target ?? 'self')) {
+          const actual = Math.max(0, Math.min(amount, recipient.hpMax - recipient.hp));
+          recipient.hp = Math.min(recipient.hpMax, recipient.hp + amount);
+          if (recipient === player) outcome.heal += actual;
+          else outcome.support += actual;
+        }
+        break;
+      case 'self_damage':
+        player.hp = Math.max(0, player.hp - amount);
+        break;
+      case 'apply_status': {
+        const enemies = enemyTargets();
+        applyStatus(enemies, effect.status, amount);
+        const stacks = amount * enemies.length;
+        if (effect.status === 'burn' || effect.status === 'poison') outcome.dot += stacks;
+        else outcome.status += stacks;
+        break;
+      }
+      case 'gain_status': {
+        const recipients = allyRecipients(state, player, effect.target ?? 'self');
+        applyStatus(recipients, effect.status, amount);
+        outcome.status += amount * recipients.length;
+        break;
+      }
+      case 'draw': {
+        const reshuffle = player.drawPile.length < amount;
+        const drawn = drawHand(
+          state,
+          player.playerId,
+          player.drawPile,
+          reshuffle ? player.discardPile : [],
+          amount,
+        );
+        if (reshuffle) player.discardPile = [];
+        player.hand = [...player.hand, ...drawn.hand];
+        player.drawPile = drawn.drawPile;
+        outcome.draw += drawn.hand.length;
+        break;
+      }
+      case 'gain_energy':
+        energyGained += amount;
+        outcome.energy += amount;
+        break;
+      case 'conditional': {
+        const { condition } = effect;
+        const met =
+          condition.type === 'target_has_status'
+            ? !!target && getStatusStacks(target, condition.status) > 0
+            : player.hp * 100 < player.hpMax * condition.percent;
+        if (met) queue.unshift(...effect.effects);
+        break;
+      }
+    }
+  }
+
+  // Played card goes to discard (or exhaust) with its usage tracked (auto-upgrade at threshold)
+  const usageCount = instance.usageCount + 1;
+  const played: DeckCardInstance = {
+    ...instance,
+    usageCount,
+    upgraded: instance.upgraded || usageCount >= card.upgradeThreshold,
+  };
+  if (hasKeyword(card, 'exhaust')) player.exhaustPile = [...player.exhaustPile, played];
+  else player.discardPile = [...player.discardPile, played];
+
+  // Empowered play resets the trait, otherwise it charges
+  player.traitCharges = {
+    ...player.traitCharges,
+    [card.trait]: isAmplified ? 0 : (player.traitCharges[card.trait] ?? 0) + 1,
+  };
+  player.energy = player.energy - card.cost + energyGained;
+
+  advanceBossPhases(state);
+  retargetEnemies(state);
+  return outcome;
+};
+
+/** Party finisher for the last two convergers. SQL: _resolve_team_convergence */
+const resolveTeamConvergence = (
+  state: FightState,
+  player: SimPlayer,
+  partner: SimPlayer,
+): PlayOutcome => {
+  const outcome = emptyOutcome();
+  const team = getTeamConvergence(player.roleId, partner.roleId);
+  if (!team) return outcome;
+
+  const multiplier = getTeamConvergenceMultiplier(state.converged.length);
+  const damage = Math.floor((team.base.damage ?? 0) * multiplier);
+  const block = Math.floor((team.base.block ?? 0) * multiplier);
+  const heal = Math.floor((team.base.heal ?? 0) * multiplier);
+  const burn = Math.floor((team.base.burn ?? 0) * multiplier);
+
+  if (damage > 0) {
+    for (const enemy of aliveEnemies(state)) {
+      outcome.damage += blastEnemy(enemy, damage, player.playerId);
+    }
+  }
+
+  const survivors = aliveEnemies(state);
+  applyStatus(survivors, 'burn', burn);
+  applyStatus(survivors, 'vulnerable', team.base.vulnerable ?? 0);
+  applyStatus(survivors, 'weakened', team.base.weakened ?? 0);
+  outcome.dot += burn * survivors.length;
+  outcome.status += ((team.base.vulnerable ?? 0) + (team.base.weakened ?? 0)) * survivors.length;
+
+  for (const ally of alivePlayers(state)) {
+    const actualBlock = block > 0 ? frailBlock(block, ally.frail) : 0;
+    const actualHeal = Math.max(0, Math.min(heal, ally.hpMax - ally.hp));
+    ally.block += actualBlock;
+    ally.hp = Math.min(ally.hpMax, ally.hp + heal);
+    outcome.support += actualBlock + actualHeal;
+  }
+
+  return outcome;
+};
+
+/**
+ * What the player's convergence would do right now, summed over damage dealt, block, heal, energy
+ * and statuses applied: zero when none of their empowered traits pays out.
+ * SQL: _convergence_payout
+ */
+const convergencePayout = (state: FightState, player: SimPlayer): number => {
+  const empowered = Object.keys(player.traitCharges).filter(
+    (trait) => player.traitCharges[trait] >= COMBAT.empowerThreshold,
+  );
+  if (empowered.length < COMBAT.convergenceRequiredTraits) return 0;
+
+  const sum = (key: 'damage' | 'block' | 'heal' | 'energy' | 'vulnerable') =>
+    empowered.reduce((total, trait) => total + (SERVER_CONVERGENCE[trait]?.[key] ?? 0), 0);
+  const multiplier = getConvergenceMultiplier(empowered.length);
+  const damage = Math.floor(sum('damage') * multiplier);
+  const enemies = aliveEnemies(state);
+
+  return (
+    enemies.reduce(
+      (total, enemy) => total + Math.min(enemy.hp, Math.max(0, damage - enemy.block)),
+      0,
+    ) +
+    frailBlock(Math.floor(sum('block') * multiplier), player.frail) +
+    Math.max(0, Math.min(Math.floor(sum('heal') * multiplier), player.hpMax - player.hp)) +
+    sum('energy') +
+    sum('vulnerable') * 2 * enemies.length
+  );
+};
+
+/**
+ * Cashes out every empowered trait, then fires the team convergence when another player
+ * converged earlier this phase. SQL: _use_convergence
+ */
+const playConvergence = (
+  state: FightState,
+  player: SimPlayer,
+): { outcome: PlayOutcome; team: PlayOutcome | null } => {
+  const outcome = emptyOutcome();
+  const empowered = Object.keys(player.traitCharges).filter(
+    (trait) => player.traitCharges[trait] >= COMBAT.empowerThreshold,
+  );
+  if (empowered.length < COMBAT.convergenceRequiredTraits) {
+    throw new Error(`Need at least ${COMBAT.convergenceRequiredTraits} empowered traits`);
+  }
+
+  const totals = { damage: 0, block: 0, heal: 0, energy: 0, vulnerable: 0 };
+  for (const trait of empowered) {
+    player.traitCharges = { ...player.traitCharges, [trait]: 0 };
+    const payout = SERVER_CONVERGENCE[trait];
+    totals.damage += payout?.damage ?? 0;
+    totals.block += payout?.block ?? 0;
+    totals.heal += payout?.heal ?? 0;
+    totals.energy += payout?.energy ?? 0;
+    totals.vulnerable += payout?.vulnerable ?? 0;
+  }
+
+  const multiplier = getConvergenceMultiplier(empowered.length);
+  const damage = Math.floor(totals.damage * multiplier);
+  const block = Math.floor(totals.block * multiplier);
+  const heal = Math.floor(totals.heal * multiplier);
+
+  if (damage > 0) {
+    for (const enemy of aliveEnemies(state)) {
+      outcome.damage += blastEnemy(enemy, damage, player.playerId);
+    }
+  }
+  if (block > 0) {
+    outcome.block = frailBlock(block, player.frail);
+    player.block += outcome.block;
+  }
+  if (heal > 0) {
+    outcome.heal = Math.max(0, Math.min(heal, player.hpMax - player.hp));
+    player.hp = Math.min(player.hpMax, player.hp + heal);
+  }
+  player.energy += totals.energy;
+  outcome.energy = totals.energy;
+
+  // Shadow's vulnerable comes with as much weakened
+  const debuffed = aliveEnemies(state);
+  applyStatus(debuffed, 'vulnerable', totals.vulnerable);
+  applyStatus(debuffed, 'weakened', totals.vulnerable);
+  outcome.status = totals.vulnerable * 2 * debuffed.length;
+
+  let team: PlayOutcome | null = null;
+  if (!state.converged.includes(player.playerId)) {
+    state.converged.push(player.playerId);
+    const partnerId = state.converged[state.converged.length - 2];
+    const partner = state.players.find((p) => p.playerId === partnerId);
+    if (partner) team = resolveTeamConvergence(state, player, partner);
+  }
+
+  advanceBossPhases(state);
+  retargetEnemies(state);
+  return { outcome, team };
+};
+
+// ─── Enemy phase ────────────────────────────────────────────────
+
+/** Enemies act, statuses tick and the next player phase starts. SQL: _resolve_enemy_phase */
+const resolveEnemyPhase = (state: FightState): EnemyPhaseResult => {
+  tickStatuses(state, 'player_end');
+  tickStatuses(state, 'enemy_start');
+
+  for (const enemy of aliveEnemies(state)) enemy.block = 0;
+
+  for (const enemy of aliveEnemies(state)) {
+    // Stunned enemies lose their action and keep their intent for next turn
+    if (enemy.stun > 0) continue;
+
+    const intent = resolveEnemyIntent(enemy.templateId, enemyIntentCode(enemy));
+    const hits = Math.max(1, intent.hits);
+
+    // A target killed earlier this phase is replaced by a random survivor
+    let targetId = enemy.targetPlayerId;
+    if (targetId && !alivePlayers(state).some((p) => p.playerId === targetId)) {
+      const aliveIds = alivePlayers(state).map((p) => p.playerId);
+      targetId = state.rng.sample('enemy-targets', aliveIds, 1)[0] ?? null;
+    }
+    const targets = alivePlayers(state).filter((p) => !targetId || p.playerId === targetId);
+
+    if (ATTACK_INTENTS.includes(intent.type)) {
+      for (const player of targets) {
+        let dealt = 0;
+        let thornsDealt = 0;
+        for (let hit = 0; hit < hits && player.hp > 0 && !enemy.isDead; hit++) {
+          const raw = enemyAttackDamage(
+            intent.value,
+            enemy.strength - enemy.strengthDown,
+            enemy.weakened,
+            player.vulnerable,
+          );
+          const blocked = Math.min(player.block, raw);
+          player.block -= blocked;
+          const lost = Math.min(raw - blocked, player.hp);
+          player.hp -= lost;
+          dealt += lost;
+
+          if (player.thorns > 0 && raw > 0) {
+            thornsDealt += player.thorns;
+            enemy.hp = Math.max(0, enemy.hp - player.thorns);
+            if (enemy.hp <= 0) enemy.isDead = true;
+          }
+        }
+        player.damageTaken += dealt;
+        if (intent.type === 'lifesteal' && dealt > 0 && !enemy.isDead) {
+          enemy.hp = Math.min(enemy.hpMax, enemy.hp + Math.floor(dealt / 2));
+        }
+        // Thorns damage advances boss phases right away; a thorns kill ends the enemy's action
+        if (thornsDealt > 0) advanceBossPhases(state);
+        if (enemy.isDead) break;
+      }
+    } else if (intent.type === 'defend') {
+      enemy.block += frailBlock(intent.value, enemy.frail);
+    } else if (intent.type === 'buff') {
+      applyStatus([enemy], intent.status ?? 'strength', intent.value);
+    } else if (intent.type === 'debuff') {
+      applyStatus(
+        state.players.filter((p) => !targetId || p.playerId === targetId),
+        intent.status ?? 'weakened',
+        intent.value,
+      );
+    }
+
+    enemy.intentIndex++;
+
+    if (alivePlayers(state).length === 0) break;
+
+    if (state.turnNumber > 0 && state.turnNumber % 4 === 0) enemy.strength++;
+  }
+
+  // Enemy phase is over (status decay, regen), next player phase begins (poison)
+  tickStatuses(state, 'enemy_end');
+  tickStatuses(state, 'player_start');
+  advanceBossPhases(state);
+
+  if (alivePlayers(state).length === 0) return 'wiped';
+  if (aliveEnemies(state).length === 0) return 'victory';
+
+  // New turn: reset energy and block (keeping unabsorbed persistent block), refill the hand
+  state.turnNumber++;
+  state.converged = [];
+  for (const player of state.players) {
+    const retain = player.hand.filter((c) => hasCardKeyword(c, 'retain'));
+    const ethereal = player.hand.filter(
+      (c) => !hasCardKeyword(c, 'retain') && hasCardKeyword(c, 'ethereal'),
+    );
+    const discarded = player.hand.filter(
+      (c) => !hasCardKeyword(c, 'retain') && !hasCardKeyword(c, 'ethereal'),
+    );
+    const discardPile = [...player.discardPile, ...discarded];
+    const drawCount = Math.max(0, COMBAT.openingHandSize - retain.length);
+    const drawn = drawHand(state, player.playerId, player.drawPile, discardPile, drawCount);
+    const keptBlock = Math.min(player.block, player.retainedBlock);
+
+    player.discardPile = player.drawPile.length < drawCount ? [] : discardPile;
+    player.energy = player.maxEnergy;
+    player.block = keptBlock;
+    player.retainedBlock = keptBlock;
+    player.hand = [...retain, ...drawn.hand];
+    player.drawPile = drawn.drawPile;
+    player.exhaustPile = [...player.exhaustPile, ...ethereal];
+  }
+
+  retargetEnemies(state, true);
+  return 'next_turn';
+};
+
+export type { EnemyPhaseResult, FightSetup, FightState, PlayOutcome, SimEnemy, SimPlayer };
+export {
+  aliveEnemies,
+  alivePlayers,
+  allyRecipients,
+  convergencePayout,
+  emptyOutcome,
+  enemyIntentDamage,
+  playCard,
+  playConvergence,
+  resolveEnemyPhase,
+  setupFight,
+};
@@ -0,0 +1,53 @@
+/**
+ * Seeded random streams for the balance simulator, the same values as the server's _rng_at:
+ * the n-th value of a stream is the top 52 bits of md5(seed:stream:n). A simulated fight with a
+ * room's seed draws the same cards and rolls the same encounter as that room.
+ * Uses node:crypto, so only the simulator (bin/simulate.ts) may import it.
+ */
+
+import { createHash } from 'node:crypto';
+
+/** 2^52 */
+const RNG_RANGE = 4503599627370496;
+
+type SeededRng = {
+  /** Next value of a stream, in [0, 1). SQL: _rng_next */
+  next: (stream: string) => number;
+  /** Integer in [min, max]. SQL: _rng_int */
+  int: (stream: string, min: number, max: number) => number;
+  /** `count` distinct items by partial Fisher-Yates, from items in a stable order. SQL: _rng_sample */
+  sample: <T>(stream: string, items: T[], count: number) => T[];
+};
+
+const rngAt = (seed: number, stream: string, n: number): number => {
+  const hex = createHash('md5').update(`${seed}:${stream}:${n}`).digest('hex').slice(0, 13);
+  return Number.parseInt(hex, 16) / RNG_RANGE;
+};
+
+const createSeededRng = (seed: number): SeededRng => {
+  const counters = new Map<string, number>();
+
+  const next = (stream: string) => {
+    const n = (counters.get(stream) ?? 0) + 1;
+    counters.set(stream, n);
+    return rngAt(seed, stream, n);
+  };
+
+  const int = (stream: string, min: number, max: number) =>
+    min + Math.floor(next(stream) * (max - min + 1));
+
+  const sample = <T>(stream: string, items: T[], count: number) => {
+    const pool = [...items];
+    const size = Math.min(count, pool.length);
+    for (let i = 0; i < size; i++) {
+      const j = int(stream, i + 1, pool.length) - 1;
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, size);
+  };
+
+  return { next, int, sample };
+};
+
+export type { SeededRng };
+export { createSeededRng };
@@ -0,0 +1,160 @@
+/**
+ * One seeded fight of the balance simulator, every seat played by a bot. The encounter is rolled
+ * like seed_enemies_for_screen rolls it, so a seed and a slot give the fight a room with that
+ * seed would get.
+ */
+
+import { type BotPlay, runBotTurn } from '@/features/combat/simulator/botTurn';
+import {
+  aliveEnemies,
+  alivePlayers,
+  emptyOutcome,
+  type PlayOutcome,
+  resolveEnemyPhase,
+  setupFight,
+} from '@/features/combat/simulator/fightEngine';
+import { createSeededRng } from '@/features/combat/simulator/seededRng';
+import {
+  BOT_DIFFICULTY_BY_ID,
+  BOT_POLICY_BY_ID,
+  type BotDifficultyId,
+  type BotPolicyId,
+  ENCOUNTERS,
+  type Encounter,
+  type EncounterSlot,
+  getEncountersForSlot,
+} from '@/features/gameConfig';
+import type { RoleId } from '@/types/player';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type SimulateFightOptions = EncounterSlot & {
+  seed: number;
+  roles: RoleId[];
+  policy: BotPolicyId;
+  difficulty: BotDifficultyId;
+  ascension: number;
+  /** Skips the roll and fights this encounter */
+  encounterId?: string;
+  /** Fights still going after this many turns end as a timeout */
+  maxTurns: number;
+};
+
+type FightOutcome = 'victory' | 'defeat' | 'timeout';
+
+/** What one card (or convergence) did over a fight */
+type CardContribution = PlayOutcome & {
+  plays: number;
+};
+
+type FightResult = {
+  seed: number;
+  encounterId: string;
+  outcome: FightOutcome;
+  turns: number;
+  /** HP the party lost to enemies and damage ticks */
+  damageTaken: number;
+  /** Party HP left, as a percent of its max HP */
+  hpLeftPercent: number;
+  deaths: number;
+  /** Keyed by card id, 'convergence' or 'team_convergence' */
+  cards: Record<string, CardContribution>;
+};
+
+// ─── Encounter roll ─────────────────────────────────────────────
+
+/** Weighted roll among the slot's encounters, ordered by id. SQL: seed_enemies_for_screen */
+const rollEncounter = (
+  options: SimulateFightOptions,
+  roll: (min: number, max: number) => number,
+): Encounter => {
+  if (options.encounterId) {
+    const encounter = ENCOUNTERS.find((e) => e.id === options.encounterId);
+    if (!encounter) throw new Error(`Unknown encounter: ${options.encounterId}`);
+    return encounter;
+  }
+
+  const candidates = getEncountersForSlot(options).sort((a, b) => a.id.localeCompare(b.id));
+  const totalWeight = candidates.reduce((sum, e) => sum + (e.weight ?? 1), 0);
+  if (totalWeight === 0) {
+    throw new Error(`No encounter for bloc ${options.bloc} ${options.phase}`);
+  }
+
+  let cumulative = 0;
+  const value = roll(1, totalWeight);
+  const encounter = candidates.find((e) => {
+    cumulative += e.weight ?? 1;
+    return cumulative >= value;
+  });
+  return encounter ?? candidates[candidates.length - 1];
+};
+
+// ─── Fight ──────────────────────────────────────────────────────
+
+const addPlay = (cards: Record<string, CardContribution>, play: BotPlay) => {
+  // Bots only converge for a payout (convergencePayout): one that did nothing is a regression
+  if (
+    play.source === 'convergence' &&
+    Object.values(play.outcome).every((amount) => amount === 0)
+  ) {
+    throw new Error('A bot converged for no payout');
+  }
+  const entry = cards[play.source] ?? { ...emptyOutcome(), plays: 0 };
+  entry.plays++;
+  for (const key of Object.keys(play.outcome) as (keyof PlayOutcome)[]) {
+    entry[key] += play.outcome[key];
+  }
+  cards[play.source] = entry;
+};
+
+const simulateFight = (options: SimulateFightOptions): FightResult => {
+  const rng = createSeededRng(options.seed);
+  const encounter = rollEncounter(options, (min, max) => rng.int('enemies', min, max));
+  const state = setupFight(rng, {
+    roles: options.roles,
+    encounter,
+    bloc: options.bloc,
+    isElite: options.isElite,
+    isBoss: options.isBoss,
+    ascension: options.ascension,
+  });
+  const policy = BOT_POLICY_BY_ID[options.policy];
+  const difficulty = BOT_DIFFICULTY_BY_ID[options.difficulty];
+  const cards: Record<string, CardContribution> = {};
+  let outcome: FightOutcome = 'timeout';
+
+  while (state.turnNumber <= options.maxTurns) {
+    // Seats play in player order, as the bot runner calls combat_bot_turn
+    for (const player of alivePlayers(state)) {
+      for (const play of runBotTurn(state, player, policy, difficulty)) addPlay(cards, play);
+    }
+
+    if (aliveEnemies(state).length === 0) {
+      outcome = 'victory';
+      break;
+    }
+
+    const phase = resolveEnemyPhase(state);
+    if (phase === 'victory' || phase === 'wiped') {
+      outcome = phase === 'victory' ? 'victory' : 'defeat';
+      break;
+    }
+  }
+
+  const hp = state.players.reduce((sum, p) => sum + p.hp, 0);
+  const hpMax = state.players.reduce((sum, p) => sum + p.hpMax, 0);
+
+  return {
+    seed: options.seed,
+    encounterId: encounter.id,
+    outcome,
+    turns: Math.min(state.turnNumber, options.maxTurns),
+    damageTaken: state.players.reduce((sum, p) => sum + p.damageTaken, 0),
+    hpLeftPercent: hpMax > 0 ? Math.round((hp * 1000) / hpMax) / 10 : 0,
+    deaths: state.players.filter((p) => p.hp <= 0).length,
+    cards,
+  };
+};
+
+export type { CardContribution, FightOutcome, FightResult, SimulateFightOptions };
+export { simulateFight };
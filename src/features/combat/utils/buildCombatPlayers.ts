@@ -3,12 +3,15 @@ import type { PlayerId, RoleId } from '@/types/player';
 type RoomPlayer = {
   player_id: PlayerId;
   role_id: RoleId | null;
+  bot_takeover: boolean;
 };
 
 type CombatPlayer = {
   playerId: PlayerId;
   roleId: RoleId;
   displayName: string;
+  /** Human seat currently played by the bot */
+  isBotControlled: boolean;
 };
 
 export function buildCombatPlayers(
@@ -21,5 +24,6 @@ export function buildCombatPlayers(
       playerId: p.player_id,
       roleId: p.role_id as NonNullable<typeof p.role_id>,
       displayName: displayNameById[p.player_id] ?? p.player_id,
+      isBotControlled: p.bot_takeover,
     }));
 }
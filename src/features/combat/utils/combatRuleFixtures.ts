@@ -0,0 +1,120 @@
+/**
+ * Expected outcomes shared by the TS rules engine (combatRules.ts) and the SQL helpers
+ * in 020-combat-rules.sql and 026-status-registry.sql. bin/generate-sql.ts checks every
+ * case against the TS engine and emits generated/combat-rules-check.sql, which fails
+ * db:migrate if SQL disagrees. Any change to the combat math must update both sides and
+ * this file together.
+ */
+
+type CombatRuleFixture =
+  | {
+      rule: 'cardAmount';
+      input: { amount: number; amplified: boolean; weakened: boolean };
+      expected: number;
+    }
+  | {
+      rule: 'resolveEnemyHit';
+      input: { amount: number; hp: number; block: number; vulnerable: number };
+      expected: { hpLost: number; block: number };
+    }
+  | {
+      rule: 'frailBlock';
+      input: { amount: number; frail: number };
+      expected: number;
+    }
+  | {
+      rule: 'enemyAttackDamage';
+      input: { value: number; strength: number; weakened: number; targetVulnerable: number };
+      expected: number;
+    };
+
+export const COMBAT_RULE_FIXTURES: CombatRuleFixture[] = [
+  // Card amounts: empowerment rounds up, weakened rounds up after empowerment
+  { rule: 'cardAmount', input: { amount: 8, amplified: false, weakened: false }, expected: 8 },
+  { rule: 'cardAmount', input: { amount: 7, amplified: true, weakened: false }, expected: 11 },
+  { rule: 'cardAmount', input: { amount: 9, amplified: false, weakened: true }, expected: 7 },
+  { rule: 'cardAmount', input: { amount: 7, amplified: true, weakened: true }, expected: 9 },
+  { rule: 'cardAmount', input: { amount: 1, amplified: false, weakened: true }, expected: 1 },
+  { rule: 'cardAmount', input: { amount: 0, amplified: true, weakened: true }, expected: 0 },
+
+  // Hits on enemies: vulnerable rounds up, block absorbs first, HP loss capped at remaining HP
+  {
+    rule: 'resolveEnemyHit',
+    input: { amount: 10, hp: 50, block: 0, vulnerable: 0 },
+    expected: { hpLost: 10, block: 0 },
+  },
+  {
+    rule: 'resolveEnemyHit',
+    input: { amount: 7, hp: 50, block: 0, vulnerable: 2 },
+    expected: { hpLost: 11, block: 0 },
+  },
+  {
+    rule: 'resolveEnemyHit',
+    input: { amount: 10, hp: 50, block: 4, vulnerable: 0 },
+    expected: { hpLost: 6, block: 0 },
+  },
+  {
+    rule: 'resolveEnemyHit',
+    input: { amount: 10, hp: 50, block: 14, vulnerable: 0 },
+    expected: { hpLost: 0, block: 4 },
+  },
+  {
+    rule: 'resolveEnemyHit',
+    input: { amount: 8, hp: 50, block: 12, vulnerable: 1 },
+    expected: { hpLost: 0, block: 0 },
+  },
+  {
+    rule: 'resolveEnemyHit',
+    input: { amount: 9, hp: 50, block: 5, vulnerable: 1 },
+    expected: { hpLost: 9, block: 0 },
+  },
+  {
+    rule: 'resolveEnemyHit',
+    input: { amount: 30, hp: 12, block: 0, vulnerable: 0 },
+    expected: { hpLost: 12, block: 0 },
+  },
+  {
+    rule: 'resolveEnemyHit',
+    input: { amount: 10, hp: 0, block: 3, vulnerable: 0 },
+    expected: { hpLost: 0, block: 3 },
+  },
+
+  // Enemy attacks: strength adds first, weakened rounds down, vulnerable rounds down
+  {
+    rule: 'enemyAttackDamage',
+    input: { value: 10, strength: 0, weakened: 0, targetVulnerable: 0 },
+    expected: 10,
+  },
+  {
+    rule: 'enemyAttackDamage',
+    input: { value: 10, strength: 3, weakened: 0, targetVulnerable: 0 },
+    expected: 13,
+  },
+  {
+    rule: 'enemyAttackDamage',
+    input: { value: 10, strength: 3, weakened: 1, targetVulnerable: 0 },
+    expected: 9,
+  },
+  {
+    rule: 'enemyAttackDamage',
+    input: { value: 5, strength: 2, weakened: 0, targetVulnerable: 2 },
+    expected: 10,
+  },
+  {
+    rule: 'enemyAttackDamage',
+    input: { value: 20, strength: 1, weakened: 2, targetVulnerable: 1 },
+    expected: 22,
+  },
+  {
+    rule: 'enemyAttackDamage',
+    input: { value: 5, strength: -8, weakened: 0, targetVulnerable: 1 },
+    expected: 0,
+  },
+
+  // Frail block rounds down
+  { rule: 'frailBlock', input: { amount: 8, frail: 0 }, expected: 8 },
+  { rule: 'frailBlock', input: { amount: 8, frail: 2 }, expected: 6 },
+  { rule: 'frailBlock', input: { amount: 7, frail: 1 }, expected: 5 },
+];
+
+export type { CombatRuleFixture };
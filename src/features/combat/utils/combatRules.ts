@@ -0,0 +1,267 @@
+/**
+ * Pure TypeScript port of the combat resolution math in the plpgsql RPCs
+ * (_play_card, _damage_enemy, _resolve_enemy_phase). Used for client-side previews only —
+ * the server stays authoritative. Kept in lock-step with SQL by combatRuleFixtures.ts.
+ */
+
+import { COMBAT } from '@/constants/combatSettings';
+import {
+  getStatusStacks,
+  STATUS_FIELD,
+  type StatusCarrier,
+} from '@/features/combat/utils/getStatusStacks';
+import type {
+  Card,
+  CardCondition,
+  CardEffect,
+  EnemyIntent,
+  EnemyIntentType,
+  EnemyTargetRule,
+} from '@/features/gameConfig';
+import { getCardEffects, getEnemyIntent, getEnemyTemplate } from '@/features/gameConfig';
+import type { EnemyCombatState } from '@/types/spellCombat';
+
+type EnemyTargetState = Pick<EnemyCombatState, 'id' | 'hp' | 'block' | 'vulnerable'> &
+  StatusCarrier;
+
+type EnemyHitResult = {
+  hpLost: number;
+  block: number;
+};
+
+type CardPreviewContext = {
+  amplified: boolean;
+  weakened: boolean;
+  /** Caster is frail: block gained is reduced */
+  frail: boolean;
+  hp: number;
+  hpMax: number;
+  /** Enemy chosen at play time for single-target effects */
+  target: EnemyTargetState | null;
+  /** All alive enemies, in position order */
+  enemies: EnemyTargetState[];
+};
+
+type CardPreview = {
+  /** HP the selected target actually loses (after vulnerable and block) */
+  damage: number;
+  /** HP lost across all enemies */
+  totalDamage: number;
+  block: number;
+  heal: number;
+  burn: number;
+  selfDamage: number;
+  draw: number;
+  energy: number;
+};
+
+type EnemyIntentPreview = EnemyIntent & {
+  /** Damage per hit after strength, weakened and the target's vulnerable (before block) */
+  damagePerHit: number | null;
+};
+
+// ─── Primitives (each mirrors one SQL helper) ───────────────────
+
+/** Card amount after empowerment and, for damage, the caster's weakened. SQL: _card_amount */
+export function cardAmount(amount: number, amplified: boolean, weakened = false): number {
+  let result = amount;
+  if (amplified) result = Math.ceil(result * COMBAT.amplifyMultiplier);
+  if (weakened) result = Math.ceil(result * COMBAT.weakenedMultiplier);
+  return result;
+}
+
+/** Block actually gained by a frail or healthy carrier. SQL: _frail_block */
+export function frailBlock(amount: number, frail: number): number {
+  return frail > 0 ? Math.floor(amount * COMBAT.frailMultiplier) : amount;
+}
+
+/** One hit of card damage against an enemy. SQL: _resolve_enemy_hit */
+export function resolveEnemyHit(
+  amount: number,
+  enemy: Pick<EnemyTargetState, 'hp' | 'block' | 'vulnerable'>,
+): EnemyHitResult {
+  if (enemy.hp <= 0 || amount <= 0) return { hpLost: 0, block: enemy.block };
+
+  let damage = amount;
+  if (enemy.vulnerable > 0) damage = Math.ceil(damage * COMBAT.vulnerableMultiplier);
+
+  if (enemy.block >= damage) return { hpLost: 0, block: enemy.block - damage };
+  damage -= enemy.block;
+
+  return { hpLost: Math.min(damage, enemy.hp), block: 0 };
+}
+
+/** Raw damage of one enemy hit on a player, before block. SQL: _enemy_attack_damage */
+export function enemyAttackDamage(
+  value: number,
+  strength: number,
+  weakened: number,
+  targetVulnerable: number,
+): number {
+  // Strength down can push strength below zero, but never heals the target
+  let damage = Math.floor(
+    Math.max(0, value + strength) * (weakened > 0 ? COMBAT.weakenedMultiplier : 1),
+  );
+  // Rounds down, unlike vulnerable on enemies
+  if (targetVulnerable > 0) damage = Math.floor(damage * COMBAT.vulnerableMultiplier);
+  return damage;
+}
+
+// ─── Card preview ───────────────────────────────────────────────
+
+const isConditionMet = (
+  condition: CardCondition,
+  target: EnemyTargetState | null,
+  hp: number,
+  hpMax: number,
+): boolean => {
+  switch (condition.type) {
+    case 'target_has_status':
+      return !!target && getStatusStacks(target, condition.status) > 0;
+    case 'hp_below_percent':
+      return hp * 100 < hpMax * condition.percent;
+  }
+};
+
+/** Simulates playing a card the way _play_card resolves it, without touching any state. */
+export function previewCard(card: Card, upgraded: boolean, ctx: CardPreviewContext): CardPreview {
+  const enemies = ctx.enemies.map((e) => ({ ...e }));
+  const target = enemies.find((e) => e.id === ctx.target?.id) ?? null;
+  const preview: CardPreview = {
+    damage: 0,
+    totalDamage: 0,
+    block: 0,
+    heal: 0,
+    burn: 0,
+    selfDamage: 0,
+    draw: 0,
+    energy: 0,
+  };
+  let hp = ctx.hp;
+
+  const hit = (enemy: EnemyTargetState, amount: number) => {
+    const result = resolveEnemyHit(amount, enemy);
+    enemy.hp -= result.hpLost;
+    enemy.block = result.block;
+    preview.totalDamage += result.hpLost;
+    if (enemy === target) preview.damage += result.hpLost;
+  };
+
+  const queue: CardEffect[] = [...getCardEffects(card, upgraded)];
+  while (queue.length > 0) {
+    const effect = queue.shift() as CardEffect;
+    const toAll = 'target' in effect && effect.target === 'all_enemies';
+
+    switch (effect.type) {
+      case 'damage': {
+        const amount = cardAmount(effect.amount, ctx.amplified, ctx.weakened);
+        for (let i = 0; i < Math.max(1, effect.hits ?? 1); i++) {
+          if (toAll) {
+            for (const enemy of enemies) hit(enemy, amount);
+          } else if (target) {
+            hit(target, amount);
+          }
+        }
+        break;
+      }
+      case 'block':
+        preview.block += frailBlock(cardAmount(effect.amount, ctx.amplified), ctx.frail ? 1 : 0);
+        break;
+      case 'heal': {
+        const amount = cardAmount(effect.amount, ctx.amplified);
+        hp = Math.min(ctx.hpMax, hp + amount);
+        preview.heal += amount;
+        break;
+      }
+      case 'self_damage':
+        hp = Math.max(0, hp - effect.amount);
+        preview.selfDamage += effect.amount;
+        break;
+      case 'apply_status': {
+        const amount =
+          effect.status === 'burn' || effect.status === 'poison'
+            ? cardAmount(effect.amount, ctx.amplified)
+            : effect.amount;
+        const field = STATUS_FIELD[effect.status];
+        for (const enemy of toAll ? enemies.filter((e) => e.hp > 0) : target ? [target] : []) {
+          enemy[field] = getStatusStacks(enemy, effect.status) + amount;
+        }
+        if (effect.status === 'burn') preview.burn += amount;
+        break;
+      }
+      case 'gain_status':
+        break;
+      case 'draw':
+        preview.draw += effect.amount;
+        break;
+      case 'gain_energy':
+        preview.energy += effect.amount;
+        break;
+      case 'conditional':
+        if (isConditionMet(effect.condition, target, hp, ctx.hpMax)) {
+          queue.unshift(...effect.effects);
+        }
+        break;
+    }
+  }
+
+  return preview;
+}
+
+// ─── Enemy intents ──────────────────────────────────────────────
+
+const ATTACK_INTENTS: EnemyIntentType[] = [
+  'attack',
+  'heavy_attack',
+  'charge_attack',
+  'multi_hit',
+  'lifesteal',
+];
+
+/** Catalog intent with the template's value/hits overrides applied. SQL: _enemy_intent */
+export function resolveEnemyIntent(
+  templateId: string | undefined,
+  intentCode: number,
+): EnemyIntent {
+  const intent = getEnemyIntent(intentCode);
+  const override = templateId
+    ? getEnemyTemplate(templateId)?.intentOverrides?.[intent.code]
+    : undefined;
+  return { ...intent, ...override };
+}
+
+/** Target rule of an intent, with the template's override if it has one. SQL: _enemy_target_rule */
+export function getIntentTargetRule(
+  templateId: string | undefined,
+  intentCode: number,
+): EnemyTargetRule | null {
+  const override = templateId
+    ? getEnemyTemplate(templateId)?.intentTargeting?.[intentCode]
+    : undefined;
+  return override ?? getEnemyIntent(intentCode).target;
+}
+
+/** Resolves what an enemy will do this turn, with exact per-hit damage for attacks. */
+export function previewEnemyIntent(
+  intentCode: number,
+  enemy: Pick<EnemyCombatState, 'strength' | 'weakened'> & {
+    templateId?: string;
+    strengthDown?: number;
+  },
+  targetVulnerable = 0,
+): EnemyIntentPreview {
+  const intent = resolveEnemyIntent(enemy.templateId, intentCode);
+  const strength = enemy.strength - (enemy.strengthDown ?? 0);
+  const damagePerHit = ATTACK_INTENTS.includes(intent.type)
+    ? enemyAttackDamage(intent.value, strength, enemy.weakened, targetVulnerable)
+    : null;
+  return { ...intent, damagePerHit };
+}
+
+export type {
+  CardPreview,
+  CardPreviewContext,
+  EnemyHitResult,
+  EnemyIntentPreview,
+  EnemyTargetState,
+};
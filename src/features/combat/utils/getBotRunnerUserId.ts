@@ -0,0 +1,15 @@
+type RoomPlayer = {
+  user_id: string;
+  is_bot: boolean;
+  is_connected: boolean;
+};
+
+/**
+ * User who runs the bot turns (mirrors _bot_runner_user_id): the host while connected,
+ * otherwise the first connected human. Players are expected in player_id order.
+ */
+export function getBotRunnerUserId(players: RoomPlayer[], hostUserId: string): string {
+  const connectedHumans = players.filter((p) => !p.is_bot && p.is_connected);
+  if (connectedHumans.some((p) => p.user_id === hostUserId)) return hostUserId;
+  return connectedHumans[0]?.user_id ?? hostUserId;
+}
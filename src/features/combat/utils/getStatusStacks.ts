@@ -0,0 +1,35 @@
+import type { StatusId } from '@/features/gameConfig';
+
+/** Field holding a status on the camelCased combat state (SQL columns use the status id) */
+type StatusField =
+  | 'burn'
+  | 'poison'
+  | 'vulnerable'
+  | 'weakened'
+  | 'frail'
+  | 'stun'
+  | 'strength'
+  | 'strengthDown'
+  | 'thorns'
+  | 'regen';
+
+type StatusCarrier = Partial<Record<StatusField, number>>;
+
+export const STATUS_FIELD: Record<StatusId, StatusField> = {
+  burn: 'burn',
+  poison: 'poison',
+  vulnerable: 'vulnerable',
+  weakened: 'weakened',
+  frail: 'frail',
+  stun: 'stun',
+  strength: 'strength',
+  strength_down: 'strengthDown',
+  thorns: 'thorns',
+  regen: 'regen',
+};
+
+export function getStatusStacks(carrier: StatusCarrier, status: StatusId): number {
+  return carrier[STATUS_FIELD[status]] ?? 0;
+}
+
+export type { StatusCarrier, StatusField };
@@ -0,0 +1,96 @@
+/**
+ * Ascension — numbered difficulty levels for repeat runs. Level N applies the modifiers of
+ * levels 1..N. Seeded into public.ascension_levels by bin/generate-sql.ts; the host picks the
+ * level in the lobby (rooms.ascension), up to the highest level they unlocked by winning a run
+ * at the level below (player_ascension).
+ */
+
+import type { BossPhase, EnemyTemplate } from '@/features/gameConfig/encounters';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type AscensionModifier =
+  /** Enemy HP, in percent of the scaled HP, added in seed_enemies_for_screen */
+  | { type: 'enemy_hp'; percent: number }
+  /** Chance in percent that a core fight is an elite fight (generate_adventure) */
+  | { type: 'elite_chance'; percent: number }
+  /** Percentage points taken off the rest heal (generate_adventure) */
+  | { type: 'rest_heal'; percent: number }
+  /** Cards removed from each pick of combat_generate_rewards (at least one is left) */
+  | { type: 'reward_choices'; count: number }
+  /** Bosses enter one more phase at this HP percent: cleanse and enrage (_advance_boss_phases) */
+  | { type: 'boss_phase'; hpPercent: number; strength: number };
+
+type AscensionLevelNumber = 1 | 2 | 3 | 4 | 5;
+
+type AscensionLevel = {
+  level: AscensionLevelNumber;
+  icon: string;
+  /** Interpolated with the modifier's fields */
+  labelKey: `ascension.level${AscensionLevelNumber}`;
+  modifier: AscensionModifier;
+};
+
+// ─── Registry ───────────────────────────────────────────────────
+
+const ASCENSION_LEVELS: AscensionLevel[] = [
+  {
+    level: 1,
+    icon: '💪',
+    labelKey: 'ascension.level1',
+    modifier: { type: 'enemy_hp', percent: 15 },
+  },
+  {
+    level: 2,
+    icon: '💀',
+    labelKey: 'ascension.level2',
+    modifier: { type: 'elite_chance', percent: 30 },
+  },
+  {
+    level: 3,
+    icon: '🏕️',
+    labelKey: 'ascension.level3',
+    modifier: { type: 'rest_heal', percent: 20 },
+  },
+  {
+    level: 4,
+    icon: '🎁',
+    labelKey: 'ascension.level4',
+    modifier: { type: 'reward_choices', count: 1 },
+  },
+  {
+    level: 5,
+    icon: '🐉',
+    labelKey: 'ascension.level5',
+    modifier: { type: 'boss_phase', hpPercent: 20, strength: 3 },
+  },
+];
+
+const MAX_ASCENSION = ASCENSION_LEVELS.length;
+
+/** Levels whose modifiers apply at `ascension` (all levels up to it) */
+const getAscensionLevels = (ascension: number): AscensionLevel[] =>
+  ASCENSION_LEVELS.filter((level) => level.level <= ascension);
+
+/**
+ * Phases of a boss at `ascension`: the template's own, then the boss_phase modifier's extra
+ * phase, which keeps the last pattern. Enemies without phases get none.
+ */
+const getBossPhases = (template: EnemyTemplate, ascension: number): BossPhase[] => {
+  const phases = template.phases ?? [];
+  const extra = getAscensionLevels(ascension)
+    .map((level) => level.modifier)
+    .find((modifier) => modifier.type === 'boss_phase');
+  if (phases.length === 0 || !extra) return phases;
+  return [
+    ...phases,
+    {
+      hpPercent: extra.hpPercent,
+      intentPattern: phases[phases.length - 1].intentPattern,
+      actions: [{ type: 'cleanse' }, { type: 'enrage', strength: extra.strength }],
+    },
+  ];
+};
+
+export type { AscensionLevel, AscensionModifier };
+export { ASCENSION_LEVELS, getAscensionLevels, getBossPhases, MAX_ASCENSION };
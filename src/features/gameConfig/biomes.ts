@@ -1,6 +1,7 @@
 /**
  * Biomes define the visual and narrative context of each phase.
- * Add new biomes here — the adventure generator picks randomly.
+ * Add new biomes here — the host picks one in the lobby, or the adventure generator rolls one.
+ * Run `bun run db:generate` after editing: generate_adventure reads them from public.biomes.
  */
 
 export type Biome = {
@@ -14,11 +15,15 @@ export type Biome = {
   };
 };
 
-type BiomePhase = {
+export type BiomePhase = {
   theme: string;
   ambiance: string;
   narratives: NarrativeTemplate[];
   combatIntro: string;
+  /** Boss fought at the end of this phase (bossId on the boss_fight screen) */
+  bossId?: string;
+  /** Name the boss enemy takes in the fight; required with bossId */
+  bossName?: string;
   bossIntro?: string;
 };
 
@@ -170,6 +175,8 @@ export const BIOMES: Biome[] = [
           },
         ],
         combatIntro: 'Cursed creatures lurch from the shadows.',
+        bossId: 'forest_guardian',
+        bossName: 'Forest Guardian',
         bossIntro: 'The Forest Guardian rises — a twisted amalgam of wood and fury.',
       },
       resolve: {
@@ -177,6 +184,8 @@ export const BIOMES: Biome[] = [
         ambiance: 'An ancient tree towers above, pulsing with dark energy.',
         narratives: [],
         combatIntro: 'The corruption manifests as a towering beast.',
+        bossId: 'elder_treant',
+        bossName: 'Elder Treant',
         bossIntro: 'The Elder Treant awakens, roots tearing through the earth.',
       },
     },
@@ -291,6 +300,8 @@ export const BIOMES: Biome[] = [
           },
         ],
         combatIntro: 'Sewer dwellers emerge, weapons crude but deadly.',
+        bossId: 'sewer_king',
+        bossName: 'Sewer King',
         bossIntro: 'The Sewer King rises from the depths, crowned in filth.',
       },
       resolve: {
@@ -298,6 +309,8 @@ export const BIOMES: Biome[] = [
         ambiance: 'A vast cavern lit by bioluminescent fungi. A throne of bones.',
         narratives: [],
         combatIntro: 'The lord of the sewers will not let you leave.',
+        bossId: 'the_abomination',
+        bossName: 'The Abomination',
         bossIntro: 'The Abomination unfolds — a mass of flesh and metal, fused by dark magic.',
       },
     },
@@ -393,6 +406,8 @@ export const BIOMES: Biome[] = [
           },
         ],
         combatIntro: 'The undead garrison awakens.',
+        bossId: 'death_knight',
+        bossName: 'Death Knight',
         bossIntro: 'The Death Knight draws a blade of black flame.',
       },
       resolve: {
@@ -400,8 +415,30 @@ export const BIOMES: Biome[] = [
         ambiance: 'Chains rattle. A portal of dark energy crackles in the center.',
         narratives: [],
         combatIntro: 'The source of corruption guards the portal.',
+        bossId: 'lich_commander',
+        bossName: 'Lich Commander',
         bossIntro: 'The Lich Commander emerges, surrounded by a choir of the damned.',
       },
     },
   },
 ];
+
+/** A biome by id (rooms.biome), undefined while it is not rolled yet */
+export const getBiome = (biomeId: string | null | undefined): Biome | undefined =>
+  BIOMES.find((b) => b.id === biomeId);
+
+/** Theme, ambiance and fight intro of a biome's phase, undefined for an unknown biome */
+export const getBiomePhase = (
+  biomeId: string | null | undefined,
+  phase: keyof Biome['phases'],
+): BiomePhase | undefined => getBiome(biomeId)?.phases[phase];
+
+/** Intro line of a boss, looked up by its bossId across all biome phases */
+export const getBossIntro = (bossId: string): string | undefined => {
+  for (const biome of BIOMES) {
+    for (const phase of Object.values(biome.phases)) {
+      if (phase.bossId === bossId) return phase.bossIntro;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,234 @@
+/**
+ * Bot policies — how combat_bot_turn scores the cards in a bot's hand. Each seat picks a policy
+ * and a difficulty in the lobby (room_players.bot_policy / bot_difficulty); both are seeded into
+ * public.bot_policies and public.bot_difficulties by bin/generate-sql.ts. Every play is logged
+ * with the reason that won (a bot_decision combat event).
+ */
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type BotPolicyId =
+  | 'balanced'
+  | 'cautious_tank'
+  | 'greedy_damage'
+  | 'convergence_hunter'
+  | 'support';
+
+type BotDifficultyId = 'easy' | 'normal' | 'hard';
+
+/** Score per point of each card outcome */
+type BotPolicyWeights = {
+  damage: number;
+  /** Own block; see BotDifficulty.blockSkill for block past the incoming damage */
+  block: number;
+  /** Own heal, up to the missing HP */
+  heal: number;
+  /** Heal and block landing on allies */
+  support: number;
+  /** Burn and poison stacks */
+  dot: number;
+  /** Any other status stack, applied or gained */
+  status: number;
+  draw: number;
+  energy: number;
+  /** Per trait charge a non-empowered play adds toward empowerment */
+  charge: number;
+  /** Flat bonus for a play that kills its target */
+  kill: number;
+};
+
+/** Which enemy single-target cards aim at */
+type BotTargetRule = 'lowest_hp' | 'highest_threat';
+
+type BotPolicy = {
+  id: BotPolicyId;
+  icon: string;
+  labelKey: `bots.${BotPolicyId}`;
+  descriptionKey: `bots.${BotPolicyId}_desc`;
+  weights: BotPolicyWeights;
+  /** Under this HP percent, block and heal count double */
+  lowHpPercent: number;
+  target: BotTargetRule;
+  /** Converges once this many traits are empowered (at least COMBAT.convergenceRequiredTraits) */
+  convergeAt: number;
+};
+
+type BotDifficulty = {
+  id: BotDifficultyId;
+  labelKey: `bots.${BotDifficultyId}`;
+  /**
+   * 0..1 share of the amplify bonus and of trait charging the bot sees. At 0 it plays blind to
+   * empowerment and never converges.
+   */
+  empowerSkill: number;
+  /** 0..1 share of the value of block past the incoming damage it stops seeing */
+  blockSkill: number;
+};
+
+/** Reason logged with each bot play (combat_events.source of a bot_decision event) */
+type BotDecisionReason =
+  | 'lethal'
+  | 'damage'
+  | 'block'
+  | 'heal'
+  | 'support'
+  | 'dot'
+  | 'status'
+  | 'draw'
+  | 'energy'
+  | 'charge'
+  | 'empowered'
+  | 'converge'
+  | 'fallback';
+
+// ─── Registry ───────────────────────────────────────────────────
+
+const BOT_POLICIES: BotPolicy[] = [
+  {
+    id: 'balanced',
+    icon: '⚖️',
+    labelKey: 'bots.balanced',
+    descriptionKey: 'bots.balanced_desc',
+    weights: {
+      damage: 1,
+      block: 0.6,
+      heal: 0.8,
+      support: 0.5,
+      dot: 1,
+      status: 2,
+      draw: 3,
+      energy: 4,
+      charge: 1,
+      kill: 10,
+    },
+    lowHpPercent: 40,
+    target: 'lowest_hp',
+    convergeAt: 2,
+  },
+  {
+    id: 'cautious_tank',
+    icon: '🛡️',
+    labelKey: 'bots.cautious_tank',
+    descriptionKey: 'bots.cautious_tank_desc',
+    weights: {
+      damage: 0.6,
+      block: 1.5,
+      heal: 1,
+      support: 0.8,
+      dot: 0.6,
+      status: 2,
+      draw: 2,
+      energy: 3,
+      charge: 0.5,
+      kill: 5,
+    },
+    lowHpPercent: 60,
+    target: 'highest_threat',
+    convergeAt: 3,
+  },
+  {
+    id: 'greedy_damage',
+    icon: '🗡️',
+    labelKey: 'bots.greedy_damage',
+    descriptionKey: 'bots.greedy_damage_desc',
+    weights: {
+      damage: 1.5,
+      block: 0.2,
+      heal: 0.3,
+      support: 0.1,
+      dot: 1.2,
+      status: 1,
+      draw: 2,
+      energy: 4,
+      charge: 0.5,
+      kill: 20,
+    },
+    lowHpPercent: 20,
+    target: 'lowest_hp',
+    convergeAt: 2,
+  },
+  {
+    id: 'convergence_hunter',
+    icon: '🌀',
+    labelKey: 'bots.convergence_hunter',
+    descriptionKey: 'bots.convergence_hunter_desc',
+    weights: {
+      damage: 0.8,
+      block: 0.6,
+      heal: 0.6,
+      support: 0.4,
+      dot: 0.8,
+      status: 1,
+      draw: 3,
+      energy: 3,
+      charge: 6,
+      kill: 8,
+    },
+    lowHpPercent: 40,
+    target: 'lowest_hp',
+    convergeAt: 2,
+  },
+  {
+    id: 'support',
+    icon: '💚',
+    labelKey: 'bots.support',
+    descriptionKey: 'bots.support_desc',
+    weights: {
+      damage: 0.6,
+      block: 0.6,
+      heal: 1,
+      support: 2,
+      dot: 0.6,
+      status: 2,
+      draw: 2,
+      energy: 3,
+      charge: 1,
+      kill: 5,
+    },
+    lowHpPercent: 50,
+    target: 'highest_threat',
+    convergeAt: 3,
+  },
+];
+
+const BOT_DIFFICULTIES: BotDifficulty[] = [
+  { id: 'easy', labelKey: 'bots.easy', empowerSkill: 0, blockSkill: 0 },
+  { id: 'normal', labelKey: 'bots.normal', empowerSkill: 0.5, blockSkill: 0.5 },
+  { id: 'hard', labelKey: 'bots.hard', empowerSkill: 1, blockSkill: 1 },
+];
+
+const DEFAULT_BOT_POLICY: BotPolicyId = 'balanced';
+const DEFAULT_BOT_DIFFICULTY: BotDifficultyId = 'normal';
+
+const BOT_POLICY_BY_ID = Object.fromEntries(BOT_POLICIES.map((p) => [p.id, p])) as Record<
+  BotPolicyId,
+  BotPolicy
+>;
+
+const BOT_DIFFICULTY_BY_ID = Object.fromEntries(BOT_DIFFICULTIES.map((d) => [d.id, d])) as Record<
+  BotDifficultyId,
+  BotDifficulty
+>;
+
+const isBotPolicyId = (id: string): id is BotPolicyId => id in BOT_POLICY_BY_ID;
+const isBotDifficultyId = (id: string): id is BotDifficultyId => id in BOT_DIFFICULTY_BY_ID;
+
+export type {
+  BotDecisionReason,
+  BotDifficulty,
+  BotDifficultyId,
+  BotPolicy,
+  BotPolicyId,
+  BotPolicyWeights,
+  BotTargetRule,
+};
+export {
+  BOT_DIFFICULTIES,
+  BOT_DIFFICULTY_BY_ID,
+  BOT_POLICIES,
+  BOT_POLICY_BY_ID,
+  DEFAULT_BOT_DIFFICULTY,
+  DEFAULT_BOT_POLICY,
+  isBotDifficultyId,
+  isBotPolicyId,
+};
@@ -0,0 +1,160 @@
+import type {
+  Card,
+  CardAllyTarget,
+  CardCondition,
+  CardDefinition,
+  CardEffect,
+  CardEnemyStatus,
+  CardKeyword,
+} from '@/features/gameConfig/cardTypes';
+
+const STATUS_LABEL: Record<CardEnemyStatus, string> = {
+  vulnerable: 'Vuln',
+  weakened: 'Weak',
+  burn: 'Burn',
+  poison: 'Poison',
+  frail: 'Frail',
+  stun: 'Stun',
+  strength_down: 'Str Down',
+};
+
+const ALLY_TARGET_SUFFIX: Record<CardAllyTarget, string> = {
+  self: '',
+  ally: ' to an ally',
+  any_ally: ' to anyone',
+  all_allies: ' to all allies',
+};
+
+// ─── Description generation ────────────────────────────────────
+
+const describeCondition = (condition: CardCondition): string => {
+  switch (condition.type) {
+    case 'target_has_status':
+      return `if ${STATUS_LABEL[condition.status]}`;
+    case 'hp_below_percent':
+      return `if below ${condition.percent}% HP`;
+  }
+};
+
+const describeEffect = (effect: CardEffect, targetsAllMentioned: boolean): string => {
+  const toAll = 'target' in effect && effect.target === 'all_enemies' && !targetsAllMentioned;
+
+  switch (effect.type) {
+    case 'damage': {
+      const hits = effect.hits && effect.hits > 1 ? ` ×${effect.hits}` : '';
+      return `Deal ${effect.amount} damage${toAll ? ' to all' : ''}${hits}.`;
+    }
+    case 'block': {
+      const persists = effect.persists ? ' Persists.' : '';
+      if (!effect.target || effect.target === 'self')
+        return `Gain ${effect.amount} Block.${persists}`;
+      return `Give ${effect.amount} Block${ALLY_TARGET_SUFFIX[effect.target]}.${persists}`;
+    }
+    case 'heal':
+      return `Heal ${effect.amount}${ALLY_TARGET_SUFFIX[effect.target ?? 'self']}.`;
+    case 'self_damage':
+      return `Take ${effect.amount} damage.`;
+    case 'apply_status':
+      return `${STATUS_LABEL[effect.status]} ${effect.amount}${toAll ? ' to all' : ''}.`;
+    case 'gain_status':
+      return `+${effect.amount} ${effect.status === 'thorns' ? 'Thorns' : 'Regen'}${ALLY_TARGET_SUFFIX[effect.target ?? 'self']}.`;
+    case 'draw':
+      return `Draw ${effect.amount} card${effect.amount > 1 ? 's' : ''}.`;
+    case 'gain_energy':
+      return `Gain ${effect.amount} Energy.`;
+    case 'conditional': {
+      const [only] = effect.effects;
+      // Compact form for the common "+N if Vuln" bonus hit
+      if (effect.effects.length === 1 && only.type === 'damage' && !only.hits && !only.target) {
+        return `+${only.amount} ${describeCondition(effect.condition)}.`;
+      }
+      const inner = describeCardEffects(effect.effects).replace(/\.$/, '');
+      return `${describeCondition(effect.condition).replace(/^if/, 'If')}: ${inner}.`;
+    }
+  }
+};
+
+/** Builds card text from its effect list, e.g. "Deal 8 damage to all. Weak 1." */
+const describeCardEffects = (effects: CardEffect[]): string => {
+  let targetsAllMentioned = false;
+
+  return effects
+    .map((effect) => {
+      const text = describeEffect(effect, targetsAllMentioned);
+      if ('target' in effect && effect.target === 'all_enemies') targetsAllMentioned = true;
+      return text;
+    })
+    .join(' ');
+};
+
+// ─── Summary stats ─────────────────────────────────────────────
+
+/** First non-self support target, looking inside conditionals */
+const findAllyTarget = (effects: CardEffect[]): Card['allyTarget'] => {
+  for (const effect of effects) {
+    if (effect.type === 'conditional') {
+      const inner = findAllyTarget(effect.effects);
+      if (inner) return inner;
+    } else if (
+      (effect.type === 'heal' || effect.type === 'block' || effect.type === 'gain_status') &&
+      effect.target &&
+      effect.target !== 'self'
+    ) {
+      return effect.target;
+    }
+  }
+  return undefined;
+};
+
+const sumEffects = (
+  effects: CardEffect[],
+  predicate: (effect: CardEffect) => boolean,
+): number | undefined => {
+  const total = effects
+    .filter(predicate)
+    .reduce((sum, e) => sum + ('amount' in e ? e.amount : 0), 0);
+  return total > 0 ? total : undefined;
+};
+
+const summarizeEffects = (effects: CardEffect[]) => ({
+  damage: effects.find((e): e is Extract<CardEffect, { type: 'damage' }> => e.type === 'damage')
+    ?.amount,
+  block: sumEffects(effects, (e) => e.type === 'block'),
+  heal: sumEffects(effects, (e) => e.type === 'heal'),
+  burn: sumEffects(effects, (e) => e.type === 'apply_status' && e.status === 'burn'),
+});
+
+/**
+ * Expands authored card definitions into full cards. Descriptions and the legacy
+ * base/upgraded stat fields are always derived from the effect lists.
+ */
+const defineCards = (definitions: CardDefinition[]): Card[] =>
+  definitions.map((definition) => {
+    const base = summarizeEffects(definition.effects);
+    const upgraded = summarizeEffects(definition.upgradedEffects);
+    const isAoe = definition.effects.some((e) => 'target' in e && e.target === 'all_enemies');
+
+    return {
+      ...definition,
+      description: describeCardEffects(definition.effects),
+      upgradeDescription: describeCardEffects(definition.upgradedEffects),
+      baseDamage: base.damage,
+      baseBlock: base.block,
+      baseHeal: base.heal,
+      baseBurn: base.burn,
+      upgradedDamage: upgraded.damage,
+      upgradedBlock: upgraded.block,
+      upgradedHeal: upgraded.heal,
+      upgradedBurn: upgraded.burn,
+      isAoe: isAoe || undefined,
+      allyTarget: findAllyTarget(definition.effects),
+    };
+  });
+
+const getCardEffects = (card: CardDefinition, upgraded: boolean): CardEffect[] =>
+  upgraded ? card.upgradedEffects : card.effects;
+
+const hasKeyword = (card: CardDefinition, keyword: CardKeyword): boolean =>
+  card.keywords?.includes(keyword) ?? false;
+
+export { defineCards, describeCardEffects, getCardEffects, hasKeyword };
@@ -28,15 +28,67 @@ type TraitMeta = {
 
 type CardVfxTarget = 'self' | 'self_to_target' | 'target';
 
-type Card = {
+// ─── Card effects ──────────────────────────────────────────────
+// Effects are resolved in order by combat_play_card (mirrored in card_definitions.effects).
+
+type CardEffectTarget = 'enemy' | 'all_enemies';
+/** Who heal/block/gain_status lands on. 'ally' excludes the caster, 'any_ally' doesn't. */
+type CardAllyTarget = 'self' | 'ally' | 'any_ally' | 'all_allies';
+type CardEnemyStatus =
+  | 'vulnerable'
+  | 'weakened'
+  | 'burn'
+  | 'poison'
+  | 'frail'
+  | 'stun'
+  | 'strength_down';
+type CardSelfStatus = 'thorns' | 'regen';
+
+type CardCondition =
+  | { type: 'target_has_status'; status: CardEnemyStatus }
+  | { type: 'hp_below_percent'; percent: number };
+
+type CardEffect =
+  | { type: 'damage'; amount: number; hits?: number; target?: CardEffectTarget }
+  | { type: 'block'; amount: number; persists?: boolean; target?: CardAllyTarget }
+  | { type: 'heal'; amount: number; target?: CardAllyTarget }
+  | { type: 'self_damage'; amount: number }
+  | { type: 'apply_status'; status: CardEnemyStatus; amount: number; target?: CardEffectTarget }
+  | { type: 'gain_status'; status: CardSelfStatus; amount: number; target?: CardAllyTarget }
+  | { type: 'draw'; amount: number }
+  | { type: 'gain_energy'; amount: number }
+  | { type: 'conditional'; condition: CardCondition; effects: CardEffect[] };
+
+// ─── Card keywords ─────────────────────────────────────────────
+// Deck-zone rules applied by the combat RPCs (card_definitions.keywords).
+// innate: starts in the opening hand · retain: stays in hand across the redraw
+// ethereal: exhausted if still in hand at end of turn · exhaust: removed for the rest of combat once played
+// unplayable: can't be played
+
+type CardKeyword = 'innate' | 'retain' | 'ethereal' | 'exhaust' | 'unplayable';
+
+/** Authored card data — text and summary stats are derived from the effects. */
+type CardDefinition = {
   id: string;
   name: string;
   cost: number;
   trait: Trait;
-  description: string;
   upgraded: false;
   upgradeThreshold: number;
   upgradeName: string;
+  effects: CardEffect[];
+  upgradedEffects: CardEffect[];
+  keywords?: CardKeyword[];
+  isRare?: boolean;
+  isSignature?: boolean;
+  starterRole?: RoleId;
+  vfxSequenceId?: string;
+  vfxEffectId?: string;
+  vfxTarget?: CardVfxTarget;
+};
+
+type Card = CardDefinition & {
+  description: string;
   upgradeDescription: string;
   baseDamage?: number;
   baseBlock?: number;
@@ -47,12 +99,8 @@ type Card = {
   upgradedHeal?: number;
   upgradedBurn?: number;
   isAoe?: boolean;
-  isRare?: boolean;
-  isSignature?: boolean;
-  starterRole?: RoleId;
-  vfxSequenceId?: string;
-  vfxEffectId?: string;
-  vfxTarget?: CardVfxTarget;
+  /** Set when the card's support effects land on someone other than the caster */
+  allyTarget?: Exclude<CardAllyTarget, 'self'>;
 };
 
 type ConvergenceEffect = {
@@ -70,4 +118,35 @@ type ConvergenceEffect = {
   scalePerUpgradeRank: number;
 };
 
-export type { Card, CardVfxTarget, ConvergenceEffect, Trait, TraitMeta };
+/** Party finisher for a pair of roles converging in the same player phase */
+type TeamConvergence = {
+  id: string;
+  roles: [RoleId, RoleId];
+  name: string;
+  icon: string;
+  base: {
+    damage?: number;
+    block?: number;
+    heal?: number;
+    vulnerable?: number;
+    weakened?: number;
+    burn?: number;
+  };
+};
+
+export type {
+  Card,
+  CardAllyTarget,
+  CardCondition,
+  CardDefinition,
+  CardEffect,
+  CardEffectTarget,
+  CardEnemyStatus,
+  CardKeyword,
+  CardSelfStatus,
+  CardVfxTarget,
+  ConvergenceEffect,
+  TeamConvergence,
+  Trait,
+  TraitMeta,
+};
@@ -0,0 +1,56 @@
+/**
+ * Deck surgery — services that edit a character's run deck (characters.deck).
+ * Seeded into public.deck_operations by bin/generate-sql.ts. Shops sell them through
+ * shop_deck_operation at an escalating price; rests offer one for free instead of healing.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type DeckOperationId = 'remove' | 'transform' | 'duplicate';
+
+type DeckOperation = {
+  id: DeckOperationId;
+  icon: string;
+  labelKey: `deckOps.${DeckOperationId}`;
+  descriptionKey: `deckOps.${DeckOperationId}_desc`;
+  /** Shop price of the first purchase */
+  shopCost: number;
+  /** Added to every shop price for each deck operation the character already bought */
+  costStep: number;
+};
+
+// ─── Registry ───────────────────────────────────────────────────
+
+const DECK_OPERATIONS: DeckOperation[] = [
+  {
+    id: 'remove',
+    icon: '✂️',
+    labelKey: 'deckOps.remove',
+    descriptionKey: 'deckOps.remove_desc',
+    shopCost: 50,
+    costStep: 25,
+  },
+  {
+    id: 'transform',
+    icon: '🔀',
+    labelKey: 'deckOps.transform',
+    descriptionKey: 'deckOps.transform_desc',
+    shopCost: 40,
+    costStep: 25,
+  },
+  {
+    id: 'duplicate',
+    icon: '📑',
+    labelKey: 'deckOps.duplicate',
+    descriptionKey: 'deckOps.duplicate_desc',
+    shopCost: 60,
+    costStep: 25,
+  },
+];
+
+/** Shop price after `opsBought` earlier purchases (mirrors shop_deck_operation) */
+const getDeckOperationCost = (operation: DeckOperation, opsBought: number): number =>
+  operation.shopCost + operation.costStep * opsBought;
+
+export type { DeckOperation, DeckOperationId };
+export { DECK_OPERATIONS, getDeckOperationCost };
@@ -1,13 +1,27 @@
 /**
  * Enemy templates and encounter definitions.
  * Enemies have intent patterns, HP/strength scaling per fight.
+ * Codes in intentPattern index the intent catalog in enemyIntents.ts.
+ * Encounters are seeded into public.encounters by bin/generate-sql.ts; seed_enemies_for_screen
+ * rolls every fight from the ones matching the screen's bloc, phase, biome and elite/boss flags.
  */
 
-// ─── Enemy intent types ─────────────────────────────────────────
-// Intent values in patterns map to actions:
-// 0 = attack, 1 = defend (gain block), 2 = buff (gain strength),
-// 3 = heavy attack, 4 = multi-attack, 5 = debuff player,
-// 6 = charge up (next attack stronger), 7 = special
+import type { EnemyIntentOverride, EnemyTargetRule } from '@/features/gameConfig/enemyIntents';
+import type { PhaseType } from '@/types/adventure';
+
+/** One-off action a boss takes when it enters a phase */
+type BossPhaseAction =
+  | { type: 'cleanse' }
+  | { type: 'enrage'; strength: number }
+  | { type: 'summon'; templateId: string; count: number };
+
+type BossPhase = {
+  /** Entered once HP drops to this percent of max HP or below */
+  hpPercent: number;
+  /** Replaces the intent pattern from this phase on (restarting at its first intent) */
+  intentPattern: number[];
+  actions: BossPhaseAction[];
+};
 
 type EnemyTemplate = {
   id: string;
@@ -18,19 +32,47 @@ type EnemyTemplate = {
   scalingPerFight: number;
   strengthScaling: number;
   intentPattern: number[];
+  /** Overrides of the catalog's value/hits, keyed by intent code */
+  intentOverrides?: Partial<Record<number, EnemyIntentOverride>>;
+  /** Overrides of the catalog's target rule, keyed by intent code */
+  intentTargeting?: Partial<Record<number, EnemyTargetRule>>;
+  /** Boss phases, by descending hpPercent. Resolved server-side by _advance_boss_phases. */
+  phases?: BossPhase[];
 };
 
 type EncounterEnemy = {
   templateId: string;
+  /** Multiplies the template's scaled HP, default 1 */
   hpMult?: number;
 };
 
 type Encounter = {
+  id: string;
   description: string;
+  /** Blocs (1..ADVENTURE.totalBlocs) it can roll in */
+  blocs: number[];
+  /** Adventure phase of the screen: core fights, resolve bosses */
+  phase: PhaseType;
+  /** Biome ids it belongs to; omitted = every biome */
+  biomes?: string[];
+  /** Only rolled for boss_fight screens; the first enemy takes the screen's bossName */
   isBoss?: boolean;
+  /** Only rolled for elite fights (ascension elite_chance) */
+  isElite?: boolean;
+  /** Relative odds among the matching encounters, default 1 */
+  weight?: number;
   enemies: EncounterEnemy[];
 };
 
+type EncounterSlot = {
+  bloc: number;
+  phase: PhaseType;
+  /** null when the run has no biome: every encounter matches */
+  biome: string | null;
+  isBoss: boolean;
+  isElite: boolean;
+};
+
 // ─── Enemy templates ────────────────────────────────────────────
 
 const ENEMY_TEMPLATES: EnemyTemplate[] = [
@@ -53,6 +95,7 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     scalingPerFight: 1.26,
     strengthScaling: 0.6,
     intentPattern: [2, 0, 3, 1, 2, 0],
+    intentTargeting: { 0: 'last_attacker' },
   },
   {
     id: 'plague-rat',
@@ -62,7 +105,9 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     icon: '🐀',
     scalingPerFight: 1.15,
     strengthScaling: 0.3,
-    intentPattern: [0, 4, 0, 6, 0, 4],
+    intentPattern: [0, 8, 0, 6, 0, 4],
+    intentOverrides: { 6: { value: 3, hits: 3 } },
+    intentTargeting: { 0: 'lowest_hp', 6: 'lowest_hp' },
   },
   {
     id: 'shadow-fiend',
@@ -73,6 +118,7 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     scalingPerFight: 1.3,
     strengthScaling: 0.5,
     intentPattern: [4, 0, 7, 0, 1, 4],
+    intentTargeting: { 0: 'last_attacker', 1: 'last_attacker' },
   },
   {
     id: 'iron-golem',
@@ -82,7 +128,8 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     icon: '🗿',
     scalingPerFight: 1.2,
     strengthScaling: 1,
-    intentPattern: [2, 3, 0, 2, 1, 5],
+    intentPattern: [2, 3, 0, 9, 1, 5],
+    intentOverrides: { 1: { value: 24 }, 2: { value: 20 } },
   },
   {
     id: 'dread-warden',
@@ -93,6 +140,11 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     scalingPerFight: 1.15,
     strengthScaling: 1,
     intentPattern: [0, 2, 1, 3, 0, 4, 6, 0, 5, 7, 2, 1],
+    intentTargeting: { 6: 'party' },
+    phases: [
+      { hpPercent: 66, intentPattern: [1, 2, 6, 0, 5], actions: [{ type: 'cleanse' }] },
+      { hpPercent: 33, intentPattern: [5, 6, 1, 7], actions: [{ type: 'enrage', strength: 3 }] },
+    ],
   },
   {
     id: 'chaos-wyrm',
@@ -103,6 +155,19 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     scalingPerFight: 1,
     strengthScaling: 0,
     intentPattern: [5, 3, 6, 1, 0, 7, 3, 5, 1, 6],
+    intentOverrides: { 6: { value: 7, hits: 4 } },
+    phases: [
+      {
+        hpPercent: 66,
+        intentPattern: [6, 5, 3, 7],
+        actions: [{ type: 'summon', templateId: 'plague-rat', count: 2 }],
+      },
+      {
+        hpPercent: 33,
+        intentPattern: [5, 6, 5, 7, 1],
+        actions: [{ type: 'cleanse' }, { type: 'enrage', strength: 4 }],
+      },
+    ],
   },
   {
     id: 'pine-wolf',
@@ -113,6 +178,8 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     scalingPerFight: 1.16,
     strengthScaling: 0.6,
     intentPattern: [0, 6, 4, 0, 5, 3],
+    intentOverrides: { 6: { value: 4, hits: 3 } },
+    intentTargeting: { 0: 'lowest_hp', 6: 'lowest_hp' },
   },
   {
     id: 'road-blackguard',
@@ -133,6 +200,7 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     scalingPerFight: 1.12,
     strengthScaling: 0.7,
     intentPattern: [4, 0, 6, 1, 5, 0],
+    intentTargeting: { 0: 'lowest_hp' },
   },
   {
     id: 'totem-warden',
@@ -163,6 +231,13 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     scalingPerFight: 1.1,
     strengthScaling: 1,
     intentPattern: [2, 0, 5, 1, 3, 0, 6],
+    phases: [
+      {
+        hpPercent: 50,
+        intentPattern: [2, 1, 6, 0, 5],
+        actions: [{ type: 'summon', templateId: 'road-blackguard', count: 1 }],
+      },
+    ],
   },
   {
     id: 'ogre-lord',
@@ -173,6 +248,16 @@ const ENEMY_TEMPLATES: EnemyTemplate[] = [
     scalingPerFight: 1.02,
     strengthScaling: 0.6,
     intentPattern: [3, 0, 5, 1, 6, 0, 7, 2],
+    intentOverrides: { 6: { value: 8, hits: 3 } },
+    intentTargeting: { 1: 'party' },
+    phases: [
+      { hpPercent: 66, intentPattern: [1, 6, 3, 5, 0], actions: [{ type: 'enrage', strength: 2 }] },
+      {
+        hpPercent: 33,
+        intentPattern: [5, 1, 6, 7],
+        actions: [{ type: 'cleanse' }, { type: 'enrage', strength: 3 }],
+      },
+    ],
   },
 ];
 
@@ -183,24 +268,188 @@ const ENEMY_TEMPLATE_BY_ID: Record<string, EnemyTemplate> = Object.fromEntries(
 // ─── Encounters ─────────────────────────────────────────────────
 
 const ENCOUNTERS: Encounter[] = [
+  // Any biome
   {
-    description: 'A lone scout blocks your path.',
-    enemies: [{ templateId: 'hollow-scout' }],
-  },
-  {
-    description: 'A skeletal guardian awakens.',
-    enemies: [{ templateId: 'bone-guardian' }],
+    id: 'scout-patrol',
+    description: 'Hollow scouts patrol the path.',
+    blocs: [1, 2],
+    phase: 'core',
+    enemies: [{ templateId: 'hollow-scout' }, { templateId: 'hollow-scout', hpMult: 0.8 }],
   },
   {
+    id: 'rat-swarm',
     description: 'A swarm of rats ambushes you!',
-    enemies: [{ templateId: 'plague-rat' }, { templateId: 'plague-rat' }],
+    blocs: [1],
+    phase: 'core',
+    enemies: [
+      { templateId: 'plague-rat' },
+      { templateId: 'plague-rat' },
+      { templateId: 'plague-rat' },
+    ],
   },
   {
+    id: 'dark-convergence',
     description: 'Dark forces converge.',
+    blocs: [2, 3],
+    phase: 'core',
     enemies: [{ templateId: 'shadow-fiend' }, { templateId: 'iron-golem', hpMult: 0.8 }],
   },
   {
+    id: 'crossroad-ambush',
+    description: 'Raiders wait where the roads meet.',
+    blocs: [2, 3],
+    phase: 'core',
+    enemies: [{ templateId: 'crossroad-reaver' }, { templateId: 'road-blackguard' }],
+  },
+  // Cursed forest
+  {
+    id: 'wolf-pack',
+    description: 'Wolves circle between the pines.',
+    blocs: [1, 2],
+    phase: 'core',
+    biomes: ['cursed_forest'],
+    weight: 2,
+    enemies: [
+      { templateId: 'pine-wolf' },
+      { templateId: 'pine-wolf' },
+      { templateId: 'pine-wolf', hpMult: 0.7 },
+    ],
+  },
+  {
+    id: 'totem-circle',
+    description: 'A carved totem hums, and the shadows answer.',
+    blocs: [2, 3],
+    phase: 'core',
+    biomes: ['cursed_forest'],
+    weight: 2,
+    enemies: [
+      { templateId: 'totem-warden' },
+      { templateId: 'pine-wolf' },
+      { templateId: 'shadow-fiend', hpMult: 0.8 },
+    ],
+  },
+  // Sunken sewers
+  {
+    id: 'sewer-nest',
+    description: 'Something stirs in the reeds of the drain.',
+    blocs: [1, 2],
+    phase: 'core',
+    biomes: ['sunken_sewers'],
+    weight: 2,
+    enemies: [
+      { templateId: 'plague-rat' },
+      { templateId: 'plague-rat' },
+      { templateId: 'reed-stalker', hpMult: 0.8 },
+    ],
+  },
+  {
+    id: 'reed-ambush',
+    description: 'Stalkers rise from the black water.',
+    blocs: [2, 3],
+    phase: 'core',
+    biomes: ['sunken_sewers'],
+    weight: 2,
+    enemies: [
+      { templateId: 'reed-stalker' },
+      { templateId: 'reed-stalker' },
+      { templateId: 'plague-rat' },
+    ],
+  },
+  // Ruined fortress
+  {
+    id: 'bone-watch',
+    description: 'A skeletal guardian awakens.',
+    blocs: [1, 2],
+    phase: 'core',
+    biomes: ['ruined_fortress'],
+    weight: 2,
+    enemies: [{ templateId: 'bone-guardian' }, { templateId: 'hollow-scout' }],
+  },
+  {
+    id: 'golem-garrison',
+    description: 'The fortress garrison still holds the gate.',
+    blocs: [2, 3],
+    phase: 'core',
+    biomes: ['ruined_fortress'],
+    weight: 2,
+    enemies: [
+      { templateId: 'iron-golem' },
+      { templateId: 'bone-guardian', hpMult: 0.8 },
+      { templateId: 'bone-guardian', hpMult: 0.8 },
+    ],
+  },
+  // Elites
+  {
+    id: 'blackguard-captain',
+    description: 'A blackguard captain and his sworn blade.',
+    blocs: [1, 2, 3],
+    phase: 'core',
+    isElite: true,
+    enemies: [{ templateId: 'road-blackguard', hpMult: 1.3 }, { templateId: 'road-blackguard' }],
+  },
+  {
+    id: 'elder-totem',
+    description: 'An ancient totem, guarded by its pack.',
+    blocs: [1, 2, 3],
+    phase: 'core',
+    biomes: ['cursed_forest'],
+    isElite: true,
+    enemies: [{ templateId: 'totem-warden', hpMult: 1.4 }, { templateId: 'pine-wolf' }],
+  },
+  {
+    id: 'drowned-stalker',
+    description: 'The largest stalker of the sewers, never alone.',
+    blocs: [1, 2, 3],
+    phase: 'core',
+    biomes: ['sunken_sewers'],
+    isElite: true,
+    enemies: [
+      { templateId: 'reed-stalker', hpMult: 1.4 },
+      { templateId: 'plague-rat' },
+      { templateId: 'plague-rat' },
+    ],
+  },
+  {
+    id: 'reaver-champion',
+    description: 'A reaver champion holds the ruined hall.',
+    blocs: [1, 2, 3],
+    phase: 'core',
+    biomes: ['ruined_fortress'],
+    isElite: true,
+    enemies: [{ templateId: 'crossroad-reaver', hpMult: 1.4 }, { templateId: 'bone-guardian' }],
+  },
+  // Bosses
+  {
+    id: 'dread-warden',
+    description: 'The warden bars the way.',
+    blocs: [1, 2],
+    phase: 'resolve',
+    isBoss: true,
+    enemies: [{ templateId: 'dread-warden' }],
+  },
+  {
+    id: 'ogre-lord',
+    description: 'The ogre lord claims this forest.',
+    blocs: [1, 2],
+    phase: 'resolve',
+    biomes: ['cursed_forest'],
+    isBoss: true,
+    enemies: [{ templateId: 'ogre-lord', hpMult: 0.8 }],
+  },
+  {
+    id: 'bridge-keeper',
+    description: 'Drog demands a toll at the sewer bridge.',
+    blocs: [1, 2],
+    phase: 'resolve',
+    biomes: ['sunken_sewers'],
+    isBoss: true,
+    enemies: [{ templateId: 'bridge-keeper-drog' }],
+  },
+  {
+    id: 'chaos-wyrm',
     description: 'The final guardian emerges.',
+    blocs: [3],
+    phase: 'resolve',
     isBoss: true,
     enemies: [{ templateId: 'chaos-wyrm' }],
   },
@@ -208,5 +457,33 @@ const ENCOUNTERS: Encounter[] = [
 
 const getEnemyTemplate = (id: string): EnemyTemplate | undefined => ENEMY_TEMPLATE_BY_ID[id];
 
-export type { Encounter, EncounterEnemy, EnemyTemplate };
-export { ENCOUNTERS, ENEMY_TEMPLATE_BY_ID, ENEMY_TEMPLATES, getEnemyTemplate };
+/** Encounters a fight can roll from: same filter as seed_enemies_for_screen */
+const getEncountersForSlot = (slot: EncounterSlot): Encounter[] =>
+  ENCOUNTERS.filter(
+    (encounter) =>
+      encounter.blocs.includes(slot.bloc) &&
+      encounter.phase === slot.phase &&
+      (slot.biome === null || !encounter.biomes || encounter.biomes.includes(slot.biome)) &&
+      Boolean(encounter.isBoss) === slot.isBoss &&
+      Boolean(encounter.isElite) === slot.isElite,
+  );
+
+/**
+ * Pattern in effect for an enemy: phase 0 is the template's own, phase n the n-th boss phase.
+ * The extra ascension phase past the template's last one keeps that last phase's pattern.
+ */
+const getIntentPattern = (template: EnemyTemplate, phase = 0): number[] => {
+  const phases = template.phases ?? [];
+  const index = Math.min(phase, phases.length) - 1;
+  return (index >= 0 ? phases[index]?.intentPattern : undefined) ?? template.intentPattern;
+};
+
+export type { BossPhase, BossPhaseAction, Encounter, EncounterEnemy, EncounterSlot, EnemyTemplate };
+export {
+  ENCOUNTERS,
+  ENEMY_TEMPLATE_BY_ID,
+  ENEMY_TEMPLATES,
+  getEncountersForSlot,
+  getEnemyTemplate,
+  getIntentPattern,
+};
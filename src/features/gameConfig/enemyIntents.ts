@@ -0,0 +1,164 @@
+/**
+ * Enemy intent catalog — what each code in a template's intentPattern does.
+ * Seeded into public.enemy_intents by bin/generate-sql.ts and read by _resolve_enemy_phase,
+ * so the intent shown on an enemy is always the one the server resolves.
+ */
+
+import type { StatusId } from '@/features/gameConfig/statuses';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type EnemyIntentType =
+  | 'attack'
+  | 'heavy_attack'
+  | 'defend'
+  | 'buff'
+  | 'debuff'
+  | 'charge_attack'
+  | 'multi_hit'
+  | 'lifesteal';
+
+/** Who a damage or debuff intent aims at. Resolved server-side by _retarget_enemies. */
+type EnemyTargetRule = 'random' | 'lowest_hp' | 'highest_block' | 'last_attacker' | 'party';
+
+/** Status stacks the intent applies: buffs go on the enemy itself, debuffs on its target */
+type EnemyIntentStatus = Extract<
+  StatusId,
+  'strength' | 'weakened' | 'vulnerable' | 'poison' | 'frail'
+>;
+
+type EnemyIntent = {
+  /** Code used in intentPattern */
+  code: number;
+  type: EnemyIntentType;
+  /** Damage per hit, block gained or status stacks applied */
+  value: number;
+  hits: number;
+  status?: EnemyIntentStatus;
+  /** Default target rule, null when the intent has no player target */
+  target: EnemyTargetRule | null;
+  icon: string;
+  labelKey: `intents.${EnemyIntentType}`;
+};
+
+/** Per-template tweak of an intent, e.g. a rat's weaker multi-hit */
+type EnemyIntentOverride = {
+  value?: number;
+  hits?: number;
+};
+
+// ─── Catalog ────────────────────────────────────────────────────
+
+const ENEMY_INTENTS: EnemyIntent[] = [
+  {
+    code: 0,
+    type: 'attack',
+    value: 10,
+    hits: 1,
+    target: 'random',
+    icon: '⚔️',
+    labelKey: 'intents.attack',
+  },
+  {
+    code: 1,
+    type: 'heavy_attack',
+    value: 20,
+    hits: 1,
+    target: 'highest_block',
+    icon: '💥',
+    labelKey: 'intents.heavy_attack',
+  },
+  {
+    code: 2,
+    type: 'defend',
+    value: 14,
+    hits: 1,
+    target: null,
+    icon: '🛡️',
+    labelKey: 'intents.defend',
+  },
+  {
+    code: 3,
+    type: 'buff',
+    value: 3,
+    hits: 1,
+    status: 'strength',
+    target: null,
+    icon: '💪',
+    labelKey: 'intents.buff',
+  },
+  {
+    code: 4,
+    type: 'debuff',
+    value: 2,
+    hits: 1,
+    status: 'weakened',
+    target: 'party',
+    icon: '🩸',
+    labelKey: 'intents.debuff',
+  },
+  {
+    code: 5,
+    type: 'charge_attack',
+    value: 32,
+    hits: 1,
+    target: 'party',
+    icon: '🔥',
+    labelKey: 'intents.charge_attack',
+  },
+  {
+    code: 6,
+    type: 'multi_hit',
+    value: 5,
+    hits: 4,
+    target: 'random',
+    icon: '⚔️⚔️',
+    labelKey: 'intents.multi_hit',
+  },
+  {
+    code: 7,
+    type: 'lifesteal',
+    value: 10,
+    hits: 1,
+    target: 'lowest_hp',
+    icon: '🧛',
+    labelKey: 'intents.lifesteal',
+  },
+  {
+    code: 8,
+    type: 'debuff',
+    value: 4,
+    hits: 1,
+    status: 'poison',
+    target: 'lowest_hp',
+    icon: '🧪',
+    labelKey: 'intents.debuff',
+  },
+  {
+    code: 9,
+    type: 'debuff',
+    value: 2,
+    hits: 1,
+    status: 'frail',
+    target: 'highest_block',
+    icon: '🦴',
+    labelKey: 'intents.debuff',
+  },
+];
+
+const ENEMY_INTENT_BY_CODE: Record<number, EnemyIntent> = Object.fromEntries(
+  ENEMY_INTENTS.map((intent) => [intent.code, intent]),
+);
+
+/** Unknown codes fall back to a basic attack, like _resolve_enemy_phase */
+const getEnemyIntent = (code: number): EnemyIntent =>
+  ENEMY_INTENT_BY_CODE[code] ?? ENEMY_INTENT_BY_CODE[0];
+
+export type {
+  EnemyIntent,
+  EnemyIntentOverride,
+  EnemyIntentStatus,
+  EnemyIntentType,
+  EnemyTargetRule,
+};
+export { ENEMY_INTENT_BY_CODE, ENEMY_INTENTS, getEnemyIntent };
@@ -1,5 +1,5 @@
 /**
- * Game config barrel — all game data: cards, traits, biomes, enemies, encounters, identities, bonuses, riddles, shop.
+ * Game config barrel — all game data: ascension levels, bot policies, cards, traits, biomes, enemies, encounters, identities, bonuses, deck operations, potions, relics, riddles, shop, statuses.
  */
 
 import type { Card, Trait } from '@/features/gameConfig/cardTypes';
@@ -30,36 +30,115 @@ const getStarterDeck = (roleId: RoleId): Card[] => STARTER_DECKS[roleId];
 
 // ─── Card re-exports ────────────────────────────────────────────
 
+// ─── Ascension ──────────────────────────────────────────────────
+export type { AscensionLevel, AscensionModifier } from '@/features/gameConfig/ascension';
+export {
+  ASCENSION_LEVELS,
+  getAscensionLevels,
+  getBossPhases,
+  MAX_ASCENSION,
+} from '@/features/gameConfig/ascension';
 // ─── Biomes ─────────────────────────────────────────────────────
-export type { Biome } from '@/features/gameConfig/biomes';
-export { BIOMES } from '@/features/gameConfig/biomes';
+export type { Biome, BiomePhase } from '@/features/gameConfig/biomes';
+export { BIOMES, getBiome, getBiomePhase, getBossIntro } from '@/features/gameConfig/biomes';
 // ─── Bonuses ────────────────────────────────────────────────────
 export type { Bonus } from '@/features/gameConfig/bonuses';
 export { BONUS_BY_ID, BONUSES } from '@/features/gameConfig/bonuses';
+// ─── Bot policies ───────────────────────────────────────────────
+export type {
+  BotDecisionReason,
+  BotDifficulty,
+  BotDifficultyId,
+  BotPolicy,
+  BotPolicyId,
+  BotPolicyWeights,
+  BotTargetRule,
+} from '@/features/gameConfig/botPolicies';
+export {
+  BOT_DIFFICULTIES,
+  BOT_DIFFICULTY_BY_ID,
+  BOT_POLICIES,
+  BOT_POLICY_BY_ID,
+  DEFAULT_BOT_DIFFICULTY,
+  DEFAULT_BOT_POLICY,
+  isBotDifficultyId,
+  isBotPolicyId,
+} from '@/features/gameConfig/botPolicies';
+export {
+  defineCards,
+  describeCardEffects,
+  getCardEffects,
+  hasKeyword,
+} from '@/features/gameConfig/cardEffects';
 export type {
   Card,
+  CardAllyTarget,
+  CardCondition,
+  CardDefinition,
+  CardEffect,
+  CardEffectTarget,
+  CardEnemyStatus,
+  CardKeyword,
+  CardSelfStatus,
   CardVfxTarget,
   ConvergenceEffect,
+  TeamConvergence,
   Trait,
   TraitMeta,
 } from '@/features/gameConfig/cardTypes';
+// ─── Deck operations ────────────────────────────────────────────
+export type { DeckOperation, DeckOperationId } from '@/features/gameConfig/deckOperations';
+export { DECK_OPERATIONS, getDeckOperationCost } from '@/features/gameConfig/deckOperations';
 // ─── Encounters & enemy templates ───────────────────────────────
-export type { Encounter, EncounterEnemy, EnemyTemplate } from '@/features/gameConfig/encounters';
+export type {
+  BossPhase,
+  BossPhaseAction,
+  Encounter,
+  EncounterEnemy,
+  EncounterSlot,
+  EnemyTemplate,
+} from '@/features/gameConfig/encounters';
 export {
   ENCOUNTERS,
   ENEMY_TEMPLATE_BY_ID,
   ENEMY_TEMPLATES,
+  getEncountersForSlot,
   getEnemyTemplate,
+  getIntentPattern,
 } from '@/features/gameConfig/encounters';
-// ─── Legacy enemies (biome-based) ───────────────────────────────
+// ─── Enemy intents ──────────────────────────────────────────────
 export type {
-  BossTemplate,
-  EnemyTemplate as BiomeEnemyTemplate,
-} from '@/features/gameConfig/enemies';
-export { ENEMIES_BY_BIOME } from '@/features/gameConfig/enemies';
+  EnemyIntent,
+  EnemyIntentOverride,
+  EnemyIntentStatus,
+  EnemyIntentType,
+  EnemyTargetRule,
+} from '@/features/gameConfig/enemyIntents';
+export {
+  ENEMY_INTENT_BY_CODE,
+  ENEMY_INTENTS,
+  getEnemyIntent,
+} from '@/features/gameConfig/enemyIntents';
 // ─── Identities ─────────────────────────────────────────────────
 export type { Identity } from '@/features/gameConfig/identities';
 export { getIdentityById, IDENTITIES, IDENTITY_BY_ID } from '@/features/gameConfig/identities';
+// ─── Potions ────────────────────────────────────────────────────
+export type { PotionDefinition, PotionEffect } from '@/features/gameConfig/potions';
+export {
+  getPotionById,
+  POTION_BELT_SLOTS,
+  POTION_BY_ID,
+  POTIONS,
+} from '@/features/gameConfig/potions';
+// ─── Relics ─────────────────────────────────────────────────────
+export type {
+  RelicDefinition,
+  RelicEffect,
+  RelicHook,
+  RelicRarity,
+  RelicTrigger,
+} from '@/features/gameConfig/relics';
+export { getRelicById, isRelicId, RELIC_BY_ID, RELICS } from '@/features/gameConfig/relics';
 export { REWARD_CARD_POOL } from '@/features/gameConfig/rewardPool';
 // ─── Riddles ────────────────────────────────────────────────────
 export type { Riddle } from '@/features/gameConfig/riddles';
@@ -67,12 +146,33 @@ export { RIDDLES } from '@/features/gameConfig/riddles';
 // ─── Shop ───────────────────────────────────────────────────────
 export type { ShopItem } from '@/features/gameConfig/shop';
 export { getAvailableItems, SHOP_ITEMS } from '@/features/gameConfig/shop';
+// ─── Statuses ───────────────────────────────────────────────────
+export type {
+  StatusDecay,
+  StatusDefinition,
+  StatusId,
+  StatusSide,
+  StatusStacking,
+  StatusTick,
+  StatusTickEffect,
+} from '@/features/gameConfig/statuses';
+export {
+  getStatusesForSide,
+  isStatusId,
+  STATUS_BY_ID,
+  STATUSES,
+} from '@/features/gameConfig/statuses';
 export {
   CONVERGENCE_BY_TRAIT,
   CONVERGENCE_COUNT_MULTIPLIERS,
   getConvergenceMultiplier,
   getSchoolsForRole,
+  getTeamConvergence,
+  getTeamConvergenceMultiplier,
   SCHOOLS_BY_ROLE,
+  TEAM_CONVERGENCE_COUNT_MULTIPLIERS,
+  TEAM_CONVERGENCE_VFX_SEQUENCE_ID,
+  TEAM_CONVERGENCES,
   TRAIT_MAP,
   TRAITS,
 } from '@/features/gameConfig/traits';
@@ -0,0 +1,78 @@
+/**
+ * Potions — consumables kept on a character's belt until drunk mid-combat.
+ * Seeded into public.potion_definitions by bin/generate-sql.ts, bought in shops through
+ * shop_buy_potion and drunk through combat_use_potion, which costs no energy.
+ */
+
+import type { RelicEffect } from '@/features/gameConfig/relics';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/** Same shapes as relic effects, resolved by the same SQL helper */
+type PotionEffect = RelicEffect;
+
+type PotionDefinition = {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  effects: PotionEffect[];
+  shopCost: number;
+};
+
+// ─── Registry ───────────────────────────────────────────────────
+
+/** Belt size of a new character; a full belt can't buy more */
+const POTION_BELT_SLOTS = 3;
+
+const POTIONS: PotionDefinition[] = [
+  {
+    id: 'healing-potion',
+    name: 'Healing Potion',
+    description: 'Heal 20 HP.',
+    icon: '🧪',
+    effects: [{ type: 'heal', amount: 20 }],
+    shopCost: 20,
+  },
+  {
+    id: 'stoneskin-potion',
+    name: 'Stoneskin Potion',
+    description: 'Gain 12 Block.',
+    icon: '🛡️',
+    effects: [{ type: 'block', amount: 12 }],
+    shopCost: 20,
+  },
+  {
+    id: 'energy-potion',
+    name: 'Energy Potion',
+    description: 'Gain 2 energy.',
+    icon: '⚡',
+    effects: [{ type: 'gain_energy', amount: 2 }],
+    shopCost: 25,
+  },
+  {
+    id: 'weakness-potion',
+    name: 'Weakness Potion',
+    description: 'Apply 2 Weakened to all enemies.',
+    icon: '☠️',
+    effects: [{ type: 'apply_status', status: 'weakened', amount: 2 }],
+    shopCost: 25,
+  },
+  {
+    id: 'swift-potion',
+    name: 'Swift Potion',
+    description: 'Draw 2 cards.',
+    icon: '🌀',
+    effects: [{ type: 'draw', amount: 2 }],
+    shopCost: 20,
+  },
+];
+
+const POTION_BY_ID: Record<string, PotionDefinition> = Object.fromEntries(
+  POTIONS.map((potion) => [potion.id, potion]),
+);
+
+const getPotionById = (id: string): PotionDefinition | undefined => POTION_BY_ID[id];
+
+export type { PotionDefinition, PotionEffect };
+export { getPotionById, POTION_BELT_SLOTS, POTION_BY_ID, POTIONS };
@@ -0,0 +1,190 @@
+/**
+ * Relics — passive items a character keeps for the whole run.
+ * Seeded into public.relic_definitions by bin/generate-sql.ts and fired by the combat RPCs
+ * through _trigger_relics. Commons drop from fight rewards and shops, boss relics from bosses.
+ */
+
+import type { CardEnemyStatus, CardSelfStatus, Trait } from '@/features/gameConfig/cardTypes';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type RelicRarity = 'common' | 'boss';
+
+/**
+ * When the relic fires. hp_below fires once per combat, the first time the owner's HP
+ * drops under the percentage (checked after card plays and after the enemy phase).
+ */
+type RelicTrigger =
+  | { hook: 'combat_start' }
+  | { hook: 'turn_start' }
+  | { hook: 'card_played'; trait: Trait }
+  | { hook: 'enemy_killed' }
+  | { hook: 'hp_below'; percent: number };
+
+type RelicHook = RelicTrigger['hook'];
+
+/** Same shapes as card effects. Damage and apply_status hit every enemy, the rest the owner. */
+type RelicEffect =
+  | { type: 'damage'; amount: number }
+  | { type: 'block'; amount: number }
+  | { type: 'heal'; amount: number }
+  | { type: 'apply_status'; status: CardEnemyStatus; amount: number }
+  | { type: 'gain_status'; status: CardSelfStatus; amount: number }
+  | { type: 'draw'; amount: number }
+  | { type: 'gain_energy'; amount: number };
+
+type RelicDefinition = {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  rarity: RelicRarity;
+  trigger: RelicTrigger;
+  effects: RelicEffect[];
+  /** Offered in shops at this price; boss relics are never sold */
+  shopCost?: number;
+};
+
+// ─── Registry ───────────────────────────────────────────────────
+// Order is firing order when several relics share a hook.
+
+const RELICS: RelicDefinition[] = [
+  // Common
+  {
+    id: 'anchor-stone',
+    name: 'Anchor Stone',
+    description: 'Start each combat with 10 Block.',
+    icon: '⚓',
+    rarity: 'common',
+    trigger: { hook: 'combat_start' },
+    effects: [{ type: 'block', amount: 10 }],
+    shopCost: 60,
+  },
+  {
+    id: 'travel-pack',
+    name: 'Travel Pack',
+    description: 'Draw 2 cards at the start of each combat.',
+    icon: '🎒',
+    rarity: 'common',
+    trigger: { hook: 'combat_start' },
+    effects: [{ type: 'draw', amount: 2 }],
+    shopCost: 60,
+  },
+  {
+    id: 'mending-moss',
+    name: 'Mending Moss',
+    description: 'Heal 2 HP at the start of each turn.',
+    icon: '🍀',
+    rarity: 'common',
+    trigger: { hook: 'turn_start' },
+    effects: [{ type: 'heal', amount: 2 }],
+    shopCost: 70,
+  },
+  {
+    id: 'whetstone',
+    name: 'Whetstone',
+    description: 'Whenever you play a Rage card, deal 3 damage to all enemies.',
+    icon: '🪨',
+    rarity: 'common',
+    trigger: { hook: 'card_played', trait: 'rage' },
+    effects: [{ type: 'damage', amount: 3 }],
+    shopCost: 70,
+  },
+  {
+    id: 'ember-charm',
+    name: 'Ember Charm',
+    description: 'Whenever you play a Fire card, apply 2 Burn to all enemies.',
+    icon: '🏮',
+    rarity: 'common',
+    trigger: { hook: 'card_played', trait: 'fire' },
+    effects: [{ type: 'apply_status', status: 'burn', amount: 2 }],
+    shopCost: 70,
+  },
+  {
+    id: 'thornbark-totem',
+    name: 'Thornbark Totem',
+    description: 'Whenever you play a Nature card, gain 2 Thorns.',
+    icon: '🪵',
+    rarity: 'common',
+    trigger: { hook: 'card_played', trait: 'nature' },
+    effects: [{ type: 'gain_status', status: 'thorns', amount: 2 }],
+    shopCost: 70,
+  },
+  {
+    id: 'vampire-fang',
+    name: 'Vampire Fang',
+    description: 'Whenever you kill an enemy, heal 6 HP.',
+    icon: '🦷',
+    rarity: 'common',
+    trigger: { hook: 'enemy_killed' },
+    effects: [{ type: 'heal', amount: 6 }],
+    shopCost: 80,
+  },
+  {
+    id: 'war-trophy',
+    name: 'War Trophy',
+    description: 'Whenever you kill an enemy, gain 1 energy.',
+    icon: '🏆',
+    rarity: 'common',
+    trigger: { hook: 'enemy_killed' },
+    effects: [{ type: 'gain_energy', amount: 1 }],
+    shopCost: 80,
+  },
+  {
+    id: 'last-stand-banner',
+    name: 'Last Stand Banner',
+    description: 'The first time you drop below 50% HP in a combat, gain 15 Block and 3 Regen.',
+    icon: '🚩',
+    rarity: 'common',
+    trigger: { hook: 'hp_below', percent: 50 },
+    effects: [
+      { type: 'block', amount: 15 },
+      { type: 'gain_status', status: 'regen', amount: 3 },
+    ],
+    shopCost: 75,
+  },
+
+  // Boss
+  {
+    id: 'crown-of-embers',
+    name: 'Crown of Embers',
+    description:
+      'At the start of each combat, gain 1 energy and apply 2 Vulnerable to all enemies.',
+    icon: '👑',
+    rarity: 'boss',
+    trigger: { hook: 'combat_start' },
+    effects: [
+      { type: 'gain_energy', amount: 1 },
+      { type: 'apply_status', status: 'vulnerable', amount: 2 },
+    ],
+  },
+  {
+    id: 'storm-idol',
+    name: 'Storm Idol',
+    description: 'Draw 1 extra card at the start of each turn.',
+    icon: '🗿',
+    rarity: 'boss',
+    trigger: { hook: 'turn_start' },
+    effects: [{ type: 'draw', amount: 1 }],
+  },
+  {
+    id: 'phoenix-ash',
+    name: 'Phoenix Ash',
+    description: 'The first time you drop below 25% HP in a combat, heal 25 HP.',
+    icon: '🪶',
+    rarity: 'boss',
+    trigger: { hook: 'hp_below', percent: 25 },
+    effects: [{ type: 'heal', amount: 25 }],
+  },
+];
+
+const RELIC_BY_ID: Record<string, RelicDefinition> = Object.fromEntries(
+  RELICS.map((relic) => [relic.id, relic]),
+);
+
+const isRelicId = (value: string): boolean => value in RELIC_BY_ID;
+
+const getRelicById = (id: string): RelicDefinition | undefined => RELIC_BY_ID[id];
+
+export type { RelicDefinition, RelicEffect, RelicHook, RelicRarity, RelicTrigger };
+export { getRelicById, isRelicId, RELIC_BY_ID, RELICS };
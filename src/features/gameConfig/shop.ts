@@ -1,6 +1,7 @@
 /**
  * Shop items available per phase/bloc.
  * Add new items here — the shop screen picks from these.
+ * Potions are sold separately for the belt, see POTIONS.
  */
 
 export type ShopItem = {
@@ -14,35 +15,6 @@ export type ShopItem = {
 };
 
 export const SHOP_ITEMS: ShopItem[] = [
-  // Healing
-  {
-    id: 'potion_small',
-    name: 'Small Potion',
-    description: 'Restores 15 HP',
-    icon: '🧪',
-    cost: 10,
-    effect: { hpDelta: 15 },
-    minBloc: 1,
-  },
-  {
-    id: 'potion_medium',
-    name: 'Medium Potion',
-    description: 'Restores 30 HP',
-    icon: '🧪',
-    cost: 20,
-    effect: { hpDelta: 30 },
-    minBloc: 1,
-  },
-  {
-    id: 'potion_large',
-    name: 'Large Potion',
-    description: 'Restores 50 HP',
-    icon: '🧪',
-    cost: 40,
-    effect: { hpDelta: 50 },
-    minBloc: 2,
-  },
-
   // Experience
   {
     id: 'scroll_wisdom',
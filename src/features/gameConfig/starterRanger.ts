@@ -1,19 +1,24 @@
+import { defineCards } from '@/features/gameConfig/cardEffects';
 import type { Card } from '@/features/gameConfig/cardTypes';
 
-const RANGER_STARTER: Card[] = [
+const RANGER_STARTER: Card[] = defineCards([
   // ── Shadow (3 starters) ────────────────────────────────────────
   {
     id: 'r-shadow-mark',
     name: 'Shadow Mark',
     cost: 1,
     trait: 'shadow',
-    description: 'Deal 4 damage. Vuln 2.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Deep Mark',
-    upgradeDescription: 'Deal 6 damage. Vuln 3.',
-    baseDamage: 4,
-    upgradedDamage: 6,
+    effects: [
+      { type: 'damage', amount: 4 },
+      { type: 'apply_status', status: 'vulnerable', amount: 2 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 6 },
+      { type: 'apply_status', status: 'vulnerable', amount: 3 },
+    ],
     starterRole: 'ranger',
   },
   {
@@ -21,13 +26,17 @@ const RANGER_STARTER: Card[] = [
     name: 'Nick',
     cost: 0,
     trait: 'shadow',
-    description: 'Deal 2 damage. Weak 1.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Nick+',
-    upgradeDescription: 'Deal 4 damage. Weak 1.',
-    baseDamage: 2,
-    upgradedDamage: 4,
+    effects: [
+      { type: 'damage', amount: 2 },
+      { type: 'apply_status', status: 'weakened', amount: 1 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 4 },
+      { type: 'apply_status', status: 'weakened', amount: 1 },
+    ],
     starterRole: 'ranger',
     vfxSequenceId: 'Seq_IceShard',
     vfxTarget: 'self_to_target',
@@ -37,13 +46,11 @@ const RANGER_STARTER: Card[] = [
     name: 'Ambush',
     cost: 2,
     trait: 'shadow',
-    description: 'Deal 12 damage.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Ambush+',
-    upgradeDescription: 'Deal 16 damage.',
-    baseDamage: 12,
-    upgradedDamage: 16,
+    effects: [{ type: 'damage', amount: 12 }],
+    upgradedEffects: [{ type: 'damage', amount: 16 }],
     starterRole: 'ranger',
   },
   // ── Nature (3 starters) ────────────────────────────────────────
@@ -52,13 +59,11 @@ const RANGER_STARTER: Card[] = [
     name: 'Sprout',
     cost: 0,
     trait: 'nature',
-    description: 'Heal 3.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Sprout+',
-    upgradeDescription: 'Heal 5.',
-    baseHeal: 3,
-    upgradedHeal: 5,
+    effects: [{ type: 'heal', amount: 3 }],
+    upgradedEffects: [{ type: 'heal', amount: 5 }],
     starterRole: 'ranger',
     vfxSequenceId: 'Seq_GreenTest',
     vfxTarget: 'self',
@@ -68,15 +73,17 @@ const RANGER_STARTER: Card[] = [
     name: 'Vine Lash',
     cost: 1,
     trait: 'nature',
-    description: 'Deal 4 damage. Heal 4.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Vine Lash+',
-    upgradeDescription: 'Deal 6 damage. Heal 6.',
-    baseDamage: 4,
-    upgradedDamage: 6,
-    baseHeal: 4,
-    upgradedHeal: 6,
+    effects: [
+      { type: 'damage', amount: 4 },
+      { type: 'heal', amount: 4 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 6 },
+      { type: 'heal', amount: 6 },
+    ],
     starterRole: 'ranger',
     vfxSequenceId: 'Seq_GreenTest',
     vfxTarget: 'self_to_target',
@@ -86,13 +93,17 @@ const RANGER_STARTER: Card[] = [
     name: 'Regrowth',
     cost: 2,
     trait: 'nature',
-    description: 'Heal 8. +1 Regen.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Regrowth+',
-    upgradeDescription: 'Heal 12. +2 Regen.',
-    baseHeal: 8,
-    upgradedHeal: 12,
+    effects: [
+      { type: 'heal', amount: 8 },
+      { type: 'gain_status', status: 'regen', amount: 1 },
+    ],
+    upgradedEffects: [
+      { type: 'heal', amount: 12 },
+      { type: 'gain_status', status: 'regen', amount: 2 },
+    ],
     starterRole: 'ranger',
     vfxSequenceId: 'Seq_GreenTest',
     vfxTarget: 'self',
@@ -103,13 +114,11 @@ const RANGER_STARTER: Card[] = [
     name: 'Quick Shot',
     cost: 0,
     trait: 'precision',
-    description: 'Deal 3 damage.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Quick Shot+',
-    upgradeDescription: 'Deal 5 damage.',
-    baseDamage: 3,
-    upgradedDamage: 5,
+    effects: [{ type: 'damage', amount: 3 }],
+    upgradedEffects: [{ type: 'damage', amount: 5 }],
     starterRole: 'ranger',
   },
   {
@@ -117,13 +126,11 @@ const RANGER_STARTER: Card[] = [
     name: 'Aimed Shot',
     cost: 1,
     trait: 'precision',
-    description: 'Deal 9 damage.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Aimed Shot+',
-    upgradeDescription: 'Deal 12 damage.',
-    baseDamage: 9,
-    upgradedDamage: 12,
+    effects: [{ type: 'damage', amount: 9 }],
+    upgradedEffects: [{ type: 'damage', amount: 12 }],
     starterRole: 'ranger',
   },
   {
@@ -131,13 +138,11 @@ const RANGER_STARTER: Card[] = [
     name: 'Snipe',
     cost: 2,
     trait: 'precision',
-    description: 'Deal 16 damage.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Snipe+',
-    upgradeDescription: 'Deal 22 damage.',
-    baseDamage: 16,
-    upgradedDamage: 22,
+    effects: [{ type: 'damage', amount: 16 }],
+    upgradedEffects: [{ type: 'damage', amount: 22 }],
     starterRole: 'ranger',
   },
   // ── Venom (3 starters) ─────────────────────────────────────────
@@ -146,13 +151,11 @@ const RANGER_STARTER: Card[] = [
     name: 'Poison Dart',
     cost: 0,
     trait: 'venom',
-    description: 'Burn 3.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Poison Dart+',
-    upgradeDescription: 'Burn 5.',
-    baseBurn: 3,
-    upgradedBurn: 5,
+    effects: [{ type: 'apply_status', status: 'burn', amount: 3 }],
+    upgradedEffects: [{ type: 'apply_status', status: 'burn', amount: 5 }],
     starterRole: 'ranger',
   },
   {
@@ -160,15 +163,17 @@ const RANGER_STARTER: Card[] = [
     name: 'Toxic Strike',
     cost: 1,
     trait: 'venom',
-    description: 'Deal 5 damage. Burn 4.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Toxic Strike+',
-    upgradeDescription: 'Deal 7 damage. Burn 6.',
-    baseDamage: 5,
-    upgradedDamage: 7,
-    baseBurn: 4,
-    upgradedBurn: 6,
+    effects: [
+      { type: 'damage', amount: 5 },
+      { type: 'apply_status', status: 'burn', amount: 4 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 7 },
+      { type: 'apply_status', status: 'burn', amount: 6 },
+    ],
     starterRole: 'ranger',
   },
   {
@@ -176,18 +181,19 @@ const RANGER_STARTER: Card[] = [
     name: 'Acid Splash',
     cost: 2,
     trait: 'venom',
-    description: 'Deal 6 damage to all. Burn 3.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Acid Splash+',
-    upgradeDescription: 'Deal 9 damage to all. Burn 5.',
-    baseDamage: 6,
-    upgradedDamage: 9,
-    baseBurn: 3,
-    upgradedBurn: 5,
-    isAoe: true,
+    effects: [
+      { type: 'damage', amount: 6, target: 'all_enemies' },
+      { type: 'apply_status', status: 'burn', amount: 3, target: 'all_enemies' },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 9, target: 'all_enemies' },
+      { type: 'apply_status', status: 'burn', amount: 5, target: 'all_enemies' },
+    ],
     starterRole: 'ranger',
   },
-];
+]);
 
 export { RANGER_STARTER };
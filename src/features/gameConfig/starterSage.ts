@@ -1,21 +1,24 @@
+import { defineCards } from '@/features/gameConfig/cardEffects';
 import type { Card } from '@/features/gameConfig/cardTypes';
 
-const SAGE_STARTER: Card[] = [
+const SAGE_STARTER: Card[] = defineCards([
   // ── Fire (3 starters) ──────────────────────────────────────────
   {
     id: 's-fireball',
     name: 'Fireball',
     cost: 1,
     trait: 'fire',
-    description: 'Deal 7 damage. Burn 3.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Fireball+',
-    upgradeDescription: 'Deal 10 damage. Burn 5.',
-    baseDamage: 7,
-    upgradedDamage: 10,
-    baseBurn: 3,
-    upgradedBurn: 5,
+    effects: [
+      { type: 'damage', amount: 7 },
+      { type: 'apply_status', status: 'burn', amount: 3 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 10 },
+      { type: 'apply_status', status: 'burn', amount: 5 },
+    ],
     starterRole: 'sage',
     vfxSequenceId: 'Seq_fireball',
     vfxTarget: 'self_to_target',
@@ -25,13 +28,11 @@ const SAGE_STARTER: Card[] = [
     name: 'Kindle',
     cost: 0,
     trait: 'fire',
-    description: 'Deal 3 damage.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Kindle+',
-    upgradeDescription: 'Deal 5 damage.',
-    baseDamage: 3,
-    upgradedDamage: 5,
+    effects: [{ type: 'damage', amount: 3 }],
+    upgradedEffects: [{ type: 'damage', amount: 5 }],
     starterRole: 'sage',
     vfxSequenceId: 'Seq_fireball',
     vfxTarget: 'self_to_target',
@@ -41,14 +42,11 @@ const SAGE_STARTER: Card[] = [
     name: 'Flame Wave',
     cost: 2,
     trait: 'fire',
-    description: 'Deal 10 damage to all.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Flame Wave+',
-    upgradeDescription: 'Deal 14 damage to all.',
-    baseDamage: 10,
-    upgradedDamage: 14,
-    isAoe: true,
+    effects: [{ type: 'damage', amount: 10, target: 'all_enemies' }],
+    upgradedEffects: [{ type: 'damage', amount: 14, target: 'all_enemies' }],
     starterRole: 'sage',
   },
   // ── Frost (3 starters) ─────────────────────────────────────────
@@ -57,13 +55,17 @@ const SAGE_STARTER: Card[] = [
     name: 'Ice Shard',
     cost: 1,
     trait: 'frost',
-    description: 'Deal 6 damage. Weak 1.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Ice Shard+',
-    upgradeDescription: 'Deal 9 damage. Weak 2.',
-    baseDamage: 6,
-    upgradedDamage: 9,
+    effects: [
+      { type: 'damage', amount: 6 },
+      { type: 'apply_status', status: 'weakened', amount: 1 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 9 },
+      { type: 'apply_status', status: 'weakened', amount: 2 },
+    ],
     starterRole: 'sage',
     vfxSequenceId: 'Seq_IceShard',
     vfxTarget: 'self_to_target',
@@ -73,13 +75,11 @@ const SAGE_STARTER: Card[] = [
     name: 'Frost Shield',
     cost: 0,
     trait: 'frost',
-    description: 'Gain 4 Block.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Frost Shield+',
-    upgradeDescription: 'Gain 6 Block.',
-    baseBlock: 4,
-    upgradedBlock: 6,
+    effects: [{ type: 'block', amount: 4 }],
+    upgradedEffects: [{ type: 'block', amount: 6 }],
     starterRole: 'sage',
   },
   {
@@ -87,14 +87,17 @@ const SAGE_STARTER: Card[] = [
     name: 'Blizzard',
     cost: 2,
     trait: 'frost',
-    description: 'Deal 6 damage to all. Weak 1.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Blizzard+',
-    upgradeDescription: 'Deal 9 damage to all. Weak 2.',
-    baseDamage: 6,
-    upgradedDamage: 9,
-    isAoe: true,
+    effects: [
+      { type: 'damage', amount: 6, target: 'all_enemies' },
+      { type: 'apply_status', status: 'weakened', amount: 1, target: 'all_enemies' },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 9, target: 'all_enemies' },
+      { type: 'apply_status', status: 'weakened', amount: 2, target: 'all_enemies' },
+    ],
     starterRole: 'sage',
   },
   // ── Storm (3 starters) ─────────────────────────────────────────
@@ -103,13 +106,11 @@ const SAGE_STARTER: Card[] = [
     name: 'Zap',
     cost: 0,
     trait: 'storm',
-    description: 'Deal 3 damage.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Zap+',
-    upgradeDescription: 'Deal 5 damage.',
-    baseDamage: 3,
-    upgradedDamage: 5,
+    effects: [{ type: 'damage', amount: 3 }],
+    upgradedEffects: [{ type: 'damage', amount: 5 }],
     starterRole: 'sage',
   },
   {
@@ -117,13 +118,11 @@ const SAGE_STARTER: Card[] = [
     name: 'Arc Bolt',
     cost: 1,
     trait: 'storm',
-    description: 'Deal 8 damage.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Arc Bolt+',
-    upgradeDescription: 'Deal 11 damage.',
-    baseDamage: 8,
-    upgradedDamage: 11,
+    effects: [{ type: 'damage', amount: 8 }],
+    upgradedEffects: [{ type: 'damage', amount: 11 }],
     starterRole: 'sage',
   },
   {
@@ -131,13 +130,11 @@ const SAGE_STARTER: Card[] = [
     name: 'Thunderstrike',
     cost: 2,
     trait: 'storm',
-    description: 'Deal 14 damage.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Thunderstrike+',
-    upgradeDescription: 'Deal 19 damage.',
-    baseDamage: 14,
-    upgradedDamage: 19,
+    effects: [{ type: 'damage', amount: 14 }],
+    upgradedEffects: [{ type: 'damage', amount: 19 }],
     starterRole: 'sage',
   },
   // ── Arcane (3 starters) ────────────────────────────────────────
@@ -146,13 +143,11 @@ const SAGE_STARTER: Card[] = [
     name: 'Arcane Bolt',
     cost: 1,
     trait: 'arcane',
-    description: 'Deal 6 damage.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Arcane Bolt+',
-    upgradeDescription: 'Deal 9 damage.',
-    baseDamage: 6,
-    upgradedDamage: 9,
+    effects: [{ type: 'damage', amount: 6 }],
+    upgradedEffects: [{ type: 'damage', amount: 9 }],
     starterRole: 'sage',
   },
   {
@@ -160,15 +155,17 @@ const SAGE_STARTER: Card[] = [
     name: 'Mystic Shield',
     cost: 0,
     trait: 'arcane',
-    description: 'Gain 3 Block. Heal 1.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Mystic Shield+',
-    upgradeDescription: 'Gain 5 Block. Heal 2.',
-    baseBlock: 3,
-    upgradedBlock: 5,
-    baseHeal: 1,
-    upgradedHeal: 2,
+    effects: [
+      { type: 'block', amount: 3 },
+      { type: 'heal', amount: 1 },
+    ],
+    upgradedEffects: [
+      { type: 'block', amount: 5 },
+      { type: 'heal', amount: 2 },
+    ],
     starterRole: 'sage',
   },
   {
@@ -176,15 +173,13 @@ const SAGE_STARTER: Card[] = [
     name: 'Arcane Blast',
     cost: 2,
     trait: 'arcane',
-    description: 'Deal 12 damage.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Arcane Blast+',
-    upgradeDescription: 'Deal 16 damage.',
-    baseDamage: 12,
-    upgradedDamage: 16,
+    effects: [{ type: 'damage', amount: 12 }],
+    upgradedEffects: [{ type: 'damage', amount: 16 }],
     starterRole: 'sage',
   },
-];
+]);
 
 export { SAGE_STARTER };
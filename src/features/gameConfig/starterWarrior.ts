@@ -1,19 +1,18 @@
+import { defineCards } from '@/features/gameConfig/cardEffects';
 import type { Card } from '@/features/gameConfig/cardTypes';
 
-const WARRIOR_STARTER: Card[] = [
+const WARRIOR_STARTER: Card[] = defineCards([
   // ── Rage (3 starters) ──────────────────────────────────────────
   {
     id: 'w-strike',
     name: 'Strike',
     cost: 1,
     trait: 'rage',
-    description: 'Deal 8 damage.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Strike+',
-    upgradeDescription: 'Deal 11 damage.',
-    baseDamage: 8,
-    upgradedDamage: 11,
+    effects: [{ type: 'damage', amount: 8 }],
+    upgradedEffects: [{ type: 'damage', amount: 11 }],
     starterRole: 'warrior',
     vfxSequenceId: 'Seq_ShieldDouble',
     vfxTarget: 'target',
@@ -23,13 +22,11 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Quick Slash',
     cost: 0,
     trait: 'rage',
-    description: 'Deal 3 damage.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Quick Slash+',
-    upgradeDescription: 'Deal 5 damage.',
-    baseDamage: 3,
-    upgradedDamage: 5,
+    effects: [{ type: 'damage', amount: 3 }],
+    upgradedEffects: [{ type: 'damage', amount: 5 }],
     starterRole: 'warrior',
     vfxSequenceId: 'Seq_ShieldDouble',
     vfxTarget: 'target',
@@ -39,13 +36,11 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Heavy Blow',
     cost: 2,
     trait: 'rage',
-    description: 'Deal 14 damage.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Crushing Blow',
-    upgradeDescription: 'Deal 19 damage.',
-    baseDamage: 14,
-    upgradedDamage: 19,
+    effects: [{ type: 'damage', amount: 14 }],
+    upgradedEffects: [{ type: 'damage', amount: 19 }],
     starterRole: 'warrior',
     vfxSequenceId: 'Seq_ShieldDouble',
     vfxTarget: 'target',
@@ -56,13 +51,11 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Guard',
     cost: 1,
     trait: 'iron',
-    description: 'Gain 7 Block.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Guard+',
-    upgradeDescription: 'Gain 10 Block.',
-    baseBlock: 7,
-    upgradedBlock: 10,
+    effects: [{ type: 'block', amount: 7 }],
+    upgradedEffects: [{ type: 'block', amount: 10 }],
     starterRole: 'warrior',
     vfxEffectId: 'ShieldSelf',
     vfxTarget: 'self',
@@ -72,13 +65,11 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Brace',
     cost: 0,
     trait: 'iron',
-    description: 'Gain 3 Block.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Brace+',
-    upgradeDescription: 'Gain 5 Block.',
-    baseBlock: 3,
-    upgradedBlock: 5,
+    effects: [{ type: 'block', amount: 3 }],
+    upgradedEffects: [{ type: 'block', amount: 5 }],
     starterRole: 'warrior',
     vfxEffectId: 'ShieldSelf',
     vfxTarget: 'self',
@@ -88,13 +79,11 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Fortify',
     cost: 2,
     trait: 'iron',
-    description: 'Gain 12 Block.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Fortify+',
-    upgradeDescription: 'Gain 16 Block.',
-    baseBlock: 12,
-    upgradedBlock: 16,
+    effects: [{ type: 'block', amount: 12 }],
+    upgradedEffects: [{ type: 'block', amount: 16 }],
     starterRole: 'warrior',
     vfxEffectId: 'ShieldSelf',
     vfxTarget: 'self',
@@ -105,15 +94,17 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Drain Strike',
     cost: 1,
     trait: 'blood',
-    description: 'Deal 5 damage. Heal 3.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Drain Strike+',
-    upgradeDescription: 'Deal 7 damage. Heal 5.',
-    baseDamage: 5,
-    upgradedDamage: 7,
-    baseHeal: 3,
-    upgradedHeal: 5,
+    effects: [
+      { type: 'damage', amount: 5 },
+      { type: 'heal', amount: 3 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 7 },
+      { type: 'heal', amount: 5 },
+    ],
     starterRole: 'warrior',
     vfxSequenceId: 'Seq_GreenTest',
     vfxTarget: 'self_to_target',
@@ -123,13 +114,11 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Blood Pact',
     cost: 0,
     trait: 'blood',
-    description: 'Heal 2.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Blood Pact+',
-    upgradeDescription: 'Heal 4.',
-    baseHeal: 2,
-    upgradedHeal: 4,
+    effects: [{ type: 'heal', amount: 2 }],
+    upgradedEffects: [{ type: 'heal', amount: 4 }],
     starterRole: 'warrior',
     vfxSequenceId: 'Seq_GreenTest',
     vfxTarget: 'self',
@@ -139,15 +128,17 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Siphon',
     cost: 2,
     trait: 'blood',
-    description: 'Deal 8 damage. Heal 6.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Siphon+',
-    upgradeDescription: 'Deal 11 damage. Heal 8.',
-    baseDamage: 8,
-    upgradedDamage: 11,
-    baseHeal: 6,
-    upgradedHeal: 8,
+    effects: [
+      { type: 'damage', amount: 8 },
+      { type: 'heal', amount: 6 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 11 },
+      { type: 'heal', amount: 8 },
+    ],
     starterRole: 'warrior',
     vfxSequenceId: 'Seq_GreenTest',
     vfxTarget: 'self_to_target',
@@ -158,13 +149,17 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Shock',
     cost: 1,
     trait: 'thunder',
-    description: 'Deal 6 damage. Weak 1.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Shock+',
-    upgradeDescription: 'Deal 9 damage. Weak 1.',
-    baseDamage: 6,
-    upgradedDamage: 9,
+    effects: [
+      { type: 'damage', amount: 6 },
+      { type: 'apply_status', status: 'weakened', amount: 1 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 9 },
+      { type: 'apply_status', status: 'weakened', amount: 1 },
+    ],
     starterRole: 'warrior',
     vfxSequenceId: 'Seq_IceShard',
     vfxTarget: 'self_to_target',
@@ -174,13 +169,11 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Spark',
     cost: 0,
     trait: 'thunder',
-    description: 'Deal 2 damage.',
     upgraded: false,
     upgradeThreshold: 3,
     upgradeName: 'Spark+',
-    upgradeDescription: 'Deal 4 damage.',
-    baseDamage: 2,
-    upgradedDamage: 4,
+    effects: [{ type: 'damage', amount: 2 }],
+    upgradedEffects: [{ type: 'damage', amount: 4 }],
     starterRole: 'warrior',
     vfxSequenceId: 'Seq_IceShard',
     vfxTarget: 'self_to_target',
@@ -190,15 +183,19 @@ const WARRIOR_STARTER: Card[] = [
     name: 'Lightning Strike',
     cost: 2,
     trait: 'thunder',
-    description: 'Deal 12 damage. Vuln 1.',
     upgraded: false,
     upgradeThreshold: 2,
     upgradeName: 'Lightning Strike+',
-    upgradeDescription: 'Deal 16 damage. Vuln 1.',
-    baseDamage: 12,
-    upgradedDamage: 16,
+    effects: [
+      { type: 'damage', amount: 12 },
+      { type: 'apply_status', status: 'vulnerable', amount: 1 },
+    ],
+    upgradedEffects: [
+      { type: 'damage', amount: 16 },
+      { type: 'apply_status', status: 'vulnerable', amount: 1 },
+    ],
     starterRole: 'warrior',
   },
-];
+]);
 
 export { WARRIOR_STARTER };
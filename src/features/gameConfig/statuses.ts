@@ -0,0 +1,187 @@
+/**
+ * Status effect registry — how each status stacks, when it ticks and how it decays.
+ * Seeded into public.status_definitions by bin/generate-sql.ts and driven by the combat
+ * RPCs through _apply_status and _tick_statuses, so badges and server rules share one source.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type StatusId =
+  | 'burn'
+  | 'poison'
+  | 'vulnerable'
+  | 'weakened'
+  | 'frail'
+  | 'stun'
+  | 'strength'
+  | 'strength_down'
+  | 'thorns'
+  | 'regen';
+
+/** Who can carry the status (a column on enemy_combat_state / player_combat_state) */
+type StatusSide = 'player' | 'enemy';
+
+/** Phase boundary at which the status triggers its tick effect and decays */
+type StatusTick = 'player_start' | 'player_end' | 'enemy_start' | 'enemy_end';
+
+/** 'add' sums stacks, 'max' keeps the highest application */
+type StatusStacking = 'add' | 'max';
+
+/** Stacks lost per tick */
+type StatusDecay = 'one' | 'all' | 'none';
+
+/** Applied at the tick with the current stacks as amount, ignoring block */
+type StatusTickEffect = 'damage' | 'heal';
+
+type StatusDefinition = {
+  id: StatusId;
+  sides: StatusSide[];
+  kind: 'buff' | 'debuff';
+  stacking: StatusStacking;
+  tick: StatusTick;
+  decay: StatusDecay;
+  tickEffect?: StatusTickEffect;
+  icon: string;
+  labelKey: `statuses.${StatusId}`;
+  descriptionKey: `statuses.${StatusId}_desc`;
+};
+
+// ─── Registry ───────────────────────────────────────────────────
+// Order is tick order when several statuses share a phase boundary.
+
+const STATUSES: StatusDefinition[] = [
+  {
+    id: 'burn',
+    sides: ['enemy', 'player'],
+    kind: 'debuff',
+    stacking: 'add',
+    tick: 'enemy_start',
+    decay: 'one',
+    tickEffect: 'damage',
+    icon: '🔥',
+    labelKey: 'statuses.burn',
+    descriptionKey: 'statuses.burn_desc',
+  },
+  {
+    id: 'poison',
+    sides: ['enemy', 'player'],
+    kind: 'debuff',
+    stacking: 'add',
+    tick: 'player_start',
+    decay: 'one',
+    tickEffect: 'damage',
+    icon: '🧪',
+    labelKey: 'statuses.poison',
+    descriptionKey: 'statuses.poison_desc',
+  },
+  {
+    id: 'vulnerable',
+    sides: ['enemy', 'player'],
+    kind: 'debuff',
+    stacking: 'add',
+    tick: 'enemy_end',
+    decay: 'one',
+    icon: '💔',
+    labelKey: 'statuses.vulnerable',
+    descriptionKey: 'statuses.vulnerable_desc',
+  },
+  {
+    id: 'weakened',
+    sides: ['enemy', 'player'],
+    kind: 'debuff',
+    stacking: 'add',
+    tick: 'enemy_end',
+    decay: 'one',
+    icon: '🩸',
+    labelKey: 'statuses.weakened',
+    descriptionKey: 'statuses.weakened_desc',
+  },
+  {
+    id: 'frail',
+    sides: ['enemy', 'player'],
+    kind: 'debuff',
+    stacking: 'add',
+    tick: 'enemy_end',
+    decay: 'one',
+    icon: '🦴',
+    labelKey: 'statuses.frail',
+    descriptionKey: 'statuses.frail_desc',
+  },
+  {
+    id: 'stun',
+    sides: ['enemy'],
+    kind: 'debuff',
+    stacking: 'max',
+    tick: 'enemy_end',
+    decay: 'one',
+    icon: '💫',
+    labelKey: 'statuses.stun',
+    descriptionKey: 'statuses.stun_desc',
+  },
+  {
+    id: 'strength',
+    sides: ['enemy'],
+    kind: 'buff',
+    stacking: 'add',
+    tick: 'enemy_end',
+    decay: 'none',
+    icon: '💪',
+    labelKey: 'statuses.strength',
+    descriptionKey: 'statuses.strength_desc',
+  },
+  {
+    id: 'strength_down',
+    sides: ['enemy'],
+    kind: 'debuff',
+    stacking: 'add',
+    tick: 'enemy_end',
+    decay: 'all',
+    icon: '📉',
+    labelKey: 'statuses.strength_down',
+    descriptionKey: 'statuses.strength_down_desc',
+  },
+  {
+    id: 'thorns',
+    sides: ['player'],
+    kind: 'buff',
+    stacking: 'add',
+    tick: 'enemy_end',
+    decay: 'all',
+    icon: '🌵',
+    labelKey: 'statuses.thorns',
+    descriptionKey: 'statuses.thorns_desc',
+  },
+  {
+    id: 'regen',
+    sides: ['player'],
+    kind: 'buff',
+    stacking: 'add',
+    tick: 'enemy_end',
+    decay: 'one',
+    tickEffect: 'heal',
+    icon: '💚',
+    labelKey: 'statuses.regen',
+    descriptionKey: 'statuses.regen_desc',
+  },
+];
+
+const STATUS_BY_ID: Record<StatusId, StatusDefinition> = Object.fromEntries(
+  STATUSES.map((status) => [status.id, status]),
+) as Record<StatusId, StatusDefinition>;
+
+const isStatusId = (value: string): value is StatusId => value in STATUS_BY_ID;
+
+/** Statuses a side can carry, in registry order */
+const getStatusesForSide = (side: StatusSide): StatusDefinition[] =>
+  STATUSES.filter((status) => status.sides.includes(side));
+
+export type {
+  StatusDecay,
+  StatusDefinition,
+  StatusId,
+  StatusSide,
+  StatusStacking,
+  StatusTick,
+  StatusTickEffect,
+};
+export { getStatusesForSide, isStatusId, STATUS_BY_ID, STATUSES };
@@ -1,4 +1,9 @@
-import type { ConvergenceEffect, Trait, TraitMeta } from '@/features/gameConfig/cardTypes';
+import type {
+  ConvergenceEffect,
+  TeamConvergence,
+  Trait,
+  TraitMeta,
+} from '@/features/gameConfig/cardTypes';
 import type { RoleId } from '@/types/player';
 
 // ─── All trait definitions ─────────────────────────────────────
@@ -68,12 +73,64 @@ const getConvergenceMultiplier = (empoweredCount: number): number => {
   return CONVERGENCE_COUNT_MULTIPLIERS.twoTraits;
 };
 
+// ─── Team convergence ──────────────────────────────────────────
+// Fires when a second player converges in the same player phase, pairing them with the
+// previous converger. Roles are unique per room, so there is one entry per pair of roles.
+// Damage and burn hit every enemy, block and heal land on every ally.
+
+const TEAM_CONVERGENCES: TeamConvergence[] = [
+  {
+    id: 'molten_steel',
+    roles: ['warrior', 'sage'],
+    name: 'Molten Steel',
+    icon: '🌋',
+    base: { damage: 20, burn: 6 },
+  },
+  {
+    id: 'hunters_charge',
+    roles: ['warrior', 'ranger'],
+    name: "Hunter's Charge",
+    icon: '🐗',
+    base: { damage: 14, block: 8, vulnerable: 2 },
+  },
+  {
+    id: 'starfall_volley',
+    roles: ['sage', 'ranger'],
+    name: 'Starfall Volley',
+    icon: '🌠',
+    base: { damage: 18, weakened: 2 },
+  },
+];
+
+const TEAM_CONVERGENCE_VFX_SEQUENCE_ID = 'Seq_TeamConvergence';
+
+/** Keyed by how many players have converged this phase, the trigger included */
+const TEAM_CONVERGENCE_COUNT_MULTIPLIERS: Record<string, number> = {
+  twoPlayers: 1,
+  threePlayers: 1.5,
+};
+
+const getTeamConvergence = (a: RoleId, b: RoleId): TeamConvergence | undefined =>
+  TEAM_CONVERGENCES.find(
+    ({ roles }) => (roles[0] === a && roles[1] === b) || (roles[0] === b && roles[1] === a),
+  );
+
+const getTeamConvergenceMultiplier = (playerCount: number): number => {
+  if (playerCount >= 3) return TEAM_CONVERGENCE_COUNT_MULTIPLIERS.threePlayers;
+  return TEAM_CONVERGENCE_COUNT_MULTIPLIERS.twoPlayers;
+};
+
 export {
   CONVERGENCE_BY_TRAIT,
   CONVERGENCE_COUNT_MULTIPLIERS,
   getConvergenceMultiplier,
   getSchoolsForRole,
+  getTeamConvergence,
+  getTeamConvergenceMultiplier,
   SCHOOLS_BY_ROLE,
+  TEAM_CONVERGENCE_COUNT_MULTIPLIERS,
+  TEAM_CONVERGENCE_VFX_SEQUENCE_ID,
+  TEAM_CONVERGENCES,
   TRAIT_MAP,
   TRAITS,
 };
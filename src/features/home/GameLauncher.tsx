@@ -5,7 +5,7 @@ import PlayTestMenu from '@/features/home/components/PlayTestMenu';
 import RoomBrowser from '@/features/home/components/RoomBrowser';
 import TitleScreen from '@/features/home/components/TitleScreen';
 import type { ScreenType } from '@/types/adventure';
-import type { RoleId } from '@/types/player';
+import type { BotSeatSettings, RoleId } from '@/types/player';
 
 type Step = 'home' | 'browse' | 'pick' | 'playtest';
 
@@ -48,7 +48,14 @@ const GameLauncher = () => {
     }
   };
 
-  const handleConfirm = (name: string, roleId: RoleId, enemyCount?: number, botCount?: number) => {
+  const handleConfirm = (
+    name: string,
+    roleId: RoleId,
+    enemyCount?: number,
+    botCount?: number,
+    seed?: number,
+    botSettings?: BotSeatSettings,
+  ) => {
     if (isPlaytest) {
       void roomConnection.createPlaytest(
         playtestScreenType,
@@ -57,9 +64,11 @@ const GameLauncher = () => {
         roleId,
         enemyCount,
         botCount,
+        seed,
+        botSettings,
       );
     } else if (isCreating) {
-      void roomConnection.createRoom(name, roleId);
+      void roomConnection.createRoom(name, roleId, seed);
     } else {
       void roomConnection.joinRoom(joinCode, name, roleId);
     }
@@ -7,6 +7,7 @@ import {
   BottomSheet,
   Button,
   Portrait,
+  Select,
   Stack,
   Stepper,
   TextField,
@@ -17,14 +18,29 @@ import { colors } from '@/constants/colors';
 import { roles } from '@/constants/constants';
 import { useGame } from '@/contexts/GameContext';
 import { useTranslation } from '@/contexts/I18nContext';
+import {
+  BOT_DIFFICULTIES,
+  BOT_POLICIES,
+  type BotDifficultyId,
+  type BotPolicyId,
+  DEFAULT_BOT_DIFFICULTY,
+  DEFAULT_BOT_POLICY,
+} from '@/features/gameConfig';
 import type { ScreenType } from '@/types/adventure';
-import type { RoleId } from '@/types/player';
+import type { BotSeatSettings, RoleId } from '@/types/player';
 import { portraitByRole } from '@/utils/portraitByRole';
 
 type CharacterPickerProps = {
   mode: 'create' | 'join' | 'playtest';
   takenRoles: RoleId[];
-  onConfirm: (name: string, roleId: RoleId, enemyCount?: number, botCount?: number) => void;
+  onConfirm: (
+    name: string,
+    roleId: RoleId,
+    enemyCount?: number,
+    botCount?: number,
+    seed?: number,
+    botSettings?: BotSeatSettings,
+  ) => void;
   onBack: () => void;
   playtestScreenType?: ScreenType;
 };
@@ -111,10 +127,16 @@ const CharacterPicker = ({
   const [selectedRole, setSelectedRole] = useState<RoleId | null>(null);
   const [enemyCount, setEnemyCount] = useState(3);
   const [botCount, setBotCount] = useState(0);
+  const [botPolicy, setBotPolicy] = useState<BotPolicyId>(DEFAULT_BOT_POLICY);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficultyId>(DEFAULT_BOT_DIFFICULTY);
+  const [seedInput, setSeedInput] = useState('');
 
   const trimmedName = nameInput.replace(/\s+/g, '-').trim();
   const canConfirm = trimmedName.length > 0 && trimmedName.length <= 20 && selectedRole !== null;
   const focusedRole = selectedRole ? roles.find((r) => r.id === selectedRole) : null;
+  // Empty seed lets the server pick one
+  const seed = seedInput === '' ? undefined : Number(seedInput);
+  const showSeedInput = mode !== 'join';
   const showEnemyStepper =
     mode === 'playtest' && (playtestScreenType === 'combat' || playtestScreenType === 'boss_fight');
 
@@ -138,6 +160,10 @@ const CharacterPicker = ({
         selectedRole,
         showEnemyStepper ? enemyCount : undefined,
         mode === 'playtest' && showEnemyStepper ? botCount : undefined,
+        showSeedInput ? seed : undefined,
+        showEnemyStepper && botCount > 0
+          ? { policy: botPolicy, difficulty: botDifficulty }
+          : undefined,
       );
     }
   };
@@ -238,6 +264,22 @@ const CharacterPicker = ({
             </Alert>
           ) : null}
 
+          {showSeedInput ? (
+            <>
+              <Typography variant="caption" bold style={{ color: colors.textAvatarNameParchment }}>
+                {t('characterPicker.seed')}
+              </Typography>
+              <TextField
+                value={seedInput}
+                onChangeText={(text) => setSeedInput(text.replace(/\D/g, '').slice(0, 9))}
+                keyboardType="number-pad"
+                maxLength={9}
+                editable={!isBusy}
+                placeholder={t('characterPicker.seedPlaceholder')}
+              />
+            </>
+          ) : null}
+
           {showEnemyStepper ? (
             <>
               <Stack gap={4} align="center" style={{ paddingTop: 8 }}>
@@ -260,6 +302,32 @@ const CharacterPicker = ({
                 </Typography>
                 <Stepper value={botCount} min={0} max={2} onValueChange={setBotCount} />
               </Stack>
+              {botCount > 0 ? (
+                <Stack gap={6} style={{ paddingTop: 8 }}>
+                  <Typography
+                    variant="caption"
+                    bold
+                    style={{ textAlign: 'center', color: colors.textAvatarNameParchment }}
+                  >
+                    {t('lobby.botPolicies')}
+                  </Typography>
+                  <Select
+                    value={botPolicy}
+                    disabled={isBusy}
+                    options={BOT_POLICIES.map((p) => ({
+                      value: p.id,
+                      label: `${p.icon} ${t(p.labelKey)}`,
+                    }))}
+                    onSelect={setBotPolicy}
+                  />
+                  <Select
+                    value={botDifficulty}
+                    disabled={isBusy}
+                    options={BOT_DIFFICULTIES.map((d) => ({ value: d.id, label: t(d.labelKey) }))}
+                    onSelect={setBotDifficulty}
+                  />
+                </Stack>
+              ) : null}
             </>
           ) : null}
         </Stack>
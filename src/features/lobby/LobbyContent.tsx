@@ -13,6 +13,10 @@ import { colors } from '@/constants/colors';
 import { playerNameById, roles } from '@/constants/constants';
 import { useGame } from '@/contexts/GameContext';
 import { useTranslation } from '@/contexts/I18nContext';
+import AscensionSettings from '@/features/lobby/components/AscensionSettings';
+import BiomeSettings from '@/features/lobby/components/BiomeSettings';
+import BotPolicySettings from '@/features/lobby/components/BotPolicySettings';
+import TurnTimerSettings from '@/features/lobby/components/TurnTimerSettings';
 import { portraitByRole } from '@/utils/portraitByRole';
 
 const LobbyContent = () => {
@@ -86,6 +90,12 @@ const LobbyContent = () => {
             </Typography>
           ) : null}
 
+          {room?.seed != null ? (
+            <Typography variant="caption" style={{ color: colors.textAvatarNameParchment }}>
+              {t('lobby.roomSeed', { seed: room.seed })}
+            </Typography>
+          ) : null}
+
           {localPlayerId ? (
             <>
               <Divider />
@@ -135,6 +145,49 @@ const LobbyContent = () => {
           ) : (
             <EmptyState text={t('lobby.syncingSlot')} />
           )}
+
+          {room ? (
+            <>
+              <Divider />
+              <TurnTimerSettings
+                turnSeconds={room.turn_seconds}
+                botTakeoverAfter={room.bot_takeover_after}
+                editable={isHost}
+                disabled={isBusy}
+                onChange={(turnSeconds, botTakeoverAfter) =>
+                  void roomConnection.setRoomTurnTimer(turnSeconds, botTakeoverAfter)
+                }
+              />
+              <AscensionSettings
+                ascension={room.ascension}
+                unlockedAscension={roomConnection.unlockedAscension}
+                editable={isHost}
+                disabled={isBusy}
+                onChange={(ascension) => void roomConnection.setRoomAscension(ascension)}
+              />
+              <BiomeSettings
+                votes={roomConnection.biomeVotes}
+                localVote={
+                  roomConnection.biomeVotes.find((v) => v.playerId === localPlayerId)?.biome ?? null
+                }
+                disabled={isBusy}
+                onVote={(biome) => void roomConnection.voteRoomBiome(biome)}
+              />
+              <BotPolicySettings
+                seats={players.map((p) => ({
+                  playerId: p.player_id,
+                  name: p.display_name ?? playerNameById[p.player_id],
+                  policy: p.bot_policy,
+                  difficulty: p.bot_difficulty,
+                }))}
+                editable={isHost}
+                disabled={isBusy}
+                onChange={(playerId, settings) =>
+                  void roomConnection.setPlayerBotPolicy(playerId, settings)
+                }
+              />
+            </>
+          ) : null}
         </Stack>
       </ScrollView>
 
@@ -0,0 +1,66 @@
+import { Select, Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+import { getAscensionLevels, MAX_ASCENSION } from '@/features/gameConfig';
+
+type AscensionSettingsProps = {
+  ascension: number;
+  /** Highest level the host unlocked; only those can be picked */
+  unlockedAscension: number;
+  /** Only the host can change the level; everyone else sees the current setting */
+  editable: boolean;
+  disabled?: boolean;
+  onChange: (ascension: number) => void;
+};
+
+/** Lobby setting for the ascension level, with the modifiers it stacks. */
+const AscensionSettings = ({
+  ascension,
+  unlockedAscension,
+  editable,
+  disabled,
+  onChange,
+}: AscensionSettingsProps) => {
+  const { t } = useTranslation();
+
+  const levelLabel = (level: number) =>
+    level === 0 ? t('lobby.ascensionNone') : t('lobby.ascensionLevel', { level });
+  const maxLevel = Math.min(unlockedAscension, MAX_ASCENSION);
+
+  return (
+    <Stack gap={6}>
+      {editable ? (
+        <>
+          <Typography variant="caption" bold style={{ color: colors.textAvatarNameParchment }}>
+            {t('lobby.ascension')}
+          </Typography>
+          <Select
+            value={ascension}
+            disabled={disabled}
+            options={Array.from({ length: maxLevel + 1 }, (_, level) => ({
+              value: level,
+              label: levelLabel(level),
+            }))}
+            onSelect={onChange}
+          />
+          {maxLevel < MAX_ASCENSION ? (
+            <Typography variant="fine" style={{ color: colors.textSecondary }}>
+              {t('lobby.ascensionLocked')}
+            </Typography>
+          ) : null}
+        </>
+      ) : (
+        <Typography variant="caption" style={{ color: colors.textAvatarNameParchment }}>
+          {t('lobby.ascension')}: {levelLabel(ascension)}
+        </Typography>
+      )}
+      {getAscensionLevels(ascension).map((level) => (
+        <Typography key={level.level} variant="fine" style={{ color: colors.textSecondary }}>
+          {level.icon} {t(level.labelKey, level.modifier)}
+        </Typography>
+      ))}
+    </Stack>
+  );
+};
+
+export default AscensionSettings;
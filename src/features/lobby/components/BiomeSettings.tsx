@@ -0,0 +1,52 @@
+import { Select, Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+import { BIOMES, getBiome } from '@/features/gameConfig';
+import type { RoomBiomeVote } from '@/types/adventure';
+
+const RANDOM = 'random';
+
+type BiomeSettingsProps = {
+  /** Every player's vote, null for Random */
+  votes: RoomBiomeVote[];
+  /** The local player's vote, null for Random or no vote yet */
+  localVote: string | null;
+  disabled?: boolean;
+  onVote: (biome: string | null) => void;
+};
+
+/** Lobby vote on the biome the adventure is set in, or a random one. */
+const BiomeSettings = ({ votes, localVote, disabled, onVote }: BiomeSettingsProps) => {
+  const { t } = useTranslation();
+  const selected = getBiome(localVote);
+
+  const withVotes = (label: string, biome: string | null) => {
+    const count = votes.filter((vote) => vote.biome === biome).length;
+    return count > 0 ? `${label} (${count})` : label;
+  };
+
+  return (
+    <Stack gap={6}>
+      <Typography variant="caption" bold style={{ color: colors.textAvatarNameParchment }}>
+        {t('lobby.biome')}
+      </Typography>
+      <Select
+        value={selected?.id ?? RANDOM}
+        disabled={disabled}
+        options={[
+          { value: RANDOM, label: withVotes(t('lobby.biomeRandom'), null) },
+          ...BIOMES.map((b) => ({ value: b.id, label: withVotes(b.name, b.id) })),
+        ]}
+        onSelect={(value) => onVote(value === RANDOM ? null : value)}
+      />
+      <Typography variant="fine" style={{ color: colors.textSecondary }}>
+        {selected?.description ?? t('lobby.biomeRandomHint')}
+      </Typography>
+      <Typography variant="fine" style={{ color: colors.textSecondary }}>
+        {t('lobby.biomeVoteHint')}
+      </Typography>
+    </Stack>
+  );
+};
+
+export default BiomeSettings;
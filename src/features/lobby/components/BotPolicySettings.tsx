@@ -0,0 +1,91 @@
+import { Select, Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+import {
+  BOT_DIFFICULTIES,
+  BOT_DIFFICULTY_BY_ID,
+  BOT_POLICIES,
+  BOT_POLICY_BY_ID,
+  DEFAULT_BOT_DIFFICULTY,
+  DEFAULT_BOT_POLICY,
+  isBotDifficultyId,
+  isBotPolicyId,
+} from '@/features/gameConfig';
+import type { BotSeatSettings, PlayerId } from '@/types/player';
+
+type BotSeat = BotSeatSettings & {
+  playerId: PlayerId;
+  name: string;
+};
+
+type BotPolicySettingsProps = {
+  seats: BotSeat[];
+  /** Only the host can change the policies; everyone else sees the current setting */
+  editable: boolean;
+  disabled?: boolean;
+  onChange: (playerId: PlayerId, settings: BotSeatSettings) => void;
+};
+
+/** Lobby setting for how the bot plays each seat, when it plays or takes it over. */
+const BotPolicySettings = ({ seats, editable, disabled, onChange }: BotPolicySettingsProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <Stack gap={6}>
+      <Typography variant="caption" bold style={{ color: colors.textAvatarNameParchment }}>
+        {t('lobby.botPolicies')}
+      </Typography>
+      <Typography variant="fine" style={{ color: colors.textSecondary }}>
+        {t('lobby.botPoliciesHint')}
+      </Typography>
+      {seats.map((seat) => {
+        const policy =
+          BOT_POLICY_BY_ID[isBotPolicyId(seat.policy) ? seat.policy : DEFAULT_BOT_POLICY];
+        const difficulty =
+          BOT_DIFFICULTY_BY_ID[
+            isBotDifficultyId(seat.difficulty) ? seat.difficulty : DEFAULT_BOT_DIFFICULTY
+          ];
+
+        if (!editable) {
+          return (
+            <Typography
+              key={seat.playerId}
+              variant="caption"
+              style={{ color: colors.textAvatarNameParchment }}
+            >
+              {seat.name}: {policy.icon} {t(policy.labelKey)} · {t(difficulty.labelKey)}
+            </Typography>
+          );
+        }
+
+        return (
+          <Stack key={seat.playerId} gap={4}>
+            <Typography variant="fine" bold style={{ color: colors.textAvatarNameParchment }}>
+              {seat.name}
+            </Typography>
+            <Select
+              value={policy.id}
+              disabled={disabled}
+              options={BOT_POLICIES.map((p) => ({
+                value: p.id,
+                label: `${p.icon} ${t(p.labelKey)}`,
+              }))}
+              onSelect={(value) => onChange(seat.playerId, { ...seat, policy: value })}
+            />
+            <Select
+              value={difficulty.id}
+              disabled={disabled}
+              options={BOT_DIFFICULTIES.map((d) => ({ value: d.id, label: t(d.labelKey) }))}
+              onSelect={(value) => onChange(seat.playerId, { ...seat, difficulty: value })}
+            />
+            <Typography variant="fine" style={{ color: colors.textSecondary }}>
+              {t(policy.descriptionKey)}
+            </Typography>
+          </Stack>
+        );
+      })}
+    </Stack>
+  );
+};
+
+export default BotPolicySettings;
@@ -0,0 +1,71 @@
+import { Select, Stack, Typography } from '@/components';
+import { colors } from '@/constants/colors';
+import { useTranslation } from '@/contexts/I18nContext';
+
+/** 0 stands for "no timer" / "never" (the RPC takes null) */
+const TURN_SECONDS_OPTIONS = [0, 30, 60, 90, 120];
+const BOT_TAKEOVER_OPTIONS = [0, 1, 2, 3];
+
+type TurnTimerSettingsProps = {
+  turnSeconds: number | null;
+  botTakeoverAfter: number | null;
+  /** Only the host can change the timer; everyone else sees the current setting */
+  editable: boolean;
+  disabled?: boolean;
+  onChange: (turnSeconds: number | null, botTakeoverAfter: number | null) => void;
+};
+
+/** Lobby settings for the player phase timer and bot takeover of players who keep timing out. */
+const TurnTimerSettings = ({
+  turnSeconds,
+  botTakeoverAfter,
+  editable,
+  disabled,
+  onChange,
+}: TurnTimerSettingsProps) => {
+  const { t } = useTranslation();
+
+  const secondsLabel = (seconds: number) =>
+    seconds === 0 ? t('lobby.timerOff') : t('lobby.timerSeconds', { seconds });
+  const takeoverLabel = (count: number) =>
+    count === 0 ? t('lobby.botTakeoverNever') : t('lobby.botTakeover', { count });
+
+  if (!editable) {
+    return (
+      <Typography variant="caption" style={{ color: colors.textAvatarNameParchment }}>
+        {t('lobby.turnTimer')}: {secondsLabel(turnSeconds ?? 0)}
+        {turnSeconds && botTakeoverAfter ? ` · ${takeoverLabel(botTakeoverAfter)}` : ''}
+      </Typography>
+    );
+  }
+
+  return (
+    <Stack gap={6}>
+      <Typography variant="caption" bold style={{ color: colors.textAvatarNameParchment }}>
+        {t('lobby.turnTimer')}
+      </Typography>
+      <Select
+        value={turnSeconds ?? 0}
+        disabled={disabled}
+        options={TURN_SECONDS_OPTIONS.map((seconds) => ({
+          value: seconds,
+          label: secondsLabel(seconds),
+        }))}
+        onSelect={(seconds) => onChange(seconds || null, seconds ? botTakeoverAfter : null)}
+      />
+      {turnSeconds ? (
+        <Select
+          value={botTakeoverAfter ?? 0}
+          disabled={disabled}
+          options={BOT_TAKEOVER_OPTIONS.map((count) => ({
+            value: count,
+            label: takeoverLabel(count),
+          }))}
+          onSelect={(count) => onChange(turnSeconds, count || null)}
+        />
+      ) : null}
+    </Stack>
+  );
+};
+
+export default TurnTimerSettings;
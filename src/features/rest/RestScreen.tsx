@@ -1,32 +1,45 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useState } from 'react';
 import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { BottomSheet, Button, CircularHealthBar, Stack, Typography } from '@/components';
+import {
+  ActionButton,
+  BottomSheet,
+  Button,
+  CircularHealthBar,
+  Stack,
+  Typography,
+} from '@/components';
 import { colors } from '@/constants/colors';
+import { COMBAT } from '@/constants/combatSettings';
 import { useGame } from '@/contexts/GameContext';
+import { useTranslation } from '@/contexts/I18nContext';
+import DeckPicker from '@/features/adventure/components/DeckPicker';
+import { DECK_OPERATIONS, type DeckOperation } from '@/features/gameConfig';
 import type { RestScreenConfig } from '@/types/adventure';
 
 const RestScreen = () => {
   const insets = useSafeAreaInsets();
   const { roomConnection, localPlayerId, isHost } = useGame();
   const { currentScreen } = roomConnection;
-  const hasHealed = useRef(false);
+  const { t } = useTranslation();
+  const [pickingOperation, setPickingOperation] = useState<DeckOperation | null>(null);
 
   const config = currentScreen?.config as RestScreenConfig | undefined;
   const localCharacter = roomConnection.characters.find((c) => c.playerId === localPlayerId);
   const hp = localCharacter?.hp ?? 0;
   const hpMax = localCharacter?.hpMax ?? 100;
   const restorePercent = config?.hpRestorePercent ?? 50;
+  const deck = localCharacter?.deck ?? [];
+  // Removing must leave at least a full opening hand (enforced by _apply_deck_operation)
+  const canOperate = (operation: DeckOperation) =>
+    operation.id === 'remove' ? deck.length > COMBAT.openingHandSize : deck.length > 0;
+  const hasRested = Boolean(currentScreen && localCharacter?.restedScreenId === currentScreen.id);
 
   const pulseOpacity = useSharedValue(0.3);
 
   useEffect(() => {
     pulseOpacity.value = withTiming(1, { duration: 1500 });
-    if (!hasHealed.current) {
-      hasHealed.current = true;
-      void roomConnection.restHeal(restorePercent);
-    }
-  }, [pulseOpacity, roomConnection, restorePercent]);
+  }, [pulseOpacity]);
 
   const pulseStyle = useAnimatedStyle(() => ({
     opacity: pulseOpacity.value,
@@ -51,7 +64,7 @@ const RestScreen = () => {
           Rest Zone
         </Typography>
         <Typography variant="body1" style={{ color: colors.combatWaiting, textAlign: 'center' }}>
-          Your party rests and recovers {restorePercent}% HP.
+          {hasRested ? t('rest.done') : t('rest.choose')}
         </Typography>
 
         <Stack align="center" style={{ width: 90, height: 90 }}>
@@ -66,6 +79,25 @@ const RestScreen = () => {
             </Typography>
           </Stack>
         </Stack>
+
+        {hasRested ? null : (
+          <Stack gap={8} style={{ alignSelf: 'stretch', paddingHorizontal: 16 }}>
+            <ActionButton
+              label={`🔥 ${t('rest.heal', { percent: restorePercent })}`}
+              disabled={hp <= 0 || roomConnection.isBusy}
+              onPress={() => void roomConnection.restChoose('heal')}
+            />
+            {DECK_OPERATIONS.map((operation) => (
+              <ActionButton
+                key={operation.id}
+                label={`${operation.icon} ${t(operation.labelKey)}`}
+                subtitle={t(operation.descriptionKey)}
+                disabled={!canOperate(operation) || roomConnection.isBusy}
+                onPress={() => setPickingOperation(operation)}
+              />
+            ))}
+          </Stack>
+        )}
       </Stack>
 
       {isHost ? (
@@ -87,6 +119,20 @@ const RestScreen = () => {
           </Typography>
         </BottomSheet>
       )}
+
+      {pickingOperation ? (
+        <DeckPicker
+          deck={deck}
+          title={`${pickingOperation.icon} ${t(pickingOperation.labelKey)}`}
+          subtitle={t(pickingOperation.descriptionKey)}
+          disabled={roomConnection.isBusy}
+          onPick={(deckIndex) => {
+            setPickingOperation(null);
+            void roomConnection.restChoose(pickingOperation.id, deckIndex);
+          }}
+          onClose={() => setPickingOperation(null)}
+        />
+      ) : null}
     </Stack>
   );
 };
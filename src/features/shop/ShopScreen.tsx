@@ -1,9 +1,21 @@
+import { useState } from 'react';
 import { ScrollView } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { ActionButton, BottomSheet, Button, Stack, Typography } from '@/components';
 import { colors } from '@/constants/colors';
+import { COMBAT } from '@/constants/combatSettings';
 import { useGame } from '@/contexts/GameContext';
 import { useTranslation } from '@/contexts/I18nContext';
+import DeckPicker from '@/features/adventure/components/DeckPicker';
+import {
+  DECK_OPERATIONS,
+  type DeckOperation,
+  getDeckOperationCost,
+  getPotionById,
+  getRelicById,
+  type PotionDefinition,
+  type RelicDefinition,
+} from '@/features/gameConfig';
 import type { ShopScreenConfig } from '@/types/adventure';
 
 const ShopScreen = () => {
@@ -11,13 +23,29 @@ const ShopScreen = () => {
   const { roomConnection, localPlayerId, isHost } = useGame();
   const { currentScreen } = roomConnection;
   const { t } = useTranslation();
+  const [pickingOperation, setPickingOperation] = useState<DeckOperation | null>(null);
 
   const config = currentScreen?.config as ShopScreenConfig | undefined;
   const localCharacter = roomConnection.characters.find((c) => c.playerId === localPlayerId);
   const gold = localCharacter?.gold ?? 0;
+  const ownedRelics = localCharacter?.relics ?? [];
+  const beltPotions = localCharacter?.potions ?? [];
+  const beltFull = beltPotions.length >= (localCharacter?.potionSlots ?? 0);
+  const deck = localCharacter?.deck ?? [];
+  // Removing must leave at least a full opening hand (enforced by _apply_deck_operation)
+  const canOperate = (operation: DeckOperation) =>
+    operation.id === 'remove' ? deck.length > COMBAT.openingHandSize : deck.length > 0;
+  const deckOpsBought = localCharacter?.deckOpsBought ?? 0;
 
   if (!config) return null;
 
+  const potionsOnSale = (config.potions ?? [])
+    .map(getPotionById)
+    .filter((potion): potion is PotionDefinition => potion !== undefined);
+  const relicsOnSale = (config.relics ?? [])
+    .map(getRelicById)
+    .filter((relic): relic is RelicDefinition => relic?.shopCost !== undefined);
+
   const handleBuy = (itemId: string) => {
     const item = config.items.find((i) => i.id === itemId);
     if (item) {
@@ -29,8 +57,7 @@ const ShopScreen = () => {
     }
   };
 
-  const translateItemName = (nameKey: string) =>
-    t(`shop.${nameKey}` as 'shop.potion_small') || nameKey;
+  const translateItemName = (nameKey: string) => t(`shop.${nameKey}` as 'shop.elixir') || nameKey;
 
   return (
     <Stack flex={1}>
@@ -70,6 +97,66 @@ const ShopScreen = () => {
             );
           })}
         </Stack>
+
+        {potionsOnSale.length > 0 ? (
+          <Stack gap={8} style={{ marginTop: 12 }}>
+            <Typography variant="caption" bold style={{ color: colors.combatTitle }}>
+              {t('shop.potions', {
+                count: beltPotions.length,
+                slots: localCharacter?.potionSlots ?? 0,
+              })}
+            </Typography>
+            {potionsOnSale.map((potion) => (
+              <ActionButton
+                key={potion.id}
+                label={`${potion.icon} ${potion.name} (${potion.shopCost}g)`}
+                subtitle={beltFull ? t('shop.beltFull') : potion.description}
+                disabled={beltFull || gold < potion.shopCost || roomConnection.isBusy}
+                onPress={() => void roomConnection.shopBuyPotion(potion.id)}
+              />
+            ))}
+          </Stack>
+        ) : null}
+
+        <Stack gap={8} style={{ marginTop: 12 }}>
+          <Typography variant="caption" bold style={{ color: colors.combatTitle }}>
+            {t('shop.deckServices', { count: deck.length })}
+          </Typography>
+          {DECK_OPERATIONS.map((operation) => {
+            const cost = getDeckOperationCost(operation, deckOpsBought);
+            return (
+              <ActionButton
+                key={operation.id}
+                label={`${operation.icon} ${t(operation.labelKey)} (${cost}g)`}
+                subtitle={t(operation.descriptionKey)}
+                disabled={!canOperate(operation) || gold < cost || roomConnection.isBusy}
+                onPress={() => setPickingOperation(operation)}
+              />
+            );
+          })}
+        </Stack>
+
+        {relicsOnSale.length > 0 ? (
+          <Stack gap={8} style={{ marginTop: 12 }}>
+            <Typography variant="caption" bold style={{ color: colors.combatTitle }}>
+              {t('shop.relics')}
+            </Typography>
+            {relicsOnSale.map((relic) => {
+              const cost = relic.shopCost ?? 0;
+              const owned = ownedRelics.includes(relic.id);
+
+              return (
+                <ActionButton
+                  key={relic.id}
+                  label={`${relic.icon} ${relic.name} (${owned ? t('shop.owned') : `${cost}g`})`}
+                  subtitle={relic.description}
+                  disabled={owned || gold < cost || roomConnection.isBusy}
+                  onPress={() => void roomConnection.shopBuyRelic(relic.id)}
+                />
+              );
+            })}
+          </Stack>
+        ) : null}
       </ScrollView>
 
       {isHost ? (
@@ -91,6 +178,20 @@ const ShopScreen = () => {
           </Typography>
         </BottomSheet>
       )}
+
+      {pickingOperation ? (
+        <DeckPicker
+          deck={deck}
+          title={`${pickingOperation.icon} ${t(pickingOperation.labelKey)}`}
+          subtitle={`${getDeckOperationCost(pickingOperation, deckOpsBought)}g · ${t(pickingOperation.descriptionKey)}`}
+          disabled={roomConnection.isBusy}
+          onPick={(deckIndex) => {
+            setPickingOperation(null);
+            void roomConnection.shopDeckOperation(pickingOperation.id, deckIndex);
+          }}
+          onClose={() => setPickingOperation(null)}
+        />
+      ) : null}
     </Stack>
   );
 };
@@ -1,4 +1,5 @@
-import { HealthBar, Portrait } from '@/components/display';
+import { View } from 'react-native';
+import { HealthBar, Portrait, Typography } from '@/components/display';
 import { Stack } from '@/components/layout';
 import { colors } from '@/constants/colors';
 import type { StatusTone } from '@/constants/statusTones';
@@ -10,6 +11,7 @@ type PartyStatusRow = {
   role: string;
   status: string;
   tone: StatusTone;
+  isBotControlled?: boolean;
 };
 
 type PartyTopBarProps = {
@@ -55,16 +57,25 @@ const PartyTopBar = ({ partyHp, partyHpMax, rows, variant = 'default' }: PartyTo
       style={{ backgroundColor: barBg }}
     >
       {rows.map((row) => (
-        <Portrait
-          key={row.id}
-          source={portraitByRole(row.role)}
-          name={row.name}
-          size={isCompact ? 52 : 84}
-          nameColor={nameColor}
-          nameFontSize={isCompact ? 9 : 16}
-          hideName
-          style={{ width: isCompact ? 66 : 96, flexShrink: 0 }}
-        />
+        <View key={row.id} style={{ width: isCompact ? 66 : 96, flexShrink: 0 }}>
+          <Portrait
+            source={portraitByRole(row.role)}
+            name={row.name}
+            size={isCompact ? 52 : 84}
+            nameColor={nameColor}
+            nameFontSize={isCompact ? 9 : 16}
+            hideName
+          />
+          {/* Controlled by bot marker */}
+          {row.isBotControlled ? (
+            <Typography
+              variant={isCompact ? 'micro' : 'caption'}
+              style={{ position: 'absolute', right: 2, bottom: 0 }}
+            >
+              🤖
+            </Typography>
+          ) : null}
+        </View>
       ))}
       <HealthBar
         current={partyHp}
@@ -36,6 +36,10 @@ const StatusOverlay = () => {
         </Typography>
       ) : null}
 
+      {game.room?.seed != null ? (
+        <Typography variant="caption">Seed: {game.room.seed}</Typography>
+      ) : null}
+
       {connection.players.length ? (
         <Typography variant="caption">
           Players: {connection.players.map((p) => p.display_name || p.player_id).join(', ')}
@@ -2,6 +2,7 @@ import seqFireballData from '@/features/vfx/assets/sequences/Seq_Fireball.json';
 import seqGreentestData from '@/features/vfx/assets/sequences/Seq_GreenTest.json';
 import seqIceshardData from '@/features/vfx/assets/sequences/Seq_IceShard.json';
 import seqShielddoubleData from '@/features/vfx/assets/sequences/Seq_ShieldDouble.json';
+import seqTeamconvergenceData from '@/features/vfx/assets/sequences/Seq_TeamConvergence.json';
 import type { EffectSequence } from '@/features/vfx/types/sequences';
 
 const effectSequences = [
@@ -9,6 +10,7 @@ const effectSequences = [
   seqGreentestData,
   seqIceshardData,
   seqShielddoubleData,
+  seqTeamconvergenceData,
 ] as EffectSequence[];
 
 const effectSequenceById = new Map(effectSequences.map((sequence) => [sequence.id, sequence]));
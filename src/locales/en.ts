@@ -21,6 +21,8 @@ const en = {
     taken: 'Taken',
     creating: 'Creating...',
     joining: 'Joining...',
+    seed: 'Seed (optional)',
+    seedPlaceholder: 'Random',
   },
   roomBrowser: {
     yourRooms: 'Your Rooms',
@@ -43,6 +45,7 @@ const en = {
     heading: 'To Adventure, Companions',
     signedInAs: 'Signed in as %{name}',
     roomCode: 'Room code: %{code}',
+    roomSeed: 'Seed: %{seed}',
     party: 'Party',
     waitingCompanions: 'Waiting for companions to join...',
     adventurersReady: '%{count} adventurers ready',
@@ -54,6 +57,21 @@ const en = {
     syncingSlot: 'Syncing your player slot...',
     waitingAdventure: 'Waiting for adventure to start...',
     roleNotAssigned: 'This room is in progress but your role is not assigned.',
+    turnTimer: 'Turn timer',
+    timerOff: 'Off',
+    timerSeconds: '%{seconds}s',
+    botTakeover: 'Bot takes over after %{count} missed turns',
+    botTakeoverNever: 'Bot never takes over',
+    ascension: 'Ascension',
+    ascensionNone: 'None',
+    ascensionLevel: 'Ascension %{level}',
+    ascensionLocked: 'Win a run to unlock the next level',
+    biome: 'Biome',
+    biomeRandom: 'Random',
+    biomeRandomHint: 'A biome is rolled when the adventure starts',
+    biomeVoteHint: 'Everyone votes. Most votes wins; the host breaks ties, or chance does.',
+    botPolicies: 'Bot play style',
+    botPoliciesHint: 'How the bot plays each seat when it plays or takes it over',
   },
   roles: {
     warrior: 'Warrior',
@@ -76,14 +94,55 @@ const en = {
     applying: 'Applying...',
     reroll: 'Reroll',
     endTurn: 'End Turn',
+    undo: 'Undo %{card}',
     generating: 'Generating rewards...',
     addCard: 'Add a card',
     upgradeCard: 'Upgrade a card',
     bonus: 'Bonus',
+    relics: 'Relics',
+    drinkPotion: 'Drink',
+    botControlled: 'The bot is playing for you',
+    reclaimControl: 'Take back',
+    botControlledMarker: 'controlled by bot',
     freeAction: 'FREE ACTION',
     traitsEmpowered: '%{count} traits empowered',
     waitingPlayers: 'Waiting for other players...',
     loadingCards: 'Loading cards...',
+    targetParty: 'Party',
+    targetYou: 'You',
+    bossPhase: 'Phase %{phase}',
+    bossPhaseOf: 'Phase %{phase}/%{total}',
+    bossActions: {
+      cleanse: 'Cleanses its debuffs',
+      enrage: '+%{amount} strength',
+      summon: 'Summons %{count} %{name}',
+    },
+    log: {
+      title: 'Combat Log',
+      empty: 'Nothing has happened yet.',
+      turn: 'Turn %{turn}',
+      enemyPhase: 'Enemy phase',
+      allEnemies: 'all enemies',
+      party: 'the party',
+      damage: '%{actor} → %{target}: %{amount} damage',
+      block: '%{actor}: +%{amount} block',
+      heal: '%{target}: +%{amount} HP',
+      selfDamage: '%{actor}: -%{amount} HP',
+      status: '%{actor} → %{target}: %{statuses}',
+      draw: '%{actor} draws %{amount}',
+      energy: '%{actor}: +%{amount} energy',
+      bossPhase: '%{actor} enters phase %{phase}',
+      timeout: '%{actor} ran out of time (%{count} in a row)',
+      botTakeover: '%{actor} is now played by the bot',
+      botTakeoverDisconnect: '%{actor} disconnected and is now played by the bot',
+      botDecision: '🤖 %{actor}: %{why}',
+      raw: '(%{amount} raw)',
+      sources: {
+        convergence: 'Convergence',
+        team_convergence: 'Team Convergence',
+        lifesteal: 'Lifesteal',
+      },
+    },
   },
   common: {
     back: 'Back',
@@ -116,6 +175,46 @@ const en = {
     death_knight: 'Death Knight',
     lich_commander: 'Lich Commander',
   },
+  intents: {
+    attack: 'Attack',
+    heavy_attack: 'Heavy',
+    defend: 'Defend',
+    buff: 'Buff',
+    debuff: 'Debuff',
+    charge_attack: 'Charge',
+    multi_hit: 'Multi',
+    lifesteal: 'Drain',
+  },
+  statuses: {
+    burn: 'Burn',
+    burn_desc: 'Takes damage equal to its stacks when the enemy phase starts, then loses 1 stack.',
+    poison: 'Poison',
+    poison_desc:
+      'Takes damage equal to its stacks when the player phase starts, then loses 1 stack.',
+    vulnerable: 'Vulnerable',
+    vulnerable_desc: 'Takes 50% more damage from attacks. Loses 1 stack after the enemy phase.',
+    weakened: 'Weakened',
+    weakened_desc: 'Deals 25% less attack damage. Loses 1 stack after the enemy phase.',
+    frail: 'Frail',
+    frail_desc: 'Gains 25% less block. Loses 1 stack after the enemy phase.',
+    stun: 'Stun',
+    stun_desc: 'Skips its next action. Its intent carries over to the next turn.',
+    strength: 'Strength',
+    strength_desc: 'Adds its stacks to every attack hit.',
+    strength_down: 'Strength Down',
+    strength_down_desc: 'Subtracts its stacks from every attack hit until the enemy phase ends.',
+    thorns: 'Thorns',
+    thorns_desc: 'Deals its stacks back to each attacker hitting you. Lost after the enemy phase.',
+    regen: 'Regen',
+    regen_desc: 'Heals its stacks after the enemy phase, then loses 1 stack.',
+  },
+  cardKeywords: {
+    innate: 'Innate',
+    retain: 'Retain',
+    ethereal: 'Ethereal',
+    exhaust: 'Exhaust',
+    unplayable: 'Unplayable',
+  },
   bossIntros: {
     forest_guardian: 'The twisted guardian blocks your path.',
     spider_queen: 'Silk threads descend from above. She is here.',
@@ -126,12 +225,11 @@ const en = {
     lich_commander: 'The dead answer his call.',
   },
   shop: {
-    potion_small: 'Small Potion',
-    potion_small_desc: 'Restores 15 HP',
-    potion_medium: 'Medium Potion',
-    potion_medium_desc: 'Restores 30 HP',
-    potion_large: 'Large Potion',
-    potion_large_desc: 'Restores 50 HP',
+    relics: 'Relics',
+    owned: 'owned',
+    potions: 'Potions (belt %{count}/%{slots})',
+    beltFull: 'Potion belt is full',
+    deckServices: 'Deck services (%{count} cards)',
     scroll_wisdom: 'Scroll of Wisdom',
     scroll_wisdom_desc: 'Grants 30 XP',
     tome_knowledge: 'Tome of Knowledge',
@@ -141,6 +239,67 @@ const en = {
     phoenix_feather: 'Phoenix Feather',
     phoenix_feather_desc: 'Restores 80 HP',
   },
+  ascension: {
+    level1: 'Enemies have %{percent}% more HP',
+    level2: '%{percent}% of fights are elite fights',
+    level3: 'Resting heals %{percent}% less',
+    level4: 'Rewards offer %{count} fewer choice',
+    level5: 'Bosses gain an extra phase at %{hpPercent}% HP',
+  },
+  bots: {
+    balanced: 'Balanced',
+    balanced_desc: 'Weighs damage, block and healing evenly and finishes off weak enemies.',
+    cautious_tank: 'Cautious tank',
+    cautious_tank_desc: 'Blocks what is coming and aims at the most dangerous enemy.',
+    greedy_damage: 'Greedy damage',
+    greedy_damage_desc: 'Plays for damage and kills, and only defends when nearly dead.',
+    convergence_hunter: 'Convergence hunter',
+    convergence_hunter_desc: 'Charges its traits to empower cards and converge as often as it can.',
+    support: 'Support',
+    support_desc: 'Heals and shields the party before anything else.',
+    easy: 'Easy',
+    normal: 'Normal',
+    hard: 'Hard',
+    why: {
+      lethal: 'kills %{target} (%{amount} HP left)',
+      damage: '%{amount} damage on %{target}',
+      block: 'blocks %{amount} incoming damage',
+      heal: 'heals %{amount} HP',
+      support: 'protects the party (%{amount})',
+      dot: '%{amount} damage over time',
+      status: 'applies %{amount} status stacks',
+      draw: 'draws %{amount}',
+      energy: 'gains %{amount} energy',
+      charge: 'charges a trait to %{amount}',
+      empowered: 'empowered play (%{amount})',
+      converge: 'converges with %{amount} empowered traits',
+      fallback: 'nothing better to play',
+    },
+  },
+  deckOps: {
+    remove: 'Remove a card',
+    remove_desc: 'Take a card out of your deck for the rest of the run.',
+    transform: 'Transform a card',
+    transform_desc: 'Turn a card into a random card of the same school.',
+    duplicate: 'Duplicate a card',
+    duplicate_desc: 'Add a copy of a card to your deck.',
+    cancel: 'Cancel',
+  },
+  rest: {
+    choose: 'Rest by the fire or work on your deck.',
+    done: 'You made your choice. Wait for the party.',
+    heal: 'Heal %{percent}% HP',
+  },
+  map: {
+    title: 'Choose your path',
+    subtitle: 'Tap a lit screen to vote. Most votes wins; the host breaks ties, or chance does.',
+    votes: '%{count}/%{total} voted',
+    go: 'Set off',
+    goRandom: 'Set off at random',
+    waiting: 'Waiting for host to set off...',
+    phase: 'Bloc %{bloc} · %{theme}',
+    tapToContinue: 'Tap to continue',
+  },
 };
 
 export default en;
@@ -23,6 +23,8 @@ const fr: typeof en = {
     taken: 'Prise',
     creating: 'Création...',
     joining: 'Connexion...',
+    seed: 'Graine (optionnelle)',
+    seedPlaceholder: 'Aléatoire',
   },
   roomBrowser: {
     yourRooms: 'Tes salles',
@@ -45,6 +47,7 @@ const fr: typeof en = {
     heading: "À l'Aventure, Compagnons",
     signedInAs: 'Connecté en tant que %{name}',
     roomCode: 'Code de salle : %{code}',
+    roomSeed: 'Graine : %{seed}',
     party: 'Groupe',
     waitingCompanions: 'En attente de compagnons...',
     adventurersReady: '%{count} aventuriers prêts',
@@ -56,6 +59,22 @@ const fr: typeof en = {
     syncingSlot: 'Synchronisation...',
     waitingAdventure: "En attente du lancement de l'aventure...",
     roleNotAssigned: "Cette salle est en cours mais ton rôle n'est pas assigné.",
+    turnTimer: 'Minuteur de tour',
+    timerOff: 'Aucun',
+    timerSeconds: '%{seconds} s',
+    botTakeover: 'Le bot prend la main après %{count} tours manqués',
+    botTakeoverNever: 'Le bot ne prend jamais la main',
+    ascension: 'Ascension',
+    ascensionNone: 'Aucune',
+    ascensionLevel: 'Ascension %{level}',
+    ascensionLocked: 'Gagne une partie pour débloquer le niveau suivant',
+    biome: 'Biome',
+    biomeRandom: 'Aléatoire',
+    biomeRandomHint: "Un biome est tiré au sort au début de l'aventure",
+    biomeVoteHint:
+      "Tout le monde vote. Le plus de votes l'emporte ; l'hôte départage, sinon le hasard.",
+    botPolicies: 'Style de jeu du bot',
+    botPoliciesHint: 'Comment le bot joue chaque place quand il la joue ou en prend la main',
   },
   roles: {
     warrior: 'Guerrier',
@@ -78,14 +97,55 @@ const fr: typeof en = {
     applying: 'Application...',
     reroll: 'Relance',
     endTurn: 'Fin du tour',
+    undo: 'Annuler %{card}',
     generating: 'Génération des récompenses...',
     addCard: 'Ajouter une carte',
     upgradeCard: 'Améliorer une carte',
     bonus: 'Bonus',
+    relics: 'Reliques',
+    drinkPotion: 'Boire',
+    botControlled: 'Le bot joue à ta place',
+    reclaimControl: 'Reprendre',
+    botControlledMarker: 'contrôlé par le bot',
     freeAction: 'ACTION GRATUITE',
     traitsEmpowered: '%{count} traits actifs',
     waitingPlayers: 'En attente des autres joueurs...',
     loadingCards: 'Chargement des cartes...',
+    targetParty: 'Équipe',
+    targetYou: 'Toi',
+    bossPhase: 'Phase %{phase}',
+    bossPhaseOf: 'Phase %{phase}/%{total}',
+    bossActions: {
+      cleanse: 'Se purge de ses malus',
+      enrage: '+%{amount} force',
+      summon: 'Invoque %{count} %{name}',
+    },
+    log: {
+      title: 'Journal de combat',
+      empty: "Rien ne s'est encore passé.",
+      turn: 'Tour %{turn}',
+      enemyPhase: 'Phase ennemie',
+      allEnemies: 'tous les ennemis',
+      party: "l'équipe",
+      damage: '%{actor} → %{target} : %{amount} dégâts',
+      block: '%{actor} : +%{amount} armure',
+      heal: '%{target} : +%{amount} PV',
+      selfDamage: '%{actor} : -%{amount} PV',
+      status: '%{actor} → %{target} : %{statuses}',
+      draw: '%{actor} pioche %{amount}',
+      energy: '%{actor} : +%{amount} énergie',
+      bossPhase: '%{actor} entre en phase %{phase}',
+      timeout: "%{actor} n'a pas joué à temps (%{count} d'affilée)",
+      botTakeover: '%{actor} est désormais joué par le bot',
+      botTakeoverDisconnect: "%{actor} s'est déconnecté et est désormais joué par le bot",
+      botDecision: '🤖 %{actor} : %{why}',
+      raw: '(%{amount} brut)',
+      sources: {
+        convergence: 'Convergence',
+        team_convergence: "Convergence d'équipe",
+        lifesteal: 'Vol de vie',
+      },
+    },
   },
   common: {
     back: 'Retour',
@@ -118,6 +178,49 @@ const fr: typeof en = {
     death_knight: 'Chevalier de la Mort',
     lich_commander: 'Commandant Liche',
   },
+  intents: {
+    attack: 'Attaque',
+    heavy_attack: 'Lourde',
+    defend: 'Défense',
+    buff: 'Renfort',
+    debuff: 'Malus',
+    charge_attack: 'Charge',
+    multi_hit: 'Multi',
+    lifesteal: 'Drain',
+  },
+  statuses: {
+    burn: 'Brûlure',
+    burn_desc:
+      'Subit autant de dégâts que de charges au début de la phase ennemie, puis perd 1 charge.',
+    poison: 'Poison',
+    poison_desc:
+      'Subit autant de dégâts que de charges au début de la phase des joueurs, puis perd 1 charge.',
+    vulnerable: 'Vulnérable',
+    vulnerable_desc: 'Subit 50 % de dégâts en plus. Perd 1 charge après la phase ennemie.',
+    weakened: 'Affaibli',
+    weakened_desc: 'Inflige 25 % de dégâts en moins. Perd 1 charge après la phase ennemie.',
+    frail: 'Fragile',
+    frail_desc: "Gagne 25 % d'armure en moins. Perd 1 charge après la phase ennemie.",
+    stun: 'Étourdi',
+    stun_desc: 'Passe sa prochaine action. Son intention est reportée au tour suivant.',
+    strength: 'Force',
+    strength_desc: 'Ajoute ses charges à chaque coup porté.',
+    strength_down: 'Force réduite',
+    strength_down_desc:
+      "Retire ses charges à chaque coup porté jusqu'à la fin de la phase ennemie.",
+    thorns: 'Épines',
+    thorns_desc:
+      'Renvoie ses charges à chaque attaquant qui vous frappe. Perdu après la phase ennemie.',
+    regen: 'Régénération',
+    regen_desc: 'Soigne ses charges après la phase ennemie, puis perd 1 charge.',
+  },
+  cardKeywords: {
+    innate: 'Inné',
+    retain: 'Retenue',
+    ethereal: 'Éthéré',
+    exhaust: 'Épuisement',
+    unplayable: 'Injouable',
+  },
   bossIntros: {
     forest_guardian: 'Le gardien corrompu bloque votre chemin.',
     spider_queen: 'Des fils de soie descendent du plafond. Elle est là.',
@@ -128,12 +231,11 @@ const fr: typeof en = {
     lich_commander: 'Les morts répondent à son appel.',
   },
   shop: {
-    potion_small: 'Petite Potion',
-    potion_small_desc: 'Restaure 15 PV',
-    potion_medium: 'Potion Moyenne',
-    potion_medium_desc: 'Restaure 30 PV',
-    potion_large: 'Grande Potion',
-    potion_large_desc: 'Restaure 50 PV',
+    relics: 'Reliques',
+    owned: 'possédée',
+    potions: 'Potions (ceinture %{count}/%{slots})',
+    beltFull: 'Ceinture de potions pleine',
+    deckServices: 'Services de deck (%{count} cartes)',
     scroll_wisdom: 'Parchemin de Sagesse',
     scroll_wisdom_desc: 'Accorde 30 XP',
     tome_knowledge: 'Tome de Savoir',
@@ -143,6 +245,70 @@ const fr: typeof en = {
     phoenix_feather: 'Plume de Phénix',
     phoenix_feather_desc: 'Restaure 80 PV',
   },
+  ascension: {
+    level1: 'Les ennemis ont %{percent}% de PV en plus',
+    level2: "%{percent}% des combats sont des combats d'élite",
+    level3: 'Le repos soigne %{percent}% de moins',
+    level4: 'Les récompenses proposent %{count} choix de moins',
+    level5: 'Les boss gagnent une phase de plus à %{hpPercent}% PV',
+  },
+  bots: {
+    balanced: 'Équilibré',
+    balanced_desc: 'Pèse dégâts, blocage et soins à parts égales et achève les ennemis affaiblis.',
+    cautious_tank: 'Tank prudent',
+    cautious_tank_desc: "Bloque ce qui arrive et vise l'ennemi le plus dangereux.",
+    greedy_damage: 'Dégâts avant tout',
+    greedy_damage_desc:
+      "Joue les dégâts et les mises à mort, et ne se défend qu'au bord de la mort.",
+    convergence_hunter: 'Chasseur de convergence',
+    convergence_hunter_desc:
+      'Charge ses traits pour renforcer ses cartes et converger aussi souvent que possible.',
+    support: 'Soutien',
+    support_desc: 'Soigne et protège le groupe avant tout.',
+    easy: 'Facile',
+    normal: 'Normal',
+    hard: 'Difficile',
+    why: {
+      lethal: 'achève %{target} (%{amount} PV restants)',
+      damage: '%{amount} dégâts sur %{target}',
+      block: 'bloque %{amount} dégâts à venir',
+      heal: 'soigne %{amount} PV',
+      support: 'protège le groupe (%{amount})',
+      dot: '%{amount} dégâts sur la durée',
+      status: 'applique %{amount} cumuls de statut',
+      draw: 'pioche %{amount}',
+      energy: "gagne %{amount} d'énergie",
+      charge: "charge un trait jusqu'à %{amount}",
+      empowered: 'coup renforcé (%{amount})',
+      converge: 'converge avec %{amount} traits renforcés',
+      fallback: 'rien de mieux à jouer',
+    },
+  },
+  deckOps: {
+    remove: 'Retirer une carte',
+    remove_desc: 'Retire une carte de ton deck pour le reste de la partie.',
+    transform: 'Transformer une carte',
+    transform_desc: 'Change une carte en une carte aléatoire de la même école.',
+    duplicate: 'Dupliquer une carte',
+    duplicate_desc: "Ajoute une copie d'une carte à ton deck.",
+    cancel: 'Annuler',
+  },
+  rest: {
+    choose: 'Repose-toi près du feu ou travaille ton deck.',
+    done: 'Tu as fait ton choix. Attends le groupe.',
+    heal: 'Soigner %{percent}% des PV',
+  },
+  map: {
+    title: 'Choisis ton chemin',
+    subtitle:
+      "Touche un écran éclairé pour voter. Le plus de votes l'emporte ; l'hôte départage, sinon le hasard.",
+    votes: '%{count}/%{total} ont voté',
+    go: 'En route',
+    goRandom: 'En route au hasard',
+    waiting: "En attente du départ de l'hôte...",
+    phase: 'Bloc %{bloc} · %{theme}',
+    tapToContinue: 'Touche pour continuer',
+  },
 };
 
 export default fr;
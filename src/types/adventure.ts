@@ -1,3 +1,5 @@
+import type { PlayerId } from '@/types/player';
+
 export type ScreenType = 'combat' | 'narrative_choice' | 'puzzle' | 'shop' | 'boss_fight' | 'rest';
 export type PhaseType = 'early' | 'core' | 'resolve';
 
@@ -8,19 +10,37 @@ export type ScreenEffect = {
 };
 
 export type CombatScreenConfig = {
-  enemyCount: number;
+  /** No longer read: the enemies come from the rolled encounter */
+  enemyCount?: number;
+  /** Playtests only: the encounter's enemies are repeated or cut to this count */
+  enemyCountOverride?: number | null;
   levelRange: [number, number];
   isBoss: boolean;
+  /** Elite fight rolled by generate_adventure at higher ascensions: tougher enemies */
+  isElite?: boolean;
+  /** Biome boss of the screen (BiomePhase.bossId), looks up its intro */
+  bossId?: string;
+  /** Name the boss enemy takes (BiomePhase.bossName) */
   bossName?: string;
+  /** Biome id narrowing the encounter roll; any encounter when unset */
+  biome?: string;
+  /** Encounter rolled by seed_enemies_for_screen (ENCOUNTERS id) */
+  encounterId?: string;
 };
 
 export type ChoiceScreenConfig = {
+  /** Biome narrative template the screen was drawn from (BIOMES), never repeated in a run */
+  narrativeId?: string;
   prompt: string;
-  options: { id: string; text: string; effect: ScreenEffect }[];
+  options: { id: string; text: string; effect: ScreenEffect; flavor?: string }[];
 };
 
 export type ShopScreenConfig = {
   items: { id: string; name: string; cost: number; effect: ScreenEffect }[];
+  /** Potion ids on sale for the belt, bought through shop_buy_potion */
+  potions?: string[];
+  /** Relic ids on sale, bought through shop_buy_relic */
+  relics?: string[];
 };
 
 export type RestScreenConfig = {
@@ -51,4 +71,37 @@ export type AdventureScreen = {
   config: ScreenConfig;
   isCompleted: boolean;
   resultJson: Record<string, unknown> | null;
+  /** Row of the adventure map, counted from the start of the run */
+  mapRow: number;
+  /** Column within the row, 0 on the left */
+  mapLane: number;
+  /** Positions this screen leads to; more than one is a fork the party votes on, none ends the run */
+  nextPositions: number[];
+};
+
+/** A screen as drawn on the adventure map, without its config */
+export type AdventureMapNode = Pick<
+  AdventureScreen,
+  | 'id'
+  | 'bloc'
+  | 'phase'
+  | 'position'
+  | 'screenType'
+  | 'isCompleted'
+  | 'mapRow'
+  | 'mapLane'
+  | 'nextPositions'
+>;
+
+/** A player's vote on the next screen at a fork of the map */
+export type AdventurePathVote = {
+  playerId: PlayerId;
+  nextPosition: number;
+};
+
+/** A player's vote in the lobby on the biome of the run */
+export type RoomBiomeVote = {
+  playerId: PlayerId;
+  /** null votes for a random biome */
+  biome: string | null;
 };
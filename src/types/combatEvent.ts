@@ -0,0 +1,43 @@
+import type { CombatTurnPhase } from '@/types/combatTurn';
+
+type CombatEventType =
+  | 'damage'
+  | 'block'
+  | 'heal'
+  | 'self_damage'
+  | 'status'
+  | 'draw'
+  | 'energy'
+  | 'boss_phase'
+  | 'timeout'
+  | 'bot_takeover'
+  | 'bot_decision';
+
+type CombatActorType = 'player' | 'enemy';
+
+/** One resolved combat action, as persisted in combat_events */
+type CombatEvent = {
+  id: number;
+  screenId: string;
+  turnNumber: number;
+  phase: CombatTurnPhase;
+  eventType: CombatEventType;
+  actorType: CombatActorType;
+  /** player_id for players, enemy_combat_state id for enemies */
+  actorId: string;
+  targetType: CombatActorType | null;
+  /** Null with a targetType means the whole side */
+  targetId: string | null;
+  cardId: string | null;
+  /**
+   * Non-card origin: 'convergence', 'team_convergence', an intent type or a status id ('burn',
+   * 'thorns'...). For bot_decision, the reason the bot's policy picked the play.
+   */
+  source: string | null;
+  /** For boss_phase, the phase entered; for timeout, the consecutive missed turns */
+  rawAmount: number | null;
+  finalAmount: number | null;
+  statuses: Record<string, number>;
+};
+
+export type { CombatActorType, CombatEvent, CombatEventType };
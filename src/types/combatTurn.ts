@@ -8,6 +8,8 @@ type CombatTurn = {
   screenId: string;
   turnNumber: number;
   phase: CombatTurnPhase;
+  /** When a timed player phase ends (ISO timestamp), null without a turn timer */
+  phaseDeadline: string | null;
 };
 
 type PlayerTurnState = {
@@ -18,4 +20,13 @@ type PlayerTurnState = {
   hasEndedTurn: boolean;
 };
 
-export type { CombatTurn, CombatTurnPhase, PlayerTurnState };
+/** A card play that combat_undo_last can still revert (combat_undo_stack) */
+type CombatUndoEntry = {
+  id: number;
+  screenId: string;
+  turnNumber: number;
+  playerId: PlayerId;
+  cardId: string | null;
+};
+
+export type { CombatTurn, CombatTurnPhase, CombatUndoEntry, PlayerTurnState };
@@ -14,3 +14,9 @@ export type PartyEmote = {
   sceneId?: string;
   text: EmoteText;
 };
+
+/** How the bot plays a seat: ids from BOT_POLICIES and BOT_DIFFICULTIES */
+export type BotSeatSettings = {
+  policy: string;
+  difficulty: string;
+};
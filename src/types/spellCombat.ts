@@ -6,6 +6,8 @@ type DeckCardInstance = {
   cardId: string;
   upgraded: boolean;
   usageCount: number;
+  /** Slot of the run deck card (characters.deck) it was dealt from; unset for cards made in combat */
+  deckIndex?: number;
 };
 
 type PlayerCombatState = {
@@ -19,21 +21,25 @@ type PlayerCombatState = {
   drawPile: DeckCardInstance[];
   hand: DeckCardInstance[];
   discardPile: DeckCardInstance[];
+  exhaustPile: DeckCardInstance[];
 
   // Resources
   energy: number;
   maxEnergy: number;
   block: number;
+  retainedBlock: number;
 
   // Trait charges (empowerment)
   traitCharges: Record<string, number>;
   attuneCharges: number;
   attuneTargetTrait: string | null;
 
-  // Status effects
+  // Status effects (rules in gameConfig/statuses.ts)
   burn: number;
+  poison: number;
   vulnerable: number;
   weakened: number;
+  frail: number;
   thorns: number;
   regen: number;
 
@@ -56,12 +62,21 @@ type EnemyCombatState = {
   strength: number;
   block: number;
   intentIndex: number;
+  /** Boss phase: 0 until the first HP threshold is crossed, indexes into the template's phases */
+  phase: number;
   isDead: boolean;
+  /** Player the current intent aims at; null for whole-party or untargeted intents */
+  targetPlayerId: PlayerId | null;
+  lastAttackerId: PlayerId | null;
 
-  // Status effects on enemy
+  // Status effects on enemy (rules in gameConfig/statuses.ts)
   burn: number;
+  poison: number;
   vulnerable: number;
   weakened: number;
+  frail: number;
+  stun: number;
+  strengthDown: number;
 };
 
 export type { DeckCardInstance, EnemyCombatState, PlayerCombatState };
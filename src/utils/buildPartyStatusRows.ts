@@ -7,6 +7,8 @@ export type PartyStatusRow = {
   role: string;
   status: string;
   tone: 'ready' | 'waiting' | 'neutral' | 'offline';
+  /** Human seat currently played by the bot */
+  isBotControlled: boolean;
 };
 
 export function buildPartyStatusRows(params: {
@@ -15,6 +17,7 @@ export function buildPartyStatusRows(params: {
     role_id: RoleId | null;
     display_name: string | null;
     is_connected: boolean;
+    bot_takeover: boolean;
   }>;
   isAdventureStarted: boolean;
   resolvedOption: unknown;
@@ -35,7 +38,10 @@ export function buildPartyStatusRows(params: {
         ? 'ready'
         : 'waiting';
 
-    if (!player.is_connected) {
+    if (player.bot_takeover) {
+      status = 'Controlled by bot';
+      tone = 'offline';
+    } else if (!player.is_connected) {
       status = 'Disconnected';
       tone = 'offline';
     } else if (isAdventureStarted && resolvedOption && !isStoryEnded) {
@@ -44,6 +50,6 @@ export function buildPartyStatusRows(params: {
       tone = hasContinued ? 'ready' : 'waiting';
     }
 
-    return { id: player.player_id, name, role, status, tone };
+    return { id: player.player_id, name, role, status, tone, isBotControlled: player.bot_takeover };
   });
 }